@@ -0,0 +1,12 @@
+-- Migration: 005_add_api_key_restrictions.sql
+-- Description: Restrict API keys to specific services and client IP ranges
+-- Created: 2026-10-19
+
+-- NULL means unrestricted. CIDRs are stored as text and validated by the
+-- application, which also accepts bare addresses as single-host ranges.
+ALTER TABLE api_keys
+    ADD COLUMN allowed_service_ids UUID[],
+    ADD COLUMN allowed_cidrs TEXT[];
+
+COMMENT ON COLUMN api_keys.allowed_service_ids IS 'Services this key may act on (NULL for all services)';
+COMMENT ON COLUMN api_keys.allowed_cidrs IS 'Client IP ranges this key may be used from (NULL for any address)';
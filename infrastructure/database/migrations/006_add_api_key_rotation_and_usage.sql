@@ -0,0 +1,22 @@
+-- Migration: 006_add_api_key_rotation_and_usage.sql
+-- Description: Track API key rotation, per-key usage and expiry warnings
+-- Created: 2026-10-19
+
+ALTER TABLE api_keys
+    ADD COLUMN rotated_to_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+    ADD COLUMN rotated_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN request_count BIGINT NOT NULL DEFAULT 0,
+    ADD COLUMN last_used_ip VARCHAR(45),
+    ADD COLUMN last_used_user_agent TEXT,
+    ADD COLUMN expiry_warning_sent_at TIMESTAMP WITH TIME ZONE;
+
+-- Supports the expiry warning scan
+CREATE INDEX idx_api_keys_expiring ON api_keys(expires_at)
+    WHERE revoked_at IS NULL AND expires_at IS NOT NULL AND expiry_warning_sent_at IS NULL;
+
+COMMENT ON COLUMN api_keys.rotated_to_id IS 'Successor key issued by rotation (NULL if not rotated)';
+COMMENT ON COLUMN api_keys.rotated_at IS 'When the key was rotated; it stays valid until expires_at';
+COMMENT ON COLUMN api_keys.request_count IS 'Number of authenticated requests made with this key';
+COMMENT ON COLUMN api_keys.last_used_ip IS 'Client IP address of the most recent request';
+COMMENT ON COLUMN api_keys.last_used_user_agent IS 'User agent of the most recent request';
+COMMENT ON COLUMN api_keys.expiry_warning_sent_at IS 'When the upcoming expiry warning was issued';
@@ -0,0 +1,51 @@
+-- Migration: 007_create_sso_tables.sql
+-- Description: Per-tenant OIDC connections and identities linked to users
+-- Created: 2026-10-19
+
+-- Create sso_connections table
+CREATE TABLE sso_connections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id VARCHAR(100) NOT NULL,
+    issuer VARCHAR(500) NOT NULL,
+    discovery_url VARCHAR(500),
+    client_id VARCHAR(255) NOT NULL,
+    client_secret TEXT,
+    redirect_uri VARCHAR(500) NOT NULL,
+    scopes TEXT[] NOT NULL DEFAULT '{openid,email,profile}',
+    groups_claim VARCHAR(100) NOT NULL DEFAULT 'groups',
+    role_mappings JSONB NOT NULL DEFAULT '{}',
+    default_role user_role NOT NULL DEFAULT 'consumer',
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT sso_connections_tenant_unique UNIQUE(tenant_id)
+);
+
+-- Create trigger for sso_connections updated_at
+CREATE TRIGGER update_sso_connections_updated_at
+    BEFORE UPDATE ON sso_connections
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Create user_identities table
+CREATE TABLE user_identities (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    connection_id UUID NOT NULL REFERENCES sso_connections(id) ON DELETE CASCADE,
+    subject VARCHAR(255) NOT NULL,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    email VARCHAR(255),
+    last_login_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT user_identities_subject_unique UNIQUE(connection_id, subject)
+);
+
+CREATE INDEX idx_user_identities_user ON user_identities(user_id);
+
+COMMENT ON TABLE sso_connections IS 'OIDC identity provider configuration per tenant';
+COMMENT ON TABLE user_identities IS 'Identity provider subjects linked to users';
+
+COMMENT ON COLUMN sso_connections.discovery_url IS 'Discovery document URL (defaults to the issuer well-known URL)';
+COMMENT ON COLUMN sso_connections.role_mappings IS 'Map of IdP group name to user role';
+COMMENT ON COLUMN sso_connections.default_role IS 'Role for users whose groups match no mapping';
@@ -0,0 +1,29 @@
+-- Migration: 008_add_mfa.sql
+-- Description: TOTP multi-factor authentication and recovery codes
+-- Created: 2026-10-19
+
+ALTER TABLE users
+    ADD COLUMN mfa_enabled BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN mfa_secret TEXT,
+    ADD COLUMN mfa_last_used_step BIGINT,
+    ADD COLUMN mfa_enrolled_at TIMESTAMP WITH TIME ZONE;
+
+-- Create mfa_recovery_codes table
+CREATE TABLE mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT mfa_recovery_codes_unique UNIQUE(user_id, code_hash)
+);
+
+CREATE INDEX idx_mfa_recovery_codes_unused ON mfa_recovery_codes(user_id)
+    WHERE used_at IS NULL;
+
+COMMENT ON TABLE mfa_recovery_codes IS 'Single-use MFA recovery codes (SHA-256 hashes)';
+
+COMMENT ON COLUMN users.mfa_enabled IS 'Whether TOTP is confirmed and required at login';
+COMMENT ON COLUMN users.mfa_secret IS 'TOTP secret, encrypted with AES-256-GCM';
+COMMENT ON COLUMN users.mfa_last_used_step IS 'Last accepted TOTP time step, to reject code reuse';
@@ -0,0 +1,90 @@
+-- Migration: 009_create_teams_and_ownership_transfers.sql
+-- Description: Team-owned services with member roles, and ownership transfers that the recipient must accept
+-- Created: 2026-10-19
+
+-- Create team_role enum
+CREATE TYPE team_role AS ENUM ('owner', 'maintainer', 'viewer');
+
+-- Create ownership_transfer_status enum
+CREATE TYPE ownership_transfer_status AS ENUM ('pending', 'accepted', 'declined', 'cancelled', 'expired');
+
+-- Create teams table
+CREATE TABLE teams (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    slug VARCHAR(100) NOT NULL,
+    description TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT teams_slug_unique UNIQUE(slug),
+    CONSTRAINT valid_team_slug CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$')
+);
+
+-- Create trigger for teams updated_at
+CREATE TRIGGER update_teams_updated_at
+    BEFORE UPDATE ON teams
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Create team_members table
+CREATE TABLE team_members (
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role team_role NOT NULL DEFAULT 'viewer',
+    added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX idx_team_members_user ON team_members(user_id);
+
+-- Create trigger for team_members updated_at
+CREATE TRIGGER update_team_members_updated_at
+    BEFORE UPDATE ON team_members
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Services may be owned by a team; provider_id remains the publishing user
+ALTER TABLE services
+    ADD COLUMN owner_team_id UUID REFERENCES teams(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_services_owner_team ON services(owner_team_id)
+    WHERE owner_team_id IS NOT NULL;
+
+-- Create service_ownership_transfers table
+CREATE TABLE service_ownership_transfers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+    from_user_id UUID NOT NULL REFERENCES users(id),
+    from_team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+    to_user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    to_team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+    status ownership_transfer_status NOT NULL DEFAULT 'pending',
+    message TEXT,
+    requested_by UUID NOT NULL REFERENCES users(id),
+    responded_by UUID REFERENCES users(id),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT transfer_single_recipient CHECK ((to_user_id IS NULL) <> (to_team_id IS NULL))
+);
+
+-- At most one pending transfer per service
+CREATE UNIQUE INDEX idx_ownership_transfers_pending
+    ON service_ownership_transfers(service_id)
+    WHERE status = 'pending';
+
+CREATE INDEX idx_ownership_transfers_to_user ON service_ownership_transfers(to_user_id, status);
+CREATE INDEX idx_ownership_transfers_to_team ON service_ownership_transfers(to_team_id, status);
+
+COMMENT ON TABLE teams IS 'Teams and organizations that own services';
+COMMENT ON TABLE team_members IS 'Team membership with owner, maintainer or viewer role';
+COMMENT ON TABLE service_ownership_transfers IS 'Service ownership transfers, applied only when the recipient accepts';
+
+COMMENT ON COLUMN services.owner_team_id IS 'Owning team; when NULL the service is owned by provider_id';
+COMMENT ON COLUMN service_ownership_transfers.from_team_id IS 'Owning team at request time, if any';
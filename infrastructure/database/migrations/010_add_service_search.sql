@@ -0,0 +1,56 @@
+-- Migration: 010_add_service_search.sql
+-- Description: Weighted full-text search vector and trigram index for service search
+-- Created: 2026-10-19
+
+-- Trigram matching for typo-tolerant name search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE services
+    ADD COLUMN search_vector tsvector;
+
+-- Weights: name (A) > tags (B) > description (C) > capabilities (D)
+CREATE OR REPLACE FUNCTION services_search_vector(
+    p_name TEXT,
+    p_tags TEXT[],
+    p_description TEXT,
+    p_capabilities JSONB
+)
+RETURNS tsvector AS $$
+    SELECT
+        setweight(to_tsvector('english', coalesce(p_name, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(array_to_string(p_tags, ' '), '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(p_description, '')), 'C') ||
+        setweight(to_tsvector('english', coalesce((
+            SELECT string_agg(concat_ws(' ', capability->>'name', capability->>'description'), ' ')
+            FROM jsonb_array_elements(p_capabilities) AS capability
+        ), '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keep search_vector in step with the searchable columns
+CREATE OR REPLACE FUNCTION update_services_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector := services_search_vector(NEW.name, NEW.tags, NEW.description, NEW.capabilities);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_services_search_vector
+    BEFORE INSERT OR UPDATE OF name, tags, description, capabilities ON services
+    FOR EACH ROW
+    EXECUTE FUNCTION update_services_search_vector();
+
+-- Backfill existing rows without touching updated_at or status validation
+ALTER TABLE services DISABLE TRIGGER update_services_updated_at;
+ALTER TABLE services DISABLE TRIGGER validate_service_status;
+
+UPDATE services
+SET search_vector = services_search_vector(name, tags, description, capabilities);
+
+ALTER TABLE services ENABLE TRIGGER update_services_updated_at;
+ALTER TABLE services ENABLE TRIGGER validate_service_status;
+
+CREATE INDEX idx_services_search_vector ON services USING GIN(search_vector);
+CREATE INDEX idx_services_name_trgm ON services USING GIN(name gin_trgm_ops);
+
+COMMENT ON COLUMN services.search_vector IS 'Weighted full-text search document (name, tags, description, capabilities)';
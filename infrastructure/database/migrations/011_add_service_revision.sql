@@ -0,0 +1,22 @@
+-- Migration: 011_add_service_revision.sql
+-- Description: Revision counter on services, exposed as the ETag for optimistic concurrency
+-- Created: 2026-10-19
+
+ALTER TABLE services
+    ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+
+-- Bump the revision on every write, whichever code path makes it
+CREATE OR REPLACE FUNCTION increment_service_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.revision := OLD.revision + 1;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER increment_service_revision
+    BEFORE UPDATE ON services
+    FOR EACH ROW
+    EXECUTE FUNCTION increment_service_revision();
+
+COMMENT ON COLUMN services.revision IS 'Incremented on every update; sent as the ETag and checked against If-Match';
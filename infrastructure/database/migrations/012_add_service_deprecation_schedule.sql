@@ -0,0 +1,10 @@
+-- Migration: 012_add_service_deprecation_schedule.sql
+-- Description: Sunset date and successor of deprecated services, advertised in Deprecation/Sunset/Link metadata
+-- Created: 2026-10-19
+
+ALTER TABLE services
+    ADD COLUMN sunset_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN successor_service_id UUID REFERENCES services(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN services.sunset_at IS 'When a deprecated service stops being served; sent as the Sunset header';
+COMMENT ON COLUMN services.successor_service_id IS 'Service consumers of a deprecated service should migrate to';
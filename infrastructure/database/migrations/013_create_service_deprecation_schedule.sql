@@ -0,0 +1,54 @@
+-- Migration: 013_create_service_deprecation_schedule.sql
+-- Description: Deprecation schedule read by the deprecation scheduler, which notifies consumers and retires
+--              services at their sunset, and the event outbox deprecations are recorded in
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS service_deprecations (
+    service_id UUID PRIMARY KEY REFERENCES services(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    successor_service_id UUID NOT NULL REFERENCES services(id),
+    successor_version VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+    deprecated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    sunset_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    consumers_notified INTEGER NOT NULL DEFAULT 0,
+    notified_at TIMESTAMP WITH TIME ZONE,
+    retired_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT valid_deprecation_status CHECK (status IN ('scheduled', 'retired'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_deprecations_sunset ON service_deprecations(sunset_at) WHERE status = 'scheduled';
+
+-- One row per consumer told about a deprecation, so notices are sent once
+CREATE TABLE IF NOT EXISTS service_deprecation_notices (
+    service_id UUID NOT NULL REFERENCES service_deprecations(service_id) ON DELETE CASCADE,
+    consumer_id UUID NOT NULL,
+    notified_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (service_id, consumer_id)
+);
+
+-- Transactional outbox: events are inserted in the transaction of the change
+-- they describe and relayed to Analytics Hub and the Governance Dashboard
+CREATE TABLE IF NOT EXISTS event_outbox (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    destination VARCHAR(20) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    aggregate_id UUID,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    delivered_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT valid_outbox_destination CHECK (destination IN ('analytics', 'governance')),
+    CONSTRAINT valid_outbox_status CHECK (status IN ('pending', 'delivered', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_outbox_due ON event_outbox(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_event_outbox_status ON event_outbox(status, created_at);
+
+COMMENT ON TABLE service_deprecations IS 'Deprecation schedule shared by both service APIs; services.sunset_at mirrors sunset_at for the Sunset header';
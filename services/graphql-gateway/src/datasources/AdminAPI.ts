@@ -32,20 +32,6 @@ export class AdminAPI extends BaseAPI {
     return this.get('/stats');
   }
 
-  /**
-   * Approve service
-   */
-  async approveService(id: string, notes?: string): Promise<any> {
-    return this.post(`/services/${id}/approve`, { notes });
-  }
-
-  /**
-   * Reject service
-   */
-  async rejectService(id: string, reason: string): Promise<any> {
-    return this.post(`/services/${id}/reject`, { reason });
-  }
-
   /**
    * Manage user
    */
@@ -57,6 +57,33 @@ export class PublishingAPI extends BaseAPI {
     return this.get(`/providers/${id}`);
   }
 
+  /**
+   * Get the latest approval of a service
+   */
+  async getServiceApproval(id: string): Promise<any> {
+    const response = await this.get<any>(`/services/${id}/approval`);
+    return response.data;
+  }
+
+  /**
+   * List pending approvals the caller can review
+   */
+  async listAssignedApprovals(): Promise<any[]> {
+    const response = await this.get<any>('/approvals');
+    return response.data;
+  }
+
+  /**
+   * Review the pending approval of a service
+   */
+  async reviewService(
+    id: string,
+    review: { action: string; comment?: string; feedback?: Array<{ field: string; message: string }> }
+  ): Promise<any> {
+    const response = await this.post<any>(`/services/${id}/approval/reviews`, review);
+    return response.data;
+  }
+
   /**
    * Batch get services by IDs
    */
@@ -36,6 +36,29 @@ const Query = {
     return context.dataSources.publishingAPI.validateService(input);
   },
 
+  serviceApproval: async (
+    _: any,
+    { serviceId }: { serviceId: string },
+    context: Context
+  ) => {
+    requireAuth(context);
+
+    try {
+      return await context.dataSources.publishingAPI.getServiceApproval(serviceId);
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  pendingApprovals: async (_: any, __: any, context: Context) => {
+    requireAuth(context);
+
+    return context.dataSources.publishingAPI.listAssignedApprovals();
+  },
+
   // ============================================================
   // Discovery Service
   // ============================================================
@@ -275,7 +298,7 @@ const Mutation = {
   },
 
   // ============================================================
-  // Admin Service
+  // Service Approvals
   // ============================================================
 
   approveService: async (
@@ -283,14 +306,20 @@ const Mutation = {
     { id, notes }: { id: string; notes?: string },
     context: Context
   ) => {
-    requireRole(context, 'ADMIN');
+    requireAuth(context);
 
-    const result = await context.dataSources.adminAPI.approveService(id, notes);
+    const approval = await context.dataSources.publishingAPI.reviewService(id, {
+      action: 'approve',
+      comment: notes,
+    });
 
     return {
       success: true,
-      service: result.service,
-      message: result.message || 'Service approved successfully',
+      service: await context.loaders.serviceLoader.load(id),
+      message: approval.status === 'approved'
+        ? 'Service approved successfully'
+        : `Approval recorded; ${approval.stages[approval.currentStage].name} review is pending`,
+      approval,
       timestamp: new Date(),
     };
   },
@@ -300,18 +329,50 @@ const Mutation = {
     { id, reason }: { id: string; reason: string },
     context: Context
   ) => {
-    requireRole(context, 'ADMIN');
+    requireAuth(context);
 
-    const result = await context.dataSources.adminAPI.rejectService(id, reason);
+    const approval = await context.dataSources.publishingAPI.reviewService(id, {
+      action: 'reject',
+      comment: reason,
+    });
 
     return {
       success: true,
-      service: result.service,
+      service: await context.loaders.serviceLoader.load(id),
       reason,
+      approval,
       timestamp: new Date(),
     };
   },
 
+  requestServiceChanges: async (
+    _: any,
+    { id, comment, feedback }: { id: string; comment?: string; feedback?: Array<{ field: string; message: string }> },
+    context: Context
+  ) => {
+    requireAuth(context);
+
+    return context.dataSources.publishingAPI.reviewService(id, {
+      action: 'request_changes',
+      comment,
+      feedback: feedback || [],
+    });
+  },
+
+  commentOnServiceApproval: async (
+    _: any,
+    { id, comment }: { id: string; comment: string },
+    context: Context
+  ) => {
+    requireAuth(context);
+
+    return context.dataSources.publishingAPI.reviewService(id, { action: 'comment', comment });
+  },
+
+  // ============================================================
+  // Admin Service
+  // ============================================================
+
   manageUser: async (
     _: any,
     { userId, action, data }: { userId: string; action: string; data?: any },
@@ -535,6 +596,24 @@ const Service = {
   },
 };
 
+/**
+ * The publishing service reports approval states in snake_case; the schema
+ * exposes them as enums
+ */
+const toEnum = (value: string) => value.toUpperCase();
+
+const ServiceApproval = {
+  status: (parent: any) => toEnum(parent.status),
+};
+
+const ApprovalStage = {
+  status: (parent: any) => toEnum(parent.status),
+};
+
+const ApprovalReview = {
+  action: (parent: any) => toEnum(parent.action),
+};
+
 /**
  * Field resolvers for Category type
  */
@@ -605,6 +684,9 @@ export const resolvers = {
   Mutation,
   Subscription,
   Service,
+  ServiceApproval,
+  ApprovalStage,
+  ApprovalReview,
   Category,
   ServiceResult,
 };
@@ -26,6 +26,8 @@ CREATE TABLE IF NOT EXISTS services (
     deprecated_at TIMESTAMP WITH TIME ZONE,
     suspension_reason TEXT,
     openapi_spec JSONB,
+    smoke_tests JSONB NOT NULL DEFAULT '[]',
+    grpc_spec JSONB,
 
     CONSTRAINT unique_service_version UNIQUE(name, version),
     CONSTRAINT valid_status CHECK (status IN (
@@ -34,7 +36,8 @@ CREATE TABLE IF NOT EXISTS services (
         'deprecated',
         'suspended',
         'retired',
-        'failed_validation'
+        'failed_validation',
+        'changes_requested'
     )),
     CONSTRAINT valid_category CHECK (category IN (
         'text-generation',
@@ -123,33 +126,55 @@ CREATE INDEX idx_audit_actor ON audit_logs(actor_id);
 CREATE INDEX idx_audit_resource ON audit_logs(resource_id);
 CREATE INDEX idx_audit_event_type ON audit_logs(event_type);
 
--- Approval workflows table
+-- Approval workflows: one run of a service through its approval chain.
+-- Stage definitions and their state are kept in `stages`, in chain order.
 CREATE TABLE IF NOT EXISTS approval_workflows (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    service_id UUID NOT NULL REFERENCES services(id),
+    service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
     provider_id UUID NOT NULL,
+    chain_id VARCHAR(100) NOT NULL,
     status VARCHAR(50) NOT NULL DEFAULT 'pending',
-    assigned_to UUID,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    approved_at TIMESTAMP WITH TIME ZONE,
-    approved_by UUID,
-    comments TEXT,
+    current_stage INTEGER NOT NULL DEFAULT 0,
+    stages JSONB NOT NULL,
+    service_spec JSONB NOT NULL,
     validation_results JSONB,
     policy_results JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
 
     CONSTRAINT valid_workflow_status CHECK (status IN (
         'pending',
-        'in_review',
         'approved',
         'rejected',
+        'changes_requested',
         'cancelled'
     ))
 );
 
 CREATE INDEX idx_workflows_status ON approval_workflows(status);
-CREATE INDEX idx_workflows_service ON approval_workflows(service_id);
+CREATE INDEX idx_workflows_service ON approval_workflows(service_id, created_at DESC);
 CREATE INDEX idx_workflows_provider ON approval_workflows(provider_id);
+CREATE UNIQUE INDEX idx_workflows_one_pending ON approval_workflows(service_id) WHERE status = 'pending';
+
+-- Reviews and comments given on an approval workflow, per stage
+CREATE TABLE IF NOT EXISTS approval_reviews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    approval_id UUID NOT NULL REFERENCES approval_workflows(id) ON DELETE CASCADE,
+    stage INTEGER NOT NULL,
+    reviewer_id UUID NOT NULL,
+    action VARCHAR(20) NOT NULL,
+    comment TEXT,
+    feedback JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_review_action CHECK (action IN ('approve', 'reject', 'request_changes', 'comment'))
+);
+
+CREATE INDEX idx_approval_reviews_approval ON approval_reviews(approval_id, created_at);
+-- A reviewer decides a stage once; comments are unlimited
+CREATE UNIQUE INDEX idx_approval_reviews_one_decision
+    ON approval_reviews(approval_id, stage, reviewer_id) WHERE action <> 'comment';
 
 -- Validation results table
 CREATE TABLE IF NOT EXISTS validation_results (
@@ -167,6 +192,249 @@ CREATE INDEX idx_validation_service ON validation_results(service_id);
 CREATE INDEX idx_validation_type ON validation_results(validation_type);
 CREATE INDEX idx_validation_created ON validation_results(created_at DESC);
 
+-- Publishing workflow checkpoints
+CREATE TABLE IF NOT EXISTS publishing_workflows (
+    service_id UUID PRIMARY KEY,
+    provider_id UUID NOT NULL,
+    service_spec JSONB NOT NULL,
+    status VARCHAR(50) NOT NULL DEFAULT 'running',
+    current_step VARCHAR(50),
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT valid_publishing_workflow_status CHECK (status IN (
+        'running',
+        'completed',
+        'failed',
+        'rolled_back',
+        'rollback_failed'
+    ))
+);
+
+CREATE INDEX idx_publishing_workflows_status ON publishing_workflows(status);
+
+CREATE TABLE IF NOT EXISTS publishing_workflow_steps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    service_id UUID NOT NULL REFERENCES publishing_workflows(service_id) ON DELETE CASCADE,
+    step VARCHAR(50) NOT NULL,
+    status VARCHAR(50) NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    result JSONB,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT unique_workflow_step UNIQUE(service_id, step),
+    CONSTRAINT valid_workflow_step_status CHECK (status IN (
+        'running',
+        'completed',
+        'failed',
+        'compensated'
+    ))
+);
+
+CREATE INDEX idx_workflow_steps_service ON publishing_workflow_steps(service_id);
+
+-- Compensating actions run when a publishing workflow is rolled back
+CREATE TABLE IF NOT EXISTS publishing_workflow_compensations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    service_id UUID NOT NULL REFERENCES publishing_workflows(service_id) ON DELETE CASCADE,
+    step VARCHAR(50) NOT NULL,
+    action VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    attempts INTEGER NOT NULL,
+    error TEXT,
+    executed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_compensation_status CHECK (status IN ('compensated', 'failed'))
+);
+
+CREATE INDEX idx_workflow_compensations_service ON publishing_workflow_compensations(service_id, executed_at);
+
+-- Test run history (publishing and on-demand runs)
+CREATE TABLE IF NOT EXISTS service_test_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    service_id UUID NOT NULL,
+    service_version VARCHAR(50) NOT NULL,
+    trigger VARCHAR(20) NOT NULL,
+    triggered_by UUID,
+    passed BOOLEAN NOT NULL,
+    result JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_test_run_trigger CHECK (trigger IN ('publishing', 'manual'))
+);
+
+CREATE INDEX idx_test_runs_service ON service_test_runs(service_id, created_at DESC);
+
+-- Scheduled endpoint health checks for active services
+CREATE TABLE IF NOT EXISTS service_health_checks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+    available BOOLEAN NOT NULL,
+    latency_ms INTEGER NOT NULL,
+    status_code INTEGER,
+    error TEXT,
+    checked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_health_checks_service ON service_health_checks(service_id, checked_at DESC);
+CREATE INDEX idx_health_checks_checked ON service_health_checks(checked_at);
+
+-- OpenAPI diff reports between successive service versions
+CREATE TABLE IF NOT EXISTS service_api_diffs (
+    service_id UUID PRIMARY KEY,
+    previous_service_id UUID NOT NULL,
+    from_version VARCHAR(50) NOT NULL,
+    to_version VARCHAR(50) NOT NULL,
+    breaking BOOLEAN NOT NULL,
+    changes JSONB NOT NULL DEFAULT '[]',
+    compared_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_api_diffs_previous ON service_api_diffs(previous_service_id);
+
+-- Drafts saved before submission, keyed by the new service ID or by the
+-- published service they stage the next version of
+CREATE TABLE IF NOT EXISTS service_drafts (
+    service_id UUID PRIMARY KEY,
+    provider_id UUID NOT NULL,
+    base_service_id UUID REFERENCES services(id) ON DELETE CASCADE,
+    spec JSONB NOT NULL DEFAULT '{}',
+    revision INTEGER NOT NULL DEFAULT 1,
+    validation JSONB NOT NULL,
+    changes_requested JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_service_drafts_provider ON service_drafts(provider_id, updated_at DESC);
+
+-- Deprecation schedule; the scheduler retires services once sunset_at passes
+CREATE TABLE IF NOT EXISTS service_deprecations (
+    service_id UUID PRIMARY KEY REFERENCES services(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    successor_service_id UUID NOT NULL REFERENCES services(id),
+    successor_version VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+    deprecated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    sunset_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    consumers_notified INTEGER NOT NULL DEFAULT 0,
+    notified_at TIMESTAMP WITH TIME ZONE,
+    retired_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT valid_deprecation_status CHECK (status IN ('scheduled', 'retired'))
+);
+
+CREATE INDEX idx_deprecations_sunset ON service_deprecations(sunset_at) WHERE status = 'scheduled';
+
+-- One row per consumer told about a deprecation, so notices are sent once
+CREATE TABLE IF NOT EXISTS service_deprecation_notices (
+    service_id UUID NOT NULL REFERENCES service_deprecations(service_id) ON DELETE CASCADE,
+    consumer_id UUID NOT NULL,
+    notified_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (service_id, consumer_id)
+);
+
+-- Outbound webhook subscriptions, owned by a provider. With a tenant_id they
+-- receive the events of every provider in that tenant, not just the owner's.
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider_id UUID NOT NULL,
+    tenant_id UUID,
+    url TEXT NOT NULL,
+    events TEXT[] NOT NULL,
+    secret VARCHAR(100) NOT NULL,
+    description TEXT,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_subscriptions_provider ON webhook_subscriptions(provider_id);
+CREATE INDEX idx_webhook_subscriptions_tenant ON webhook_subscriptions(tenant_id) WHERE tenant_id IS NOT NULL;
+
+-- Delivery log; pending rows are retried once next_attempt_at passes
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    webhook_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+    event VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    duration_ms INTEGER,
+    replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_webhook_delivery_status CHECK (status IN ('pending', 'succeeded', 'failed'))
+);
+
+CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- Policy bundle versions; the newest row is the active bundle when policies
+-- are loaded from the database
+CREATE TABLE IF NOT EXISTS policy_bundles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bundle_id VARCHAR(100) NOT NULL,
+    version VARCHAR(50) NOT NULL,
+    description TEXT,
+    policies JSONB NOT NULL,
+    created_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_policy_bundle_version UNIQUE (bundle_id, version)
+);
+
+CREATE INDEX idx_policy_bundles_created ON policy_bundles(created_at DESC);
+
+-- Transactional outbox: events are inserted in the transaction of the change
+-- they describe and relayed to Analytics Hub and the Governance Dashboard
+CREATE TABLE IF NOT EXISTS event_outbox (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    destination VARCHAR(20) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    aggregate_id UUID,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    delivered_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT valid_outbox_destination CHECK (destination IN ('analytics', 'governance')),
+    CONSTRAINT valid_outbox_status CHECK (status IN ('pending', 'delivered', 'failed'))
+);
+
+CREATE INDEX idx_event_outbox_due ON event_outbox(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX idx_event_outbox_status ON event_outbox(status, created_at);
+
+-- Registry reconciliation runs and the drift each one found
+CREATE TABLE IF NOT EXISTS registry_reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source_of_truth VARCHAR(20) NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    checked INTEGER NOT NULL,
+    in_sync INTEGER NOT NULL,
+    drift JSONB NOT NULL DEFAULT '[]',
+    errors JSONB NOT NULL DEFAULT '[]',
+
+    CONSTRAINT valid_reconciliation_source CHECK (source_of_truth IN ('marketplace', 'registry', 'none'))
+);
+
+CREATE INDEX idx_registry_reconciliation_runs_started ON registry_reconciliation_runs(started_at DESC);
+
 -- Triggers
 
 -- Update updated_at timestamp automatically
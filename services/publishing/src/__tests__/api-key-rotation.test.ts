@@ -0,0 +1,260 @@
+import { ZodError } from 'zod';
+import * as authService from '../services/auth.service';
+import * as userRepository from '../repositories/user.repository';
+import { query, transaction } from '../common/database';
+import { logAudit } from '../common/logger';
+import { AuthorizationError, ConflictError, DatabaseError, NotFoundError } from '../common/errors';
+import { ApiKey } from '../models/user.model';
+
+jest.mock('../config', () => ({
+  config: { apiKey: { prefix: 'llm_', length: 32, rotationOverlapHours: 24, expiryWarningDays: 14 } },
+}));
+jest.mock('../common/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  logAuth: jest.fn(),
+  logAudit: jest.fn(),
+}));
+jest.mock('../common/database', () => ({ query: jest.fn(), queryOne: jest.fn(), transaction: jest.fn() }));
+jest.mock('../common/redis', () => ({}));
+jest.mock('../services/mfa.service', () => ({}));
+jest.mock('bcrypt', () => ({ hash: jest.fn(async () => 'hashed-key'), compare: jest.fn() }));
+
+const NOW = new Date('2026-03-02T12:00:00Z').getTime();
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const buildApiKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+  id: 'key-1',
+  userId: 'user-1',
+  keyHash: 'old-hash',
+  keyPrefix: 'llm_0a1b2c3d',
+  name: 'ci',
+  scopes: ['service:read', 'service:publish'],
+  allowedServiceIds: ['service-1'],
+  allowedCidrs: ['10.0.0.0/8'],
+  expiresAt: new Date(NOW + 60 * DAY),
+  lastUsedAt: null,
+  requestCount: 0,
+  lastUsedIp: null,
+  lastUsedUserAgent: null,
+  rotatedToId: null,
+  rotatedAt: null,
+  expiryWarningSentAt: null,
+  createdAt: new Date(NOW - 30 * DAY),
+  revokedAt: null,
+  ...overrides,
+});
+
+// Row as stored in api_keys, for exercising the repository mapping
+const apiKeyRow = (apiKey: ApiKey) => ({
+  id: apiKey.id,
+  user_id: apiKey.userId,
+  key_hash: apiKey.keyHash,
+  key_prefix: apiKey.keyPrefix,
+  name: apiKey.name,
+  scopes: apiKey.scopes,
+  allowed_service_ids: apiKey.allowedServiceIds,
+  allowed_cidrs: apiKey.allowedCidrs,
+  expires_at: apiKey.expiresAt,
+  last_used_at: apiKey.lastUsedAt,
+  request_count: String(apiKey.requestCount),
+  rotated_to_id: apiKey.rotatedToId,
+  rotated_at: apiKey.rotatedAt,
+  expiry_warning_sent_at: apiKey.expiryWarningSentAt,
+  created_at: apiKey.createdAt,
+  revoked_at: apiKey.revokedAt,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('rotateApiKey', () => {
+  let rotate: jest.SpyInstance;
+
+  const stubRepository = (apiKey: ApiKey | null) => {
+    jest.spyOn(userRepository, 'findApiKeyById').mockResolvedValue(apiKey);
+    rotate = jest.spyOn(userRepository, 'rotateApiKey').mockImplementation(async (id, successor, overlapEndsAt) => ({
+      previous: buildApiKey({ id, rotatedToId: 'key-2', rotatedAt: new Date(NOW), expiresAt: overlapEndsAt }),
+      successor: buildApiKey({ ...successor, id: 'key-2', createdAt: new Date(NOW) }),
+    }));
+  };
+
+  it('issues a successor with the same name, scopes and restrictions', async () => {
+    stubRepository(buildApiKey());
+
+    const result = await authService.rotateApiKey('user-1', 'key-1');
+
+    expect(rotate).toHaveBeenCalledWith(
+      'key-1',
+      {
+        userId: 'user-1',
+        keyHash: 'hashed-key',
+        keyPrefix: result.key.substring(0, 12),
+        name: 'ci',
+        scopes: ['service:read', 'service:publish'],
+        allowedServiceIds: ['service-1'],
+        allowedCidrs: ['10.0.0.0/8'],
+        expiresAt: expect.any(Date),
+      },
+      expect.any(Date)
+    );
+    expect(result.key).toMatch(/^llm_[0-9a-f]{64}$/);
+    expect(result.apiKey).toMatchObject({ id: 'key-2', name: 'ci' });
+    expect(result.apiKey).not.toHaveProperty('keyHash');
+    expect(result.previousKey).toMatchObject({ id: 'key-1', rotatedToId: 'key-2' });
+    expect(logAudit).toHaveBeenCalledWith('api_key_rotated', 'user-1', 'api_key', 'key-1', {
+      successorId: 'key-2',
+      previousExpiresAt: new Date(NOW + 24 * HOUR),
+    });
+  });
+
+  it('keeps the old key valid for the configured overlap window', async () => {
+    stubRepository(buildApiKey());
+
+    await authService.rotateApiKey('user-1', 'key-1');
+
+    expect(rotate.mock.calls[0][2]).toEqual(new Date(NOW + 24 * HOUR));
+  });
+
+  it('uses the requested overlap window, down to an immediate cut-off', async () => {
+    stubRepository(buildApiKey());
+
+    await authService.rotateApiKey('user-1', 'key-1', { overlapHours: 72 });
+    await authService.rotateApiKey('user-1', 'key-1', { overlapHours: 0 });
+
+    expect(rotate.mock.calls[0][2]).toEqual(new Date(NOW + 72 * HOUR));
+    expect(rotate.mock.calls[1][2]).toEqual(new Date(NOW));
+  });
+
+  it('rejects overlap windows longer than 30 days', async () => {
+    stubRepository(buildApiKey());
+
+    await expect(authService.rotateApiKey('user-1', 'key-1', { overlapHours: 721 })).rejects.toBeInstanceOf(ZodError);
+    expect(rotate).not.toHaveBeenCalled();
+  });
+
+  it('gives the successor the lifetime of the original key', async () => {
+    stubRepository(buildApiKey());
+
+    await authService.rotateApiKey('user-1', 'key-1');
+
+    expect(rotate.mock.calls[0][1].expiresAt).toEqual(new Date(NOW + 90 * DAY));
+  });
+
+  it('gives the successor a new lifetime when one is requested', async () => {
+    stubRepository(buildApiKey());
+
+    await authService.rotateApiKey('user-1', 'key-1', { expiresInDays: 7 });
+
+    expect(rotate.mock.calls[0][1].expiresAt).toEqual(new Date(NOW + 7 * DAY));
+  });
+
+  it('does not give the successor of a non-expiring key an expiry', async () => {
+    stubRepository(buildApiKey({ expiresAt: null }));
+
+    await authService.rotateApiKey('user-1', 'key-1');
+
+    expect(rotate.mock.calls[0][1].expiresAt).toBeNull();
+  });
+
+  it.each([
+    ['a missing key', null, NotFoundError],
+    ['a revoked key', buildApiKey({ revokedAt: new Date(NOW - DAY) }), NotFoundError],
+    ["another user's key", buildApiKey({ userId: 'user-2' }), AuthorizationError],
+    ['a key that was already rotated', buildApiKey({ rotatedToId: 'key-0' }), ConflictError],
+    ['an expired key', buildApiKey({ expiresAt: new Date(NOW - HOUR) }), ConflictError],
+  ])('refuses to rotate %s', async (_label, apiKey, errorClass) => {
+    stubRepository(apiKey);
+
+    await expect(authService.rotateApiKey('user-1', 'key-1')).rejects.toBeInstanceOf(errorClass);
+    expect(rotate).not.toHaveBeenCalled();
+  });
+});
+
+describe('userRepository.rotateApiKey', () => {
+  const client = { query: jest.fn() };
+  const overlapEndsAt = new Date(NOW + 24 * HOUR);
+  const successor = buildApiKey({ id: 'key-2', keyHash: 'hashed-key', createdAt: new Date(NOW) });
+
+  beforeEach(() => {
+    jest.mocked(transaction).mockImplementation(async (callback) => callback(client as any));
+  });
+
+  it('inserts the successor and clamps the old key to the end of the overlap window', async () => {
+    const previous = buildApiKey({ rotatedToId: 'key-2', rotatedAt: new Date(NOW), expiresAt: overlapEndsAt });
+    client.query
+      .mockResolvedValueOnce({ rows: [apiKeyRow(successor)] })
+      .mockResolvedValueOnce({ rows: [apiKeyRow(previous)] });
+
+    const result = await userRepository.rotateApiKey('key-1', successor, overlapEndsAt);
+
+    expect(client.query.mock.calls[0][0]).toContain('INSERT INTO api_keys');
+    const [sql, params] = client.query.mock.calls[1];
+    // Never extends a key that already expires sooner, and bounds a non-expiring key
+    expect(sql).toContain('expires_at = LEAST(COALESCE(expires_at, $3), $3)');
+    expect(sql).toContain('WHERE id = $1 AND rotated_to_id IS NULL AND revoked_at IS NULL');
+    expect(params).toEqual(['key-1', 'key-2', overlapEndsAt]);
+    expect(result.successor).toMatchObject({ id: 'key-2', requestCount: 0 });
+    expect(result.previous).toMatchObject({ id: 'key-1', rotatedToId: 'key-2', expiresAt: overlapEndsAt });
+  });
+
+  it('fails when the key was rotated or revoked concurrently', async () => {
+    client.query.mockResolvedValueOnce({ rows: [apiKeyRow(successor)] }).mockResolvedValueOnce({ rows: [] });
+
+    await expect(userRepository.rotateApiKey('key-1', successor, overlapEndsAt)).rejects.toThrow(
+      new DatabaseError('API key was rotated or revoked concurrently')
+    );
+  });
+});
+
+describe('sendApiKeyExpiryWarnings', () => {
+  it('warns once about every key expiring within the warning window', async () => {
+    const expiring = [
+      buildApiKey({ id: 'key-1', expiresAt: new Date(NOW + 2 * DAY) }),
+      buildApiKey({ id: 'key-3', userId: 'user-3', expiresAt: new Date(NOW + 13 * DAY) }),
+    ];
+    const find = jest.spyOn(userRepository, 'findApiKeysExpiringBefore').mockResolvedValue(expiring);
+    const mark = jest.spyOn(userRepository, 'markApiKeyExpiryWarningSent').mockResolvedValue();
+
+    const warned = await authService.sendApiKeyExpiryWarnings();
+
+    expect(warned).toBe(2);
+    expect(find).toHaveBeenCalledWith(new Date(NOW + 14 * DAY));
+    expect(logAudit).toHaveBeenCalledWith('api_key_expiring', 'user-3', 'api_key', 'key-3', {
+      name: 'ci',
+      keyPrefix: 'llm_0a1b2c3d',
+      expiresAt: new Date(NOW + 13 * DAY),
+      lastUsedAt: null,
+    });
+    expect(mark.mock.calls).toEqual([['key-1'], ['key-3']]);
+  });
+
+  it('does nothing when no key is about to expire', async () => {
+    jest.spyOn(userRepository, 'findApiKeysExpiringBefore').mockResolvedValue([]);
+    const mark = jest.spyOn(userRepository, 'markApiKeyExpiryWarningSent').mockResolvedValue();
+
+    expect(await authService.sendApiKeyExpiryWarnings()).toBe(0);
+    expect(mark).not.toHaveBeenCalled();
+  });
+
+  it('only selects active, unrotated keys that have not been warned about', async () => {
+    jest.mocked(query).mockResolvedValue({ rows: [] } as any);
+    const before = new Date(NOW + 14 * DAY);
+
+    await userRepository.findApiKeysExpiringBefore(before);
+
+    const [sql, params] = jest.mocked(query).mock.calls[0];
+    expect(sql).toContain('revoked_at IS NULL');
+    expect(sql).toContain('rotated_to_id IS NULL');
+    expect(sql).toContain('expiry_warning_sent_at IS NULL');
+    expect(sql).toContain('expires_at > NOW()');
+    expect(params).toEqual([before, 100]);
+  });
+});
@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import { UserRole, apiKeyHasPermission, createApiKeySchema, isValidScope } from '../models/user.model';
+import { isIpInRanges } from '../utils/cidr';
+import { authenticateApiKey, requirePermission, requireRole, requireStepUp } from '../middleware/auth.middleware';
+import { verifyApiKey } from '../services/auth.service';
+import * as mfaService from '../services/mfa.service';
+import { AuthorizationError } from '../common/errors';
+
+jest.mock('../config', () => ({ config: { apiKey: { prefix: 'llm_', expiryWarningDays: 14 } } }));
+jest.mock('../common/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  logAuth: jest.fn(),
+  logAudit: jest.fn(),
+}));
+jest.mock('../common/database', () => ({}));
+jest.mock('../common/redis', () => ({}));
+jest.mock('../services/mfa.service', () => ({
+  hasRecentStepUp: jest.fn(),
+  isMfaEnabled: jest.fn(),
+  verifySecondFactor: jest.fn(),
+  stepUp: jest.fn(),
+}));
+jest.mock('bcrypt', () => ({}));
+jest.mock('../services/auth.service', () => ({
+  ...jest.requireActual('../services/auth.service'),
+  verifyApiKey: jest.fn(),
+}));
+
+describe('API key scopes', () => {
+  const serviceId = '6f1c2a9e-2b7d-4c1e-9a51-3d0f8e4b7c21';
+  const otherServiceId = '0b8e4f2d-91c3-4a6e-b7d5-2c9f1e0a3b48';
+
+  it('only accepts scopes from the vocabulary', () => {
+    expect(isValidScope('service:publish')).toBe(true);
+    expect(isValidScope(`service:consume:${serviceId}`)).toBe(true);
+    expect(isValidScope('admin:audit')).toBe(true);
+    expect(isValidScope('service:consume:not-a-uuid')).toBe(false);
+    expect(isValidScope('service:*')).toBe(false);
+
+    const parsed = createApiKeySchema.safeParse({
+      name: 'ci',
+      scopes: ['service:read', 'service:everything'],
+      allowedCidrs: ['10.0.0.0/33'],
+    });
+    expect(parsed.success).toBe(false);
+  });
+
+  it('requires a matching scope', () => {
+    const key = { scopes: ['service:publish'], allowedServiceIds: null };
+
+    expect(apiKeyHasPermission(key, 'service:publish', serviceId)).toBe(true);
+    expect(apiKeyHasPermission(key, 'service:update', serviceId)).toBe(false);
+  });
+
+  it('limits keys to their allowed services on routes that target one', () => {
+    const key = { scopes: ['service:update', 'service:create', 'service:read'], allowedServiceIds: [serviceId] };
+
+    expect(apiKeyHasPermission(key, 'service:update', serviceId)).toBe(true);
+    expect(apiKeyHasPermission(key, 'service:update', otherServiceId)).toBe(false);
+    expect(apiKeyHasPermission(key, 'service:create')).toBe(true);
+    expect(apiKeyHasPermission(key, 'service:read')).toBe(true);
+  });
+
+  it('matches per-service consume scopes against the target service', () => {
+    const key = { scopes: [`service:consume:${serviceId}`], allowedServiceIds: null };
+
+    expect(apiKeyHasPermission(key, 'service:consume', serviceId)).toBe(true);
+    expect(apiKeyHasPermission(key, 'service:consume', otherServiceId)).toBe(false);
+    expect(apiKeyHasPermission(key, 'service:consume')).toBe(false);
+  });
+
+  it('matches client addresses against IPv4 and IPv6 ranges', () => {
+    const ranges = ['10.20.0.0/16', '2001:db8::/32', '192.0.2.7'];
+
+    expect(isIpInRanges('10.20.3.4', ranges)).toBe(true);
+    expect(isIpInRanges('::ffff:10.20.3.4', ranges)).toBe(true);
+    expect(isIpInRanges('2001:db8:1::9', ranges)).toBe(true);
+    expect(isIpInRanges('192.0.2.7', ranges)).toBe(true);
+    expect(isIpInRanges('10.21.0.1', ranges)).toBe(false);
+    expect(isIpInRanges('192.0.2.8', ranges)).toBe(false);
+  });
+});
+
+describe('API key route checks', () => {
+  const serviceId = '6f1c2a9e-2b7d-4c1e-9a51-3d0f8e4b7c21';
+
+  const keyRequest = (ownerRole: UserRole, scopes: string[], mfaCode?: string) =>
+    ({
+      params: { id: serviceId },
+      get: (header: string) => (header === 'x-mfa-code' ? mfaCode : undefined),
+      user: { id: 'user-1', email: '', role: UserRole.CONSUMER },
+      apiKey: { id: 'key-1', userId: 'user-1', ownerRole, scopes, allowedServiceIds: null },
+    }) as unknown as Request;
+
+  const outcome = (middleware: (req: Request, res: Response, next: (error?: unknown) => void) => void, req: Request) => {
+    const next = jest.fn();
+    middleware(req, {} as Response, next);
+    return next.mock.calls[0][0];
+  };
+
+  it('makes key users consumers, keeping the owner role for route checks', async () => {
+    jest.mocked(verifyApiKey).mockResolvedValue({
+      apiKeyId: 'key-1',
+      userId: 'user-1',
+      role: UserRole.ADMIN,
+      scopes: ['service:suspend'],
+      allowedServiceIds: null,
+      expiresAt: null,
+      rotatedToId: null,
+    });
+    const req = { headers: { 'x-api-key': 'llm_0a1b2c3d' }, query: {}, ip: '10.0.0.1', get: jest.fn() } as unknown as Request;
+    const next = jest.fn();
+
+    await authenticateApiKey(req, { setHeader: jest.fn() } as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(verifyApiKey).toHaveBeenCalledWith('llm_0a1b2c3d', { ipAddress: '10.0.0.1', userAgent: undefined });
+    expect(req.user?.role).toBe(UserRole.CONSUMER);
+    expect(req.apiKey?.ownerRole).toBe(UserRole.ADMIN);
+  });
+
+  it('grants what the scopes allow within the owner role', () => {
+    expect(outcome(requirePermission('service:publish'), keyRequest(UserRole.PROVIDER, ['service:publish']))).toBeUndefined();
+    expect(outcome(requirePermission('service:update'), keyRequest(UserRole.PROVIDER, ['service:publish']))).toBeInstanceOf(
+      AuthorizationError
+    );
+  });
+
+  it('does not grant scopes the owner role no longer has', () => {
+    expect(outcome(requirePermission('service:publish'), keyRequest(UserRole.CONSUMER, ['service:publish']))).toBeInstanceOf(
+      AuthorizationError
+    );
+  });
+
+  it('checks role requirements against the key owner', () => {
+    expect(outcome(requireRole(UserRole.ADMIN), keyRequest(UserRole.ADMIN, ['service:suspend']))).toBeUndefined();
+    expect(outcome(requireRole(UserRole.ADMIN), keyRequest(UserRole.PROVIDER, ['service:suspend']))).toBeInstanceOf(
+      AuthorizationError
+    );
+  });
+
+  describe('step-up', () => {
+    const stepUp = async (req: Request) => {
+      const next = jest.fn();
+      await requireStepUp(req, {} as Response, next);
+      return next.mock.calls[0][0];
+    };
+
+    beforeEach(() => {
+      jest.mocked(mfaService.hasRecentStepUp).mockResolvedValue(true);
+      jest.mocked(mfaService.isMfaEnabled).mockResolvedValue(true);
+    });
+
+    it("requires an MFA code from admin keys even inside the owner's step-up window", async () => {
+      const error = await stepUp(keyRequest(UserRole.ADMIN, ['service:suspend']));
+
+      expect(error).toBeInstanceOf(AuthorizationError);
+      expect(error.metadata).toEqual({ stepUpRequired: true });
+    });
+
+    it('verifies the code of an admin key without opening a step-up window', async () => {
+      expect(await stepUp(keyRequest(UserRole.ADMIN, ['service:suspend'], '123456'))).toBeUndefined();
+
+      expect(mfaService.verifySecondFactor).toHaveBeenCalledWith('user-1', { code: '123456' });
+      expect(mfaService.stepUp).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Approval chain resolution and stage evaluation tests
+ */
+
+import {
+  ApprovalChainResolver,
+  DEFAULT_APPROVAL_CHAIN,
+  approvalReviewSchema,
+  evaluateStage,
+  initialStages,
+  isStageReviewer,
+} from '../workflows/approval-chains';
+import { ApprovalChainDefinition, ComplianceLevel, ServiceCategory } from '../types';
+
+const chain = (id: string): ApprovalChainDefinition => ({
+  id,
+  stages: [{ name: 'review', reviewers: ['role:admin'], quorum: 1, dueInHours: 24 }],
+});
+
+describe('ApprovalChainResolver', () => {
+  const resolver = new ApprovalChainResolver({
+    chains: [chain('by-category'), chain('by-compliance'), chain('by-both')],
+    assignments: [
+      { chain: 'by-category', category: ServiceCategory.TEXT_GENERATION },
+      { chain: 'by-compliance', complianceLevel: ComplianceLevel.RESTRICTED },
+      {
+        chain: 'by-both',
+        category: ServiceCategory.TEXT_GENERATION,
+        complianceLevel: ComplianceLevel.RESTRICTED,
+      },
+    ],
+  });
+
+  it('prefers the most specific assignment', () => {
+    const restricted = { level: ComplianceLevel.RESTRICTED } as never;
+
+    expect(resolver.resolve({ category: ServiceCategory.TEXT_GENERATION, compliance: restricted })?.id).toBe('by-both');
+    expect(resolver.resolve({ category: ServiceCategory.EMBEDDINGS, compliance: restricted })?.id).toBe('by-compliance');
+    expect(resolver.resolve({ category: ServiceCategory.TEXT_GENERATION })?.id).toBe('by-category');
+  });
+
+  it('falls back to the built-in chain and only requires approval when needed', () => {
+    const spec = { category: ServiceCategory.EMBEDDINGS };
+
+    expect(resolver.resolve(spec)).toBeNull();
+    expect(resolver.chainFor(spec)).toBe(DEFAULT_APPROVAL_CHAIN);
+    expect(resolver.requiresApproval(spec)).toBe(false);
+    expect(resolver.requiresApproval({ ...spec, compliance: { level: ComplianceLevel.CONFIDENTIAL } as never })).toBe(true);
+  });
+
+  it('rejects assignments to unknown chains', () => {
+    expect(
+      () => new ApprovalChainResolver({ chains: [], assignments: [{ chain: 'missing', category: ServiceCategory.EMBEDDINGS }] })
+    ).toThrow('unknown chain missing');
+  });
+});
+
+describe('evaluateStage', () => {
+  it('passes once distinct approvers reach the quorum', () => {
+    const stage = { quorum: 2 };
+
+    expect(evaluateStage(stage, [{ reviewerId: 'a', action: 'approve' }])).toBe('pending');
+    expect(evaluateStage(stage, [
+      { reviewerId: 'a', action: 'approve' },
+      { reviewerId: 'a', action: 'comment' },
+    ])).toBe('pending');
+    expect(evaluateStage(stage, [
+      { reviewerId: 'a', action: 'approve' },
+      { reviewerId: 'b', action: 'approve' },
+    ])).toBe('approved');
+  });
+
+  it('is decided at once by a rejection or change request', () => {
+    expect(evaluateStage({ quorum: 1 }, [
+      { reviewerId: 'a', action: 'approve' },
+      { reviewerId: 'b', action: 'reject' },
+    ])).toBe('rejected');
+    expect(evaluateStage({ quorum: 3 }, [{ reviewerId: 'a', action: 'request_changes' }])).toBe('changes_requested');
+  });
+});
+
+describe('isStageReviewer', () => {
+  const [stage] = initialStages(
+    {
+      id: 'legal',
+      stages: [{ name: 'legal', reviewers: ['user-1', 'role:legal'], quorum: 1, dueInHours: 1 }],
+    },
+    new Date('2026-01-01T00:00:00Z')
+  );
+
+  it('matches reviewers by ID or role and opens the first stage', () => {
+    expect(stage.status).toBe('pending');
+    expect(stage.dueAt).toEqual(new Date('2026-01-01T01:00:00Z'));
+    expect(isStageReviewer(stage, { id: 'user-1', role: 'provider' })).toBe(true);
+    expect(isStageReviewer(stage, { id: 'user-2', role: 'legal' })).toBe(true);
+    expect(isStageReviewer(stage, { id: 'user-3', role: 'admin' })).toBe(false);
+  });
+
+  it('admits backup reviewers once the stage has escalated', () => {
+    expect(isStageReviewer({ ...stage, escalatedAt: new Date() }, { id: 'user-3', role: 'admin' })).toBe(true);
+  });
+});
+
+describe('approvalReviewSchema', () => {
+  it('requires a comment or feedback for change requests', () => {
+    expect(approvalReviewSchema.safeParse({ action: 'request_changes' }).success).toBe(false);
+    expect(approvalReviewSchema.safeParse({
+      action: 'request_changes',
+      feedback: [{ field: 'pricing', message: 'Add a free tier' }],
+    }).success).toBe(true);
+    expect(approvalReviewSchema.safeParse({ action: 'reject', comment: '  ' }).success).toBe(false);
+  });
+});
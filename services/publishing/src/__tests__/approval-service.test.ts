@@ -0,0 +1,185 @@
+import { ApprovalService } from '../services/approval-service';
+import { ApprovalStore } from '../services/approval-store';
+import { ServiceStore } from '../services/service-store';
+import { OutboxStore } from '../services/outbox-store';
+import { ServiceDraftStore } from '../services/service-draft-store';
+import { WorkflowStateStore } from '../workflows/workflow-state-store';
+import { transaction } from '../config/database';
+import { ApprovalReview, ApprovalStage, ApprovalWorkflow, ServiceStatus } from '../types';
+
+jest.mock('../config/database', () => ({ pool: { query: jest.fn() }, transaction: jest.fn() }));
+jest.mock('../config/redis');
+jest.mock('../services/approval-store');
+jest.mock('../services/service-store');
+jest.mock('../services/service-draft-store');
+jest.mock('../services/webhook-dispatcher');
+jest.mock('../workflows/workflow-state-store');
+jest.mock('../integrations/governance-client');
+jest.mock('../services/outbox-store', () => ({
+  ...jest.requireActual('../services/outbox-store'),
+  OutboxStore: jest.fn().mockImplementation(() => ({ enqueue: jest.fn() })),
+}));
+
+describe('ApprovalService', () => {
+  const client = { query: jest.fn() };
+  const reviewer = { id: 'reviewer-1', role: 'reviewer' };
+  let approvalStore: jest.Mocked<ApprovalStore>;
+  let serviceStore: jest.Mocked<ServiceStore>;
+  let outboxStore: jest.Mocked<OutboxStore>;
+  let service: ApprovalService;
+
+  const stage = (name: string, overrides: Partial<ApprovalStage> = {}): ApprovalStage => ({
+    name,
+    reviewers: ['reviewer-1'],
+    quorum: 1,
+    dueInHours: 24,
+    backupReviewers: ['role:admin'],
+    status: 'pending',
+    ...overrides,
+  });
+
+  const approval = (overrides: Partial<ApprovalWorkflow> = {}): ApprovalWorkflow => ({
+    id: 'approval-1',
+    serviceId: 'service-1',
+    providerId: 'provider-1',
+    chainId: 'default',
+    status: 'pending',
+    currentStage: 0,
+    stages: [stage('security', { startedAt: new Date() }), stage('business')],
+    reviews: [],
+    serviceSpec: { name: 'Summarizer', version: '1.0.0' },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const review = (action: ApprovalReview['action'], stageIndex = 0): ApprovalReview => ({
+    id: `review-${action}`,
+    approvalId: 'approval-1',
+    stage: stageIndex,
+    reviewerId: 'reviewer-1',
+    action,
+    comment: 'Looks good',
+    feedback: [],
+    createdAt: new Date(),
+  });
+
+  const reviewed = (pending: ApprovalWorkflow, added: ApprovalReview) => {
+    approvalStore.getApproval
+      .mockResolvedValueOnce(pending)
+      .mockResolvedValue({ ...pending, reviews: [added] });
+    approvalStore.addReview.mockResolvedValue(added);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(transaction).mockImplementation(async (callback) => callback(client as any));
+    service = new ApprovalService();
+    approvalStore = jest.mocked(ApprovalStore).mock.instances[0] as jest.Mocked<ApprovalStore>;
+    serviceStore = jest.mocked(ServiceStore).mock.instances[0] as jest.Mocked<ServiceStore>;
+    outboxStore = jest.mocked(OutboxStore).mock.results[0].value;
+    approvalStore.updateProgress.mockResolvedValue(true);
+    jest.mocked(WorkflowStateStore.prototype).getWorkflow.mockResolvedValue(null);
+  });
+
+  it('records a review with its outbox event', async () => {
+    reviewed(approval(), review('comment'));
+
+    await service.review('approval-1', reviewer, { action: 'comment', comment: 'Looks good' });
+
+    expect(approvalStore.addReview).toHaveBeenCalledWith(expect.objectContaining({ action: 'comment' }), client);
+    expect(outboxStore.enqueue).toHaveBeenCalledWith(
+      [expect.objectContaining({ eventType: 'approval_review_submitted' })],
+      client
+    );
+  });
+
+  it('opens the next stage and its event in one transaction', async () => {
+    reviewed(approval(), review('approve'));
+
+    await service.review('approval-1', reviewer, { action: 'approve' });
+
+    expect(approvalStore.updateProgress).toHaveBeenCalledWith(
+      'approval-1',
+      0,
+      expect.objectContaining({ currentStage: 1, status: 'pending' }),
+      client
+    );
+    expect(outboxStore.enqueue).toHaveBeenLastCalledWith(
+      [expect.objectContaining({ eventType: 'approval_stage_opened' })],
+      client
+    );
+  });
+
+  it('commits the final decision with the status change and its events', async () => {
+    const lastStage = approval({ currentStage: 1, stages: [stage('security', { status: 'approved' }), stage('business')] });
+    reviewed(lastStage, review('approve', 1));
+
+    await service.review('approval-1', reviewer, { action: 'approve' });
+
+    expect(approvalStore.updateProgress).toHaveBeenCalledWith(
+      'approval-1',
+      1,
+      expect.objectContaining({ status: 'approved' }),
+      client
+    );
+    expect(serviceStore.updateStatus).toHaveBeenCalledWith('service-1', ServiceStatus.ACTIVE, undefined, client);
+    expect(outboxStore.enqueue.mock.calls.map(([events, db]) => [events[0].eventType, db])).toEqual([
+      ['approval_review_submitted', client],
+      ['service_published', client],
+      ['service_approval_decided', client],
+    ]);
+  });
+
+  it('returns a change request to the provider as a draft in the same transaction', async () => {
+    reviewed(approval(), { ...review('request_changes'), comment: 'Add rate limits' });
+
+    await service.review('approval-1', reviewer, { action: 'request_changes', comment: 'Add rate limits' });
+
+    expect(serviceStore.updateStatus).toHaveBeenCalledWith(
+      'service-1',
+      ServiceStatus.CHANGES_REQUESTED,
+      undefined,
+      client
+    );
+    expect(jest.mocked(ServiceDraftStore).mock.instances[0].saveDraft).toHaveBeenCalledWith(
+      'service-1',
+      'provider-1',
+      { name: 'Summarizer', version: '1.0.0' },
+      expect.anything(),
+      undefined,
+      expect.objectContaining({ comment: 'Add rate limits' }),
+      client
+    );
+  });
+
+  it('writes nothing more when another review decided the stage first', async () => {
+    reviewed(approval(), review('reject'));
+    approvalStore.updateProgress.mockResolvedValue(false);
+
+    await service.review('approval-1', reviewer, { action: 'reject', comment: 'Unsafe' });
+
+    expect(serviceStore.updateStatus).not.toHaveBeenCalled();
+    expect(outboxStore.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('escalates an overdue stage with its events', async () => {
+    approvalStore.listOverdue.mockResolvedValue([approval()]);
+
+    await expect(service.escalateOverdue(new Date())).resolves.toBe(1);
+
+    expect(approvalStore.updateProgress).toHaveBeenCalledWith(
+      'approval-1',
+      0,
+      expect.objectContaining({ status: 'pending' }),
+      client
+    );
+    expect(outboxStore.enqueue).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ destination: 'governance', eventType: 'approval_stage_escalated' }),
+        expect.objectContaining({ destination: 'analytics', eventType: 'approval_stage_escalated' }),
+      ],
+      client
+    );
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * AsyncAPI importer tests
+ */
+
+import { AsyncAPIImporter } from '../importers/asyncapi-importer';
+import { AuthenticationType, ProtocolType } from '../types';
+import chat from './fixtures/chat.asyncapi.json';
+
+describe('AsyncAPIImporter', () => {
+  const importer = new AsyncAPIImporter();
+
+  const fixture = (): Record<string, any> => structuredClone(chat);
+
+  const convert = (document: Record<string, unknown> = fixture()) => {
+    const spec = importer.import(document).service.openApiSpec as Record<string, any>;
+    return { spec, webhooks: spec.webhooks };
+  };
+
+  it('converts the fixture into a draft WebSocket service', () => {
+    const { service, warnings } = importer.import(fixture());
+
+    expect(service.name).toBe('Chat');
+    expect(service.description).toBe('Realtime chat');
+    expect(service.version).toBe('3.0.0');
+    expect(service.endpoint).toEqual({
+      url: 'wss://chat.example.com/socket',
+      protocol: ProtocolType.WEBSOCKET,
+      authentication: AuthenticationType.API_KEY,
+    });
+    expect(service.capabilities).toEqual([
+      {
+        name: 'sendMessage',
+        description: 'Send a chat message',
+        parameters: { channel: '/rooms/{roomId}', action: 'send', operationId: 'sendMessage', messages: ['ChatMessage'] },
+      },
+      {
+        name: 'receiveEvents',
+        description: 'Chat message',
+        parameters: {
+          channel: '/rooms/{roomId}',
+          action: 'receive',
+          operationId: 'receiveEvents',
+          messages: ['ChatMessage', 'Typing'],
+        },
+      },
+      {
+        name: 'receive-presence',
+        description: 'Receive messages on /presence',
+        parameters: { channel: '/presence', action: 'receive', messages: ['Presence'] },
+      },
+    ]);
+    expect(warnings).toEqual([
+      "Message 'Presence' uses schema format application/vnd.apache.avro;version=1.9.0, its payload is not converted",
+      "Version '3' is not a semantic version, using 3.0.0",
+      "Security scheme 'cert' (X509) has no OpenAPI equivalent and was dropped",
+    ]);
+  });
+
+  it('samples the first message the client sends for the example usage', () => {
+    const { service } = importer.import(fixture());
+
+    expect(service.metadata?.exampleUsage).toBe(
+      "wscat -c 'wss://chat.example.com/socket/rooms/{roomId}'\n> {\"text\":\"hello\",\"author\":{\"name\":\"ada\"}}"
+    );
+  });
+
+  it('produces an OpenAPI 3.1 document with one webhook per channel operation', () => {
+    const { spec, webhooks } = convert();
+
+    expect(spec.openapi).toBe('3.1.0');
+    expect(spec['x-asyncapi']).toBe('2.6.0');
+    expect(spec.servers).toEqual([{ url: 'wss://chat.example.com/socket', description: 'Production' }]);
+    expect(spec.security).toEqual([{ token: [] }]);
+    expect(spec.components.securitySchemes).toEqual({ token: { type: 'apiKey', name: 'token', in: 'query' } });
+    expect(Object.keys(webhooks)).toEqual(['sendMessage', 'receiveEvents', 'receive /presence']);
+    expect(webhooks.sendMessage.post).toMatchObject({
+      operationId: 'sendMessage',
+      responses: { '200': { description: 'Message accepted' } },
+      'x-asyncapi-channel': '/rooms/{roomId}',
+      'x-asyncapi-action': 'send',
+    });
+    expect(webhooks['receive /presence'].post.requestBody.content).toEqual({ 'application/json': { schema: {} } });
+  });
+
+  describe('$ref handling', () => {
+    it('resolves message refs and keeps payload refs pointing at the copied component schemas', () => {
+      const { spec, webhooks } = convert();
+
+      expect(webhooks.sendMessage.post.requestBody.content).toEqual({
+        'application/json': { schema: { $ref: '#/components/schemas/ChatMessage' } },
+      });
+      expect(webhooks.receiveEvents.post.requestBody.content['application/json'].schema).toEqual({
+        oneOf: [
+          { $ref: '#/components/schemas/ChatMessage' },
+          { type: 'object', properties: { user: { type: 'string' } } },
+        ],
+      });
+      expect(spec.components.schemas).toEqual(chat.components.schemas);
+    });
+
+    it('drops message refs that do not resolve', () => {
+      const document = fixture();
+      document.channels['/rooms/{roomId}'].publish.message = { $ref: '#/components/messages/Missing' };
+
+      const { service } = importer.import(document);
+      const { webhooks } = service.openApiSpec as Record<string, any>;
+
+      expect(service.capabilities?.[0].parameters).toMatchObject({ operationId: 'sendMessage', messages: [] });
+      expect(webhooks.sendMessage.post).not.toHaveProperty('requestBody');
+    });
+
+    it('stops following circular message refs', () => {
+      const document = fixture();
+      document.components.messages.Loop = { $ref: '#/components/messages/Back' };
+      document.components.messages.Back = { $ref: '#/components/messages/Loop' };
+      document.channels['/rooms/{roomId}'].publish.message = { $ref: '#/components/messages/Loop' };
+
+      const { service } = importer.import(document);
+
+      expect(service.capabilities?.[0].parameters).toMatchObject({ operationId: 'sendMessage', messages: [] });
+    });
+  });
+
+  it('falls back to a ws server and warns when there are no servers', () => {
+    const document = fixture();
+    document.servers.production.protocol = 'ws';
+    expect(importer.import(document).service.endpoint?.url).toBe('ws://chat.example.com/socket');
+
+    delete document.servers;
+    const { service, warnings } = importer.import(document);
+
+    expect(service.endpoint?.url).toBe('');
+    expect(warnings).toContain('Document declares no servers, the endpoint URL must be provided');
+  });
+
+  describe('malformed documents', () => {
+    it.each([
+      ['without an asyncapi version', { info: {}, channels: {} }],
+      ['in the 3.0 format', { asyncapi: '3.0.0', info: {}, channels: {} }],
+    ])('rejects a document %s', (_label, document) => {
+      expect(() => importer.import(document)).toThrow('Invalid AsyncAPI document: "asyncapi" must be a 2.x version');
+    });
+
+    it.each([
+      ['without info', { asyncapi: '2.6.0', channels: {} }],
+      ['without channels', { asyncapi: '2.6.0', info: { title: 'Chat' } }],
+    ])('rejects a document %s', (_label, document) => {
+      expect(() => importer.import(document)).toThrow('Invalid AsyncAPI document: "info" and "channels" are required');
+    });
+
+    it('rejects a document whose servers are not WebSocket servers', () => {
+      const document = fixture();
+      delete document.servers.production;
+
+      expect(() => importer.import(document)).toThrow(
+        'Invalid AsyncAPI document: only WebSocket services are supported and no server uses ws or wss (found mqtt)'
+      );
+    });
+
+    it('warns when no channel has an operation', () => {
+      const document = fixture();
+      document.channels = { '/idle': {}, '/broken': 'not a channel' };
+
+      const { service, warnings } = importer.import(document);
+
+      expect(service.capabilities).toEqual([]);
+      expect(warnings).toContain('Document defines no publish or subscribe operations');
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ContractTestRunner } from '../services/contract-test-runner';
+import {
+  Service,
+  ServiceCategory,
+  ServiceStatus,
+  ProtocolType,
+  AuthenticationType,
+  PricingModel,
+  SupportLevel,
+  ComplianceLevel,
+} from '../types';
+
+describe('ContractTestRunner', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ method?: string; url?: string; body: string }>;
+  let completionResponse: unknown;
+
+  const openApiSpec = {
+    openapi: '3.1.0',
+    info: { title: 'Stub API', version: '1.0.0' },
+    paths: {
+      '/models/{modelId}': {
+        get: {
+          operationId: 'getModel',
+          parameters: [
+            { name: 'modelId', in: 'path', required: true, schema: { type: 'string' }, example: 'gpt-small' },
+          ],
+          responses: {
+            '200': {
+              description: 'Model',
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/Model' } },
+              },
+            },
+          },
+        },
+      },
+      '/completions': {
+        post: {
+          operationId: 'createCompletion',
+          'x-marketplace-contract-test': true,
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['prompt'],
+                  properties: { prompt: { type: 'string' }, max_tokens: { type: 'integer', minimum: 1 } },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Completion',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    required: ['text', 'tokens'],
+                    properties: { text: { type: 'string' }, tokens: { type: 'integer' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Model: {
+          type: 'object',
+          required: ['id', 'contextWindow'],
+          properties: { id: { type: 'string' }, contextWindow: { type: 'integer' } },
+        },
+      },
+    },
+  };
+
+  const buildService = (url: string, spec?: Record<string, unknown>): Service => ({
+    id: 'service-1',
+    registryId: 'registry-1',
+    name: 'Stub Service',
+    version: '1.0.0',
+    description: 'Stub service for contract tests',
+    providerId: 'provider-1',
+    category: ServiceCategory.TEXT_GENERATION,
+    capabilities: [],
+    endpoint: {
+      url,
+      protocol: ProtocolType.REST,
+      authentication: AuthenticationType.API_KEY,
+    },
+    pricing: { model: PricingModel.FREE, rates: [] },
+    sla: { availability: 99.9, maxLatency: 500, supportLevel: SupportLevel.BASIC },
+    compliance: { level: ComplianceLevel.PUBLIC, certifications: [], dataResidency: ['US'] },
+    status: ServiceStatus.PENDING_APPROVAL,
+    metadata: { createdAt: new Date(), updatedAt: new Date() },
+    openApiSpec: spec,
+  });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, body });
+        res.setHeader('Content-Type', 'application/json');
+
+        if (req.method === 'GET' && req.url === '/v1/models/gpt-small') {
+          res.end(JSON.stringify({ id: 'gpt-small', contextWindow: 4096 }));
+        } else if (req.method === 'POST' && req.url === '/v1/completions') {
+          res.end(JSON.stringify(completionResponse));
+        } else {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ error: 'not found' }));
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    completionResponse = { text: 'hello', tokens: 3 };
+  });
+
+  it('should report one passing test case per operation', async () => {
+    const runner = new ContractTestRunner({ timeoutMs: 2000 });
+
+    const result = await runner.run(buildService(baseUrl, openApiSpec));
+
+    expect(result.passed).toBe(true);
+    expect(result.total).toBe(2);
+    expect(result.tests.map((t) => t.name)).toEqual([
+      'GET /models/{modelId} (getModel)',
+      'POST /completions (createCompletion)',
+    ]);
+  });
+
+  it('should build request bodies from the request schema', async () => {
+    const runner = new ContractTestRunner({ timeoutMs: 2000 });
+
+    await runner.run(buildService(baseUrl, openApiSpec));
+
+    const completionRequest = requests.find((r) => r.url === '/v1/completions');
+    expect(JSON.parse(completionRequest!.body)).toEqual({ prompt: 'sample', max_tokens: 1 });
+  });
+
+  it('should fail an operation whose response does not match the schema', async () => {
+    completionResponse = { text: 42 };
+    const runner = new ContractTestRunner({ timeoutMs: 2000 });
+
+    const result = await runner.run(buildService(baseUrl, openApiSpec));
+    const completionTest = result.tests.find((t) => t.name.startsWith('POST'));
+
+    expect(result.passed).toBe(false);
+    expect(completionTest?.status).toBe('failed');
+    expect(completionTest?.error).toContain('/text: expected string');
+    expect(completionTest?.error).toContain('/tokens: is required');
+  });
+
+  it('should fail an operation that returns an undeclared status', async () => {
+    const runner = new ContractTestRunner({ timeoutMs: 2000 });
+    const spec = {
+      ...openApiSpec,
+      paths: {
+        '/missing': {
+          get: { responses: { '200': { description: 'OK' } } },
+        },
+      },
+    };
+
+    const result = await runner.run(buildService(baseUrl, spec));
+
+    expect(result.tests[0].status).toBe('failed');
+    expect(result.tests[0].error).toBe('Undeclared response status 404');
+  });
+
+  it('should not send mutating operations that have not opted in', async () => {
+    const runner = new ContractTestRunner({ timeoutMs: 2000 });
+    const spec = {
+      ...openApiSpec,
+      paths: {
+        '/completions': {
+          post: { ...openApiSpec.paths['/completions'].post, 'x-marketplace-contract-test': undefined },
+        },
+        '/models/{modelId}': {
+          delete: { operationId: 'deleteModel', responses: { '204': { description: 'Deleted' } } },
+          get: { ...openApiSpec.paths['/models/{modelId}'].get, 'x-marketplace-contract-test': false },
+        },
+      },
+    };
+
+    const result = await runner.run(buildService(baseUrl, spec));
+
+    expect(requests).toEqual([]);
+    expect(result.passed).toBe(true);
+    expect(result.skipped).toBe(3);
+    expect(result.tests.find((t) => t.name.startsWith('DELETE'))?.error).toBe(
+      'DELETE is not a safe method; set x-marketplace-contract-test: true to test it'
+    );
+  });
+
+  it('should skip services without an OpenAPI specification', async () => {
+    const runner = new ContractTestRunner({ timeoutMs: 2000 });
+
+    const result = await runner.run(buildService(baseUrl));
+
+    expect(result.passed).toBe(true);
+    expect(result.skipped).toBe(1);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Deprecation metadata tests
+ */
+
+import { deprecationMetadata } from '../utils/deprecation-headers';
+
+describe('deprecationMetadata', () => {
+  it('renders Deprecation, Sunset and a successor link', () => {
+    const metadata = deprecationMetadata(
+      {
+        deprecatedAt: new Date('2025-11-18T10:30:00Z'),
+        sunsetAt: '2025-12-18T10:30:00.000Z',
+        successorServiceId: 'successor-1',
+      },
+      '/api/v1/services'
+    );
+
+    expect(metadata).toEqual({
+      deprecation: '@1763461800',
+      sunset: 'Thu, 18 Dec 2025 10:30:00 GMT',
+      link: '</api/v1/services/successor-1>; rel="successor-version"',
+    });
+  });
+
+  it('leaves out the sunset and link when the deprecation has neither', () => {
+    const metadata = deprecationMetadata(
+      { deprecatedAt: '2025-11-18T10:30:00.000Z', sunsetAt: null, successorServiceId: null },
+      '/api/v1/services'
+    );
+
+    expect(metadata).toEqual({ deprecation: '@1763461800' });
+  });
+});
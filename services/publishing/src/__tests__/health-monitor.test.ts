@@ -0,0 +1,309 @@
+/**
+ * Health monitor and rolling SLA compliance tests
+ */
+
+import { HealthMonitor } from '../services/health-monitor';
+import { HealthCheckStore } from '../services/health-check-store';
+import { PublishingService } from '../services/publishing-service';
+import { TestOrchestrator } from '../services/test-orchestrator';
+import { AnalyticsClient } from '../integrations/analytics-client';
+import { pool } from '../config/database';
+import {
+  Service,
+  ServiceCategory,
+  ServiceStatus,
+  ProtocolType,
+  AuthenticationType,
+  PricingModel,
+  SupportLevel,
+  ComplianceLevel,
+} from '../types';
+
+jest.mock('../config/database', () => ({ pool: { query: jest.fn() } }));
+jest.mock('../config/redis');
+jest.mock('../services/publishing-service');
+jest.mock('../services/test-orchestrator');
+jest.mock('../integrations/analytics-client');
+
+const NOW = new Date('2026-03-02T12:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+
+const buildService = (id: string = 'service-1'): Service => ({
+  id,
+  registryId: `registry-${id}`,
+  name: 'Monitored Service',
+  version: '1.0.0',
+  description: 'Service probed by the health monitor',
+  providerId: 'provider-1',
+  category: ServiceCategory.TEXT_GENERATION,
+  capabilities: [],
+  endpoint: {
+    url: 'https://api.example.com/v1',
+    protocol: ProtocolType.REST,
+    authentication: AuthenticationType.API_KEY,
+  },
+  pricing: { model: PricingModel.FREE, rates: [] },
+  sla: { availability: 99.9, maxLatency: 500, supportLevel: SupportLevel.BASIC },
+  compliance: { level: ComplianceLevel.PUBLIC, certifications: [], dataResidency: ['US'] },
+  status: ServiceStatus.ACTIVE,
+  metadata: { createdAt: new Date(), updatedAt: new Date() },
+});
+
+// Stored probes, given newest first as the window query returns them
+const check = (available: boolean, latencyMs: number, minutesAgo: number) => ({
+  service_id: 'service-1',
+  available,
+  latency_ms: latencyMs,
+  status_code: available ? 200 : null,
+  error: available ? null : 'connect ECONNREFUSED',
+  checked_at: new Date(NOW - minutesAgo * MINUTE),
+});
+
+const ok = (minutesAgo: number) => check(true, 120, minutesAgo);
+const failed = (minutesAgo: number) => check(false, 5000, minutesAgo);
+
+describe('HealthCheckStore.getCompliance', () => {
+  const query = pool.query as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('only loads probes taken inside the rolling window', async () => {
+    query.mockResolvedValue({ rows: [] });
+
+    await new HealthCheckStore(15).getCompliance(buildService());
+
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('checked_at >= $2'), [
+      'service-1',
+      new Date(NOW - 15 * MINUTE),
+    ]);
+  });
+
+  it('counts slow answers as failures and latency breaches', async () => {
+    query.mockResolvedValue({ rows: [failed(1), check(true, 800, 2), ok(3), check(true, 300, 4)] });
+
+    const compliance = await new HealthCheckStore(60).getCompliance(buildService());
+
+    expect(compliance).toEqual({
+      serviceId: 'service-1',
+      windowStart: new Date(NOW - 60 * MINUTE),
+      totalChecks: 4,
+      successfulChecks: 2,
+      latencyBreaches: 1,
+      consecutiveFailures: 2,
+      availability: 50,
+      targetAvailability: 99.9,
+      averageLatencyMs: 1555,
+      compliant: false,
+    });
+  });
+
+  it('only counts failures since the most recent successful check as consecutive', async () => {
+    query.mockResolvedValue({ rows: [ok(1), failed(2), failed(3), failed(4)] });
+
+    const compliance = await new HealthCheckStore(60).getCompliance(buildService());
+
+    expect(compliance.consecutiveFailures).toBe(0);
+    expect(compliance.availability).toBe(25);
+  });
+
+  it('reports a service with no probes in the window as compliant', async () => {
+    query.mockResolvedValue({ rows: [] });
+
+    const compliance = await new HealthCheckStore(60).getCompliance(buildService());
+
+    expect(compliance).toMatchObject({ totalChecks: 0, availability: 100, averageLatencyMs: 0, compliant: true });
+  });
+});
+
+describe('HealthMonitor', () => {
+  const query = pool.query as jest.Mock;
+  let windowRows: Array<ReturnType<typeof check>>;
+  let publishingService: jest.Mocked<PublishingService>;
+  let testOrchestrator: jest.Mocked<TestOrchestrator>;
+  let analyticsClient: jest.Mocked<AnalyticsClient>;
+
+  const create = (options: ConstructorParameters<typeof HealthMonitor>[0] = {}) => {
+    const monitor = new HealthMonitor({ minSamples: 3, failureThreshold: 3, concurrency: 2, ...options });
+    publishingService = jest.mocked(PublishingService).mock.instances[0] as jest.Mocked<PublishingService>;
+    testOrchestrator = jest.mocked(TestOrchestrator).mock.instances[0] as jest.Mocked<TestOrchestrator>;
+    analyticsClient = jest.mocked(AnalyticsClient).mock.instances[0] as jest.Mocked<AnalyticsClient>;
+    analyticsClient.trackHealthCheck.mockResolvedValue();
+    analyticsClient.trackSlaBreach.mockResolvedValue();
+
+    testOrchestrator.probeEndpoint.mockImplementation(async (service) => ({
+      serviceId: service.id,
+      available: false,
+      latencyMs: 5000,
+      error: 'connect ECONNREFUSED',
+      checkedAt: new Date(NOW),
+    }));
+    return monitor;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    windowRows = [];
+    query.mockImplementation(async (sql: string) =>
+      sql.startsWith('SELECT') ? { rows: windowRows } : { rows: [], rowCount: 0 }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('checkService', () => {
+    it('records the probe and reports it to analytics', async () => {
+      const monitor = create();
+      windowRows = [failed(0)];
+
+      await monitor.checkService(buildService());
+
+      expect(query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO service_health_checks'), [
+        'service-1',
+        false,
+        5000,
+        null,
+        'connect ECONNREFUSED',
+        new Date(NOW),
+      ]);
+      expect(analyticsClient.trackHealthCheck).toHaveBeenCalledWith('service-1', 'provider-1', {
+        available: false,
+        latencyMs: 5000,
+        statusCode: undefined,
+        latencyBreached: true,
+      });
+    });
+
+    it('suspends a service once its consecutive failures reach the threshold', async () => {
+      const monitor = create();
+      windowRows = [failed(0), failed(1), failed(2), ok(3)];
+
+      const compliance = await monitor.checkService(buildService());
+
+      expect(compliance.consecutiveFailures).toBe(3);
+      expect(analyticsClient.trackSlaBreach).toHaveBeenCalledWith('service-1', 'provider-1', {
+        availability: 25,
+        targetAvailability: 99.9,
+        latencyBreaches: 0,
+        consecutiveFailures: 3,
+      });
+      expect(publishingService.suspendService).toHaveBeenCalledWith(
+        'service-1',
+        'SLA breach: availability 25.00% over the last 60 minutes (target 99.9%), 3 consecutive failed health checks'
+      );
+    });
+
+    it('suspends a failing service even when analytics is down', async () => {
+      const monitor = create();
+      analyticsClient.trackHealthCheck.mockRejectedValue(new Error('Analytics Hub unavailable'));
+      analyticsClient.trackSlaBreach.mockRejectedValue(new Error('Analytics Hub unavailable'));
+      windowRows = [failed(0), failed(1), failed(2), ok(3)];
+
+      await monitor.checkService(buildService());
+
+      expect(publishingService.suspendService).toHaveBeenCalledWith('service-1', expect.stringContaining('SLA breach'));
+    });
+
+    it('reports a breach without suspending while failures are below the threshold', async () => {
+      const monitor = create();
+      windowRows = [failed(0), failed(1), ok(2), ok(3)];
+
+      await monitor.checkService(buildService());
+
+      expect(analyticsClient.trackSlaBreach).toHaveBeenCalled();
+      expect(publishingService.suspendService).not.toHaveBeenCalled();
+    });
+
+    it('does not judge a service on fewer probes than the minimum sample size', async () => {
+      const monitor = create({ minSamples: 5 });
+      windowRows = [failed(0), failed(1), failed(2), failed(3)];
+
+      await monitor.checkService(buildService());
+
+      expect(analyticsClient.trackSlaBreach).not.toHaveBeenCalled();
+      expect(publishingService.suspendService).not.toHaveBeenCalled();
+    });
+
+    it('does not suspend a compliant service', async () => {
+      const monitor = create({ failureThreshold: 1 });
+      testOrchestrator.probeEndpoint.mockResolvedValue({
+        serviceId: 'service-1',
+        available: true,
+        latencyMs: 120,
+        statusCode: 200,
+        checkedAt: new Date(NOW),
+      });
+      windowRows = [ok(0), ok(1), ok(2)];
+
+      const compliance = await monitor.checkService(buildService());
+
+      expect(compliance.compliant).toBe(true);
+      expect(analyticsClient.trackSlaBreach).not.toHaveBeenCalled();
+      expect(publishingService.suspendService).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runCycle', () => {
+    it('probes every active service past a failed check and prunes old probes', async () => {
+      const monitor = create({ retentionDays: 7 });
+      const services = ['service-1', 'service-2', 'service-3'].map((id) => buildService(id));
+      publishingService.getActiveServices.mockResolvedValue(services);
+      testOrchestrator.probeEndpoint.mockRejectedValueOnce(new Error('probe crashed'));
+
+      await monitor.runCycle();
+
+      expect(testOrchestrator.probeEndpoint.mock.calls.map(([service]) => service.id)).toEqual([
+        'service-1',
+        'service-2',
+        'service-3',
+      ]);
+      expect(analyticsClient.trackHealthCheck).toHaveBeenCalledTimes(2);
+      expect(query).toHaveBeenCalledWith('DELETE FROM service_health_checks WHERE checked_at < $1', [
+        new Date(NOW - 7 * 24 * 60 * MINUTE),
+      ]);
+    });
+
+    it('skips a cycle while the previous one is still running', async () => {
+      const monitor = create();
+      let finish: (services: Service[]) => void = () => undefined;
+      publishingService.getActiveServices.mockReturnValueOnce(
+        new Promise((resolve) => {
+          finish = resolve;
+        })
+      );
+
+      const first = monitor.runCycle();
+      await monitor.runCycle();
+
+      expect(publishingService.getActiveServices).toHaveBeenCalledTimes(1);
+
+      finish([]);
+      await first;
+      publishingService.getActiveServices.mockResolvedValue([]);
+      await monitor.runCycle();
+
+      expect(publishingService.getActiveServices).toHaveBeenCalledTimes(2);
+    });
+
+    it('starts the next cycle after a failed one', async () => {
+      const monitor = create();
+      publishingService.getActiveServices.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(monitor.runCycle()).rejects.toThrow('database unavailable');
+
+      publishingService.getActiveServices.mockResolvedValue([]);
+      await monitor.runCycle();
+
+      expect(publishingService.getActiveServices).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Idempotency-Key replay and If-Match parsing tests
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import express from 'express';
+import {
+  IdempotencyRecord,
+  IdempotencyStore,
+  createIdempotencyMiddleware,
+  requestFingerprint,
+} from '../utils/idempotency';
+import { parseIfMatch } from '../utils/etag';
+
+class MemoryStore implements IdempotencyStore {
+  readonly records = new Map<string, IdempotencyRecord>();
+
+  async claim(key: string, record: IdempotencyRecord): Promise<boolean> {
+    if (this.records.has(key)) {
+      return false;
+    }
+    this.records.set(key, record);
+    return true;
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    return this.records.get(key) ?? null;
+  }
+
+  async save(key: string, record: IdempotencyRecord): Promise<void> {
+    this.records.set(key, record);
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+describe('createIdempotencyMiddleware', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const store = new MemoryStore();
+  let created: number;
+  let failNext: boolean;
+
+  const post = async (body: object, key?: string) => {
+    const response = await axios.post(`${baseUrl}/services`, body, {
+      headers: key ? { 'Idempotency-Key': key } : {},
+      validateStatus: () => true,
+    });
+    // Let the middleware record the response before the next request
+    await new Promise((resolve) => setImmediate(resolve));
+    return response;
+  };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post(
+      '/services',
+      createIdempotencyMiddleware(
+        store,
+        (statusCode, message, res) => {
+          res.status(statusCode).json({ success: false, error: message });
+        }
+      ),
+      (req, res) => {
+        if (failNext) {
+          failNext = false;
+          res.status(503).json({ success: false, error: 'Registry unavailable' });
+          return;
+        }
+        created++;
+        res.set('ETag', `"${created}"`);
+        res.status(201).json({ success: true, data: { id: `service-${created}`, name: req.body.name } });
+      }
+    );
+
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    store.records.clear();
+    created = 0;
+    failNext = false;
+  });
+
+  it('replays the first response to a retry with the same key', async () => {
+    const first = await post({ name: 'summarizer' }, 'key-1');
+    const retry = await post({ name: 'summarizer' }, 'key-1');
+
+    expect(created).toBe(1);
+    expect(retry.status).toBe(201);
+    expect(retry.data).toEqual(first.data);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.headers.etag).toBe('"1"');
+  });
+
+  it('processes requests without a key every time', async () => {
+    await post({ name: 'summarizer' });
+    await post({ name: 'summarizer' });
+
+    expect(created).toBe(2);
+  });
+
+  it('rejects a key reused for a different body', async () => {
+    await post({ name: 'summarizer' }, 'key-1');
+    const reused = await post({ name: 'translator' }, 'key-1');
+
+    expect(reused.status).toBe(422);
+    expect(created).toBe(1);
+  });
+
+  it('rejects a retry while the first request is still running', async () => {
+    await store.claim('idempotency:anonymous:POST:/services:key-1', {
+      state: 'in_progress',
+      fingerprint: requestFingerprint({ name: 'summarizer' }),
+    });
+
+    const retry = await post({ name: 'summarizer' }, 'key-1');
+
+    expect(retry.status).toBe(409);
+    expect(created).toBe(0);
+  });
+
+  it('releases the key after a server error so the request can be retried', async () => {
+    failNext = true;
+
+    const failed = await post({ name: 'summarizer' }, 'key-1');
+    const retry = await post({ name: 'summarizer' }, 'key-1');
+
+    expect(failed.status).toBe(503);
+    expect(retry.status).toBe(201);
+    expect(created).toBe(1);
+  });
+});
+
+describe('parseIfMatch', () => {
+  it('accepts any revision when absent or a wildcard', () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch('*')).toBeUndefined();
+  });
+
+  it('reads strong revision tags and drops weak or malformed ones', () => {
+    expect(parseIfMatch('"3", "5"')).toEqual([3, 5]);
+    expect(parseIfMatch('W/"3"')).toEqual([]);
+    expect(parseIfMatch('3')).toEqual([]);
+  });
+});
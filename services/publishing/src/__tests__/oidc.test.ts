@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import {
+  OidcDiscoveryDocument,
+  buildAuthorizationUrl,
+  createPkcePair,
+  exchangeAuthorizationCode,
+  fetchDiscoveryDocument,
+  verifyIdToken,
+} from '../common/oidc';
+import { extractGroups, resolveRoleFromGroups } from '../models/sso.model';
+import { UserRole } from '../models/user.model';
+
+/**
+ * Minimal OIDC provider: discovery, JWKS and a token endpoint that checks
+ * the PKCE verifier against the challenge sent to the authorize endpoint
+ */
+describe('OIDC client against a mock provider', () => {
+  const client = { clientId: 'marketplace', clientSecret: 'shh', redirectUri: 'http://localhost/callback' };
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const grants = new Map<string, { challenge: string; nonce: string; audience?: string }>();
+
+  let server: http.Server;
+  let issuer: string;
+  let document: OidcDiscoveryDocument;
+
+  const authorize = (url: string, overrides: { audience?: string } = {}): string => {
+    const params = new URL(url).searchParams;
+    const code = crypto.randomBytes(8).toString('hex');
+    grants.set(code, {
+      challenge: params.get('code_challenge')!,
+      nonce: params.get('nonce')!,
+      ...overrides,
+    });
+    return code;
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const json = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.url === '/.well-known/openid-configuration') {
+        return json(200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+          code_challenge_methods_supported: ['S256'],
+        });
+      }
+
+      if (req.url === '/jwks') {
+        return json(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' }] });
+      }
+
+      if (req.url === '/token' && req.method === 'POST') {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          const form = new URLSearchParams(body);
+          const grant = grants.get(form.get('code') ?? '');
+          const challenge = crypto.createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+
+          if (!grant || grant.challenge !== challenge || form.get('client_secret') !== client.clientSecret) {
+            return json(400, { error: 'invalid_grant' });
+          }
+
+          grants.delete(form.get('code')!);
+
+          const idToken = jwt.sign(
+            {
+              email: 'ada@example.com',
+              email_verified: true,
+              nonce: grant.nonce,
+              groups: ['engineering', 'marketplace-publishers'],
+            },
+            privateKey,
+            {
+              algorithm: 'RS256',
+              keyid: 'key-1',
+              issuer,
+              subject: 'idp-user-1',
+              audience: grant.audience ?? client.clientId,
+              expiresIn: 300,
+            }
+          );
+
+          json(200, { id_token: idToken, access_token: 'at', token_type: 'Bearer' });
+        });
+        return;
+      }
+
+      json(404, { error: 'not_found' });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    document = await fetchDiscoveryDocument(`${issuer}/.well-known/openid-configuration`);
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('completes the authorization-code flow with PKCE', async () => {
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    const url = buildAuthorizationUrl(document, client, {
+      scopes: ['openid', 'email'],
+      state: 'state-1',
+      nonce: 'nonce-1',
+      codeChallenge,
+    });
+
+    expect(new URL(url).searchParams.get('code_challenge_method')).toBe('S256');
+
+    const tokens = await exchangeAuthorizationCode(document, client, { code: authorize(url), codeVerifier });
+    const claims = await verifyIdToken(tokens.id_token, document, { clientId: client.clientId, nonce: 'nonce-1' });
+
+    expect(claims.sub).toBe('idp-user-1');
+    expect(claims.email).toBe('ada@example.com');
+  });
+
+  it('rejects a code redeemed with the wrong verifier', async () => {
+    const { codeChallenge } = createPkcePair();
+    const url = buildAuthorizationUrl(document, client, {
+      scopes: ['openid'],
+      state: 'state-2',
+      nonce: 'nonce-2',
+      codeChallenge,
+    });
+
+    await expect(
+      exchangeAuthorizationCode(document, client, { code: authorize(url), codeVerifier: createPkcePair().codeVerifier })
+    ).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('rejects ID tokens with the wrong nonce or audience', async () => {
+    const run = async (audience?: string) => {
+      const { codeVerifier, codeChallenge } = createPkcePair();
+      const url = buildAuthorizationUrl(document, client, {
+        scopes: ['openid'],
+        state: 'state-3',
+        nonce: 'nonce-3',
+        codeChallenge,
+      });
+      return exchangeAuthorizationCode(document, client, { code: authorize(url, { audience }), codeVerifier });
+    };
+
+    const tokens = await run();
+    await expect(
+      verifyIdToken(tokens.id_token, document, { clientId: client.clientId, nonce: 'other-nonce' })
+    ).rejects.toThrow('nonce mismatch');
+
+    const foreign = await run('another-client');
+    await expect(
+      verifyIdToken(foreign.id_token, document, { clientId: client.clientId, nonce: 'nonce-3' })
+    ).rejects.toThrow('Invalid ID token');
+  });
+
+  it('maps IdP groups to the highest matching role', () => {
+    const mappings = { 'marketplace-publishers': UserRole.PROVIDER, 'marketplace-admins': UserRole.ADMIN };
+    const groups = extractGroups({ groups: ['engineering', 'marketplace-publishers'] }, 'groups');
+
+    expect(resolveRoleFromGroups(groups, mappings, UserRole.CONSUMER)).toBe(UserRole.PROVIDER);
+    expect(resolveRoleFromGroups([...groups, 'marketplace-admins'], mappings, UserRole.CONSUMER)).toBe(UserRole.ADMIN);
+    expect(resolveRoleFromGroups(['engineering'], mappings, UserRole.VIEWER)).toBe(UserRole.VIEWER);
+  });
+});
@@ -0,0 +1,192 @@
+import { OpenAPIDiffEngine, BreakingChangeError } from '../validators/openapi-diff';
+
+describe('OpenAPIDiffEngine', () => {
+  let engine: OpenAPIDiffEngine;
+
+  const baseSpec = () => ({
+    openapi: '3.1.0',
+    info: { title: 'Completion API', version: '1.0.0' },
+    security: [{ apiKey: [] }],
+    paths: {
+      '/models/{id}': {
+        get: {
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { '200': { description: 'Model' } },
+        },
+      },
+      '/completions': {
+        post: {
+          parameters: [
+            { name: 'mode', in: 'query', schema: { type: 'string', enum: ['fast', 'accurate'] } },
+          ],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['prompt'],
+                  properties: { prompt: { type: 'string' }, temperature: { type: 'number' } },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Completion',
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/Completion' } },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Completion: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+            usage: { type: 'object', properties: { tokens: { type: 'integer' } } },
+          },
+        },
+      },
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+  });
+
+  /**
+   * Copy of the base spec with the value at `path` replaced (or deleted when undefined)
+   */
+  const specWith = (...changes: Array<[string[], unknown]>): Record<string, unknown> => {
+    const spec: Record<string, unknown> = baseSpec();
+
+    for (const [path, value] of changes) {
+      let target = spec;
+      for (const key of path.slice(0, -1)) {
+        target = target[key] as Record<string, unknown>;
+      }
+
+      const last = path[path.length - 1];
+      if (value === undefined) {
+        delete target[last];
+      } else {
+        target[last] = value;
+      }
+    }
+
+    return spec;
+  };
+
+  const completionProperties = ['components', 'schemas', 'Completion', 'properties'];
+
+  beforeEach(() => {
+    engine = new OpenAPIDiffEngine();
+  });
+
+  it('should report no changes for identical specs', () => {
+    const report = engine.diff(baseSpec(), baseSpec(), '1.0.0', '1.0.1');
+
+    expect(report.breaking).toBe(false);
+    expect(report.changes).toEqual([]);
+  });
+
+  it('should treat additions as non-breaking', () => {
+    const next = specWith(
+      [['paths', '/embeddings'], { post: { responses: { '200': { description: 'Embedding' } } } }],
+      [[...completionProperties, 'finishReason'], { type: 'string' }]
+    );
+
+    const report = engine.diff(baseSpec(), next, '1.0.0', '1.1.0');
+
+    expect(report.breaking).toBe(false);
+    expect(report.changes.map((c) => c.kind)).toEqual(['response-field-added', 'path-added']);
+  });
+
+  it('should not report renamed path parameters as removed paths', () => {
+    const next = specWith(
+      [['paths', '/models/{id}'], undefined],
+      [
+        ['paths', '/models/{modelId}'],
+        {
+          get: {
+            parameters: [{ name: 'modelId', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: { '200': { description: 'Model' } },
+          },
+        },
+      ]
+    );
+
+    const report = engine.diff(baseSpec(), next, '1.0.0', '1.0.1');
+
+    expect(report.changes).toEqual([]);
+  });
+
+  it('should detect removed paths and removed or retyped response fields', () => {
+    const next = specWith(
+      [['paths', '/models/{id}'], undefined],
+      [completionProperties, { text: { type: 'array' } }]
+    );
+
+    const report = engine.diff(baseSpec(), next, '1.0.0', '2.0.0');
+    const breaking = report.changes.filter((c) => c.breaking);
+
+    expect(breaking.map((c) => c.kind)).toEqual(
+      expect.arrayContaining(['path-removed', 'response-field-removed', 'response-field-retyped'])
+    );
+    expect(breaking.find((c) => c.kind === 'response-field-removed')?.message).toBe(
+      "Field 'usage' was removed"
+    );
+  });
+
+  it('should detect new required parameters, required request fields and narrowed enums', () => {
+    const post = ['paths', '/completions', 'post'];
+    const next = specWith(
+      [
+        [...post, 'parameters'],
+        [
+          { name: 'mode', in: 'query', schema: { type: 'string', enum: ['fast'] } },
+          { name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+      ],
+      [[...post, 'requestBody', 'content', 'application/json', 'schema', 'required'], ['prompt', 'temperature']]
+    );
+
+    const report = engine.diff(baseSpec(), next, '1.0.0', '1.1.0');
+
+    expect(report.breaking).toBe(true);
+    expect(report.changes.map((c) => c.kind)).toEqual(
+      expect.arrayContaining(['enum-narrowed', 'parameter-added', 'request-field-required'])
+    );
+  });
+
+  it('should detect changed authentication schemes', () => {
+    const next = specWith(
+      [['security'], [{ bearer: [] }]],
+      [['components', 'securitySchemes'], { bearer: { type: 'http', scheme: 'bearer' } }]
+    );
+
+    const report = engine.diff(baseSpec(), next, '1.0.0', '1.0.1');
+    const kinds = report.changes.filter((c) => c.breaking).map((c) => c.kind);
+
+    expect(kinds).toEqual(['security-changed', 'security-changed']);
+  });
+
+  describe('assertCompatibleBump', () => {
+    const breakingReport = () => specWith([['paths', '/models/{id}'], undefined]);
+
+    it('should reject a minor bump with breaking changes', () => {
+      const report = engine.diff(baseSpec(), breakingReport(), '1.2.0', '1.3.0');
+
+      expect(() => engine.assertCompatibleBump(report)).toThrow(BreakingChangeError);
+    });
+
+    it('should allow a major bump with breaking changes', () => {
+      const report = engine.diff(baseSpec(), breakingReport(), '1.2.0', '2.0.0');
+
+      expect(() => engine.assertCompatibleBump(report)).not.toThrow();
+    });
+  });
+});
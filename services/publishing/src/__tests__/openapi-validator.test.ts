@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OpenAPIValidator } from '../validators/openapi-validator';
+
+describe('OpenAPIValidator', () => {
+  const buildSpec = (
+    openapi: string,
+    schemas: Record<string, unknown>,
+    responseSchema: unknown = { $ref: '#/components/schemas/Model' }
+  ): Record<string, unknown> => ({
+    openapi,
+    info: { title: 'Models API', version: '1.0.0' },
+    paths: {
+      '/models/{id}': {
+        get: {
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': {
+              description: 'Model',
+              content: { 'application/json': { schema: responseSchema } },
+            },
+          },
+        },
+      },
+    },
+    components: { schemas },
+  });
+
+  const fields = (result: { errors: Array<{ field: string }> }) => result.errors.map((e) => e.field);
+
+  describe('versions and dialects', () => {
+    it('should accept a 3.0 document using nullable', async () => {
+      const validator = new OpenAPIValidator(false);
+      const spec = buildSpec('3.0.3', {
+        Model: { type: 'object', properties: { owner: { type: 'string', nullable: true } } },
+      });
+
+      const result = await validator.validate(spec);
+
+      expect(result.errors).toEqual([]);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should accept a 3.1 document using type arrays', async () => {
+      const validator = new OpenAPIValidator(false);
+      const spec = buildSpec('3.1.0', {
+        Model: { type: 'object', properties: { owner: { type: ['string', 'null'] } } },
+      });
+
+      const result = await validator.validate(spec);
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject unsupported OpenAPI versions', async () => {
+      const validator = new OpenAPIValidator(false);
+
+      const result = await validator.validate(buildSpec('2.0', {}));
+
+      expect(result.errors[0]).toMatchObject({ field: '/openapi', code: 'INVALID_OPENAPI_VERSION' });
+    });
+
+    it('should report dialect violations with JSON Pointer locations', async () => {
+      const validator = new OpenAPIValidator(false);
+      const spec30 = buildSpec('3.0.3', {
+        Model: { type: 'object', properties: { tags: { type: ['string', 'null'] } } },
+      });
+      const spec31 = buildSpec('3.1.0', {
+        Model: { type: 'object', properties: { owner: { type: 'string', nullable: true } } },
+      });
+
+      const result30 = await validator.validate(spec30);
+      const result31 = await validator.validate(spec31);
+
+      expect(fields(result30)).toEqual(['/components/schemas/Model/properties/tags/type']);
+      expect(fields(result31)).toEqual(['/components/schemas/Model/properties/owner/nullable']);
+    });
+
+    it('should escape path segments in locations', async () => {
+      const validator = new OpenAPIValidator(false);
+      const spec = buildSpec('3.1.0', {}, { type: 'object', required: 'id' });
+
+      const result = await validator.validate(spec);
+
+      expect(fields(result)).toEqual([
+        '/paths/~1models~1{id}/get/responses/200/content/application~1json/schema/required',
+      ]);
+    });
+  });
+
+  describe('$ref resolution', () => {
+    it('should report dangling references', async () => {
+      const validator = new OpenAPIValidator(false);
+      const spec = buildSpec('3.1.0', {}, { $ref: '#/components/schemas/Missing' });
+
+      const result = await validator.validate(spec);
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          field: '/paths/~1models~1{id}/get/responses/200/content/application~1json/schema/$ref',
+          code: 'DANGLING_REF',
+        }),
+      ]);
+    });
+
+    it('should report circular $ref chains but allow recursive schemas', async () => {
+      const validator = new OpenAPIValidator(false);
+      const spec = buildSpec('3.1.0', {
+        Model: { $ref: '#/components/schemas/Alias' },
+        Alias: { $ref: '#/components/schemas/Model' },
+        Tree: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Tree' } } } },
+      });
+
+      const result = await validator.validate(spec);
+      const circular = result.errors.filter((e) => e.code === 'CIRCULAR_REF');
+
+      expect(circular.map((e) => e.field)).toEqual(
+        expect.arrayContaining(['/components/schemas/Model/$ref', '/components/schemas/Alias/$ref'])
+      );
+      expect(circular.some((e) => e.field.includes('Tree'))).toBe(false);
+    });
+
+    it('should resolve and validate schemas in external documents', async () => {
+      const validator = new OpenAPIValidator(false, {
+        externalDocuments: {
+          'schemas/common.json': {
+            Model: { type: 'object', properties: { id: { $ref: 'ids.json#/Id' } } },
+          },
+          'schemas/ids.json': { Id: { type: 'string', minLength: -1 } },
+        },
+      });
+      const spec = buildSpec('3.1.0', {}, { $ref: 'schemas/common.json#/Model' });
+
+      const result = await validator.validate(spec);
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({ field: 'schemas/ids.json#/Id/minLength', code: 'INVALID_SCHEMA_KEYWORD' }),
+      ]);
+    });
+
+    it('should load external files from the base directory only', async () => {
+      const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'openapi-refs-'));
+      await fs.writeFile(
+        path.join(baseDir, 'model.json'),
+        JSON.stringify({ Model: { type: 'object' } })
+      );
+
+      try {
+        const validator = new OpenAPIValidator(false, { baseDir });
+
+        const valid = await validator.validate(buildSpec('3.0.3', {}, { $ref: 'model.json#/Model' }));
+        const escaping = await validator.validate(buildSpec('3.0.3', {}, { $ref: '../model.json#/Model' }));
+
+        expect(valid.isValid).toBe(true);
+        expect(escaping.errors.map((e) => e.code)).toEqual(['UNSUPPORTED_REF']);
+      } finally {
+        await fs.rm(baseDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
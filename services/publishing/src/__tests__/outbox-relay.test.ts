@@ -0,0 +1,80 @@
+/**
+ * Outbox relay delivery, retry and failure tests
+ */
+
+import { OutboxRelay } from '../services/outbox-relay';
+import { OutboxStore } from '../services/outbox-store';
+import { AnalyticsClient } from '../integrations/analytics-client';
+import { GovernanceClient } from '../integrations/governance-client';
+import { OutboxEvent } from '../types';
+
+jest.mock('../services/outbox-store');
+jest.mock('../integrations/analytics-client');
+jest.mock('../integrations/governance-client');
+jest.mock('../config/database');
+jest.mock('../config/redis');
+
+const event = (overrides: Partial<OutboxEvent> = {}): OutboxEvent => ({
+  id: 'event-1',
+  destination: 'analytics',
+  eventType: 'service_published',
+  aggregateId: 'service-1',
+  payload: { serviceId: 'service-1' },
+  status: 'pending',
+  attempts: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('OutboxRelay', () => {
+  let relay: OutboxRelay;
+  let outboxStore: jest.Mocked<OutboxStore>;
+  let analyticsClient: jest.Mocked<AnalyticsClient>;
+  let governanceClient: jest.Mocked<GovernanceClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    relay = new OutboxRelay({ maxAttempts: 3, retryBaseMs: 1000 });
+    outboxStore = jest.mocked(OutboxStore).mock.instances[0] as jest.Mocked<OutboxStore>;
+    analyticsClient = jest.mocked(AnalyticsClient).mock.instances[0] as jest.Mocked<AnalyticsClient>;
+    governanceClient = jest.mocked(GovernanceClient).mock.instances[0] as jest.Mocked<GovernanceClient>;
+  });
+
+  it('delivers each event to its destination and marks it delivered', async () => {
+    const analyticsEvent = event();
+    const governanceEvent = event({ id: 'event-2', destination: 'governance' });
+    outboxStore.claimDue.mockResolvedValue([analyticsEvent, governanceEvent]);
+
+    await expect(relay.processDue()).resolves.toBe(2);
+
+    expect(analyticsClient.deliver).toHaveBeenCalledWith(analyticsEvent);
+    expect(governanceClient.deliverEvent).toHaveBeenCalledWith(governanceEvent);
+    expect(outboxStore.recordAttempt).toHaveBeenCalledWith('event-1', { status: 'delivered', attempts: 1 });
+    expect(outboxStore.recordAttempt).toHaveBeenCalledWith('event-2', { status: 'delivered', attempts: 1 });
+  });
+
+  it('backs off exponentially after a failed delivery', async () => {
+    outboxStore.claimDue.mockResolvedValue([event({ attempts: 1 })]);
+    analyticsClient.deliver.mockRejectedValue(new Error('Broker unavailable'));
+    const before = Date.now();
+
+    await expect(relay.processDue()).resolves.toBe(0);
+
+    const [, outcome] = outboxStore.recordAttempt.mock.calls[0];
+    expect(outcome).toMatchObject({ status: 'pending', attempts: 2, error: 'Broker unavailable' });
+    expect(outcome.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 2000);
+  });
+
+  it('marks an event failed once it runs out of attempts', async () => {
+    outboxStore.claimDue.mockResolvedValue([event({ destination: 'governance', attempts: 2 })]);
+    governanceClient.deliverEvent.mockRejectedValue(new Error('Dashboard unavailable'));
+
+    await relay.processDue();
+
+    expect(outboxStore.recordAttempt).toHaveBeenCalledWith('event-1', {
+      status: 'failed',
+      attempts: 3,
+      error: 'Dashboard unavailable',
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Policy language compilation and evaluation tests
+ */
+
+import {
+  compilePolicyBundle,
+  consumptionPolicyInput,
+  evaluatePolicies,
+  parsePolicyBundle,
+  servicePolicyInput,
+} from '../policies/policy-engine';
+import { DEFAULT_POLICY_BUNDLE } from '../policies/default-policy-bundle';
+import { ComplianceLevel, PolicyBundle, Service } from '../types';
+
+describe('default policy bundle', () => {
+  const bundle = compilePolicyBundle(DEFAULT_POLICY_BUNDLE);
+
+  const spec = (overrides: Partial<Service> = {}): Partial<Service> => ({
+    endpoint: { url: 'http://api.example.com', protocol: 'rest', authentication: 'api-key' },
+    compliance: { level: ComplianceLevel.CONFIDENTIAL, dataResidency: ['US', 'IR'], certifications: [] },
+    ...overrides,
+  } as Partial<Service>);
+
+  it('reports the violations of a non-compliant spec', () => {
+    const result = evaluatePolicies(bundle, 'service', servicePolicyInput(spec(), 'production'));
+
+    expect(result.allowed).toBe(false);
+    expect(result.bundle).toEqual({ id: 'marketplace-default', version: '1.0.0' });
+    expect(result.fired.map((violation) => violation.policy)).toEqual([
+      'restricted-countries',
+      'confidential-certification-required',
+      'https-required',
+    ]);
+    expect(result.evaluations).toHaveLength(5);
+  });
+
+  it('only requires HTTPS in production', () => {
+    const result = evaluatePolicies(bundle, 'service', servicePolicyInput(spec(), 'development'));
+
+    expect(result.fired.map((violation) => violation.policy)).not.toContain('https-required');
+  });
+
+  it('allows consumption when no consumption policy fires', () => {
+    const result = evaluatePolicies(bundle, 'consumption', consumptionPolicyInput('c1', 's1', {}));
+
+    expect(result).toMatchObject({ allowed: true, fired: [], evaluations: [] });
+  });
+});
+
+describe('policy bundles', () => {
+  const bundle = (policies: unknown[]): PolicyBundle =>
+    parsePolicyBundle({ id: 'test', version: '2.0.0', policies }, 'test');
+
+  it('evaluates combinators and skips disabled policies', () => {
+    const compiled = compilePolicyBundle(bundle([
+      {
+        id: 'large-eu-requests',
+        target: 'consumption',
+        severity: 'medium',
+        when: {
+          all: [
+            { field: 'request.maxTokens', op: 'gt', value: 1000 },
+            { any: [{ field: 'request.region', op: 'in', value: ['eu-west', 'eu-central'] }] },
+          ],
+        },
+        message: 'Too many tokens',
+      },
+      {
+        id: 'disabled',
+        target: 'consumption',
+        severity: 'low',
+        when: { field: 'request.region', op: 'exists' },
+        message: 'Never fires',
+        enabled: false,
+      },
+    ]));
+
+    const input = (request: Record<string, unknown>) => consumptionPolicyInput('c1', 's1', request);
+
+    expect(evaluatePolicies(compiled, 'consumption', input({ maxTokens: 5000, region: 'eu-west' })).fired)
+      .toEqual([{ policy: 'large-eu-requests', severity: 'medium', message: 'Too many tokens' }]);
+    expect(evaluatePolicies(compiled, 'consumption', input({ maxTokens: 5000, region: 'us-east' })).allowed)
+      .toBe(true);
+  });
+
+  it('rejects malformed bundles when they are loaded', () => {
+    expect(() => parsePolicyBundle({ id: 'test', version: 'latest', policies: [] }, 'test'))
+      .toThrow('Invalid policy bundle from test: version Version must be valid semver');
+
+    expect(() => compilePolicyBundle(bundle([
+      { id: 'p', target: 'service', severity: 'low', when: { field: 'service.name', op: 'matches', value: '(' }, message: 'm' },
+    ]))).toThrow('policy p: matches on service.name has an invalid pattern');
+
+    expect(() => compilePolicyBundle(bundle([
+      { id: 'p', target: 'service', severity: 'low', when: { field: 'service.sla.availability', op: 'lt', value: '99' }, message: 'm' },
+    ]))).toThrow('lt on service.sla.availability needs a numeric value');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Postman collection importer tests
+ */
+
+import { PostmanImporter } from '../importers/postman-importer';
+import { AuthenticationType, ProtocolType } from '../types';
+import notes from './fixtures/notes.postman.json';
+
+describe('PostmanImporter', () => {
+  const importer = new PostmanImporter();
+
+  const fixture = (): Record<string, unknown> => structuredClone(notes);
+
+  const convert = (collection: Record<string, unknown> = fixture()) => {
+    const spec = importer.import(collection).service.openApiSpec as Record<string, any>;
+    return { spec, paths: spec.paths };
+  };
+
+  it('converts the fixture into a draft REST service', () => {
+    const { service, warnings } = importer.import(fixture());
+
+    expect(service.name).toBe('Notes API');
+    expect(service.description).toBe('Personal notes');
+    expect(service.version).toBe('2.1.0');
+    expect(service.endpoint).toEqual({
+      url: 'https://notes.example.com/api',
+      protocol: ProtocolType.REST,
+      authentication: AuthenticationType.JWT,
+    });
+    expect(service.metadata?.tags).toEqual(['Notes']);
+    expect(service.capabilities?.map((capability) => capability.name)).toEqual([
+      'list-notes',
+      'create-note',
+      'get-note',
+      'health',
+    ]);
+    expect(warnings).toEqual([
+      "Request 'Create note again' duplicates POST /notes and was skipped",
+      "Request 'Broken' has no URL and was skipped",
+    ]);
+  });
+
+  it('produces an OpenAPI 3.1 document secured by the collection auth', () => {
+    const { spec, paths } = convert();
+
+    expect(spec.openapi).toBe('3.1.0');
+    expect(spec.servers).toEqual([{ url: 'https://notes.example.com/api' }]);
+    expect(spec.components.securitySchemes).toEqual({ bearerAuth: { type: 'http', scheme: 'bearer' } });
+    expect(spec.security).toEqual([{ bearerAuth: [] }]);
+    expect(paths['/notes'].get).not.toHaveProperty('security');
+    expect(paths['/health'].get.security).toEqual([]);
+  });
+
+  it('turns query, path and header values into parameters with examples', () => {
+    const { paths } = convert();
+
+    expect(paths['/notes'].get.parameters).toEqual([
+      { name: 'limit', in: 'query', required: false, schema: { type: 'string' }, description: 'Page size', example: '10' },
+      { name: 'X-Request-Id', in: 'header', required: false, schema: { type: 'string' }, example: 'abc-123' },
+    ]);
+    expect(paths['/notes/{noteId}'].get.parameters).toEqual([
+      { name: 'noteId', in: 'path', required: true, schema: { type: 'string' }, description: 'Note ID', example: 'n1' },
+    ]);
+  });
+
+  it('infers request and response schemas from raw JSON bodies and saved examples', () => {
+    const { paths } = convert();
+
+    expect(paths['/notes'].post.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: { title: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+          },
+          example: { title: 'Groceries', tags: ['home'] },
+        },
+      },
+    });
+    expect(paths['/notes'].get.responses['200']).toEqual({
+      description: 'Notes found',
+      content: {
+        'application/json': {
+          schema: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { id: { type: 'string' }, title: { type: 'string' }, pinned: { type: 'boolean' } },
+            },
+          },
+          example: [{ id: 'n1', title: 'Groceries', pinned: true }],
+        },
+      },
+    });
+    expect(paths['/notes/{noteId}'].get.responses).toEqual({
+      '404': { description: 'Missing', content: { 'text/plain': { schema: { type: 'string' }, example: 'Not found' } } },
+    });
+    expect(paths['/notes'].post.responses).toEqual({ '200': { description: 'Successful response' } });
+  });
+
+  describe('collection variables', () => {
+    it('warns and leaves the endpoint URL empty when the base URL variable is not defined', () => {
+      const collection = fixture();
+      collection.variable = [];
+
+      const { service, warnings } = importer.import(collection);
+
+      expect(service.endpoint?.url).toBe('');
+      expect((service.openApiSpec as Record<string, unknown>).servers).toEqual([]);
+      expect(warnings).toContain(
+        'Collection requests have no resolvable base URL, the endpoint URL must be provided'
+      );
+    });
+
+    it('uses the most common base URL and warns about the others', () => {
+      const collection = fixture() as Record<string, any>;
+      collection.item[1].request.url = 'https://status.example.com/health';
+
+      const { service, warnings } = importer.import(collection);
+
+      expect(service.endpoint?.url).toBe('https://notes.example.com/api');
+      expect(warnings).toContain('Requests use 2 different base URLs, using https://notes.example.com/api as the server');
+    });
+  });
+
+  describe('malformed collections', () => {
+    it.each([
+      ['without info', { item: [] }],
+      ['in the v2.0 format', { info: { schema: 'https://schema.getpostman.com/json/collection/v2.0.0/collection.json' }, item: [] }],
+      ['with info given as a string', { info: 'Notes API', item: [] }],
+    ])('rejects a collection %s', (_label, collection) => {
+      expect(() => importer.import(collection)).toThrow(
+        'Invalid Postman collection: only collection format v2.1 is supported'
+      );
+    });
+
+    it('rejects a collection without items', () => {
+      const collection = fixture();
+      delete collection.item;
+
+      expect(() => importer.import(collection)).toThrow('Invalid Postman collection: "item" is required');
+    });
+
+    it('keeps a raw body that is not valid JSON as plain text', () => {
+      const collection = fixture() as Record<string, any>;
+      collection.item[0].item[2].request.body.raw = '{"title": ';
+
+      const { paths } = convert(collection);
+
+      expect(paths['/notes'].post.requestBody).toEqual({
+        required: true,
+        content: { 'text/plain': { schema: { type: 'string' }, example: '{"title": ' } },
+      });
+    });
+
+    it('skips items that are neither folders nor requests', () => {
+      const collection = fixture() as Record<string, any>;
+      collection.item.push(null, 'not an item', { name: 'No request' });
+
+      const { service } = importer.import(collection);
+
+      expect(service.capabilities).toHaveLength(4);
+    });
+  });
+});
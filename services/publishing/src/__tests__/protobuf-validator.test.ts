@@ -0,0 +1,160 @@
+import { ProtobufValidator } from '../validators/protobuf-validator';
+import { encodeStringField, encodeVarint } from '../utils/protobuf-wire';
+
+describe('ProtobufValidator', () => {
+  const inferenceProto = `
+    syntax = "proto3";
+    package acme.inference.v1;
+
+    import "google/protobuf/timestamp.proto";
+
+    service Inference {
+      // Generate a completion
+      rpc Complete(CompleteRequest) returns (CompleteResponse);
+      rpc Stream(CompleteRequest) returns (stream CompleteResponse) {}
+    }
+
+    message CompleteRequest {
+      string prompt = 1;
+      map<string, string> labels = 2;
+      Mode mode = 3;
+      google.protobuf.Timestamp requested_at = 4;
+    }
+
+    message CompleteResponse {
+      repeated string choices = 1;
+      oneof usage {
+        int32 tokens = 2;
+        string note = 3;
+      }
+    }
+
+    enum Mode {
+      MODE_UNSPECIFIED = 0;
+      FAST = 1;
+    }
+  `;
+
+  const codes = (result: { errors: Array<{ code: string }> }) => result.errors.map((e) => e.code);
+
+  describe('proto sources', () => {
+    it('should accept a valid proto3 file', async () => {
+      const validator = new ProtobufValidator();
+
+      const result = await validator.validate({ protoFiles: { 'inference.proto': inferenceProto } });
+
+      expect(result.errors).toEqual([]);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should report syntax errors with their location', async () => {
+      const validator = new ProtobufValidator();
+
+      const result = await validator.validate({ protoFiles: { 'broken.proto': 'syntax = "proto3";\nmessage {' } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].code).toBe('PROTO_SYNTAX_ERROR');
+      expect(result.errors[0].field).toBe('broken.proto:2:9');
+    });
+
+    it('should report semantic errors', async () => {
+      const validator = new ProtobufValidator();
+      const source = `
+        syntax = "proto3";
+        package p;
+        message M { required string a = 1; Unknown b = 1; }
+        enum E { FIRST = 1; }
+        service S { rpc X(M) returns (Missing); }
+      `;
+
+      const result = await validator.validate({ protoFiles: { 'bad.proto': source } });
+
+      expect(codes(result)).toEqual(expect.arrayContaining([
+        'PROTO3_REQUIRED_FIELD',
+        'DUPLICATE_FIELD_NUMBER',
+        'UNRESOLVED_TYPE',
+        'PROTO3_ENUM_ZERO',
+      ]));
+    });
+
+    it('should require imported files to be uploaded', async () => {
+      const validator = new ProtobufValidator();
+      const source = 'syntax = "proto3"; import "common.proto"; service S { rpc X(A) returns (A); }';
+
+      const result = await validator.validate({ protoFiles: { 'svc.proto': source } });
+
+      expect(codes(result)).toContain('MISSING_IMPORT');
+    });
+  });
+
+  describe('capabilities', () => {
+    it('should derive one capability per RPC method', () => {
+      const validator = new ProtobufValidator();
+
+      const capabilities = validator.deriveCapabilities(
+        validator.loadDescriptors({ protoFiles: { 'inference.proto': inferenceProto } })
+      );
+
+      expect(capabilities.map((c) => c.name)).toEqual([
+        'acme.inference.v1.Inference/Complete',
+        'acme.inference.v1.Inference/Stream',
+      ]);
+      expect(capabilities[0].description).toBe('Generate a completion');
+      expect(capabilities[1].parameters).toMatchObject({ streaming: 'server-streaming' });
+    });
+  });
+
+  describe('descriptor sets', () => {
+    const message = (field: number, ...parts: Buffer[]): Buffer => {
+      const payload = Buffer.concat(parts);
+      return Buffer.concat([encodeVarint(field * 8 + 2), encodeVarint(payload.length), payload]);
+    };
+    const varintField = (field: number, value: number): Buffer =>
+      Buffer.concat([encodeVarint(field * 8), encodeVarint(value)]);
+
+    // message Ping { string id = 1; }
+    const pingMessage = message(
+      4,
+      encodeStringField(1, 'Ping'),
+      message(2, encodeStringField(1, 'id'), varintField(3, 1), varintField(4, 1), varintField(5, 9))
+    );
+    // service Pinger { rpc Ping(Ping) returns (Ping); }
+    const pingerService = message(
+      6,
+      encodeStringField(1, 'Pinger'),
+      message(
+        2,
+        encodeStringField(1, 'Ping'),
+        encodeStringField(2, '.acme.ping.Ping'),
+        encodeStringField(3, '.acme.ping.Ping')
+      )
+    );
+    const descriptorSet = message(
+      1,
+      encodeStringField(1, 'ping.proto'),
+      encodeStringField(2, 'acme.ping'),
+      pingMessage,
+      pingerService,
+      encodeStringField(12, 'proto3')
+    );
+
+    it('should decode a base64 FileDescriptorSet', async () => {
+      const validator = new ProtobufValidator();
+      const spec = { fileDescriptorSet: descriptorSet.toString('base64') };
+
+      const result = await validator.validate(spec);
+      const capabilities = validator.deriveCapabilities(validator.loadDescriptors(spec));
+
+      expect(result.errors).toEqual([]);
+      expect(capabilities.map((c) => c.name)).toEqual(['acme.ping.Pinger/Ping']);
+    });
+
+    it('should reject a descriptor set that is not base64', async () => {
+      const validator = new ProtobufValidator();
+
+      const result = await validator.validate({ fileDescriptorSet: 'not base64!' });
+
+      expect(codes(result)).toEqual(['INVALID_DESCRIPTOR_SET']);
+    });
+  });
+});
@@ -4,7 +4,20 @@
  */
 
 import { PublishingService } from '../services/publishing-service';
-import { ServiceCategory, ServiceStatus, PricingModel, SupportLevel, ComplianceLevel } from '../types';
+import { DeprecationWorkflow, PublishingWorkflow, PublishingWorkflowActivities } from '../workflows/publishing-workflow';
+import { WorkflowStateStore } from '../workflows/workflow-state-store';
+import { ServiceValidator } from '../validators/service-validator';
+import { ServiceDraftStore } from '../services/service-draft-store';
+import {
+  AuthenticationType,
+  ComplianceLevel,
+  PricingModel,
+  ProtocolType,
+  ServiceCategory,
+  ServiceDraft,
+  ServiceStatus,
+  SupportLevel,
+} from '../types';
 
 // Mock dependencies
 jest.mock('../validators/service-validator');
@@ -15,13 +28,62 @@ jest.mock('../integrations/analytics-client');
 jest.mock('../integrations/governance-client');
 jest.mock('../config/database');
 jest.mock('../config/redis');
+jest.mock('../workflows/workflow-state-store');
+jest.mock('../services/outbox-store');
+
+declare global {
+  namespace jest {
+    interface Matchers<R> {
+      toBeIn(array: unknown[]): R;
+    }
+  }
+}
 
 describe('PublishingService', () => {
   let publishingService: PublishingService;
+  // publishService runs the PublishingWorkflow; its activities call out to
+  // the validators, the Policy Engine, the Registry and the test runners
+  const activities = PublishingWorkflowActivities.prototype;
 
   beforeEach(() => {
     publishingService = new PublishingService();
+    jest.restoreAllMocks();
     jest.clearAllMocks();
+
+    jest.mocked(WorkflowStateStore.prototype).getSteps.mockResolvedValue([]);
+    jest.mocked(ServiceValidator.prototype).validate.mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+    jest.spyOn(activities, 'validateServiceSpec').mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+    jest.spyOn(activities, 'checkPolicyCompliance').mockResolvedValue({
+      compliant: true,
+      violations: [],
+      policyVersion: '1',
+      validatedAt: new Date(),
+    });
+    jest.spyOn(activities, 'registerWithRegistry').mockResolvedValue({ registryId: 'registry-1', created: true });
+    jest.spyOn(activities, 'saveServiceToDatabase').mockResolvedValue();
+    jest.spyOn(activities, 'runAutomatedTests').mockResolvedValue({
+      passed: true,
+      total: 1,
+      failed: 0,
+      skipped: 0,
+      duration: 1,
+      tests: [],
+    });
+    jest.spyOn(activities, 'runSecurityScan').mockResolvedValue({
+      passed: true,
+      vulnerabilities: [],
+      scanTime: new Date(),
+      scanner: 'stub',
+    });
+    jest.spyOn(activities, 'runPerformanceBenchmarks').mockResolvedValue({
+      passed: true,
+      metrics: [],
+      benchmarkedAt: new Date(),
+    });
+    jest.spyOn(activities, 'createApprovalWorkflow').mockResolvedValue('approval-1');
+    jest.spyOn(activities, 'waitForApproval').mockReturnValue(new Promise(() => undefined));
+    jest.spyOn(activities, 'activateService').mockResolvedValue();
+    jest.spyOn(activities, 'dispatchWebhook').mockResolvedValue();
   });
 
   describe('publishService', () => {
@@ -42,8 +104,8 @@ describe('PublishingService', () => {
       ],
       endpoint: {
         url: 'https://api.test.com/v1/completions',
-        protocol: 'rest' as const,
-        authentication: 'api-key' as const,
+        protocol: ProtocolType.REST,
+        authentication: AuthenticationType.API_KEY,
       },
       pricing: {
         model: PricingModel.PER_TOKEN,
@@ -84,12 +146,19 @@ describe('PublishingService', () => {
         ...validServiceSpec,
         version: 'invalid-version', // Invalid semver
       };
+      jest.spyOn(activities, 'validateServiceSpec').mockResolvedValue({
+        isValid: false,
+        errors: [{ field: 'version', message: 'Invalid semantic version', code: 'INVALID_VERSION' }],
+        warnings: [],
+      });
 
       const providerId = 'test-provider-id';
 
-      await expect(
-        publishingService.publishService(providerId, invalidServiceSpec)
-      ).rejects.toThrow();
+      const result = await publishingService.publishService(providerId, invalidServiceSpec);
+
+      expect(result.status).toBe(ServiceStatus.FAILED_VALIDATION);
+      expect(result.message).toContain('Invalid semantic version');
+      expect(activities.saveServiceToDatabase).not.toHaveBeenCalled();
     });
 
     it('should require approval for confidential services', async () => {
@@ -118,11 +187,43 @@ describe('PublishingService', () => {
         },
       };
 
+      jest.spyOn(activities, 'checkPolicyCompliance').mockResolvedValue({
+        compliant: false,
+        violations: [
+          {
+            policy: 'transport-security',
+            severity: 'critical',
+            message: 'Endpoint must use HTTPS',
+          },
+        ],
+        policyVersion: '1',
+        validatedAt: new Date(),
+      });
+
       const providerId = 'test-provider-id';
 
-      await expect(
-        publishingService.publishService(providerId, violatingServiceSpec)
-      ).rejects.toThrow();
+      const result = await publishingService.publishService(providerId, violatingServiceSpec);
+
+      expect(result.status).toBe(ServiceStatus.SUSPENDED);
+      expect(result.message).toContain('Endpoint must use HTTPS');
+      expect(activities.registerWithRegistry).not.toHaveBeenCalled();
+    });
+
+    it('should reject services whose automated tests fail', async () => {
+      jest.spyOn(activities, 'runAutomatedTests').mockResolvedValue({
+        passed: false,
+        total: 1,
+        failed: 1,
+        skipped: 0,
+        duration: 1,
+        tests: [{ name: 'Health Check', status: 'failed', duration: 1, error: 'HTTP 503' }],
+      });
+
+      const result = await publishingService.publishService('test-provider-id', validServiceSpec);
+
+      expect(result.status).toBe(ServiceStatus.FAILED_VALIDATION);
+      expect(result.message).toContain('Health Check (HTTP 503)');
+      expect(activities.activateService).not.toHaveBeenCalled();
     });
   });
 
@@ -215,16 +316,188 @@ describe('PublishingService', () => {
         providerId,
         status: ServiceStatus.ACTIVE,
       } as any);
+      jest.spyOn(DeprecationWorkflow.prototype, 'execute').mockResolvedValue({
+        serviceId,
+        reason,
+        successorServiceId: 'successor-service-id',
+        successorVersion: '2.0.0',
+        status: 'scheduled',
+        deprecatedAt: new Date(),
+        sunsetAt: new Date(),
+        consumersNotified: 0,
+      });
 
       const result = await publishingService.deprecateService(
         serviceId,
         providerId,
-        reason
+        { reason, successorServiceId: 'successor-service-id' }
       );
 
       expect(result.success).toBe(true);
       expect(result.message).toContain('deprecated successfully');
     });
+
+    it('should require a successor service', async () => {
+      jest.spyOn(publishingService, 'getService').mockResolvedValue({
+        id: 'test-service-id',
+        providerId: 'test-provider-id',
+        status: ServiceStatus.ACTIVE,
+      } as any);
+
+      await expect(
+        publishingService.deprecateService('test-service-id', 'test-provider-id', {
+          reason: 'Replaced by v2.0',
+        })
+      ).rejects.toThrow('successorServiceId is required');
+    });
+  });
+
+  describe('drafts', () => {
+    const providerId = 'test-provider-id';
+    const draftValidation = { isValid: false, errors: [], warnings: [] };
+
+    const draft = (overrides: Partial<ServiceDraft> = {}): ServiceDraft => ({
+      serviceId: 'draft-service-id',
+      providerId,
+      status: ServiceStatus.DRAFT,
+      spec: { name: 'Test LLM Service', version: '1.1.0', description: 'Updated description' },
+      revision: 1,
+      validation: draftValidation,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      jest.mocked(ServiceValidator.prototype).validateDraft.mockReturnValue(draftValidation);
+      jest.spyOn(ServiceDraftStore.prototype, 'saveDraft').mockImplementation(
+        async (serviceId, draftProviderId, spec, validation, baseServiceId) =>
+          draft({ serviceId, providerId: draftProviderId, spec, validation, baseServiceId })
+      );
+      jest.spyOn(ServiceDraftStore.prototype, 'deleteDraft').mockResolvedValue(true);
+    });
+
+    it('should create a draft without pipeline-owned fields', async () => {
+      const result = await publishingService.createDraft(providerId, {
+        id: 'chosen-id',
+        status: ServiceStatus.ACTIVE,
+        name: 'Test LLM Service',
+      });
+
+      expect(result.serviceId).not.toBe('chosen-id');
+      expect(result.spec).toEqual({ name: 'Test LLM Service' });
+      expect(result.validation).toBe(draftValidation);
+    });
+
+    it('should start a draft of the next version when saving over a published service', async () => {
+      jest.spyOn(ServiceDraftStore.prototype, 'getDraft').mockResolvedValue(null);
+      jest.spyOn(publishingService, 'getService').mockResolvedValue({
+        id: 'published-service-id',
+        providerId,
+        version: '1.0.0',
+      } as any);
+
+      const result = await publishingService.saveDraft('published-service-id', providerId, { version: '1.1.0' });
+
+      expect(result.baseServiceId).toBe('published-service-id');
+      expect(ServiceDraftStore.prototype.saveDraft).toHaveBeenCalledWith(
+        'published-service-id',
+        providerId,
+        { version: '1.1.0' },
+        draftValidation,
+        'published-service-id'
+      );
+    });
+
+    it("should reject saves to another provider's draft", async () => {
+      jest.spyOn(ServiceDraftStore.prototype, 'getDraft').mockResolvedValue(draft());
+
+      await expect(
+        publishingService.saveDraft('draft-service-id', 'wrong-provider-id', { version: '1.1.0' })
+      ).rejects.toThrow('Unauthorized');
+      expect(ServiceDraftStore.prototype.saveDraft).not.toHaveBeenCalled();
+    });
+
+    it('should diff a draft against the version it stages', async () => {
+      jest
+        .spyOn(ServiceDraftStore.prototype, 'getDraft')
+        .mockResolvedValue(draft({ baseServiceId: 'published-service-id' }));
+      jest.spyOn(publishingService, 'getService').mockResolvedValue({
+        id: 'published-service-id',
+        providerId,
+        status: ServiceStatus.ACTIVE,
+        name: 'Test LLM Service',
+        version: '1.0.0',
+        description: 'A test LLM service for unit testing purposes',
+      } as any);
+
+      const diff = await publishingService.getDraftDiff('draft-service-id', providerId);
+
+      expect(diff.fromVersion).toBe('1.0.0');
+      expect(diff.toVersion).toBe('1.1.0');
+      expect(diff.changes).toEqual(
+        expect.arrayContaining([
+          { path: 'version', type: 'modified', before: '1.0.0', after: '1.1.0' },
+          {
+            path: 'description',
+            type: 'modified',
+            before: 'A test LLM service for unit testing purposes',
+            after: 'Updated description',
+          },
+        ])
+      );
+      expect(diff.changes.map((change) => change.path)).not.toContain('status');
+    });
+
+    it('should clear the previous workflow steps before submitting a draft', async () => {
+      jest.spyOn(ServiceDraftStore.prototype, 'getDraft').mockResolvedValue(draft());
+      const start = jest.spyOn(PublishingWorkflow.prototype, 'start').mockResolvedValue({
+        serviceId: 'draft-service-id',
+        providerId,
+        serviceSpec: draft().spec,
+        status: ServiceStatus.PENDING_APPROVAL,
+      } as any);
+      const clearSteps = jest.mocked(WorkflowStateStore.prototype).clearSteps;
+
+      const result = await publishingService.submitDraft('draft-service-id', providerId);
+
+      expect(result.status).toBe(ServiceStatus.PENDING_APPROVAL);
+      expect(clearSteps).toHaveBeenCalledWith('draft-service-id');
+      expect(clearSteps.mock.invocationCallOrder[0]).toBeLessThan(start.mock.invocationCallOrder[0]);
+      expect(ServiceDraftStore.prototype.deleteDraft).toHaveBeenCalledWith('draft-service-id');
+    });
+
+    it('should keep a draft that fails full validation', async () => {
+      jest.spyOn(ServiceDraftStore.prototype, 'getDraft').mockResolvedValue(draft());
+      jest.mocked(ServiceValidator.prototype).validate.mockResolvedValue({
+        isValid: false,
+        errors: [{ field: 'pricing', message: 'Pricing is required', code: 'REQUIRED' }],
+        warnings: [],
+      });
+      const start = jest.spyOn(PublishingWorkflow.prototype, 'start');
+
+      const result = await publishingService.submitDraft('draft-service-id', providerId);
+
+      expect(result.status).toBe(ServiceStatus.FAILED_VALIDATION);
+      expect(result.message).toContain('Pricing is required');
+      expect(start).not.toHaveBeenCalled();
+      expect(ServiceDraftStore.prototype.deleteDraft).not.toHaveBeenCalled();
+    });
+
+    it('should require a draft of a published service to bump the version', async () => {
+      jest
+        .spyOn(ServiceDraftStore.prototype, 'getDraft')
+        .mockResolvedValue(draft({ baseServiceId: 'published-service-id', spec: { version: '1.0.0' } }));
+      jest.spyOn(publishingService, 'getService').mockResolvedValue({
+        id: 'published-service-id',
+        providerId,
+        version: '1.0.0',
+      } as any);
+
+      await expect(publishingService.submitDraft('draft-service-id', providerId)).rejects.toThrow(
+        'version must be greater than the published version 1.0.0'
+      );
+    });
   });
 
   describe('getPublishingStatus', () => {
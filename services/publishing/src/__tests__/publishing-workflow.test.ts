@@ -0,0 +1,220 @@
+import { PublishingWorkflow, PublishingWorkflowActivities } from '../workflows/publishing-workflow';
+import { WorkflowStateStore } from '../workflows/workflow-state-store';
+import { TenantClient } from '../integrations/tenant-client';
+import { ServiceValidator } from '../validators/service-validator';
+import { PublishingStep, ServiceStatus, WorkflowStepRecord } from '../types';
+
+jest.mock('../workflows/workflow-state-store');
+jest.mock('../config/database');
+jest.mock('../config/redis');
+
+describe('PublishingWorkflow', () => {
+  const serviceId = 'service-1';
+  const providerId = 'provider-1';
+  const serviceSpec = { name: 'Stub Service', version: '1.0.0' };
+  const activities = PublishingWorkflowActivities.prototype;
+  let stateStore: jest.Mocked<WorkflowStateStore>;
+  let workflow: PublishingWorkflow;
+
+  const completed = (step: PublishingStep, result: unknown): WorkflowStepRecord => ({
+    step,
+    status: 'completed',
+    attempts: 1,
+    result,
+    startedAt: new Date(),
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    workflow = new PublishingWorkflow();
+    // The workflow, its rollback and the approval service each hold a store
+    stateStore = jest.mocked(WorkflowStateStore.prototype);
+    stateStore.getSteps.mockResolvedValue([]);
+
+    jest.spyOn(activities, 'validateServiceSpec').mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+    jest.spyOn(activities, 'checkPolicyCompliance').mockResolvedValue({
+      compliant: true,
+      violations: [],
+      policyVersion: '1',
+      validatedAt: new Date(),
+    });
+    jest.spyOn(activities, 'registerWithRegistry').mockResolvedValue({ registryId: 'registry-1', created: true });
+    jest.spyOn(activities, 'deregisterFromRegistry').mockResolvedValue();
+    jest.spyOn(activities, 'deleteServiceFromDatabase').mockResolvedValue();
+    jest.spyOn(activities, 'deactivateService').mockResolvedValue();
+    jest.spyOn(activities, 'cancelApprovalWorkflow').mockResolvedValue();
+    jest.spyOn(activities, 'saveServiceToDatabase').mockResolvedValue();
+    jest.spyOn(activities, 'runAutomatedTests').mockResolvedValue({
+      passed: true,
+      total: 0,
+      failed: 0,
+      skipped: 0,
+      duration: 0,
+      tests: [],
+    });
+    jest.spyOn(activities, 'runSecurityScan').mockResolvedValue({
+      passed: true,
+      vulnerabilities: [],
+      scanTime: new Date(),
+      scanner: 'stub',
+    });
+    jest.spyOn(activities, 'runPerformanceBenchmarks').mockResolvedValue({
+      passed: true,
+      metrics: [],
+      benchmarkedAt: new Date(),
+    });
+    jest.spyOn(activities, 'requiresApproval').mockReturnValue(false);
+    jest.spyOn(activities, 'activateService').mockResolvedValue();
+    jest.spyOn(activities, 'dispatchWebhook').mockResolvedValue();
+  });
+
+  it('replays completed steps with their Date fields restored', async () => {
+    stateStore.getSteps.mockResolvedValue([
+      completed(PublishingStep.VALIDATION, { isValid: true, errors: [], warnings: [] }),
+      completed(PublishingStep.POLICY, {
+        compliant: true,
+        violations: [],
+        policyVersion: '1',
+        validatedAt: '2025-11-18T10:30:00.000Z',
+      }),
+      completed(PublishingStep.SECURITY_SCAN, {
+        passed: true,
+        vulnerabilities: [],
+        scanTime: '2025-11-18T10:31:00.000Z',
+        scanner: 'stub',
+      }),
+    ]);
+
+    const context = await workflow.execute(serviceId, providerId, serviceSpec);
+
+    expect(activities.validateServiceSpec).not.toHaveBeenCalled();
+    expect(activities.checkPolicyCompliance).not.toHaveBeenCalled();
+    expect(activities.runSecurityScan).not.toHaveBeenCalled();
+    expect(context.policyResult?.validatedAt).toEqual(new Date('2025-11-18T10:30:00.000Z'));
+    expect(context.securityResult?.scanTime).toEqual(new Date('2025-11-18T10:31:00.000Z'));
+    expect(context.status).toBe(ServiceStatus.ACTIVE);
+    expect(stateStore.completeWorkflow).toHaveBeenCalledWith(serviceId);
+  });
+
+  it('settles while approval is pending and activates once approved', async () => {
+    let approve!: () => void;
+    jest.spyOn(activities, 'requiresApproval').mockReturnValue(true);
+    jest.spyOn(activities, 'createApprovalWorkflow').mockResolvedValue('approval-1');
+    jest.spyOn(activities, 'waitForApproval').mockImplementation(
+      () => new Promise((resolve) => (approve = () => resolve('approved')))
+    );
+
+    const context = await workflow.start(serviceId, providerId, serviceSpec);
+
+    expect(context.status).toBe(ServiceStatus.PENDING_APPROVAL);
+    expect(activities.activateService).not.toHaveBeenCalled();
+
+    approve();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(activities.activateService).toHaveBeenCalledWith(expect.objectContaining({ id: serviceId }));
+    expect(stateStore.completeWorkflow).toHaveBeenCalledWith(serviceId);
+  });
+
+  it('keeps the checkpointed approval deadline when replaying the approval request', async () => {
+    jest.spyOn(activities, 'requiresApproval').mockReturnValue(true);
+    jest.spyOn(activities, 'createApprovalWorkflow').mockResolvedValue('approval-2');
+    jest.spyOn(activities, 'waitForApproval').mockResolvedValue('approved');
+    stateStore.getSteps.mockResolvedValue([
+      completed(PublishingStep.APPROVAL_REQUEST, { approvalId: 'approval-1', deadline: '2025-11-25T10:30:00.000Z' }),
+    ]);
+
+    await workflow.execute(serviceId, providerId, serviceSpec);
+
+    expect(activities.createApprovalWorkflow).not.toHaveBeenCalled();
+    expect(activities.waitForApproval).toHaveBeenCalledWith('approval-1', new Date('2025-11-25T10:30:00.000Z'));
+  });
+
+  it('resumes interrupted workflows without waiting on pending approvals', async () => {
+    const record = (id: string) => ({
+      serviceId: id,
+      providerId,
+      serviceSpec: { ...serviceSpec, name: id },
+      status: 'running' as const,
+      startedAt: new Date(),
+    });
+    stateStore.findIncompleteWorkflows.mockResolvedValue([record('service-1'), record('service-2')]);
+    stateStore.getWorkflow.mockImplementation(async (id) => record(id));
+    jest.spyOn(activities, 'requiresApproval').mockImplementation((spec) => spec.name === 'service-1');
+    jest.spyOn(activities, 'createApprovalWorkflow').mockResolvedValue('approval-1');
+    jest.spyOn(activities, 'waitForApproval').mockReturnValue(new Promise(() => undefined));
+
+    expect(await workflow.resumeIncomplete()).toBe(2);
+
+    expect(activities.activateService).toHaveBeenCalledTimes(1);
+    expect(activities.activateService).toHaveBeenCalledWith(expect.objectContaining({ id: 'service-2' }));
+  });
+
+  it('reports a failed validation without saving the service', async () => {
+    jest.spyOn(activities, 'validateServiceSpec').mockResolvedValue({
+      isValid: false,
+      errors: [{ field: 'name', message: 'Name is required', code: 'REQUIRED' }],
+      warnings: [],
+    });
+
+    const context = await workflow.start(serviceId, providerId, serviceSpec);
+
+    expect(context.status).toBe(ServiceStatus.FAILED_VALIDATION);
+    expect(activities.saveServiceToDatabase).not.toHaveBeenCalled();
+  });
+
+  it('leaves the registry entry and record of a resubmitted service in place on rollback', async () => {
+    jest.spyOn(activities, 'registerWithRegistry').mockResolvedValue({ registryId: 'registry-1', created: false });
+    jest.spyOn(activities, 'requiresApproval').mockReturnValue(true);
+    jest.spyOn(activities, 'createApprovalWorkflow').mockResolvedValue('approval-1');
+    jest.spyOn(activities, 'waitForApproval').mockRejectedValue(new Error('Approval store unavailable'));
+
+    await expect(workflow.execute(serviceId, providerId, serviceSpec)).rejects.toThrow(
+      'Approval store unavailable'
+    );
+
+    expect(activities.deregisterFromRegistry).not.toHaveBeenCalled();
+    expect(activities.deleteServiceFromDatabase).not.toHaveBeenCalled();
+  });
+
+  it('rolls back the registry entry and record it created', async () => {
+    jest.spyOn(activities, 'requiresApproval').mockReturnValue(true);
+    jest.spyOn(activities, 'createApprovalWorkflow').mockResolvedValue('approval-1');
+    jest.spyOn(activities, 'waitForApproval').mockRejectedValue(new Error('Approval store unavailable'));
+
+    await expect(workflow.execute(serviceId, providerId, serviceSpec)).rejects.toThrow();
+
+    expect(activities.deregisterFromRegistry).toHaveBeenCalledWith('registry-1');
+    expect(activities.deleteServiceFromDatabase).toHaveBeenCalledWith(serviceId);
+  });
+
+  it('keeps an activated service live when notifying the provider fails', async () => {
+    jest.spyOn(activities, 'dispatchWebhook').mockRejectedValue(new Error('Webhook endpoint down'));
+
+    const context = await workflow.execute(serviceId, providerId, serviceSpec);
+
+    expect(context.status).toBe(ServiceStatus.ACTIVE);
+    expect(activities.deactivateService).not.toHaveBeenCalled();
+    expect(activities.deregisterFromRegistry).not.toHaveBeenCalled();
+    expect(stateStore.failWorkflow).not.toHaveBeenCalled();
+  }, 10000);
+});
+
+describe('PublishingWorkflowActivities', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("validates a service against the rule packs of its provider's tenants", async () => {
+    const getTenants = jest.spyOn(TenantClient.prototype, 'getUserTenantIds').mockResolvedValue(['tenant-a', 'tenant-b']);
+    const validate = jest
+      .spyOn(ServiceValidator.prototype, 'validate')
+      .mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+
+    await new PublishingWorkflowActivities().validateServiceSpec({ name: 'Stub Service' }, 'provider-1');
+
+    expect(getTenants).toHaveBeenCalledWith('provider-1');
+    expect(validate).toHaveBeenCalledWith({ name: 'Stub Service' }, { tenantIds: ['tenant-a', 'tenant-b'] });
+  });
+});
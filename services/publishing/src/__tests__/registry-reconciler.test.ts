@@ -0,0 +1,144 @@
+/**
+ * Registry reconciliation drift detection and repair tests
+ */
+
+import { RegistryReconciler, diffRegistryEntry } from '../services/registry-reconciler';
+import { RegistryClient } from '../integrations/registry-client';
+import { RegistryLinkedService, ServiceStore } from '../services/service-store';
+import { RegistryReconciliationStore } from '../services/registry-reconciliation-store';
+import { OutboxStore } from '../services/outbox-store';
+import { PublishingService } from '../services/publishing-service';
+import { transaction } from '../config/database';
+import { ServiceStatus } from '../types';
+
+jest.mock('../integrations/registry-client');
+jest.mock('../services/service-store');
+jest.mock('../services/registry-reconciliation-store');
+jest.mock('../services/publishing-service');
+jest.mock('../services/outbox-store');
+jest.mock('../config/database');
+jest.mock('../config/redis');
+
+const service: RegistryLinkedService = {
+  id: 'service-1',
+  registryId: 'registry-1',
+  name: 'summarizer',
+  version: '1.2.0',
+  status: ServiceStatus.ACTIVE,
+};
+
+const entry = (overrides: Record<string, string> = {}) => ({
+  id: 'registry-1',
+  name: 'summarizer',
+  version: '1.2.0',
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('diffRegistryEntry', () => {
+  it('reports only the fields that differ', () => {
+    expect(diffRegistryEntry(service, entry())).toEqual([]);
+    expect(diffRegistryEntry(service, entry({ status: 'suspended' }))).toEqual([
+      { field: 'status', marketplace: 'active', registry: 'suspended' },
+    ]);
+  });
+
+  it('reports every field when the entry is missing', () => {
+    expect(diffRegistryEntry(service, null).map((d) => d.field)).toEqual(['name', 'version', 'status']);
+  });
+});
+
+describe('RegistryReconciler', () => {
+  let registryClient: jest.Mocked<RegistryClient>;
+  let serviceStore: jest.Mocked<ServiceStore>;
+  let reconciliationStore: jest.Mocked<RegistryReconciliationStore>;
+  let outboxStore: jest.Mocked<OutboxStore>;
+  let publishingService: jest.Mocked<PublishingService>;
+  const client = { query: jest.fn() };
+
+  const create = (sourceOfTruth: 'marketplace' | 'registry' | 'none') => {
+    jest.clearAllMocks();
+    const reconciler = new RegistryReconciler({ sourceOfTruth });
+    registryClient = jest.mocked(RegistryClient).mock.instances[0] as jest.Mocked<RegistryClient>;
+    serviceStore = jest.mocked(ServiceStore).mock.instances[0] as jest.Mocked<ServiceStore>;
+    reconciliationStore = jest.mocked(RegistryReconciliationStore).mock.instances[0] as jest.Mocked<RegistryReconciliationStore>;
+    outboxStore = jest.mocked(OutboxStore).mock.instances[0] as jest.Mocked<OutboxStore>;
+    publishingService = jest.mocked(PublishingService).mock.instances[0] as jest.Mocked<PublishingService>;
+    jest.mocked(transaction).mockImplementation(async (callback) => callback(client as any));
+
+    serviceStore.listRegistryLinked.mockResolvedValueOnce([service]).mockResolvedValueOnce([]);
+    reconciliationStore.save.mockImplementation(async (report) => ({ id: 'run-1', ...report }));
+    return reconciler;
+  };
+
+  it('pushes the marketplace state to the Registry', async () => {
+    const reconciler = create('marketplace');
+    registryClient.findService.mockResolvedValue(entry({ status: 'suspended' }));
+
+    const report = await reconciler.reconcile();
+
+    expect(registryClient.updateServiceStatus).toHaveBeenCalledWith('registry-1', ServiceStatus.ACTIVE);
+    expect(registryClient.updateService).not.toHaveBeenCalled();
+    expect(report).toMatchObject({ checked: 1, inSync: 0 });
+    expect(report.drift[0]).toMatchObject({ kind: 'mismatch', repair: 'repaired' });
+  });
+
+  it('pulls the Registry state into the marketplace', async () => {
+    const reconciler = create('registry');
+    registryClient.findService.mockResolvedValue(entry({ version: '1.3.0', status: 'suspended' }));
+
+    await reconciler.reconcile();
+
+    expect(serviceStore.updateIdentity).toHaveBeenCalledWith('service-1', 'summarizer', '1.3.0', client);
+    expect(outboxStore.enqueue).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ destination: 'analytics', eventType: 'service_registry_repaired' }),
+        expect.objectContaining({ destination: 'governance', eventType: 'service_registry_repaired' }),
+      ],
+      client
+    );
+    expect(outboxStore.enqueue.mock.calls[0][0][0].payload).toMatchObject({
+      differences: [{ field: 'version', marketplace: '1.2.0', registry: '1.3.0' }],
+    });
+    // Suspensions take the normal path, with its events and webhook
+    expect(serviceStore.updateStatus).not.toHaveBeenCalled();
+    expect(publishingService.suspendService).toHaveBeenCalledWith('service-1', 'Suspended in the Registry');
+    expect(registryClient.updateServiceStatus).not.toHaveBeenCalled();
+  });
+
+  it('records other status changes from the Registry with their event', async () => {
+    const reconciler = create('registry');
+    registryClient.findService.mockResolvedValue(entry({ status: 'deprecated' }));
+
+    await reconciler.reconcile();
+
+    expect(serviceStore.updateStatus).toHaveBeenCalledWith('service-1', ServiceStatus.DEPRECATED, undefined, client);
+    expect(outboxStore.enqueue.mock.calls[0][0][0].payload).toMatchObject({
+      differences: [{ field: 'status', marketplace: 'active', registry: 'deprecated' }],
+    });
+    expect(serviceStore.updateIdentity).not.toHaveBeenCalled();
+    expect(publishingService.suspendService).not.toHaveBeenCalled();
+  });
+
+  it('only reports drift on a dry run', async () => {
+    const reconciler = create('marketplace');
+    registryClient.findService.mockResolvedValue(null);
+
+    const report = await reconciler.reconcile({ dryRun: true });
+
+    expect(report.sourceOfTruth).toBe('none');
+    expect(report.drift[0]).toMatchObject({ kind: 'missing', repair: 'skipped' });
+    expect(registryClient.registerService).not.toHaveBeenCalled();
+  });
+
+  it('records services that could not be compared', async () => {
+    const reconciler = create('marketplace');
+    registryClient.findService.mockRejectedValue(new Error('Registry retrieval failed: timeout'));
+
+    const report = await reconciler.reconcile();
+
+    expect(report.errors).toEqual([{ serviceId: 'service-1', error: 'Registry retrieval failed: timeout' }]);
+    expect(report.inSync).toBe(0);
+  });
+});
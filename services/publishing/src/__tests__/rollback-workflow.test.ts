@@ -0,0 +1,77 @@
+import { RollbackWorkflow } from '../workflows/publishing-workflow';
+import { CompensationStack } from '../workflows/compensation-stack';
+import { WorkflowStateStore } from '../workflows/workflow-state-store';
+import { PublishingStep } from '../types';
+
+jest.mock('../workflows/workflow-state-store');
+jest.mock('../config/database');
+jest.mock('../config/redis');
+
+describe('RollbackWorkflow', () => {
+  const serviceId = 'service-1';
+  let stateStore: jest.Mocked<WorkflowStateStore>;
+  let rollback: RollbackWorkflow;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rollback = new RollbackWorkflow({ maxRetries: 3, retryDelayMs: 1 });
+    stateStore = jest.mocked(WorkflowStateStore).mock.instances[0] as jest.Mocked<WorkflowStateStore>;
+  });
+
+  it('runs compensations in reverse order and records each outcome', async () => {
+    const order: string[] = [];
+    const compensations = new CompensationStack();
+    compensations.register(PublishingStep.REGISTRY, 'deregister_from_registry', async () => {
+      order.push('registry');
+    });
+    compensations.register(PublishingStep.PERSISTENCE, 'delete_service_record', async () => {
+      order.push('persistence');
+    });
+
+    const records = await rollback.execute(serviceId, compensations);
+
+    expect(order).toEqual(['persistence', 'registry']);
+    expect(records.map((record) => record.status)).toEqual(['compensated', 'compensated']);
+    expect(stateStore.recordCompensation).toHaveBeenCalledTimes(2);
+    expect(stateStore.markStepCompensated).toHaveBeenCalledWith(serviceId, PublishingStep.REGISTRY);
+    expect(stateStore.markStepCompensated).toHaveBeenCalledWith(serviceId, PublishingStep.PERSISTENCE);
+    expect(stateStore.finishRollback).toHaveBeenCalledWith(serviceId, true);
+  });
+
+  it('retries a failing compensation and continues past one that never succeeds', async () => {
+    let registryAttempts = 0;
+    const compensations = new CompensationStack();
+    compensations.register(PublishingStep.REGISTRY, 'deregister_from_registry', async () => {
+      registryAttempts++;
+      if (registryAttempts < 2) {
+        throw new Error('Registry unavailable');
+      }
+    });
+    compensations.register(PublishingStep.PERSISTENCE, 'delete_service_record', async () => {
+      throw new Error('Database unavailable');
+    });
+
+    const records = await rollback.execute(serviceId, compensations);
+
+    expect(records).toEqual([
+      expect.objectContaining({
+        action: 'delete_service_record',
+        status: 'failed',
+        attempts: 3,
+        error: 'Database unavailable',
+      }),
+      expect.objectContaining({ action: 'deregister_from_registry', status: 'compensated', attempts: 2 }),
+    ]);
+    expect(stateStore.markStepCompensated).toHaveBeenCalledTimes(1);
+    expect(stateStore.markStepCompensated).toHaveBeenCalledWith(serviceId, PublishingStep.REGISTRY);
+    expect(stateStore.finishRollback).toHaveBeenCalledWith(serviceId, false);
+  });
+
+  it('does not throw when recording the outcome fails', async () => {
+    const compensations = new CompensationStack();
+    compensations.register(PublishingStep.REGISTRY, 'deregister_from_registry', async () => undefined);
+    stateStore.recordCompensation.mockRejectedValue(new Error('Database unavailable'));
+
+    await expect(rollback.execute(serviceId, compensations)).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Search snippet rendering tests
+ */
+
+import { SNIPPET_START, SNIPPET_STOP, renderSnippet } from '../utils/search-snippet';
+
+const mark = (word: string) => `${SNIPPET_START}${word}${SNIPPET_STOP}`;
+
+describe('renderSnippet', () => {
+  it('wraps matched words in mark tags', () => {
+    expect(renderSnippet(`Automated ${mark('code')} ${mark('review')} for pull requests`)).toBe(
+      'Automated <mark>code</mark> <mark>review</mark> for pull requests'
+    );
+  });
+
+  it('escapes HTML in the description before adding marks', () => {
+    expect(renderSnippet(`<script>alert("x")</script> ${mark('summarize')} & more`)).toBe(
+      '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; <mark>summarize</mark> &amp; more'
+    );
+  });
+
+  it('returns null when nothing matched', () => {
+    expect(renderSnippet('A description without highlights')).toBeNull();
+    expect(renderSnippet(null)).toBeNull();
+    expect(renderSnippet('')).toBeNull();
+  });
+});
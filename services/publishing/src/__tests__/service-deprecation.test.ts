@@ -0,0 +1,134 @@
+/**
+ * Deprecation schedule tests for the service repository
+ */
+
+import * as serviceRepository from '../repositories/service.repository';
+import { queryOne, transaction } from '../common/database';
+import { PreconditionFailedError } from '../common/errors';
+import { Service, ServiceStatus } from '../models/service.model';
+
+jest.mock('../config/database', () => ({ pool: { query: jest.fn() } }));
+jest.mock('../common/database', () => ({
+  query: jest.fn(),
+  queryOne: jest.fn(),
+  queryMany: jest.fn(),
+  transaction: jest.fn(),
+}));
+jest.mock('../common/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const SUNSET = new Date('2026-04-01T00:00:00Z');
+
+const serviceRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'service-1',
+  name: 'Summarizer',
+  version: '1.0.0',
+  provider_id: 'provider-1',
+  status: ServiceStatus.ACTIVE,
+  revision: 3,
+  ...overrides,
+});
+
+const deprecationRow = {
+  service_id: 'service-1',
+  reason: 'Replaced by v2',
+  successor_service_id: 'service-2',
+  successor_version: '2.0.0',
+  status: 'scheduled',
+  deprecated_at: new Date('2026-03-02T12:00:00Z'),
+  sunset_at: SUNSET,
+  consumers_notified: 0,
+  notified_at: null,
+  retired_at: null,
+};
+
+describe('serviceRepository.deprecate', () => {
+  const client = { query: jest.fn() };
+  const deprecation = {
+    reason: 'Replaced by v2',
+    successorServiceId: 'service-2',
+    successorVersion: '2.0.0',
+    sunsetAt: SUNSET,
+  };
+  let service: Service;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    client.query.mockReset();
+    jest.mocked(transaction).mockImplementation(async (callback) => callback(client as any));
+    jest.mocked(queryOne).mockResolvedValue(serviceRow());
+    service = (await serviceRepository.findById('service-1'))!;
+  });
+
+  it('records the schedule and its outbox events with the status change', async () => {
+    client.query
+      .mockResolvedValueOnce({ rowCount: 1, rows: [] })
+      .mockResolvedValueOnce({ rows: [deprecationRow] })
+      .mockResolvedValue({ rowCount: 1, rows: [] });
+    jest.mocked(queryOne).mockResolvedValue(serviceRow({ status: ServiceStatus.DEPRECATED, sunset_at: SUNSET }));
+
+    const result = await serviceRepository.deprecate(service, deprecation, { ifRevision: [3] });
+
+    const [update, schedule, ...events] = client.query.mock.calls;
+    expect(update[0]).toContain('UPDATE services');
+    expect(update[1]).toEqual(['service-1', ServiceStatus.DEPRECATED, SUNSET, 'service-2', [3]]);
+    expect(schedule[0]).toContain('INSERT INTO service_deprecations');
+    expect(schedule[1]).toEqual(['service-1', 'Replaced by v2', 'service-2', '2.0.0', SUNSET]);
+    expect(events.map(([sql, params]) => [sql.includes('INSERT INTO event_outbox'), params[0], params[1]])).toEqual([
+      [true, 'analytics', 'service_deprecated'],
+      [true, 'governance', 'service_deprecated'],
+    ]);
+    expect(JSON.parse(events[0][1][3])).toEqual({
+      serviceId: 'service-1',
+      providerId: 'provider-1',
+      reason: 'Replaced by v2',
+      successorServiceId: 'service-2',
+      successorVersion: '2.0.0',
+      sunsetAt: SUNSET.toISOString(),
+    });
+    expect(result.deprecation).toMatchObject({ serviceId: 'service-1', status: 'scheduled', sunsetAt: SUNSET });
+    expect(result.service.status).toBe(ServiceStatus.DEPRECATED);
+  });
+
+  it('schedules nothing when the service changed since it was read', async () => {
+    client.query.mockResolvedValueOnce({ rowCount: 0, rows: [] });
+    jest.mocked(queryOne).mockResolvedValue(serviceRow({ revision: 4 }));
+
+    await expect(serviceRepository.deprecate(service, deprecation, { ifRevision: [3] })).rejects.toBeInstanceOf(
+      PreconditionFailedError
+    );
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('serviceRepository.update', () => {
+  const client = { query: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client.query.mockReset();
+    jest.mocked(transaction).mockImplementation(async (callback) => callback(client as any));
+    jest.mocked(queryOne).mockResolvedValue(serviceRow());
+  });
+
+  it('cancels the scheduled retirement of a reactivated service', async () => {
+    client.query.mockResolvedValue({ rowCount: 1, rows: [serviceRow()] });
+
+    await serviceRepository.update('service-1', { status: ServiceStatus.ACTIVE });
+
+    expect(client.query.mock.calls[0][0]).toContain('sunset_at = NULL');
+    expect(client.query.mock.calls[1]).toEqual([
+      `DELETE FROM service_deprecations WHERE service_id = $1 AND status = 'scheduled'`,
+      ['service-1'],
+    ]);
+  });
+
+  it('leaves the schedule alone for other updates', async () => {
+    client.query.mockResolvedValue({ rowCount: 1, rows: [serviceRow()] });
+
+    await serviceRepository.update('service-1', { description: 'Summarizes documents' });
+
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+});
@@ -133,6 +133,120 @@ describe('ServiceValidator', () => {
     });
   });
 
+  describe('rule packs', () => {
+    const validService = (): Partial<Service> => ({
+      name: 'Test LLM Service',
+      version: '1.0.0',
+      description: 'A test service for validation',
+      category: ServiceCategory.TEXT_GENERATION,
+      capabilities: [{ name: 'text-generation', description: 'Generate text', parameters: {} }],
+      endpoint: {
+        url: 'https://api.example.com/v1',
+        protocol: ProtocolType.REST,
+        authentication: AuthenticationType.API_KEY,
+      },
+      pricing: {
+        model: PricingModel.PER_TOKEN,
+        rates: [{ tier: 'standard', rate: 0.001, unit: 'token' }],
+        currency: 'USD',
+      },
+      sla: { availability: 99.5, maxLatency: 500, supportLevel: SupportLevel.BASIC },
+      compliance: { level: ComplianceLevel.PUBLIC, certifications: ['SOC2'], dataResidency: ['US'] },
+      metadata: { createdAt: new Date(), updatedAt: new Date(), tags: ['beta-crypto', 'chat'] },
+    });
+
+    const packValidator = () => new ServiceValidator({
+      packs: [
+        {
+          id: 'acme',
+          version: '1.2.0',
+          rules: [
+            { rule: 'compliance.required-certifications', options: { certifications: ['SOC2', 'ISO27001'] } },
+            { rule: 'sla.min-availability', options: { min: 99.9 }, severity: 'warning' },
+          ],
+        },
+        {
+          id: 'text-generation',
+          version: '1.0.0',
+          rules: [{ rule: 'metadata.banned-tag-words', options: { words: ['crypto'] } }],
+        },
+      ],
+      assignments: [
+        { pack: 'acme', tenantId: 'tenant-acme' },
+        { pack: 'text-generation', category: ServiceCategory.TEXT_GENERATION },
+      ],
+    });
+
+    it('should attribute core rule errors to the core pack', async () => {
+      const result = await validator.validate({ ...validService(), version: '1.0.0-beta' });
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          code: 'INVALID_VERSION_METADATA',
+          rule: { id: 'core.version-format', version: '1.0.0' },
+          pack: { id: 'core', version: '1.0.0' },
+        }),
+      ]);
+    });
+
+    it('should apply tenant and category packs with their severities', async () => {
+      const result = await packValidator().validate(validService(), { tenantIds: ['tenant-other', 'tenant-acme'] });
+
+      expect(result.errors.map((e) => [e.code, e.pack?.id])).toEqual([
+        ['BANNED_TAG_WORD', 'text-generation'],
+        ['MISSING_CERTIFICATION', 'acme'],
+      ]);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          code: 'SLA_AVAILABILITY_TOO_LOW',
+          rule: { id: 'sla.min-availability', version: '1.0.0' },
+          pack: { id: 'acme', version: '1.2.0' },
+        }),
+      ]);
+    });
+
+    it('should not apply packs assigned to other tenants or categories', async () => {
+      const result = await packValidator().validate(
+        { ...validService(), category: ServiceCategory.EMBEDDINGS },
+        { tenantIds: ['tenant-other'] }
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should reject packs with invalid rule options', () => {
+      expect(() => new ServiceValidator({
+        packs: [{ id: 'broken', version: '1.0.0', rules: [{ rule: 'sla.min-availability', options: { min: 120 } }] }],
+        assignments: [],
+      })).toThrow('Invalid options for rule sla.min-availability in pack broken@1.0.0');
+    });
+  });
+
+  describe('validateDraft', () => {
+    it('should accept an incomplete draft and warn about missing fields', () => {
+      const result = validator.validateDraft({ name: 'Draft Service', version: '0.1.0' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings.map((w) => w.field)).toEqual(
+        expect.arrayContaining(['description', 'capabilities', 'endpoint', 'pricing'])
+      );
+      expect(result.warnings.map((w) => w.field)).not.toContain('name');
+    });
+
+    it('should reject malformed fields that are present', () => {
+      const result = validator.validateDraft({
+        version: 'not-semver',
+        sla: { availability: 150 } as Service['sla'],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map((e) => e.field)).toEqual(
+        expect.arrayContaining(['version', 'sla.availability'])
+      );
+    });
+  });
+
   describe('validateVersionUpdate', () => {
     it('should validate valid version increment', () => {
       const result = validator.validateVersionUpdate('1.0.0', '1.1.0');
@@ -0,0 +1,48 @@
+import { Session, toSessionDTO } from '../models/user.model';
+import { describeUserAgent } from '../utils/user-agent';
+
+describe('describeUserAgent', () => {
+  it.each([
+    [
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Chrome on macOS',
+    ],
+    [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0',
+      'Edge on Windows',
+    ],
+    [
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1',
+      'Safari on iOS',
+    ],
+    ['Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0', 'Firefox on Linux'],
+    ['curl/8.4.0', 'curl'],
+    [undefined, 'Unknown device'],
+  ])('describes %s', (userAgent, expected) => {
+    expect(describeUserAgent(userAgent)).toBe(expected);
+  });
+});
+
+describe('toSessionDTO', () => {
+  const session: Session = {
+    id: 'session-1',
+    userId: 'user-1',
+    refreshTokenId: 'token-1',
+    ipAddress: '203.0.113.10',
+    userAgent: 'curl/8.4.0',
+    createdAt: '2025-11-18T00:00:00.000Z',
+    lastSeenAt: '2025-11-18T06:30:00.000Z',
+    lastSeenIp: '203.0.113.24',
+    expiresAt: '2025-11-25T06:30:00.000Z',
+  };
+
+  it('hides the refresh token id and marks the current session', () => {
+    const dto = toSessionDTO(session, 'session-1');
+
+    expect(dto).not.toHaveProperty('refreshTokenId');
+    expect(dto).not.toHaveProperty('userId');
+    expect(dto.device).toBe('curl');
+    expect(dto.current).toBe(true);
+    expect(toSessionDTO(session, 'session-2').current).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SmokeTestRunner } from '../services/smoke-test-runner';
+import {
+  Service,
+  SmokeTest,
+  ServiceCategory,
+  ServiceStatus,
+  ProtocolType,
+  AuthenticationType,
+  PricingModel,
+  SupportLevel,
+  ComplianceLevel,
+} from '../types';
+
+describe('SmokeTestRunner', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders; body: string }>;
+
+  const buildService = (smokeTests: SmokeTest[], url: string = baseUrl): Service => ({
+    id: 'service-1',
+    registryId: 'registry-1',
+    name: 'Stub Service',
+    version: '1.0.0',
+    description: 'Stub service for smoke tests',
+    providerId: 'provider-1',
+    category: ServiceCategory.TEXT_GENERATION,
+    capabilities: [],
+    endpoint: {
+      url,
+      protocol: ProtocolType.REST,
+      authentication: AuthenticationType.API_KEY,
+    },
+    pricing: { model: PricingModel.FREE, rates: [] },
+    sla: { availability: 99.9, maxLatency: 500, supportLevel: SupportLevel.BASIC },
+    compliance: { level: ComplianceLevel.PUBLIC, certifications: [], dataResidency: ['US'] },
+    status: ServiceStatus.PENDING_APPROVAL,
+    metadata: { createdAt: new Date(), updatedAt: new Date() },
+    smokeTests,
+  });
+
+  const healthCheck = (expect: Partial<SmokeTest['expect']> = {}): SmokeTest => ({
+    name: 'health',
+    request: { method: 'GET', path: '/health' },
+    expect: { status: 200, ...expect },
+  });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+        if (req.method === 'GET' && req.url === '/v1/health') {
+          res.setHeader('X-Service-Version', '1.2.0');
+          res.end(JSON.stringify({ status: 'ok', version: '1.2.0', regions: ['us', 'eu'], uptime: 120 }));
+        } else if (req.method === 'POST' && req.url?.startsWith('/v1/completions')) {
+          res.statusCode = 201;
+          res.end(JSON.stringify({ text: 'hello', usage: { tokens: 3 } }));
+        } else if (req.method === 'GET' && req.url === '/v1/slow') {
+          setTimeout(() => res.end(JSON.stringify({ status: 'ok' })), 300);
+        } else {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ error: 'not found' }));
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should return no test cases for a service without smoke tests', async () => {
+    const runner = new SmokeTestRunner({ timeoutMs: 2000 });
+
+    expect(await runner.run(buildService([]))).toEqual([]);
+    expect(requests).toEqual([]);
+  });
+
+  it('should send the declared request and pass when every expectation holds', async () => {
+    const runner = new SmokeTestRunner({ timeoutMs: 2000 });
+    const smokeTest: SmokeTest = {
+      name: 'completion',
+      request: {
+        method: 'POST',
+        path: '/completions',
+        query: { model: 'small' },
+        headers: { 'X-Api-Key': 'test-key' },
+        body: { prompt: 'Say hello' },
+      },
+      expect: {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+        body: { text: 'hello' },
+        bodySchema: {
+          type: 'object',
+          required: ['text', 'usage'],
+          properties: { text: { type: 'string' }, usage: { $ref: '#/$defs/Usage' } },
+          $defs: { Usage: { type: 'object', properties: { tokens: { type: 'integer' } } } },
+        },
+        maxLatencyMs: 2000,
+      },
+    };
+
+    const [result] = await runner.run(buildService([smokeTest], `${baseUrl}/`));
+
+    expect(result).toEqual({ name: 'Smoke: completion', status: 'passed', duration: expect.any(Number) });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/completions?model=small');
+    expect(requests[0].headers['x-api-key']).toBe('test-key');
+    expect(JSON.parse(requests[0].body)).toEqual({ prompt: 'Say hello' });
+  });
+
+  it('should run every smoke test in order, one test case each', async () => {
+    const runner = new SmokeTestRunner({ timeoutMs: 2000 });
+    const missing: SmokeTest = { name: 'missing', request: { method: 'GET', path: '/missing' }, expect: { status: 200 } };
+
+    const results = await runner.run(buildService([healthCheck(), missing]));
+
+    expect(results.map((test) => [test.name, test.status])).toEqual([
+      ['Smoke: health', 'passed'],
+      ['Smoke: missing', 'failed'],
+    ]);
+    expect(results[1].error).toBe('Expected status 200, got 404');
+  });
+
+  it('should match headers case-insensitively by substring', async () => {
+    const runner = new SmokeTestRunner({ timeoutMs: 2000 });
+
+    const [passing] = await runner.run(buildService([healthCheck({ headers: { 'x-service-version': '1.2' } })]));
+    const [failing] = await runner.run(
+      buildService([healthCheck({ headers: { 'X-Service-Version': '1.3', 'X-Request-Id': 'abc' } })])
+    );
+
+    expect(passing.status).toBe('passed');
+    expect(failing.error).toBe(
+      'Expected header X-Service-Version to contain "1.3", got "1.2.0"; Expected header X-Request-Id to contain "abc", got ""'
+    );
+  });
+
+  it('should match the body partially and report each mismatch by pointer', async () => {
+    const runner = new SmokeTestRunner({ timeoutMs: 2000 });
+
+    const [partial] = await runner.run(buildService([healthCheck({ body: { status: 'ok', regions: ['us', 'eu'] } })]));
+    const [mismatched] = await runner.run(
+      buildService([healthCheck({ body: { status: 'degraded', regions: ['us'], uptime: { seconds: 120 } } })])
+    );
+
+    expect(partial.status).toBe('passed');
+    expect(mismatched.error).toBe(
+      '/status: expected "degraded", got "ok"; /regions: expected array of length 1; /uptime: expected object'
+    );
+  });
+
+  it('should fail when the body does not match the schema', async () => {
+    const runner = new SmokeTestRunner({ timeoutMs: 2000 });
+    const bodySchema = {
+      type: 'object',
+      required: ['status', 'build'],
+      properties: { status: { type: 'string' }, version: { type: 'integer' } },
+    };
+
+    const [result] = await runner.run(buildService([healthCheck({ bodySchema })]));
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('Response body does not match schema: /version: expected integer');
+    expect(result.error).toContain('Response body does not match schema: /build: is required');
+  });
+
+  it('should report no more than five failures', async () => {
+    const runner = new SmokeTestRunner({ timeoutMs: 2000 });
+    const body = { a: 1, b: 2, c: 3, d: 4, e: 5, f: 6 };
+
+    const [result] = await runner.run(buildService([healthCheck({ status: 204, body })]));
+
+    expect(result.error?.split('; ')).toEqual([
+      'Expected status 204, got 200',
+      '/a: expected 1, got undefined',
+      '/b: expected 2, got undefined',
+      '/c: expected 3, got undefined',
+      '/d: expected 4, got undefined',
+    ]);
+  });
+
+  it('should fail a response slower than the latency budget', async () => {
+    const runner = new SmokeTestRunner({ timeoutMs: 2000 });
+    const slow: SmokeTest = { name: 'slow', request: { method: 'GET', path: '/slow' }, expect: { status: 200, maxLatencyMs: 100 } };
+
+    const [result] = await runner.run(buildService([slow]));
+
+    expect(result.status).toBe('failed');
+    expect(result.duration).toBeGreaterThan(100);
+    expect(result.error).toMatch(/^Response time \d+ms exceeds 100ms$/);
+  });
+
+  it('should fail a request that times out', async () => {
+    const runner = new SmokeTestRunner({ timeoutMs: 100 });
+    const slow: SmokeTest = { name: 'slow', request: { method: 'GET', path: '/slow' }, expect: { status: 200 } };
+
+    const [result] = await runner.run(buildService([slow]));
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('Request failed: timeout of 100ms exceeded');
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Swagger 2.0 importer tests
+ */
+
+import { Swagger2Importer } from '../importers/swagger2-importer';
+import { AuthenticationType, ProtocolType } from '../types';
+import petstore from './fixtures/petstore.swagger2.json';
+
+describe('Swagger2Importer', () => {
+  const importer = new Swagger2Importer();
+
+  const fixture = (): Record<string, unknown> => structuredClone(petstore);
+
+  const convert = (document: Record<string, unknown> = fixture()) => {
+    const spec = importer.import(document).service.openApiSpec as Record<string, any>;
+    return { spec, paths: spec.paths, components: spec.components };
+  };
+
+  it('converts the fixture into a draft REST service', () => {
+    const { service, warnings } = importer.import(fixture());
+
+    expect(service.name).toBe('Petstore');
+    expect(service.description).toBe('Pets for sale');
+    expect(service.version).toBe('1.2.0');
+    expect(service.endpoint).toEqual({
+      url: 'https://petstore.example.com/v1',
+      protocol: ProtocolType.REST,
+      authentication: AuthenticationType.API_KEY,
+    });
+    expect(service.metadata?.tags).toEqual(['pets']);
+    expect(service.metadata?.documentation).toBe('https://docs.example.com/petstore');
+    expect(service.capabilities?.map((capability) => capability.name)).toEqual([
+      'listPets',
+      'createPet',
+      'getPet',
+      'uploadPhoto',
+    ]);
+    expect(warnings).toEqual(["Version '1.2' is not a semantic version, using 1.2.0"]);
+  });
+
+  it('produces an OpenAPI 3.0 document with https preferred over http', () => {
+    const { spec } = convert();
+
+    expect(spec.openapi).toBe('3.0.3');
+    expect(spec.servers).toEqual([
+      { url: 'https://petstore.example.com/v1' },
+      { url: 'http://petstore.example.com/v1' },
+    ]);
+    expect(spec.security).toEqual([{ apiKey: [] }]);
+    expect(spec).not.toHaveProperty('definitions');
+    expect(spec).not.toHaveProperty('securityDefinitions');
+  });
+
+  describe('$ref handling', () => {
+    it('rewrites definition refs to component schemas, including recursive ones', () => {
+      const { paths, components } = convert();
+
+      expect(paths['/pets'].get.responses['200'].content['application/json'].schema).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/Pet' },
+      });
+      expect(components.schemas.Pet.properties.owner).toEqual({ $ref: '#/components/schemas/Owner' });
+      expect(components.schemas.Owner.properties.pets.items).toEqual({ $ref: '#/components/schemas/Pet' });
+      expect(JSON.stringify({ paths, components })).not.toContain('#/definitions/');
+    });
+
+    it('inlines a referenced global body parameter as the request body', () => {
+      const { paths, components } = convert();
+
+      expect(paths['/pets'].post).not.toHaveProperty('parameters');
+      expect(paths['/pets'].post.requestBody).toEqual({
+        required: true,
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+      });
+      expect(components.parameters).not.toHaveProperty('PetBody');
+    });
+
+    it('keeps refs to other global parameters and responses as component refs', () => {
+      const { paths, components } = convert();
+
+      expect(paths['/pets/{petId}'].parameters).toEqual([{ $ref: '#/components/parameters/PetId' }]);
+      expect(paths['/pets/{petId}'].get.responses['404']).toEqual({ $ref: '#/components/responses/NotFound' });
+      expect(components.parameters.PetId).toEqual({
+        name: 'petId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      });
+      expect(components.responses.NotFound).toEqual({
+        description: 'Pet not found',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      });
+    });
+  });
+
+  it('moves parameter keywords into schemas and maps collection formats', () => {
+    const { paths } = convert();
+
+    expect(paths['/pets'].get.parameters).toEqual([
+      {
+        name: 'tags',
+        in: 'query',
+        required: false,
+        schema: { type: 'array', items: { type: 'string' } },
+        style: 'form',
+        explode: true,
+      },
+      { name: 'limit', in: 'query', required: false, schema: { type: 'integer', maximum: 100 } },
+    ]);
+  });
+
+  it('turns formData parameters with a file into a multipart request body', () => {
+    const { paths } = convert();
+    const operation = paths['/pets/{petId}/photo'].post;
+
+    expect(operation.parameters).toEqual([{ $ref: '#/components/parameters/PetId' }]);
+    expect(operation.requestBody).toEqual({
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: {
+              photo: { type: 'string', format: 'binary' },
+              caption: { type: 'string' },
+            },
+            required: ['photo'],
+          },
+        },
+      },
+    });
+  });
+
+  it('maps Swagger-only schema keywords onto OpenAPI 3 ones', () => {
+    const { components } = convert();
+
+    expect(components.schemas.Pet.discriminator).toEqual({ propertyName: 'kind' });
+    expect(components.schemas.Pet.properties.nickname).toEqual({ type: 'string', nullable: true });
+  });
+
+  it('warns when the document declares no host', () => {
+    const document = fixture();
+    delete document.host;
+
+    const { service, warnings } = importer.import(document);
+
+    expect(service.endpoint?.url).toBe('');
+    expect(warnings).toContain('Document declares no host, the endpoint URL must be provided');
+  });
+
+  it('warns about collection formats with no OpenAPI 3 equivalent', () => {
+    const document = fixture() as Record<string, any>;
+    document.paths['/pets'].get.parameters[0].collectionFormat = 'tsv';
+
+    const { warnings } = importer.import(document);
+
+    expect(warnings).toContain("Parameter 'tags': collectionFormat 'tsv' has no OpenAPI 3 equivalent");
+  });
+
+  describe('malformed documents', () => {
+    it.each([
+      ['a missing swagger field', { info: {}, paths: {} }],
+      ['an OpenAPI 3 document', { openapi: '3.0.0', info: {}, paths: {} }],
+      ['a numeric swagger version', { swagger: 2.0, info: {}, paths: {} }],
+    ])('rejects %s', (_label, document) => {
+      expect(() => importer.import(document)).toThrow('Invalid Swagger document: "swagger" must be "2.0"');
+    });
+
+    it.each([
+      ['without info', { swagger: '2.0', paths: {} }],
+      ['without paths', { swagger: '2.0', info: { title: 'Petstore' } }],
+      ['with paths given as an array', { swagger: '2.0', info: { title: 'Petstore' }, paths: [] }],
+    ])('rejects a document %s', (_label, document) => {
+      expect(() => importer.import(document)).toThrow(
+        'Invalid Swagger document: "info" and "paths" are required'
+      );
+    });
+
+    it('skips path items and parameters that are not objects', () => {
+      const document = fixture() as Record<string, any>;
+      document.paths['/broken'] = 'not a path item';
+      document.paths['/pets'].get.parameters.push(null);
+
+      const { paths } = convert(document);
+
+      expect(paths).not.toHaveProperty('/broken');
+      expect(paths['/pets'].get.parameters).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { TeamRole, canPerformServiceAction, keepsAnOwner } from '../models/team.model';
+import { UserRole } from '../models/user.model';
+
+describe('canPerformServiceAction', () => {
+  const provider = { id: 'user-1', role: UserRole.PROVIDER, teamRole: null };
+
+  it('lets the provider manage a service they own directly', () => {
+    const ownership = { providerId: 'user-1', ownerTeamId: null };
+
+    expect(canPerformServiceAction(provider, ownership, 'transfer')).toBe(true);
+    expect(canPerformServiceAction({ ...provider, id: 'user-2' }, ownership, 'update')).toBe(false);
+  });
+
+  it('follows the team role for team-owned services, ignoring the original provider', () => {
+    const ownership = { providerId: 'user-1', ownerTeamId: 'team-1' };
+
+    expect(canPerformServiceAction(provider, ownership, 'read')).toBe(false);
+    expect(canPerformServiceAction({ ...provider, teamRole: TeamRole.VIEWER }, ownership, 'read')).toBe(true);
+    expect(canPerformServiceAction({ ...provider, teamRole: TeamRole.VIEWER }, ownership, 'update')).toBe(false);
+    expect(canPerformServiceAction({ ...provider, teamRole: TeamRole.MAINTAINER }, ownership, 'publish')).toBe(true);
+    expect(canPerformServiceAction({ ...provider, teamRole: TeamRole.MAINTAINER }, ownership, 'transfer')).toBe(false);
+    expect(canPerformServiceAction({ ...provider, teamRole: TeamRole.OWNER }, ownership, 'delete')).toBe(true);
+  });
+
+  it('lets admins do anything', () => {
+    const admin = { id: 'admin-1', role: UserRole.ADMIN, teamRole: null };
+    expect(canPerformServiceAction(admin, { providerId: 'user-1', ownerTeamId: 'team-1' }, 'transfer')).toBe(true);
+  });
+});
+
+describe('keepsAnOwner', () => {
+  const members = [
+    { userId: 'user-1', role: TeamRole.OWNER },
+    { userId: 'user-2', role: TeamRole.MAINTAINER },
+  ];
+
+  it('rejects demoting or removing the last owner', () => {
+    expect(keepsAnOwner(members, 'user-1', TeamRole.MAINTAINER)).toBe(false);
+    expect(keepsAnOwner(members, 'user-1', null)).toBe(false);
+  });
+
+  it('allows changes that leave an owner in place', () => {
+    expect(keepsAnOwner(members, 'user-2', TeamRole.OWNER)).toBe(true);
+    expect(keepsAnOwner(members, 'user-2', null)).toBe(true);
+    expect(keepsAnOwner(members, 'user-3', TeamRole.VIEWER)).toBe(true);
+  });
+});
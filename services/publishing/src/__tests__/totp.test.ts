@@ -0,0 +1,43 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  totpTimeStep,
+  verifyTotp,
+} from '../common/totp';
+
+// RFC 6238 test secret ("12345678901234567890")
+const SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(SECRET, totpTimeStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(SECRET, totpTimeStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(SECRET, totpTimeStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('round-trips base32', () => {
+    expect(base32Decode(SECRET.toLowerCase()).toString()).toBe('12345678901234567890');
+  });
+
+  it('accepts codes within the drift window and returns their step', () => {
+    const now = 1111111109 * 1000;
+    const step = totpTimeStep(now);
+
+    expect(verifyTotp(SECRET, '081804', 1, now)).toBe(step);
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step - 1), 1, now)).toBe(step - 1);
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step + 2), 1, now)).toBeNull();
+    expect(verifyTotp(SECRET, '08180', 1, now)).toBeNull();
+  });
+
+  it('builds an otpauth provisioning URI', () => {
+    const uri = new URL(buildOtpauthUri('LLM Marketplace', 'user@example.com', SECRET));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/LLM Marketplace:user@example.com');
+    expect(uri.searchParams.get('secret')).toBe(SECRET);
+    expect(uri.searchParams.get('issuer')).toBe('LLM Marketplace');
+  });
+});
@@ -0,0 +1,195 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookDispatcher } from '../services/webhook-dispatcher';
+import { WebhookAttemptOutcome, WebhookStore } from '../services/webhook-store';
+import { WebhookDelivery, WebhookEvent, WebhookSubscription } from '../types';
+import { verifyWebhookSignature } from '../utils/webhook-signature';
+import { isPublicAddress, publicAddressLookup } from '../utils/public-address';
+import { TenantClient } from '../integrations/tenant-client';
+
+jest.mock('../services/webhook-store');
+jest.mock('../config/database');
+
+describe('WebhookDispatcher', () => {
+  let server: http.Server;
+  let received: Array<{ headers: http.IncomingHttpHeaders; body: string }>;
+  let responseStatus: number;
+  let subscription: WebhookSubscription;
+  let store: jest.Mocked<WebhookStore>;
+  let dispatcher: WebhookDispatcher;
+
+  const delivery = (overrides: Partial<WebhookDelivery> = {}): WebhookDelivery => ({
+    id: 'delivery-1',
+    webhookId: 'webhook-1',
+    event: WebhookEvent.SERVICE_PUBLISHED,
+    payload: {
+      id: 'event-1',
+      event: WebhookEvent.SERVICE_PUBLISHED,
+      timestamp: new Date('2025-11-18T10:30:00Z'),
+      data: { serviceId: 'service-1' },
+    },
+    status: 'pending',
+    attempts: 0,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end('ok');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    received = [];
+    responseStatus = 200;
+    subscription = {
+      id: 'webhook-1',
+      providerId: 'provider-1',
+      url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`,
+      events: [WebhookEvent.SERVICE_PUBLISHED],
+      active: true,
+      secret: 'whsec_test',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    // The stub endpoint listens on loopback
+    dispatcher = new WebhookDispatcher({
+      maxAttempts: 3,
+      retryBaseMs: 1000,
+      timeoutMs: 2000,
+      allowPrivateAddresses: true,
+    });
+    store = jest.mocked(WebhookStore).mock.instances[0] as jest.Mocked<WebhookStore>;
+    store.recordAttempt.mockImplementation(async (id: string, outcome: WebhookAttemptOutcome) =>
+      delivery({ id, ...outcome })
+    );
+  });
+
+  it('sends a signed payload and records success', async () => {
+    const result = await dispatcher.deliver(delivery(), subscription);
+
+    expect(result.status).toBe('succeeded');
+    expect(result.attempts).toBe(1);
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    expect(headers['x-marketplace-event']).toBe('service.published');
+    expect(headers['x-marketplace-delivery']).toBe('delivery-1');
+    expect(JSON.parse(body)).toMatchObject({ id: 'event-1', data: { serviceId: 'service-1' } });
+    expect(verifyWebhookSignature('whsec_test', headers['x-marketplace-signature'] as string, body)).toBe(true);
+    expect(verifyWebhookSignature('wrong-secret', headers['x-marketplace-signature'] as string, body)).toBe(false);
+  });
+
+  it('schedules a retry with backoff when the endpoint fails', async () => {
+    responseStatus = 503;
+
+    const before = Date.now();
+    const result = await dispatcher.deliver(delivery({ attempts: 1 }), subscription);
+
+    expect(result.status).toBe('pending');
+    expect(result.attempts).toBe(2);
+    expect(result.responseStatus).toBe(503);
+    expect(result.error).toBe('Endpoint responded with HTTP 503');
+    expect(result.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 2000);
+  });
+
+  it('gives up after the last attempt', async () => {
+    responseStatus = 500;
+
+    const result = await dispatcher.deliver(delivery({ attempts: 2 }), subscription);
+
+    expect(result.status).toBe('failed');
+    expect(result.nextAttemptAt).toBeUndefined();
+  });
+
+  it('only queues deliveries for subscribers of the event', async () => {
+    store.findSubscribers.mockResolvedValue([]);
+
+    await dispatcher.dispatch('provider-1', WebhookEvent.SERVICE_SUSPENDED, { serviceId: 'service-1' });
+
+    expect(store.findSubscribers).toHaveBeenCalledWith('provider-1', [], WebhookEvent.SERVICE_SUSPENDED);
+    expect(store.createDelivery).not.toHaveBeenCalled();
+  });
+
+  it("delivers to the tenant-wide webhooks of the provider's tenants", async () => {
+    const tenantWebhook = { ...subscription, id: 'webhook-2', providerId: 'provider-2', tenantId: 'tenant-1' };
+    jest.spyOn(TenantClient.prototype, 'getUserTenantIds').mockResolvedValue(['tenant-1']);
+    store.findSubscribers.mockResolvedValue([subscription, tenantWebhook]);
+    store.createDelivery.mockImplementation(async (webhookId) => delivery({ id: `delivery-${webhookId}`, webhookId }));
+    const deliver = jest.spyOn(dispatcher, 'deliver').mockImplementation(async (queued) => queued);
+
+    await dispatcher.dispatch('provider-1', WebhookEvent.SERVICE_PUBLISHED, { serviceId: 'service-1' });
+
+    expect(store.findSubscribers).toHaveBeenCalledWith('provider-1', ['tenant-1'], WebhookEvent.SERVICE_PUBLISHED);
+    expect(store.createDelivery.mock.calls.map(([webhookId]) => webhookId)).toEqual(['webhook-1', 'webhook-2']);
+    expect(deliver).toHaveBeenCalledWith(expect.objectContaining({ webhookId: 'webhook-2' }), tenantWebhook);
+  });
+
+  it("still delivers to the provider's own webhooks when the tenant lookup fails", async () => {
+    jest.spyOn(TenantClient.prototype, 'getUserTenantIds').mockRejectedValue(new Error('Tenant lookup failed'));
+    store.findSubscribers.mockResolvedValue([]);
+
+    await dispatcher.dispatch('provider-1', WebhookEvent.SERVICE_PUBLISHED, { serviceId: 'service-1' });
+
+    expect(store.findSubscribers).toHaveBeenCalledWith('provider-1', [], WebhookEvent.SERVICE_PUBLISHED);
+  });
+
+  it('refuses to deliver to a non-public address', async () => {
+    const guarded = new WebhookDispatcher({ maxAttempts: 3, retryBaseMs: 1000, timeoutMs: 2000 });
+    const guardedStore = jest.mocked(WebhookStore).mock.instances[1] as jest.Mocked<WebhookStore>;
+    guardedStore.recordAttempt.mockImplementation(store.recordAttempt.getMockImplementation()!);
+    const port = (server.address() as AddressInfo).port;
+
+    const literal = await guarded.deliver(delivery(), subscription);
+    const resolved = await guarded.deliver(delivery(), { ...subscription, url: `http://localhost:${port}/hooks` });
+
+    expect(literal.status).toBe('pending');
+    expect(literal.error).toBe('Host 127.0.0.1 resolves to non-public address 127.0.0.1');
+    expect(resolved.error).toMatch(/^Host localhost resolves to non-public address/);
+    expect(received).toHaveLength(0);
+  });
+
+  it('treats private, loopback, link-local and metadata addresses as non-public', () => {
+    const nonPublic = [
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '127.0.0.2',
+      '::1',
+      'fe80::1',
+      'fd00::1',
+      '::ffff:10.0.0.1',
+    ];
+    for (const address of nonPublic) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+    expect(isPublicAddress('not-an-address')).toBe(false);
+  });
+
+  it('fails connection lookups that resolve to a non-public address', async () => {
+    const error = await new Promise<Error | null>((resolve) =>
+      publicAddressLookup('localhost', {}, (err) => resolve(err))
+    );
+
+    expect(error?.message).toMatch(/^Host localhost resolves to non-public address/);
+  });
+});
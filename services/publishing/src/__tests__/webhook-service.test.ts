@@ -0,0 +1,77 @@
+import { WebhookService } from '../services/webhook-service';
+import { WebhookStore } from '../services/webhook-store';
+import { TenantClient } from '../integrations/tenant-client';
+import { WebhookEvent, WebhookSubscription } from '../types';
+
+jest.mock('../services/webhook-store');
+jest.mock('../config/database');
+
+describe('WebhookService.createWebhook', () => {
+  const input = {
+    url: 'http://127.0.0.1/hooks',
+    events: [WebhookEvent.SERVICE_PUBLISHED],
+    tenantId: '7c9e6679-7425-40de-944b-e07fc1f99cae',
+  };
+  let store: jest.Mocked<WebhookStore>;
+  let service: WebhookService;
+
+  beforeAll(() => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES = 'true';
+  });
+
+  afterAll(() => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    service = new WebhookService();
+    store = jest.mocked(WebhookStore).mock.instances[0] as jest.Mocked<WebhookStore>;
+    store.createSubscription.mockImplementation(async (subscription) => ({
+      ...subscription,
+      id: 'webhook-1',
+      active: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }) as WebhookSubscription);
+  });
+
+  it('registers a tenant-wide webhook for a member of the tenant', async () => {
+    jest.spyOn(TenantClient.prototype, 'getUserTenantIds').mockResolvedValue([input.tenantId]);
+
+    const webhook = await service.createWebhook('provider-1', input);
+
+    expect(webhook.tenantId).toBe(input.tenantId);
+    expect(store.createSubscription).toHaveBeenCalledWith(
+      expect.objectContaining({ providerId: 'provider-1', tenantId: input.tenantId })
+    );
+  });
+
+  it('refuses a tenant the provider does not belong to', async () => {
+    jest.spyOn(TenantClient.prototype, 'getUserTenantIds').mockResolvedValue(['tenant-2']);
+
+    await expect(service.createWebhook('provider-1', input)).rejects.toThrow(
+      'Unauthorized: You are not a member of this tenant'
+    );
+    expect(store.createSubscription).not.toHaveBeenCalled();
+  });
+
+  it('does not let an update change the scope', async () => {
+    store.getSubscription.mockResolvedValue({
+      id: 'webhook-1',
+      providerId: 'provider-1',
+      url: input.url,
+      events: input.events,
+      active: true,
+      secret: 'whsec_test',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    store.updateSubscription.mockImplementation(async () => store.getSubscription.mock.results[0].value);
+
+    await service.updateWebhook('webhook-1', 'provider-1', { tenantId: input.tenantId, active: false });
+
+    expect(store.updateSubscription).toHaveBeenCalledWith('webhook-1', { active: false, events: undefined });
+  });
+});
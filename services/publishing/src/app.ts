@@ -17,6 +17,10 @@ import routes from './routes';
 export function createApp(): Application {
   const app = express();
 
+  // req.ip, which API key IP restrictions are checked against, is the
+  // client's address only when the proxies in front of us are trusted
+  app.set('trust proxy', config.server.trustProxy);
+
   // Security middleware
   app.use(helmet());
 
@@ -102,6 +102,24 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * Precondition failed errors (e.g., a stale If-Match)
+ */
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, metadata?: Record<string, any>) {
+    super(message, 412, true, metadata);
+  }
+}
+
+/**
+ * Unprocessable entity errors (e.g., an idempotency key reused for a different request)
+ */
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string, metadata?: Record<string, any>) {
+    super(message, 422, true, metadata);
+  }
+}
+
 /**
  * Rate limit exceeded errors
  */
@@ -0,0 +1,297 @@
+/**
+ * OpenID Connect Client
+ * Discovery, authorization-code flow with PKCE and ID token verification
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { AuthenticationError, ExternalServiceError } from './errors';
+
+const SERVICE_NAME = 'OIDC provider';
+
+const SUPPORTED_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+/**
+ * Subset of the OpenID Provider metadata used by the client
+ */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  code_challenge_methods_supported?: string[];
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+/**
+ * Client registration details for one relying party
+ */
+export interface OidcClientSettings {
+  clientId: string;
+  clientSecret?: string | null;
+  redirectUri: string;
+  timeoutMs?: number;
+}
+
+export interface OidcTokenResponse {
+  id_token: string;
+  access_token?: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+}
+
+export interface OidcIdTokenClaims extends JwtPayload {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  nonce?: string;
+  [claim: string]: unknown;
+}
+
+interface JwksCacheEntry {
+  keys: Map<string, crypto.KeyObject>;
+  fetchedAt: number;
+}
+
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+const jwksCache = new Map<string, JwksCacheEntry>();
+
+/**
+ * Base64url-encoded random token (state, nonce, PKCE verifier)
+ */
+export function randomToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Create a PKCE verifier and its S256 challenge (RFC 7636)
+ */
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = randomToken(32);
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Discovery document URL for an issuer
+ */
+export function discoveryUrlForIssuer(issuer: string): string {
+  return `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+}
+
+/**
+ * Fetch and validate a provider's discovery document
+ */
+export async function fetchDiscoveryDocument(
+  discoveryUrl: string,
+  timeoutMs: number = 5000
+): Promise<OidcDiscoveryDocument> {
+  let document: Partial<OidcDiscoveryDocument>;
+
+  try {
+    const response = await axios.get(discoveryUrl, { timeout: timeoutMs, maxRedirects: 0 });
+    document = response.data;
+  } catch (error) {
+    throw new ExternalServiceError(SERVICE_NAME, 'Failed to fetch discovery document', error as Error, {
+      discoveryUrl,
+    });
+  }
+
+  const required: Array<keyof OidcDiscoveryDocument> = [
+    'issuer',
+    'authorization_endpoint',
+    'token_endpoint',
+    'jwks_uri',
+  ];
+  const missing = required.filter((field) => typeof document?.[field] !== 'string');
+
+  if (missing.length > 0) {
+    throw new ExternalServiceError(SERVICE_NAME, `Discovery document is missing ${missing.join(', ')}`, undefined, {
+      discoveryUrl,
+    });
+  }
+
+  // Providers that advertise PKCE methods must support S256
+  const methods = document.code_challenge_methods_supported;
+  if (methods && !methods.includes('S256')) {
+    throw new ExternalServiceError(SERVICE_NAME, 'Provider does not support PKCE with S256', undefined, {
+      discoveryUrl,
+    });
+  }
+
+  return document as OidcDiscoveryDocument;
+}
+
+/**
+ * Build the authorization request URL the browser is redirected to
+ */
+export function buildAuthorizationUrl(
+  document: OidcDiscoveryDocument,
+  client: OidcClientSettings,
+  request: { scopes: string[]; state: string; nonce: string; codeChallenge: string }
+): string {
+  const url = new URL(document.authorization_endpoint);
+
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', client.clientId);
+  url.searchParams.set('redirect_uri', client.redirectUri);
+  url.searchParams.set('scope', request.scopes.join(' '));
+  url.searchParams.set('state', request.state);
+  url.searchParams.set('nonce', request.nonce);
+  url.searchParams.set('code_challenge', request.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return url.toString();
+}
+
+/**
+ * Exchange an authorization code for tokens at the token endpoint
+ */
+export async function exchangeAuthorizationCode(
+  document: OidcDiscoveryDocument,
+  client: OidcClientSettings,
+  grant: { code: string; codeVerifier: string }
+): Promise<OidcTokenResponse> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: grant.code,
+    redirect_uri: client.redirectUri,
+    code_verifier: grant.codeVerifier,
+    client_id: client.clientId,
+  });
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  if (client.clientSecret) {
+    const methods = document.token_endpoint_auth_methods_supported;
+    const useBasic = methods !== undefined && !methods.includes('client_secret_post') && methods.includes('client_secret_basic');
+
+    if (useBasic) {
+      const credentials = `${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_secret', client.clientSecret);
+    }
+  }
+
+  let tokens: OidcTokenResponse;
+
+  try {
+    const response = await axios.post(document.token_endpoint, body.toString(), {
+      headers,
+      timeout: client.timeoutMs ?? 5000,
+      maxRedirects: 0,
+    });
+    tokens = response.data;
+  } catch (error) {
+    const providerError = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+    throw new AuthenticationError('Authorization code exchange failed', {
+      providerError,
+    });
+  }
+
+  if (!tokens || typeof tokens.id_token !== 'string') {
+    throw new AuthenticationError('Token response did not include an ID token');
+  }
+
+  return tokens;
+}
+
+/**
+ * Verify an ID token's signature against the provider's JWKS and check its
+ * issuer, audience, expiry and nonce
+ */
+export async function verifyIdToken(
+  idToken: string,
+  document: OidcDiscoveryDocument,
+  expected: { clientId: string; nonce: string; clockToleranceSeconds?: number; timeoutMs?: number }
+): Promise<OidcIdTokenClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new AuthenticationError('Malformed ID token');
+  }
+
+  const key = await getSigningKey(document.jwks_uri, decoded.header.kid, expected.timeoutMs);
+
+  let claims: OidcIdTokenClaims;
+
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: SUPPORTED_ALGORITHMS,
+      issuer: document.issuer,
+      audience: expected.clientId,
+      clockTolerance: expected.clockToleranceSeconds ?? 60,
+    }) as OidcIdTokenClaims;
+  } catch (error) {
+    throw new AuthenticationError(`Invalid ID token: ${(error as Error).message}`);
+  }
+
+  if (!claims.nonce || claims.nonce !== expected.nonce) {
+    throw new AuthenticationError('Invalid ID token: nonce mismatch');
+  }
+
+  if (!claims.sub) {
+    throw new AuthenticationError('Invalid ID token: missing subject');
+  }
+
+  return claims;
+}
+
+/**
+ * Resolve the key that signed a token, refetching the JWKS once when the
+ * key ID is unknown (the provider may have rotated its keys)
+ */
+async function getSigningKey(jwksUri: string, kid: string | undefined, timeoutMs?: number): Promise<crypto.KeyObject> {
+  let entry = jwksCache.get(jwksUri);
+  const stale = !entry || Date.now() - entry.fetchedAt > JWKS_CACHE_TTL_MS;
+
+  if (stale || (kid && !entry!.keys.has(kid))) {
+    entry = await fetchJwks(jwksUri, timeoutMs);
+    jwksCache.set(jwksUri, entry);
+  }
+
+  const key = kid ? entry!.keys.get(kid) : entry!.keys.size === 1 ? [...entry!.keys.values()][0] : undefined;
+
+  if (!key) {
+    throw new AuthenticationError('Invalid ID token: unknown signing key', { kid });
+  }
+
+  return key;
+}
+
+async function fetchJwks(jwksUri: string, timeoutMs: number = 5000): Promise<JwksCacheEntry> {
+  let jwks: { keys?: Array<crypto.JsonWebKey & { kid?: string; use?: string }> };
+
+  try {
+    const response = await axios.get(jwksUri, { timeout: timeoutMs, maxRedirects: 0 });
+    jwks = response.data;
+  } catch (error) {
+    throw new ExternalServiceError(SERVICE_NAME, 'Failed to fetch JWKS', error as Error, { jwksUri });
+  }
+
+  const keys = new Map<string, crypto.KeyObject>();
+
+  for (const jwk of jwks?.keys ?? []) {
+    if (jwk.use && jwk.use !== 'sig') {
+      continue;
+    }
+
+    try {
+      keys.set(jwk.kid ?? '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    } catch {
+      // Skip keys of unsupported types
+    }
+  }
+
+  return { keys, fetchedAt: Date.now() };
+}
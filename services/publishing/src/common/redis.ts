@@ -120,6 +120,28 @@ export async function setCacheJSON<T>(
   await setCache(key, serialized, ttlSeconds);
 }
 
+/**
+ * Set a JSON object in cache only if the key does not exist yet. Returns
+ * false when the key is already taken.
+ */
+export async function setCacheJSONIfAbsent<T>(
+  key: string,
+  value: T,
+  ttlSeconds: number
+): Promise<boolean> {
+  const client = getRedisClient();
+  const cacheKey = getCacheKey(key);
+
+  try {
+    const result = await client.set(cacheKey, JSON.stringify(value), { NX: true, EX: ttlSeconds });
+    logger.debug('Cache set if absent', { key: cacheKey, set: result !== null });
+    return result !== null;
+  } catch (error) {
+    logger.error('Failed to set cache', { key: cacheKey, error });
+    throw new CacheError('Cache set operation failed', error as Error);
+  }
+}
+
 /**
  * Get a value from cache
  */
@@ -152,6 +174,32 @@ export async function getCacheJSON<T>(key: string): Promise<T | null> {
   }
 }
 
+/**
+ * Get a JSON object from cache and delete it in one step, so that it can
+ * only be used once
+ */
+export async function consumeCacheJSON<T>(key: string): Promise<T | null> {
+  const client = getRedisClient();
+  const cacheKey = getCacheKey(key);
+
+  let value: string | null;
+  try {
+    value = await client.getDel(cacheKey);
+  } catch (error) {
+    logger.error('Failed to consume cache', { key: cacheKey, error });
+    throw new CacheError('Cache consume operation failed', error as Error);
+  }
+
+  if (!value) return null;
+
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    logger.error('Failed to parse cached JSON', { key, error });
+    return null;
+  }
+}
+
 /**
  * Delete a key from cache
  */
@@ -341,3 +389,93 @@ export async function getSession(sessionId: string): Promise<Record<string, any>
 export async function deleteSession(sessionId: string): Promise<void> {
   await deleteCache(`session:${sessionId}`);
 }
+
+/**
+ * Check whether a session exists
+ */
+export async function hasSession(sessionId: string): Promise<boolean> {
+  return existsCache(`session:${sessionId}`);
+}
+
+/**
+ * Replace a session only if `field` still holds `expected`, as one atomic
+ * step. Used to rotate refresh tokens without letting two requests rotate
+ * the same token.
+ */
+export async function swapSession(
+  sessionId: string,
+  field: string,
+  expected: string,
+  data: Record<string, any>,
+  ttlSeconds: number
+): Promise<'swapped' | 'mismatch' | 'missing'> {
+  const client = getRedisClient();
+  const key = getCacheKey(`session:${sessionId}`);
+  const script = `
+    local current = redis.call('GET', KEYS[1])
+    if not current then return 'missing' end
+    if cjson.decode(current)[ARGV[1]] ~= ARGV[2] then return 'mismatch' end
+    redis.call('SET', KEYS[1], ARGV[3], 'EX', tonumber(ARGV[4]))
+    return 'swapped'
+  `;
+
+  try {
+    const result = await client.eval(script, {
+      keys: [key],
+      arguments: [field, expected, JSON.stringify(data), String(ttlSeconds)],
+    });
+    return result as 'swapped' | 'mismatch' | 'missing';
+  } catch (error) {
+    logger.error('Failed to swap session', { key, error });
+    throw new CacheError('Session swap operation failed', error as Error);
+  }
+}
+
+/**
+ * Add a session to a user's session index
+ */
+export async function addUserSession(userId: string, sessionId: string, ttlSeconds: number): Promise<void> {
+  const client = getRedisClient();
+  const key = getCacheKey(`user_sessions:${userId}`);
+
+  try {
+    await client.sAdd(key, sessionId);
+    await client.expire(key, ttlSeconds);
+  } catch (error) {
+    logger.error('Failed to index session', { key, error });
+    throw new CacheError('Session index operation failed', error as Error);
+  }
+}
+
+/**
+ * List the session IDs in a user's index. Entries may refer to sessions
+ * that have since expired.
+ */
+export async function getUserSessionIds(userId: string): Promise<string[]> {
+  const client = getRedisClient();
+  const key = getCacheKey(`user_sessions:${userId}`);
+
+  try {
+    return await client.sMembers(key);
+  } catch (error) {
+    logger.error('Failed to read session index', { key, error });
+    throw new CacheError('Session index operation failed', error as Error);
+  }
+}
+
+/**
+ * Remove sessions from a user's session index
+ */
+export async function removeUserSessions(userId: string, sessionIds: string[]): Promise<void> {
+  if (sessionIds.length === 0) return;
+
+  const client = getRedisClient();
+  const key = getCacheKey(`user_sessions:${userId}`);
+
+  try {
+    await client.sRem(key, sessionIds);
+  } catch (error) {
+    logger.error('Failed to update session index', { key, error });
+    throw new CacheError('Session index operation failed', error as Error);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Tenant Service Client
+ * Reads tenant feature flags and security settings from the tenant
+ * management service
+ */
+
+import axios from 'axios';
+import { config } from '../config';
+import { logger } from './logger';
+import { ExternalServiceError } from './errors';
+
+/**
+ * Fields of a tenant used by this service
+ */
+export interface TenantSummary {
+  id: string;
+  features?: Record<string, boolean>;
+  settings?: {
+    security?: {
+      mfaRequired?: boolean;
+    };
+  };
+}
+
+/**
+ * Whether a tenant management service is configured. Without one, tenant
+ * features and policies are not enforced.
+ */
+export function isTenantServiceConfigured(): boolean {
+  return Boolean(config.sso.tenantServiceUrl);
+}
+
+/**
+ * Fetch a tenant, or null when it does not exist
+ */
+export async function fetchTenant(tenantId: string): Promise<TenantSummary | null> {
+  try {
+    const response = await axios.get(
+      `${config.sso.tenantServiceUrl}/tenants/${encodeURIComponent(tenantId)}`,
+      { timeout: config.sso.httpTimeout }
+    );
+    return response.data?.data ?? null;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+
+    logger.error('Failed to fetch tenant', { tenantId, error });
+    throw new ExternalServiceError('Tenant service', 'Failed to load tenant', error as Error);
+  }
+}
+
+/**
+ * Fetch the tenants a user is an active member of
+ */
+export async function fetchUserTenants(userId: string): Promise<TenantSummary[]> {
+  try {
+    const response = await axios.get(
+      `${config.sso.tenantServiceUrl}/users/${encodeURIComponent(userId)}/tenants`,
+      { timeout: config.sso.httpTimeout }
+    );
+    return Array.isArray(response.data?.data) ? response.data.data : [];
+  } catch (error) {
+    logger.error('Failed to fetch user tenants', { userId, error });
+    throw new ExternalServiceError('Tenant service', 'Failed to load user tenants', error as Error);
+  }
+}
@@ -1,4 +1,4 @@
-import { Pool, PoolConfig } from 'pg';
+import { Pool, PoolClient, PoolConfig } from 'pg';
 import { logger } from '../utils/logger';
 
 const poolConfig: PoolConfig = {
@@ -15,6 +15,11 @@ const poolConfig: PoolConfig = {
 
 export const pool = new Pool(poolConfig);
 
+/**
+ * The pool, or a client holding an open transaction
+ */
+export type DatabaseClient = Pool | PoolClient;
+
 pool.on('connect', () => {
   logger.info('Database connection established');
 });
@@ -42,3 +47,23 @@ export async function closeDatabase(): Promise<void> {
   await pool.end();
   logger.info('Database connection pool closed');
 }
+
+/**
+ * Run a callback in a transaction, committing if it resolves and rolling
+ * back if it throws
+ */
+export async function transaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await callback(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
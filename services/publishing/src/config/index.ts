@@ -20,6 +20,8 @@ const configSchema = z.object({
     apiVersion: z.string().default('v1'),
     name: z.string().default('publishing-service'),
     version: z.string().default('1.0.0'),
+    // Express `trust proxy`: false, a hop count, or trusted proxy addresses
+    trustProxy: z.union([z.boolean(), z.number().int().nonnegative(), z.string()]).default(false),
   }),
 
   // Database configuration
@@ -60,6 +62,9 @@ const configSchema = z.object({
     prefix: z.string().default('llm_'),
     length: z.number().int().positive().default(32),
     expiresIn: z.number().int().positive().default(365), // days
+    rotationOverlapHours: z.number().int().nonnegative().max(720).default(24),
+    expiryWarningDays: z.number().int().positive().default(14),
+    expiryCheckIntervalMs: z.number().int().positive().default(3600000), // 1 hour
   }),
 
   // OAuth2 configuration
@@ -70,6 +75,29 @@ const configSchema = z.object({
     clientSecret: z.string().optional(),
   }),
 
+  // SSO configuration
+  sso: z.object({
+    stateTtlSeconds: z.number().int().positive().default(600),
+    discoveryCacheTtlSeconds: z.number().int().positive().default(3600),
+    httpTimeout: z.number().int().positive().default(5000),
+    tenantServiceUrl: z.string().url().optional(),
+  }),
+
+  // MFA configuration
+  mfa: z.object({
+    issuer: z.string().default('LLM Marketplace'),
+    encryptionKey: z.string().min(32).optional(),
+    challengeTtlSeconds: z.number().int().positive().default(300),
+    stepUpTtlSeconds: z.number().int().positive().default(300),
+    maxAttempts: z.number().int().positive().default(5),
+    recoveryCodeCount: z.number().int().positive().max(20).default(10),
+  }),
+
+  // Service deprecation configuration
+  deprecation: z.object({
+    gracePeriodDays: z.number().int().positive().default(30),
+  }),
+
   // Rate limiting configuration
   rateLimit: z.object({
     windowMs: z.number().int().positive().default(60000), // 1 minute
@@ -103,6 +131,22 @@ const configSchema = z.object({
   }),
 });
 
+/**
+ * Read TRUST_PROXY as Express expects it: `true`/`false`, a number of
+ * proxy hops, or a comma-separated list of proxy addresses and subnets
+ */
+function parseTrustProxy(value: string | undefined): boolean | number | string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
 /**
  * Load and validate configuration from environment variables
  */
@@ -114,6 +158,7 @@ function loadConfig() {
       apiVersion: process.env.API_VERSION,
       name: process.env.SERVICE_NAME,
       version: process.env.SERVICE_VERSION,
+      trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
     },
     database: {
       host: process.env.DB_HOST,
@@ -140,6 +185,15 @@ function loadConfig() {
     apiKey: {
       prefix: process.env.API_KEY_PREFIX,
       length: process.env.API_KEY_LENGTH ? parseInt(process.env.API_KEY_LENGTH, 10) : undefined,
+      rotationOverlapHours: process.env.API_KEY_ROTATION_OVERLAP_HOURS
+        ? parseInt(process.env.API_KEY_ROTATION_OVERLAP_HOURS, 10)
+        : undefined,
+      expiryWarningDays: process.env.API_KEY_EXPIRY_WARNING_DAYS
+        ? parseInt(process.env.API_KEY_EXPIRY_WARNING_DAYS, 10)
+        : undefined,
+      expiryCheckIntervalMs: process.env.API_KEY_EXPIRY_CHECK_INTERVAL_MS
+        ? parseInt(process.env.API_KEY_EXPIRY_CHECK_INTERVAL_MS, 10)
+        : undefined,
     },
     oauth2: {
       enabled: process.env.OAUTH2_ENABLED === 'true',
@@ -147,6 +201,30 @@ function loadConfig() {
       clientId: process.env.OAUTH2_CLIENT_ID,
       clientSecret: process.env.OAUTH2_CLIENT_SECRET,
     },
+    sso: {
+      stateTtlSeconds: process.env.SSO_STATE_TTL_SECONDS ? parseInt(process.env.SSO_STATE_TTL_SECONDS, 10) : undefined,
+      discoveryCacheTtlSeconds: process.env.SSO_DISCOVERY_CACHE_TTL_SECONDS
+        ? parseInt(process.env.SSO_DISCOVERY_CACHE_TTL_SECONDS, 10)
+        : undefined,
+      httpTimeout: process.env.SSO_HTTP_TIMEOUT_MS ? parseInt(process.env.SSO_HTTP_TIMEOUT_MS, 10) : undefined,
+      tenantServiceUrl: process.env.TENANT_SERVICE_URL || undefined,
+    },
+    mfa: {
+      issuer: process.env.MFA_ISSUER,
+      encryptionKey: process.env.MFA_ENCRYPTION_KEY || undefined,
+      challengeTtlSeconds: process.env.MFA_CHALLENGE_TTL_SECONDS
+        ? parseInt(process.env.MFA_CHALLENGE_TTL_SECONDS, 10)
+        : undefined,
+      stepUpTtlSeconds: process.env.MFA_STEP_UP_TTL_SECONDS
+        ? parseInt(process.env.MFA_STEP_UP_TTL_SECONDS, 10)
+        : undefined,
+      maxAttempts: process.env.MFA_MAX_ATTEMPTS ? parseInt(process.env.MFA_MAX_ATTEMPTS, 10) : undefined,
+    },
+    deprecation: {
+      gracePeriodDays: process.env.DEPRECATION_GRACE_PERIOD_DAYS
+        ? parseInt(process.env.DEPRECATION_GRACE_PERIOD_DAYS, 10)
+        : undefined,
+    },
     rateLimit: {
       windowMs: process.env.RATE_LIMIT_WINDOW_MS ? parseInt(process.env.RATE_LIMIT_WINDOW_MS, 10) : undefined,
       maxRequests: process.env.RATE_LIMIT_MAX_REQUESTS ? parseInt(process.env.RATE_LIMIT_MAX_REQUESTS, 10) : undefined,
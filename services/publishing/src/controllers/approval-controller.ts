@@ -0,0 +1,159 @@
+import { Request, Response } from 'express';
+import { ApprovalReviewer, ApprovalService } from '../services/approval-service';
+import { logger } from '../utils/logger';
+
+/**
+ * Controller for approval chain endpoints. Reviewers are not necessarily
+ * providers, so any authenticated user may call them; the approval service
+ * checks who may see and review each approval.
+ */
+export class ApprovalController {
+  private approvalService: ApprovalService;
+
+  constructor() {
+    this.approvalService = new ApprovalService();
+  }
+
+  /**
+   * GET /api/v1/approvals - Pending approvals the caller can review now
+   */
+  async listAssigned(req: Request, res: Response): Promise<void> {
+    const user = this.requireUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    try {
+      const approvals = await this.approvalService.listAssigned(user);
+
+      res.status(200).json({
+        success: true,
+        data: approvals,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to list approvals');
+    }
+  }
+
+  /**
+   * GET /api/v1/approvals/:id - Get an approval with its stages and reviews
+   */
+  async getApproval(req: Request, res: Response): Promise<void> {
+    const user = this.requireUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    try {
+      const approval = await this.approvalService.getApproval(req.params.id, user);
+
+      res.status(200).json({
+        success: true,
+        data: approval,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to get approval');
+    }
+  }
+
+  /**
+   * POST /api/v1/approvals/:id/reviews - Approve, reject, request changes or comment
+   */
+  async submitReview(req: Request, res: Response): Promise<void> {
+    const user = this.requireUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    try {
+      logger.info('Approval review request', {
+        approvalId: req.params.id,
+        reviewerId: user.id,
+        action: req.body?.action,
+      });
+
+      const approval = await this.approvalService.review(req.params.id, user, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: approval,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to submit review');
+    }
+  }
+
+  /**
+   * GET /api/v1/services/:id/approval - Latest approval of a service
+   */
+  async getServiceApproval(req: Request, res: Response): Promise<void> {
+    const user = this.requireUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    try {
+      const approval = await this.approvalService.getServiceApproval(req.params.id, user);
+
+      res.status(200).json({
+        success: true,
+        data: approval,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to get service approval');
+    }
+  }
+
+  /**
+   * POST /api/v1/services/:id/approval/reviews - Review the service's pending approval
+   */
+  async reviewService(req: Request, res: Response): Promise<void> {
+    const user = this.requireUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    try {
+      logger.info('Service review request', {
+        serviceId: req.params.id,
+        reviewerId: user.id,
+        action: req.body?.action,
+      });
+
+      const approval = await this.approvalService.reviewService(req.params.id, user, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: approval,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to submit review');
+    }
+  }
+
+  private requireUser(req: Request, res: Response): ApprovalReviewer | undefined {
+    if (!req.user?.id) {
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized: User ID not found',
+      });
+      return undefined;
+    }
+
+    return { id: req.user.id, role: req.user.role };
+  }
+
+  private sendError(res: Response, error: unknown, message: string): void {
+    logger.error(message, { error });
+
+    const statusCode = (error as Error).message.includes('not found') ? 404 :
+                      (error as Error).message.includes('Unauthorized') ? 403 :
+                      (error as Error).message.startsWith('Invalid') ? 400 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message,
+      message: (error as Error).message,
+    });
+  }
+}
@@ -43,7 +43,7 @@ export const login = asyncHandler(async (req: Request, res: Response) => {
   res.status(200).json({
     success: true,
     data: authResponse,
-    message: 'Login successful',
+    message: 'mfaRequired' in authResponse ? 'MFA verification required' : 'Login successful',
   });
 });
 
@@ -69,7 +69,7 @@ export const logout = asyncHandler(async (req: Request, res: Response) => {
 export const refreshToken = asyncHandler(async (req: Request, res: Response) => {
   const { refreshToken } = req.body;
 
-  const tokens = await authService.refreshAccessToken(refreshToken);
+  const tokens = await authService.refreshAccessToken(refreshToken, req.ip, req.get('user-agent'));
 
   res.status(200).json({
     success: true,
@@ -95,11 +95,13 @@ export const getProfile = asyncHandler(async (req: Request, res: Response) => {
  */
 export const createApiKey = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
-  const { name, scopes, expiresInDays } = req.body;
+  const { name, scopes, allowedServiceIds, allowedCidrs, expiresInDays } = req.body;
 
   const result = await authService.createApiKey(userId, {
     name,
     scopes,
+    allowedServiceIds,
+    allowedCidrs,
     expiresInDays,
   });
 
@@ -125,6 +127,27 @@ export const listApiKeys = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
+/**
+ * POST /auth/api-keys/:id/rotate
+ * Issue a successor key; the old key stays valid for the overlap window
+ */
+export const rotateApiKey = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const apiKeyId = req.params.id;
+  const { overlapHours, expiresInDays } = req.body;
+
+  const result = await authService.rotateApiKey(userId, apiKeyId, {
+    overlapHours,
+    expiresInDays,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: result,
+    message: `API key rotated. The previous key remains valid until ${result.previousKey.expiresAt?.toISOString()}.`,
+  });
+});
+
 /**
  * DELETE /auth/api-keys/:id
  * Revoke API key
@@ -140,3 +163,49 @@ export const revokeApiKey = asyncHandler(async (req: Request, res: Response) =>
     message: 'API key revoked successfully',
   });
 });
+
+/**
+ * GET /auth/sessions
+ * List the current user's active sessions
+ */
+export const listSessions = asyncHandler(async (req: Request, res: Response) => {
+  const sessions = await authService.listSessions(req.user!.id, req.user!.sessionId);
+
+  res.status(200).json({
+    success: true,
+    data: { sessions },
+  });
+});
+
+/**
+ * DELETE /auth/sessions/:id
+ * Revoke one of the current user's sessions
+ */
+export const revokeSession = asyncHandler(async (req: Request, res: Response) => {
+  await authService.revokeSession(req.user!.id, req.params.id);
+
+  res.status(200).json({
+    success: true,
+    message: 'Session revoked',
+  });
+});
+
+/**
+ * DELETE /auth/sessions
+ * Revoke all of the current user's sessions. With `?keepCurrent=true` the
+ * session making the request stays signed in.
+ */
+export const revokeAllSessions = asyncHandler(async (req: Request, res: Response) => {
+  const keepCurrent = req.query.keepCurrent === 'true';
+
+  const revoked = await authService.revokeAllSessions(
+    req.user!.id,
+    keepCurrent ? req.user!.sessionId : undefined
+  );
+
+  res.status(200).json({
+    success: true,
+    data: { revoked },
+    message: `${revoked} session(s) revoked`,
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * MFA Controller
+ * Handles TOTP enrollment, login verification and step-up HTTP requests
+ */
+
+import { Request, Response } from 'express';
+import * as authService from '../services/auth.service';
+import * as mfaService from '../services/mfa.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * POST /auth/mfa/verify
+ * Complete a login with a TOTP or recovery code
+ */
+export const verify = asyncHandler(async (req: Request, res: Response) => {
+  const { mfaToken, ...input } = req.body;
+
+  const authResponse = await authService.completeMfaLogin(mfaToken, input);
+
+  res.status(200).json({
+    success: true,
+    data: authResponse,
+    message: 'Login successful',
+  });
+});
+
+/**
+ * POST /auth/mfa/challenge/enroll
+ * Start the enrollment required by a login challenge
+ */
+export const beginChallengeEnrollment = asyncHandler(async (req: Request, res: Response) => {
+  const enrollment = await mfaService.beginChallengeEnrollment(req.body.mfaToken);
+
+  res.status(200).json({
+    success: true,
+    data: enrollment,
+    message: 'Scan the provisioning URI with an authenticator app and confirm with a code',
+  });
+});
+
+/**
+ * POST /auth/mfa/challenge/enroll/confirm
+ * Confirm the enrollment required by a login challenge and complete the login
+ */
+export const confirmChallengeEnrollment = asyncHandler(async (req: Request, res: Response) => {
+  const { mfaToken, code } = req.body;
+
+  const result = await authService.completeMfaEnrollment(mfaToken, code);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    message: 'MFA enabled. Store the recovery codes securely; they are shown only once.',
+  });
+});
+
+/**
+ * GET /auth/mfa
+ * Get MFA status for the current user
+ */
+export const getStatus = asyncHandler(async (req: Request, res: Response) => {
+  const status = await mfaService.getStatus(req.user!.id);
+
+  res.status(200).json({
+    success: true,
+    data: status,
+  });
+});
+
+/**
+ * POST /auth/mfa/enroll
+ * Start MFA enrollment for the current user
+ */
+export const beginEnrollment = asyncHandler(async (req: Request, res: Response) => {
+  const enrollment = await mfaService.beginEnrollment(req.user!.id);
+
+  res.status(200).json({
+    success: true,
+    data: enrollment,
+    message: 'Scan the provisioning URI with an authenticator app and confirm with a code',
+  });
+});
+
+/**
+ * POST /auth/mfa/enroll/confirm
+ * Confirm MFA enrollment for the current user
+ */
+export const confirmEnrollment = asyncHandler(async (req: Request, res: Response) => {
+  const recoveryCodes = await mfaService.confirmEnrollment(req.user!.id, req.body.code);
+
+  res.status(200).json({
+    success: true,
+    data: { recoveryCodes },
+    message: 'MFA enabled. Store the recovery codes securely; they are shown only once.',
+  });
+});
+
+/**
+ * POST /auth/mfa/recovery-codes
+ * Replace the current user's recovery codes
+ */
+export const regenerateRecoveryCodes = asyncHandler(async (req: Request, res: Response) => {
+  const recoveryCodes = await mfaService.regenerateRecoveryCodes(req.user!.id, req.body);
+
+  res.status(200).json({
+    success: true,
+    data: { recoveryCodes },
+    message: 'Recovery codes regenerated. Previous codes no longer work.',
+  });
+});
+
+/**
+ * POST /auth/mfa/disable
+ * Turn MFA off for the current user
+ */
+export const disable = asyncHandler(async (req: Request, res: Response) => {
+  await mfaService.disable(req.user!.id, req.body);
+
+  res.status(200).json({
+    success: true,
+    message: 'MFA disabled',
+  });
+});
+
+/**
+ * POST /auth/mfa/step-up
+ * Verify a second factor before sensitive actions
+ */
+export const stepUp = asyncHandler(async (req: Request, res: Response) => {
+  const result = await mfaService.stepUp(req.user!.id, req.body);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    message: 'Step-up verification successful',
+  });
+});
@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { OutboxStore } from '../services/outbox-store';
+import { OutboxDestination } from '../types';
+import { logger } from '../utils/logger';
+
+const DESTINATIONS: OutboxDestination[] = ['analytics', 'governance'];
+
+/**
+ * Controller for event outbox operations
+ */
+export class OutboxController {
+  private outboxStore: OutboxStore;
+
+  constructor() {
+    this.outboxStore = new OutboxStore();
+  }
+
+  /**
+   * GET /api/v1/outbox/metrics - Backlog, failures and relay lag
+   */
+  async getMetrics(_req: Request, res: Response): Promise<void> {
+    try {
+      const metrics = await this.outboxStore.getMetrics();
+
+      res.status(200).json({
+        success: true,
+        data: metrics,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to get outbox metrics');
+    }
+  }
+
+  /**
+   * POST /api/v1/outbox/failed/requeue - Retry events that exhausted their attempts
+   */
+  async requeueFailed(req: Request, res: Response): Promise<void> {
+    try {
+      const destination = req.body?.destination as OutboxDestination | undefined;
+
+      if (destination !== undefined && !DESTINATIONS.includes(destination)) {
+        throw new Error(`Invalid destination: use ${DESTINATIONS.join(' or ')}`);
+      }
+
+      logger.info('Requeue failed outbox events request', {
+        userId: req.user?.id,
+        destination,
+      });
+
+      const requeued = await this.outboxStore.requeueFailed(destination);
+
+      res.status(200).json({
+        success: true,
+        data: { requeued },
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to requeue outbox events');
+    }
+  }
+
+  private sendError(res: Response, error: unknown, message: string): void {
+    logger.error(message, { error });
+
+    const statusCode = (error as Error).message.includes('not found') ? 404 :
+                      (error as Error).message.includes('Unauthorized') ? 403 :
+                      (error as Error).message.startsWith('Invalid') ? 400 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message,
+      message: (error as Error).message,
+    });
+  }
+}
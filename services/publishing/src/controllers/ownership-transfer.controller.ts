@@ -0,0 +1,90 @@
+/**
+ * Ownership Transfer Controller
+ * Handles service ownership transfer HTTP requests
+ */
+
+import { Request, Response } from 'express';
+import * as ownershipTransferService from '../services/ownership-transfer.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * POST /services/:id/transfers
+ * Request a transfer of a service to a user or team
+ */
+export const requestTransfer = asyncHandler(async (req: Request, res: Response) => {
+  const transfer = await ownershipTransferService.requestTransfer(req.user!, req.params.id, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: { transfer },
+    message: 'Transfer requested. It takes effect when the recipient accepts it.',
+  });
+});
+
+/**
+ * GET /services/:id/transfers
+ * Transfer history of a service
+ */
+export const listServiceTransfers = asyncHandler(async (req: Request, res: Response) => {
+  const transfers = await ownershipTransferService.listServiceTransfers(req.user!, req.params.id);
+
+  res.status(200).json({
+    success: true,
+    data: { transfers },
+  });
+});
+
+/**
+ * GET /ownership-transfers
+ * Pending transfers addressed to or requested by the current user
+ */
+export const listTransfers = asyncHandler(async (req: Request, res: Response) => {
+  const transfers = await ownershipTransferService.listTransfers(req.user!);
+
+  res.status(200).json({
+    success: true,
+    data: transfers,
+  });
+});
+
+/**
+ * POST /ownership-transfers/:id/accept
+ * Accept a transfer
+ */
+export const acceptTransfer = asyncHandler(async (req: Request, res: Response) => {
+  const result = await ownershipTransferService.acceptTransfer(req.user!, req.params.id);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    message: 'Transfer accepted',
+  });
+});
+
+/**
+ * POST /ownership-transfers/:id/decline
+ * Decline a transfer
+ */
+export const declineTransfer = asyncHandler(async (req: Request, res: Response) => {
+  const transfer = await ownershipTransferService.declineTransfer(req.user!, req.params.id);
+
+  res.status(200).json({
+    success: true,
+    data: { transfer },
+    message: 'Transfer declined',
+  });
+});
+
+/**
+ * POST /ownership-transfers/:id/cancel
+ * Cancel a transfer
+ */
+export const cancelTransfer = asyncHandler(async (req: Request, res: Response) => {
+  const transfer = await ownershipTransferService.cancelTransfer(req.user!, req.params.id);
+
+  res.status(200).json({
+    success: true,
+    data: { transfer },
+    message: 'Transfer cancelled',
+  });
+});
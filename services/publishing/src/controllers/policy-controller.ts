@@ -0,0 +1,114 @@
+import { Request, Response } from 'express';
+import { PolicyEngineClient } from '../integrations/policy-engine-client';
+import { PolicyBundleManager, getPolicyBundleManager } from '../services/policy-bundle-manager';
+import { logger } from '../utils/logger';
+
+/**
+ * Controller for policy bundle and dry-run endpoints
+ */
+export class PolicyController {
+  private policyEngineClient: PolicyEngineClient;
+  private policyBundles: PolicyBundleManager;
+
+  constructor() {
+    this.policyEngineClient = new PolicyEngineClient();
+    this.policyBundles = getPolicyBundleManager();
+  }
+
+  /**
+   * GET /api/v1/policies - The active bundle and its policies
+   */
+  async getActiveBundle(_req: Request, res: Response): Promise<void> {
+    res.status(200).json({
+      success: true,
+      data: this.policyBundles.describe(),
+    });
+  }
+
+  /**
+   * POST /api/v1/policies/dry-run - Show which policies would fire
+   */
+  async dryRun(req: Request, res: Response): Promise<void> {
+    try {
+      const result = this.policyEngineClient.dryRun(req.body);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Policy dry run failed');
+    }
+  }
+
+  /**
+   * GET /api/v1/policies/bundles - Bundle versions stored in the database
+   */
+  async listBundles(_req: Request, res: Response): Promise<void> {
+    try {
+      const bundles = await this.policyBundles.listVersions();
+
+      res.status(200).json({
+        success: true,
+        data: bundles,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to list policy bundles');
+    }
+  }
+
+  /**
+   * POST /api/v1/policies/bundles - Publish and activate a new bundle version
+   */
+  async publishBundle(req: Request, res: Response): Promise<void> {
+    try {
+      logger.info('Publish policy bundle request', {
+        userId: req.user?.id,
+        bundleId: req.body?.id,
+        version: req.body?.version,
+      });
+
+      const bundle = await this.policyBundles.publish(req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: bundle,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to publish policy bundle');
+    }
+  }
+
+  /**
+   * POST /api/v1/policies/reload - Reload the bundle from its source now
+   */
+  async reload(req: Request, res: Response): Promise<void> {
+    try {
+      logger.info('Policy bundle reload request', { userId: req.user?.id });
+
+      const changed = await this.policyBundles.reload();
+
+      res.status(200).json({
+        success: true,
+        data: this.policyBundles.describe(),
+        message: changed ? 'Policy bundle reloaded' : 'Policy bundle is unchanged',
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to reload policy bundle');
+    }
+  }
+
+  private sendError(res: Response, error: unknown, message: string): void {
+    logger.error(message, { error });
+
+    const statusCode = (error as Error).message.includes('not found') ? 404 :
+                      (error as Error).message.includes('Unauthorized') ? 403 :
+                      (error as Error).message.startsWith('Invalid') ? 400 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message,
+      message: (error as Error).message,
+    });
+  }
+}
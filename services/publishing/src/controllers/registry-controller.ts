@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { RegistryReconciler, getRegistryReconciler } from '../services/registry-reconciler';
+import { logger } from '../utils/logger';
+
+/**
+ * Controller for registry reconciliation endpoints
+ */
+export class RegistryController {
+  private registryReconciler: RegistryReconciler;
+
+  constructor() {
+    this.registryReconciler = getRegistryReconciler();
+  }
+
+  /**
+   * GET /api/v1/registry/drift - Drift found by the latest reconciliation
+   */
+  async getDriftReport(_req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.registryReconciler.getLatestReport();
+
+      if (!report) {
+        throw new Error('Reconciliation report not found; no reconciliation has run yet');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to get drift report');
+    }
+  }
+
+  /**
+   * POST /api/v1/registry/reconcile - Reconcile now
+   */
+  async reconcile(req: Request, res: Response): Promise<void> {
+    try {
+      const dryRun = req.body?.dryRun === true;
+
+      logger.info('Registry reconciliation request', {
+        userId: req.user?.id,
+        dryRun,
+      });
+
+      const report = await this.registryReconciler.reconcile({ dryRun });
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Registry reconciliation failed');
+    }
+  }
+
+  private sendError(res: Response, error: unknown, message: string): void {
+    logger.error(message, { error });
+
+    const statusCode = (error as Error).message.includes('not found') ? 404 :
+                      (error as Error).message.includes('Unauthorized') ? 403 :
+                      (error as Error).message.startsWith('Invalid') ? 400 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message,
+      message: (error as Error).message,
+    });
+  }
+}
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
 import { PublishingService } from '../services/publishing-service';
-import { Service } from '../types';
+import { BreakingChangeError } from '../validators/openapi-diff';
+import { Service, ServiceStatus, ImportFormat } from '../types';
 import { logger } from '../utils/logger';
+import { setDeprecationHeaders } from '../utils/deprecation-headers';
 
 /**
  * Controller for service publishing endpoints
@@ -58,6 +60,320 @@ export class ServiceController {
     }
   }
 
+  /**
+   * POST /api/v1/services/import - Build a draft service from an API document
+   */
+  async importService(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = req.user?.id;
+      const { format, document, service } = req.body;
+
+      if (!providerId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized: Provider ID not found',
+        });
+        return;
+      }
+
+      if (!Object.values(ImportFormat).includes(format)) {
+        res.status(400).json({
+          success: false,
+          error: `Format must be one of: ${Object.values(ImportFormat).join(', ')}`,
+        });
+        return;
+      }
+
+      if (!document) {
+        res.status(400).json({
+          success: false,
+          error: 'Document is required',
+        });
+        return;
+      }
+
+      logger.info('Import service request', {
+        providerId,
+        format,
+      });
+
+      const result = await this.publishingService.importService(
+        providerId,
+        format,
+        document,
+        service
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Import service error', { error });
+
+      const statusCode = (error as Error).message.startsWith('Invalid') ? 400 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to import service',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/services/drafts - Start a draft for a new service
+   */
+  async createDraft(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = req.user?.id;
+      const spec: Partial<Service> = req.body ?? {};
+
+      if (!providerId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized: Provider ID not found',
+        });
+        return;
+      }
+
+      if (typeof spec !== 'object' || Array.isArray(spec)) {
+        res.status(400).json({
+          success: false,
+          error: 'Draft must be a JSON object',
+        });
+        return;
+      }
+
+      const draft = await this.publishingService.createDraft(providerId, spec);
+
+      res.status(201).json({
+        success: true,
+        data: draft,
+      });
+    } catch (error) {
+      logger.error('Create draft error', { error });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create draft',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * PUT /api/v1/services/:id/draft - Autosave a draft
+   */
+  async saveDraft(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = req.user?.id;
+      const serviceId = req.params.id;
+      const spec: Partial<Service> = req.body;
+
+      if (!providerId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized: Provider ID not found',
+        });
+        return;
+      }
+
+      if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+        res.status(400).json({
+          success: false,
+          error: 'Draft must be a JSON object',
+        });
+        return;
+      }
+
+      const draft = await this.publishingService.saveDraft(serviceId, providerId, spec);
+
+      res.status(200).json({
+        success: true,
+        data: draft,
+      });
+    } catch (error) {
+      logger.error('Save draft error', { error });
+
+      const statusCode = (error as Error).message.includes('not found') ? 404 :
+                        (error as Error).message.includes('Unauthorized') ? 403 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to save draft',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/services/:id/draft - Get a draft with its validation result
+   */
+  async getDraft(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = req.user?.id;
+      const serviceId = req.params.id;
+
+      if (!providerId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized: Provider ID not found',
+        });
+        return;
+      }
+
+      const draft = await this.publishingService.getDraft(serviceId, providerId);
+
+      res.status(200).json({
+        success: true,
+        data: draft,
+      });
+    } catch (error) {
+      logger.error('Get draft error', { error });
+
+      const statusCode = (error as Error).message.includes('not found') ? 404 :
+                        (error as Error).message.includes('Unauthorized') ? 403 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to get draft',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/services/:id/draft/diff - Draft changes against the published version
+   */
+  async getDraftDiff(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = req.user?.id;
+      const serviceId = req.params.id;
+
+      if (!providerId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized: Provider ID not found',
+        });
+        return;
+      }
+
+      const diff = await this.publishingService.getDraftDiff(serviceId, providerId);
+
+      res.status(200).json({
+        success: true,
+        data: diff,
+      });
+    } catch (error) {
+      logger.error('Get draft diff error', { error });
+
+      const statusCode = (error as Error).message.includes('not found') ? 404 :
+                        (error as Error).message.includes('Unauthorized') ? 403 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to diff draft',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/services/:id/draft/submit - Submit a draft for review
+   */
+  async submitDraft(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = req.user?.id;
+      const serviceId = req.params.id;
+
+      if (!providerId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized: Provider ID not found',
+        });
+        return;
+      }
+
+      logger.info('Submit draft request', {
+        serviceId,
+        providerId,
+      });
+
+      const result = await this.publishingService.submitDraft(serviceId, providerId);
+
+      if (result.status !== ServiceStatus.PENDING_APPROVAL && result.status !== ServiceStatus.ACTIVE) {
+        res.status(422).json({
+          success: false,
+          error: 'Draft is not ready for review',
+          message: result.message,
+          data: result.validation,
+        });
+        return;
+      }
+
+      res.status(202).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Submit draft error', { error });
+
+      if (error instanceof BreakingChangeError) {
+        res.status(422).json({
+          success: false,
+          error: 'Breaking API changes require a major version bump',
+          message: error.message,
+          data: error.report,
+        });
+        return;
+      }
+
+      const statusCode = (error as Error).message.includes('not found') ? 404 :
+                        (error as Error).message.includes('Unauthorized') ? 403 :
+                        (error as Error).message.startsWith('Invalid') ? 400 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to submit draft',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/services/:id/draft - Discard a draft
+   */
+  async discardDraft(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = req.user?.id;
+      const serviceId = req.params.id;
+
+      if (!providerId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized: Provider ID not found',
+        });
+        return;
+      }
+
+      await this.publishingService.discardDraft(serviceId, providerId);
+
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Discard draft error', { error });
+
+      const statusCode = (error as Error).message.includes('not found') ? 404 :
+                        (error as Error).message.includes('Unauthorized') ? 403 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to discard draft',
+        message: (error as Error).message,
+      });
+    }
+  }
+
   /**
    * PUT /api/v1/services/:id - Update service
    */
@@ -93,6 +409,16 @@ export class ServiceController {
     } catch (error) {
       logger.error('Update service error', { error });
 
+      if (error instanceof BreakingChangeError) {
+        res.status(422).json({
+          success: false,
+          error: 'Breaking API changes require a major version bump',
+          message: error.message,
+          data: error.report,
+        });
+        return;
+      }
+
       const statusCode = (error as Error).message.includes('not found') ? 404 :
                         (error as Error).message.includes('Unauthorized') ? 403 : 500;
 
@@ -149,6 +475,16 @@ export class ServiceController {
     } catch (error) {
       logger.error('Create version error', { error });
 
+      if (error instanceof BreakingChangeError) {
+        res.status(422).json({
+          success: false,
+          error: 'Breaking API changes require a major version bump',
+          message: error.message,
+          data: error.report,
+        });
+        return;
+      }
+
       const statusCode = (error as Error).message.includes('not found') ? 404 :
                         (error as Error).message.includes('Unauthorized') ? 403 : 500;
 
@@ -167,7 +503,7 @@ export class ServiceController {
     try {
       const providerId = req.user?.id;
       const serviceId = req.params.id;
-      const { reason } = req.body;
+      const { reason, successorServiceId, gracePeriodDays } = req.body;
 
       if (!providerId) {
         res.status(401).json({
@@ -181,13 +517,16 @@ export class ServiceController {
         serviceId,
         providerId,
         reason,
+        successorServiceId,
       });
 
-      const result = await this.publishingService.deprecateService(
-        serviceId,
-        providerId,
-        reason
-      );
+      const result = await this.publishingService.deprecateService(serviceId, providerId, {
+        reason,
+        successorServiceId,
+        gracePeriodDays,
+      });
+
+      setDeprecationHeaders(res, result.deprecation, req.baseUrl);
 
       res.status(200).json({
         success: true,
@@ -197,7 +536,8 @@ export class ServiceController {
       logger.error('Deprecate service error', { error });
 
       const statusCode = (error as Error).message.includes('not found') ? 404 :
-                        (error as Error).message.includes('Unauthorized') ? 403 : 500;
+                        (error as Error).message.includes('Unauthorized') ? 403 :
+                        (error as Error).message.startsWith('Invalid') ? 400 : 500;
 
       res.status(statusCode).json({
         success: false,
@@ -228,6 +568,10 @@ export class ServiceController {
         return;
       }
 
+      if (service.deprecation) {
+        setDeprecationHeaders(res, service.deprecation, req.baseUrl);
+      }
+
       res.status(200).json({
         success: true,
         data: service,
@@ -256,6 +600,10 @@ export class ServiceController {
 
       const status = await this.publishingService.getPublishingStatus(serviceId);
 
+      if (status.deprecation) {
+        setDeprecationHeaders(res, status.deprecation, req.baseUrl);
+      }
+
       res.status(200).json({
         success: true,
         data: status,
@@ -272,4 +620,167 @@ export class ServiceController {
       });
     }
   }
+
+  /**
+   * GET /api/v1/services/:id/publishing-status - Step-by-step publishing history
+   */
+  async getPublishingHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const serviceId = req.params.id;
+
+      logger.info('Get publishing history request', {
+        serviceId,
+      });
+
+      const history = await this.publishingService.getPublishingHistory(serviceId);
+
+      res.status(200).json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      logger.error('Get publishing history error', { error });
+
+      const statusCode = (error as Error).message.includes('not found') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to get publishing history',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/services/:id/tests/run - Run the service's test suite on demand
+   */
+  async runServiceTests(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = req.user?.id;
+      const serviceId = req.params.id;
+
+      if (!providerId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized: Provider ID not found',
+        });
+        return;
+      }
+
+      logger.info('Run service tests request', {
+        serviceId,
+        providerId,
+      });
+
+      const run = await this.publishingService.runServiceTests(serviceId, providerId);
+
+      res.status(200).json({
+        success: true,
+        data: run,
+      });
+    } catch (error) {
+      logger.error('Run service tests error', { error });
+
+      const statusCode = (error as Error).message.includes('not found') ? 404 :
+                        (error as Error).message.includes('Unauthorized') ? 403 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to run service tests',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/services/:id/tests/runs - History of test runs
+   */
+  async getTestRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const serviceId = req.params.id;
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 20, 100);
+
+      logger.info('Get test runs request', {
+        serviceId,
+        limit,
+      });
+
+      const runs = await this.publishingService.getTestRuns(serviceId, limit);
+
+      res.status(200).json({
+        success: true,
+        data: runs,
+      });
+    } catch (error) {
+      logger.error('Get test runs error', { error });
+
+      const statusCode = (error as Error).message.includes('not found') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to get test runs',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/services/:id/health - Rolling SLA compliance and recent health checks
+   */
+  async getServiceHealth(req: Request, res: Response): Promise<void> {
+    try {
+      const serviceId = req.params.id;
+
+      logger.info('Get service health request', {
+        serviceId,
+      });
+
+      const health = await this.publishingService.getServiceHealth(serviceId);
+
+      res.status(200).json({
+        success: true,
+        data: health,
+      });
+    } catch (error) {
+      logger.error('Get service health error', { error });
+
+      const statusCode = (error as Error).message.includes('not found') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to get service health',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/services/:id/api-diff - OpenAPI changes since the previous version
+   */
+  async getApiDiff(req: Request, res: Response): Promise<void> {
+    try {
+      const serviceId = req.params.id;
+
+      logger.info('Get API diff request', {
+        serviceId,
+      });
+
+      const report = await this.publishingService.getApiDiff(serviceId);
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      logger.error('Get API diff error', { error });
+
+      const statusCode = (error as Error).message.includes('not found') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: 'Failed to get API diff',
+        message: (error as Error).message,
+      });
+    }
+  }
 }
@@ -6,17 +6,70 @@
 import { Request, Response } from 'express';
 import * as serviceRepository from '../repositories/service.repository';
 import { asyncHandler } from '../middleware/error.middleware';
-import { logAudit } from '../common/logger';
+import { logger, logAudit } from '../common/logger';
 import {
   createServiceSchema,
   updateServiceSchema,
+  deprecateServiceSchema,
   toServiceDTO,
   ServiceStatus,
   ServiceCategory,
   isValidStatusTransition,
+  Service,
 } from '../models/service.model';
-import { ValidationError, NotFoundError, AuthorizationError } from '../common/errors';
-import { UserRole } from '../models/user.model';
+import { ValidationError, NotFoundError, PreconditionFailedError, ConflictError } from '../common/errors';
+import { TeamRole } from '../models/team.model';
+import * as teamService from '../services/team.service';
+import { parseIfMatch, revisionETag } from '../utils/etag';
+import { DeprecationNotice, deprecationMetadata, setDeprecationHeaders } from '../utils/deprecation-headers';
+import { config } from '../config';
+import { DeprecationWorkflow } from '../workflows/publishing-workflow';
+
+const deprecationWorkflow = new DeprecationWorkflow();
+
+/**
+ * Revisions the request's If-Match accepts. Fails fast when the service has
+ * already moved on; the repository repeats the check atomically.
+ */
+function ifMatchRevisions(req: Request, service: Service): number[] | undefined {
+  const revisions = parseIfMatch(req.get('If-Match'));
+
+  if (revisions && !revisions.includes(service.metadata.revision)) {
+    throw new PreconditionFailedError(
+      `Service ${service.id} has been modified since it was read; fetch it again and retry`,
+      { currentRevision: service.metadata.revision }
+    );
+  }
+
+  return revisions;
+}
+
+/**
+ * The deprecation a service advertises, if it is deprecated
+ */
+function deprecationNotice(service: Service): DeprecationNotice | null {
+  const { deprecatedAt, sunsetAt, successorServiceId } = service.metadata;
+
+  if (service.status !== ServiceStatus.DEPRECATED || !deprecatedAt) {
+    return null;
+  }
+
+  return { deprecatedAt, sunsetAt, successorServiceId };
+}
+
+/**
+ * Service DTO for collection responses. A response can only carry one set of
+ * headers, so each deprecated service carries its Deprecation, Sunset and
+ * Link values inline.
+ */
+function toListedServiceDTO(req: Request, service: Service) {
+  const notice = deprecationNotice(service);
+
+  return {
+    ...toServiceDTO(service),
+    deprecation: notice ? deprecationMetadata(notice, req.baseUrl) : undefined,
+  };
+}
 
 /**
  * POST /services
@@ -28,14 +81,22 @@ export const createService = asyncHandler(async (req: Request, res: Response) =>
   // Validate input
   const validated = createServiceSchema.parse(req.body);
 
+  // Publishing into a team requires maintainer role or higher in it
+  if (validated.ownerTeamId) {
+    await teamService.getExistingTeam(validated.ownerTeamId);
+    await teamService.assertTeamRole(req.user!, validated.ownerTeamId, TeamRole.MAINTAINER);
+  }
+
   // Create service
   const service = await serviceRepository.create(providerId, validated);
 
   logAudit('service_created', providerId, 'service', service.id, {
     name: service.name,
     version: service.version,
+    ownerTeamId: validated.ownerTeamId,
   });
 
+  res.set('ETag', revisionETag(service.metadata.revision));
   res.status(201).json({
     success: true,
     data: { service: toServiceDTO(service) },
@@ -56,6 +117,12 @@ export const getService = asyncHandler(async (req: Request, res: Response) => {
     throw new NotFoundError('Service', serviceId);
   }
 
+  const notice = deprecationNotice(service);
+  if (notice) {
+    setDeprecationHeaders(res, notice, req.baseUrl);
+  }
+
+  res.set('ETag', revisionETag(service.metadata.revision));
   res.status(200).json({
     success: true,
     data: { service: toServiceDTO(service) },
@@ -64,7 +131,7 @@ export const getService = asyncHandler(async (req: Request, res: Response) => {
 
 /**
  * GET /services
- * Search/list services
+ * Search/list services with relevance ranking and facet counts
  */
 export const listServices = asyncHandler(async (req: Request, res: Response) => {
   const {
@@ -73,6 +140,7 @@ export const listServices = asyncHandler(async (req: Request, res: Response) =>
     tags,
     status,
     providerId,
+    ownerTeamId,
     complianceLevel,
     minAvailability,
     maxLatency,
@@ -89,6 +157,7 @@ export const listServices = asyncHandler(async (req: Request, res: Response) =>
     tags: tags ? (Array.isArray(tags) ? tags : [tags]) as string[] : undefined,
     status: status as ServiceStatus,
     providerId: providerId as string,
+    ownerTeamId: ownerTeamId as string,
     complianceLevel: complianceLevel as any,
     minAvailability: minAvailability ? parseFloat(minAvailability as string) : undefined,
     maxLatency: maxLatency ? parseInt(maxLatency as string, 10) : undefined,
@@ -104,8 +173,13 @@ export const listServices = asyncHandler(async (req: Request, res: Response) =>
   res.status(200).json({
     success: true,
     data: {
-      services: result.services.map(toServiceDTO),
+      // `match` (rank and highlighted snippet) is present only for text queries
+      services: result.services.map((service) => ({
+        ...toListedServiceDTO(req, service),
+        match: result.matches[service.id],
+      })),
       total: result.total,
+      facets: result.facets,
       limit: searchParams.limit || 20,
       offset: searchParams.offset || 0,
     },
@@ -119,7 +193,6 @@ export const listServices = asyncHandler(async (req: Request, res: Response) =>
 export const updateService = asyncHandler(async (req: Request, res: Response) => {
   const serviceId = req.params.id;
   const userId = req.user!.id;
-  const userRole = req.user!.role;
 
   // Get existing service
   const existingService = await serviceRepository.findById(serviceId);
@@ -128,16 +201,18 @@ export const updateService = asyncHandler(async (req: Request, res: Response) =>
     throw new NotFoundError('Service', serviceId);
   }
 
-  // Check ownership (unless admin)
-  if (userRole !== UserRole.ADMIN && existingService.provider.id !== userId) {
-    throw new AuthorizationError('You can only update your own services');
-  }
+  // Check ownership (owner, team maintainer or admin)
+  await teamService.assertServiceAccess(req.user!, existingService, 'update');
 
   // Validate input
   const validated = updateServiceSchema.parse(req.body);
 
   // Validate status transition if status is being updated
   if (validated.status && validated.status !== existingService.status) {
+    if (validated.status === ServiceStatus.DEPRECATED) {
+      throw new ValidationError('Deprecate a service through PUT /services/:id/deprecate, which sets its successor and sunset');
+    }
+
     if (!isValidStatusTransition(existingService.status, validated.status)) {
       throw new ValidationError(
         `Invalid status transition from ${existingService.status} to ${validated.status}`
@@ -145,13 +220,16 @@ export const updateService = asyncHandler(async (req: Request, res: Response) =>
     }
   }
 
-  // Update service
-  const service = await serviceRepository.update(serviceId, validated);
+  // Update service, unless it changed since the client read it
+  const service = await serviceRepository.update(serviceId, validated, {
+    ifRevision: ifMatchRevisions(req, existingService),
+  });
 
   logAudit('service_updated', userId, 'service', serviceId, {
     changes: Object.keys(validated),
   });
 
+  res.set('ETag', revisionETag(service.metadata.revision));
   res.status(200).json({
     success: true,
     data: { service: toServiceDTO(service) },
@@ -166,7 +244,6 @@ export const updateService = asyncHandler(async (req: Request, res: Response) =>
 export const deleteService = asyncHandler(async (req: Request, res: Response) => {
   const serviceId = req.params.id;
   const userId = req.user!.id;
-  const userRole = req.user!.role;
 
   // Get existing service
   const existingService = await serviceRepository.findById(serviceId);
@@ -175,10 +252,8 @@ export const deleteService = asyncHandler(async (req: Request, res: Response) =>
     throw new NotFoundError('Service', serviceId);
   }
 
-  // Check ownership (unless admin)
-  if (userRole !== UserRole.ADMIN && existingService.provider.id !== userId) {
-    throw new AuthorizationError('You can only delete your own services');
-  }
+  // Check ownership (owner, team owner or admin)
+  await teamService.assertServiceAccess(req.user!, existingService, 'delete');
 
   // Delete service
   await serviceRepository.deleteService(serviceId);
@@ -203,7 +278,7 @@ export const getServiceVersions = asyncHandler(async (req: Request, res: Respons
   res.status(200).json({
     success: true,
     data: {
-      versions: versions.map(toServiceDTO),
+      versions: versions.map((version) => toListedServiceDTO(req, version)),
       count: versions.length,
     },
   });
@@ -224,17 +299,17 @@ export const getStatistics = asyncHandler(async (_req: Request, res: Response) =
 
 /**
  * GET /my-services
- * Get services for current user
+ * Get services for current user, including those owned by their teams
  */
 export const getMyServices = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
 
-  const services = await serviceRepository.findByProviderId(userId);
+  const services = await serviceRepository.findAccessibleByUser(userId);
 
   res.status(200).json({
     success: true,
     data: {
-      services: services.map(toServiceDTO),
+      services: services.map((service) => toListedServiceDTO(req, service)),
       count: services.length,
     },
   });
@@ -255,13 +330,18 @@ export const publishService = asyncHandler(async (req: Request, res: Response) =
     throw new NotFoundError('Service', serviceId);
   }
 
+  await teamService.assertServiceAccess(req.user!, existingService, 'publish');
+
   // Update status to active
-  const service = await serviceRepository.update(serviceId, {
-    status: ServiceStatus.ACTIVE,
-  });
+  const service = await serviceRepository.update(
+    serviceId,
+    { status: ServiceStatus.ACTIVE },
+    { ifRevision: ifMatchRevisions(req, existingService) }
+  );
 
   logAudit('service_published', userId, 'service', serviceId);
 
+  res.set('ETag', revisionETag(service.metadata.revision));
   res.status(200).json({
     success: true,
     data: { service: toServiceDTO(service) },
@@ -277,12 +357,60 @@ export const deprecateService = asyncHandler(async (req: Request, res: Response)
   const serviceId = req.params.id;
   const userId = req.user!.id;
 
-  const service = await serviceRepository.update(serviceId, {
-    status: ServiceStatus.DEPRECATED,
+  const existingService = await serviceRepository.findById(serviceId);
+
+  if (!existingService) {
+    throw new NotFoundError('Service', serviceId);
+  }
+
+  await teamService.assertServiceAccess(req.user!, existingService, 'update');
+
+  const validated = deprecateServiceSchema.parse(req.body ?? {});
+
+  if (existingService.status === ServiceStatus.DEPRECATED || existingService.status === ServiceStatus.RETIRED) {
+    throw new ConflictError(`Service is already ${existingService.status}`);
+  }
+
+  if (validated.successorServiceId === serviceId) {
+    throw new ValidationError('A service cannot be its own successor');
+  }
+
+  const successor = await serviceRepository.findById(validated.successorServiceId);
+  if (!successor || successor.status !== ServiceStatus.ACTIVE) {
+    throw new ValidationError('Successor service must exist and be active');
+  }
+
+  // Recorded in the same schedule as deprecations through the publishing
+  // API, so the DeprecationScheduler notifies consumers and retires it
+  const gracePeriodDays = validated.gracePeriodDays ?? config.deprecation.gracePeriodDays;
+  const { service, deprecation } = await serviceRepository.deprecate(
+    existingService,
+    {
+      reason: validated.reason,
+      successorServiceId: successor.id,
+      successorVersion: successor.version,
+      sunsetAt: new Date(Date.now() + gracePeriodDays * 24 * 60 * 60 * 1000),
+    },
+    { ifRevision: ifMatchRevisions(req, existingService) }
+  );
+
+  logAudit('service_deprecated', userId, 'service', serviceId, {
+    reason: validated.reason,
+    successorServiceId: successor.id,
+    sunsetAt: deprecation.sunsetAt,
   });
 
-  logAudit('service_deprecated', userId, 'service', serviceId);
+  // The deprecation is recorded; consumers this misses are notified by the scheduler
+  await deprecationWorkflow.announce(deprecation).catch((error) => {
+    logger.error('Failed to announce service deprecation', { serviceId, error });
+  });
+
+  const notice = deprecationNotice(service);
+  if (notice) {
+    setDeprecationHeaders(res, notice, req.baseUrl);
+  }
 
+  res.set('ETag', revisionETag(service.metadata.revision));
   res.status(200).json({
     success: true,
     data: { service: toServiceDTO(service) },
@@ -0,0 +1,99 @@
+/**
+ * SSO Controller
+ * Handles OIDC single sign-on HTTP requests
+ */
+
+import { Request, Response } from 'express';
+import * as ssoService from '../services/sso.service';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * GET /auth/sso/:tenantId/login
+ * Redirect to the tenant's identity provider. API clients that ask for JSON
+ * receive the authorization URL instead.
+ */
+export const startLogin = asyncHandler(async (req: Request, res: Response) => {
+  const authorizationUrl = await ssoService.startLogin(req.params.tenantId);
+
+  if (req.accepts(['html', 'json']) === 'json') {
+    res.status(200).json({
+      success: true,
+      data: { authorizationUrl },
+    });
+    return;
+  }
+
+  res.redirect(302, authorizationUrl);
+});
+
+/**
+ * GET /auth/sso/:tenantId/callback
+ * Complete the login after the identity provider redirects back
+ */
+export const callback = asyncHandler(async (req: Request, res: Response) => {
+  const result = await ssoService.completeLogin(
+    req.params.tenantId,
+    req.query as Record<string, unknown>,
+    req.ip,
+    req.get('user-agent')
+  );
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    message: 'Login successful',
+  });
+});
+
+/**
+ * GET /auth/sso/connections
+ * List SSO connections (admin)
+ */
+export const listConnections = asyncHandler(async (_req: Request, res: Response) => {
+  const connections = await ssoService.listConnections();
+
+  res.status(200).json({
+    success: true,
+    data: { connections },
+  });
+});
+
+/**
+ * GET /auth/sso/connections/:tenantId
+ * Get a tenant's SSO connection (admin)
+ */
+export const getConnection = asyncHandler(async (req: Request, res: Response) => {
+  const connection = await ssoService.getConnection(req.params.tenantId);
+
+  res.status(200).json({
+    success: true,
+    data: { connection },
+  });
+});
+
+/**
+ * PUT /auth/sso/connections/:tenantId
+ * Create or replace a tenant's SSO connection (admin)
+ */
+export const saveConnection = asyncHandler(async (req: Request, res: Response) => {
+  const connection = await ssoService.saveConnection(req.user!.id, req.params.tenantId, req.body);
+
+  res.status(200).json({
+    success: true,
+    data: { connection },
+    message: 'SSO connection saved successfully',
+  });
+});
+
+/**
+ * DELETE /auth/sso/connections/:tenantId
+ * Remove a tenant's SSO connection (admin)
+ */
+export const deleteConnection = asyncHandler(async (req: Request, res: Response) => {
+  await ssoService.deleteConnection(req.user!.id, req.params.tenantId);
+
+  res.status(200).json({
+    success: true,
+    message: 'SSO connection deleted successfully',
+  });
+});
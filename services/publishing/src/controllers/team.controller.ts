@@ -0,0 +1,124 @@
+/**
+ * Team Controller
+ * Handles team and membership HTTP requests
+ */
+
+import { Request, Response } from 'express';
+import * as teamService from '../services/team.service';
+import * as serviceRepository from '../repositories/service.repository';
+import { asyncHandler } from '../middleware/error.middleware';
+import { TeamRole } from '../models/team.model';
+import { toServiceDTO } from '../models/service.model';
+
+/**
+ * POST /teams
+ * Create a team
+ */
+export const createTeam = asyncHandler(async (req: Request, res: Response) => {
+  const team = await teamService.createTeam(req.user!, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: { team },
+    message: 'Team created successfully',
+  });
+});
+
+/**
+ * GET /teams
+ * List the current user's teams
+ */
+export const listTeams = asyncHandler(async (req: Request, res: Response) => {
+  const teams = await teamService.listTeams(req.user!);
+
+  res.status(200).json({
+    success: true,
+    data: { teams, count: teams.length },
+  });
+});
+
+/**
+ * GET /teams/:id
+ * Get a team with its members
+ */
+export const getTeam = asyncHandler(async (req: Request, res: Response) => {
+  const team = await teamService.getTeam(req.user!, req.params.id);
+
+  res.status(200).json({
+    success: true,
+    data: { team },
+  });
+});
+
+/**
+ * PUT /teams/:id
+ * Update a team
+ */
+export const updateTeam = asyncHandler(async (req: Request, res: Response) => {
+  const team = await teamService.updateTeam(req.user!, req.params.id, req.body);
+
+  res.status(200).json({
+    success: true,
+    data: { team },
+    message: 'Team updated successfully',
+  });
+});
+
+/**
+ * DELETE /teams/:id
+ * Delete a team that no longer owns services
+ */
+export const deleteTeam = asyncHandler(async (req: Request, res: Response) => {
+  await teamService.deleteTeam(req.user!, req.params.id);
+
+  res.status(200).json({
+    success: true,
+    message: 'Team deleted successfully',
+  });
+});
+
+/**
+ * PUT /teams/:id/members/:userId
+ * Add a member or change their role
+ */
+export const setMember = asyncHandler(async (req: Request, res: Response) => {
+  const members = await teamService.setMember(req.user!, req.params.id, req.params.userId, req.body);
+
+  res.status(200).json({
+    success: true,
+    data: { members },
+    message: 'Team member saved',
+  });
+});
+
+/**
+ * DELETE /teams/:id/members/:userId
+ * Remove a member, or leave the team
+ */
+export const removeMember = asyncHandler(async (req: Request, res: Response) => {
+  await teamService.removeMember(req.user!, req.params.id, req.params.userId);
+
+  res.status(200).json({
+    success: true,
+    message: 'Team member removed',
+  });
+});
+
+/**
+ * GET /teams/:id/services
+ * List services owned by a team
+ */
+export const listTeamServices = asyncHandler(async (req: Request, res: Response) => {
+  await teamService.getExistingTeam(req.params.id);
+  await teamService.assertTeamRole(req.user!, req.params.id, TeamRole.VIEWER);
+
+  const services = await serviceRepository.findByOwnerTeamId(req.params.id);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      services: services.map(toServiceDTO),
+      count: services.length,
+    },
+  });
+});
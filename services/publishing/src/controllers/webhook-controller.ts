@@ -0,0 +1,226 @@
+import { Request, Response } from 'express';
+import { WebhookService } from '../services/webhook-service';
+import { logger } from '../utils/logger';
+
+/**
+ * Controller for webhook subscription endpoints
+ */
+export class WebhookController {
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+  }
+
+  /**
+   * POST /api/v1/webhooks - Register a webhook
+   */
+  async createWebhook(req: Request, res: Response): Promise<void> {
+    const providerId = this.requireProvider(req, res);
+    if (!providerId) {
+      return;
+    }
+
+    try {
+      logger.info('Create webhook request', { providerId, url: req.body?.url });
+
+      const webhook = await this.webhookService.createWebhook(providerId, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: webhook,
+        message: 'Store the signing secret now; it will not be shown again',
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to create webhook');
+    }
+  }
+
+  /**
+   * GET /api/v1/webhooks - List the caller's webhooks
+   */
+  async listWebhooks(req: Request, res: Response): Promise<void> {
+    const providerId = this.requireProvider(req, res);
+    if (!providerId) {
+      return;
+    }
+
+    try {
+      const webhooks = await this.webhookService.listWebhooks(providerId);
+
+      res.status(200).json({
+        success: true,
+        data: webhooks,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to list webhooks');
+    }
+  }
+
+  /**
+   * GET /api/v1/webhooks/:id - Get a webhook
+   */
+  async getWebhook(req: Request, res: Response): Promise<void> {
+    const providerId = this.requireProvider(req, res);
+    if (!providerId) {
+      return;
+    }
+
+    try {
+      const webhook = await this.webhookService.getWebhook(req.params.id, providerId);
+
+      res.status(200).json({
+        success: true,
+        data: webhook,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to get webhook');
+    }
+  }
+
+  /**
+   * PUT /api/v1/webhooks/:id - Change a webhook's URL, events or state
+   */
+  async updateWebhook(req: Request, res: Response): Promise<void> {
+    const providerId = this.requireProvider(req, res);
+    if (!providerId) {
+      return;
+    }
+
+    try {
+      logger.info('Update webhook request', { webhookId: req.params.id, providerId });
+
+      const webhook = await this.webhookService.updateWebhook(req.params.id, providerId, req.body);
+
+      res.status(200).json({
+        success: true,
+        data: webhook,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to update webhook');
+    }
+  }
+
+  /**
+   * DELETE /api/v1/webhooks/:id - Remove a webhook and its delivery log
+   */
+  async deleteWebhook(req: Request, res: Response): Promise<void> {
+    const providerId = this.requireProvider(req, res);
+    if (!providerId) {
+      return;
+    }
+
+    try {
+      await this.webhookService.deleteWebhook(req.params.id, providerId);
+
+      res.status(204).send();
+    } catch (error) {
+      this.sendError(res, error, 'Failed to delete webhook');
+    }
+  }
+
+  /**
+   * POST /api/v1/webhooks/:id/ping - Send a test event
+   */
+  async pingWebhook(req: Request, res: Response): Promise<void> {
+    const providerId = this.requireProvider(req, res);
+    if (!providerId) {
+      return;
+    }
+
+    try {
+      logger.info('Ping webhook request', { webhookId: req.params.id, providerId });
+
+      const delivery = await this.webhookService.pingWebhook(req.params.id, providerId);
+
+      res.status(200).json({
+        success: true,
+        data: delivery,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to ping webhook');
+    }
+  }
+
+  /**
+   * GET /api/v1/webhooks/:id/deliveries - Delivery log, newest first
+   */
+  async listDeliveries(req: Request, res: Response): Promise<void> {
+    const providerId = this.requireProvider(req, res);
+    if (!providerId) {
+      return;
+    }
+
+    try {
+      const deliveries = await this.webhookService.listDeliveries(req.params.id, providerId, {
+        status: req.query.status as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: deliveries,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to list webhook deliveries');
+    }
+  }
+
+  /**
+   * POST /api/v1/webhooks/:id/deliveries/:deliveryId/replay - Re-send a delivery
+   */
+  async replayDelivery(req: Request, res: Response): Promise<void> {
+    const providerId = this.requireProvider(req, res);
+    if (!providerId) {
+      return;
+    }
+
+    try {
+      logger.info('Replay webhook delivery request', {
+        webhookId: req.params.id,
+        deliveryId: req.params.deliveryId,
+        providerId,
+      });
+
+      const delivery = await this.webhookService.replayDelivery(
+        req.params.id,
+        req.params.deliveryId,
+        providerId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: delivery,
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to replay webhook delivery');
+    }
+  }
+
+  private requireProvider(req: Request, res: Response): string | undefined {
+    const providerId = req.user?.id;
+
+    if (!providerId) {
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized: Provider ID not found',
+      });
+    }
+
+    return providerId;
+  }
+
+  private sendError(res: Response, error: unknown, message: string): void {
+    logger.error(message, { error });
+
+    const statusCode = (error as Error).message.includes('not found') ? 404 :
+                      (error as Error).message.includes('Unauthorized') ? 403 :
+                      (error as Error).message.startsWith('Invalid') ? 400 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message,
+      message: (error as Error).message,
+    });
+  }
+}
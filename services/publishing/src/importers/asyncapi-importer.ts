@@ -0,0 +1,338 @@
+import { ImportedService, ProtocolType, ServiceCapability } from '../types';
+import { resolveLocalRef, sampleFromSchema } from '../utils/json-schema';
+import {
+  asArray,
+  asString,
+  authenticationFromSchemes,
+  capabilityName,
+  dedupeCapabilities,
+  isObject,
+  joinUrl,
+  normalizeVersion,
+} from './import-helpers';
+
+const WEBSOCKET_PROTOCOLS = ['wss', 'ws'];
+
+// AsyncAPI 2.x "subscribe" operations are messages the client receives,
+// "publish" operations are messages the client sends
+const OPERATIONS: Array<{ key: 'subscribe' | 'publish'; action: 'receive' | 'send' }> = [
+  { key: 'publish', action: 'send' },
+  { key: 'subscribe', action: 'receive' },
+];
+
+// Schema formats whose payloads are plain JSON Schema
+const JSON_SCHEMA_FORMAT = /^application\/(schema\+json|vnd\.aai\.asyncapi(\+json)?);?/;
+
+interface ChannelOperation {
+  channel: string;
+  action: 'receive' | 'send';
+  operation: Record<string, unknown>;
+  messages: Array<Record<string, unknown>>;
+}
+
+/**
+ * Converts an AsyncAPI 2.x document describing a WebSocket API into an
+ * OpenAPI 3.1 specification and a draft WebSocket service. Every channel
+ * operation becomes a webhook whose request body is the message payload;
+ * `x-asyncapi-channel` and `x-asyncapi-action` record where it came from.
+ */
+export class AsyncAPIImporter {
+  import(document: Record<string, unknown>): ImportedService {
+    if (typeof document.asyncapi !== 'string' || !/^2\.\d+\.\d+$/.test(document.asyncapi)) {
+      throw new Error('Invalid AsyncAPI document: "asyncapi" must be a 2.x version');
+    }
+    if (!isObject(document.info) || !isObject(document.channels)) {
+      throw new Error('Invalid AsyncAPI document: "info" and "channels" are required');
+    }
+
+    const warnings: string[] = [];
+    const info = document.info;
+    const server = this.selectServer(document, warnings);
+    const operations = this.collectOperations(document, warnings);
+    const schemes = this.componentsOf(document, 'securitySchemes');
+
+    if (operations.length === 0) {
+      warnings.push('Document defines no publish or subscribe operations');
+    }
+
+    return {
+      service: {
+        name: asString(info.title),
+        version: normalizeVersion(info.version, warnings),
+        description: asString(info.description) ?? asString(info.title),
+        capabilities: this.buildCapabilities(operations),
+        endpoint: {
+          url: server?.url ?? '',
+          protocol: ProtocolType.WEBSOCKET,
+          authentication: authenticationFromSchemes(schemes, asArray(server?.definition.security), warnings),
+        },
+        metadata: {
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          tags: asArray(document.tags).filter(isObject).map((tag) => String(tag.name)),
+          documentation: isObject(document.externalDocs) ? asString(document.externalDocs.url) : undefined,
+          exampleUsage: this.buildExampleUsage(document, operations, server?.url ?? 'wss://api.example.com'),
+        },
+        openApiSpec: this.convert(document, operations, server, warnings),
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Pick the first wss (then ws) server and expand it into an absolute URL
+   */
+  private selectServer(
+    document: Record<string, unknown>,
+    warnings: string[]
+  ): { name: string; url: string; definition: Record<string, unknown> } | undefined {
+    const servers = Object.entries(isObject(document.servers) ? document.servers : {})
+      .filter((entry): entry is [string, Record<string, unknown>] => isObject(entry[1]));
+
+    if (servers.length === 0) {
+      warnings.push('Document declares no servers, the endpoint URL must be provided');
+      return undefined;
+    }
+
+    for (const protocol of WEBSOCKET_PROTOCOLS) {
+      const match = servers.find(([, server]) => String(server.protocol).toLowerCase() === protocol);
+      if (match) {
+        const [name, definition] = match;
+        return { name, url: this.serverUrl(definition, protocol), definition };
+      }
+    }
+
+    const protocols = servers.map(([, server]) => String(server.protocol)).join(', ');
+    throw new Error(
+      `Invalid AsyncAPI document: only WebSocket services are supported and no server uses ws or wss (found ${protocols})`
+    );
+  }
+
+  private serverUrl(server: Record<string, unknown>, protocol: string): string {
+    const variables = isObject(server.variables) ? server.variables : {};
+    const url = String(server.url).replace(/\{([^}]+)\}/g, (placeholder, name: string) => {
+      const variable = variables[name];
+      return isObject(variable) && variable.default !== undefined ? String(variable.default) : placeholder;
+    });
+
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `${protocol}://${url}`;
+  }
+
+  private collectOperations(document: Record<string, unknown>, warnings: string[]): ChannelOperation[] {
+    const operations: ChannelOperation[] = [];
+
+    for (const [channel, item] of Object.entries(document.channels as Record<string, unknown>)) {
+      if (!isObject(item)) {
+        continue;
+      }
+
+      for (const { key, action } of OPERATIONS) {
+        const operation = item[key];
+        if (!isObject(operation)) {
+          continue;
+        }
+
+        const message = this.deref(document, operation.message);
+        const candidates = isObject(message) && Array.isArray(message.oneOf) ? message.oneOf : [message];
+        const messages = candidates
+          .map((candidate) => this.deref(document, candidate))
+          .filter(isObject);
+
+        for (const entry of messages) {
+          if (typeof entry.schemaFormat === 'string' && !JSON_SCHEMA_FORMAT.test(entry.schemaFormat)) {
+            warnings.push(
+              `Message '${String(entry.name ?? channel)}' uses schema format ${entry.schemaFormat}, ` +
+                'its payload is not converted'
+            );
+          }
+        }
+
+        operations.push({ channel, action, operation, messages });
+      }
+    }
+
+    return operations;
+  }
+
+  private buildCapabilities(operations: ChannelOperation[]): ServiceCapability[] {
+    return dedupeCapabilities(
+      operations.map(({ channel, action, operation, messages }) => {
+        const operationId = asString(operation.operationId);
+        const description = asString(operation.summary)
+          ?? asString(operation.description)
+          ?? asString(messages[0]?.title)
+          ?? `${action === 'send' ? 'Send' : 'Receive'} messages on ${channel}`;
+
+        return {
+          name: capabilityName(operationId, action, channel),
+          description: description.slice(0, 2000),
+          parameters: {
+            channel,
+            action,
+            ...(operationId ? { operationId } : {}),
+            messages: messages.map((message) => asString(message.name) ?? asString(message.title)).filter(Boolean),
+          },
+        };
+      })
+    );
+  }
+
+  /**
+   * wscat session for the first operation, preferring one the client sends
+   */
+  private buildExampleUsage(
+    document: Record<string, unknown>,
+    operations: ChannelOperation[],
+    url: string
+  ): string | undefined {
+    const chosen = operations.find((operation) => operation.action === 'send') ?? operations[0];
+    const message = chosen?.messages[0];
+    if (!chosen || !message) {
+      return undefined;
+    }
+
+    const example = asArray(message.examples).find(isObject);
+    const payload = example && 'payload' in example
+      ? example.payload
+      : sampleFromSchema(message.payload, (ref) => resolveLocalRef(document, ref));
+    const channelUrl = chosen.channel === '/' ? url : joinUrl(url, chosen.channel);
+
+    return `wscat -c '${channelUrl}'\n${chosen.action === 'send' ? '>' : '<'} ${JSON.stringify(payload)}`;
+  }
+
+  /**
+   * Normalize the document into OpenAPI 3.1 so it can be stored, diffed and
+   * validated alongside HTTP services
+   */
+  private convert(
+    document: Record<string, unknown>,
+    operations: ChannelOperation[],
+    server: { name: string; url: string; definition: Record<string, unknown> } | undefined,
+    warnings: string[]
+  ): Record<string, unknown> {
+    const info = document.info as Record<string, unknown>;
+    const defaultContentType = asString(document.defaultContentType) ?? 'application/json';
+    const webhooks: Record<string, unknown> = {};
+
+    for (const { channel, action, operation, messages } of operations) {
+      const key = asString(operation.operationId) ?? `${action} ${channel}`;
+      const byContentType = new Map<string, unknown[]>();
+
+      for (const message of messages) {
+        const contentType = asString(message.contentType) ?? defaultContentType;
+        const payload = typeof message.schemaFormat === 'string' && !JSON_SCHEMA_FORMAT.test(message.schemaFormat)
+          ? {}
+          : message.payload ?? {};
+        byContentType.set(contentType, [...(byContentType.get(contentType) ?? []), payload]);
+      }
+
+      webhooks[key] = {
+        post: {
+          ...(asString(operation.operationId) ? { operationId: operation.operationId } : {}),
+          ...(asString(operation.summary) ? { summary: operation.summary } : {}),
+          ...(asString(operation.description) ? { description: operation.description } : {}),
+          ...(Array.isArray(operation.tags)
+            ? { tags: operation.tags.filter(isObject).map((tag) => String(tag.name)) }
+            : {}),
+          ...(byContentType.size > 0
+            ? {
+              requestBody: {
+                required: true,
+                content: Object.fromEntries(
+                  [...byContentType.entries()].map(([contentType, payloads]) => [
+                    contentType,
+                    { schema: payloads.length === 1 ? payloads[0] : { oneOf: payloads } },
+                  ])
+                ),
+              },
+            }
+            : {}),
+          responses: { '200': { description: action === 'send' ? 'Message accepted' : 'Message delivered' } },
+          'x-asyncapi-channel': channel,
+          'x-asyncapi-action': action,
+        },
+      };
+    }
+
+    const spec: Record<string, unknown> = {
+      openapi: '3.1.0',
+      info: {
+        title: asString(info.title) ?? 'Imported AsyncAPI document',
+        version: asString(info.version) ?? '1.0.0',
+        ...(asString(info.description) ? { description: info.description } : {}),
+      },
+      ...(server
+        ? {
+          servers: [
+            {
+              url: server.url,
+              ...(asString(server.definition.description) ? { description: server.definition.description } : {}),
+            },
+          ],
+        }
+        : {}),
+      webhooks,
+      components: {
+        schemas: this.componentsOf(document, 'schemas'),
+        securitySchemes: this.convertSecuritySchemes(this.componentsOf(document, 'securitySchemes'), warnings),
+      },
+      'x-asyncapi': document.asyncapi,
+    };
+
+    if (server && Array.isArray(server.definition.security)) {
+      spec.security = server.definition.security;
+    }
+    for (const key of ['tags', 'externalDocs']) {
+      if (document[key] !== undefined) {
+        spec[key] = document[key];
+      }
+    }
+
+    return spec;
+  }
+
+  /**
+   * Map AsyncAPI security schemes onto OpenAPI ones, dropping those with no
+   * OpenAPI equivalent (e.g. X509 or SASL schemes)
+   */
+  private convertSecuritySchemes(schemes: Record<string, unknown>, warnings: string[]): Record<string, unknown> {
+    const converted: Record<string, unknown> = {};
+
+    for (const [name, scheme] of Object.entries(schemes)) {
+      if (!isObject(scheme)) {
+        continue;
+      }
+
+      switch (scheme.type) {
+        case 'httpApiKey':
+          converted[name] = { type: 'apiKey', name: scheme.name, in: scheme.in };
+          break;
+        case 'userPassword':
+          converted[name] = { type: 'http', scheme: 'basic' };
+          break;
+        case 'http':
+        case 'oauth2':
+        case 'openIdConnect':
+          converted[name] = scheme;
+          break;
+        default:
+          warnings.push(`Security scheme '${name}' (${String(scheme.type)}) has no OpenAPI equivalent and was dropped`);
+      }
+    }
+
+    return converted;
+  }
+
+  private componentsOf(document: Record<string, unknown>, section: string): Record<string, unknown> {
+    const components = isObject(document.components) ? document.components : {};
+    return isObject(components[section]) ? components[section] as Record<string, unknown> : {};
+  }
+
+  private deref(document: Record<string, unknown>, value: unknown): unknown {
+    let current = value;
+    for (let depth = 0; isObject(current) && typeof current.$ref === 'string' && depth < 10; depth++) {
+      current = resolveLocalRef(document, current.$ref);
+    }
+    return current;
+  }
+}
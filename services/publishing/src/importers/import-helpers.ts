@@ -0,0 +1,248 @@
+import * as semver from 'semver';
+import { AuthenticationType, ServiceCapability } from '../types';
+import { resolveLocalRef, sampleFromSchema } from '../utils/json-schema';
+
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+export function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value : undefined;
+}
+
+/**
+ * Deep copy of a JSON value with every `$ref` string passed through `rewrite`
+ */
+export function rewriteRefs(value: unknown, rewrite: (ref: string) => string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => rewriteRefs(item, rewrite));
+  }
+
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    copy[key] = key === '$ref' && typeof child === 'string' ? rewrite(child) : rewriteRefs(child, rewrite);
+  }
+  return copy;
+}
+
+/**
+ * Capability name derived from an operation ID or, failing that, the
+ * method and path (e.g. `post-chat-completions`)
+ */
+export function capabilityName(operationId: string | undefined, ...fallback: string[]): string {
+  if (operationId) {
+    return operationId.slice(0, 255);
+  }
+
+  const name = fallback
+    .join(' ')
+    .replace(/[{}:]/g, '')
+    .replace(/[^A-Za-z0-9_.-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+
+  return (name || 'operation').slice(0, 255);
+}
+
+/**
+ * Give later duplicates a numeric suffix so capability names stay unique
+ */
+export function dedupeCapabilities(capabilities: ServiceCapability[]): ServiceCapability[] {
+  const seen = new Map<string, number>();
+
+  return capabilities.map((capability) => {
+    const count = seen.get(capability.name) ?? 0;
+    seen.set(capability.name, count + 1);
+    return count === 0 ? capability : { ...capability, name: `${capability.name}-${count + 1}` };
+  });
+}
+
+/**
+ * Example curl invocation for the service documentation
+ */
+export function buildCurlExample(
+  method: string,
+  url: string,
+  headers: Record<string, string> = {},
+  body?: unknown
+): string {
+  const lines = [`curl -X ${method.toUpperCase()} '${url}'`];
+
+  for (const [name, value] of Object.entries(headers)) {
+    lines.push(`-H '${name}: ${value}'`);
+  }
+
+  if (body !== undefined) {
+    const payload = typeof body === 'string' ? body : JSON.stringify(body);
+    lines.push(`-d '${payload.replace(/'/g, "'\\''")}'`);
+  }
+
+  return lines.join(' \\\n  ');
+}
+
+/**
+ * Join a server URL and a path without doubling or dropping slashes
+ */
+export function joinUrl(base: string, path: string): string {
+  return `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Pick the endpoint authentication type from the security schemes the
+ * document applies, falling back to the first declared scheme
+ */
+export function authenticationFromSchemes(
+  schemes: Record<string, unknown>,
+  requirements: unknown[],
+  warnings: string[]
+): AuthenticationType {
+  const applied = requirements
+    .filter(isObject)
+    .flatMap((requirement) => Object.keys(requirement))
+    .find((name) => isObject(schemes[name]));
+  const name = applied ?? Object.keys(schemes).find((key) => isObject(schemes[key]));
+
+  if (!name) {
+    warnings.push('No security scheme is declared, endpoint authentication defaults to api-key');
+    return AuthenticationType.API_KEY;
+  }
+
+  const scheme = schemes[name] as Record<string, unknown>;
+  const httpScheme = typeof scheme.scheme === 'string' ? scheme.scheme.toLowerCase() : undefined;
+
+  switch (scheme.type) {
+    case 'oauth2':
+    case 'openIdConnect':
+      return AuthenticationType.OAUTH2;
+    case 'apiKey':
+    case 'httpApiKey':
+      return AuthenticationType.API_KEY;
+    case 'http':
+      if (httpScheme === 'bearer') {
+        return AuthenticationType.JWT;
+      }
+      break;
+  }
+
+  warnings.push(
+    `Security scheme '${name}' (${String(scheme.type)}${httpScheme ? ` ${httpScheme}` : ''}) ` +
+      'has no marketplace equivalent, endpoint authentication defaults to api-key'
+  );
+  return AuthenticationType.API_KEY;
+}
+
+/**
+ * One capability per operation of an OpenAPI document
+ */
+export function capabilitiesFromOpenApi(spec: Record<string, unknown>): ServiceCapability[] {
+  const capabilities: ServiceCapability[] = [];
+  const paths = isObject(spec.paths) ? spec.paths : {};
+
+  for (const [path, pathItem] of Object.entries(paths)) {
+    if (!isObject(pathItem)) {
+      continue;
+    }
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) {
+        continue;
+      }
+
+      const operationId = asString(operation.operationId);
+      const description =
+        asString(operation.summary) ?? asString(operation.description) ?? `${method.toUpperCase()} ${path}`;
+
+      capabilities.push({
+        name: capabilityName(operationId, method, path),
+        description: description.slice(0, 2000),
+        parameters: {
+          method: method.toUpperCase(),
+          path,
+          ...(operationId ? { operationId } : {}),
+          ...(Array.isArray(operation.tags) ? { tags: operation.tags } : {}),
+        },
+      });
+    }
+  }
+
+  return dedupeCapabilities(capabilities);
+}
+
+/**
+ * Curl example for the first operation of an OpenAPI document, using the
+ * request body example when there is one and a schema sample otherwise
+ */
+export function exampleUsageFromOpenApi(spec: Record<string, unknown>, baseUrl: string): string | undefined {
+  const paths = isObject(spec.paths) ? spec.paths : {};
+  const resolve = (ref: string) => resolveLocalRef(spec, ref);
+  const schemes = isObject(spec.components) && isObject(spec.components.securitySchemes)
+    ? spec.components.securitySchemes
+    : {};
+
+  for (const [path, pathItem] of Object.entries(paths)) {
+    if (!isObject(pathItem)) {
+      continue;
+    }
+
+    const method = HTTP_METHODS.find((candidate) => isObject(pathItem[candidate]));
+    if (!method) {
+      continue;
+    }
+
+    const operation = pathItem[method] as Record<string, unknown>;
+    const headers: Record<string, string> = {};
+    let body: unknown;
+
+    const requestBody = isObject(operation.requestBody) ? operation.requestBody : undefined;
+    const content = requestBody && isObject(requestBody.content) ? requestBody.content : {};
+    const [mediaType, media] = Object.entries(content)[0] ?? [];
+    if (mediaType && isObject(media)) {
+      headers['Content-Type'] = mediaType;
+      body = 'example' in media ? media.example : sampleFromSchema(media.schema, resolve);
+    }
+
+    const requirements = asArray(operation.security ?? spec.security).filter(isObject);
+    const schemeName = requirements.flatMap((requirement) => Object.keys(requirement))[0];
+    const scheme = schemeName ? schemes[schemeName] : undefined;
+    if (isObject(scheme)) {
+      if (scheme.type === 'apiKey' && scheme.in === 'header' && typeof scheme.name === 'string') {
+        headers[scheme.name] = '<API_KEY>';
+      } else if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect' || scheme.scheme === 'bearer') {
+        headers.Authorization = 'Bearer <TOKEN>';
+      }
+    }
+
+    return buildCurlExample(method, joinUrl(baseUrl, path), headers, body);
+  }
+
+  return undefined;
+}
+
+/**
+ * Semantic version for the draft, coercing loose versions such as `v2` or `1.0`
+ */
+export function normalizeVersion(version: unknown, warnings: string[]): string {
+  const raw = asString(typeof version === 'number' ? String(version) : version);
+  if (raw && semver.valid(raw)) {
+    return raw;
+  }
+
+  const coerced = raw ? semver.coerce(raw)?.version : undefined;
+  warnings.push(
+    coerced
+      ? `Version '${raw}' is not a semantic version, using ${coerced}`
+      : 'Document declares no usable version, using 1.0.0'
+  );
+  return coerced ?? '1.0.0';
+}
@@ -0,0 +1,494 @@
+import { ImportedService, ProtocolType } from '../types';
+import { inferSchemaFromValue } from '../utils/json-schema';
+import {
+  asArray,
+  asString,
+  authenticationFromSchemes,
+  capabilitiesFromOpenApi,
+  capabilityName,
+  exampleUsageFromOpenApi,
+  isObject,
+  normalizeVersion,
+} from './import-helpers';
+
+// Headers described by the request body or security scheme rather than as parameters
+const IMPLICIT_HEADERS = ['content-type', 'accept', 'authorization'];
+
+const OAUTH2_GRANTS: Record<string, string> = {
+  authorization_code: 'authorizationCode',
+  authorization_code_with_pkce: 'authorizationCode',
+  client_credentials: 'clientCredentials',
+  password: 'password',
+  implicit: 'implicit',
+};
+
+interface CollectedRequest {
+  name: string;
+  folder?: string;
+  description?: string;
+  request: Record<string, unknown>;
+  responses: Array<Record<string, unknown>>;
+}
+
+interface ParsedUrl {
+  base: string;
+  path: string;
+  query: Array<{ key: string; value?: string; description?: string }>;
+  variables: Record<string, { value?: string; description?: string }>;
+}
+
+/**
+ * Converts a Postman v2.1 collection into an OpenAPI 3.1 specification and
+ * a draft service derived from it. Saved example responses become response
+ * examples and their bodies are used to infer response schemas.
+ */
+export class PostmanImporter {
+  import(collection: Record<string, unknown>): ImportedService {
+    const info = isObject(collection.info) ? collection.info : undefined;
+    if (!info || !/collection\/v2\.1\.\d+/.test(String(info.schema))) {
+      throw new Error('Invalid Postman collection: only collection format v2.1 is supported');
+    }
+    if (!Array.isArray(collection.item)) {
+      throw new Error('Invalid Postman collection: "item" is required');
+    }
+
+    const warnings: string[] = [];
+    const spec = this.convert(collection, warnings);
+    const servers = spec.servers as Array<{ url: string }>;
+    const url = servers.length > 0 && /^(https?|wss?):\/\//.test(servers[0].url) ? servers[0].url : '';
+    const schemes = (spec.components as Record<string, Record<string, unknown>>).securitySchemes;
+
+    if (!url) {
+      warnings.push('Collection requests have no resolvable base URL, the endpoint URL must be provided');
+    }
+
+    const folders = asArray(collection.item)
+      .filter((item): item is Record<string, unknown> => isObject(item) && Array.isArray(item.item))
+      .map((folder) => String(folder.name));
+
+    return {
+      service: {
+        name: asString(info.name),
+        version: normalizeVersion(this.collectionVersion(info.version), warnings),
+        description: this.description(info.description) ?? asString(info.name),
+        capabilities: capabilitiesFromOpenApi(spec),
+        endpoint: {
+          url,
+          protocol: ProtocolType.REST,
+          authentication: authenticationFromSchemes(schemes, asArray(spec.security), warnings),
+        },
+        metadata: {
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          tags: folders,
+          exampleUsage: exampleUsageFromOpenApi(spec, url || 'https://api.example.com'),
+        },
+        openApiSpec: spec,
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Convert a Postman v2.1 collection to OpenAPI 3.1.0
+   */
+  convert(collection: Record<string, unknown>, warnings: string[]): Record<string, unknown> {
+    const info = collection.info as Record<string, unknown>;
+    const variables = this.collectionVariables(collection.variable);
+    const requests = this.collectRequests(asArray(collection.item));
+    const securitySchemes: Record<string, unknown> = {};
+    const paths: Record<string, Record<string, unknown>> = {};
+    const baseCounts = new Map<string, number>();
+    const operationIds = new Set<string>();
+
+    const rootScheme = this.convertAuth(collection.auth, securitySchemes);
+
+    for (const collected of requests) {
+      const method = (asString(collected.request.method) ?? 'GET').toLowerCase();
+      const url = this.parseUrl(collected.request.url, variables);
+
+      if (!url) {
+        warnings.push(`Request '${collected.name}' has no URL and was skipped`);
+        continue;
+      }
+
+      baseCounts.set(url.base, (baseCounts.get(url.base) ?? 0) + 1);
+      const pathItem = (paths[url.path] ??= {});
+
+      if (pathItem[method]) {
+        warnings.push(`Request '${collected.name}' duplicates ${method.toUpperCase()} ${url.path} and was skipped`);
+        continue;
+      }
+
+      let operationId = capabilityName(undefined, collected.name);
+      for (let suffix = 2; operationIds.has(operationId); suffix++) {
+        operationId = `${capabilityName(undefined, collected.name)}-${suffix}`;
+      }
+      operationIds.add(operationId);
+
+      const operation: Record<string, unknown> = {
+        operationId,
+        summary: collected.name,
+        ...(collected.description ? { description: collected.description } : {}),
+        ...(collected.folder ? { tags: [collected.folder] } : {}),
+      };
+
+      const parameters = [
+        ...this.pathParameters(url),
+        ...url.query.map((entry) => ({
+          name: entry.key,
+          in: 'query',
+          required: false,
+          schema: { type: 'string' },
+          ...(entry.description ? { description: entry.description } : {}),
+          ...(entry.value !== undefined ? { example: entry.value } : {}),
+        })),
+        ...this.headerParameters(collected.request.header, securitySchemes),
+      ];
+      if (parameters.length > 0) {
+        operation.parameters = parameters;
+      }
+
+      const requestBody = this.convertBody(collected.request.body);
+      if (requestBody) {
+        operation.requestBody = requestBody;
+      }
+
+      if (collected.request.auth !== undefined) {
+        const scheme = this.convertAuth(collected.request.auth, securitySchemes);
+        if (scheme !== rootScheme) {
+          operation.security = scheme ? [{ [scheme]: [] }] : [];
+        }
+      }
+
+      operation.responses = this.convertResponses(collected.responses);
+      pathItem[method] = operation;
+    }
+
+    const bases = [...baseCounts.entries()].sort((a, b) => b[1] - a[1]).map(([base]) => base);
+    if (bases.length > 1) {
+      warnings.push(`Requests use ${bases.length} different base URLs, using ${bases[0]} as the server`);
+    }
+
+    const spec: Record<string, unknown> = {
+      openapi: '3.1.0',
+      info: {
+        title: asString(info.name) ?? 'Imported collection',
+        version: this.collectionVersion(info.version) ?? '1.0.0',
+        ...(this.description(info.description) ? { description: this.description(info.description) } : {}),
+      },
+      servers: bases.filter((base) => base !== '').map((url) => ({ url })),
+      paths,
+      components: { securitySchemes },
+    };
+
+    if (rootScheme) {
+      spec.security = [{ [rootScheme]: [] }];
+    }
+
+    return spec;
+  }
+
+  /**
+   * Flatten folders into a list of requests, remembering the top-level folder
+   */
+  private collectRequests(items: unknown[], folder?: string): CollectedRequest[] {
+    const requests: CollectedRequest[] = [];
+
+    for (const item of items.filter(isObject)) {
+      if (Array.isArray(item.item)) {
+        requests.push(...this.collectRequests(item.item, folder ?? asString(item.name)));
+        continue;
+      }
+
+      // A request may be given as a bare URL string
+      const request = typeof item.request === 'string' ? { url: item.request } : item.request;
+      if (!isObject(request)) {
+        continue;
+      }
+
+      requests.push({
+        name: asString(item.name) ?? 'request',
+        folder,
+        description: this.description(request.description),
+        request,
+        responses: asArray(item.response).filter(isObject),
+      });
+    }
+
+    return requests;
+  }
+
+  private collectionVariables(value: unknown): Record<string, string> {
+    const variables: Record<string, string> = {};
+    for (const variable of asArray(value).filter(isObject)) {
+      if (typeof variable.key === 'string' && variable.value !== undefined && variable.value !== '') {
+        variables[variable.key] = String(variable.value);
+      }
+    }
+    return variables;
+  }
+
+  private collectionVersion(version: unknown): string | undefined {
+    if (isObject(version)) {
+      return `${Number(version.major ?? 1)}.${Number(version.minor ?? 0)}.${Number(version.patch ?? 0)}`;
+    }
+    return asString(version);
+  }
+
+  private description(value: unknown): string | undefined {
+    return isObject(value) ? asString(value.content) : asString(value);
+  }
+
+  /**
+   * Split a request URL into its base (with collection variables resolved)
+   * and an OpenAPI path template
+   */
+  private parseUrl(value: unknown, variables: Record<string, string>): ParsedUrl | undefined {
+    const url = isObject(value) ? value : { raw: value };
+    let raw = asString(url.raw);
+
+    if (!raw && Array.isArray(url.host)) {
+      const protocol = asString(url.protocol);
+      raw = `${protocol ? `${protocol}://` : ''}${url.host.join('.')}/${asArray(url.path).join('/')}`;
+    }
+    if (!raw) {
+      return undefined;
+    }
+
+    const [address, queryString] = raw.split('?', 2);
+    const match = /^((?:[a-z][a-z0-9+.-]*:\/\/)?[^/]*)(\/.*)?$/i.exec(address);
+    const rawBase = match?.[1] ?? '';
+    const base = rawBase.replace(/\{\{([^}]+)\}\}/g, (placeholder, name: string) => variables[name] ?? placeholder);
+
+    // A base variable may itself carry a path prefix, e.g. https://api.example.com/v1
+    const resolvedBase = /\{\{/.test(base) ? '' : base.replace(/\/+$/, '');
+    const path = (match?.[2] ?? '/')
+      .replace(/\/:([A-Za-z0-9_]+)/g, '/{$1}')
+      .replace(/\{\{([^}]+)\}\}/g, '{$1}');
+
+    const query = Array.isArray(url.query)
+      ? url.query
+        .filter(isObject)
+        .filter((entry) => entry.disabled !== true && typeof entry.key === 'string')
+        .map((entry) => ({
+          key: String(entry.key),
+          value: entry.value === null || entry.value === undefined ? undefined : String(entry.value),
+          description: this.description(entry.description),
+        }))
+      : (queryString ?? '')
+        .split('&')
+        .filter((pair) => pair !== '')
+        .map((pair) => {
+          const [key, entryValue] = pair.split('=', 2);
+          return { key, value: entryValue };
+        });
+
+    const pathVariables: ParsedUrl['variables'] = {};
+    for (const variable of asArray(url.variable).filter(isObject)) {
+      if (typeof variable.key === 'string') {
+        pathVariables[variable.key] = {
+          value: variable.value === undefined ? undefined : String(variable.value),
+          description: this.description(variable.description),
+        };
+      }
+    }
+
+    return { base: resolvedBase, path: path || '/', query, variables: pathVariables };
+  }
+
+  private pathParameters(url: ParsedUrl): Array<Record<string, unknown>> {
+    const names = [...url.path.matchAll(/\{([^}]+)\}/g)].map((match) => match[1]);
+
+    return names.map((name) => {
+      const variable = url.variables[name];
+      return {
+        name,
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+        ...(variable?.description ? { description: variable.description } : {}),
+        ...(variable?.value ? { example: variable.value } : {}),
+      };
+    });
+  }
+
+  private headerParameters(headers: unknown, securitySchemes: Record<string, unknown>): Array<Record<string, unknown>> {
+    // Headers that carry an API key are covered by the security scheme
+    const keyHeaders = Object.values(securitySchemes)
+      .filter((scheme): scheme is Record<string, unknown> => isObject(scheme) && scheme.in === 'header')
+      .map((scheme) => String(scheme.name).toLowerCase());
+
+    return asArray(headers)
+      .filter(isObject)
+      .filter((header) => header.disabled !== true && typeof header.key === 'string')
+      .filter((header) => {
+        const name = String(header.key).toLowerCase();
+        return !IMPLICIT_HEADERS.includes(name) && !keyHeaders.includes(name);
+      })
+      .map((header) => ({
+        name: header.key,
+        in: 'header',
+        required: false,
+        schema: { type: 'string' },
+        ...(header.value && !/\{\{/.test(String(header.value)) ? { example: String(header.value) } : {}),
+      }));
+  }
+
+  private convertBody(body: unknown): Record<string, unknown> | undefined {
+    if (!isObject(body) || body.disabled === true) {
+      return undefined;
+    }
+
+    switch (body.mode) {
+      case 'raw': {
+        const raw = asString(body.raw);
+        if (!raw) {
+          return undefined;
+        }
+        const parsed = this.parseJson(raw);
+        return {
+          required: true,
+          content: parsed === undefined
+            ? { 'text/plain': { schema: { type: 'string' }, example: raw } }
+            : { 'application/json': { schema: inferSchemaFromValue(parsed), example: parsed } },
+        };
+      }
+      case 'urlencoded':
+      case 'formdata': {
+        const properties: Record<string, unknown> = {};
+        for (const field of asArray(body[body.mode]).filter(isObject)) {
+          if (field.disabled !== true && typeof field.key === 'string') {
+            properties[field.key] = field.type === 'file'
+              ? { type: 'string', format: 'binary' }
+              : { type: 'string', ...(field.value ? { example: String(field.value) } : {}) };
+          }
+        }
+        const mediaType = body.mode === 'formdata' ? 'multipart/form-data' : 'application/x-www-form-urlencoded';
+        return { required: true, content: { [mediaType]: { schema: { type: 'object', properties } } } };
+      }
+      case 'graphql': {
+        const graphql = isObject(body.graphql) ? body.graphql : {};
+        const example = {
+          query: graphql.query,
+          variables: typeof graphql.variables === 'string' ? this.parseJson(graphql.variables) : graphql.variables,
+        };
+        return {
+          required: true,
+          content: { 'application/json': { schema: inferSchemaFromValue(example), example } },
+        };
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Responses from saved examples; the first example for each status code wins
+   */
+  private convertResponses(examples: Array<Record<string, unknown>>): Record<string, unknown> {
+    const responses: Record<string, unknown> = {};
+
+    for (const example of examples) {
+      const status = String(example.code ?? 200);
+      if (responses[status]) {
+        continue;
+      }
+
+      const contentType = asArray(example.header)
+        .filter(isObject)
+        .find((header) => String(header.key).toLowerCase() === 'content-type');
+      const body = asString(example.body);
+      const parsed = body ? this.parseJson(body) : undefined;
+      const mediaType = asString(contentType?.value)?.split(';')[0].trim()
+        ?? (parsed !== undefined ? 'application/json' : 'text/plain');
+
+      responses[status] = {
+        description: asString(example.name) ?? asString(example.status) ?? `${status} response`,
+        ...(body
+          ? {
+            content: {
+              [mediaType]: parsed !== undefined
+                ? { schema: inferSchemaFromValue(parsed), example: parsed }
+                : { schema: { type: 'string' }, example: body },
+            },
+          }
+          : {}),
+      };
+    }
+
+    if (Object.keys(responses).length === 0) {
+      responses['200'] = { description: 'Successful response' };
+    }
+
+    return responses;
+  }
+
+  /**
+   * Register the security scheme for a Postman auth block and return its name,
+   * or undefined when the block disables authentication
+   */
+  private convertAuth(auth: unknown, securitySchemes: Record<string, unknown>): string | undefined {
+    if (!isObject(auth) || typeof auth.type !== 'string' || auth.type === 'noauth') {
+      return undefined;
+    }
+
+    const settings: Record<string, string> = {};
+    for (const entry of asArray(auth[auth.type]).filter(isObject)) {
+      if (typeof entry.key === 'string' && entry.value !== undefined) {
+        settings[entry.key] = String(entry.value);
+      }
+    }
+
+    let name: string;
+    let scheme: Record<string, unknown>;
+
+    switch (auth.type) {
+      case 'apikey':
+        name = 'apiKeyAuth';
+        scheme = { type: 'apiKey', name: settings.key ?? 'X-API-Key', in: settings.in === 'query' ? 'query' : 'header' };
+        break;
+      case 'bearer':
+      case 'jwt':
+        name = 'bearerAuth';
+        scheme = { type: 'http', scheme: 'bearer' };
+        break;
+      case 'basic':
+        name = 'basicAuth';
+        scheme = { type: 'http', scheme: 'basic' };
+        break;
+      case 'oauth2': {
+        name = 'oauth2';
+        const flow = OAUTH2_GRANTS[settings.grant_type ?? 'authorization_code'] ?? 'authorizationCode';
+        const scopes = Object.fromEntries(
+          (settings.scope ?? '').split(/\s+/).filter((scope) => scope !== '').map((scope) => [scope, ''])
+        );
+        scheme = {
+          type: 'oauth2',
+          flows: {
+            [flow]: {
+              ...(flow === 'authorizationCode' || flow === 'implicit' ? { authorizationUrl: settings.authUrl ?? '' } : {}),
+              ...(flow !== 'implicit' ? { tokenUrl: settings.accessTokenUrl ?? '' } : {}),
+              scopes,
+            },
+          },
+        };
+        break;
+      }
+      default:
+        name = `${auth.type}Auth`;
+        scheme = { type: 'http', scheme: auth.type };
+    }
+
+    securitySchemes[name] ??= scheme;
+    return name;
+  }
+
+  private parseJson(value: string): unknown {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+}
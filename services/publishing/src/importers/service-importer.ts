@@ -0,0 +1,105 @@
+/**
+ * Service Importer
+ * Builds draft services from existing API descriptions (Swagger 2.0,
+ * Postman v2.1 collections and AsyncAPI 2.x) so providers do not have to
+ * re-enter what their API documents already describe
+ */
+
+import { ImportedService, ImportFormat, Service, ServiceImportResult } from '../types';
+import { ServiceValidator } from '../validators/service-validator';
+import { OpenAPIValidator } from '../validators/openapi-validator';
+import { TenantClient } from '../integrations/tenant-client';
+import { Swagger2Importer } from './swagger2-importer';
+import { PostmanImporter } from './postman-importer';
+import { AsyncAPIImporter } from './asyncapi-importer';
+import { isObject } from './import-helpers';
+import { logger } from '../utils/logger';
+
+export class ServiceImporter {
+  private readonly serviceValidator: ServiceValidator;
+  private readonly openApiValidator: OpenAPIValidator;
+  private readonly tenantClient: TenantClient;
+  private readonly swagger2Importer: Swagger2Importer;
+  private readonly postmanImporter: PostmanImporter;
+  private readonly asyncApiImporter: AsyncAPIImporter;
+
+  constructor() {
+    this.serviceValidator = new ServiceValidator();
+    this.openApiValidator = new OpenAPIValidator(process.env.OPENAPI_VALIDATION_STRICT !== 'false');
+    this.tenantClient = new TenantClient();
+    this.swagger2Importer = new Swagger2Importer();
+    this.postmanImporter = new PostmanImporter();
+    this.asyncApiImporter = new AsyncAPIImporter();
+  }
+
+  /**
+   * Convert a document into a draft service. Fields the document cannot
+   * describe (pricing, SLA, compliance, category) come from `overrides`;
+   * the draft is validated but not persisted.
+   */
+  async import(
+    format: ImportFormat,
+    document: unknown,
+    overrides: Partial<Service> = {}
+  ): Promise<ServiceImportResult> {
+    if (!isObject(document)) {
+      throw new Error('Invalid import document: expected a JSON object');
+    }
+
+    const imported = this.convert(format, document);
+    const service = this.applyOverrides(imported.service, overrides);
+
+    const tenantIds = service.providerId ? await this.tenantClient.getUserTenantIds(service.providerId) : [];
+    const validation = await this.serviceValidator.validate(service, { tenantIds });
+    const openApiValidation = await this.openApiValidator.validate(service.openApiSpec ?? {});
+
+    logger.info('Service imported', {
+      format,
+      name: service.name,
+      capabilities: service.capabilities?.length ?? 0,
+      valid: validation.isValid && openApiValidation.isValid,
+      warnings: imported.warnings.length,
+    });
+
+    return {
+      format,
+      service,
+      validation,
+      openApiValidation,
+      warnings: imported.warnings,
+    };
+  }
+
+  private convert(format: ImportFormat, document: Record<string, unknown>): ImportedService {
+    switch (format) {
+      case ImportFormat.SWAGGER_2:
+        return this.swagger2Importer.import(document);
+      case ImportFormat.POSTMAN_2_1:
+        return this.postmanImporter.import(document);
+      case ImportFormat.ASYNCAPI_2:
+        return this.asyncApiImporter.import(document);
+      default:
+        throw new Error(`Invalid import format: ${String(format)}`);
+    }
+  }
+
+  /**
+   * Provider-supplied fields win over imported ones; endpoint and metadata
+   * are merged field by field so a partial override keeps the rest
+   */
+  private applyOverrides(imported: Partial<Service>, overrides: Partial<Service>): Partial<Service> {
+    const service: Partial<Service> = { ...imported, ...overrides };
+
+    if (imported.endpoint && overrides.endpoint) {
+      service.endpoint = { ...imported.endpoint, ...overrides.endpoint };
+    }
+    if (imported.metadata && overrides.metadata) {
+      service.metadata = { ...imported.metadata, ...overrides.metadata };
+    }
+
+    // The imported document is the source of the spec
+    service.openApiSpec = imported.openApiSpec;
+
+    return service;
+  }
+}
@@ -0,0 +1,470 @@
+import { ImportedService, ProtocolType } from '../types';
+import {
+  HTTP_METHODS,
+  asArray,
+  asString,
+  authenticationFromSchemes,
+  capabilitiesFromOpenApi,
+  exampleUsageFromOpenApi,
+  isObject,
+  normalizeVersion,
+  rewriteRefs,
+} from './import-helpers';
+
+// Swagger 2.0 parameter keywords that move into the parameter schema in OpenAPI 3
+const PARAMETER_SCHEMA_KEYS = [
+  'type', 'format', 'items', 'enum', 'default', 'minimum', 'maximum', 'exclusiveMinimum',
+  'exclusiveMaximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'uniqueItems',
+  'multipleOf',
+];
+
+const OAUTH2_FLOWS: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  application: 'clientCredentials',
+  accessCode: 'authorizationCode',
+};
+
+interface OperationContext {
+  consumes: string[];
+  produces: string[];
+}
+
+/**
+ * Converts a Swagger 2.0 document into an OpenAPI 3.0 specification and a
+ * draft service derived from it
+ */
+export class Swagger2Importer {
+  import(document: Record<string, unknown>): ImportedService {
+    if (typeof document.swagger !== 'string' || !/^2\.0(\.\d+)?$/.test(document.swagger)) {
+      throw new Error('Invalid Swagger document: "swagger" must be "2.0"');
+    }
+    if (!isObject(document.info) || !isObject(document.paths)) {
+      throw new Error('Invalid Swagger document: "info" and "paths" are required');
+    }
+
+    const warnings: string[] = [];
+    const spec = this.convert(document, warnings);
+    const info = document.info;
+    const servers = spec.servers as Array<{ url: string }>;
+    const url = /^https?:\/\//.test(servers[0].url) ? servers[0].url : '';
+    const schemes = (spec.components as Record<string, Record<string, unknown>>).securitySchemes;
+
+    if (!url) {
+      warnings.push('Document declares no host, the endpoint URL must be provided');
+    }
+
+    return {
+      service: {
+        name: asString(info.title),
+        version: normalizeVersion(info.version, warnings),
+        description: asString(info.description) ?? asString(info.title),
+        capabilities: capabilitiesFromOpenApi(spec),
+        endpoint: {
+          url,
+          protocol: ProtocolType.REST,
+          authentication: authenticationFromSchemes(schemes, asArray(spec.security), warnings),
+        },
+        metadata: {
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          tags: asArray(document.tags).filter(isObject).map((tag) => String(tag.name)),
+          documentation: isObject(document.externalDocs) ? asString(document.externalDocs.url) : undefined,
+          exampleUsage: exampleUsageFromOpenApi(spec, url || 'https://api.example.com'),
+        },
+        openApiSpec: spec,
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Convert a Swagger 2.0 document to OpenAPI 3.0.3
+   */
+  convert(document: Record<string, unknown>, warnings: string[]): Record<string, unknown> {
+    const source = rewriteRefs(document, (ref) => this.rewriteRef(ref)) as Record<string, unknown>;
+    const context: OperationContext = {
+      consumes: this.mediaTypes(source.consumes),
+      produces: this.mediaTypes(source.produces),
+    };
+
+    const spec: Record<string, unknown> = {
+      openapi: '3.0.3',
+      info: source.info,
+      servers: this.convertServers(source),
+    };
+
+    for (const [key, value] of Object.entries(source)) {
+      if (key === 'tags' || key === 'externalDocs' || key === 'security' || key.startsWith('x-')) {
+        spec[key] = value;
+      }
+    }
+
+    const globalParameters = isObject(source.parameters) ? source.parameters : {};
+    spec.paths = this.convertPaths(source.paths as Record<string, unknown>, globalParameters, context, warnings);
+    spec.components = this.convertComponents(source, globalParameters, context);
+
+    return spec;
+  }
+
+  private rewriteRef(ref: string): string {
+    return ref
+      .replace(/^#\/definitions\//, '#/components/schemas/')
+      .replace(/^#\/parameters\//, '#/components/parameters/')
+      .replace(/^#\/responses\//, '#/components/responses/');
+  }
+
+  private mediaTypes(value: unknown, fallback: string[] = ['application/json']): string[] {
+    const types = asArray(value).filter((type): type is string => typeof type === 'string');
+    return types.length > 0 ? types : fallback;
+  }
+
+  private convertServers(source: Record<string, unknown>): Array<{ url: string }> {
+    const basePath = asString(source.basePath) ?? '/';
+    const host = asString(source.host);
+
+    if (!host) {
+      return [{ url: basePath }];
+    }
+
+    const schemes = asArray(source.schemes).filter((scheme): scheme is string => typeof scheme === 'string');
+    // Prefer https when the document offers both
+    const ordered = schemes.length === 0
+      ? ['https']
+      : schemes.includes('https')
+        ? ['https', ...schemes.filter((scheme) => scheme !== 'https')]
+        : schemes;
+
+    return ordered.map((scheme) => ({ url: `${scheme}://${host}${basePath === '/' ? '' : basePath}` }));
+  }
+
+  private convertPaths(
+    paths: Record<string, unknown>,
+    globalParameters: Record<string, unknown>,
+    context: OperationContext,
+    warnings: string[]
+  ): Record<string, unknown> {
+    const converted: Record<string, unknown> = {};
+
+    for (const [path, pathItem] of Object.entries(paths)) {
+      if (!isObject(pathItem)) {
+        continue;
+      }
+
+      const item: Record<string, unknown> = {};
+      const pathParameters = asArray(pathItem.parameters);
+
+      for (const [key, value] of Object.entries(pathItem)) {
+        if (HTTP_METHODS.includes(key) && isObject(value)) {
+          const label = `${key.toUpperCase()} ${path}`;
+          item[key] = this.convertOperation(value, pathParameters, globalParameters, context, warnings, label);
+        } else if (key === 'parameters') {
+          const parameters = this.splitParameters(pathParameters, globalParameters).other;
+          if (parameters.length > 0) {
+            item.parameters = parameters.map((parameter) => this.convertParameter(parameter, warnings));
+          }
+        } else if (key.startsWith('x-') || key === '$ref') {
+          item[key] = value;
+        }
+      }
+
+      converted[path] = item;
+    }
+
+    return converted;
+  }
+
+  private convertOperation(
+    operation: Record<string, unknown>,
+    pathParameters: unknown[],
+    globalParameters: Record<string, unknown>,
+    context: OperationContext,
+    warnings: string[],
+    label: string
+  ): Record<string, unknown> {
+    const consumes = this.mediaTypes(operation.consumes, context.consumes);
+    const produces = this.mediaTypes(operation.produces, context.produces);
+    const converted: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(operation)) {
+      if (['tags', 'summary', 'description', 'externalDocs', 'operationId', 'deprecated', 'security'].includes(key)
+        || key.startsWith('x-')) {
+        converted[key] = value;
+      }
+    }
+
+    const own = this.splitParameters(asArray(operation.parameters), globalParameters);
+    const inherited = this.splitParameters(pathParameters, globalParameters);
+
+    if (own.other.length > 0) {
+      converted.parameters = own.other.map((parameter) => this.convertParameter(parameter, warnings));
+    }
+
+    const body = own.body ?? inherited.body;
+    const formData = [...inherited.formData, ...own.formData];
+
+    if (body) {
+      converted.requestBody = {
+        ...(body.description ? { description: body.description } : {}),
+        required: body.required === true,
+        content: Object.fromEntries(
+          consumes.map((mediaType) => [mediaType, { schema: this.convertSchema(body.schema ?? {}) }])
+        ),
+      };
+    } else if (formData.length > 0) {
+      converted.requestBody = this.convertFormData(formData, consumes);
+    }
+
+    if (body && formData.length > 0) {
+      warnings.push(`${label}: body and formData parameters cannot be combined, formData was dropped`);
+    }
+
+    const responses = isObject(operation.responses) ? operation.responses : {};
+    converted.responses = Object.fromEntries(
+      Object.entries(responses).map(([status, response]) => [status, this.convertResponse(response, produces)])
+    );
+
+    return converted;
+  }
+
+  /**
+   * Separate body and formData parameters (which become the request body)
+   * from the rest, inlining refs to global body and formData parameters
+   */
+  private splitParameters(
+    parameters: unknown[],
+    globalParameters: Record<string, unknown>
+  ): { body?: Record<string, unknown>; formData: Array<Record<string, unknown>>; other: Array<Record<string, unknown>> } {
+    const split = {
+      body: undefined as Record<string, unknown> | undefined,
+      formData: [] as Array<Record<string, unknown>>,
+      other: [] as Array<Record<string, unknown>>,
+    };
+
+    for (const parameter of parameters.filter(isObject)) {
+      const name = typeof parameter.$ref === 'string'
+        ? parameter.$ref.replace('#/components/parameters/', '')
+        : undefined;
+      const referenced = name !== undefined ? globalParameters[name] : undefined;
+      const resolved = isObject(referenced) ? referenced : parameter;
+
+      if (resolved.in === 'body') {
+        split.body = resolved;
+      } else if (resolved.in === 'formData') {
+        split.formData.push(resolved);
+      } else {
+        split.other.push(parameter);
+      }
+    }
+
+    return split;
+  }
+
+  private convertParameter(parameter: Record<string, unknown>, warnings: string[]): Record<string, unknown> {
+    if (typeof parameter.$ref === 'string') {
+      return parameter;
+    }
+
+    const converted: Record<string, unknown> = {
+      name: parameter.name,
+      in: parameter.in,
+      required: parameter.in === 'path' ? true : parameter.required === true,
+      schema: this.parameterSchema(parameter),
+    };
+
+    for (const key of ['description', 'allowEmptyValue']) {
+      if (key in parameter) {
+        converted[key] = parameter[key];
+      }
+    }
+
+    const collectionFormat = parameter.collectionFormat;
+    if (parameter.type === 'array' && typeof collectionFormat === 'string') {
+      if (collectionFormat === 'multi') {
+        converted.style = 'form';
+        converted.explode = true;
+      } else if (collectionFormat === 'csv') {
+        converted.explode = false;
+      } else if (collectionFormat === 'ssv' && parameter.in === 'query') {
+        converted.style = 'spaceDelimited';
+      } else if (collectionFormat === 'pipes' && parameter.in === 'query') {
+        converted.style = 'pipeDelimited';
+      } else {
+        warnings.push(
+          `Parameter '${String(parameter.name)}': collectionFormat '${collectionFormat}' has no OpenAPI 3 equivalent`
+        );
+      }
+    }
+
+    return converted;
+  }
+
+  private parameterSchema(parameter: Record<string, unknown>): Record<string, unknown> {
+    const schema: Record<string, unknown> = {};
+    for (const key of PARAMETER_SCHEMA_KEYS) {
+      if (key in parameter) {
+        schema[key] = parameter[key];
+      }
+    }
+    return this.convertSchema(schema);
+  }
+
+  private convertFormData(parameters: Array<Record<string, unknown>>, consumes: string[]): Record<string, unknown> {
+    const hasFile = parameters.some((parameter) => parameter.type === 'file');
+    const mediaType = hasFile || consumes.includes('multipart/form-data')
+      ? 'multipart/form-data'
+      : 'application/x-www-form-urlencoded';
+
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+
+    for (const parameter of parameters) {
+      const name = String(parameter.name);
+      properties[name] = {
+        ...this.parameterSchema(parameter),
+        ...(parameter.description ? { description: parameter.description } : {}),
+      };
+      if (parameter.required === true) {
+        required.push(name);
+      }
+    }
+
+    return {
+      required: required.length > 0,
+      content: {
+        [mediaType]: {
+          schema: { type: 'object', properties, ...(required.length > 0 ? { required } : {}) },
+        },
+      },
+    };
+  }
+
+  private convertResponse(response: unknown, produces: string[]): unknown {
+    if (!isObject(response) || typeof response.$ref === 'string') {
+      return response;
+    }
+
+    const converted: Record<string, unknown> = { description: asString(response.description) ?? '' };
+
+    if (isObject(response.headers)) {
+      converted.headers = Object.fromEntries(
+        Object.entries(response.headers).filter(([, header]) => isObject(header)).map(([name, header]) => {
+          const { description, ...schema } = header as Record<string, unknown>;
+          return [name, { ...(description ? { description } : {}), schema: this.convertSchema(schema) }];
+        })
+      );
+    }
+
+    if (response.schema !== undefined) {
+      const examples = isObject(response.examples) ? response.examples : {};
+      converted.content = Object.fromEntries(
+        produces.map((mediaType) => [
+          mediaType,
+          {
+            schema: this.convertSchema(response.schema),
+            ...(mediaType in examples ? { example: examples[mediaType] } : {}),
+          },
+        ])
+      );
+    }
+
+    return converted;
+  }
+
+  private convertComponents(
+    source: Record<string, unknown>,
+    globalParameters: Record<string, unknown>,
+    context: OperationContext
+  ): Record<string, unknown> {
+    const definitions = isObject(source.definitions) ? source.definitions : {};
+    const responses = isObject(source.responses) ? source.responses : {};
+    const securityDefinitions = isObject(source.securityDefinitions) ? source.securityDefinitions : {};
+
+    const components: Record<string, unknown> = {
+      schemas: Object.fromEntries(
+        Object.entries(definitions).map(([name, schema]) => [name, this.convertSchema(schema)])
+      ),
+      securitySchemes: Object.fromEntries(
+        Object.entries(securityDefinitions)
+          .filter(([, scheme]) => isObject(scheme))
+          .map(([name, scheme]) => [name, this.convertSecurityScheme(scheme as Record<string, unknown>)])
+      ),
+    };
+
+    const parameters = Object.entries(globalParameters)
+      .filter(([, parameter]) => isObject(parameter) && parameter.in !== 'body' && parameter.in !== 'formData')
+      .map(([name, parameter]) => [name, this.convertParameter(parameter as Record<string, unknown>, [])]);
+    if (parameters.length > 0) {
+      components.parameters = Object.fromEntries(parameters);
+    }
+
+    if (Object.keys(responses).length > 0) {
+      components.responses = Object.fromEntries(
+        Object.entries(responses).map(([name, response]) => [name, this.convertResponse(response, context.produces)])
+      );
+    }
+
+    return components;
+  }
+
+  private convertSecurityScheme(scheme: Record<string, unknown>): Record<string, unknown> {
+    const description = scheme.description ? { description: scheme.description } : {};
+
+    if (scheme.type === 'basic') {
+      return { type: 'http', scheme: 'basic', ...description };
+    }
+
+    if (scheme.type === 'oauth2') {
+      const flow = OAUTH2_FLOWS[String(scheme.flow)] ?? 'implicit';
+      return {
+        type: 'oauth2',
+        ...description,
+        flows: {
+          [flow]: {
+            ...(scheme.authorizationUrl ? { authorizationUrl: scheme.authorizationUrl } : {}),
+            ...(scheme.tokenUrl ? { tokenUrl: scheme.tokenUrl } : {}),
+            scopes: isObject(scheme.scopes) ? scheme.scopes : {},
+          },
+        },
+      };
+    }
+
+    return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+  }
+
+  /**
+   * Map Swagger-only schema keywords onto their OpenAPI 3.0 equivalents
+   */
+  private convertSchema(schema: unknown): Record<string, unknown> {
+    if (!isObject(schema)) {
+      return {};
+    }
+
+    const converted: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(schema)) {
+      if (key === 'x-nullable') {
+        converted.nullable = value;
+      } else if (key === 'discriminator' && typeof value === 'string') {
+        converted.discriminator = { propertyName: value };
+      } else if (key === 'properties' && isObject(value)) {
+        converted.properties = Object.fromEntries(
+          Object.entries(value).map(([name, property]) => [name, this.convertSchema(property)])
+        );
+      } else if ((key === 'items' || key === 'additionalProperties' || key === 'not') && isObject(value)) {
+        converted[key] = this.convertSchema(value);
+      } else if (key === 'allOf' && Array.isArray(value)) {
+        converted.allOf = value.map((item) => this.convertSchema(item));
+      } else {
+        converted[key] = value;
+      }
+    }
+
+    if (converted.type === 'file') {
+      converted.type = 'string';
+      converted.format = 'binary';
+    }
+
+    return converted;
+  }
+}
@@ -7,6 +7,19 @@ import { initializeDatabase, closeDatabase } from './config/database';
 import { initializeRedis, closeRedis } from './config/redis';
 import { logger } from './utils/logger';
 import serviceRoutes from './routes/service-routes';
+import webhookRoutes from './routes/webhook-routes';
+import approvalRoutes from './routes/approval-routes';
+import policyRoutes from './routes/policy-routes';
+import outboxRoutes from './routes/outbox-routes';
+import registryRoutes from './routes/registry-routes';
+import { PublishingWorkflow } from './workflows/publishing-workflow';
+import { HealthMonitor } from './services/health-monitor';
+import { DeprecationScheduler } from './services/deprecation-scheduler';
+import { WebhookDeliveryWorker } from './services/webhook-delivery-worker';
+import { ApprovalEscalationScheduler } from './services/approval-escalation-scheduler';
+import { OutboxRelay } from './services/outbox-relay';
+import { getRegistryReconciler } from './services/registry-reconciler';
+import { getPolicyBundleManager } from './services/policy-bundle-manager';
 import { errorHandler, notFoundHandler } from './middleware/error-middleware';
 
 // Load environment variables
@@ -73,6 +86,11 @@ app.get('/health', (_req, res) => {
 
 // API routes
 app.use('/api/v1/services', serviceRoutes);
+app.use('/api/v1/webhooks', webhookRoutes);
+app.use('/api/v1/approvals', approvalRoutes);
+app.use('/api/v1/policies', policyRoutes);
+app.use('/api/v1/outbox', outboxRoutes);
+app.use('/api/v1/registry', registryRoutes);
 
 // Error handling
 app.use(notFoundHandler);
@@ -92,6 +110,61 @@ async function startServer() {
     // Initialize Redis connection
     await initializeRedis();
 
+    // Load the policy bundle; an invalid bundle fails startup
+    const policyBundles = getPolicyBundleManager();
+    await policyBundles.reload();
+    if (process.env.POLICY_RELOAD_ENABLED !== 'false') {
+      policyBundles.start();
+    }
+
+    // Resume publishing workflows interrupted by a previous shutdown
+    new PublishingWorkflow()
+      .resumeIncomplete()
+      .then((count) => {
+        if (count > 0) {
+          logger.info('Resumed interrupted publishing workflows', { count });
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to resume publishing workflows', { error });
+      });
+
+    // Probe active services on a schedule and suspend chronically failing ones
+    const healthMonitor = new HealthMonitor();
+    if (process.env.HEALTH_MONITOR_ENABLED !== 'false') {
+      healthMonitor.start();
+    }
+
+    // Retire deprecated services once their grace period ends
+    const deprecationScheduler = new DeprecationScheduler();
+    if (process.env.DEPRECATION_SCHEDULER_ENABLED !== 'false') {
+      deprecationScheduler.start();
+    }
+
+    // Retry failed webhook deliveries with backoff
+    const webhookDeliveryWorker = new WebhookDeliveryWorker();
+    if (process.env.WEBHOOK_DELIVERY_ENABLED !== 'false') {
+      webhookDeliveryWorker.start();
+    }
+
+    // Hand overdue approval stages to their backup reviewers
+    const approvalEscalationScheduler = new ApprovalEscalationScheduler();
+    if (process.env.APPROVAL_ESCALATION_ENABLED !== 'false') {
+      approvalEscalationScheduler.start();
+    }
+
+    // Deliver analytics and governance events recorded in the outbox
+    const outboxRelay = new OutboxRelay();
+    if (process.env.OUTBOX_RELAY_ENABLED !== 'false') {
+      outboxRelay.start();
+    }
+
+    // Detect and repair drift between services and their Registry entries
+    const registryReconciler = getRegistryReconciler();
+    if (process.env.REGISTRY_RECONCILE_ENABLED !== 'false') {
+      registryReconciler.start();
+    }
+
     // Start Express server
     const server = app.listen(PORT, () => {
       logger.info(`Publishing Service started successfully`, {
@@ -105,6 +178,14 @@ async function startServer() {
     const shutdown = async (signal: string) => {
       logger.info(`Received ${signal}, starting graceful shutdown...`);
 
+      healthMonitor.stop();
+      deprecationScheduler.stop();
+      webhookDeliveryWorker.stop();
+      approvalEscalationScheduler.stop();
+      outboxRelay.stop();
+      registryReconciler.stop();
+      policyBundles.stop();
+
       server.close(async () => {
         logger.info('HTTP server closed');
 
@@ -1,4 +1,4 @@
-import { AnalyticsEvent } from '../types';
+import { AnalyticsEvent, OutboxEvent } from '../types';
 import { logger } from '../utils/logger';
 
 /**
@@ -89,6 +89,34 @@ export class AnalyticsClient {
     }
   }
 
+  /**
+   * Deliver an outbox event. Unlike track, failures are thrown so the relay
+   * can retry; the outbox ID is the message key for deduplication.
+   */
+  async deliver(outboxEvent: OutboxEvent): Promise<void> {
+    const event: AnalyticsEvent = {
+      eventId: outboxEvent.id,
+      eventType: outboxEvent.eventType,
+      timestamp: outboxEvent.createdAt,
+      serviceId: outboxEvent.payload.serviceId as string | undefined,
+      providerId: outboxEvent.payload.providerId as string | undefined,
+      userId: outboxEvent.payload.userId as string | undefined,
+      metadata: outboxEvent.payload,
+    };
+
+    // In production:
+    // await this.producer.send({
+    //   topic: this.topic,
+    //   messages: [{ key: event.eventId, value: JSON.stringify(event) }],
+    // });
+
+    logger.debug('Outbox event delivered to Analytics Hub', {
+      eventId: event.eventId,
+      eventType: event.eventType,
+      serviceId: event.serviceId,
+    });
+  }
+
   /**
    * Stream real-time event
    */
@@ -207,6 +235,36 @@ export class AnalyticsClient {
     });
   }
 
+  /**
+   * Track a scheduled endpoint health check
+   */
+  async trackHealthCheck(
+    serviceId: string,
+    providerId: string,
+    result: Record<string, unknown>
+  ): Promise<void> {
+    await this.track('service_health_checked', {
+      serviceId,
+      providerId,
+      ...result,
+    });
+  }
+
+  /**
+   * Track a rolling SLA compliance breach
+   */
+  async trackSlaBreach(
+    serviceId: string,
+    providerId: string,
+    compliance: Record<string, unknown>
+  ): Promise<void> {
+    await this.track('sla_breached', {
+      serviceId,
+      providerId,
+      ...compliance,
+    });
+  }
+
   /**
    * Check Analytics Hub health
    */
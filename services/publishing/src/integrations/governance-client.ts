@@ -1,7 +1,45 @@
 import axios, { AxiosInstance } from 'axios';
-import { Service, PublishingWorkflowContext } from '../types';
+import { ApprovalStatus, ApprovalWorkflow, OutboxEvent, Service, PublishingWorkflowContext } from '../types';
 import { logger } from '../utils/logger';
 
+const NOTIFY_SERVICE_PUBLISHED_MUTATION = `
+  mutation NotifyServicePublished($input: ServicePublishedInput!) {
+    notifyServicePublished(input: $input) {
+      success
+      notificationId
+    }
+  }
+`;
+
+const STREAM_EVENT_MUTATION = `
+  mutation StreamEvent($input: EventInput!) {
+    streamEvent(input: $input) {
+      success
+    }
+  }
+`;
+
+/**
+ * Outbox event type delivered as a service publication notification rather
+ * than a streamed event
+ */
+export const SERVICE_PUBLISHED_NOTIFICATION = 'service_published';
+
+/**
+ * Input of the service publication notification
+ */
+export function servicePublishedNotification(service: Partial<Service>): Record<string, unknown> {
+  return {
+    serviceId: service.id,
+    serviceName: service.name,
+    version: service.version,
+    providerId: service.providerId,
+    category: service.category,
+    status: service.status,
+    publishedAt: new Date().toISOString(),
+  };
+}
+
 /**
  * GraphQL client for Governance Dashboard integration
  */
@@ -51,28 +89,9 @@ export class GovernanceClient {
    */
   async notifyServicePublished(service: Partial<Service>): Promise<void> {
     try {
-      const mutation = `
-        mutation NotifyServicePublished($input: ServicePublishedInput!) {
-          notifyServicePublished(input: $input) {
-            success
-            notificationId
-          }
-        }
-      `;
-
-      const variables = {
-        input: {
-          serviceId: service.id,
-          serviceName: service.name,
-          version: service.version,
-          providerId: service.providerId,
-          category: service.category,
-          status: service.status,
-          publishedAt: new Date().toISOString(),
-        },
-      };
-
-      await this.query(mutation, variables);
+      await this.query(NOTIFY_SERVICE_PUBLISHED_MUTATION, {
+        input: servicePublishedNotification(service),
+      });
 
       logger.info('Service publication notified to Governance Dashboard', {
         serviceId: service.id,
@@ -88,10 +107,11 @@ export class GovernanceClient {
   }
 
   /**
-   * Create approval workflow
+   * Register an approval workflow and its review stages with the dashboard
    */
   async createApprovalWorkflow(
-    workflowContext: PublishingWorkflowContext
+    workflowContext: PublishingWorkflowContext,
+    approval: ApprovalWorkflow
   ): Promise<{ workflowId: string }> {
     try {
       const mutation = `
@@ -107,10 +127,19 @@ export class GovernanceClient {
 
       const variables = {
         input: {
+          approvalId: approval.id,
           serviceId: workflowContext.serviceId,
           providerId: workflowContext.providerId,
           serviceName: workflowContext.serviceSpec.name,
           serviceVersion: workflowContext.serviceSpec.version,
+          chainId: approval.chainId,
+          stages: approval.stages.map((stage) => ({
+            name: stage.name,
+            reviewers: stage.reviewers,
+            backupReviewers: stage.backupReviewers,
+            quorum: stage.quorum,
+            dueAt: stage.dueAt?.toISOString(),
+          })),
           validationResults: {
             passed: workflowContext.validationResult?.isValid,
             errors: workflowContext.validationResult?.errors,
@@ -149,29 +178,30 @@ export class GovernanceClient {
    */
   async checkApprovalStatus(
     workflowId: string
-  ): Promise<{ status: 'pending' | 'approved' | 'rejected'; comments?: string }> {
+  ): Promise<{ status: ApprovalStatus; currentStage?: string; comments?: string }> {
     try {
       const query = `
         query GetApprovalWorkflow($workflowId: ID!) {
           approvalWorkflow(id: $workflowId) {
             id
             status
+            currentStage
             comments
-            approvedBy
-            approvedAt
           }
         }
       `;
 
       const result = await this.query<{
         approvalWorkflow: {
-          status: 'pending' | 'approved' | 'rejected';
+          status: ApprovalStatus;
+          currentStage?: string;
           comments?: string;
         };
       }>(query, { workflowId });
 
       return {
         status: result.approvalWorkflow.status,
+        currentStage: result.approvalWorkflow.currentStage,
         comments: result.approvalWorkflow.comments,
       };
     } catch (error) {
@@ -191,23 +221,13 @@ export class GovernanceClient {
     data: Record<string, unknown>
   ): Promise<void> {
     try {
-      const mutation = `
-        mutation StreamEvent($input: EventInput!) {
-          streamEvent(input: $input) {
-            success
-          }
-        }
-      `;
-
-      const variables = {
+      await this.query(STREAM_EVENT_MUTATION, {
         input: {
           eventType,
           timestamp: new Date().toISOString(),
           data,
         },
-      };
-
-      await this.query(mutation, variables);
+      });
 
       logger.debug('Event streamed to Governance Dashboard', {
         eventType,
@@ -221,6 +241,28 @@ export class GovernanceClient {
     }
   }
 
+  /**
+   * Deliver an outbox event. Failures are thrown so the relay can retry; the
+   * outbox ID is sent as `eventId` so the dashboard can drop redeliveries.
+   */
+  async deliverEvent(event: OutboxEvent): Promise<void> {
+    if (event.eventType === SERVICE_PUBLISHED_NOTIFICATION) {
+      await this.query(NOTIFY_SERVICE_PUBLISHED_MUTATION, {
+        input: { ...event.payload, eventId: event.id },
+      });
+      return;
+    }
+
+    await this.query(STREAM_EVENT_MUTATION, {
+      input: {
+        eventId: event.id,
+        eventType: event.eventType,
+        timestamp: event.createdAt.toISOString(),
+        data: event.payload,
+      },
+    });
+  }
+
   /**
    * Export audit log
    */
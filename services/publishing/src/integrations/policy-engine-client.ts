@@ -1,15 +1,25 @@
-import { Service, PolicyValidationResult, PolicyViolation } from '../types';
+import { Service, PolicyDryRunResult, PolicyValidationResult } from '../types';
+import {
+  accessPolicyInput,
+  compilePolicyBundle,
+  consumptionPolicyInput,
+  evaluatePolicies,
+  parsePolicyBundle,
+  policyDryRunSchema,
+  servicePolicyInput,
+} from '../policies/policy-engine';
+import { PolicyBundleManager, getPolicyBundleManager } from '../services/policy-bundle-manager';
 import { logger } from '../utils/logger';
 
 /**
- * Mock gRPC client for Policy Engine integration
- * In production, this would use @grpc/grpc-js or similar
+ * Policy Engine client. Policies are declarative bundles evaluated in
+ * process; the active bundle is hot-reloaded by the PolicyBundleManager.
  */
 export class PolicyEngineClient {
-  // private readonly serverAddress: string;
+  private readonly policyBundles: PolicyBundleManager;
 
   constructor() {
-    // this.serverAddress = process.env.POLICY_ENGINE_GRPC_URL || 'localhost:50051';
+    this.policyBundles = getPolicyBundleManager();
   }
 
   /**
@@ -21,30 +31,20 @@ export class PolicyEngineClient {
         serviceName: service.name,
       });
 
-      // Simulate gRPC call to Policy Engine
-      // In production, this would be:
-      // const client = new PolicyEngineServiceClient(this.serverAddress, credentials);
-      // const response = await client.ValidateService(request);
-
-      const violations: PolicyViolation[] = [];
-
-      // Example policy validations
-      this.validateDataResidencyPolicy(service, violations);
-      this.validateCompliancePolicy(service, violations);
-      this.validateSecurityPolicy(service, violations);
-      this.validatePricingPolicy(service, violations);
+      const evaluation = evaluatePolicies(this.policyBundles.getBundle(), 'service', servicePolicyInput(service));
 
       const result: PolicyValidationResult = {
-        compliant: violations.length === 0,
-        violations,
-        policyVersion: '1.0.0',
+        compliant: evaluation.allowed,
+        violations: evaluation.fired,
+        policyVersion: evaluation.bundle.version,
         validatedAt: new Date(),
       };
 
       logger.info('Policy validation completed', {
         serviceName: service.name,
         compliant: result.compliant,
-        violations: violations.length,
+        violations: result.violations.length,
+        policyVersion: result.policyVersion,
       });
 
       return result;
@@ -67,11 +67,21 @@ export class PolicyEngineClient {
         serviceId,
       });
 
-      // Simulate gRPC call
-      // In production: client.CheckAccess(request)
-
-      // Mock implementation - always allow for now
-      return true;
+      const evaluation = evaluatePolicies(
+        this.policyBundles.getBundle(),
+        'access',
+        accessPolicyInput(userId, serviceId)
+      );
+
+      if (!evaluation.allowed) {
+        logger.info('Access denied by policy', {
+          userId,
+          serviceId,
+          policies: evaluation.fired.map((violation) => violation.policy),
+        });
+      }
+
+      return evaluation.allowed;
     } catch (error) {
       logger.error('Access check failed', {
         userId,
@@ -88,7 +98,7 @@ export class PolicyEngineClient {
   async validateConsumption(
     consumerId: string,
     serviceId: string,
-    _request: Record<string, unknown>
+    request: Record<string, unknown>
   ): Promise<{ allowed: boolean; reason?: string }> {
     try {
       logger.debug('Validating consumption request', {
@@ -96,11 +106,20 @@ export class PolicyEngineClient {
         serviceId,
       });
 
-      // Simulate gRPC call
-      // In production: client.ValidateConsumption(request)
+      const evaluation = evaluatePolicies(
+        this.policyBundles.getBundle(),
+        'consumption',
+        consumptionPolicyInput(consumerId, serviceId, request)
+      );
+
+      if (evaluation.allowed) {
+        return { allowed: true };
+      }
 
-      // Mock implementation
-      return { allowed: true };
+      return {
+        allowed: false,
+        reason: evaluation.fired.map((violation) => violation.message).join('; '),
+      };
     } catch (error) {
       logger.error('Consumption validation failed', {
         consumerId,
@@ -114,88 +133,34 @@ export class PolicyEngineClient {
     }
   }
 
-  private validateDataResidencyPolicy(
-    service: Partial<Service>,
-    violations: PolicyViolation[]
-  ): void {
-    // Example: Ensure data residency is specified
-    if (!service.compliance?.dataResidency || service.compliance.dataResidency.length === 0) {
-      violations.push({
-        policy: 'data-residency-required',
-        severity: 'high',
-        message: 'Service must specify at least one data residency location',
-        remediation: 'Add data residency information to compliance section',
-      });
-    }
-
-    // Example: Restricted countries policy
-    const restrictedCountries = ['KP', 'IR', 'SY'];
-    const hasRestricted = service.compliance?.dataResidency.some((country) =>
-      restrictedCountries.includes(country)
-    );
-
-    if (hasRestricted) {
-      violations.push({
-        policy: 'restricted-countries',
-        severity: 'critical',
-        message: 'Service cannot have data residency in restricted countries',
-        remediation: 'Remove restricted countries from data residency list',
-      });
-    }
-  }
-
-  private validateCompliancePolicy(
-    service: Partial<Service>,
-    violations: PolicyViolation[]
-  ): void {
-    // Example: Confidential services require certifications
-    if (
-      service.compliance?.level === 'confidential' &&
-      (!service.compliance.certifications || service.compliance.certifications.length === 0)
-    ) {
-      violations.push({
-        policy: 'confidential-certification-required',
-        severity: 'high',
-        message: 'Confidential services must have security certifications',
-        remediation: 'Add security certifications (e.g., SOC2, ISO27001)',
-      });
-    }
-  }
-
-  private validateSecurityPolicy(
-    service: Partial<Service>,
-    violations: PolicyViolation[]
-  ): void {
-    // Example: Production services must use HTTPS
-    if (
-      process.env.NODE_ENV === 'production' &&
-      service.endpoint?.url &&
-      !service.endpoint.url.startsWith('https://')
-    ) {
-      violations.push({
-        policy: 'https-required',
-        severity: 'critical',
-        message: 'Production services must use HTTPS endpoints',
-        remediation: 'Update endpoint URL to use HTTPS',
-      });
+  /**
+   * Show which policies would fire for a service spec, consumption request
+   * or access check, against the active bundle or a candidate one
+   */
+  dryRun(input: unknown): PolicyDryRunResult {
+    const parsed = policyDryRunSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid dry run: ${parsed.error.errors.map((e) => `${e.path.join('.')} ${e.message}`).join(', ')}`
+      );
     }
-  }
 
-  private validatePricingPolicy(
-    service: Partial<Service>,
-    violations: PolicyViolation[]
-  ): void {
-    // Example: Enterprise support level requires minimum SLA
-    if (
-      service.sla?.supportLevel === 'enterprise' &&
-      service.sla.availability < 99.9
-    ) {
-      violations.push({
-        policy: 'enterprise-sla-minimum',
-        severity: 'medium',
-        message: 'Enterprise support level requires at least 99.9% availability SLA',
-        remediation: 'Increase availability SLA to 99.9% or higher',
-      });
+    const request = parsed.data;
+    const bundle = request.bundle === undefined
+      ? this.policyBundles.getBundle()
+      : compilePolicyBundle(parsePolicyBundle(request.bundle, 'request'));
+
+    switch (request.target) {
+      case 'service':
+        return evaluatePolicies(bundle, 'service', servicePolicyInput(request.service as Partial<Service>));
+      case 'consumption':
+        return evaluatePolicies(
+          bundle,
+          'consumption',
+          consumptionPolicyInput(request.consumerId, request.serviceId, request.request)
+        );
+      case 'access':
+        return evaluatePolicies(bundle, 'access', accessPolicyInput(request.userId, request.serviceId));
     }
   }
 
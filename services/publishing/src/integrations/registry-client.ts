@@ -186,6 +186,26 @@ export class RegistryClient {
     }
   }
 
+  /**
+   * Retrieve service information from Registry, or null when the Registry
+   * has no entry for the ID
+   */
+  async findService(registryId: string): Promise<RegistryServiceResponse | null> {
+    try {
+      const response = await this.client.get<RegistryServiceResponse>(
+        `/services/${registryId}`
+      );
+
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+
+      throw new Error(`Registry retrieval failed: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Delete service from Registry
    */
@@ -0,0 +1,44 @@
+import axios, { AxiosInstance } from 'axios';
+import { logger } from '../utils/logger';
+
+/**
+ * Client for the tenant management service, used to find the tenants a
+ * provider publishes for
+ */
+export class TenantClient {
+  private readonly client?: AxiosInstance;
+
+  constructor(baseURL: string | undefined = process.env.TENANT_SERVICE_URL || undefined) {
+    // Without a tenant service no provider belongs to a tenant
+    if (baseURL) {
+      this.client = axios.create({
+        baseURL,
+        timeout: parseInt(process.env.TENANT_SERVICE_TIMEOUT_MS || '5000', 10),
+      });
+    }
+  }
+
+  /**
+   * IDs of the tenants a user is an active member of. Fails rather than
+   * returning no tenants, so tenant rule packs cannot be skipped by an outage.
+   */
+  async getUserTenantIds(userId: string): Promise<string[]> {
+    if (!this.client) {
+      return [];
+    }
+
+    try {
+      const response = await this.client.get<{ data?: Array<{ id?: unknown } | null> }>(
+        `/users/${encodeURIComponent(userId)}/tenants`
+      );
+      const tenants = Array.isArray(response.data?.data) ? response.data.data : [];
+
+      return tenants
+        .map((tenant) => tenant?.id)
+        .filter((id): id is string => typeof id === 'string');
+    } catch (error) {
+      logger.error('Failed to load user tenants', { userId, error });
+      throw new Error(`Tenant lookup failed: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * API Key Expiry Job
+ * Periodically warns about API keys approaching their expiry date
+ */
+
+import { config } from '../config';
+import { logger } from '../common/logger';
+import * as authService from '../services/auth.service';
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+/**
+ * Run one scan for expiring keys
+ */
+export async function runApiKeyExpiryCheck(): Promise<void> {
+  if (running) {
+    return;
+  }
+
+  running = true;
+
+  try {
+    const warned = await authService.sendApiKeyExpiryWarnings();
+
+    if (warned > 0) {
+      logger.info('Issued API key expiry warnings', { count: warned });
+    }
+  } catch (error) {
+    logger.error('API key expiry check failed', { error });
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the periodic expiry check
+ */
+export function startApiKeyExpiryJob(): void {
+  if (timer) {
+    return;
+  }
+
+  logger.info('Starting API key expiry job', {
+    intervalMs: config.apiKey.expiryCheckIntervalMs,
+    warningDays: config.apiKey.expiryWarningDays,
+  });
+
+  void runApiKeyExpiryCheck();
+  timer = setInterval(() => void runApiKeyExpiryCheck(), config.apiKey.expiryCheckIntervalMs);
+
+  // Do not keep the process alive just for this job
+  timer.unref();
+}
+
+/**
+ * Stop the periodic expiry check
+ */
+export function stopApiKeyExpiryJob(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
@@ -4,9 +4,11 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
 import { AuthenticationError, AuthorizationError } from '../common/errors';
 import * as authService from '../services/auth.service';
-import { UserRole, JWTPayload } from '../models/user.model';
+import * as mfaService from '../services/mfa.service';
+import { UserRole, JWTPayload, apiKeyHasPermission } from '../models/user.model';
 
 /**
  * Extend Express Request to include user information
@@ -18,10 +20,15 @@ declare global {
         id: string;
         email: string;
         role: UserRole;
+        sessionId?: string;
       };
       apiKey?: {
+        id: string;
         userId: string;
+        /** Role of the key's owner; a key never exceeds it */
+        ownerRole: UserRole;
         scopes: string[];
+        allowedServiceIds: string[] | null;
       };
     }
   }
@@ -71,6 +78,60 @@ function extractApiKey(req: Request): string | null {
   return null;
 }
 
+/**
+ * Warn clients whose key has been rotated or is close to expiry, so they can
+ * switch keys before requests start failing
+ */
+function setApiKeyExpiryHeaders(res: Response, expiresAt: Date | null, rotated: boolean): void {
+  if (!expiresAt) {
+    return;
+  }
+
+  const warningWindowMs = config.apiKey.expiryWarningDays * 24 * 60 * 60 * 1000;
+  if (!rotated && expiresAt.getTime() - Date.now() > warningWindowMs) {
+    return;
+  }
+
+  res.setHeader('X-API-Key-Expires-At', expiresAt.toISOString());
+  res.setHeader(
+    'Warning',
+    rotated
+      ? `299 - "API key has been rotated; switch to its successor before ${expiresAt.toISOString()}"`
+      : `299 - "API key expires at ${expiresAt.toISOString()}; rotate it to avoid an outage"`
+  );
+}
+
+/**
+ * Verify an API key and attach its owner and restrictions to the request.
+ * Key users act as consumers; route checks grant them what their scopes
+ * allow, up to their owner's role. The CIDR restriction is checked against
+ * `req.ip`, which is only the client's address if `TRUST_PROXY` names the
+ * proxies in front of the service.
+ */
+async function applyApiKey(req: Request, res: Response, key: string): Promise<void> {
+  const verified = await authService.verifyApiKey(key, {
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+  });
+
+  setApiKeyExpiryHeaders(res, verified.expiresAt, verified.rotatedToId !== null);
+
+  req.apiKey = {
+    id: verified.apiKeyId,
+    userId: verified.userId,
+    ownerRole: verified.role,
+    scopes: verified.scopes,
+    allowedServiceIds: verified.allowedServiceIds,
+  };
+
+  // Also set user for consistency
+  req.user = {
+    id: verified.userId,
+    email: '', // Not available from API key
+    role: UserRole.CONSUMER, // Default role for API key users
+  };
+}
+
 /**
  * Authenticate request using JWT
  */
@@ -92,6 +153,7 @@ export async function authenticateJWT(
       id: payload.sub,
       email: payload.email,
       role: payload.role,
+      sessionId: payload.sid,
     };
 
     next();
@@ -105,7 +167,7 @@ export async function authenticateJWT(
  */
 export async function authenticateApiKey(
   req: Request,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
@@ -115,19 +177,7 @@ export async function authenticateApiKey(
       throw new AuthenticationError('No API key provided');
     }
 
-    const { userId, scopes } = await authService.verifyApiKey(apiKey);
-
-    req.apiKey = {
-      userId,
-      scopes,
-    };
-
-    // Also set user for consistency
-    req.user = {
-      id: userId,
-      email: '', // Not available from API key
-      role: UserRole.CONSUMER, // Default role for API key users
-    };
+    await applyApiKey(req, res, apiKey);
 
     next();
   } catch (error) {
@@ -140,7 +190,7 @@ export async function authenticateApiKey(
  */
 export async function authenticate(
   req: Request,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
@@ -152,6 +202,7 @@ export async function authenticate(
         id: payload.sub,
         email: payload.email,
         role: payload.role,
+        sessionId: payload.sid,
       };
       return next();
     }
@@ -159,16 +210,7 @@ export async function authenticate(
     // Try API key
     const apiKey = extractApiKey(req);
     if (apiKey) {
-      const { userId, scopes } = await authService.verifyApiKey(apiKey);
-      req.apiKey = {
-        userId,
-        scopes,
-      };
-      req.user = {
-        id: userId,
-        email: '',
-        role: UserRole.CONSUMER,
-      };
+      await applyApiKey(req, res, apiKey);
       return next();
     }
 
@@ -203,6 +245,14 @@ export async function optionalAuthenticate(
   }
 }
 
+/**
+ * The role route checks apply: an API key is checked against its owner's
+ * role, and must also hold a scope for the route (see requirePermission)
+ */
+function routeRole(req: Request): UserRole {
+  return req.apiKey ? req.apiKey.ownerRole : req.user!.role;
+}
+
 /**
  * Require specific role (middleware factory)
  */
@@ -219,14 +269,15 @@ export function requireRole(requiredRole: UserRole) {
       [UserRole.CONSUMER]: 2,
       [UserRole.VIEWER]: 1,
     };
-    const userRoleLevel = roleHierarchy[req.user.role as UserRole];
+    const role = routeRole(req);
+    const userRoleLevel = roleHierarchy[role];
     const requiredRoleLevel = roleHierarchy[requiredRole];
     const hasRequiredRole = userRoleLevel >= requiredRoleLevel;
 
     if (!hasRequiredRole) {
       return next(
         new AuthorizationError(
-          `Requires ${requiredRole} role or higher. Current role: ${req.user.role}`
+          `Requires ${requiredRole} role or higher. Current role: ${role}`
         )
       );
     }
@@ -236,36 +287,22 @@ export function requireRole(requiredRole: UserRole) {
 }
 
 /**
- * Require specific permission (middleware factory)
+ * Require specific permission (middleware factory). API key requests must
+ * also hold a matching scope for the targeted service, taken from the `:id`
+ * route parameter by default. Routes without a target service, such as
+ * listing or creating services, skip a key's service restriction.
  */
-export function requirePermission(permission: string) {
+export function requirePermission(
+  permission: string,
+  getServiceIdFromRequest: (req: Request) => string | undefined = (req) => req.params.id
+) {
   return (req: Request, _res: Response, next: NextFunction): void => {
     if (!req.user) {
       return next(new AuthenticationError('Authentication required'));
     }
 
-    // Check API key scopes first
-    if (req.apiKey && req.apiKey.scopes.includes(permission)) {
-      return next();
-    }
-
     // Check role-based permissions
-    const permissions: Record<UserRole, string[]> = {
-      [UserRole.ADMIN]: ['*'], // All permissions
-      [UserRole.PROVIDER]: [
-        'service:create',
-        'service:read',
-        'service:update',
-        'service:delete',
-        'service:publish',
-      ],
-      [UserRole.CONSUMER]: ['service:read', 'service:consume'],
-      [UserRole.VIEWER]: ['service:read'],
-    };
-    const userPermissions = permissions[req.user.role as UserRole] || [];
-    const hasPermission = userPermissions.includes('*') || userPermissions.includes(permission);
-
-    if (!hasPermission) {
+    if (!authService.hasPermission(routeRole(req), permission)) {
       return next(
         new AuthorizationError(
           `Insufficient permissions. Required: ${permission}`
@@ -273,6 +310,19 @@ export function requirePermission(permission: string) {
       );
     }
 
+    // API keys are further limited to their scopes and services
+    if (req.apiKey) {
+      const serviceId = getServiceIdFromRequest(req);
+
+      if (!apiKeyHasPermission(req.apiKey, permission, serviceId)) {
+        return next(
+          new AuthorizationError(
+            `API key scope does not allow ${permission}${serviceId ? ` on service ${serviceId}` : ''}`
+          )
+        );
+      }
+    }
+
     next();
   };
 }
@@ -303,6 +353,55 @@ export function requireOwnership(getUserIdFromRequest: (req: Request) => string)
   };
 }
 
+/**
+ * Require a recent second factor from admins before sensitive actions. A code
+ * may be sent inline in the `X-MFA-Code` header, which also opens the step-up
+ * window. API keys of admins must send a code with every such request: the
+ * owner's step-up window belongs to their sessions, not to their keys.
+ */
+export async function requireStepUp(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AuthenticationError('Authentication required');
+    }
+
+    if (routeRole(req) !== UserRole.ADMIN) {
+      return next();
+    }
+
+    if (!req.apiKey && (await mfaService.hasRecentStepUp(req.user.id))) {
+      return next();
+    }
+
+    if (!(await mfaService.isMfaEnabled(req.user.id))) {
+      throw new AuthorizationError('MFA enrollment is required for this action', {
+        mfaEnrollmentRequired: true,
+      });
+    }
+
+    const code = req.get('x-mfa-code');
+    if (!code) {
+      throw new AuthorizationError('Step-up MFA verification is required for this action', {
+        stepUpRequired: true,
+      });
+    }
+
+    if (req.apiKey) {
+      await mfaService.verifySecondFactor(req.user.id, { code });
+    } else {
+      await mfaService.stepUp(req.user.id, { code });
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Rate limiting check (using user ID)
  */
@@ -0,0 +1,22 @@
+import { redisClient, cacheDelete, cacheGet, cacheSet } from '../config/redis';
+import { IdempotencyRecord, createIdempotencyMiddleware } from '../utils/idempotency';
+
+/**
+ * Idempotency-Key support for service creation, versioning and submission.
+ * Responses are kept in Redis and replayed to retries of the same request.
+ */
+export const idempotent = createIdempotencyMiddleware(
+  {
+    claim: async (key, record, ttlSeconds) =>
+      (await redisClient.set(key, JSON.stringify(record), { NX: true, EX: ttlSeconds })) !== null,
+    get: (key) => cacheGet<IdempotencyRecord>(key),
+    save: (key, record, ttlSeconds) => cacheSet(key, record, ttlSeconds),
+    release: (key) => cacheDelete(key),
+  },
+  (statusCode, message, res) => {
+    res.status(statusCode).json({
+      success: false,
+      error: message,
+    });
+  }
+);
@@ -0,0 +1,25 @@
+/**
+ * Idempotency Middleware
+ * Replays the first response to an Idempotency-Key on service creation and
+ * publication, so retried requests do not repeat the change
+ */
+
+import { deleteCache, getCacheJSON, setCacheJSON, setCacheJSONIfAbsent } from '../common/redis';
+import { ConflictError, UnprocessableEntityError, ValidationError } from '../common/errors';
+import { IdempotencyRecord, createIdempotencyMiddleware } from '../utils/idempotency';
+
+export const idempotent = createIdempotencyMiddleware(
+  {
+    claim: (key, record, ttlSeconds) => setCacheJSONIfAbsent(key, record, ttlSeconds),
+    get: (key) => getCacheJSON<IdempotencyRecord>(key),
+    save: (key, record, ttlSeconds) => setCacheJSON(key, record, ttlSeconds),
+    release: (key) => deleteCache(key),
+  },
+  (statusCode, message, _res, next) => {
+    next(
+      statusCode === 400 ? new ValidationError(message) :
+      statusCode === 409 ? new ConflictError(message) :
+      new UnprocessableEntityError(message)
+    );
+  }
+);
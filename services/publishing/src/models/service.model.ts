@@ -90,6 +90,15 @@ export interface Provider {
   verified: boolean;
 }
 
+/**
+ * Team that owns a service, when it is team-owned
+ */
+export interface OwnerTeam {
+  id: string;
+  name: string;
+  slug: string;
+}
+
 /**
  * Service capability
  */
@@ -153,7 +162,13 @@ export interface ServiceMetadata {
   updatedAt: Date;
   publishedAt: Date | null;
   deprecatedAt: Date | null;
+  /** When a deprecated service stops being served */
+  sunsetAt: Date | null;
+  /** Service consumers of a deprecated service should migrate to */
+  successorServiceId: string | null;
   suspensionReason?: string;
+  /** Incremented on every update; the service's ETag */
+  revision: number;
 }
 
 /**
@@ -166,6 +181,7 @@ export interface Service {
   version: string;
   description: string;
   provider: Provider;
+  ownerTeam: OwnerTeam | null;
   category: ServiceCategory;
   tags: string[];
   capabilities: Capability[];
@@ -239,6 +255,7 @@ export const createServiceSchema = z.object({
   pricing: pricingSchema,
   sla: slaSchema,
   compliance: complianceSchema,
+  ownerTeamId: z.string().uuid().optional(),
 });
 
 /**
@@ -256,6 +273,15 @@ export const updateServiceSchema = z.object({
   suspensionReason: z.string().max(500).optional(),
 });
 
+/**
+ * Service deprecation input validation schema
+ */
+export const deprecateServiceSchema = z.object({
+  reason: z.string().min(1).max(500),
+  successorServiceId: z.string().uuid(),
+  gracePeriodDays: z.number().int().positive().max(730).optional(),
+});
+
 /**
  * Service search/filter parameters
  */
@@ -265,16 +291,46 @@ export interface ServiceSearchParams {
   tags?: string[];
   status?: ServiceStatus;
   providerId?: string;
+  ownerTeamId?: string;
   complianceLevel?: ComplianceLevel;
   minAvailability?: number;
   maxLatency?: number;
   pricingModel?: PricingModel;
   limit?: number;
   offset?: number;
-  sortBy?: 'createdAt' | 'publishedAt' | 'name' | 'popularity';
+  sortBy?: 'relevance' | 'createdAt' | 'publishedAt' | 'name' | 'popularity';
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * How a service matched a search query
+ */
+export interface ServiceSearchMatch {
+  rank: number;
+  snippet: string | null;
+}
+
+/**
+ * Facet counts over all services matching a search
+ */
+export interface ServiceSearchFacets {
+  category: Record<string, number>;
+  pricingModel: Record<string, number>;
+  complianceLevel: Record<string, number>;
+  supportLevel: Record<string, number>;
+}
+
+/**
+ * Service search results. `matches` is keyed by service ID and is empty
+ * when no query text was given.
+ */
+export interface ServiceSearchResult {
+  services: Service[];
+  total: number;
+  facets: ServiceSearchFacets;
+  matches: Record<string, ServiceSearchMatch>;
+}
+
 /**
  * Service DTO (Data Transfer Object) for API responses
  */
@@ -285,6 +341,7 @@ export interface ServiceDTO {
   version: string;
   description: string;
   provider: Provider;
+  ownerTeam: OwnerTeam | null;
   category: ServiceCategory;
   tags: string[];
   capabilities: Capability[];
@@ -297,6 +354,8 @@ export interface ServiceDTO {
   updatedAt: Date;
   publishedAt: Date | null;
   deprecatedAt: Date | null;
+  sunsetAt: Date | null;
+  successorServiceId: string | null;
 }
 
 /**
@@ -310,6 +369,7 @@ export function toServiceDTO(service: Service): ServiceDTO {
     version: service.version,
     description: service.description,
     provider: service.provider,
+    ownerTeam: service.ownerTeam,
     category: service.category,
     tags: service.tags,
     capabilities: service.capabilities,
@@ -322,6 +382,8 @@ export function toServiceDTO(service: Service): ServiceDTO {
     updatedAt: service.metadata.updatedAt,
     publishedAt: service.metadata.publishedAt,
     deprecatedAt: service.metadata.deprecatedAt,
+    sunsetAt: service.metadata.sunsetAt,
+    successorServiceId: service.metadata.successorServiceId,
   };
 }
 
@@ -0,0 +1,124 @@
+/**
+ * SSO Model
+ * Defines per-tenant OIDC connections and linked user identities
+ */
+
+import { z } from 'zod';
+import { UserRole } from './user.model';
+
+/**
+ * OIDC connection configured for a tenant
+ */
+export interface SsoConnection {
+  id: string;
+  tenantId: string;
+  issuer: string;
+  discoveryUrl: string | null;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string;
+  scopes: string[];
+  groupsClaim: string;
+  roleMappings: Record<string, UserRole>;
+  defaultRole: UserRole;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Link between a user and their subject at an identity provider
+ */
+export interface SsoIdentity {
+  id: string;
+  connectionId: string;
+  subject: string;
+  userId: string;
+  email: string | null;
+  lastLoginAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * SSO connection input validation schema
+ */
+export const ssoConnectionSchema = z.object({
+  issuer: z.string().url('Issuer must be a URL'),
+  discoveryUrl: z.string().url('Discovery URL must be a URL').optional(),
+  clientId: z.string().min(1, 'Client ID is required').max(255),
+  clientSecret: z.string().min(1).max(1024).optional(),
+  redirectUri: z.string().url('Redirect URI must be a URL'),
+  scopes: z
+    .array(z.string().min(1))
+    .default(['openid', 'email', 'profile'])
+    .refine((scopes) => scopes.includes('openid'), 'Scopes must include openid'),
+  groupsClaim: z.string().min(1).max(100).default('groups'),
+  roleMappings: z.record(z.nativeEnum(UserRole)).default({}),
+  defaultRole: z.nativeEnum(UserRole).default(UserRole.CONSUMER),
+  enabled: z.boolean().default(true),
+});
+
+export type SsoConnectionInput = z.infer<typeof ssoConnectionSchema>;
+
+/**
+ * SSO callback query validation schema
+ */
+export const ssoCallbackSchema = z.object({
+  code: z.string().min(1, 'Authorization code is required'),
+  state: z.string().min(1, 'State is required'),
+});
+
+/**
+ * SSO connection DTO (client secret is never returned)
+ */
+export interface SsoConnectionDTO extends Omit<SsoConnection, 'clientSecret'> {
+  hasClientSecret: boolean;
+}
+
+/**
+ * Convert SsoConnection to SsoConnectionDTO
+ */
+export function toSsoConnectionDTO(connection: SsoConnection): SsoConnectionDTO {
+  const { clientSecret, ...dto } = connection;
+  return { ...dto, hasClientSecret: Boolean(clientSecret) };
+}
+
+const ROLE_RANK: Record<UserRole, number> = {
+  [UserRole.ADMIN]: 4,
+  [UserRole.PROVIDER]: 3,
+  [UserRole.CONSUMER]: 2,
+  [UserRole.VIEWER]: 1,
+};
+
+/**
+ * Resolve a user's role from their IdP groups: the highest role mapped from
+ * any of the groups, or the connection's default role when none match
+ */
+export function resolveRoleFromGroups(
+  groups: string[],
+  roleMappings: Record<string, UserRole>,
+  defaultRole: UserRole
+): UserRole {
+  const mapped = groups
+    .map((group) => roleMappings[group])
+    .filter((role): role is UserRole => role !== undefined);
+
+  if (mapped.length === 0) {
+    return defaultRole;
+  }
+
+  return mapped.reduce((highest, role) => (ROLE_RANK[role] > ROLE_RANK[highest] ? role : highest));
+}
+
+/**
+ * Read the groups claim, which IdPs send as an array or a single string
+ */
+export function extractGroups(claims: Record<string, unknown>, groupsClaim: string): string[] {
+  const value = claims[groupsClaim];
+
+  if (Array.isArray(value)) {
+    return value.filter((group): group is string => typeof group === 'string');
+  }
+
+  return typeof value === 'string' ? [value] : [];
+}
@@ -0,0 +1,183 @@
+/**
+ * Team Model
+ * Defines teams that own services, their members' roles and service
+ * ownership transfers
+ */
+
+import { z } from 'zod';
+import { UserRole } from './user.model';
+
+/**
+ * Team member role enumeration
+ */
+export enum TeamRole {
+  OWNER = 'owner',
+  MAINTAINER = 'maintainer',
+  VIEWER = 'viewer',
+}
+
+/**
+ * Ownership transfer status enumeration
+ */
+export enum OwnershipTransferStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
+}
+
+/**
+ * Actions on a service that depend on ownership
+ */
+export type ServiceAction = 'read' | 'update' | 'publish' | 'delete' | 'transfer';
+
+/**
+ * Service actions allowed for each team role
+ */
+export const teamRoleActions: Record<TeamRole, ServiceAction[]> = {
+  [TeamRole.OWNER]: ['read', 'update', 'publish', 'delete', 'transfer'],
+  [TeamRole.MAINTAINER]: ['read', 'update', 'publish'],
+  [TeamRole.VIEWER]: ['read'],
+};
+
+/**
+ * Team entity interface
+ */
+export interface Team {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Team member entity interface
+ */
+export interface TeamMember {
+  teamId: string;
+  userId: string;
+  email: string;
+  name: string;
+  role: TeamRole;
+  addedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Service ownership transfer entity interface. The recipient is either a
+ * user or a team.
+ */
+export interface OwnershipTransfer {
+  id: string;
+  serviceId: string;
+  serviceName: string;
+  fromUserId: string;
+  fromTeamId: string | null;
+  toUserId: string | null;
+  toTeamId: string | null;
+  status: OwnershipTransferStatus;
+  message: string | null;
+  requestedBy: string;
+  respondedBy: string | null;
+  expiresAt: Date;
+  respondedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * The authenticated user acting on a team or service
+ */
+export interface Actor {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * Ownership of a service as seen by access checks
+ */
+export interface ServiceOwnership {
+  providerId: string;
+  ownerTeamId: string | null;
+}
+
+/**
+ * Team creation input validation schema
+ */
+export const createTeamSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  slug: z
+    .string()
+    .min(2)
+    .max(100)
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must be lowercase letters, digits and single hyphens'),
+  description: z.string().max(1000).optional(),
+});
+
+/**
+ * Team update input validation schema
+ */
+export const updateTeamSchema = createTeamSchema.omit({ slug: true }).partial();
+
+/**
+ * Team member input validation schema
+ */
+export const teamMemberSchema = z.object({
+  role: z.nativeEnum(TeamRole),
+});
+
+/**
+ * Ownership transfer request validation schema
+ */
+export const ownershipTransferSchema = z
+  .object({
+    toUserId: z.string().uuid().optional(),
+    toTeamId: z.string().uuid().optional(),
+    message: z.string().max(1000).optional(),
+  })
+  .refine((input) => Boolean(input.toUserId) !== Boolean(input.toTeamId), {
+    message: 'Provide exactly one of toUserId or toTeamId',
+  });
+
+export type CreateTeamInput = z.infer<typeof createTeamSchema>;
+export type UpdateTeamInput = z.infer<typeof updateTeamSchema>;
+export type OwnershipTransferInput = z.infer<typeof ownershipTransferSchema>;
+
+/**
+ * Whether a user may perform an action on a service. Admins may do anything;
+ * a team-owned service follows the user's role in the owning team; otherwise
+ * the publishing provider owns the service.
+ */
+export function canPerformServiceAction(
+  actor: Actor & { teamRole: TeamRole | null },
+  ownership: ServiceOwnership,
+  action: ServiceAction
+): boolean {
+  if (actor.role === UserRole.ADMIN) {
+    return true;
+  }
+
+  if (ownership.ownerTeamId) {
+    return actor.teamRole !== null && teamRoleActions[actor.teamRole].includes(action);
+  }
+
+  return ownership.providerId === actor.id;
+}
+
+/**
+ * Whether a team still has an owner after a member's role changes or the
+ * member is removed
+ */
+export function keepsAnOwner(
+  members: Array<Pick<TeamMember, 'userId' | 'role'>>,
+  userId: string,
+  newRole: TeamRole | null
+): boolean {
+  return members.some((member) =>
+    member.userId === userId ? newRole === TeamRole.OWNER : member.role === TeamRole.OWNER
+  );
+}
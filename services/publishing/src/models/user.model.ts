@@ -4,6 +4,8 @@
  */
 
 import { z } from 'zod';
+import { isValidCidr } from '../utils/cidr';
+import { describeUserAgent } from '../utils/user-agent';
 
 /**
  * User role enumeration
@@ -37,6 +39,7 @@ export interface User {
   role: UserRole;
   status: UserStatus;
   emailVerified: boolean;
+  mfaEnabled: boolean;
   lastLoginAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
@@ -89,6 +92,7 @@ export interface UserDTO {
   role: UserRole;
   status: UserStatus;
   emailVerified: boolean;
+  mfaEnabled: boolean;
   lastLoginAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
@@ -112,18 +116,117 @@ export interface ApiKey {
   keyPrefix: string;
   name: string;
   scopes: string[];
+  allowedServiceIds: string[] | null;
+  allowedCidrs: string[] | null;
   expiresAt: Date | null;
   lastUsedAt: Date | null;
+  requestCount: number;
+  lastUsedIp: string | null;
+  lastUsedUserAgent: string | null;
+  rotatedToId: string | null;
+  rotatedAt: Date | null;
+  expiryWarningSentAt: Date | null;
   createdAt: Date;
   revokedAt: Date | null;
 }
 
+/**
+ * API key scope vocabulary. `service:consume` may also be narrowed to a
+ * single service as `service:consume:<serviceId>`.
+ */
+export enum ApiKeyScope {
+  SERVICE_READ = 'service:read',
+  SERVICE_CREATE = 'service:create',
+  SERVICE_UPDATE = 'service:update',
+  SERVICE_DELETE = 'service:delete',
+  SERVICE_PUBLISH = 'service:publish',
+  SERVICE_SUSPEND = 'service:suspend',
+  SERVICE_CONSUME = 'service:consume',
+  ADMIN_AUDIT = 'admin:audit',
+}
+
+const SERVICE_CONSUME_PREFIX = `${ApiKeyScope.SERVICE_CONSUME}:`;
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check whether a scope string belongs to the vocabulary
+ */
+export function isValidScope(scope: string): boolean {
+  if ((Object.values(ApiKeyScope) as string[]).includes(scope)) {
+    return true;
+  }
+
+  return scope.startsWith(SERVICE_CONSUME_PREFIX) &&
+    uuidPattern.test(scope.slice(SERVICE_CONSUME_PREFIX.length));
+}
+
+/**
+ * Split a scope into the permission it grants and, for per-service scopes,
+ * the service it is limited to
+ */
+export function parseScope(scope: string): { permission: string; serviceId?: string } {
+  if (scope.startsWith(SERVICE_CONSUME_PREFIX)) {
+    return {
+      permission: ApiKeyScope.SERVICE_CONSUME,
+      serviceId: scope.slice(SERVICE_CONSUME_PREFIX.length),
+    };
+  }
+
+  return { permission: scope };
+}
+
+/**
+ * Check whether an API key's scopes allow a permission. Service-level
+ * permissions on a specific service must target one the key is restricted
+ * to, and `service:consume:<id>` scopes only match their own service.
+ */
+export function apiKeyHasPermission(
+  apiKey: { scopes: string[]; allowedServiceIds: string[] | null },
+  requiredPermission: string,
+  serviceId?: string
+): boolean {
+  const isServicePermission = requiredPermission.startsWith('service:');
+
+  if (isServicePermission && apiKey.allowedServiceIds && serviceId) {
+    if (!apiKey.allowedServiceIds.includes(serviceId)) {
+      return false;
+    }
+  }
+
+  return apiKey.scopes.some((scope) => {
+    const granted = parseScope(scope);
+
+    if (granted.permission !== requiredPermission) {
+      return false;
+    }
+
+    return !granted.serviceId || granted.serviceId === serviceId;
+  });
+}
+
 /**
  * API Key creation input validation schema
  */
 export const createApiKeySchema = z.object({
   name: z.string().min(1, 'API key name is required').max(100),
-  scopes: z.array(z.string()).min(1, 'At least one scope is required'),
+  scopes: z
+    .array(z.string().refine(isValidScope, (scope) => ({ message: `Unknown scope: ${scope}` })))
+    .min(1, 'At least one scope is required'),
+  allowedServiceIds: z.array(z.string().uuid('Invalid service ID')).min(1).max(100).optional(),
+  allowedCidrs: z
+    .array(z.string().refine(isValidCidr, (cidr) => ({ message: `Invalid CIDR range: ${cidr}` })))
+    .min(1)
+    .max(50)
+    .optional(),
+  expiresInDays: z.number().int().positive().max(365).optional(),
+});
+
+/**
+ * API Key rotation input validation schema
+ */
+export const rotateApiKeySchema = z.object({
+  overlapHours: z.number().int().nonnegative().max(720).optional(),
   expiresInDays: z.number().int().positive().max(365).optional(),
 });
 
@@ -135,8 +238,15 @@ export interface ApiKeyDTO {
   keyPrefix: string;
   name: string;
   scopes: string[];
+  allowedServiceIds: string[] | null;
+  allowedCidrs: string[] | null;
   expiresAt: Date | null;
   lastUsedAt: Date | null;
+  requestCount: number;
+  lastUsedIp: string | null;
+  lastUsedUserAgent: string | null;
+  rotatedToId: string | null;
+  rotatedAt: Date | null;
   createdAt: Date;
 }
 
@@ -144,21 +254,65 @@ export interface ApiKeyDTO {
  * Convert ApiKey to ApiKeyDTO
  */
 export function toApiKeyDTO(apiKey: ApiKey): ApiKeyDTO {
-  const { userId, keyHash, revokedAt, ...dto } = apiKey;
+  const { userId, keyHash, revokedAt, expiryWarningSentAt, ...dto } = apiKey;
   return dto;
 }
 
 /**
- * Session entity interface
+ * Identity and restrictions resolved from a valid API key
+ */
+export interface VerifiedApiKey {
+  apiKeyId: string;
+  userId: string;
+  role: UserRole;
+  scopes: string[];
+  allowedServiceIds: string[] | null;
+  expiresAt: Date | null;
+  rotatedToId: string | null;
+}
+
+/**
+ * Session entity interface. A session is one refresh token family: each
+ * refresh replaces `refreshTokenId`, and presenting any earlier token from
+ * the family revokes the session.
  */
 export interface Session {
   id: string;
   userId: string;
-  refreshToken: string;
-  expiresAt: Date;
-  createdAt: Date;
+  refreshTokenId: string;
   ipAddress?: string;
   userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  lastSeenIp?: string;
+  expiresAt: string;
+}
+
+/**
+ * Session data transfer object
+ */
+export interface SessionDTO {
+  id: string;
+  device: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  lastSeenIp?: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+/**
+ * Convert Session to DTO. `current` marks the session the request was made with.
+ */
+export function toSessionDTO(session: Session, currentSessionId?: string): SessionDTO {
+  const { userId, refreshTokenId, ...dto } = session;
+  return {
+    ...dto,
+    device: describeUserAgent(session.userAgent),
+    current: session.id === currentSessionId,
+  };
 }
 
 /**
@@ -169,6 +323,8 @@ export interface JWTPayload {
   email: string;
   role: UserRole;
   type: 'access' | 'refresh';
+  sid?: string; // session id
+  jti?: string; // refresh token id
   iat?: number; // issued at
   exp?: number; // expiration
   iss?: string; // issuer
@@ -184,3 +340,27 @@ export interface AuthResponse {
   refreshToken: string;
   expiresIn: number;
 }
+
+/**
+ * Returned by login instead of tokens when a second factor is needed.
+ * `enrollmentRequired` is set when the tenant requires MFA and the user has
+ * not enrolled yet.
+ */
+export interface MfaChallenge {
+  mfaRequired: true;
+  enrollmentRequired: boolean;
+  mfaToken: string;
+  expiresIn: number;
+}
+
+/**
+ * MFA code input validation schema (TOTP code or recovery code)
+ */
+export const mfaCodeSchema = z
+  .object({
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits').optional(),
+    recoveryCode: z.string().min(1).max(32).optional(),
+  })
+  .refine((input) => Boolean(input.code) !== Boolean(input.recoveryCode), {
+    message: 'Provide either code or recoveryCode',
+  });
@@ -0,0 +1,69 @@
+import { PolicyBundle } from '../types';
+
+/**
+ * Policies enforced when no bundle is configured: data residency,
+ * certification, HTTPS and enterprise SLA requirements for published services
+ */
+export const DEFAULT_POLICY_BUNDLE: PolicyBundle = {
+  id: 'marketplace-default',
+  version: '1.0.0',
+  description: 'Baseline marketplace publishing policies',
+  policies: [
+    {
+      id: 'data-residency-required',
+      target: 'service',
+      severity: 'high',
+      when: { field: 'service.compliance.dataResidency', op: 'empty' },
+      message: 'Service must specify at least one data residency location',
+      remediation: 'Add data residency information to compliance section',
+    },
+    {
+      id: 'restricted-countries',
+      target: 'service',
+      severity: 'critical',
+      when: { field: 'service.compliance.dataResidency', op: 'contains_any', value: ['KP', 'IR', 'SY'] },
+      message: 'Service cannot have data residency in restricted countries',
+      remediation: 'Remove restricted countries from data residency list',
+    },
+    {
+      id: 'confidential-certification-required',
+      target: 'service',
+      severity: 'high',
+      when: {
+        all: [
+          { field: 'service.compliance.level', op: 'eq', value: 'confidential' },
+          { field: 'service.compliance.certifications', op: 'empty' },
+        ],
+      },
+      message: 'Confidential services must have security certifications',
+      remediation: 'Add security certifications (e.g., SOC2, ISO27001)',
+    },
+    {
+      id: 'https-required',
+      target: 'service',
+      severity: 'critical',
+      when: {
+        all: [
+          { field: 'environment', op: 'eq', value: 'production' },
+          { field: 'service.endpoint.url', op: 'exists' },
+          { not: { field: 'service.endpoint.url', op: 'starts_with', value: 'https://' } },
+        ],
+      },
+      message: 'Production services must use HTTPS endpoints',
+      remediation: 'Update endpoint URL to use HTTPS',
+    },
+    {
+      id: 'enterprise-sla-minimum',
+      target: 'service',
+      severity: 'medium',
+      when: {
+        all: [
+          { field: 'service.sla.supportLevel', op: 'eq', value: 'enterprise' },
+          { field: 'service.sla.availability', op: 'lt', value: 99.9 },
+        ],
+      },
+      message: 'Enterprise support level requires at least 99.9% availability SLA',
+      remediation: 'Increase availability SLA to 99.9% or higher',
+    },
+  ],
+};
@@ -0,0 +1,329 @@
+import { z } from 'zod';
+import * as semver from 'semver';
+import {
+  PolicyBundle,
+  PolicyCondition,
+  PolicyDefinition,
+  PolicyDryRunResult,
+  PolicyEvaluation,
+  PolicyOperator,
+  PolicyTarget,
+  PolicyViolation,
+  Service,
+} from '../types';
+
+type Predicate = (input: Record<string, unknown>) => boolean;
+
+export interface CompiledPolicy extends PolicyDefinition {
+  test: Predicate;
+}
+
+export interface CompiledPolicyBundle {
+  id: string;
+  version: string;
+  description?: string;
+  policies: CompiledPolicy[];
+}
+
+const LIST_OPERATORS: PolicyOperator[] = ['in', 'not_in', 'contains_any'];
+const NUMBER_OPERATORS: PolicyOperator[] = ['gt', 'gte', 'lt', 'lte'];
+const STRING_OPERATORS: PolicyOperator[] = ['starts_with', 'matches'];
+const UNARY_OPERATORS: PolicyOperator[] = ['exists', 'empty'];
+
+const conditionSchema: z.ZodType<PolicyCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(conditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(conditionSchema).min(1) }).strict(),
+    z.object({ not: conditionSchema }).strict(),
+    z.object({
+      field: z.string().min(1).max(200),
+      op: z.enum([
+        'eq', 'neq', 'in', 'not_in', 'gt', 'gte', 'lt', 'lte',
+        'exists', 'empty', 'contains', 'contains_any', 'starts_with', 'matches',
+      ]),
+      value: z.unknown().optional(),
+    }).strict(),
+  ])
+);
+
+const policyBundleSchema = z.object({
+  id: z.string().min(1).max(100),
+  version: z.string().refine((v) => semver.valid(v) !== null, {
+    message: 'Version must be valid semver',
+  }),
+  description: z.string().max(1000).optional(),
+  policies: z.array(z.object({
+    id: z.string().min(1).max(100),
+    description: z.string().max(1000).optional(),
+    target: z.enum(['service', 'consumption', 'access']),
+    severity: z.enum(['critical', 'high', 'medium', 'low']),
+    when: conditionSchema,
+    message: z.string().min(1).max(1000),
+    remediation: z.string().max(1000).optional(),
+    enabled: z.boolean().optional(),
+  })),
+});
+
+/**
+ * Check the shape of a policy bundle read from a file, the database or a
+ * request. `origin` names where it came from in the error message.
+ */
+export function parsePolicyBundle(raw: unknown, origin: string): PolicyBundle {
+  const parsed = policyBundleSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid policy bundle from ${origin}: ` +
+        parsed.error.errors.map((e) => `${e.path.join('.') || 'bundle'} ${e.message}`).join(', ')
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Turn every condition into a predicate up front, so that a bad operand or
+ * regular expression fails when the bundle is loaded rather than on first use
+ */
+export function compilePolicyBundle(bundle: PolicyBundle): CompiledPolicyBundle {
+  const seen = new Set<string>();
+
+  const policies = bundle.policies.map((policy) => {
+    if (seen.has(policy.id)) {
+      throw new Error(`Invalid policy bundle ${bundle.id}@${bundle.version}: policy ${policy.id} is defined more than once`);
+    }
+    seen.add(policy.id);
+
+    try {
+      return { ...policy, test: compileCondition(policy.when) };
+    } catch (error) {
+      throw new Error(
+        `Invalid policy bundle ${bundle.id}@${bundle.version}: policy ${policy.id}: ${(error as Error).message}`
+      );
+    }
+  });
+
+  return { id: bundle.id, version: bundle.version, description: bundle.description, policies };
+}
+
+/**
+ * Evaluate the enabled policies of a target against an input document, e.g.
+ * `{ service, environment }` for services. A policy whose condition throws
+ * fires, so that a broken policy fails closed.
+ */
+export function evaluatePolicies(
+  bundle: CompiledPolicyBundle,
+  target: PolicyTarget,
+  input: Record<string, unknown>
+): PolicyDryRunResult {
+  const fired: PolicyViolation[] = [];
+  const evaluations: PolicyEvaluation[] = [];
+
+  for (const policy of bundle.policies) {
+    if (policy.target !== target || policy.enabled === false) {
+      continue;
+    }
+
+    let matched: boolean;
+    let message = policy.message;
+
+    try {
+      matched = policy.test(input);
+    } catch (error) {
+      matched = true;
+      message = `Policy ${policy.id} failed to evaluate: ${(error as Error).message}`;
+    }
+
+    evaluations.push({
+      policy: policy.id,
+      fired: matched,
+      severity: policy.severity,
+      message: matched ? message : undefined,
+    });
+
+    if (matched) {
+      fired.push({
+        policy: policy.id,
+        severity: policy.severity,
+        message,
+        remediation: policy.remediation,
+      });
+    }
+  }
+
+  return {
+    bundle: { id: bundle.id, version: bundle.version },
+    target,
+    allowed: fired.length === 0,
+    fired,
+    evaluations,
+  };
+}
+
+const dryRunBundleSchema = z.unknown().optional();
+
+/**
+ * Body of a dry run: the spec or request to evaluate and, optionally, a
+ * candidate bundle to evaluate instead of the active one
+ */
+export const policyDryRunSchema = z.discriminatedUnion('target', [
+  z.object({
+    target: z.literal('service'),
+    service: z.record(z.unknown()),
+    bundle: dryRunBundleSchema,
+  }),
+  z.object({
+    target: z.literal('consumption'),
+    consumerId: z.string().min(1),
+    serviceId: z.string().min(1),
+    request: z.record(z.unknown()).default({}),
+    bundle: dryRunBundleSchema,
+  }),
+  z.object({
+    target: z.literal('access'),
+    userId: z.string().min(1),
+    serviceId: z.string().min(1),
+    bundle: dryRunBundleSchema,
+  }),
+]);
+
+export type PolicyDryRunInput = z.infer<typeof policyDryRunSchema>;
+
+/**
+ * Input document of service policies
+ */
+export function servicePolicyInput(
+  service: Partial<Service>,
+  environment: string = process.env.NODE_ENV || 'development'
+): Record<string, unknown> {
+  return { service, environment };
+}
+
+/**
+ * Input document of consumption policies
+ */
+export function consumptionPolicyInput(
+  consumerId: string,
+  serviceId: string,
+  request: Record<string, unknown>,
+  environment: string = process.env.NODE_ENV || 'development'
+): Record<string, unknown> {
+  return { consumer: { id: consumerId }, service: { id: serviceId }, request, environment };
+}
+
+/**
+ * Input document of access policies
+ */
+export function accessPolicyInput(
+  userId: string,
+  serviceId: string,
+  environment: string = process.env.NODE_ENV || 'development'
+): Record<string, unknown> {
+  return { user: { id: userId }, service: { id: serviceId }, environment };
+}
+
+function compileCondition(condition: PolicyCondition): Predicate {
+  if ('all' in condition) {
+    const parts = condition.all.map(compileCondition);
+    return (input) => parts.every((part) => part(input));
+  }
+
+  if ('any' in condition) {
+    const parts = condition.any.map(compileCondition);
+    return (input) => parts.some((part) => part(input));
+  }
+
+  if ('not' in condition) {
+    const part = compileCondition(condition.not);
+    return (input) => !part(input);
+  }
+
+  const { field, op, value } = condition;
+  const path = field.split('.');
+  const compare = compileOperator(field, op, value);
+
+  return (input) => compare(resolvePath(input, path));
+}
+
+function compileOperator(field: string, op: PolicyOperator, value: unknown): (actual: unknown) => boolean {
+  if (LIST_OPERATORS.includes(op) && !Array.isArray(value)) {
+    throw new Error(`${op} on ${field} needs a list value`);
+  }
+
+  if (NUMBER_OPERATORS.includes(op) && typeof value !== 'number') {
+    throw new Error(`${op} on ${field} needs a numeric value`);
+  }
+
+  if (STRING_OPERATORS.includes(op) && typeof value !== 'string') {
+    throw new Error(`${op} on ${field} needs a string value`);
+  }
+
+  if (!UNARY_OPERATORS.includes(op) && value === undefined) {
+    throw new Error(`${op} on ${field} needs a value`);
+  }
+
+  switch (op) {
+    case 'eq':
+      return (actual) => actual === value;
+    case 'neq':
+      return (actual) => actual !== value;
+    case 'in':
+      return (actual) => (value as unknown[]).includes(actual);
+    case 'not_in':
+      return (actual) => !(value as unknown[]).includes(actual);
+    case 'gt':
+      return (actual) => typeof actual === 'number' && actual > (value as number);
+    case 'gte':
+      return (actual) => typeof actual === 'number' && actual >= (value as number);
+    case 'lt':
+      return (actual) => typeof actual === 'number' && actual < (value as number);
+    case 'lte':
+      return (actual) => typeof actual === 'number' && actual <= (value as number);
+    case 'exists':
+      return (actual) => actual !== undefined && actual !== null;
+    case 'empty':
+      return isEmpty;
+    case 'contains':
+      return (actual) =>
+        Array.isArray(actual) ? actual.includes(value) :
+        typeof actual === 'string' && typeof value === 'string' && actual.includes(value);
+    case 'contains_any':
+      return (actual) => Array.isArray(actual) && actual.some((item) => (value as unknown[]).includes(item));
+    case 'starts_with':
+      return (actual) => typeof actual === 'string' && actual.startsWith(value as string);
+    case 'matches': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(value as string);
+      } catch (error) {
+        throw new Error(`matches on ${field} has an invalid pattern: ${(error as Error).message}`);
+      }
+      return (actual) => typeof actual === 'string' && pattern.test(actual);
+    }
+  }
+}
+
+function resolvePath(input: unknown, path: string[]): unknown {
+  let current = input;
+
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current;
+}
+
+function isEmpty(actual: unknown): boolean {
+  if (actual === undefined || actual === null || actual === '') {
+    return true;
+  }
+
+  if (Array.isArray(actual)) {
+    return actual.length === 0;
+  }
+
+  return typeof actual === 'object' && Object.keys(actual as object).length === 0;
+}
@@ -0,0 +1,136 @@
+/**
+ * MFA Repository
+ * Database access layer for TOTP secrets and recovery codes
+ */
+
+import { PoolClient } from 'pg';
+import { query, queryOne, transaction } from '../common/database';
+
+/**
+ * Stored MFA state for a user
+ */
+export interface MfaState {
+  enabled: boolean;
+  encryptedSecret: string | null;
+  lastUsedStep: number | null;
+}
+
+/**
+ * Get a user's MFA state
+ */
+export async function getMfaState(userId: string): Promise<MfaState | null> {
+  const sql = 'SELECT mfa_enabled, mfa_secret, mfa_last_used_step FROM users WHERE id = $1';
+  const row = await queryOne<any>(sql, [userId]);
+
+  if (!row) {
+    return null;
+  }
+
+  return {
+    enabled: row.mfa_enabled,
+    encryptedSecret: row.mfa_secret,
+    lastUsedStep: row.mfa_last_used_step === null ? null : Number(row.mfa_last_used_step),
+  };
+}
+
+/**
+ * Store a secret awaiting confirmation. MFA stays off until it is confirmed.
+ */
+export async function setPendingSecret(userId: string, encryptedSecret: string): Promise<void> {
+  const sql = `
+    UPDATE users
+    SET mfa_secret = $2, mfa_enabled = false, mfa_last_used_step = NULL, updated_at = NOW()
+    WHERE id = $1
+  `;
+  await query(sql, [userId, encryptedSecret]);
+}
+
+/**
+ * Turn MFA on and store the recovery codes, in one transaction
+ */
+export async function enableMfa(userId: string, step: number, recoveryCodeHashes: string[]): Promise<void> {
+  await transaction(async (client) => {
+    await client.query(
+      `UPDATE users
+       SET mfa_enabled = true, mfa_last_used_step = $2, mfa_enrolled_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [userId, step]
+    );
+    await insertRecoveryCodes(client, userId, recoveryCodeHashes);
+  });
+}
+
+/**
+ * Turn MFA off and discard the secret and recovery codes
+ */
+export async function disableMfa(userId: string): Promise<void> {
+  await transaction(async (client) => {
+    await client.query(
+      `UPDATE users
+       SET mfa_enabled = false, mfa_secret = NULL, mfa_last_used_step = NULL,
+           mfa_enrolled_at = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [userId]
+    );
+    await client.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+  });
+}
+
+/**
+ * Record an accepted TOTP step. Returns false when the step (or a later one)
+ * was already used, so each code works only once.
+ */
+export async function recordUsedStep(userId: string, step: number): Promise<boolean> {
+  const sql = `
+    UPDATE users
+    SET mfa_last_used_step = $2
+    WHERE id = $1 AND (mfa_last_used_step IS NULL OR mfa_last_used_step < $2)
+    RETURNING id
+  `;
+  const row = await queryOne<any>(sql, [userId, step]);
+  return row !== null;
+}
+
+/**
+ * Replace all of a user's recovery codes
+ */
+export async function replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+  await transaction(async (client) => {
+    await client.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+    await insertRecoveryCodes(client, userId, codeHashes);
+  });
+}
+
+/**
+ * Mark a recovery code used. Returns false when it does not exist or was
+ * already used.
+ */
+export async function consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+  const sql = `
+    UPDATE mfa_recovery_codes
+    SET used_at = NOW()
+    WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+    RETURNING id
+  `;
+  const row = await queryOne<any>(sql, [userId, codeHash]);
+  return row !== null;
+}
+
+/**
+ * Count a user's unused recovery codes
+ */
+export async function countUnusedRecoveryCodes(userId: string): Promise<number> {
+  const sql = 'SELECT COUNT(*) AS count FROM mfa_recovery_codes WHERE user_id = $1 AND used_at IS NULL';
+  const row = await queryOne<any>(sql, [userId]);
+  return row ? parseInt(row.count, 10) : 0;
+}
+
+async function insertRecoveryCodes(
+  client: PoolClient,
+  userId: string,
+  codeHashes: string[]
+): Promise<void> {
+  for (const codeHash of codeHashes) {
+    await client.query('INSERT INTO mfa_recovery_codes (user_id, code_hash) VALUES ($1, $2)', [userId, codeHash]);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Ownership Transfer Repository
+ * Database access layer for service ownership transfers
+ */
+
+import { queryOne, queryMany, transaction } from '../common/database';
+import { DatabaseError } from '../common/errors';
+import { OwnershipTransfer, OwnershipTransferStatus } from '../models/team.model';
+
+const SELECT_TRANSFER = `
+  SELECT tr.*, s.name as service_name
+  FROM service_ownership_transfers tr
+  JOIN services s ON s.id = tr.service_id
+`;
+
+/**
+ * Create a pending transfer
+ */
+export async function create(input: {
+  serviceId: string;
+  fromUserId: string;
+  fromTeamId: string | null;
+  toUserId: string | null;
+  toTeamId: string | null;
+  message: string | null;
+  requestedBy: string;
+  expiresAt: Date;
+}): Promise<OwnershipTransfer> {
+  const sql = `
+    INSERT INTO service_ownership_transfers (
+      service_id, from_user_id, from_team_id, to_user_id, to_team_id,
+      message, requested_by, expires_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING id
+  `;
+
+  const result = await queryOne<{ id: string }>(sql, [
+    input.serviceId,
+    input.fromUserId,
+    input.fromTeamId,
+    input.toUserId,
+    input.toTeamId,
+    input.message,
+    input.requestedBy,
+    input.expiresAt,
+  ]);
+
+  if (!result) {
+    throw new DatabaseError('Failed to create ownership transfer');
+  }
+
+  return (await findById(result.id))!;
+}
+
+/**
+ * Find transfer by ID
+ */
+export async function findById(id: string): Promise<OwnershipTransfer | null> {
+  const result = await queryOne<any>(`${SELECT_TRANSFER} WHERE tr.id = $1`, [id]);
+  return result ? mapTransferRow(result) : null;
+}
+
+/**
+ * Find the pending transfer for a service
+ */
+export async function findPendingByService(serviceId: string): Promise<OwnershipTransfer | null> {
+  const result = await queryOne<any>(`${SELECT_TRANSFER} WHERE tr.service_id = $1 AND tr.status = $2`, [
+    serviceId,
+    OwnershipTransferStatus.PENDING,
+  ]);
+  return result ? mapTransferRow(result) : null;
+}
+
+/**
+ * List a service's transfers, newest first
+ */
+export async function findByService(serviceId: string): Promise<OwnershipTransfer[]> {
+  const result = await queryMany<any>(`${SELECT_TRANSFER} WHERE tr.service_id = $1 ORDER BY tr.created_at DESC`, [
+    serviceId,
+  ]);
+  return result.map(mapTransferRow);
+}
+
+/**
+ * List unexpired pending transfers addressed to a user, directly or to a
+ * team they own
+ */
+export async function findPendingForRecipient(userId: string): Promise<OwnershipTransfer[]> {
+  const sql = `
+    ${SELECT_TRANSFER}
+    WHERE tr.status = $2
+      AND tr.expires_at > NOW()
+      AND (
+        tr.to_user_id = $1
+        OR tr.to_team_id IN (SELECT team_id FROM team_members WHERE user_id = $1 AND role = 'owner')
+      )
+    ORDER BY tr.created_at DESC
+  `;
+
+  const result = await queryMany<any>(sql, [userId, OwnershipTransferStatus.PENDING]);
+  return result.map(mapTransferRow);
+}
+
+/**
+ * List unexpired pending transfers a user requested
+ */
+export async function findPendingRequestedBy(userId: string): Promise<OwnershipTransfer[]> {
+  const sql = `
+    ${SELECT_TRANSFER}
+    WHERE tr.requested_by = $1 AND tr.status = $2 AND tr.expires_at > NOW()
+    ORDER BY tr.created_at DESC
+  `;
+
+  const result = await queryMany<any>(sql, [userId, OwnershipTransferStatus.PENDING]);
+  return result.map(mapTransferRow);
+}
+
+/**
+ * Close a pending transfer without applying it. Returns false when it was no
+ * longer pending.
+ */
+export async function close(
+  id: string,
+  status: OwnershipTransferStatus.DECLINED | OwnershipTransferStatus.CANCELLED | OwnershipTransferStatus.EXPIRED,
+  respondedBy: string | null
+): Promise<boolean> {
+  const sql = `
+    UPDATE service_ownership_transfers
+    SET status = $2, responded_by = $3, responded_at = NOW()
+    WHERE id = $1 AND status = 'pending'
+    RETURNING id
+  `;
+
+  const result = await queryOne<any>(sql, [id, status, respondedBy]);
+  return result !== null;
+}
+
+/**
+ * Accept a pending transfer and move ownership of every version of the
+ * service held by the same owner, in one transaction. Returns the IDs of the
+ * services moved, or null when the transfer was no longer pending.
+ */
+export async function accept(transfer: OwnershipTransfer, respondedBy: string): Promise<string[] | null> {
+  return transaction(async (client) => {
+    const closed = await client.query(
+      `UPDATE service_ownership_transfers
+       SET status = 'accepted', responded_by = $2, responded_at = NOW()
+       WHERE id = $1 AND status = 'pending'`,
+      [transfer.id, respondedBy]
+    );
+
+    if (closed.rowCount === 0) {
+      return null;
+    }
+
+    // A user recipient becomes the provider of a user-owned service; a team
+    // recipient takes over while the provider stays as the publisher of record
+    const moved = await client.query(
+      `UPDATE services
+       SET provider_id = COALESCE($4, provider_id),
+           owner_team_id = $5,
+           updated_at = NOW()
+       WHERE name = $1
+         AND provider_id = $2
+         AND owner_team_id IS NOT DISTINCT FROM $3
+       RETURNING id`,
+      [transfer.serviceName, transfer.fromUserId, transfer.fromTeamId, transfer.toUserId, transfer.toTeamId]
+    );
+
+    return moved.rows.map((row) => row.id as string);
+  });
+}
+
+/**
+ * Map database row to OwnershipTransfer entity
+ */
+function mapTransferRow(row: any): OwnershipTransfer {
+  return {
+    id: row.id,
+    serviceId: row.service_id,
+    serviceName: row.service_name,
+    fromUserId: row.from_user_id,
+    fromTeamId: row.from_team_id,
+    toUserId: row.to_user_id,
+    toTeamId: row.to_team_id,
+    status: row.status as OwnershipTransferStatus,
+    message: row.message,
+    requestedBy: row.requested_by,
+    respondedBy: row.responded_by,
+    expiresAt: row.expires_at,
+    respondedAt: row.responded_at,
+    createdAt: row.created_at,
+  };
+}
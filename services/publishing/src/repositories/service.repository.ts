@@ -3,20 +3,30 @@
  * Database access layer for service-related operations
  */
 
-import { query, queryOne, queryMany } from '../common/database';
+import { query, queryOne, queryMany, transaction } from '../common/database';
 import {
   Service,
   ServiceStatus,
   ServiceCategory,
   ServiceSearchParams,
+  ServiceSearchResult,
+  ServiceSearchMatch,
+  ServiceSearchFacets,
   Capability,
   Endpoint,
   Pricing,
   SLA,
   Compliance,
 } from '../models/service.model';
-import { DatabaseError, NotFoundError, ConflictError } from '../common/errors';
+import { DatabaseError, NotFoundError, ConflictError, PreconditionFailedError } from '../common/errors';
 import { logger } from '../common/logger';
+import { TS_HEADLINE_OPTIONS, renderSnippet } from '../utils/search-snippet';
+import { DeprecationStore } from '../services/deprecation-store';
+import { OutboxStore, serviceDeprecatedEvents } from '../services/outbox-store';
+import { ServiceDeprecation } from '../types';
+
+const deprecationStore = new DeprecationStore();
+const outboxStore = new OutboxStore();
 
 /**
  * Create a new service
@@ -35,6 +45,7 @@ export async function create(
     pricing: Pricing;
     sla: SLA;
     compliance: Compliance;
+    ownerTeamId?: string;
   }
 ): Promise<Service> {
   // Check for duplicate name+version
@@ -47,8 +58,8 @@ export async function create(
     INSERT INTO services (
       registry_id, name, version, description, provider_id,
       category, tags, capabilities, endpoint, pricing, sla, compliance,
-      status
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      status, owner_team_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
     RETURNING *
   `;
 
@@ -66,6 +77,7 @@ export async function create(
     JSON.stringify(input.sla),
     JSON.stringify(input.compliance),
     ServiceStatus.PENDING_APPROVAL,
+    input.ownerTeamId ?? null,
   ]);
 
   if (!result) {
@@ -74,7 +86,8 @@ export async function create(
 
   logger.info('Service created', { serviceId: result.id, name: input.name, version: input.version });
 
-  return mapServiceRow(result);
+  // Fetch full service with provider and team info
+  return (await findById(result.id))!;
 }
 
 /**
@@ -85,9 +98,12 @@ export async function findById(id: string): Promise<Service | null> {
     SELECT s.*,
            u.id as provider_id,
            u.first_name || ' ' || u.last_name as provider_name,
-           false as provider_verified
+           false as provider_verified,
+           t.name as owner_team_name,
+           t.slug as owner_team_slug
     FROM services s
     JOIN users u ON s.provider_id = u.id
+    LEFT JOIN teams t ON s.owner_team_id = t.id
     WHERE s.id = $1
   `;
 
@@ -103,9 +119,12 @@ export async function findByNameAndVersion(name: string, version: string): Promi
     SELECT s.*,
            u.id as provider_id,
            u.first_name || ' ' || u.last_name as provider_name,
-           false as provider_verified
+           false as provider_verified,
+           t.name as owner_team_name,
+           t.slug as owner_team_slug
     FROM services s
     JOIN users u ON s.provider_id = u.id
+    LEFT JOIN teams t ON s.owner_team_id = t.id
     WHERE s.name = $1 AND s.version = $2
   `;
 
@@ -121,9 +140,12 @@ export async function findVersions(name: string): Promise<Service[]> {
     SELECT s.*,
            u.id as provider_id,
            u.first_name || ' ' || u.last_name as provider_name,
-           false as provider_verified
+           false as provider_verified,
+           t.name as owner_team_name,
+           t.slug as owner_team_slug
     FROM services s
     JOIN users u ON s.provider_id = u.id
+    LEFT JOIN teams t ON s.owner_team_id = t.id
     WHERE s.name = $1
     ORDER BY s.created_at DESC
   `;
@@ -133,7 +155,9 @@ export async function findVersions(name: string): Promise<Service[]> {
 }
 
 /**
- * Update service
+ * Update service. With `ifRevision`, the update only applies if the service
+ * is still at one of those revisions, so concurrent writers cannot silently
+ * overwrite each other.
  */
 export async function update(
   serviceId: string,
@@ -147,7 +171,8 @@ export async function update(
     compliance?: Compliance;
     status?: ServiceStatus;
     suspensionReason?: string;
-  }
+  },
+  options: { ifRevision?: number[] } = {}
 ): Promise<Service> {
   const updates: string[] = [];
   const values: any[] = [];
@@ -192,9 +217,11 @@ export async function update(
     updates.push(`status = $${paramCount++}`);
     values.push(input.status);
 
-    // Set published_at when transitioning to active
+    // Set published_at when transitioning to active; a reactivated service
+    // is no longer heading for a sunset
     if (input.status === ServiceStatus.ACTIVE) {
       updates.push(`published_at = NOW()`);
+      updates.push(`sunset_at = NULL`, `successor_service_id = NULL`);
     }
 
     // Set deprecated_at when transitioning to deprecated
@@ -213,18 +240,32 @@ export async function update(
   }
 
   values.push(serviceId);
+  let where = `id = $${paramCount++}`;
+
+  if (options.ifRevision !== undefined) {
+    values.push(options.ifRevision);
+    where += ` AND revision = ANY($${paramCount++})`;
+  }
 
   const sql = `
     UPDATE services
     SET ${updates.join(', ')}, updated_at = NOW()
-    WHERE id = $${paramCount}
+    WHERE ${where}
     RETURNING *
   `;
 
-  const result = await queryOne<any>(sql, values);
+  const result = await transaction(async (client) => {
+    const updated = await client.query(sql, values);
+
+    if (updated.rows.length > 0 && input.status === ServiceStatus.ACTIVE) {
+      await deprecationStore.cancelDeprecation(serviceId, client);
+    }
+
+    return updated.rows[0] ?? null;
+  });
 
   if (!result) {
-    throw new NotFoundError('Service', serviceId);
+    throw await notUpdatedError(serviceId, options.ifRevision);
   }
 
   logger.info('Service updated', { serviceId, updates: Object.keys(input) });
@@ -233,6 +274,66 @@ export async function update(
   return (await findById(serviceId))!;
 }
 
+/**
+ * Deprecate a service and add it to the deprecation schedule, with its
+ * outbox events, in one transaction. The DeprecationScheduler notifies
+ * the service's consumers and retires it once the sunset passes.
+ */
+export async function deprecate(
+  service: Service,
+  deprecation: Pick<ServiceDeprecation, 'reason' | 'successorServiceId' | 'successorVersion' | 'sunsetAt'>,
+  options: { ifRevision?: number[] } = {}
+): Promise<{ service: Service; deprecation: ServiceDeprecation }> {
+  const scheduled = await transaction(async (client) => {
+    const updated = await client.query(
+      `UPDATE services
+       SET status = $2, deprecated_at = NOW(), sunset_at = $3, successor_service_id = $4, updated_at = NOW()
+       WHERE id = $1 AND ($5::int[] IS NULL OR revision = ANY($5))`,
+      [
+        service.id,
+        ServiceStatus.DEPRECATED,
+        deprecation.sunsetAt,
+        deprecation.successorServiceId,
+        options.ifRevision ?? null,
+      ]
+    );
+
+    if (updated.rowCount === 0) {
+      return null;
+    }
+
+    const created = await deprecationStore.createDeprecation({ serviceId: service.id, ...deprecation }, client);
+    await outboxStore.enqueue(serviceDeprecatedEvents(service.provider.id, created), client);
+
+    return created;
+  });
+
+  if (!scheduled) {
+    throw await notUpdatedError(service.id, options.ifRevision);
+  }
+
+  logger.info('Service deprecated', { serviceId: service.id, sunsetAt: scheduled.sunsetAt });
+
+  return { service: (await findById(service.id))!, deprecation: scheduled };
+}
+
+/**
+ * Why a conditional update matched no row: the service moved past the
+ * expected revisions, or it does not exist
+ */
+async function notUpdatedError(serviceId: string, ifRevision?: number[]): Promise<Error> {
+  const current = ifRevision !== undefined ? await findById(serviceId) : null;
+
+  if (current) {
+    return new PreconditionFailedError(
+      `Service ${serviceId} has been modified since it was read; fetch it again and retry`,
+      { currentRevision: current.metadata.revision }
+    );
+  }
+
+  return new NotFoundError('Service', serviceId);
+}
+
 /**
  * Delete service (soft delete by setting status to retired)
  */
@@ -249,25 +350,26 @@ export async function deleteService(serviceId: string): Promise<void> {
 }
 
 /**
- * Search services with filters
+ * Search services with filters. Query text is matched against the weighted
+ * full-text search vector, with trigram similarity on the name to tolerate
+ * typos. Facet counts cover every service matching the query and filters.
  */
-export async function search(params: ServiceSearchParams): Promise<{
-  services: Service[];
-  total: number;
-}> {
+export async function search(params: ServiceSearchParams): Promise<ServiceSearchResult> {
   const conditions: string[] = [];
   const values: any[] = [];
   let paramCount = 1;
 
   // Build WHERE clause
-  if (params.query) {
+  let queryParam: string | null = null;
+  if (params.query && params.query.trim().length > 0) {
+    queryParam = `$${paramCount++}`;
+    values.push(params.query.trim());
+
     conditions.push(`(
-      s.name ILIKE $${paramCount} OR
-      s.description ILIKE $${paramCount} OR
-      $${paramCount} = ANY(s.tags)
+      s.search_vector @@ websearch_to_tsquery('english', ${queryParam}) OR
+      ${queryParam} <% s.name OR
+      EXISTS (SELECT 1 FROM unnest(s.tags) AS tag WHERE tag % ${queryParam})
     )`);
-    values.push(`%${params.query}%`);
-    paramCount++;
   }
 
   if (params.category) {
@@ -294,6 +396,11 @@ export async function search(params: ServiceSearchParams): Promise<{
     values.push(params.providerId);
   }
 
+  if (params.ownerTeamId) {
+    conditions.push(`s.owner_team_id = $${paramCount++}`);
+    values.push(params.ownerTeamId);
+  }
+
   if (params.complianceLevel) {
     conditions.push(`s.compliance->>'level' = $${paramCount++}`);
     values.push(params.complianceLevel);
@@ -316,42 +423,78 @@ export async function search(params: ServiceSearchParams): Promise<{
 
   const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-  // Get total count
-  const countSql = `
-    SELECT COUNT(*)
+  // Get total count and facet counts in one pass
+  const facetSql = `
+    SELECT
+      s.category::text AS category,
+      s.pricing->>'model' AS pricing_model,
+      s.compliance->>'level' AS compliance_level,
+      s.sla->>'supportLevel' AS support_level,
+      COUNT(*) AS count,
+      GROUPING(s.category, s.pricing->>'model', s.compliance->>'level', s.sla->>'supportLevel') AS grouping_id
     FROM services s
     ${whereClause}
+    GROUP BY GROUPING SETS (
+      (),
+      (s.category),
+      (s.pricing->>'model'),
+      (s.compliance->>'level'),
+      (s.sla->>'supportLevel')
+    )
   `;
 
-  const countResult = await queryOne<{ count: string }>(countSql, values);
-  const total = parseInt(countResult?.count || '0', 10);
+  const facetRows = await queryMany<any>(facetSql, values);
+  const { total, facets } = mapFacetRows(facetRows);
 
-  // Build ORDER BY clause
-  const sortBy = params.sortBy || 'createdAt';
-  const sortOrder = params.sortOrder || 'desc';
+  // Build ORDER BY clause. Relevance is the default when there is query text.
+  const rankExpression = queryParam
+    ? `(ts_rank(s.search_vector, websearch_to_tsquery('english', ${queryParam}), 32)
+        + 0.5 * word_similarity(${queryParam}, s.name))`
+    : '0';
+  const sortBy = params.sortBy || (queryParam ? 'relevance' : 'createdAt');
+  const sortOrder = params.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+  // Output column names, so the same ORDER BY works inside and outside the page subquery
   const orderByMap: Record<string, string> = {
-    createdAt: 's.created_at',
-    publishedAt: 's.published_at',
-    name: 's.name',
-    popularity: 's.created_at', // TODO: Implement actual popularity metric
+    relevance: 'search_rank',
+    createdAt: 'created_at',
+    publishedAt: 'published_at',
+    name: 'name',
+    popularity: 'created_at', // TODO: Implement actual popularity metric
   };
 
-  const orderBy = `${orderByMap[sortBy] || 's.created_at'} ${sortOrder.toUpperCase()}`;
+  const orderBy = `${orderByMap[sortBy] || 'created_at'} ${sortOrder}, created_at DESC`;
 
   // Build query with pagination
   const limit = params.limit || 20;
   const offset = params.offset || 0;
 
+  // Snippets are only built for the returned page
+  let snippetExpression = 'NULL';
+  if (queryParam) {
+    snippetExpression = `ts_headline('english', coalesce(page.description, ''),
+      websearch_to_tsquery('english', ${queryParam}), $${paramCount++})`;
+    values.push(TS_HEADLINE_OPTIONS);
+  }
+
   const sql = `
-    SELECT s.*,
-           u.id as provider_id,
-           u.first_name || ' ' || u.last_name as provider_name,
-           false as provider_verified
-    FROM services s
-    JOIN users u ON s.provider_id = u.id
-    ${whereClause}
+    SELECT page.*, ${snippetExpression} AS search_snippet
+    FROM (
+      SELECT s.*,
+             u.id as provider_id,
+             u.first_name || ' ' || u.last_name as provider_name,
+             false as provider_verified,
+             t.name as owner_team_name,
+             t.slug as owner_team_slug,
+             ${rankExpression} AS search_rank
+      FROM services s
+      JOIN users u ON s.provider_id = u.id
+      LEFT JOIN teams t ON s.owner_team_id = t.id
+      ${whereClause}
+      ORDER BY ${orderBy}
+      LIMIT $${paramCount++} OFFSET $${paramCount++}
+    ) page
     ORDER BY ${orderBy}
-    LIMIT $${paramCount++} OFFSET $${paramCount++}
   `;
 
   values.push(limit, offset);
@@ -359,13 +502,61 @@ export async function search(params: ServiceSearchParams): Promise<{
   const result = await queryMany<any>(sql, values);
   const services = result.map(mapServiceRow);
 
+  const matches: Record<string, ServiceSearchMatch> = {};
+  if (queryParam) {
+    for (const row of result) {
+      matches[row.id] = {
+        rank: Number(row.search_rank),
+        snippet: renderSnippet(row.search_snippet),
+      };
+    }
+  }
+
   logger.debug('Service search executed', {
     total,
     returned: services.length,
     params,
   });
 
-  return { services, total };
+  return { services, total, facets, matches };
+}
+
+/**
+ * Split GROUPING SETS rows into the overall total and per-facet counts.
+ * GROUPING() sets a bit for each grouped-away column, so a row grouped by
+ * only the category has every bit but the first set.
+ */
+function mapFacetRows(rows: any[]): { total: number; facets: ServiceSearchFacets } {
+  const facets: ServiceSearchFacets = {
+    category: {},
+    pricingModel: {},
+    complianceLevel: {},
+    supportLevel: {},
+  };
+  const columns: Array<[number, string, keyof ServiceSearchFacets]> = [
+    [0b0111, 'category', 'category'],
+    [0b1011, 'pricing_model', 'pricingModel'],
+    [0b1101, 'compliance_level', 'complianceLevel'],
+    [0b1110, 'support_level', 'supportLevel'],
+  ];
+  let total = 0;
+
+  for (const row of rows) {
+    const grouping = Number(row.grouping_id);
+    const count = parseInt(row.count, 10);
+
+    if (grouping === 0b1111) {
+      total = count;
+      continue;
+    }
+
+    const column = columns.find(([bits]) => bits === grouping);
+    if (column && row[column[1]] !== null) {
+      facets[column[2]][row[column[1]]] = count;
+    }
+  }
+
+  return { total, facets };
 }
 
 /**
@@ -376,9 +567,12 @@ export async function findByProviderId(providerId: string): Promise<Service[]> {
     SELECT s.*,
            u.id as provider_id,
            u.first_name || ' ' || u.last_name as provider_name,
-           false as provider_verified
+           false as provider_verified,
+           t.name as owner_team_name,
+           t.slug as owner_team_slug
     FROM services s
     JOIN users u ON s.provider_id = u.id
+    LEFT JOIN teams t ON s.owner_team_id = t.id
     WHERE s.provider_id = $1
     ORDER BY s.created_at DESC
   `;
@@ -387,6 +581,51 @@ export async function findByProviderId(providerId: string): Promise<Service[]> {
   return result.map(mapServiceRow);
 }
 
+/**
+ * Get services a user owns directly or through any team they belong to
+ */
+export async function findAccessibleByUser(userId: string): Promise<Service[]> {
+  const sql = `
+    SELECT s.*,
+           u.id as provider_id,
+           u.first_name || ' ' || u.last_name as provider_name,
+           false as provider_verified,
+           t.name as owner_team_name,
+           t.slug as owner_team_slug
+    FROM services s
+    JOIN users u ON s.provider_id = u.id
+    LEFT JOIN teams t ON s.owner_team_id = t.id
+    WHERE (s.owner_team_id IS NULL AND s.provider_id = $1)
+       OR s.owner_team_id IN (SELECT team_id FROM team_members WHERE user_id = $1)
+    ORDER BY s.created_at DESC
+  `;
+
+  const result = await queryMany<any>(sql, [userId]);
+  return result.map(mapServiceRow);
+}
+
+/**
+ * Get services owned by a team
+ */
+export async function findByOwnerTeamId(teamId: string): Promise<Service[]> {
+  const sql = `
+    SELECT s.*,
+           u.id as provider_id,
+           u.first_name || ' ' || u.last_name as provider_name,
+           false as provider_verified,
+           t.name as owner_team_name,
+           t.slug as owner_team_slug
+    FROM services s
+    JOIN users u ON s.provider_id = u.id
+    LEFT JOIN teams t ON s.owner_team_id = t.id
+    WHERE s.owner_team_id = $1
+    ORDER BY s.created_at DESC
+  `;
+
+  const result = await queryMany<any>(sql, [teamId]);
+  return result.map(mapServiceRow);
+}
+
 /**
  * Get service statistics
  */
@@ -439,6 +678,9 @@ function mapServiceRow(row: any): Service {
       name: row.provider_name,
       verified: row.provider_verified,
     },
+    ownerTeam: row.owner_team_id
+      ? { id: row.owner_team_id, name: row.owner_team_name, slug: row.owner_team_slug }
+      : null,
     category: row.category as ServiceCategory,
     tags: row.tags || [],
     capabilities: typeof row.capabilities === 'string' ? JSON.parse(row.capabilities) : row.capabilities,
@@ -452,7 +694,10 @@ function mapServiceRow(row: any): Service {
       updatedAt: row.updated_at,
       publishedAt: row.published_at,
       deprecatedAt: row.deprecated_at,
+      sunsetAt: row.sunset_at,
+      successorServiceId: row.successor_service_id,
       suspensionReason: row.suspension_reason,
+      revision: row.revision,
     },
   };
 }
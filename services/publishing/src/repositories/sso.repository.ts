@@ -0,0 +1,159 @@
+/**
+ * SSO Repository
+ * Database access layer for OIDC connections and linked identities
+ */
+
+import { query, queryOne } from '../common/database';
+import { DatabaseError } from '../common/errors';
+import { SsoConnection, SsoConnectionInput, SsoIdentity } from '../models/sso.model';
+import { UserRole } from '../models/user.model';
+
+/**
+ * Create or replace a tenant's SSO connection. The client secret is kept
+ * when the input does not include a new one.
+ */
+export async function upsertConnection(tenantId: string, input: SsoConnectionInput): Promise<SsoConnection> {
+  const sql = `
+    INSERT INTO sso_connections (
+      tenant_id, issuer, discovery_url, client_id, client_secret, redirect_uri,
+      scopes, groups_claim, role_mappings, default_role, enabled
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    ON CONFLICT (tenant_id) DO UPDATE SET
+      issuer = EXCLUDED.issuer,
+      discovery_url = EXCLUDED.discovery_url,
+      client_id = EXCLUDED.client_id,
+      client_secret = COALESCE(EXCLUDED.client_secret, sso_connections.client_secret),
+      redirect_uri = EXCLUDED.redirect_uri,
+      scopes = EXCLUDED.scopes,
+      groups_claim = EXCLUDED.groups_claim,
+      role_mappings = EXCLUDED.role_mappings,
+      default_role = EXCLUDED.default_role,
+      enabled = EXCLUDED.enabled
+    RETURNING *
+  `;
+
+  const result = await queryOne<any>(sql, [
+    tenantId,
+    input.issuer,
+    input.discoveryUrl ?? null,
+    input.clientId,
+    input.clientSecret ?? null,
+    input.redirectUri,
+    input.scopes,
+    input.groupsClaim,
+    JSON.stringify(input.roleMappings),
+    input.defaultRole,
+    input.enabled,
+  ]);
+
+  if (!result) {
+    throw new DatabaseError('Failed to save SSO connection');
+  }
+
+  return mapConnectionRow(result);
+}
+
+/**
+ * Find a tenant's SSO connection
+ */
+export async function findConnectionByTenant(tenantId: string): Promise<SsoConnection | null> {
+  const sql = 'SELECT * FROM sso_connections WHERE tenant_id = $1';
+  const result = await queryOne<any>(sql, [tenantId]);
+  return result ? mapConnectionRow(result) : null;
+}
+
+/**
+ * List all SSO connections
+ */
+export async function listConnections(): Promise<SsoConnection[]> {
+  const sql = 'SELECT * FROM sso_connections ORDER BY tenant_id ASC';
+  const result = await query<any>(sql);
+  return result.rows.map(mapConnectionRow);
+}
+
+/**
+ * Delete a tenant's SSO connection and its linked identities
+ */
+export async function deleteConnection(tenantId: string): Promise<boolean> {
+  const sql = 'DELETE FROM sso_connections WHERE tenant_id = $1';
+  const result = await query(sql, [tenantId]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Find the identity for a subject at a connection
+ */
+export async function findIdentity(connectionId: string, subject: string): Promise<SsoIdentity | null> {
+  const sql = 'SELECT * FROM user_identities WHERE connection_id = $1 AND subject = $2';
+  const result = await queryOne<any>(sql, [connectionId, subject]);
+  return result ? mapIdentityRow(result) : null;
+}
+
+/**
+ * Link an IdP subject to a user
+ */
+export async function createIdentity(input: {
+  connectionId: string;
+  subject: string;
+  userId: string;
+  email: string | null;
+}): Promise<SsoIdentity> {
+  const sql = `
+    INSERT INTO user_identities (connection_id, subject, user_id, email, last_login_at)
+    VALUES ($1, $2, $3, $4, NOW())
+    RETURNING *
+  `;
+
+  const result = await queryOne<any>(sql, [input.connectionId, input.subject, input.userId, input.email]);
+
+  if (!result) {
+    throw new DatabaseError('Failed to link SSO identity');
+  }
+
+  return mapIdentityRow(result);
+}
+
+/**
+ * Record a login through an identity
+ */
+export async function touchIdentity(identityId: string, email: string | null): Promise<void> {
+  const sql = 'UPDATE user_identities SET last_login_at = NOW(), email = COALESCE($2, email) WHERE id = $1';
+  await query(sql, [identityId, email]);
+}
+
+/**
+ * Map database row to SsoConnection entity
+ */
+function mapConnectionRow(row: any): SsoConnection {
+  return {
+    id: row.id,
+    tenantId: row.tenant_id,
+    issuer: row.issuer,
+    discoveryUrl: row.discovery_url,
+    clientId: row.client_id,
+    clientSecret: row.client_secret,
+    redirectUri: row.redirect_uri,
+    scopes: row.scopes,
+    groupsClaim: row.groups_claim,
+    roleMappings: (row.role_mappings ?? {}) as Record<string, UserRole>,
+    defaultRole: row.default_role as UserRole,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Map database row to SsoIdentity entity
+ */
+function mapIdentityRow(row: any): SsoIdentity {
+  return {
+    id: row.id,
+    connectionId: row.connection_id,
+    subject: row.subject,
+    userId: row.user_id,
+    email: row.email,
+    lastLoginAt: row.last_login_at,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Team Repository
+ * Database access layer for teams and team membership
+ */
+
+import { query, queryOne, queryMany, transaction } from '../common/database';
+import { DatabaseError } from '../common/errors';
+import { CreateTeamInput, Team, TeamMember, TeamRole, UpdateTeamInput } from '../models/team.model';
+
+/**
+ * Create a team with its creator as the first owner
+ */
+export async function create(input: CreateTeamInput, createdBy: string): Promise<Team> {
+  return transaction(async (client) => {
+    const result = await client.query(
+      `INSERT INTO teams (name, slug, description, created_by)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [input.name, input.slug, input.description ?? null, createdBy]
+    );
+
+    await client.query(
+      `INSERT INTO team_members (team_id, user_id, role, added_by)
+       VALUES ($1, $2, $3, $2)`,
+      [result.rows[0].id, createdBy, TeamRole.OWNER]
+    );
+
+    return mapTeamRow(result.rows[0]);
+  });
+}
+
+/**
+ * Find team by ID
+ */
+export async function findById(id: string): Promise<Team | null> {
+  const sql = 'SELECT * FROM teams WHERE id = $1';
+  const result = await queryOne<any>(sql, [id]);
+  return result ? mapTeamRow(result) : null;
+}
+
+/**
+ * Find team by slug
+ */
+export async function findBySlug(slug: string): Promise<Team | null> {
+  const sql = 'SELECT * FROM teams WHERE slug = $1';
+  const result = await queryOne<any>(sql, [slug]);
+  return result ? mapTeamRow(result) : null;
+}
+
+/**
+ * List the teams a user belongs to, with their role in each
+ */
+export async function findByMember(userId: string): Promise<Array<Team & { role: TeamRole }>> {
+  const sql = `
+    SELECT t.*, m.role
+    FROM teams t
+    JOIN team_members m ON m.team_id = t.id
+    WHERE m.user_id = $1
+    ORDER BY t.name ASC
+  `;
+
+  const result = await queryMany<any>(sql, [userId]);
+  return result.map((row) => ({ ...mapTeamRow(row), role: row.role as TeamRole }));
+}
+
+/**
+ * List all teams
+ */
+export async function findAll(): Promise<Team[]> {
+  const sql = 'SELECT * FROM teams ORDER BY name ASC';
+  const result = await queryMany<any>(sql);
+  return result.map(mapTeamRow);
+}
+
+/**
+ * Update team
+ */
+export async function update(id: string, input: UpdateTeamInput): Promise<Team> {
+  const sql = `
+    UPDATE teams
+    SET name = COALESCE($2, name),
+        description = COALESCE($3, description)
+    WHERE id = $1
+    RETURNING *
+  `;
+
+  const result = await queryOne<any>(sql, [id, input.name ?? null, input.description ?? null]);
+
+  if (!result) {
+    throw new DatabaseError('Failed to update team');
+  }
+
+  return mapTeamRow(result);
+}
+
+/**
+ * Delete team
+ */
+export async function deleteTeam(id: string): Promise<void> {
+  await query('DELETE FROM teams WHERE id = $1', [id]);
+}
+
+/**
+ * Count services owned by a team
+ */
+export async function countServices(teamId: string): Promise<number> {
+  const sql = 'SELECT COUNT(*) as count FROM services WHERE owner_team_id = $1';
+  const result = await queryOne<{ count: string }>(sql, [teamId]);
+  return parseInt(result?.count || '0', 10);
+}
+
+/**
+ * List team members
+ */
+export async function findMembers(teamId: string): Promise<TeamMember[]> {
+  const sql = `
+    SELECT m.*, u.email, u.first_name || ' ' || u.last_name as name
+    FROM team_members m
+    JOIN users u ON u.id = m.user_id
+    WHERE m.team_id = $1
+    ORDER BY m.created_at ASC
+  `;
+
+  const result = await queryMany<any>(sql, [teamId]);
+  return result.map(mapMemberRow);
+}
+
+/**
+ * Get a user's role in a team, or null when they are not a member
+ */
+export async function findMemberRole(teamId: string, userId: string): Promise<TeamRole | null> {
+  const sql = 'SELECT role FROM team_members WHERE team_id = $1 AND user_id = $2';
+  const result = await queryOne<{ role: string }>(sql, [teamId, userId]);
+  return result ? (result.role as TeamRole) : null;
+}
+
+/**
+ * Add a member or change their role
+ */
+export async function upsertMember(
+  teamId: string,
+  userId: string,
+  role: TeamRole,
+  addedBy: string
+): Promise<void> {
+  const sql = `
+    INSERT INTO team_members (team_id, user_id, role, added_by)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (team_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  `;
+  await query(sql, [teamId, userId, role, addedBy]);
+}
+
+/**
+ * Remove a member
+ */
+export async function removeMember(teamId: string, userId: string): Promise<boolean> {
+  const sql = 'DELETE FROM team_members WHERE team_id = $1 AND user_id = $2';
+  const result = await query(sql, [teamId, userId]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Map database row to Team entity
+ */
+function mapTeamRow(row: any): Team {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    description: row.description,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Map database row to TeamMember entity
+ */
+function mapMemberRow(row: any): TeamMember {
+  return {
+    teamId: row.team_id,
+    userId: row.user_id,
+    email: row.email,
+    name: row.name,
+    role: row.role as TeamRole,
+    addedBy: row.added_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
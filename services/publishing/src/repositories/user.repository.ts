@@ -3,7 +3,7 @@
  * Database access layer for user-related operations
  */
 
-import { query, queryOne } from '../common/database';
+import { query, queryOne, transaction } from '../common/database';
 import { User, UserRole, UserStatus, ApiKey } from '../models/user.model';
 import { DatabaseError, NotFoundError } from '../common/errors';
 
@@ -16,6 +16,7 @@ export async function create(input: {
   firstName: string;
   lastName: string;
   role?: UserRole;
+  emailVerified?: boolean;
 }): Promise<User> {
   const sql = `
     INSERT INTO users (
@@ -31,7 +32,7 @@ export async function create(input: {
     input.lastName,
     input.role || UserRole.CONSUMER,
     UserStatus.ACTIVE,
-    false,
+    input.emailVerified ?? false,
   ]);
 
   if (!result) {
@@ -134,31 +135,45 @@ export async function deleteUser(userId: string): Promise<void> {
 }
 
 /**
- * Create API key for user
+ * API key fields set on creation
  */
-export async function createApiKey(input: {
+export interface CreateApiKeyInput {
   userId: string;
   keyHash: string;
   keyPrefix: string;
   name: string;
   scopes: string[];
+  allowedServiceIds: string[] | null;
+  allowedCidrs: string[] | null;
   expiresAt: Date | null;
-}): Promise<ApiKey> {
-  const sql = `
-    INSERT INTO api_keys (
-      user_id, key_hash, key_prefix, name, scopes, expires_at
-    ) VALUES ($1, $2, $3, $4, $5, $6)
-    RETURNING *
-  `;
+}
 
-  const result = await queryOne<any>(sql, [
+const INSERT_API_KEY_SQL = `
+  INSERT INTO api_keys (
+    user_id, key_hash, key_prefix, name, scopes,
+    allowed_service_ids, allowed_cidrs, expires_at
+  ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+  RETURNING *
+`;
+
+function apiKeyInsertParams(input: CreateApiKeyInput): any[] {
+  return [
     input.userId,
     input.keyHash,
     input.keyPrefix,
     input.name,
     input.scopes,
+    input.allowedServiceIds,
+    input.allowedCidrs,
     input.expiresAt,
-  ]);
+  ];
+}
+
+/**
+ * Create API key for user
+ */
+export async function createApiKey(input: CreateApiKeyInput): Promise<ApiKey> {
+  const result = await queryOne<any>(INSERT_API_KEY_SQL, apiKeyInsertParams(input));
 
   if (!result) {
     throw new DatabaseError('Failed to create API key');
@@ -167,6 +182,37 @@ export async function createApiKey(input: {
   return mapApiKeyRow(result);
 }
 
+/**
+ * Issue a successor key and cut the old key's validity down to the end of
+ * the overlap window, in one transaction
+ */
+export async function rotateApiKey(
+  apiKeyId: string,
+  successor: CreateApiKeyInput,
+  overlapEndsAt: Date
+): Promise<{ previous: ApiKey; successor: ApiKey }> {
+  return transaction(async (client) => {
+    const inserted = await client.query(INSERT_API_KEY_SQL, apiKeyInsertParams(successor));
+    const created = mapApiKeyRow(inserted.rows[0]);
+
+    const updated = await client.query(
+      `UPDATE api_keys
+       SET rotated_to_id = $2,
+           rotated_at = NOW(),
+           expires_at = LEAST(COALESCE(expires_at, $3), $3)
+       WHERE id = $1 AND rotated_to_id IS NULL AND revoked_at IS NULL
+       RETURNING *`,
+      [apiKeyId, created.id, overlapEndsAt]
+    );
+
+    if (updated.rows.length === 0) {
+      throw new DatabaseError('API key was rotated or revoked concurrently');
+    }
+
+    return { previous: mapApiKeyRow(updated.rows[0]), successor: created };
+  });
+}
+
 /**
  * Find API key by ID
  */
@@ -199,10 +245,49 @@ export async function findApiKeysByUserId(userId: string): Promise<ApiKey[]> {
 }
 
 /**
- * Update API key last used timestamp
+ * Record a request made with an API key: last used timestamp, request count
+ * and the client it came from
+ */
+export async function updateApiKeyLastUsed(
+  apiKeyId: string,
+  client: { ipAddress?: string; userAgent?: string } = {}
+): Promise<void> {
+  const sql = `
+    UPDATE api_keys
+    SET last_used_at = NOW(),
+        request_count = request_count + 1,
+        last_used_ip = COALESCE($2, last_used_ip),
+        last_used_user_agent = COALESCE($3, last_used_user_agent)
+    WHERE id = $1
+  `;
+  await query(sql, [apiKeyId, client.ipAddress ?? null, client.userAgent?.substring(0, 512) ?? null]);
+}
+
+/**
+ * Find active keys expiring before the given time that have not been warned
+ * about yet. Rotated keys are skipped; their successor is already issued.
+ */
+export async function findApiKeysExpiringBefore(before: Date, limit: number = 100): Promise<ApiKey[]> {
+  const sql = `
+    SELECT * FROM api_keys
+    WHERE revoked_at IS NULL
+      AND rotated_to_id IS NULL
+      AND expiry_warning_sent_at IS NULL
+      AND expires_at IS NOT NULL
+      AND expires_at > NOW()
+      AND expires_at <= $1
+    ORDER BY expires_at ASC
+    LIMIT $2
+  `;
+  const result = await query<any>(sql, [before, limit]);
+  return result.rows.map(mapApiKeyRow);
+}
+
+/**
+ * Mark that the expiry warning for an API key was issued
  */
-export async function updateApiKeyLastUsed(apiKeyId: string): Promise<void> {
-  const sql = 'UPDATE api_keys SET last_used_at = NOW() WHERE id = $1';
+export async function markApiKeyExpiryWarningSent(apiKeyId: string): Promise<void> {
+  const sql = 'UPDATE api_keys SET expiry_warning_sent_at = NOW() WHERE id = $1';
   await query(sql, [apiKeyId]);
 }
 
@@ -227,6 +312,7 @@ function mapUserRow(row: any): User {
     role: row.role as UserRole,
     status: row.status as UserStatus,
     emailVerified: row.email_verified,
+    mfaEnabled: row.mfa_enabled ?? false,
     lastLoginAt: row.last_login_at,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
@@ -245,8 +331,16 @@ function mapApiKeyRow(row: any): ApiKey {
     keyPrefix: row.key_prefix,
     name: row.name,
     scopes: row.scopes,
+    allowedServiceIds: row.allowed_service_ids,
+    allowedCidrs: row.allowed_cidrs,
     expiresAt: row.expires_at,
     lastUsedAt: row.last_used_at,
+    requestCount: Number(row.request_count ?? 0),
+    lastUsedIp: row.last_used_ip ?? null,
+    lastUsedUserAgent: row.last_used_user_agent ?? null,
+    rotatedToId: row.rotated_to_id ?? null,
+    rotatedAt: row.rotated_at ?? null,
+    expiryWarningSentAt: row.expiry_warning_sent_at ?? null,
     createdAt: row.created_at,
     revokedAt: row.revoked_at,
   };
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { ApprovalController } from '../controllers/approval-controller';
+import { authenticateToken } from '../middleware/auth-middleware';
+
+const router = Router();
+const approvalController = new ApprovalController();
+
+/**
+ * Approval Chain Routes
+ */
+
+router.use(authenticateToken);
+
+// GET /api/v1/approvals - Approvals awaiting the caller's review
+router.get('/', (req, res) => approvalController.listAssigned(req, res));
+
+// GET /api/v1/approvals/:id - Get an approval
+router.get('/:id', (req, res) => approvalController.getApproval(req, res));
+
+// POST /api/v1/approvals/:id/reviews - Submit a review
+router.post('/:id/reviews', (req, res) => approvalController.submitReview(req, res));
+
+export default router;
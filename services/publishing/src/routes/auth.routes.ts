@@ -4,7 +4,7 @@
 
 import { Router } from 'express';
 import * as authController from '../controllers/auth.controller';
-import { authenticateJWT } from '../middleware/auth.middleware';
+import { authenticateJWT, requireStepUp } from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -20,8 +20,12 @@ router.post('/refresh', authController.refreshToken);
  * Protected routes (require authentication)
  */
 router.get('/me', authenticateJWT, authController.getProfile);
-router.post('/api-keys', authenticateJWT, authController.createApiKey);
+router.post('/api-keys', authenticateJWT, requireStepUp, authController.createApiKey);
 router.get('/api-keys', authenticateJWT, authController.listApiKeys);
+router.post('/api-keys/:id/rotate', authenticateJWT, requireStepUp, authController.rotateApiKey);
 router.delete('/api-keys/:id', authenticateJWT, authController.revokeApiKey);
+router.get('/sessions', authenticateJWT, authController.listSessions);
+router.delete('/sessions', authenticateJWT, authController.revokeAllSessions);
+router.delete('/sessions/:id', authenticateJWT, authController.revokeSession);
 
 export default router;
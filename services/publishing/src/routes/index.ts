@@ -5,7 +5,11 @@
 
 import { Router } from 'express';
 import authRoutes from './auth.routes';
+import mfaRoutes from './mfa.routes';
+import ownershipTransferRoutes from './ownership-transfer.routes';
 import serviceRoutes from './service.routes';
+import ssoRoutes from './sso.routes';
+import teamRoutes from './team.routes';
 
 const router = Router();
 
@@ -23,7 +27,11 @@ router.get('/health', (_req, res) => {
 });
 
 // Mount route modules
+router.use('/auth/mfa', mfaRoutes);
+router.use('/auth/sso', ssoRoutes);
 router.use('/auth', authRoutes);
 router.use('/services', serviceRoutes);
+router.use('/teams', teamRoutes);
+router.use('/ownership-transfers', ownershipTransferRoutes);
 
 export default router;
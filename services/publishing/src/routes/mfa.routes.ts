@@ -0,0 +1,28 @@
+/**
+ * MFA Routes
+ */
+
+import { Router } from 'express';
+import * as mfaController from '../controllers/mfa.controller';
+import { authenticateJWT } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * Login challenge (public, authorized by the MFA token from /auth/login)
+ */
+router.post('/verify', mfaController.verify);
+router.post('/challenge/enroll', mfaController.beginChallengeEnrollment);
+router.post('/challenge/enroll/confirm', mfaController.confirmChallengeEnrollment);
+
+/**
+ * Account MFA management (require authentication)
+ */
+router.get('/', authenticateJWT, mfaController.getStatus);
+router.post('/enroll', authenticateJWT, mfaController.beginEnrollment);
+router.post('/enroll/confirm', authenticateJWT, mfaController.confirmEnrollment);
+router.post('/recovery-codes', authenticateJWT, mfaController.regenerateRecoveryCodes);
+router.post('/disable', authenticateJWT, mfaController.disable);
+router.post('/step-up', authenticateJWT, mfaController.stepUp);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { OutboxController } from '../controllers/outbox-controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth-middleware';
+
+const router = Router();
+const outboxController = new OutboxController();
+
+/**
+ * Outbox Routes
+ */
+
+router.use(authenticateToken, authorizeRoles('admin'));
+
+// GET /api/v1/outbox/metrics - Outbox backlog and lag
+router.get('/metrics', (req, res) => outboxController.getMetrics(req, res));
+
+// POST /api/v1/outbox/failed/requeue - Requeue failed events
+router.post('/failed/requeue', (req, res) => outboxController.requeueFailed(req, res));
+
+export default router;
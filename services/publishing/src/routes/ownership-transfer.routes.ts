@@ -0,0 +1,22 @@
+/**
+ * Ownership Transfer Routes
+ */
+
+import { Router } from 'express';
+import * as ownershipTransferController from '../controllers/ownership-transfer.controller';
+import { authenticateJWT } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * All transfer routes require authentication; only the recipient can accept
+ * or decline
+ */
+router.use(authenticateJWT);
+
+router.get('/', ownershipTransferController.listTransfers);
+router.post('/:id/accept', ownershipTransferController.acceptTransfer);
+router.post('/:id/decline', ownershipTransferController.declineTransfer);
+router.post('/:id/cancel', ownershipTransferController.cancelTransfer);
+
+export default router;
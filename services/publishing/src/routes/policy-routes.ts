@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { PolicyController } from '../controllers/policy-controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth-middleware';
+
+const router = Router();
+const policyController = new PolicyController();
+
+/**
+ * Policy Routes
+ */
+
+router.use(authenticateToken, authorizeRoles('provider', 'admin'));
+
+// GET /api/v1/policies - Active policy bundle
+router.get('/', (req, res) => policyController.getActiveBundle(req, res));
+
+// POST /api/v1/policies/dry-run - Evaluate a spec or request without side effects
+router.post('/dry-run', (req, res) => policyController.dryRun(req, res));
+
+// GET /api/v1/policies/bundles - Stored bundle versions
+router.get(
+  '/bundles',
+  authorizeRoles('admin'),
+  (req, res) => policyController.listBundles(req, res)
+);
+
+// POST /api/v1/policies/bundles - Publish a new bundle version
+router.post(
+  '/bundles',
+  authorizeRoles('admin'),
+  (req, res) => policyController.publishBundle(req, res)
+);
+
+// POST /api/v1/policies/reload - Reload the bundle from its source
+router.post(
+  '/reload',
+  authorizeRoles('admin'),
+  (req, res) => policyController.reload(req, res)
+);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { RegistryController } from '../controllers/registry-controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth-middleware';
+
+const router = Router();
+const registryController = new RegistryController();
+
+/**
+ * Registry Routes
+ */
+
+router.use(authenticateToken, authorizeRoles('admin'));
+
+// GET /api/v1/registry/drift - Latest drift report
+router.get('/drift', (req, res) => registryController.getDriftReport(req, res));
+
+// POST /api/v1/registry/reconcile - Reconcile with the Registry now
+router.post('/reconcile', (req, res) => registryController.reconcile(req, res));
+
+export default router;
@@ -1,9 +1,12 @@
 import { Router } from 'express';
 import { ServiceController } from '../controllers/service-controller';
+import { ApprovalController } from '../controllers/approval-controller';
 import { authenticateToken, authorizeRoles } from '../middleware/auth-middleware';
+import { idempotent } from '../middleware/idempotency-middleware';
 
 const router = Router();
 const serviceController = new ServiceController();
+const approvalController = new ApprovalController();
 
 /**
  * Service Publishing Routes
@@ -14,9 +17,26 @@ router.post(
   '/',
   authenticateToken,
   authorizeRoles('provider', 'admin'),
+  idempotent,
   (req, res) => serviceController.publishService(req, res)
 );
 
+// POST /api/v1/services/import - Draft a service from Swagger 2.0, Postman or AsyncAPI
+router.post(
+  '/import',
+  authenticateToken,
+  authorizeRoles('provider', 'admin'),
+  (req, res) => serviceController.importService(req, res)
+);
+
+// POST /api/v1/services/drafts - Start a draft for a new service
+router.post(
+  '/drafts',
+  authenticateToken,
+  authorizeRoles('provider', 'admin'),
+  (req, res) => serviceController.createDraft(req, res)
+);
+
 // GET /api/v1/services/:id - Get service details
 router.get(
   '/:id',
@@ -36,6 +56,7 @@ router.post(
   '/:id/versions',
   authenticateToken,
   authorizeRoles('provider', 'admin'),
+  idempotent,
   (req, res) => serviceController.createVersion(req, res)
 );
 
@@ -47,6 +68,47 @@ router.delete(
   (req, res) => serviceController.deprecateService(req, res)
 );
 
+// PUT /api/v1/services/:id/draft - Autosave a draft (starts one for a published service)
+router.put(
+  '/:id/draft',
+  authenticateToken,
+  authorizeRoles('provider', 'admin'),
+  (req, res) => serviceController.saveDraft(req, res)
+);
+
+// GET /api/v1/services/:id/draft - Get a draft and its validation result
+router.get(
+  '/:id/draft',
+  authenticateToken,
+  authorizeRoles('provider', 'admin'),
+  (req, res) => serviceController.getDraft(req, res)
+);
+
+// GET /api/v1/services/:id/draft/diff - Draft changes against the published version
+router.get(
+  '/:id/draft/diff',
+  authenticateToken,
+  authorizeRoles('provider', 'admin'),
+  (req, res) => serviceController.getDraftDiff(req, res)
+);
+
+// POST /api/v1/services/:id/draft/submit - Submit a draft for review
+router.post(
+  '/:id/draft/submit',
+  authenticateToken,
+  authorizeRoles('provider', 'admin'),
+  idempotent,
+  (req, res) => serviceController.submitDraft(req, res)
+);
+
+// DELETE /api/v1/services/:id/draft - Discard a draft
+router.delete(
+  '/:id/draft',
+  authenticateToken,
+  authorizeRoles('provider', 'admin'),
+  (req, res) => serviceController.discardDraft(req, res)
+);
+
 // GET /api/v1/services/:id/status - Check publishing status
 router.get(
   '/:id/status',
@@ -54,4 +116,53 @@ router.get(
   (req, res) => serviceController.getPublishingStatus(req, res)
 );
 
+// GET /api/v1/services/:id/publishing-status - Step-by-step publishing history
+router.get(
+  '/:id/publishing-status',
+  authenticateToken,
+  (req, res) => serviceController.getPublishingHistory(req, res)
+);
+
+// GET /api/v1/services/:id/approval - Latest approval chain run and its reviews
+router.get(
+  '/:id/approval',
+  authenticateToken,
+  (req, res) => approvalController.getServiceApproval(req, res)
+);
+
+// POST /api/v1/services/:id/approval/reviews - Review the pending approval
+router.post(
+  '/:id/approval/reviews',
+  authenticateToken,
+  (req, res) => approvalController.reviewService(req, res)
+);
+
+// POST /api/v1/services/:id/tests/run - Run tests (including provider smoke tests) on demand
+router.post(
+  '/:id/tests/run',
+  authenticateToken,
+  authorizeRoles('provider', 'admin'),
+  (req, res) => serviceController.runServiceTests(req, res)
+);
+
+// GET /api/v1/services/:id/tests/runs - Test run history
+router.get(
+  '/:id/tests/runs',
+  authenticateToken,
+  (req, res) => serviceController.getTestRuns(req, res)
+);
+
+// GET /api/v1/services/:id/health - Post-publication health and SLA compliance
+router.get(
+  '/:id/health',
+  authenticateToken,
+  (req, res) => serviceController.getServiceHealth(req, res)
+);
+
+// GET /api/v1/services/:id/api-diff - OpenAPI breaking-change report against the previous version
+router.get(
+  '/:id/api-diff',
+  (req, res) => serviceController.getApiDiff(req, res)
+);
+
 export default router;
@@ -4,7 +4,9 @@
 
 import { Router } from 'express';
 import * as serviceController from '../controllers/service.controller';
-import { authenticate, requireRole, requirePermission } from '../middleware/auth.middleware';
+import * as ownershipTransferController from '../controllers/ownership-transfer.controller';
+import { authenticate, requireRole, requirePermission, requireStepUp } from '../middleware/auth.middleware';
+import { idempotent } from '../middleware/idempotency.middleware';
 import { UserRole } from '../models/user.model';
 
 const router = Router();
@@ -25,6 +27,7 @@ router.get('/:name/versions', serviceController.getServiceVersions);
 router.get(
   '/my/services',
   authenticate,
+  requirePermission('service:read'),
   serviceController.getMyServices
 );
 
@@ -33,6 +36,7 @@ router.post(
   '/',
   authenticate,
   requirePermission('service:create'),
+  idempotent,
   serviceController.createService
 );
 
@@ -57,6 +61,7 @@ router.put(
   '/:id/publish',
   authenticate,
   requirePermission('service:publish'),
+  idempotent,
   serviceController.publishService
 );
 
@@ -73,7 +78,24 @@ router.put(
   '/:id/suspend',
   authenticate,
   requireRole(UserRole.ADMIN),
+  requirePermission('service:suspend'),
+  requireStepUp,
   serviceController.suspendService
 );
 
+// Ownership transfers (requires ownership, team owner role or admin)
+router.get(
+  '/:id/transfers',
+  authenticate,
+  requirePermission('service:read'),
+  ownershipTransferController.listServiceTransfers
+);
+
+router.post(
+  '/:id/transfers',
+  authenticate,
+  requirePermission('service:update'),
+  ownershipTransferController.requestTransfer
+);
+
 export default router;
@@ -0,0 +1,26 @@
+/**
+ * SSO Routes
+ */
+
+import { Router } from 'express';
+import * as ssoController from '../controllers/sso.controller';
+import { authenticateJWT, requireRole } from '../middleware/auth.middleware';
+import { UserRole } from '../models/user.model';
+
+const router = Router();
+
+/**
+ * Connection management (admin only)
+ */
+router.get('/connections', authenticateJWT, requireRole(UserRole.ADMIN), ssoController.listConnections);
+router.get('/connections/:tenantId', authenticateJWT, requireRole(UserRole.ADMIN), ssoController.getConnection);
+router.put('/connections/:tenantId', authenticateJWT, requireRole(UserRole.ADMIN), ssoController.saveConnection);
+router.delete('/connections/:tenantId', authenticateJWT, requireRole(UserRole.ADMIN), ssoController.deleteConnection);
+
+/**
+ * Public login flow
+ */
+router.get('/:tenantId/login', ssoController.startLogin);
+router.get('/:tenantId/callback', ssoController.callback);
+
+export default router;
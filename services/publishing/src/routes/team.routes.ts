@@ -0,0 +1,25 @@
+/**
+ * Team Routes
+ */
+
+import { Router } from 'express';
+import * as teamController from '../controllers/team.controller';
+import { authenticateJWT } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * All team routes require authentication; team roles are checked per team
+ */
+router.use(authenticateJWT);
+
+router.post('/', teamController.createTeam);
+router.get('/', teamController.listTeams);
+router.get('/:id', teamController.getTeam);
+router.put('/:id', teamController.updateTeam);
+router.delete('/:id', teamController.deleteTeam);
+router.get('/:id/services', teamController.listTeamServices);
+router.put('/:id/members/:userId', teamController.setMember);
+router.delete('/:id/members/:userId', teamController.removeMember);
+
+export default router;
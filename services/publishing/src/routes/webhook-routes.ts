@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhook-controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth-middleware';
+
+const router = Router();
+const webhookController = new WebhookController();
+
+/**
+ * Webhook Subscription Routes
+ */
+
+router.use(authenticateToken, authorizeRoles('provider', 'admin'));
+
+// POST /api/v1/webhooks - Register a webhook
+router.post('/', (req, res) => webhookController.createWebhook(req, res));
+
+// GET /api/v1/webhooks - List webhooks
+router.get('/', (req, res) => webhookController.listWebhooks(req, res));
+
+// GET /api/v1/webhooks/:id - Get a webhook
+router.get('/:id', (req, res) => webhookController.getWebhook(req, res));
+
+// PUT /api/v1/webhooks/:id - Update a webhook
+router.put('/:id', (req, res) => webhookController.updateWebhook(req, res));
+
+// DELETE /api/v1/webhooks/:id - Delete a webhook
+router.delete('/:id', (req, res) => webhookController.deleteWebhook(req, res));
+
+// POST /api/v1/webhooks/:id/ping - Send a test event
+router.post('/:id/ping', (req, res) => webhookController.pingWebhook(req, res));
+
+// GET /api/v1/webhooks/:id/deliveries - Delivery log
+router.get('/:id/deliveries', (req, res) => webhookController.listDeliveries(req, res));
+
+// POST /api/v1/webhooks/:id/deliveries/:deliveryId/replay - Replay a delivery
+router.post(
+  '/:id/deliveries/:deliveryId/replay',
+  (req, res) => webhookController.replayDelivery(req, res)
+);
+
+export default router;
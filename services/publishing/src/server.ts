@@ -8,6 +8,7 @@ import { logger } from './common/logger';
 import { initializeDatabase, closeDatabase } from './common/database';
 import { initializeRedis, closeRedis } from './common/redis';
 import { createApp } from './app';
+import { startApiKeyExpiryJob, stopApiKeyExpiryJob } from './jobs/api-key-expiry.job';
 
 /**
  * Start the application
@@ -31,6 +32,9 @@ async function start(): Promise<void> {
     // Create Express app
     const app = createApp();
 
+    // Start background jobs
+    startApiKeyExpiryJob();
+
     // Start server
     const server = app.listen(config.server.port, () => {
       logger.info('Server started successfully', {
@@ -49,6 +53,8 @@ async function start(): Promise<void> {
     const shutdown = async (signal: string) => {
       logger.info(`${signal} received, starting graceful shutdown...`);
 
+      stopApiKeyExpiryJob();
+
       server.close(async () => {
         logger.info('HTTP server closed');
 
@@ -0,0 +1,55 @@
+import { pool } from '../config/database';
+import { ApiChange, ApiDiffReport } from '../types';
+
+/**
+ * Postgres-backed store of OpenAPI diff reports between successive
+ * service versions, keyed by the newer version's service ID
+ */
+export class ApiDiffStore {
+  async saveReport(report: ApiDiffReport): Promise<void> {
+    await pool.query(
+      `INSERT INTO service_api_diffs (
+        service_id, previous_service_id, from_version, to_version, breaking, changes, compared_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (service_id) DO UPDATE SET
+        previous_service_id = EXCLUDED.previous_service_id,
+        from_version = EXCLUDED.from_version,
+        to_version = EXCLUDED.to_version,
+        breaking = EXCLUDED.breaking,
+        changes = EXCLUDED.changes,
+        compared_at = EXCLUDED.compared_at`,
+      [
+        report.serviceId,
+        report.previousServiceId,
+        report.fromVersion,
+        report.toVersion,
+        report.breaking,
+        JSON.stringify(report.changes),
+        report.comparedAt,
+      ]
+    );
+  }
+
+  async getReport(serviceId: string): Promise<ApiDiffReport | null> {
+    const result = await pool.query(
+      'SELECT * FROM service_api_diffs WHERE service_id = $1',
+      [serviceId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+
+    return {
+      serviceId: row.service_id,
+      previousServiceId: row.previous_service_id,
+      fromVersion: row.from_version,
+      toVersion: row.to_version,
+      breaking: row.breaking,
+      changes: (typeof row.changes === 'string' ? JSON.parse(row.changes) : row.changes) as ApiChange[],
+      comparedAt: row.compared_at,
+    };
+  }
+}
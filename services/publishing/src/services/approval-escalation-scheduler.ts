@@ -0,0 +1,76 @@
+/**
+ * Approval Escalation Scheduler
+ * Periodically hands approval stages that are past their due date to the
+ * stage's backup reviewers
+ */
+
+import { ApprovalService } from './approval-service';
+import { logger } from '../utils/logger';
+
+export interface ApprovalEscalationSchedulerOptions {
+  intervalMs?: number;
+}
+
+export class ApprovalEscalationScheduler {
+  private readonly intervalMs: number;
+  private readonly approvalService: ApprovalService;
+  private timer?: NodeJS.Timeout;
+  private cycleInProgress: boolean = false;
+
+  constructor(options: ApprovalEscalationSchedulerOptions = {}) {
+    this.intervalMs =
+      options.intervalMs ?? parseInt(process.env.APPROVAL_ESCALATION_INTERVAL_MS || '300000', 10);
+    this.approvalService = new ApprovalService();
+  }
+
+  /**
+   * Run a cycle now, to catch stages that fell due while the service was
+   * down, and then on a fixed interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info('Starting approval escalation scheduler', { intervalMs: this.intervalMs });
+
+    const tick = () => {
+      this.runCycle().catch((error) => {
+        logger.error('Approval escalation cycle failed', { error });
+      });
+    };
+
+    this.timer = setInterval(tick, this.intervalMs);
+
+    // Do not keep the process alive just for the scheduler
+    this.timer.unref();
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Approval escalation scheduler stopped');
+    }
+  }
+
+  async runCycle(): Promise<void> {
+    if (this.cycleInProgress) {
+      logger.warn('Skipping approval escalation cycle, previous cycle still running');
+      return;
+    }
+
+    this.cycleInProgress = true;
+
+    try {
+      const escalated = await this.approvalService.escalateOverdue();
+
+      if (escalated > 0) {
+        logger.info('Escalated overdue approval stages', { count: escalated });
+      }
+    } finally {
+      this.cycleInProgress = false;
+    }
+  }
+}
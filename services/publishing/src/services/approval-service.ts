@@ -0,0 +1,581 @@
+import { z } from 'zod';
+import {
+  ApprovalChangeRequest,
+  ApprovalReview,
+  ApprovalStage,
+  ApprovalStatus,
+  ApprovalWorkflow,
+  PublishingWorkflowContext,
+  Service,
+  ServiceStatus,
+  WebhookEvent,
+} from '../types';
+import {
+  ApprovalChainResolver,
+  approvalReviewSchema,
+  evaluateStage,
+  initialStages,
+  isStageReviewer,
+  loadApprovalChainConfig,
+  matchesReviewer,
+  openStage,
+} from '../workflows/approval-chains';
+import { WorkflowStateStore } from '../workflows/workflow-state-store';
+import { GovernanceClient } from '../integrations/governance-client';
+import { ServiceValidator } from '../validators/service-validator';
+import { ApprovalStore } from './approval-store';
+import { ServiceStore } from './service-store';
+import { OutboxStore, servicePublishedEvents } from './outbox-store';
+import { ServiceDraftStore } from './service-draft-store';
+import { WebhookDispatcher } from './webhook-dispatcher';
+import { DatabaseClient, transaction } from '../config/database';
+import { cacheDelete } from '../config/redis';
+import { logger } from '../utils/logger';
+
+export interface ApprovalReviewer {
+  id: string;
+  role: string;
+}
+
+/**
+ * Runs services through their approval chains: opens stages in order,
+ * records reviews, escalates overdue stages to backup reviewers and applies
+ * the final decision to the service
+ */
+export class ApprovalService {
+  private readonly approvalStore: ApprovalStore;
+  private readonly serviceStore: ServiceStore;
+  private readonly serviceDraftStore: ServiceDraftStore;
+  private readonly workflowStateStore: WorkflowStateStore;
+  private readonly serviceValidator: ServiceValidator;
+  private readonly governanceClient: GovernanceClient;
+  private readonly outboxStore: OutboxStore;
+  private readonly webhookDispatcher: WebhookDispatcher;
+  private readonly chainResolver: ApprovalChainResolver;
+
+  constructor() {
+    this.approvalStore = new ApprovalStore();
+    this.serviceStore = new ServiceStore();
+    this.serviceDraftStore = new ServiceDraftStore();
+    this.workflowStateStore = new WorkflowStateStore();
+    this.serviceValidator = new ServiceValidator();
+    this.governanceClient = new GovernanceClient();
+    this.outboxStore = new OutboxStore();
+    this.webhookDispatcher = new WebhookDispatcher();
+    this.chainResolver = new ApprovalChainResolver(
+      loadApprovalChainConfig(process.env.APPROVAL_CHAINS_FILE || undefined)
+    );
+  }
+
+  requiresApproval(spec: Partial<Service>): boolean {
+    return this.chainResolver.requiresApproval(spec);
+  }
+
+  /**
+   * Open the approval chain of a submitted service and register it with the
+   * Governance Dashboard. Returns the pending workflow if there already is one.
+   */
+  async startApproval(context: PublishingWorkflowContext): Promise<ApprovalWorkflow> {
+    const chain = this.chainResolver.chainFor(context.serviceSpec);
+
+    const approval = await this.approvalStore.createApproval({
+      serviceId: context.serviceId,
+      providerId: context.providerId,
+      chainId: chain.id,
+      stages: initialStages(chain),
+      serviceSpec: context.serviceSpec,
+      validationResults: context.validationResult,
+      policyResults: context.policyResult,
+    });
+
+    await this.governanceClient.createApprovalWorkflow(context, approval);
+
+    logger.info('Approval workflow started', {
+      approvalId: approval.id,
+      serviceId: approval.serviceId,
+      chainId: approval.chainId,
+      stages: approval.stages.map((stage) => stage.name),
+    });
+
+    return approval;
+  }
+
+  /**
+   * An approval workflow, visible to the provider, admins and its reviewers
+   */
+  async getApproval(approvalId: string, user: ApprovalReviewer): Promise<ApprovalWorkflow> {
+    const approval = await this.getExistingApproval(approvalId);
+    this.assertCanView(approval, user);
+    return approval;
+  }
+
+  /**
+   * The most recent approval workflow of a service
+   */
+  async getServiceApproval(serviceId: string, user: ApprovalReviewer): Promise<ApprovalWorkflow> {
+    const approval = await this.approvalStore.getLatestApproval(serviceId);
+
+    if (!approval) {
+      throw new Error('Approval not found');
+    }
+
+    this.assertCanView(approval, user);
+    return approval;
+  }
+
+  /**
+   * Pending approvals whose current stage the user can review and has not
+   * decided yet
+   */
+  async listAssigned(user: ApprovalReviewer): Promise<ApprovalWorkflow[]> {
+    const pending = await this.approvalStore.listPending();
+
+    return pending.filter((approval) =>
+      approval.providerId !== user.id &&
+      isStageReviewer(approval.stages[approval.currentStage], user) &&
+      !approval.reviews.some((review) =>
+        review.stage === approval.currentStage && review.reviewerId === user.id && review.action !== 'comment'
+      )
+    );
+  }
+
+  /**
+   * Review the pending approval of a service
+   */
+  async reviewService(serviceId: string, user: ApprovalReviewer, input: unknown): Promise<ApprovalWorkflow> {
+    const approval = await this.approvalStore.getPendingApproval(serviceId);
+
+    if (!approval) {
+      throw new Error('Approval not found: service has no pending approval');
+    }
+
+    return this.review(approval.id, user, input);
+  }
+
+  /**
+   * Approve, reject, request changes or comment on the current stage. Once
+   * the stage is decided the next stage opens, or the decision is applied
+   * to the service.
+   */
+  async review(approvalId: string, user: ApprovalReviewer, input: unknown): Promise<ApprovalWorkflow> {
+    const { action, comment, feedback } = this.parse(approvalReviewSchema, input);
+    const approval = await this.getExistingApproval(approvalId);
+
+    if (approval.status !== 'pending') {
+      throw new Error(`Invalid review: approval is already ${approval.status}`);
+    }
+
+    const stage = approval.stages[approval.currentStage];
+
+    if (approval.providerId === user.id) {
+      throw new Error('Unauthorized: Providers cannot review their own services');
+    }
+
+    if (!isStageReviewer(stage, user)) {
+      throw new Error(`Unauthorized: You are not a reviewer of the ${stage.name} stage`);
+    }
+
+    const review = await transaction(async (client) => {
+      const added = await this.approvalStore.addReview(
+        { approvalId, stage: approval.currentStage, reviewerId: user.id, action, comment, feedback },
+        client
+      );
+
+      if (added) {
+        await this.outboxStore.enqueue(
+          [
+            {
+              destination: 'governance',
+              eventType: 'approval_review_submitted',
+              aggregateId: approval.serviceId,
+              payload: {
+                approvalId,
+                serviceId: approval.serviceId,
+                stage: stage.name,
+                reviewerId: user.id,
+                action,
+                comment,
+                feedback,
+              },
+            },
+          ],
+          client
+        );
+      }
+
+      return added;
+    });
+
+    if (!review) {
+      throw new Error(`Invalid review: you already reviewed the ${stage.name} stage`);
+    }
+
+    logger.info('Approval review recorded', {
+      approvalId,
+      serviceId: approval.serviceId,
+      stage: stage.name,
+      reviewerId: user.id,
+      action,
+    });
+
+    if (action !== 'comment') {
+      // Re-read so reviews recorded concurrently count towards the quorum
+      await this.advance((await this.approvalStore.getApproval(approvalId))!, review);
+    }
+
+    return (await this.approvalStore.getApproval(approvalId))!;
+  }
+
+  /**
+   * Escalate pending stages past their due date: their backup reviewers may
+   * review from now on. Returns the number of stages escalated.
+   */
+  async escalateOverdue(now: Date = new Date()): Promise<number> {
+    const overdue = await this.approvalStore.listOverdue(now);
+    let escalated = 0;
+
+    for (const approval of overdue) {
+      const stage = approval.stages[approval.currentStage];
+      const stages = this.replaceStage(approval.stages, approval.currentStage, { ...stage, escalatedAt: now });
+
+      const updated = await transaction(async (client) => {
+        const escalating = await this.approvalStore.updateProgress(
+          approval.id,
+          approval.currentStage,
+          { stages, currentStage: approval.currentStage, status: 'pending' },
+          client
+        );
+
+        if (escalating) {
+          await this.outboxStore.enqueue(
+            [
+              {
+                destination: 'governance',
+                eventType: 'approval_stage_escalated',
+                aggregateId: approval.serviceId,
+                payload: {
+                  approvalId: approval.id,
+                  serviceId: approval.serviceId,
+                  stage: stage.name,
+                  dueAt: stage.dueAt?.toISOString(),
+                  backupReviewers: stage.backupReviewers,
+                },
+              },
+              {
+                destination: 'analytics',
+                eventType: 'approval_stage_escalated',
+                aggregateId: approval.serviceId,
+                payload: {
+                  serviceId: approval.serviceId,
+                  providerId: approval.providerId,
+                  approvalId: approval.id,
+                  stage: stage.name,
+                },
+              },
+            ],
+            client
+          );
+        }
+
+        return escalating;
+      });
+
+      if (!updated) {
+        continue;
+      }
+
+      escalated++;
+
+      logger.warn('Approval stage overdue, escalated to backup reviewers', {
+        approvalId: approval.id,
+        serviceId: approval.serviceId,
+        stage: stage.name,
+        dueAt: stage.dueAt,
+        backupReviewers: stage.backupReviewers,
+      });
+    }
+
+    return escalated;
+  }
+
+  /**
+   * Withdraw a pending approval without deciding it
+   */
+  async cancel(approvalId: string, reason: string): Promise<void> {
+    const approval = await this.approvalStore.getApproval(approvalId);
+
+    if (!approval || approval.status !== 'pending') {
+      return;
+    }
+
+    const stage = approval.stages[approval.currentStage];
+    await this.approvalStore.updateProgress(approval.id, approval.currentStage, {
+      stages: this.replaceStage(approval.stages, approval.currentStage, {
+        ...stage,
+        status: 'cancelled',
+        completedAt: new Date(),
+      }),
+      currentStage: approval.currentStage,
+      status: 'cancelled',
+    });
+
+    logger.info('Approval workflow cancelled', { approvalId, serviceId: approval.serviceId, reason });
+  }
+
+  /**
+   * Poll until an approval is decided or cancelled. Still pending after
+   * `timeoutMs`, it is cancelled.
+   */
+  async waitForDecision(approvalId: string, timeoutMs: number, pollIntervalMs: number): Promise<ApprovalStatus> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const status = await this.approvalStore.getStatus(approvalId);
+
+      if (!status) {
+        throw new Error(`Approval ${approvalId} not found`);
+      }
+
+      if (status !== 'pending') {
+        return status;
+      }
+
+      if (Date.now() >= deadline) {
+        await this.cancel(approvalId, 'Approval timed out');
+        return (await this.approvalStore.getStatus(approvalId)) ?? 'cancelled';
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, Math.min(pollIntervalMs, deadline - Date.now())));
+    }
+  }
+
+  /**
+   * Move a workflow on once its current stage is decided. A stage that is
+   * approved opens the next one; the last approval, a rejection or a
+   * change request ends the workflow.
+   */
+  private async advance(approval: ApprovalWorkflow, review: ApprovalReview): Promise<void> {
+    const index = approval.currentStage;
+
+    if (approval.status !== 'pending' || index !== review.stage) {
+      return;
+    }
+
+    const stage = approval.stages[index];
+    const outcome = evaluateStage(
+      stage,
+      approval.reviews.filter((r) => r.stage === index && r.action !== 'comment')
+    );
+
+    if (outcome === 'pending') {
+      return;
+    }
+
+    const now = new Date();
+    let stages = this.replaceStage(approval.stages, index, { ...stage, status: outcome, completedAt: now });
+    let currentStage = index;
+    let status = outcome as ApprovalStatus;
+
+    if (outcome === 'approved' && index + 1 < stages.length) {
+      currentStage = index + 1;
+      stages = this.replaceStage(stages, currentStage, openStage(stages[currentStage], now));
+      status = 'pending';
+    }
+
+    const updated: ApprovalWorkflow = { ...approval, stages, currentStage, status };
+    // Only an approval needs to know whether a publishing workflow will activate the service
+    const workflow = status === 'approved' ? await this.workflowStateStore.getWorkflow(approval.serviceId) : null;
+
+    const advanced = await transaction(async (client) => {
+      // Another reviewer's request may have decided the stage first
+      if (!(await this.approvalStore.updateProgress(approval.id, index, { stages, currentStage, status }, client))) {
+        return false;
+      }
+
+      if (status === 'pending') {
+        await this.outboxStore.enqueue(
+          [
+            {
+              destination: 'governance',
+              eventType: 'approval_stage_opened',
+              aggregateId: approval.serviceId,
+              payload: {
+                approvalId: approval.id,
+                serviceId: approval.serviceId,
+                stage: stages[currentStage].name,
+                reviewers: stages[currentStage].reviewers,
+                dueAt: stages[currentStage].dueAt?.toISOString(),
+              },
+            },
+          ],
+          client
+        );
+      } else {
+        await this.applyDecision(updated, review, workflow?.status === 'running', client);
+      }
+
+      return true;
+    });
+
+    if (!advanced) {
+      return;
+    }
+
+    if (status === 'pending') {
+      logger.info('Approval stage passed', {
+        approvalId: approval.id,
+        stage: stage.name,
+        nextStage: stages[currentStage].name,
+      });
+      return;
+    }
+
+    await this.announceDecision(updated, review);
+  }
+
+  /**
+   * Apply a final decision to the service, in the transaction that decided
+   * the workflow. An approved service is activated here unless a publishing
+   * workflow is waiting to activate it; a change request returns the
+   * submitted spec to the provider as a draft.
+   */
+  private async applyDecision(
+    approval: ApprovalWorkflow,
+    review: ApprovalReview,
+    activatedByWorkflow: boolean,
+    client: DatabaseClient
+  ): Promise<void> {
+    const { serviceId, providerId } = approval;
+    const stage = approval.stages[approval.currentStage];
+
+    if (approval.status === 'approved') {
+      if (!activatedByWorkflow) {
+        await this.serviceStore.updateStatus(serviceId, ServiceStatus.ACTIVE, undefined, client);
+        await this.outboxStore.enqueue(
+          servicePublishedEvents({ ...approval.serviceSpec, id: serviceId, providerId, status: ServiceStatus.ACTIVE }),
+          client
+        );
+      }
+    } else if (approval.status === 'rejected') {
+      await this.serviceStore.updateStatus(
+        serviceId,
+        ServiceStatus.SUSPENDED,
+        `Rejected in ${stage.name} review: ${review.comment}`,
+        client
+      );
+    } else {
+      const changesRequested: ApprovalChangeRequest = {
+        approvalId: approval.id,
+        stage: stage.name,
+        reviewerId: review.reviewerId,
+        comment: review.comment,
+        feedback: review.feedback,
+        requestedAt: review.createdAt,
+      };
+
+      await this.serviceStore.updateStatus(serviceId, ServiceStatus.CHANGES_REQUESTED, undefined, client);
+      await this.serviceDraftStore.saveDraft(
+        serviceId,
+        providerId,
+        approval.serviceSpec,
+        this.serviceValidator.validateDraft(approval.serviceSpec),
+        undefined,
+        changesRequested,
+        client
+      );
+    }
+
+    await this.outboxStore.enqueue(
+      [
+        {
+          destination: 'analytics',
+          eventType: 'service_approval_decided',
+          aggregateId: serviceId,
+          payload: {
+            serviceId,
+            providerId,
+            approvalId: approval.id,
+            chainId: approval.chainId,
+            status: approval.status,
+            stage: stage.name,
+          },
+        },
+      ],
+      client
+    );
+  }
+
+  /**
+   * Tell the provider's webhooks about a committed decision
+   */
+  private async announceDecision(approval: ApprovalWorkflow, review: ApprovalReview): Promise<void> {
+    const { serviceId, providerId } = approval;
+    const stage = approval.stages[approval.currentStage];
+    const data = {
+      serviceId,
+      name: approval.serviceSpec.name,
+      version: approval.serviceSpec.version,
+      approvalId: approval.id,
+      stage: stage.name,
+      reviewerId: review.reviewerId,
+      comment: review.comment,
+    };
+
+    if (approval.status === 'approved') {
+      await this.webhookDispatcher.dispatch(providerId, WebhookEvent.SERVICE_APPROVED, data);
+    } else if (approval.status === 'rejected') {
+      await this.webhookDispatcher.dispatch(providerId, WebhookEvent.SERVICE_REJECTED, data);
+    } else {
+      await this.webhookDispatcher.dispatch(providerId, WebhookEvent.SERVICE_CHANGES_REQUESTED, {
+        ...data,
+        feedback: review.feedback,
+      });
+    }
+
+    await cacheDelete(`service:${serviceId}`);
+
+    logger.info('Approval workflow decided', {
+      approvalId: approval.id,
+      serviceId,
+      status: approval.status,
+      stage: stage.name,
+    });
+  }
+
+  private async getExistingApproval(approvalId: string): Promise<ApprovalWorkflow> {
+    const approval = await this.approvalStore.getApproval(approvalId);
+
+    if (!approval) {
+      throw new Error('Approval not found');
+    }
+
+    return approval;
+  }
+
+  private assertCanView(approval: ApprovalWorkflow, user: ApprovalReviewer): void {
+    const canView =
+      user.role === 'admin' ||
+      approval.providerId === user.id ||
+      approval.stages.some((stage) => matchesReviewer([...stage.reviewers, ...stage.backupReviewers], user));
+
+    if (!canView) {
+      throw new Error('Unauthorized: You cannot view this approval');
+    }
+  }
+
+  private replaceStage(stages: ApprovalStage[], index: number, stage: ApprovalStage): ApprovalStage[] {
+    return stages.map((existing, i) => (i === index ? stage : existing));
+  }
+
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T {
+    const parsed = schema.safeParse(input);
+
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid review: ${parsed.error.errors.map((e) => `${e.path.join('.') || 'body'} ${e.message}`).join(', ')}`
+      );
+    }
+
+    return parsed.data;
+  }
+}
@@ -0,0 +1,218 @@
+import { DatabaseClient, pool } from '../config/database';
+import {
+  ApprovalReview,
+  ApprovalStage,
+  ApprovalStatus,
+  ApprovalWorkflow,
+  PolicyValidationResult,
+  Service,
+  ValidationResult,
+} from '../types';
+
+/**
+ * Postgres-backed store of approval workflows and their reviews. Stage
+ * transitions are conditional on the stage they start from, so concurrent
+ * reviews cannot advance a workflow twice.
+ */
+export class ApprovalStore {
+  /**
+   * Open an approval workflow. A service has at most one pending workflow;
+   * if it already has one, that one is returned.
+   */
+  async createApproval(approval: {
+    serviceId: string;
+    providerId: string;
+    chainId: string;
+    stages: ApprovalStage[];
+    serviceSpec: Partial<Service>;
+    validationResults?: ValidationResult;
+    policyResults?: PolicyValidationResult;
+  }): Promise<ApprovalWorkflow> {
+    const result = await pool.query(
+      `INSERT INTO approval_workflows (
+         service_id, provider_id, chain_id, stages, service_spec, validation_results, policy_results
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (service_id) WHERE status = 'pending' DO NOTHING
+       RETURNING id`,
+      [
+        approval.serviceId,
+        approval.providerId,
+        approval.chainId,
+        JSON.stringify(approval.stages),
+        JSON.stringify(approval.serviceSpec),
+        approval.validationResults ? JSON.stringify(approval.validationResults) : null,
+        approval.policyResults ? JSON.stringify(approval.policyResults) : null,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return (await this.getPendingApproval(approval.serviceId))!;
+    }
+
+    return (await this.getApproval(result.rows[0].id))!;
+  }
+
+  async getApproval(id: string): Promise<ApprovalWorkflow | null> {
+    const result = await pool.query('SELECT * FROM approval_workflows WHERE id = $1', [id]);
+    const [approval] = await this.withReviews(result.rows);
+    return approval ?? null;
+  }
+
+  async getPendingApproval(serviceId: string): Promise<ApprovalWorkflow | null> {
+    const result = await pool.query(
+      `SELECT * FROM approval_workflows WHERE service_id = $1 AND status = 'pending'`,
+      [serviceId]
+    );
+    const [approval] = await this.withReviews(result.rows);
+    return approval ?? null;
+  }
+
+  /**
+   * The service's most recent approval workflow, pending or finished
+   */
+  async getLatestApproval(serviceId: string): Promise<ApprovalWorkflow | null> {
+    const result = await pool.query(
+      `SELECT * FROM approval_workflows WHERE service_id = $1 ORDER BY created_at DESC LIMIT 1`,
+      [serviceId]
+    );
+    const [approval] = await this.withReviews(result.rows);
+    return approval ?? null;
+  }
+
+  async getStatus(id: string): Promise<ApprovalStatus | null> {
+    const result = await pool.query('SELECT status FROM approval_workflows WHERE id = $1', [id]);
+    return result.rows.length > 0 ? (result.rows[0].status as ApprovalStatus) : null;
+  }
+
+  async listPending(): Promise<ApprovalWorkflow[]> {
+    const result = await pool.query(
+      `SELECT * FROM approval_workflows WHERE status = 'pending' ORDER BY created_at ASC`
+    );
+    return this.withReviews(result.rows);
+  }
+
+  /**
+   * Pending workflows whose current stage is past due and not yet escalated
+   */
+  async listOverdue(now: Date = new Date()): Promise<ApprovalWorkflow[]> {
+    const result = await pool.query(
+      `SELECT * FROM approval_workflows
+       WHERE status = 'pending'
+         AND (stages -> current_stage ->> 'dueAt')::timestamptz <= $1
+         AND stages -> current_stage ->> 'escalatedAt' IS NULL
+       ORDER BY created_at ASC`,
+      [now]
+    );
+    return this.withReviews(result.rows);
+  }
+
+  /**
+   * Record a review. Returns null when the reviewer already decided the stage.
+   */
+  async addReview(
+    review: Pick<ApprovalReview, 'approvalId' | 'stage' | 'reviewerId' | 'action' | 'comment' | 'feedback'>,
+    db: DatabaseClient = pool
+  ): Promise<ApprovalReview | null> {
+    // Skipping the duplicate rather than failing on it keeps a caller's transaction usable
+    const result = await db.query(
+      `INSERT INTO approval_reviews (approval_id, stage, reviewer_id, action, comment, feedback)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (approval_id, stage, reviewer_id) WHERE action <> 'comment' DO NOTHING
+       RETURNING *`,
+      [
+        review.approvalId,
+        review.stage,
+        review.reviewerId,
+        review.action,
+        review.comment || null,
+        JSON.stringify(review.feedback),
+      ]
+    );
+
+    return result.rows.length > 0 ? this.mapReviewRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Replace the stages, current stage and status of a pending workflow,
+   * provided it is still at `fromStage`. Returns false when another writer
+   * got there first.
+   */
+  async updateProgress(
+    id: string,
+    fromStage: number,
+    progress: { stages: ApprovalStage[]; currentStage: number; status: ApprovalStatus },
+    db: DatabaseClient = pool
+  ): Promise<boolean> {
+    const result = await db.query(
+      `UPDATE approval_workflows SET
+         stages = $3,
+         current_stage = $4,
+         status = $5,
+         completed_at = CASE WHEN $5 = 'pending' THEN NULL ELSE NOW() END
+       WHERE id = $1 AND current_stage = $2 AND status = 'pending'`,
+      [id, fromStage, JSON.stringify(progress.stages), progress.currentStage, progress.status]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private async withReviews(rows: Record<string, unknown>[]): Promise<ApprovalWorkflow[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const result = await pool.query(
+      'SELECT * FROM approval_reviews WHERE approval_id = ANY($1) ORDER BY created_at ASC',
+      [rows.map((row) => row.id)]
+    );
+    const reviews = result.rows.map((row) => this.mapReviewRow(row));
+
+    return rows.map((row) => this.mapApprovalRow(row, reviews.filter((review) => review.approvalId === row.id)));
+  }
+
+  private mapApprovalRow(row: Record<string, unknown>, reviews: ApprovalReview[]): ApprovalWorkflow {
+    const stages = this.parseJson(row.stages) as Array<Record<string, unknown>>;
+
+    return {
+      id: row.id as string,
+      serviceId: row.service_id as string,
+      providerId: row.provider_id as string,
+      chainId: row.chain_id as string,
+      status: row.status as ApprovalStatus,
+      currentStage: row.current_stage as number,
+      stages: stages.map((stage) => ({
+        ...(stage as unknown as ApprovalStage),
+        startedAt: this.parseDate(stage.startedAt),
+        dueAt: this.parseDate(stage.dueAt),
+        escalatedAt: this.parseDate(stage.escalatedAt),
+        completedAt: this.parseDate(stage.completedAt),
+      })),
+      reviews,
+      serviceSpec: this.parseJson(row.service_spec) as Partial<Service>,
+      createdAt: row.created_at as Date,
+      updatedAt: row.updated_at as Date,
+      completedAt: (row.completed_at as Date | null) || undefined,
+    };
+  }
+
+  private mapReviewRow(row: Record<string, unknown>): ApprovalReview {
+    return {
+      id: row.id as string,
+      approvalId: row.approval_id as string,
+      stage: row.stage as number,
+      reviewerId: row.reviewer_id as string,
+      action: row.action as ApprovalReview['action'],
+      comment: (row.comment as string | null) || undefined,
+      feedback: this.parseJson(row.feedback) as ApprovalReview['feedback'],
+      createdAt: row.created_at as Date,
+    };
+  }
+
+  private parseJson(value: unknown): unknown {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+
+  private parseDate(value: unknown): Date | undefined {
+    return value ? new Date(value as string) : undefined;
+  }
+}
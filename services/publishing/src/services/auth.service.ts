@@ -15,22 +15,40 @@ import {
   ConflictError,
   NotFoundError,
 } from '../common/errors';
-import { setSession } from '../common/redis';
+import {
+  addUserSession,
+  deleteSession,
+  getSession,
+  getUserSessionIds,
+  hasSession,
+  removeUserSessions,
+  setSession,
+  swapSession,
+} from '../common/redis';
 import {
   User,
   UserRole,
   UserStatus,
   UserDTO,
   ApiKeyDTO,
+  VerifiedApiKey,
   JWTPayload,
   AuthResponse,
+  MfaChallenge,
+  Session,
+  SessionDTO,
+  toSessionDTO,
   toUserDTO,
   toApiKeyDTO,
   createUserSchema,
   loginSchema,
   createApiKeySchema,
+  rotateApiKeySchema,
+  parseScope,
 } from '../models/user.model';
 import * as userRepository from '../repositories/user.repository';
+import * as mfaService from './mfa.service';
+import { isIpInRanges } from '../utils/cidr';
 
 const BCRYPT_ROUNDS = 12;
 const SESSION_TTL = 7 * 24 * 60 * 60; // 7 days in seconds
@@ -80,7 +98,7 @@ export async function login(
   password: string,
   ipAddress?: string,
   userAgent?: string
-): Promise<AuthResponse> {
+): Promise<AuthResponse | MfaChallenge> {
   // Validate input
   const validated = loginSchema.parse({ email, password });
 
@@ -104,40 +122,96 @@ export async function login(
     throw new AuthenticationError('Invalid email or password');
   }
 
-  // Update last login
-  await userRepository.updateLastLogin(user.id);
+  // Users with MFA, or whose tenant requires it, get a challenge instead of tokens
+  const challenge = await mfaService.challengeIfRequired(user, ipAddress, userAgent);
+  if (challenge) {
+    return challenge;
+  }
 
-  // Generate tokens
-  const accessToken = generateAccessToken(user);
-  const refreshToken = generateRefreshToken(user);
+  const response = await startSession(user, ipAddress, userAgent);
 
-  // Store session
-  const sessionId = uuidv4();
-  await setSession(
-    sessionId,
-    {
-      userId: user.id,
-      refreshToken,
-      ipAddress,
-      userAgent,
-      createdAt: new Date().toISOString(),
-    },
-    SESSION_TTL
+  logAuth('login', user.id, true);
+  logAudit('user_login', user.id, 'user', user.id, { ipAddress, userAgent });
+
+  return response;
+}
+
+/**
+ * Complete a login that was answered with an MFA challenge
+ */
+export async function completeMfaLogin(mfaToken: string, input: unknown): Promise<AuthResponse> {
+  const { user, ipAddress, userAgent } = await mfaService.verifyChallenge(mfaToken, input);
+  return finishMfaLogin(user, ipAddress, userAgent);
+}
+
+/**
+ * Complete a login that required MFA enrollment first. The recovery codes
+ * are returned alongside the tokens.
+ */
+export async function completeMfaEnrollment(
+  mfaToken: string,
+  code: string
+): Promise<AuthResponse & { recoveryCodes: string[] }> {
+  const { user, ipAddress, userAgent, recoveryCodes } = await mfaService.confirmChallengeEnrollment(
+    mfaToken,
+    code
   );
 
+  return { ...(await finishMfaLogin(user, ipAddress, userAgent)), recoveryCodes };
+}
+
+async function finishMfaLogin(user: User, ipAddress?: string, userAgent?: string): Promise<AuthResponse> {
+  if (user.status !== UserStatus.ACTIVE) {
+    logAuth('login', user.id, false);
+    throw new AuthenticationError(`Account is ${user.status}`);
+  }
+
+  const response = await startSession(user, ipAddress, userAgent);
+
   logAuth('login', user.id, true);
-  logAudit('user_login', user.id, 'user', user.id, { ipAddress, userAgent });
+  logAudit('user_login', user.id, 'user', user.id, { ipAddress, userAgent, mfa: true });
+
+  return response;
+}
+
+/**
+ * Issue tokens and store a session for an authenticated user. Shared by
+ * password, MFA and SSO login. The session is also the refresh token family.
+ */
+export async function startSession(
+  user: User,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<AuthResponse> {
+  // Update last login
+  await userRepository.updateLastLogin(user.id);
+
+  const now = new Date();
+  const session: Session = {
+    id: uuidv4(),
+    userId: user.id,
+    refreshTokenId: uuidv4(),
+    ipAddress,
+    userAgent,
+    createdAt: now.toISOString(),
+    lastSeenAt: now.toISOString(),
+    lastSeenIp: ipAddress,
+    expiresAt: new Date(now.getTime() + SESSION_TTL * 1000).toISOString(),
+  };
+
+  await setSession(session.id, session, SESSION_TTL);
+  await addUserSession(user.id, session.id, SESSION_TTL);
 
   return {
     user: toUserDTO(user),
-    accessToken,
-    refreshToken,
+    accessToken: generateAccessToken(user, session.id),
+    refreshToken: generateRefreshToken(user, session.id, session.refreshTokenId),
     expiresIn: parseExpiration(config.jwt.expiresIn),
   };
 }
 
 /**
- * Logout user by invalidating session
+ * Logout user by revoking the session the refresh token belongs to
  */
 export async function logout(refreshToken: string): Promise<void> {
   try {
@@ -147,55 +221,183 @@ export async function logout(refreshToken: string): Promise<void> {
       throw new AuthenticationError('Invalid token type');
     }
 
-    // Find and delete session
-    // Note: In a real implementation, you'd maintain a mapping of tokens to sessions
-    // For simplicity, we're just logging the logout
+    if (payload.sid) {
+      await endSession(payload.sub, payload.sid);
+    }
+
     logAuth('logout', payload.sub, true);
-    logAudit('user_logout', payload.sub, 'user', payload.sub);
+    logAudit('user_logout', payload.sub, 'user', payload.sub, { sessionId: payload.sid });
   } catch (error) {
     logger.warn('Logout with invalid token', { error });
   }
 }
 
 /**
- * Refresh access token using refresh token
+ * Exchange a refresh token for a new access token and a new refresh token.
+ * Each refresh token can be used once; replaying an earlier token from the
+ * same session is treated as theft and revokes the whole session.
  */
-export async function refreshAccessToken(refreshToken: string): Promise<{
+export async function refreshAccessToken(
+  refreshToken: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<{
   accessToken: string;
+  refreshToken: string;
   expiresIn: number;
 }> {
+  let payload: JWTPayload;
   try {
-    const payload = jwt.verify(refreshToken, config.jwt.secret) as JWTPayload;
-
-    if (payload.type !== 'refresh') {
-      throw new AuthenticationError('Invalid token type');
+    payload = jwt.verify(refreshToken, config.jwt.secret) as JWTPayload;
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new AuthenticationError('Invalid or expired refresh token');
     }
+    throw error;
+  }
 
-    // Get user
-    const user = await userRepository.findById(payload.sub);
-    if (!user) {
-      throw new AuthenticationError('User not found');
-    }
+  // Tokens issued before session tracking carry no session and are not accepted
+  if (payload.type !== 'refresh' || !payload.sid || !payload.jti) {
+    throw new AuthenticationError('Invalid or expired refresh token');
+  }
 
-    if (user.status !== UserStatus.ACTIVE) {
-      throw new AuthenticationError(`Account is ${user.status}`);
-    }
+  const session = (await getSession(payload.sid)) as Session | null;
+  if (!session || session.userId !== payload.sub) {
+    logAuth('token_refresh', payload.sub, false);
+    throw new AuthenticationError('Session has been revoked');
+  }
 
-    // Generate new access token
-    const accessToken = generateAccessToken(user);
+  if (session.refreshTokenId !== payload.jti) {
+    await handleRefreshTokenReuse(session, ipAddress, userAgent);
+  }
 
-    logAuth('token_refresh', user.id, true);
+  // Get user
+  const user = await userRepository.findById(payload.sub);
+  if (!user) {
+    throw new AuthenticationError('User not found');
+  }
 
-    return {
-      accessToken,
-      expiresIn: parseExpiration(config.jwt.expiresIn),
-    };
-  } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      throw new AuthenticationError('Invalid or expired refresh token');
+  if (user.status !== UserStatus.ACTIVE) {
+    await endSession(user.id, session.id);
+    throw new AuthenticationError(`Account is ${user.status}`);
+  }
+
+  const now = new Date();
+  const rotated: Session = {
+    ...session,
+    refreshTokenId: uuidv4(),
+    lastSeenAt: now.toISOString(),
+    lastSeenIp: ipAddress ?? session.lastSeenIp,
+    userAgent: userAgent ?? session.userAgent,
+    expiresAt: new Date(now.getTime() + SESSION_TTL * 1000).toISOString(),
+  };
+
+  // A concurrent refresh with the same token loses the swap and counts as reuse
+  const result = await swapSession(session.id, 'refreshTokenId', payload.jti, rotated, SESSION_TTL);
+  if (result === 'missing') {
+    throw new AuthenticationError('Session has been revoked');
+  }
+  if (result === 'mismatch') {
+    await handleRefreshTokenReuse(session, ipAddress, userAgent);
+  }
+
+  await addUserSession(user.id, session.id, SESSION_TTL);
+
+  logAuth('token_refresh', user.id, true);
+
+  return {
+    accessToken: generateAccessToken(user, session.id),
+    refreshToken: generateRefreshToken(user, session.id, rotated.refreshTokenId),
+    expiresIn: parseExpiration(config.jwt.expiresIn),
+  };
+}
+
+/**
+ * List a user's active sessions, most recently seen first
+ */
+export async function listSessions(userId: string, currentSessionId?: string): Promise<SessionDTO[]> {
+  const sessionIds = await getUserSessionIds(userId);
+  const sessions: Session[] = [];
+  const stale: string[] = [];
+
+  for (const sessionId of sessionIds) {
+    const session = (await getSession(sessionId)) as Session | null;
+    if (session && session.userId === userId) {
+      sessions.push(session);
+    } else {
+      stale.push(sessionId);
     }
-    throw error;
   }
+
+  // Expired sessions leave their IDs behind in the index
+  await removeUserSessions(userId, stale);
+
+  return sessions
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+    .map((session) => toSessionDTO(session, currentSessionId));
+}
+
+/**
+ * Revoke one of a user's sessions
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<void> {
+  const session = (await getSession(sessionId)) as Session | null;
+
+  if (!session || session.userId !== userId) {
+    throw new NotFoundError('Session', sessionId);
+  }
+
+  await endSession(userId, sessionId);
+
+  logAudit('session_revoked', userId, 'session', sessionId);
+}
+
+/**
+ * Revoke all of a user's sessions, optionally keeping one (usually the
+ * current session). Returns the number revoked.
+ */
+export async function revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const sessionIds = (await getUserSessionIds(userId)).filter((id) => id !== exceptSessionId);
+
+  for (const sessionId of sessionIds) {
+    await deleteSession(sessionId);
+  }
+  await removeUserSessions(userId, sessionIds);
+
+  logAudit('sessions_revoked', userId, 'user', userId, {
+    count: sessionIds.length,
+    keptSessionId: exceptSessionId,
+  });
+
+  return sessionIds.length;
+}
+
+async function endSession(userId: string, sessionId: string): Promise<void> {
+  await deleteSession(sessionId);
+  await removeUserSessions(userId, [sessionId]);
+}
+
+/**
+ * A refresh token that was already rotated has been presented again. Either
+ * the legitimate client or an attacker holds a stale copy, so the session is
+ * revoked for both.
+ */
+async function handleRefreshTokenReuse(
+  session: Session,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<never> {
+  await endSession(session.userId, session.id);
+
+  logAuth('token_refresh', session.userId, false);
+  logger.warn('Refresh token reuse detected', { userId: session.userId, sessionId: session.id, ipAddress });
+  logAudit('refresh_token_reuse_detected', session.userId, 'session', session.id, {
+    ipAddress,
+    userAgent,
+    sessionIpAddress: session.ipAddress,
+  });
+
+  throw new AuthenticationError('Refresh token reuse detected. The session has been revoked.');
 }
 
 /**
@@ -209,6 +411,11 @@ export async function verifyAccessToken(token: string): Promise<JWTPayload> {
       throw new AuthenticationError('Invalid token type');
     }
 
+    // Revoking a session also ends its access tokens
+    if (payload.sid && !(await hasSession(payload.sid))) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+
     return payload;
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
@@ -221,12 +428,13 @@ export async function verifyAccessToken(token: string): Promise<JWTPayload> {
 /**
  * Generate access token
  */
-function generateAccessToken(user: User): string {
+function generateAccessToken(user: User, sessionId: string): string {
   const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
     sub: user.id,
     email: user.email,
     role: user.role,
     type: 'access',
+    sid: sessionId,
   };
 
   return jwt.sign(payload, config.jwt.secret, {
@@ -239,12 +447,14 @@ function generateAccessToken(user: User): string {
 /**
  * Generate refresh token
  */
-function generateRefreshToken(user: User): string {
+function generateRefreshToken(user: User, sessionId: string, tokenId: string): string {
   const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
     sub: user.id,
     email: user.email,
     role: user.role,
     type: 'refresh',
+    sid: sessionId,
+    jti: tokenId,
   };
 
   return jwt.sign(payload, config.jwt.secret, {
@@ -254,6 +464,17 @@ function generateRefreshToken(user: User): string {
   } as jwt.SignOptions);
 }
 
+/**
+ * Generate a new API key with its bcrypt hash and lookup prefix
+ */
+async function generateApiKey(): Promise<{ key: string; keyHash: string; keyPrefix: string }> {
+  const key = `${config.apiKey.prefix}${crypto.randomBytes(config.apiKey.length).toString('hex')}`;
+  const keyHash = await bcrypt.hash(key, BCRYPT_ROUNDS);
+  const keyPrefix = key.substring(0, config.apiKey.prefix.length + 8);
+
+  return { key, keyHash, keyPrefix };
+}
+
 /**
  * Parse expiration string to seconds
  */
@@ -282,16 +503,31 @@ export async function createApiKey(
   input: {
     name: string;
     scopes: string[];
+    allowedServiceIds?: string[];
+    allowedCidrs?: string[];
     expiresInDays?: number;
   }
 ): Promise<{ apiKey: ApiKeyDTO; key: string }> {
   // Validate input
   const validated = createApiKeySchema.parse(input);
 
+  // A key can never carry permissions its owner's role does not have
+  const user = await userRepository.findById(userId);
+  if (!user) {
+    throw new NotFoundError('User', userId);
+  }
+
+  const ungranted = validated.scopes.filter(
+    (scope) => !hasPermission(user.role, parseScope(scope).permission)
+  );
+  if (ungranted.length > 0) {
+    throw new AuthorizationError(
+      `Role ${user.role} cannot grant scopes: ${ungranted.join(', ')}`
+    );
+  }
+
   // Generate API key
-  const key = `${config.apiKey.prefix}${crypto.randomBytes(config.apiKey.length).toString('hex')}`;
-  const keyHash = await bcrypt.hash(key, BCRYPT_ROUNDS);
-  const keyPrefix = key.substring(0, config.apiKey.prefix.length + 8);
+  const { key, keyHash, keyPrefix } = await generateApiKey();
 
   // Calculate expiration
   const expiresAt = validated.expiresInDays
@@ -304,13 +540,17 @@ export async function createApiKey(
     keyHash,
     keyPrefix,
     name: validated.name,
-    scopes: validated.scopes,
+    scopes: [...new Set(validated.scopes)],
+    allowedServiceIds: validated.allowedServiceIds ? [...new Set(validated.allowedServiceIds)] : null,
+    allowedCidrs: validated.allowedCidrs ?? null,
     expiresAt,
   });
 
   logAudit('api_key_created', userId, 'api_key', apiKey.id, {
     name: apiKey.name,
     scopes: apiKey.scopes,
+    allowedServiceIds: apiKey.allowedServiceIds,
+    allowedCidrs: apiKey.allowedCidrs,
   });
 
   return {
@@ -322,7 +562,11 @@ export async function createApiKey(
 /**
  * Verify API key
  */
-export async function verifyApiKey(key: string): Promise<{ userId: string; scopes: string[] }> {
+export async function verifyApiKey(
+  key: string,
+  client: { ipAddress?: string; userAgent?: string } = {}
+): Promise<VerifiedApiKey> {
+  const { ipAddress } = client;
   const keyPrefix = key.substring(0, config.apiKey.prefix.length + 8);
 
   // Find API key by prefix
@@ -347,15 +591,132 @@ export async function verifyApiKey(key: string): Promise<{ userId: string; scope
     throw new AuthenticationError('Invalid API key');
   }
 
-  // Update last used timestamp
-  await userRepository.updateApiKeyLastUsed(apiKey.id);
+  // Check client IP restriction
+  if (apiKey.allowedCidrs && (!ipAddress || !isIpInRanges(ipAddress, apiKey.allowedCidrs))) {
+    logger.warn('API key used from disallowed address', { apiKeyId: apiKey.id, ipAddress });
+    throw new AuthorizationError('API key is not allowed from this IP address', {
+      apiKeyId: apiKey.id,
+      ipAddress,
+    });
+  }
+
+  // Keys are limited by their owner's role, so the owner must still be active
+  const user = await userRepository.findById(apiKey.userId);
+  if (!user || user.status !== UserStatus.ACTIVE) {
+    throw new AuthenticationError('API key owner is not active');
+  }
+
+  // Record usage telemetry
+  await userRepository.updateApiKeyLastUsed(apiKey.id, client);
 
   return {
+    apiKeyId: apiKey.id,
     userId: apiKey.userId,
+    role: user.role,
     scopes: apiKey.scopes,
+    allowedServiceIds: apiKey.allowedServiceIds,
+    expiresAt: apiKey.expiresAt,
+    rotatedToId: apiKey.rotatedToId,
   };
 }
 
+/**
+ * Rotate an API key: issue a successor with the same name, scopes and
+ * restrictions, and keep the old key valid for an overlap window so clients
+ * can switch over without an outage
+ */
+export async function rotateApiKey(
+  userId: string,
+  apiKeyId: string,
+  input: { overlapHours?: number; expiresInDays?: number } = {}
+): Promise<{ apiKey: ApiKeyDTO; key: string; previousKey: ApiKeyDTO }> {
+  const validated = rotateApiKeySchema.parse(input);
+
+  const apiKey = await userRepository.findApiKeyById(apiKeyId);
+
+  if (!apiKey || apiKey.revokedAt) {
+    throw new NotFoundError('API key', apiKeyId);
+  }
+
+  if (apiKey.userId !== userId) {
+    throw new AuthorizationError('You do not have permission to rotate this API key');
+  }
+
+  if (apiKey.rotatedToId) {
+    throw new ConflictError('API key has already been rotated', { rotatedToId: apiKey.rotatedToId });
+  }
+
+  if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
+    throw new ConflictError('API key has expired; create a new key instead');
+  }
+
+  // Keep the original lifetime unless a new one is requested
+  const lifetimeMs = validated.expiresInDays
+    ? validated.expiresInDays * 24 * 60 * 60 * 1000
+    : apiKey.expiresAt
+      ? apiKey.expiresAt.getTime() - apiKey.createdAt.getTime()
+      : null;
+  const overlapHours = validated.overlapHours ?? config.apiKey.rotationOverlapHours;
+  const overlapEndsAt = new Date(Date.now() + overlapHours * 60 * 60 * 1000);
+
+  const { key, keyHash, keyPrefix } = await generateApiKey();
+
+  const { previous, successor } = await userRepository.rotateApiKey(
+    apiKey.id,
+    {
+      userId,
+      keyHash,
+      keyPrefix,
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      allowedServiceIds: apiKey.allowedServiceIds,
+      allowedCidrs: apiKey.allowedCidrs,
+      expiresAt: lifetimeMs ? new Date(Date.now() + lifetimeMs) : null,
+    },
+    overlapEndsAt
+  );
+
+  logAudit('api_key_rotated', userId, 'api_key', apiKey.id, {
+    successorId: successor.id,
+    previousExpiresAt: previous.expiresAt,
+  });
+
+  return {
+    apiKey: toApiKeyDTO(successor),
+    key, // Return the actual key only once
+    previousKey: toApiKeyDTO(previous),
+  };
+}
+
+/**
+ * Issue warnings for active keys that expire within the warning window.
+ * Each key is warned about once; returns the number of warnings issued.
+ */
+export async function sendApiKeyExpiryWarnings(): Promise<number> {
+  const warnBefore = new Date(Date.now() + config.apiKey.expiryWarningDays * 24 * 60 * 60 * 1000);
+  const expiring = await userRepository.findApiKeysExpiringBefore(warnBefore);
+
+  for (const apiKey of expiring) {
+    logger.warn('API key expiring soon', {
+      apiKeyId: apiKey.id,
+      userId: apiKey.userId,
+      keyPrefix: apiKey.keyPrefix,
+      expiresAt: apiKey.expiresAt,
+    });
+
+    logAudit('api_key_expiring', apiKey.userId, 'api_key', apiKey.id, {
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+    });
+
+    await userRepository.markApiKeyExpiryWarningSent(apiKey.id);
+  }
+
+  return expiring.length;
+}
+
 /**
  * List API keys for user
  */
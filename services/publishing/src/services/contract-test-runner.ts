@@ -0,0 +1,325 @@
+/**
+ * Contract Test Runner
+ * Exercises the operations declared in a service's OpenAPI document against
+ * the live endpoint and checks responses against the declared schemas.
+ * Only safe methods run by default; an operation with a side effect runs
+ * only when it sets `x-marketplace-contract-test: true`, and any operation
+ * can be left out with `x-marketplace-contract-test: false`.
+ */
+
+import axios, { Method } from 'axios';
+import { Service, TestResult, TestCase } from '../types';
+import { logger } from '../utils/logger';
+import {
+  RefResolver,
+  derefSchema,
+  resolveLocalRef,
+  sampleFromSchema,
+  validateAgainstSchema,
+} from '../utils/json-schema';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'options', 'head', 'trace'];
+const SAFE_METHODS = ['get', 'head', 'options'];
+export const CONTRACT_TEST_EXTENSION = 'x-marketplace-contract-test';
+const MAX_REPORTED_ERRORS = 5;
+
+export interface ContractTestOptions {
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+interface OperationRequest {
+  url: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export class ContractTestRunner {
+  private readonly timeoutMs: number;
+  private readonly headers: Record<string, string>;
+
+  constructor(options: ContractTestOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? parseInt(process.env.TEST_TIMEOUT_MS || '30000', 10);
+    this.headers = options.headers ?? {};
+  }
+
+  /**
+   * Run one contract test per operation in the service's OpenAPI document
+   */
+  async run(service: Service): Promise<TestResult> {
+    const startTime = Date.now();
+    const tests: TestCase[] = [];
+    const spec = service.openApiSpec;
+    const paths = spec?.paths;
+
+    if (!spec || !paths || typeof paths !== 'object') {
+      tests.push({
+        name: 'Contract Tests',
+        status: 'skipped',
+        duration: 0,
+        error: 'Service has no OpenAPI specification',
+      });
+
+      return this.summarize(tests, startTime);
+    }
+
+    logger.info('Running contract tests', {
+      serviceId: service.id,
+      endpoint: service.endpoint.url,
+    });
+
+    const resolve: RefResolver = (ref) => resolveLocalRef(spec, ref);
+
+    for (const [path, rawPathItem] of Object.entries(paths as Record<string, unknown>)) {
+      const pathItem = derefSchema(rawPathItem, resolve);
+      if (!pathItem) {
+        continue;
+      }
+
+      for (const method of HTTP_METHODS) {
+        const operation = derefSchema(pathItem[method], resolve);
+        if (!operation) {
+          continue;
+        }
+
+        const optIn = operation[CONTRACT_TEST_EXTENSION];
+        if (optIn === false || (optIn !== true && !SAFE_METHODS.includes(method))) {
+          tests.push({
+            name: this.operationName(path, method, operation),
+            status: 'skipped',
+            duration: 0,
+            error: optIn === false
+              ? `Excluded by ${CONTRACT_TEST_EXTENSION}`
+              : `${method.toUpperCase()} is not a safe method; set ${CONTRACT_TEST_EXTENSION}: true to test it`,
+          });
+          continue;
+        }
+
+        tests.push(
+          await this.testOperation(service, path, method, pathItem, operation, resolve)
+        );
+      }
+    }
+
+    const result = this.summarize(tests, startTime);
+
+    logger.info('Contract tests completed', {
+      serviceId: service.id,
+      passed: result.passed,
+      failed: result.failed,
+    });
+
+    return result;
+  }
+
+  private async testOperation(
+    service: Service,
+    path: string,
+    method: string,
+    pathItem: Record<string, unknown>,
+    operation: Record<string, unknown>,
+    resolve: RefResolver
+  ): Promise<TestCase> {
+    const name = this.operationName(path, method, operation);
+    const startTime = Date.now();
+
+    try {
+      const request = this.buildRequest(service, path, pathItem, operation, resolve);
+
+      const response = await axios.request({
+        method: method as Method,
+        url: request.url,
+        params: request.query,
+        headers: request.headers,
+        data: request.body,
+        timeout: this.timeoutMs,
+        validateStatus: () => true,
+      });
+
+      const duration = Date.now() - startTime;
+      const responses = derefSchema(operation.responses, resolve) ?? {};
+      const declared = this.findDeclaredResponse(responses, response.status, resolve);
+
+      if (!declared) {
+        return {
+          name,
+          status: 'failed',
+          duration,
+          error: `Undeclared response status ${response.status}`,
+        };
+      }
+
+      const schema = this.findJsonSchema(declared.content, resolve);
+      if (schema && method !== 'head' && response.status !== 204) {
+        const errors = validateAgainstSchema(response.data, schema, resolve);
+
+        if (errors.length > 0) {
+          return {
+            name,
+            status: 'failed',
+            duration,
+            error: `Response body does not match schema: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}`,
+          };
+        }
+      }
+
+      return { name, status: 'passed', duration };
+    } catch (error) {
+      return {
+        name,
+        status: 'failed',
+        duration: Date.now() - startTime,
+        error: `Request failed: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  private operationName(path: string, method: string, operation: Record<string, unknown>): string {
+    return operation.operationId
+      ? `${method.toUpperCase()} ${path} (${operation.operationId})`
+      : `${method.toUpperCase()} ${path}`;
+  }
+
+  /**
+   * Build a request from parameter and request body examples, falling back to schema samples
+   */
+  private buildRequest(
+    service: Service,
+    path: string,
+    pathItem: Record<string, unknown>,
+    operation: Record<string, unknown>,
+    resolve: RefResolver
+  ): OperationRequest {
+    const parameters = [
+      ...(Array.isArray(pathItem.parameters) ? pathItem.parameters : []),
+      ...(Array.isArray(operation.parameters) ? operation.parameters : []),
+    ]
+      .map((parameter) => derefSchema(parameter, resolve))
+      .filter((parameter): parameter is Record<string, unknown> => parameter !== undefined);
+
+    let resolvedPath = path;
+    const query: Record<string, string> = {};
+    const headers: Record<string, string> = { ...this.headers };
+
+    for (const parameter of parameters) {
+      const location = parameter.in;
+      const parameterName = parameter.name as string;
+      const hasExample = 'example' in parameter || 'examples' in parameter;
+
+      if (location !== 'path' && !parameter.required && !hasExample) {
+        continue;
+      }
+
+      const value = String(this.parameterValue(parameter, resolve));
+
+      if (location === 'path') {
+        resolvedPath = resolvedPath.replace(`{${parameterName}}`, encodeURIComponent(value));
+      } else if (location === 'query') {
+        query[parameterName] = value;
+      } else if (location === 'header') {
+        headers[parameterName] = value;
+      }
+    }
+
+    let body: unknown;
+    const requestBody = derefSchema(operation.requestBody, resolve);
+    if (requestBody) {
+      const media = this.findJsonMedia(requestBody.content, resolve);
+      if (media) {
+        body = this.mediaExample(media, resolve);
+        headers['Content-Type'] = 'application/json';
+      }
+    }
+
+    return {
+      url: `${service.endpoint.url.replace(/\/+$/, '')}${resolvedPath}`,
+      query,
+      headers,
+      body,
+    };
+  }
+
+  private parameterValue(parameter: Record<string, unknown>, resolve: RefResolver): unknown {
+    if ('example' in parameter) {
+      return parameter.example;
+    }
+
+    const example = this.firstExample(parameter.examples, resolve);
+    if (example !== undefined) {
+      return example;
+    }
+
+    return sampleFromSchema(parameter.schema, resolve);
+  }
+
+  private mediaExample(media: Record<string, unknown>, resolve: RefResolver): unknown {
+    if ('example' in media) {
+      return media.example;
+    }
+
+    const example = this.firstExample(media.examples, resolve);
+    if (example !== undefined) {
+      return example;
+    }
+
+    return sampleFromSchema(media.schema, resolve);
+  }
+
+  private firstExample(examples: unknown, resolve: RefResolver): unknown {
+    if (!examples || typeof examples !== 'object') {
+      return undefined;
+    }
+
+    const first = Object.values(examples as Record<string, unknown>)[0];
+    const example = derefSchema(first, resolve);
+
+    return example && 'value' in example ? example.value : undefined;
+  }
+
+  /**
+   * Match a status code to the declared responses: exact code, then range (2XX), then default
+   */
+  private findDeclaredResponse(
+    responses: Record<string, unknown>,
+    status: number,
+    resolve: RefResolver
+  ): Record<string, unknown> | undefined {
+    const range = `${Math.floor(status / 100)}XX`;
+    const key = Object.keys(responses).find((code) => code === String(status))
+      ?? Object.keys(responses).find((code) => code.toUpperCase() === range)
+      ?? Object.keys(responses).find((code) => code === 'default');
+
+    return key ? derefSchema(responses[key], resolve) : undefined;
+  }
+
+  private findJsonMedia(content: unknown, resolve: RefResolver): Record<string, unknown> | undefined {
+    if (!content || typeof content !== 'object') {
+      return undefined;
+    }
+
+    const entry = Object.entries(content as Record<string, unknown>).find(
+      ([mediaType]) => mediaType === 'application/json' || mediaType.endsWith('+json')
+    );
+
+    return entry ? derefSchema(entry[1], resolve) : undefined;
+  }
+
+  private findJsonSchema(content: unknown, resolve: RefResolver): unknown {
+    return this.findJsonMedia(content, resolve)?.schema;
+  }
+
+  private summarize(tests: TestCase[], startTime: number): TestResult {
+    const failed = tests.filter((t) => t.status === 'failed').length;
+    const skipped = tests.filter((t) => t.status === 'skipped').length;
+
+    return {
+      passed: failed === 0,
+      total: tests.length,
+      failed,
+      skipped,
+      duration: Date.now() - startTime,
+      tests,
+    };
+  }
+}
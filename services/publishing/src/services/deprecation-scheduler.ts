@@ -0,0 +1,76 @@
+/**
+ * Deprecation Scheduler
+ * Periodically retires deprecated services whose sunset has passed and
+ * finishes consumer notifications interrupted by a failure or restart
+ */
+
+import { DeprecationWorkflow } from '../workflows/publishing-workflow';
+import { logger } from '../utils/logger';
+
+export interface DeprecationSchedulerOptions {
+  intervalMs?: number;
+}
+
+export class DeprecationScheduler {
+  private readonly intervalMs: number;
+  private readonly deprecationWorkflow: DeprecationWorkflow;
+  private timer?: NodeJS.Timeout;
+  private cycleInProgress: boolean = false;
+
+  constructor(options: DeprecationSchedulerOptions = {}) {
+    this.intervalMs =
+      options.intervalMs ?? parseInt(process.env.DEPRECATION_SCHEDULER_INTERVAL_MS || '300000', 10);
+    this.deprecationWorkflow = new DeprecationWorkflow();
+  }
+
+  /**
+   * Run a cycle now, to catch sunsets that passed while the service was
+   * down, and then on a fixed interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info('Starting deprecation scheduler', { intervalMs: this.intervalMs });
+
+    const tick = () => {
+      this.runCycle().catch((error) => {
+        logger.error('Deprecation scheduler cycle failed', { error });
+      });
+    };
+
+    this.timer = setInterval(tick, this.intervalMs);
+
+    // Do not keep the process alive just for the scheduler
+    this.timer.unref();
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Deprecation scheduler stopped');
+    }
+  }
+
+  async runCycle(): Promise<void> {
+    if (this.cycleInProgress) {
+      logger.warn('Skipping deprecation scheduler cycle, previous cycle still running');
+      return;
+    }
+
+    this.cycleInProgress = true;
+
+    try {
+      const retired = await this.deprecationWorkflow.processPending();
+
+      if (retired > 0) {
+        logger.info('Retired deprecated services', { count: retired });
+      }
+    } finally {
+      this.cycleInProgress = false;
+    }
+  }
+}
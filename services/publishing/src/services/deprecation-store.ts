@@ -0,0 +1,148 @@
+import { DatabaseClient, pool } from '../config/database';
+import { DeprecationStatus, ServiceDeprecation } from '../types';
+
+/**
+ * Postgres-backed deprecation schedule. The sunset time lives here rather
+ * than in a process timer, so pending retirements survive restarts. Writes
+ * take an optional transaction client, so they commit with their outbox events.
+ */
+export class DeprecationStore {
+  async createDeprecation(
+    deprecation: Pick<ServiceDeprecation, 'serviceId' | 'reason' | 'successorServiceId' | 'successorVersion' | 'sunsetAt'>,
+    db: DatabaseClient = pool
+  ): Promise<ServiceDeprecation> {
+    const result = await db.query(
+      `INSERT INTO service_deprecations (service_id, reason, successor_service_id, successor_version, sunset_at)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [
+        deprecation.serviceId,
+        deprecation.reason,
+        deprecation.successorServiceId,
+        deprecation.successorVersion,
+        deprecation.sunsetAt,
+      ]
+    );
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  async getDeprecation(serviceId: string): Promise<ServiceDeprecation | null> {
+    const result = await pool.query(
+      'SELECT * FROM service_deprecations WHERE service_id = $1',
+      [serviceId]
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Drop the schedule of a deprecated service that was reactivated, so it
+   * is not retired at the old sunset
+   */
+  async cancelDeprecation(serviceId: string, db: DatabaseClient = pool): Promise<void> {
+    await db.query(
+      `DELETE FROM service_deprecations WHERE service_id = $1 AND status = 'scheduled'`,
+      [serviceId]
+    );
+  }
+
+  /**
+   * Scheduled deprecations whose consumers have not all been notified yet
+   */
+  async listPendingNotification(): Promise<ServiceDeprecation[]> {
+    const result = await pool.query(
+      `SELECT * FROM service_deprecations
+       WHERE status = 'scheduled' AND notified_at IS NULL
+       ORDER BY deprecated_at`
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Scheduled deprecations whose sunset has passed
+   */
+  async listDue(now: Date = new Date()): Promise<ServiceDeprecation[]> {
+    const result = await pool.query(
+      `SELECT * FROM service_deprecations
+       WHERE status = 'scheduled' AND sunset_at <= $1
+       ORDER BY sunset_at`,
+      [now]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Consumers with recorded usage of the service that have not been sent a
+   * deprecation notice yet
+   */
+  async listUnnotifiedConsumers(serviceId: string): Promise<string[]> {
+    const result = await pool.query(
+      `SELECT DISTINCT u.consumer_id
+       FROM usage_records u
+       WHERE u.service_id = $1
+         AND NOT EXISTS (
+           SELECT 1 FROM service_deprecation_notices n
+           WHERE n.service_id = u.service_id AND n.consumer_id = u.consumer_id
+         )`,
+      [serviceId]
+    );
+
+    return result.rows.map((row) => row.consumer_id as string);
+  }
+
+  async recordNotice(serviceId: string, consumerId: string, db: DatabaseClient = pool): Promise<void> {
+    await db.query(
+      `INSERT INTO service_deprecation_notices (service_id, consumer_id)
+       VALUES ($1, $2)
+       ON CONFLICT (service_id, consumer_id) DO NOTHING`,
+      [serviceId, consumerId]
+    );
+  }
+
+  /**
+   * Close the notification step, recording how many consumers were told
+   */
+  async markNotified(serviceId: string, db: DatabaseClient = pool): Promise<ServiceDeprecation> {
+    const result = await db.query(
+      `UPDATE service_deprecations SET
+         consumers_notified = (
+           SELECT COUNT(*) FROM service_deprecation_notices WHERE service_id = $1
+         ),
+         notified_at = NOW()
+       WHERE service_id = $1
+       RETURNING *`,
+      [serviceId]
+    );
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  async markRetired(serviceId: string, db: DatabaseClient = pool): Promise<ServiceDeprecation> {
+    const result = await db.query(
+      `UPDATE service_deprecations SET status = 'retired', retired_at = NOW()
+       WHERE service_id = $1
+       RETURNING *`,
+      [serviceId]
+    );
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  private mapRow(row: Record<string, unknown>): ServiceDeprecation {
+    return {
+      serviceId: row.service_id as string,
+      reason: row.reason as string,
+      successorServiceId: row.successor_service_id as string,
+      successorVersion: row.successor_version as string,
+      status: row.status as DeprecationStatus,
+      deprecatedAt: row.deprecated_at as Date,
+      sunsetAt: row.sunset_at as Date,
+      consumersNotified: row.consumers_notified as number,
+      notifiedAt: (row.notified_at as Date | null) || undefined,
+      retiredAt: (row.retired_at as Date | null) || undefined,
+    };
+  }
+}
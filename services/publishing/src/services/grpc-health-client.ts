@@ -0,0 +1,178 @@
+/**
+ * gRPC Health Client
+ * Speaks the standard gRPC health-checking protocol (grpc.health.v1.Health)
+ * over HTTP/2 without generated stubs
+ */
+
+import * as http2 from 'http2';
+import { GrpcHealthCheckResult, GrpcServingStatus } from '../types';
+import { ProtoReader, encodeStringField } from '../utils/protobuf-wire';
+
+// HealthCheckResponse.ServingStatus values
+const SERVING_STATUSES: GrpcServingStatus[] = ['UNKNOWN', 'SERVING', 'NOT_SERVING', 'SERVICE_UNKNOWN'];
+
+export const GRPC_STATUS_OK = 0;
+export const GRPC_STATUS_NOT_FOUND = 5;
+export const GRPC_STATUS_UNIMPLEMENTED = 12;
+
+export interface GrpcCallResult {
+  grpcStatus: number;
+  grpcMessage?: string;
+  /** First length-prefixed message of the response, if any */
+  message?: Buffer;
+  latencyMs: number;
+}
+
+export class GrpcHealthClient {
+  constructor(private readonly timeoutMs: number = 5000) {}
+
+  /**
+   * Call grpc.health.v1.Health/Check. An empty service name asks about the
+   * server as a whole.
+   */
+  async check(endpointUrl: string, service: string = ''): Promise<GrpcHealthCheckResult> {
+    const result = await this.unaryCall(endpointUrl, '/grpc.health.v1.Health/Check', encodeStringField(1, service));
+
+    if (result.grpcStatus !== GRPC_STATUS_OK) {
+      return {
+        // NOT_FOUND is how servers report a service they do not know
+        status: result.grpcStatus === GRPC_STATUS_NOT_FOUND ? 'SERVICE_UNKNOWN' : 'UNKNOWN',
+        grpcStatus: result.grpcStatus,
+        grpcMessage: result.grpcMessage,
+        latencyMs: result.latencyMs,
+      };
+    }
+
+    return {
+      status: this.decodeServingStatus(result.message ?? Buffer.alloc(0)),
+      grpcStatus: result.grpcStatus,
+      latencyMs: result.latencyMs,
+    };
+  }
+
+  /**
+   * Make a unary call with an already-encoded request message
+   */
+  unaryCall(endpointUrl: string, path: string, request: Buffer): Promise<GrpcCallResult> {
+    const { authority, secure } = this.parseEndpoint(endpointUrl);
+    const startTime = Date.now();
+
+    return new Promise((resolve, reject) => {
+      const session = http2.connect(authority);
+      let settled = false;
+
+      const finish = (error: Error | undefined, result?: GrpcCallResult) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        session.close();
+        if (error) {
+          session.destroy();
+          reject(error);
+        } else {
+          resolve(result!);
+        }
+      };
+
+      const timer = setTimeout(
+        () => finish(new Error(`gRPC call timed out after ${this.timeoutMs}ms`)),
+        this.timeoutMs
+      );
+
+      session.on('error', (error) => finish(error));
+
+      const stream = session.request({
+        ':method': 'POST',
+        ':path': path,
+        ':scheme': secure ? 'https' : 'http',
+        'content-type': 'application/grpc',
+        te: 'trailers',
+        'grpc-timeout': `${this.timeoutMs}m`,
+      });
+
+      const chunks: Buffer[] = [];
+      let headers: http2.IncomingHttpHeaders = {};
+      let trailers: http2.IncomingHttpHeaders = {};
+
+      stream.on('response', (responseHeaders) => {
+        headers = responseHeaders;
+      });
+      stream.on('trailers', (responseTrailers) => {
+        trailers = responseTrailers;
+      });
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('error', (error) => finish(error));
+      stream.on('end', () => {
+        const httpStatus = Number(headers[':status']);
+        // Trailers-only responses carry the gRPC status in the headers
+        const status = trailers['grpc-status'] ?? headers['grpc-status'];
+
+        if (status === undefined) {
+          finish(new Error(`Not a gRPC response (HTTP ${httpStatus})`));
+          return;
+        }
+
+        const grpcMessage = trailers['grpc-message'] ?? headers['grpc-message'];
+        finish(undefined, {
+          grpcStatus: Number(status),
+          grpcMessage: grpcMessage ? decodeURIComponent(String(grpcMessage)) : undefined,
+          message: this.unframe(Buffer.concat(chunks)),
+          latencyMs: Date.now() - startTime,
+        });
+      });
+
+      stream.end(this.frame(request));
+    });
+  }
+
+  /**
+   * Accepts grpc://, grpcs://, http:// and https:// endpoints
+   */
+  private parseEndpoint(endpointUrl: string): { authority: string; secure: boolean } {
+    const url = new URL(endpointUrl);
+    const secure = url.protocol === 'grpcs:' || url.protocol === 'https:';
+
+    if (!['grpc:', 'grpcs:', 'http:', 'https:'].includes(url.protocol)) {
+      throw new Error(`Unsupported gRPC endpoint scheme '${url.protocol}'`);
+    }
+
+    const port = url.port || (secure ? '443' : '80');
+    return { authority: `${secure ? 'https' : 'http'}://${url.hostname}:${port}`, secure };
+  }
+
+  /**
+   * Prefix a message with the gRPC length-prefixed framing (uncompressed)
+   */
+  private frame(message: Buffer): Buffer {
+    const header = Buffer.alloc(5);
+    header.writeUInt8(0, 0);
+    header.writeUInt32BE(message.length, 1);
+    return Buffer.concat([header, message]);
+  }
+
+  private unframe(body: Buffer): Buffer | undefined {
+    if (body.length < 5) {
+      return undefined;
+    }
+    const length = body.readUInt32BE(1);
+    return body.subarray(5, 5 + length);
+  }
+
+  private decodeServingStatus(message: Buffer): GrpcServingStatus {
+    const reader = new ProtoReader(message);
+    let status = 0;
+
+    while (!reader.done) {
+      const { field, wireType } = reader.tag();
+      if (field === 1) {
+        status = reader.varint();
+      } else {
+        reader.skip(wireType);
+      }
+    }
+
+    return SERVING_STATUSES[status] ?? 'UNKNOWN';
+  }
+}
@@ -0,0 +1,125 @@
+import { pool } from '../config/database';
+import { EndpointProbe, Service, SlaCompliance } from '../types';
+
+/**
+ * Postgres-backed record of endpoint probes taken by the health monitor,
+ * with rolling SLA compliance computed over a fixed window
+ */
+export class HealthCheckStore {
+  private readonly windowMinutes: number;
+
+  constructor(windowMinutes?: number) {
+    this.windowMinutes =
+      windowMinutes ?? parseInt(process.env.HEALTH_MONITOR_WINDOW_MINUTES || '60', 10);
+  }
+
+  async recordProbe(probe: EndpointProbe): Promise<void> {
+    await pool.query(
+      `INSERT INTO service_health_checks (
+        service_id, available, latency_ms, status_code, error, checked_at
+      ) VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        probe.serviceId,
+        probe.available,
+        probe.latencyMs,
+        probe.statusCode ?? null,
+        probe.error || null,
+        probe.checkedAt,
+      ]
+    );
+  }
+
+  /**
+   * Load the most recent probes for a service, newest first
+   */
+  async getRecentChecks(serviceId: string, limit: number = 20): Promise<EndpointProbe[]> {
+    const result = await pool.query(
+      `SELECT * FROM service_health_checks
+       WHERE service_id = $1
+       ORDER BY checked_at DESC
+       LIMIT $2`,
+      [serviceId, limit]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Compute SLA compliance over the rolling window. A check only counts as
+   * successful when the endpoint was available and answered within
+   * `sla.maxLatency`.
+   */
+  async getCompliance(service: Service): Promise<SlaCompliance> {
+    const windowStart = new Date(Date.now() - this.windowMinutes * 60 * 1000);
+
+    const result = await pool.query(
+      `SELECT * FROM service_health_checks
+       WHERE service_id = $1 AND checked_at >= $2
+       ORDER BY checked_at DESC`,
+      [service.id, windowStart]
+    );
+
+    const checks = result.rows.map((row) => this.mapRow(row));
+    const isSuccessful = (check: EndpointProbe) =>
+      check.available && check.latencyMs <= service.sla.maxLatency;
+
+    const successfulChecks = checks.filter(isSuccessful).length;
+    const latencyBreaches = checks.filter(
+      (check) => check.available && check.latencyMs > service.sla.maxLatency
+    ).length;
+
+    let consecutiveFailures = 0;
+    for (const check of checks) {
+      if (isSuccessful(check)) {
+        break;
+      }
+      consecutiveFailures++;
+    }
+
+    // With no samples yet, report the service as meeting its target
+    const availability = checks.length > 0 ? (successfulChecks / checks.length) * 100 : 100;
+    const averageLatencyMs = checks.length > 0
+      ? Math.round(checks.reduce((sum, check) => sum + check.latencyMs, 0) / checks.length)
+      : 0;
+
+    return {
+      serviceId: service.id,
+      windowStart,
+      totalChecks: checks.length,
+      successfulChecks,
+      latencyBreaches,
+      consecutiveFailures,
+      availability,
+      targetAvailability: service.sla.availability,
+      averageLatencyMs,
+      compliant: availability >= service.sla.availability,
+    };
+  }
+
+  /**
+   * Delete probes older than the given date
+   */
+  async pruneBefore(cutoff: Date): Promise<number> {
+    const result = await pool.query(
+      'DELETE FROM service_health_checks WHERE checked_at < $1',
+      [cutoff]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  getWindowMinutes(): number {
+    return this.windowMinutes;
+  }
+
+  private mapRow(row: Record<string, unknown>): EndpointProbe {
+    return {
+      serviceId: row.service_id as string,
+      available: row.available as boolean,
+      latencyMs: row.latency_ms as number,
+      statusCode: (row.status_code as number | null) ?? undefined,
+      error: (row.error as string | null) || undefined,
+      checkedAt: row.checked_at as Date,
+    };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Health Monitor
+ * Periodically probes every active service endpoint after publication,
+ * tracks rolling SLA compliance and suspends chronically failing services
+ */
+
+import { Service, SlaCompliance } from '../types';
+import { PublishingService } from './publishing-service';
+import { TestOrchestrator } from './test-orchestrator';
+import { HealthCheckStore } from './health-check-store';
+import { AnalyticsClient } from '../integrations/analytics-client';
+import { logger } from '../utils/logger';
+
+export interface HealthMonitorOptions {
+  intervalMs?: number;
+  minSamples?: number;
+  failureThreshold?: number;
+  concurrency?: number;
+  retentionDays?: number;
+}
+
+export class HealthMonitor {
+  private readonly intervalMs: number;
+  private readonly minSamples: number;
+  private readonly failureThreshold: number;
+  private readonly concurrency: number;
+  private readonly retentionDays: number;
+  private readonly publishingService: PublishingService;
+  private readonly testOrchestrator: TestOrchestrator;
+  private readonly healthCheckStore: HealthCheckStore;
+  private readonly analyticsClient: AnalyticsClient;
+  private timer?: NodeJS.Timeout;
+  private cycleInProgress: boolean = false;
+
+  constructor(options: HealthMonitorOptions = {}) {
+    this.intervalMs = options.intervalMs ?? parseInt(process.env.HEALTH_MONITOR_INTERVAL_MS || '60000', 10);
+    this.minSamples = options.minSamples ?? parseInt(process.env.HEALTH_MONITOR_MIN_SAMPLES || '10', 10);
+    this.failureThreshold =
+      options.failureThreshold ?? parseInt(process.env.HEALTH_MONITOR_FAILURE_THRESHOLD || '5', 10);
+    this.concurrency = options.concurrency ?? parseInt(process.env.HEALTH_MONITOR_CONCURRENCY || '10', 10);
+    this.retentionDays =
+      options.retentionDays ?? parseInt(process.env.HEALTH_CHECK_RETENTION_DAYS || '7', 10);
+    this.publishingService = new PublishingService();
+    this.testOrchestrator = new TestOrchestrator();
+    this.healthCheckStore = new HealthCheckStore();
+    this.analyticsClient = new AnalyticsClient();
+  }
+
+  /**
+   * Start probing on a fixed interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info('Starting health monitor', {
+      intervalMs: this.intervalMs,
+      windowMinutes: this.healthCheckStore.getWindowMinutes(),
+    });
+
+    this.timer = setInterval(() => {
+      this.runCycle().catch((error) => {
+        logger.error('Health monitor cycle failed', { error });
+      });
+    }, this.intervalMs);
+
+    // Do not keep the process alive just for monitoring
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Health monitor stopped');
+    }
+  }
+
+  /**
+   * Probe every active service once. A cycle that is still running when the
+   * next tick fires is not overlapped.
+   */
+  async runCycle(): Promise<void> {
+    if (this.cycleInProgress) {
+      logger.warn('Skipping health monitor cycle, previous cycle still running');
+      return;
+    }
+
+    this.cycleInProgress = true;
+    const startTime = Date.now();
+
+    try {
+      const services = await this.publishingService.getActiveServices();
+
+      for (let i = 0; i < services.length; i += this.concurrency) {
+        const batch = services.slice(i, i + this.concurrency);
+        await Promise.all(
+          batch.map((service) =>
+            this.checkService(service).catch((error) => {
+              logger.error('Health check failed', { serviceId: service.id, error });
+            })
+          )
+        );
+      }
+
+      const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+      await this.healthCheckStore.pruneBefore(cutoff);
+
+      logger.info('Health monitor cycle completed', {
+        services: services.length,
+        duration: Date.now() - startTime,
+      });
+    } finally {
+      this.cycleInProgress = false;
+    }
+  }
+
+  /**
+   * Probe a single service, record the result and suspend it if it is
+   * chronically failing its SLA. Analytics is reported in the background, so
+   * an analytics outage can't stop a breach from being acted on.
+   */
+  async checkService(service: Service): Promise<SlaCompliance> {
+    const probe = await this.testOrchestrator.probeEndpoint(service);
+    await this.healthCheckStore.recordProbe(probe);
+
+    this.report(
+      service,
+      this.analyticsClient.trackHealthCheck(service.id, service.providerId, {
+        available: probe.available,
+        latencyMs: probe.latencyMs,
+        statusCode: probe.statusCode,
+        latencyBreached: probe.latencyMs > service.sla.maxLatency,
+      })
+    );
+
+    const compliance = await this.healthCheckStore.getCompliance(service);
+
+    if (!compliance.compliant && compliance.totalChecks >= this.minSamples) {
+      this.report(
+        service,
+        this.analyticsClient.trackSlaBreach(service.id, service.providerId, {
+          availability: compliance.availability,
+          targetAvailability: compliance.targetAvailability,
+          latencyBreaches: compliance.latencyBreaches,
+          consecutiveFailures: compliance.consecutiveFailures,
+        })
+      );
+
+      if (compliance.consecutiveFailures >= this.failureThreshold) {
+        await this.publishingService.suspendService(
+          service.id,
+          this.buildSuspensionReason(compliance)
+        );
+      }
+    }
+
+    return compliance;
+  }
+
+  private report(service: Service, tracking: Promise<void>): void {
+    tracking.catch((error) => {
+      logger.warn('Failed to report health check to analytics', { serviceId: service.id, error });
+    });
+  }
+
+  private buildSuspensionReason(compliance: SlaCompliance): string {
+    return (
+      `SLA breach: availability ${compliance.availability.toFixed(2)}% over the last ` +
+      `${this.healthCheckStore.getWindowMinutes()} minutes (target ${compliance.targetAvailability}%), ` +
+      `${compliance.consecutiveFailures} consecutive failed health checks`
+    );
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * MFA Service
+ * TOTP enrollment and verification, recovery codes, login challenges,
+ * tenant MFA policy and step-up verification for sensitive actions
+ */
+
+import crypto from 'crypto';
+import { config } from '../config';
+import { logger, logAudit } from '../common/logger';
+import { AuthenticationError, ConflictError, NotFoundError, RateLimitError } from '../common/errors';
+import {
+  consumeCacheJSON,
+  deleteCache,
+  existsCache,
+  expireCache,
+  getCacheJSON,
+  incrementCache,
+  setCache,
+  setCacheJSON,
+} from '../common/redis';
+import { fetchUserTenants, isTenantServiceConfigured } from '../common/tenants';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../common/totp';
+import { MfaChallenge, User, mfaCodeSchema } from '../models/user.model';
+import * as mfaRepository from '../repositories/mfa.repository';
+import * as userRepository from '../repositories/user.repository';
+
+const FAILURE_WINDOW_SECONDS = 15 * 60;
+
+/**
+ * Login challenge kept in Redis between password and second-factor steps
+ */
+interface MfaChallengeState {
+  userId: string;
+  enrollmentRequired: boolean;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Result of a completed challenge, used to start the session
+ */
+export interface VerifiedChallenge {
+  user: User;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Decide whether a password login needs a second factor, and if so create a
+ * challenge in place of tokens
+ */
+export async function challengeIfRequired(
+  user: User,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<MfaChallenge | null> {
+  const enrollmentRequired = !user.mfaEnabled && (await isMfaRequiredByTenant(user.id));
+
+  if (!user.mfaEnabled && !enrollmentRequired) {
+    return null;
+  }
+
+  const mfaToken = crypto.randomBytes(32).toString('base64url');
+
+  await setCacheJSON<MfaChallengeState>(
+    challengeCacheKey(mfaToken),
+    { userId: user.id, enrollmentRequired, ipAddress, userAgent },
+    config.mfa.challengeTtlSeconds
+  );
+
+  return {
+    mfaRequired: true,
+    enrollmentRequired,
+    mfaToken,
+    expiresIn: config.mfa.challengeTtlSeconds,
+  };
+}
+
+/**
+ * Verify the second factor for a login challenge. The challenge is consumed
+ * only on success, so a mistyped code can be retried until the attempt limit.
+ */
+export async function verifyChallenge(mfaToken: string, input: unknown): Promise<VerifiedChallenge> {
+  const challenge = await getChallenge(mfaToken);
+
+  if (challenge.enrollmentRequired) {
+    throw new ConflictError('MFA enrollment is required before login can complete');
+  }
+
+  await verifySecondFactor(challenge.userId, input);
+  await deleteCache(challengeCacheKey(mfaToken));
+
+  return {
+    user: await getUser(challenge.userId),
+    ipAddress: challenge.ipAddress,
+    userAgent: challenge.userAgent,
+  };
+}
+
+/**
+ * Start enrollment for the user behind an enrollment-required challenge
+ */
+export async function beginChallengeEnrollment(
+  mfaToken: string
+): Promise<{ secret: string; otpauthUri: string }> {
+  const challenge = await getChallenge(mfaToken);
+
+  if (!challenge.enrollmentRequired) {
+    throw new ConflictError('MFA is already enrolled');
+  }
+
+  return beginEnrollment(challenge.userId);
+}
+
+/**
+ * Confirm enrollment for an enrollment-required challenge, completing the login
+ */
+export async function confirmChallengeEnrollment(
+  mfaToken: string,
+  code: string
+): Promise<VerifiedChallenge & { recoveryCodes: string[] }> {
+  const challenge = await getChallenge(mfaToken);
+
+  if (!challenge.enrollmentRequired) {
+    throw new ConflictError('MFA is already enrolled');
+  }
+
+  const recoveryCodes = await confirmEnrollment(challenge.userId, code);
+  await consumeCacheJSON(challengeCacheKey(mfaToken));
+
+  return {
+    user: await getUser(challenge.userId),
+    ipAddress: challenge.ipAddress,
+    userAgent: challenge.userAgent,
+    recoveryCodes,
+  };
+}
+
+/**
+ * Generate a TOTP secret for the user. It takes effect once confirmed.
+ */
+export async function beginEnrollment(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+  const user = await getUser(userId);
+
+  if (user.mfaEnabled) {
+    throw new ConflictError('MFA is already enrolled');
+  }
+
+  const secret = generateTotpSecret();
+  await mfaRepository.setPendingSecret(userId, encryptSecret(secret));
+
+  logAudit('mfa_enrollment_started', userId, 'user', userId);
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(config.mfa.issuer, user.email, secret),
+  };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app and issue
+ * recovery codes. The codes are returned only here.
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<string[]> {
+  const state = await mfaRepository.getMfaState(userId);
+
+  if (!state) {
+    throw new NotFoundError('User', userId);
+  }
+
+  if (state.enabled) {
+    throw new ConflictError('MFA is already enrolled');
+  }
+
+  if (!state.encryptedSecret) {
+    throw new ConflictError('MFA enrollment has not been started');
+  }
+
+  await assertNotLockedOut(userId);
+
+  const step = verifyTotp(decryptSecret(state.encryptedSecret), typeof code === 'string' ? code : '');
+  if (step === null) {
+    await recordFailure(userId);
+    throw new AuthenticationError('Invalid verification code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await mfaRepository.enableMfa(userId, step, recoveryCodes.map(hashRecoveryCode));
+
+  logAudit('mfa_enabled', userId, 'user', userId);
+
+  return recoveryCodes;
+}
+
+/**
+ * Turn MFA off after verifying a code. Not allowed while a tenant requires MFA.
+ */
+export async function disable(userId: string, input: unknown): Promise<void> {
+  if (await isMfaRequiredByTenant(userId)) {
+    throw new ConflictError('MFA is required by your organization and cannot be disabled');
+  }
+
+  await verifySecondFactor(userId, input);
+  await mfaRepository.disableMfa(userId);
+
+  logAudit('mfa_disabled', userId, 'user', userId);
+}
+
+/**
+ * Replace the user's recovery codes after verifying a code
+ */
+export async function regenerateRecoveryCodes(userId: string, input: unknown): Promise<string[]> {
+  await verifySecondFactor(userId, input);
+
+  const recoveryCodes = generateRecoveryCodes();
+  await mfaRepository.replaceRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode));
+
+  logAudit('mfa_recovery_codes_regenerated', userId, 'user', userId);
+
+  return recoveryCodes;
+}
+
+/**
+ * MFA status for the user
+ */
+export async function getStatus(
+  userId: string
+): Promise<{ enabled: boolean; requiredByTenant: boolean; recoveryCodesRemaining: number }> {
+  const state = await mfaRepository.getMfaState(userId);
+
+  if (!state) {
+    throw new NotFoundError('User', userId);
+  }
+
+  return {
+    enabled: state.enabled,
+    requiredByTenant: await isMfaRequiredByTenant(userId),
+    recoveryCodesRemaining: state.enabled ? await mfaRepository.countUnusedRecoveryCodes(userId) : 0,
+  };
+}
+
+/**
+ * Verify a second factor for a sensitive action and open a short step-up
+ * window in which further sensitive actions are allowed
+ */
+export async function stepUp(userId: string, input: unknown): Promise<{ expiresIn: number }> {
+  await verifySecondFactor(userId, input);
+  await setCache(stepUpCacheKey(userId), new Date().toISOString(), config.mfa.stepUpTtlSeconds);
+
+  logAudit('mfa_step_up', userId, 'user', userId);
+
+  return { expiresIn: config.mfa.stepUpTtlSeconds };
+}
+
+/**
+ * Whether the user has confirmed MFA enrollment
+ */
+export async function isMfaEnabled(userId: string): Promise<boolean> {
+  const state = await mfaRepository.getMfaState(userId);
+  return state?.enabled ?? false;
+}
+
+/**
+ * Whether the user verified a second factor within the step-up window
+ */
+export async function hasRecentStepUp(userId: string): Promise<boolean> {
+  return existsCache(stepUpCacheKey(userId));
+}
+
+/**
+ * Verify a TOTP code or a recovery code for a user with MFA enabled. TOTP
+ * codes and recovery codes are each accepted only once.
+ */
+export async function verifySecondFactor(userId: string, input: unknown): Promise<'totp' | 'recovery_code'> {
+  const { code, recoveryCode } = mfaCodeSchema.parse(input);
+  const state = await mfaRepository.getMfaState(userId);
+
+  if (!state?.enabled || !state.encryptedSecret) {
+    throw new ConflictError('MFA is not enabled for this account');
+  }
+
+  await assertNotLockedOut(userId);
+
+  if (recoveryCode) {
+    const consumed = await mfaRepository.consumeRecoveryCode(userId, hashRecoveryCode(recoveryCode));
+
+    if (!consumed) {
+      await recordFailure(userId);
+      throw new AuthenticationError('Invalid recovery code');
+    }
+
+    const remaining = await mfaRepository.countUnusedRecoveryCodes(userId);
+    logAudit('mfa_recovery_code_used', userId, 'user', userId, { remaining });
+
+    return 'recovery_code';
+  }
+
+  const step = verifyTotp(decryptSecret(state.encryptedSecret), code!);
+
+  if (step === null || !(await mfaRepository.recordUsedStep(userId, step))) {
+    await recordFailure(userId);
+    throw new AuthenticationError('Invalid verification code');
+  }
+
+  return 'totp';
+}
+
+/**
+ * Whether any of the user's tenants requires MFA
+ * (`settings.security.mfaRequired`). Always false without a tenant service.
+ */
+export async function isMfaRequiredByTenant(userId: string): Promise<boolean> {
+  if (!isTenantServiceConfigured()) {
+    return false;
+  }
+
+  const tenants = await fetchUserTenants(userId);
+  return tenants.some((tenant) => tenant.settings?.security?.mfaRequired === true);
+}
+
+async function getChallenge(mfaToken: string): Promise<MfaChallengeState> {
+  if (typeof mfaToken !== 'string' || mfaToken.length === 0) {
+    throw new AuthenticationError('MFA token is required');
+  }
+
+  const challenge = await getCacheJSON<MfaChallengeState>(challengeCacheKey(mfaToken));
+
+  if (!challenge) {
+    throw new AuthenticationError('Invalid or expired MFA token');
+  }
+
+  return challenge;
+}
+
+async function getUser(userId: string): Promise<User> {
+  const user = await userRepository.findById(userId);
+
+  if (!user) {
+    throw new NotFoundError('User', userId);
+  }
+
+  return user;
+}
+
+/**
+ * Failed second-factor attempts are counted per user across challenges, so
+ * requesting new challenges does not reset the limit
+ */
+async function assertNotLockedOut(userId: string): Promise<void> {
+  const failures = await getCacheJSON<number>(failureCacheKey(userId));
+
+  if (failures !== null && failures >= config.mfa.maxAttempts) {
+    throw new RateLimitError('Too many failed verification attempts. Try again later.');
+  }
+}
+
+async function recordFailure(userId: string): Promise<void> {
+  const failures = await incrementCache(failureCacheKey(userId));
+
+  if (failures === 1) {
+    await expireCache(failureCacheKey(userId), FAILURE_WINDOW_SECONDS);
+  }
+
+  logger.warn('MFA verification failed', { userId, failures });
+}
+
+/**
+ * Recovery codes look like `k3x9q-7pw2m` (50 bits each)
+ */
+function generateRecoveryCodes(): string[] {
+  const alphabet = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+  return Array.from({ length: config.mfa.recoveryCodeCount }, () => {
+    const chars = Array.from(crypto.randomBytes(10), (byte) => alphabet[byte % alphabet.length]);
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+  });
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * TOTP secrets are encrypted at rest with AES-256-GCM
+ */
+function encryptionKey(): Buffer {
+  const material = config.mfa.encryptionKey ?? `mfa:${config.jwt.secret}`;
+  return crypto.createHash('sha256').update(material).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+function decryptSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+
+  if (version !== 'v1') {
+    throw new Error(`Unsupported MFA secret format: ${version}`);
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+function challengeCacheKey(mfaToken: string): string {
+  return `mfa:challenge:${mfaToken}`;
+}
+
+function stepUpCacheKey(userId: string): string {
+  return `mfa:stepup:${userId}`;
+}
+
+function failureCacheKey(userId: string): string {
+  return `mfa:failures:${userId}`;
+}
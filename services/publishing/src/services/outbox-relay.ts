@@ -0,0 +1,152 @@
+/**
+ * Outbox Relay
+ * Delivers analytics and governance events recorded in the outbox. Events
+ * are retried with exponential backoff and marked failed after the maximum
+ * number of attempts; consumers deduplicate redeliveries by event ID.
+ */
+
+import { OutboxStore } from './outbox-store';
+import { AnalyticsClient } from '../integrations/analytics-client';
+import { GovernanceClient } from '../integrations/governance-client';
+import { OutboxEvent } from '../types';
+import { logger } from '../utils/logger';
+
+export interface OutboxRelayOptions {
+  intervalMs?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  retryBaseMs?: number;
+  leaseMs?: number;
+  retentionDays?: number;
+}
+
+export class OutboxRelay {
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly leaseMs: number;
+  private readonly retentionDays: number;
+  private readonly outboxStore: OutboxStore;
+  private readonly analyticsClient: AnalyticsClient;
+  private readonly governanceClient: GovernanceClient;
+  private timer?: NodeJS.Timeout;
+  private cycleInProgress: boolean = false;
+
+  constructor(options: OutboxRelayOptions = {}) {
+    this.intervalMs = options.intervalMs ?? parseInt(process.env.OUTBOX_RELAY_INTERVAL_MS || '5000', 10);
+    this.batchSize = options.batchSize ?? parseInt(process.env.OUTBOX_RELAY_BATCH_SIZE || '100', 10);
+    this.maxAttempts = options.maxAttempts ?? parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10);
+    this.retryBaseMs = options.retryBaseMs ?? parseInt(process.env.OUTBOX_RETRY_BASE_MS || '5000', 10);
+    this.leaseMs = options.leaseMs ?? parseInt(process.env.OUTBOX_LEASE_MS || '60000', 10);
+    this.retentionDays = options.retentionDays ?? parseInt(process.env.OUTBOX_RETENTION_DAYS || '7', 10);
+    this.outboxStore = new OutboxStore();
+    this.analyticsClient = new AnalyticsClient();
+    this.governanceClient = new GovernanceClient();
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info('Starting outbox relay', { intervalMs: this.intervalMs });
+
+    this.timer = setInterval(() => {
+      this.runCycle().catch((error) => {
+        logger.error('Outbox relay cycle failed', { error });
+      });
+    }, this.intervalMs);
+
+    // Do not keep the process alive just for the relay
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Outbox relay stopped');
+    }
+  }
+
+  async runCycle(): Promise<void> {
+    if (this.cycleInProgress) {
+      return;
+    }
+
+    this.cycleInProgress = true;
+
+    try {
+      const delivered = await this.processDue();
+
+      if (delivered > 0) {
+        logger.info('Relayed outbox events', { count: delivered });
+      }
+
+      const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+      await this.outboxStore.pruneDeliveredBefore(cutoff);
+    } finally {
+      this.cycleInProgress = false;
+    }
+  }
+
+  /**
+   * Deliver the events that are due, in the order they were recorded.
+   * Returns how many were delivered.
+   */
+  async processDue(): Promise<number> {
+    const events = await this.outboxStore.claimDue(this.batchSize, this.leaseMs);
+    let delivered = 0;
+
+    for (const event of events) {
+      const attempts = event.attempts + 1;
+
+      try {
+        await this.deliver(event);
+        await this.outboxStore.recordAttempt(event.id, { status: 'delivered', attempts });
+        delivered++;
+      } catch (error) {
+        const message = (error as Error).message || String(error);
+
+        if (attempts >= this.maxAttempts) {
+          await this.outboxStore.recordAttempt(event.id, { status: 'failed', attempts, error: message });
+          logger.error('Outbox event failed permanently', {
+            eventId: event.id,
+            destination: event.destination,
+            eventType: event.eventType,
+            attempts,
+            error: message,
+          });
+          continue;
+        }
+
+        const nextAttemptAt = new Date(Date.now() + this.retryBaseMs * 2 ** (attempts - 1));
+        await this.outboxStore.recordAttempt(event.id, {
+          status: 'pending',
+          attempts,
+          error: message,
+          nextAttemptAt,
+        });
+        logger.warn('Outbox event delivery failed, will retry', {
+          eventId: event.id,
+          destination: event.destination,
+          eventType: event.eventType,
+          attempts,
+          nextAttemptAt,
+          error: message,
+        });
+      }
+    }
+
+    return delivered;
+  }
+
+  private async deliver(event: OutboxEvent): Promise<void> {
+    if (event.destination === 'analytics') {
+      await this.analyticsClient.deliver(event);
+    } else {
+      await this.governanceClient.deliverEvent(event);
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import { DatabaseClient, pool } from '../config/database';
+import {
+  OutboxDestination,
+  OutboxEvent,
+  OutboxEventStatus,
+  OutboxMetrics,
+  Service,
+  ServiceDeprecation,
+} from '../types';
+import { SERVICE_PUBLISHED_NOTIFICATION, servicePublishedNotification } from '../integrations/governance-client';
+
+export interface OutboxEventInput {
+  destination: OutboxDestination;
+  eventType: string;
+  aggregateId?: string;
+  payload: Record<string, unknown>;
+}
+
+export interface OutboxAttemptOutcome {
+  status: OutboxEventStatus;
+  attempts: number;
+  error?: string;
+  nextAttemptAt?: Date;
+}
+
+const DESTINATIONS: OutboxDestination[] = ['analytics', 'governance'];
+
+/**
+ * The events recorded when a service becomes active, whether it was
+ * activated by the publishing workflow or by its final approval
+ */
+export function servicePublishedEvents(service: Partial<Service>): OutboxEventInput[] {
+  return [
+    {
+      destination: 'analytics',
+      eventType: 'service_published',
+      aggregateId: service.id,
+      payload: {
+        serviceId: service.id,
+        providerId: service.providerId,
+        category: service.category,
+        pricingModel: service.pricing?.model,
+      },
+    },
+    {
+      destination: 'governance',
+      eventType: SERVICE_PUBLISHED_NOTIFICATION,
+      aggregateId: service.id,
+      payload: servicePublishedNotification(service),
+    },
+  ];
+}
+
+/**
+ * The events recorded when a service is deprecated, through either API
+ */
+export function serviceDeprecatedEvents(
+  providerId: string,
+  deprecation: Pick<ServiceDeprecation, 'serviceId' | 'reason' | 'successorServiceId' | 'successorVersion' | 'sunsetAt'>
+): OutboxEventInput[] {
+  const payload = {
+    serviceId: deprecation.serviceId,
+    providerId,
+    reason: deprecation.reason,
+    successorServiceId: deprecation.successorServiceId,
+    successorVersion: deprecation.successorVersion,
+    sunsetAt: new Date(deprecation.sunsetAt).toISOString(),
+  };
+
+  return DESTINATIONS.map((destination) => ({
+    destination,
+    eventType: 'service_deprecated',
+    aggregateId: deprecation.serviceId,
+    payload,
+  }));
+}
+
+/**
+ * Postgres-backed transactional outbox. Pass the transaction client of the
+ * change an event describes, so the event is stored only if the change commits.
+ */
+export class OutboxStore {
+  async enqueue(events: OutboxEventInput[], db: DatabaseClient = pool): Promise<void> {
+    for (const event of events) {
+      await db.query(
+        `INSERT INTO event_outbox (destination, event_type, aggregate_id, payload)
+         VALUES ($1, $2, $3, $4)`,
+        [event.destination, event.eventType, event.aggregateId || null, JSON.stringify(event.payload)]
+      );
+    }
+  }
+
+  /**
+   * Claim pending events that are due, oldest first, leasing them so
+   * concurrent relays do not deliver the same event at the same time
+   */
+  async claimDue(limit: number, leaseMs: number): Promise<OutboxEvent[]> {
+    const result = await pool.query(
+      `UPDATE event_outbox SET next_attempt_at = NOW() + $2 * INTERVAL '1 millisecond'
+       WHERE id IN (
+         SELECT id FROM event_outbox
+         WHERE status = 'pending' AND next_attempt_at <= NOW()
+         ORDER BY created_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, leaseMs]
+    );
+
+    return result.rows
+      .map((row) => this.mapRow(row))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async recordAttempt(id: string, outcome: OutboxAttemptOutcome): Promise<void> {
+    await pool.query(
+      `UPDATE event_outbox SET
+         status = $2,
+         attempts = $3,
+         last_error = $4,
+         next_attempt_at = $5,
+         delivered_at = CASE WHEN $2 = 'delivered' THEN NOW() ELSE NULL END
+       WHERE id = $1`,
+      [id, outcome.status, outcome.attempts, outcome.error ?? null, outcome.nextAttemptAt ?? null]
+    );
+  }
+
+  /**
+   * Put failed events back in the queue, e.g. after a downstream outage.
+   * Returns how many were requeued.
+   */
+  async requeueFailed(destination?: OutboxDestination): Promise<number> {
+    const result = await pool.query(
+      `UPDATE event_outbox SET status = 'pending', attempts = 0, next_attempt_at = NOW()
+       WHERE status = 'failed' AND ($1::varchar IS NULL OR destination = $1)`,
+      [destination ?? null]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Delete events delivered before the cutoff
+   */
+  async pruneDeliveredBefore(cutoff: Date): Promise<number> {
+    const result = await pool.query(
+      `DELETE FROM event_outbox WHERE status = 'delivered' AND delivered_at < $1`,
+      [cutoff]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  async getMetrics(): Promise<OutboxMetrics> {
+    const result = await pool.query(
+      `SELECT
+         destination,
+         COUNT(*) FILTER (WHERE status = 'pending') AS pending,
+         COUNT(*) FILTER (WHERE status = 'pending' AND attempts > 0) AS retrying,
+         COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+         COUNT(*) FILTER (WHERE status = 'delivered' AND delivered_at > NOW() - INTERVAL '1 hour') AS delivered_last_hour,
+         COALESCE(EXTRACT(EPOCH FROM NOW() - MIN(created_at) FILTER (WHERE status = 'pending')), 0) AS lag_seconds
+       FROM event_outbox
+       GROUP BY destination`
+    );
+
+    const metrics: OutboxMetrics = {
+      pending: 0,
+      retrying: 0,
+      failed: 0,
+      deliveredLastHour: 0,
+      lagSeconds: 0,
+      byDestination: Object.fromEntries(
+        DESTINATIONS.map((destination) => [destination, { pending: 0, failed: 0, lagSeconds: 0 }])
+      ) as OutboxMetrics['byDestination'],
+    };
+
+    for (const row of result.rows) {
+      const lagSeconds = Math.round(Number(row.lag_seconds));
+
+      metrics.pending += Number(row.pending);
+      metrics.retrying += Number(row.retrying);
+      metrics.failed += Number(row.failed);
+      metrics.deliveredLastHour += Number(row.delivered_last_hour);
+      metrics.lagSeconds = Math.max(metrics.lagSeconds, lagSeconds);
+      metrics.byDestination[row.destination as OutboxDestination] = {
+        pending: Number(row.pending),
+        failed: Number(row.failed),
+        lagSeconds,
+      };
+    }
+
+    return metrics;
+  }
+
+  private mapRow(row: Record<string, unknown>): OutboxEvent {
+    return {
+      id: row.id as string,
+      destination: row.destination as OutboxDestination,
+      eventType: row.event_type as string,
+      aggregateId: (row.aggregate_id as string | null) || undefined,
+      payload: (typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload) as Record<string, unknown>,
+      status: row.status as OutboxEventStatus,
+      attempts: row.attempts as number,
+      lastError: (row.last_error as string | null) || undefined,
+      nextAttemptAt: (row.next_attempt_at as Date | null) || undefined,
+      createdAt: row.created_at as Date,
+      deliveredAt: (row.delivered_at as Date | null) || undefined,
+    };
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Ownership Transfer Service
+ * Moves services between users and teams. A transfer only takes effect once
+ * the recipient accepts it, and every step is recorded in the audit log.
+ */
+
+import { logAudit } from '../common/logger';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../common/errors';
+import {
+  Actor,
+  OwnershipTransfer,
+  OwnershipTransferStatus,
+  TeamRole,
+  ownershipTransferSchema,
+} from '../models/team.model';
+import { UserStatus } from '../models/user.model';
+import * as ownershipTransferRepository from '../repositories/ownership-transfer.repository';
+import * as serviceRepository from '../repositories/service.repository';
+import * as teamRepository from '../repositories/team.repository';
+import * as userRepository from '../repositories/user.repository';
+import { hasPermission } from './auth.service';
+import { assertServiceAccess, getExistingTeam } from './team.service';
+
+const TRANSFER_EXPIRY_DAYS = 14;
+
+/**
+ * Request a transfer of a service to a user or team. Requires the `transfer`
+ * right on the service: its owner, an owner of its team, or an admin.
+ */
+export async function requestTransfer(
+  actor: Actor,
+  serviceId: string,
+  input: unknown
+): Promise<OwnershipTransfer> {
+  const validated = ownershipTransferSchema.parse(input);
+
+  const service = await serviceRepository.findById(serviceId);
+  if (!service) {
+    throw new NotFoundError('Service', serviceId);
+  }
+
+  await assertServiceAccess(actor, service, 'transfer');
+
+  if (validated.toUserId) {
+    const recipient = await userRepository.findById(validated.toUserId);
+
+    if (!recipient) {
+      throw new NotFoundError('User', validated.toUserId);
+    }
+
+    if (recipient.status !== UserStatus.ACTIVE || !hasPermission(recipient.role, 'service:update')) {
+      throw new ValidationError('Recipient must be an active user who can manage services');
+    }
+
+    if (!service.ownerTeam && service.provider.id === recipient.id) {
+      throw new ConflictError('Recipient already owns this service');
+    }
+  }
+
+  if (validated.toTeamId) {
+    await getExistingTeam(validated.toTeamId);
+
+    if (service.ownerTeam?.id === validated.toTeamId) {
+      throw new ConflictError('Team already owns this service');
+    }
+  }
+
+  const pending = await ownershipTransferRepository.findPendingByService(serviceId);
+  if (pending) {
+    if (!isExpired(pending)) {
+      throw new ConflictError('A transfer is already pending for this service');
+    }
+    await ownershipTransferRepository.close(pending.id, OwnershipTransferStatus.EXPIRED, null);
+  }
+
+  const transfer = await ownershipTransferRepository.create({
+    serviceId,
+    fromUserId: service.provider.id,
+    fromTeamId: service.ownerTeam?.id ?? null,
+    toUserId: validated.toUserId ?? null,
+    toTeamId: validated.toTeamId ?? null,
+    message: validated.message ?? null,
+    requestedBy: actor.id,
+    expiresAt: new Date(Date.now() + TRANSFER_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
+  });
+
+  logAudit('service_transfer_requested', actor.id, 'service', serviceId, auditDetails(transfer));
+
+  return transfer;
+}
+
+/**
+ * Accept a transfer as its recipient: the user it is addressed to, or an
+ * owner of the receiving team
+ */
+export async function acceptTransfer(
+  actor: Actor,
+  transferId: string
+): Promise<{ transfer: OwnershipTransfer; serviceIds: string[] }> {
+  const transfer = await getPendingTransfer(transferId);
+  await assertRecipient(actor, transfer);
+
+  const serviceIds = await ownershipTransferRepository.accept(transfer, actor.id);
+  if (!serviceIds) {
+    throw new ConflictError('Transfer is no longer pending');
+  }
+
+  logAudit('service_transfer_accepted', actor.id, 'service', transfer.serviceId, {
+    ...auditDetails(transfer),
+    serviceIds,
+  });
+
+  return {
+    transfer: (await ownershipTransferRepository.findById(transferId))!,
+    serviceIds,
+  };
+}
+
+/**
+ * Decline a transfer as its recipient
+ */
+export async function declineTransfer(actor: Actor, transferId: string): Promise<OwnershipTransfer> {
+  const transfer = await getPendingTransfer(transferId);
+  await assertRecipient(actor, transfer);
+
+  return closeTransfer(actor, transfer, OwnershipTransferStatus.DECLINED, 'service_transfer_declined');
+}
+
+/**
+ * Cancel a transfer as its requester or anyone who may transfer the service
+ */
+export async function cancelTransfer(actor: Actor, transferId: string): Promise<OwnershipTransfer> {
+  const transfer = await getPendingTransfer(transferId);
+
+  if (transfer.requestedBy !== actor.id) {
+    const service = await serviceRepository.findById(transfer.serviceId);
+    if (!service) {
+      throw new NotFoundError('Service', transfer.serviceId);
+    }
+    await assertServiceAccess(actor, service, 'transfer');
+  }
+
+  return closeTransfer(actor, transfer, OwnershipTransferStatus.CANCELLED, 'service_transfer_cancelled');
+}
+
+/**
+ * Pending transfers addressed to the user and those they requested
+ */
+export async function listTransfers(
+  actor: Actor
+): Promise<{ incoming: OwnershipTransfer[]; outgoing: OwnershipTransfer[] }> {
+  const [incoming, outgoing] = await Promise.all([
+    ownershipTransferRepository.findPendingForRecipient(actor.id),
+    ownershipTransferRepository.findPendingRequestedBy(actor.id),
+  ]);
+
+  return { incoming, outgoing };
+}
+
+/**
+ * Transfer history of a service
+ */
+export async function listServiceTransfers(actor: Actor, serviceId: string): Promise<OwnershipTransfer[]> {
+  const service = await serviceRepository.findById(serviceId);
+  if (!service) {
+    throw new NotFoundError('Service', serviceId);
+  }
+
+  await assertServiceAccess(actor, service, 'read');
+
+  return ownershipTransferRepository.findByService(serviceId);
+}
+
+/**
+ * Get a transfer that is still open. Transfers past their deadline are
+ * marked expired here.
+ */
+async function getPendingTransfer(transferId: string): Promise<OwnershipTransfer> {
+  const transfer = await ownershipTransferRepository.findById(transferId);
+
+  if (!transfer) {
+    throw new NotFoundError('Ownership transfer', transferId);
+  }
+
+  if (transfer.status === OwnershipTransferStatus.PENDING && isExpired(transfer)) {
+    await ownershipTransferRepository.close(transfer.id, OwnershipTransferStatus.EXPIRED, null);
+    logAudit('service_transfer_expired', transfer.requestedBy, 'service', transfer.serviceId, auditDetails(transfer));
+    throw new ConflictError('Transfer has expired');
+  }
+
+  if (transfer.status !== OwnershipTransferStatus.PENDING) {
+    throw new ConflictError(`Transfer is already ${transfer.status}`);
+  }
+
+  return transfer;
+}
+
+/**
+ * Only the recipient can answer a transfer; admins cannot accept on their behalf
+ */
+async function assertRecipient(actor: Actor, transfer: OwnershipTransfer): Promise<void> {
+  if (transfer.toUserId) {
+    if (transfer.toUserId !== actor.id) {
+      throw new AuthorizationError('Only the recipient can respond to this transfer');
+    }
+    return;
+  }
+
+  const role = await teamRepository.findMemberRole(transfer.toTeamId!, actor.id);
+  if (role !== TeamRole.OWNER) {
+    throw new AuthorizationError('Only an owner of the receiving team can respond to this transfer');
+  }
+}
+
+async function closeTransfer(
+  actor: Actor,
+  transfer: OwnershipTransfer,
+  status: OwnershipTransferStatus.DECLINED | OwnershipTransferStatus.CANCELLED,
+  auditAction: string
+): Promise<OwnershipTransfer> {
+  if (!(await ownershipTransferRepository.close(transfer.id, status, actor.id))) {
+    throw new ConflictError('Transfer is no longer pending');
+  }
+
+  logAudit(auditAction, actor.id, 'service', transfer.serviceId, auditDetails(transfer));
+
+  return (await ownershipTransferRepository.findById(transfer.id))!;
+}
+
+function isExpired(transfer: OwnershipTransfer): boolean {
+  return new Date(transfer.expiresAt).getTime() <= Date.now();
+}
+
+function auditDetails(transfer: OwnershipTransfer): Record<string, unknown> {
+  return {
+    transferId: transfer.id,
+    serviceName: transfer.serviceName,
+    fromUserId: transfer.fromUserId,
+    fromTeamId: transfer.fromTeamId,
+    toUserId: transfer.toUserId,
+    toTeamId: transfer.toTeamId,
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Policy Bundle Manager
+ * Holds the active policy bundle and hot-reloads it from its file or the
+ * database, so policy changes apply without a restart
+ */
+
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import * as semver from 'semver';
+import { PolicyBundle, PolicyBundleSource, PolicyDefinition } from '../types';
+import { CompiledPolicyBundle, compilePolicyBundle, parsePolicyBundle } from '../policies/policy-engine';
+import { DEFAULT_POLICY_BUNDLE } from '../policies/default-policy-bundle';
+import { PolicyBundleStore, StoredPolicyBundle } from './policy-bundle-store';
+import { logger } from '../utils/logger';
+
+const SOURCES: PolicyBundleSource[] = ['builtin', 'file', 'database'];
+
+export interface PolicyBundleManagerOptions {
+  source?: PolicyBundleSource;
+  filePath?: string;
+  intervalMs?: number;
+}
+
+export interface ActivePolicyBundle {
+  id: string;
+  version: string;
+  description?: string;
+  source: PolicyBundleSource;
+  loadedAt: Date;
+  policies: PolicyDefinition[];
+}
+
+export class PolicyBundleManager {
+  private readonly source: PolicyBundleSource;
+  private readonly filePath?: string;
+  private readonly intervalMs: number;
+  private readonly policyBundleStore: PolicyBundleStore;
+  private bundle: CompiledPolicyBundle;
+  private loadedFrom: PolicyBundleSource = 'builtin';
+  private loadedAt: Date = new Date();
+  private fingerprint?: string;
+  private timer?: NodeJS.Timeout;
+  private reloadInProgress: boolean = false;
+
+  constructor(options: PolicyBundleManagerOptions = {}) {
+    this.filePath = options.filePath ?? (process.env.POLICY_BUNDLE_FILE || undefined);
+    this.source =
+      options.source ??
+      ((process.env.POLICY_BUNDLE_SOURCE as PolicyBundleSource) || (this.filePath ? 'file' : 'builtin'));
+    this.intervalMs =
+      options.intervalMs ?? parseInt(process.env.POLICY_RELOAD_INTERVAL_MS || '30000', 10);
+    this.policyBundleStore = new PolicyBundleStore();
+    this.bundle = compilePolicyBundle(DEFAULT_POLICY_BUNDLE);
+
+    if (!SOURCES.includes(this.source)) {
+      throw new Error(`Unknown policy bundle source ${this.source}; use ${SOURCES.join(', ')}`);
+    }
+
+    if (this.source === 'file' && !this.filePath) {
+      throw new Error('POLICY_BUNDLE_FILE must be set to load policies from a file');
+    }
+  }
+
+  getBundle(): CompiledPolicyBundle {
+    return this.bundle;
+  }
+
+  describe(): ActivePolicyBundle {
+    return {
+      id: this.bundle.id,
+      version: this.bundle.version,
+      description: this.bundle.description,
+      source: this.loadedFrom,
+      loadedAt: this.loadedAt,
+      policies: this.bundle.policies.map(({ test: _test, ...policy }) => policy),
+    };
+  }
+
+  /**
+   * Load the bundle from its source. Returns false when it has not changed
+   * since the last load. An invalid bundle throws and the current one stays
+   * active.
+   */
+  async reload(): Promise<boolean> {
+    const loaded = await this.read();
+
+    if (loaded.fingerprint === this.fingerprint) {
+      return false;
+    }
+
+    const compiled = compilePolicyBundle(loaded.bundle);
+    const previousVersion = this.bundle.version;
+
+    this.bundle = compiled;
+    this.loadedFrom = loaded.source;
+    this.loadedAt = new Date();
+    this.fingerprint = loaded.fingerprint;
+
+    logger.info('Policy bundle loaded', {
+      bundleId: compiled.id,
+      version: compiled.version,
+      previousVersion,
+      source: loaded.source,
+      policies: compiled.policies.length,
+    });
+
+    return true;
+  }
+
+  /**
+   * Store a new bundle version in the database and activate it. Versions
+   * must increase; roll back by publishing the old policies under a new version.
+   */
+  async publish(input: unknown, createdBy: string): Promise<ActivePolicyBundle> {
+    if (this.source !== 'database') {
+      throw new Error(
+        `Invalid request: policies are loaded from ${this.source}; set POLICY_BUNDLE_SOURCE=database to publish bundles`
+      );
+    }
+
+    const bundle = parsePolicyBundle(input, 'request');
+    compilePolicyBundle(bundle);
+
+    const active = await this.policyBundleStore.getActive();
+    if (active && !semver.gt(bundle.version, active.version)) {
+      throw new Error(`Invalid policy bundle: version must be greater than the active version ${active.version}`);
+    }
+
+    await this.policyBundleStore.create(bundle, createdBy);
+    await this.reload();
+
+    logger.info('Policy bundle published', {
+      bundleId: bundle.id,
+      version: bundle.version,
+      createdBy,
+    });
+
+    return this.describe();
+  }
+
+  async listVersions(): Promise<StoredPolicyBundle[]> {
+    return this.policyBundleStore.list();
+  }
+
+  /**
+   * Poll the source for changes on a fixed interval
+   */
+  start(): void {
+    if (this.timer || this.source === 'builtin') {
+      return;
+    }
+
+    logger.info('Starting policy bundle reloader', {
+      source: this.source,
+      intervalMs: this.intervalMs,
+    });
+
+    this.timer = setInterval(() => {
+      this.runCycle().catch((error) => {
+        logger.error('Policy bundle reload failed, keeping the active bundle', {
+          bundleId: this.bundle.id,
+          version: this.bundle.version,
+          error,
+        });
+      });
+    }, this.intervalMs);
+
+    // Do not keep the process alive just for the reloader
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Policy bundle reloader stopped');
+    }
+  }
+
+  private async runCycle(): Promise<void> {
+    if (this.reloadInProgress) {
+      return;
+    }
+
+    this.reloadInProgress = true;
+
+    try {
+      await this.reload();
+    } finally {
+      this.reloadInProgress = false;
+    }
+  }
+
+  private async read(): Promise<{ bundle: PolicyBundle; source: PolicyBundleSource; fingerprint: string }> {
+    if (this.source === 'file') {
+      const content = await readFile(this.filePath!, 'utf8');
+      return {
+        bundle: parsePolicyBundle(JSON.parse(content), this.filePath!),
+        source: 'file',
+        fingerprint: createHash('sha256').update(content).digest('hex'),
+      };
+    }
+
+    if (this.source === 'database') {
+      const stored = await this.policyBundleStore.getActive();
+      if (stored) {
+        return {
+          bundle: parsePolicyBundle(stored, `database version ${stored.version}`),
+          source: 'database',
+          fingerprint: `${stored.id}@${stored.version}`,
+        };
+      }
+    }
+
+    return { bundle: DEFAULT_POLICY_BUNDLE, source: 'builtin', fingerprint: 'builtin' };
+  }
+}
+
+let sharedManager: PolicyBundleManager | null = null;
+
+/**
+ * The process-wide manager, so every policy client sees reloads
+ */
+export function getPolicyBundleManager(): PolicyBundleManager {
+  if (!sharedManager) {
+    sharedManager = new PolicyBundleManager();
+  }
+
+  return sharedManager;
+}
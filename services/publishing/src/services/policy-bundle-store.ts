@@ -0,0 +1,52 @@
+import { pool } from '../config/database';
+import { PolicyBundle } from '../types';
+
+export interface StoredPolicyBundle extends PolicyBundle {
+  createdBy?: string;
+  createdAt: Date;
+}
+
+/**
+ * Postgres-backed history of policy bundles. Bundles are never edited; a
+ * change is published as a new version, and the newest one is active.
+ */
+export class PolicyBundleStore {
+  async getActive(): Promise<StoredPolicyBundle | null> {
+    const result = await pool.query(
+      'SELECT * FROM policy_bundles ORDER BY created_at DESC LIMIT 1'
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async list(limit: number = 20): Promise<StoredPolicyBundle[]> {
+    const result = await pool.query(
+      'SELECT * FROM policy_bundles ORDER BY created_at DESC LIMIT $1',
+      [limit]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  async create(bundle: PolicyBundle, createdBy: string): Promise<StoredPolicyBundle> {
+    const result = await pool.query(
+      `INSERT INTO policy_bundles (bundle_id, version, description, policies, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [bundle.id, bundle.version, bundle.description || null, JSON.stringify(bundle.policies), createdBy]
+    );
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  private mapRow(row: Record<string, unknown>): StoredPolicyBundle {
+    return {
+      id: row.bundle_id as string,
+      version: row.version as string,
+      description: (row.description as string | null) || undefined,
+      policies: (typeof row.policies === 'string' ? JSON.parse(row.policies) : row.policies) as PolicyBundle['policies'],
+      createdBy: (row.created_by as string | null) || undefined,
+      createdAt: row.created_at as Date,
+    };
+  }
+}
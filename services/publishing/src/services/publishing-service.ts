@@ -1,14 +1,46 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Service, ServiceStatus, ServiceCategory, PublishingWorkflowContext } from '../types';
+import {
+  Service,
+  ServiceStatus,
+  ServiceCategory,
+  PublishingWorkflowContext,
+  PublishingHistory,
+  TestRunRecord,
+  ServiceHealthReport,
+  ApiDiffReport,
+  ImportFormat,
+  ServiceImportResult,
+  ProtocolType,
+  ServiceCapability,
+  ServiceDraft,
+  ServiceDraftDiff,
+  ValidationResult,
+  DeprecationRequest,
+  ServiceDeprecation,
+  WebhookEvent,
+} from '../types';
 import { ServiceValidator } from '../validators/service-validator';
 import { OpenAPIValidator } from '../validators/openapi-validator';
+import { OpenAPIDiffEngine } from '../validators/openapi-diff';
+import { ProtobufValidator } from '../validators/protobuf-validator';
 import { RegistryClient } from '../integrations/registry-client';
-import { PolicyEngineClient } from '../integrations/policy-engine-client';
-import { AnalyticsClient } from '../integrations/analytics-client';
-import { GovernanceClient } from '../integrations/governance-client';
-import { pool } from '../config/database';
+import { TenantClient } from '../integrations/tenant-client';
+import { WorkflowStateStore } from '../workflows/workflow-state-store';
+import { PublishingWorkflow, DeprecationWorkflow } from '../workflows/publishing-workflow';
+import { TestOrchestrator } from './test-orchestrator';
+import { TestRunStore } from './test-run-store';
+import { HealthCheckStore } from './health-check-store';
+import { ApiDiffStore } from './api-diff-store';
+import { ServiceDraftStore } from './service-draft-store';
+import { ServiceStore } from './service-store';
+import { OutboxStore } from './outbox-store';
+import { DeprecationStore } from './deprecation-store';
+import { WebhookDispatcher } from './webhook-dispatcher';
+import { ServiceImporter } from '../importers/service-importer';
+import { pool, transaction } from '../config/database';
 import { cacheSet, cacheGet, cacheDelete } from '../config/redis';
 import { logger } from '../utils/logger';
+import { diffFields } from '../utils/object-diff';
 import * as semver from 'semver';
 
 /**
@@ -17,24 +49,52 @@ import * as semver from 'semver';
 export class PublishingService {
   private readonly serviceValidator: ServiceValidator;
   private readonly openApiValidator: OpenAPIValidator;
+  private readonly protobufValidator: ProtobufValidator;
   private readonly registryClient: RegistryClient;
-  private readonly policyEngineClient: PolicyEngineClient;
-  private readonly analyticsClient: AnalyticsClient;
-  private readonly governanceClient: GovernanceClient;
+  private readonly tenantClient: TenantClient;
+  private readonly workflowStateStore: WorkflowStateStore;
+  private readonly testOrchestrator: TestOrchestrator;
+  private readonly testRunStore: TestRunStore;
+  private readonly healthCheckStore: HealthCheckStore;
+  private readonly openApiDiffEngine: OpenAPIDiffEngine;
+  private readonly apiDiffStore: ApiDiffStore;
+  private readonly serviceImporter: ServiceImporter;
+  private readonly serviceDraftStore: ServiceDraftStore;
+  private readonly serviceStore: ServiceStore;
+  private readonly outboxStore: OutboxStore;
+  private readonly publishingWorkflow: PublishingWorkflow;
+  private readonly deprecationWorkflow: DeprecationWorkflow;
+  private readonly deprecationStore: DeprecationStore;
+  private readonly webhookDispatcher: WebhookDispatcher;
 
   constructor() {
     this.serviceValidator = new ServiceValidator();
     this.openApiValidator = new OpenAPIValidator(
       process.env.OPENAPI_VALIDATION_STRICT === 'true'
     );
+    this.protobufValidator = new ProtobufValidator();
     this.registryClient = new RegistryClient();
-    this.policyEngineClient = new PolicyEngineClient();
-    this.analyticsClient = new AnalyticsClient();
-    this.governanceClient = new GovernanceClient();
+    this.tenantClient = new TenantClient();
+    this.workflowStateStore = new WorkflowStateStore();
+    this.testOrchestrator = new TestOrchestrator();
+    this.testRunStore = new TestRunStore();
+    this.healthCheckStore = new HealthCheckStore();
+    this.openApiDiffEngine = new OpenAPIDiffEngine();
+    this.apiDiffStore = new ApiDiffStore();
+    this.serviceImporter = new ServiceImporter();
+    this.serviceDraftStore = new ServiceDraftStore();
+    this.serviceStore = new ServiceStore();
+    this.outboxStore = new OutboxStore();
+    this.publishingWorkflow = new PublishingWorkflow();
+    this.deprecationWorkflow = new DeprecationWorkflow();
+    this.deprecationStore = new DeprecationStore();
+    this.webhookDispatcher = new WebhookDispatcher();
   }
 
   /**
-   * Publish a new service following the complete pipeline
+   * Publish a new service through the checkpointed publishing workflow.
+   * Returns once the service is active, rejected or waiting for approval;
+   * the workflow keeps running in the background while approval is pending.
    */
   async publishService(
     providerId: string,
@@ -50,162 +110,41 @@ export class PublishingService {
     });
 
     try {
-      // Phase 1: Validation
-      const validationResult = await this.serviceValidator.validate(serviceSpec);
+      const context = await this.publishingWorkflow.start(
+        serviceId,
+        providerId,
+        this.withGrpcCapabilities(serviceSpec)
+      );
+      const result = { serviceId, status: context.status!, message: this.describeOutcome(context) };
 
-      if (!validationResult.isValid) {
+      if (context.status === ServiceStatus.FAILED_VALIDATION && context.validationResult?.isValid === false) {
         logger.warn('Service validation failed', {
           serviceId,
-          errors: validationResult.errors,
+          errors: context.validationResult.errors,
         });
 
-        await this.analyticsClient.trackValidationFailure(
-          serviceId,
-          providerId,
-          validationResult.errors
-        );
-
-        return {
-          serviceId,
-          status: ServiceStatus.FAILED_VALIDATION,
-          message: `Validation failed: ${validationResult.errors.map((e) => e.message).join(', ')}`,
-        };
-      }
-
-      // Phase 2: OpenAPI Validation (if provided)
-      if (serviceSpec.openApiSpec) {
-        const openApiResult = await this.openApiValidator.validate(serviceSpec.openApiSpec);
-
-        if (!openApiResult.isValid) {
-          logger.warn('OpenAPI validation failed', {
-            serviceId,
-            errors: openApiResult.errors,
-          });
-
-          return {
-            serviceId,
-            status: ServiceStatus.FAILED_VALIDATION,
-            message: `OpenAPI validation failed: ${openApiResult.errors.map((e) => e.message).join(', ')}`,
-          };
-        }
-      }
-
-      // Phase 3: Policy Compliance Check
-      const policyResult = await this.policyEngineClient.validateService(serviceSpec);
-
-      if (!policyResult.compliant) {
-        logger.warn('Policy compliance check failed', {
-          serviceId,
-          violations: policyResult.violations,
-        });
-
-        return {
-          serviceId,
-          status: ServiceStatus.SUSPENDED,
-          message: `Policy violations: ${policyResult.violations.map((v) => v.message).join(', ')}`,
-        };
+        await this.outboxStore.enqueue([
+          {
+            destination: 'analytics',
+            eventType: 'validation_failed',
+            payload: {
+              serviceId,
+              providerId,
+              errorCount: context.validationResult.errors.length,
+              errors: context.validationResult.errors,
+            },
+          },
+        ]);
       }
 
-      // Phase 4: Registry Synchronization
-      const registryEntry = await this.registryClient.registerService(serviceSpec);
-
-      // Phase 5: Marketplace Publication
-      const service: Service = {
-        id: serviceId,
-        registryId: registryEntry.id,
-        name: serviceSpec.name!,
-        version: serviceSpec.version!,
-        description: serviceSpec.description!,
-        providerId,
-        category: serviceSpec.category!,
-        capabilities: serviceSpec.capabilities!,
-        endpoint: serviceSpec.endpoint!,
-        pricing: serviceSpec.pricing!,
-        sla: serviceSpec.sla!,
-        compliance: serviceSpec.compliance!,
-        status: ServiceStatus.PENDING_APPROVAL,
-        metadata: {
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          publishedAt: new Date(),
-          tags: serviceSpec.metadata?.tags,
-          documentation: serviceSpec.metadata?.documentation,
-          exampleUsage: serviceSpec.metadata?.exampleUsage,
-        },
-        openApiSpec: serviceSpec.openApiSpec,
-      };
-
-      // Save to database
-      await this.saveService(service);
-
-      // Phase 6: Automated Testing (mock)
-      const testsPassed = await this.runAutomatedTests(service);
-
-      if (!testsPassed) {
-        service.status = ServiceStatus.FAILED_VALIDATION;
-        await this.updateServiceStatus(serviceId, ServiceStatus.FAILED_VALIDATION);
-
-        return {
-          serviceId,
-          status: ServiceStatus.FAILED_VALIDATION,
-          message: 'Automated tests failed',
-        };
-      }
-
-      // Phase 7: Approval Workflow (if required)
-      const requiresApproval = this.requiresManualApproval(serviceSpec);
-
-      if (requiresApproval) {
-        const workflowContext: PublishingWorkflowContext = {
-          serviceId,
-          providerId,
-          serviceSpec,
-          validationResult,
-          policyResult,
-          approvalRequired: true,
-          approvalStatus: 'pending',
-          registryId: registryEntry.id,
-          startTime,
-        };
-
-        await this.governanceClient.createApprovalWorkflow(workflowContext);
-
-        logger.info('Service pending manual approval', {
-          serviceId,
-          serviceName: service.name,
-        });
-      } else {
-        service.status = ServiceStatus.ACTIVE;
-        await this.updateServiceStatus(serviceId, ServiceStatus.ACTIVE);
-      }
-
-      // Phase 8: Cache the service
-      await cacheSet(`service:${serviceId}`, service, 300); // 5 minute TTL
-
-      // Phase 9: Event Publishing
-      await this.analyticsClient.trackServicePublished(
+      logger.info('Service publishing workflow settled', {
         serviceId,
-        providerId,
-        service.category,
-        service.pricing.model
-      );
-
-      await this.governanceClient.notifyServicePublished(service);
-
-      logger.info('Service published successfully', {
-        serviceId,
-        serviceName: service.name,
-        status: service.status,
+        serviceName: serviceSpec.name,
+        status: result.status,
         duration: Date.now() - startTime.getTime(),
       });
 
-      return {
-        serviceId,
-        status: service.status,
-        message: requiresApproval
-          ? 'Service published successfully and pending approval'
-          : 'Service published successfully and is now active',
-      };
+      return result;
     } catch (error) {
       logger.error('Service publishing failed', {
         serviceId,
@@ -213,11 +152,17 @@ export class PublishingService {
         error,
       });
 
-      await this.analyticsClient.track('publish_failed', {
-        serviceId,
-        providerId,
-        error: (error as Error).message,
-      });
+      await this.outboxStore.enqueue([
+        {
+          destination: 'analytics',
+          eventType: 'publish_failed',
+          payload: {
+            serviceId,
+            providerId,
+            error: (error as Error).message,
+          },
+        },
+      ]);
 
       throw new Error(`Publishing failed: ${(error as Error).message}`);
     }
@@ -262,6 +207,17 @@ export class PublishingService {
         }
       }
 
+      // Reject breaking API changes that are not accompanied by a major version bump
+      if (updates.openApiSpec && existingService.openApiSpec) {
+        const apiDiff = this.openApiDiffEngine.diff(
+          existingService.openApiSpec,
+          updates.openApiSpec,
+          existingService.version,
+          updates.version || existingService.version
+        );
+        this.openApiDiffEngine.assertCompatibleBump(apiDiff);
+      }
+
       // Merge updates with existing service
       const updatedService: Service = {
         ...existingService,
@@ -274,7 +230,9 @@ export class PublishingService {
       };
 
       // Validate updated service
-      const validationResult = await this.serviceValidator.validate(updatedService);
+      const validationResult = await this.serviceValidator.validate(updatedService, {
+        tenantIds: await this.tenantClient.getUserTenantIds(providerId),
+      });
 
       if (!validationResult.isValid) {
         throw new Error(
@@ -282,8 +240,32 @@ export class PublishingService {
         );
       }
 
-      // Update in database
-      await this.saveService(updatedService);
+      if (updates.grpcSpec && updatedService.endpoint.protocol === ProtocolType.GRPC) {
+        const protobufResult = await this.protobufValidator.validate(updates.grpcSpec);
+
+        if (!protobufResult.isValid) {
+          throw new Error(
+            `Validation failed: ${protobufResult.errors.map((e) => `${e.field}: ${e.message}`).join(', ')}`
+          );
+        }
+      }
+
+      // Update in database, recording the change event in the same transaction
+      const changes = Object.keys(updates);
+      await transaction(async (client) => {
+        await this.serviceStore.saveService(updatedService, client);
+        await this.outboxStore.enqueue(
+          [
+            {
+              destination: 'analytics',
+              eventType: 'service_updated',
+              aggregateId: serviceId,
+              payload: { serviceId, providerId, changes },
+            },
+          ],
+          client
+        );
+      });
 
       // Update in registry
       if (existingService.registryId) {
@@ -293,10 +275,6 @@ export class PublishingService {
       // Clear cache
       await cacheDelete(`service:${serviceId}`);
 
-      // Track update
-      const changes = Object.keys(updates);
-      await this.analyticsClient.trackServiceUpdated(serviceId, providerId, changes);
-
       logger.info('Service updated successfully', {
         serviceId,
         changes,
@@ -324,7 +302,7 @@ export class PublishingService {
     providerId: string,
     newVersion: string,
     changes?: Partial<Service>
-  ): Promise<{ serviceId: string; version: string }> {
+  ): Promise<{ serviceId: string; version: string; apiDiff?: ApiDiffReport }> {
     try {
       logger.info('Creating new service version', {
         serviceId,
@@ -346,6 +324,20 @@ export class PublishingService {
         throw new Error('New version must be greater than current version');
       }
 
+      // Compare the API contracts and reject minor/patch bumps with breaking changes
+      const newSpec = changes?.openApiSpec ?? existingService.openApiSpec;
+      let apiDiff: ApiDiffReport | undefined;
+
+      if (existingService.openApiSpec && newSpec) {
+        apiDiff = this.openApiDiffEngine.diff(
+          existingService.openApiSpec,
+          newSpec,
+          existingService.version,
+          newVersion
+        );
+        this.openApiDiffEngine.assertCompatibleBump(apiDiff);
+      }
+
       // Create new service with updated version
       const newService: Partial<Service> = {
         ...existingService,
@@ -360,15 +352,33 @@ export class PublishingService {
       // Publish as new service
       const result = await this.publishService(providerId, newService);
 
+      if (apiDiff) {
+        apiDiff.serviceId = result.serviceId;
+        apiDiff.previousServiceId = serviceId;
+        await this.apiDiffStore.saveReport(apiDiff);
+      }
+
+      await this.webhookDispatcher.dispatch(providerId, WebhookEvent.SERVICE_VERSION_CREATED, {
+        serviceId: result.serviceId,
+        previousServiceId: serviceId,
+        name: existingService.name,
+        version: newVersion,
+        previousVersion: existingService.version,
+        status: result.status,
+        breakingChanges: apiDiff?.breaking ?? false,
+      });
+
       logger.info('New service version created', {
         originalServiceId: serviceId,
         newServiceId: result.serviceId,
         version: newVersion,
+        breakingChanges: apiDiff?.breaking ?? false,
       });
 
       return {
         serviceId: result.serviceId,
         version: newVersion,
+        apiDiff,
       };
     } catch (error) {
       logger.error('Version creation failed', {
@@ -387,13 +397,14 @@ export class PublishingService {
   async deprecateService(
     serviceId: string,
     providerId: string,
-    reason?: string
-  ): Promise<{ success: boolean; message: string }> {
+    request: Partial<DeprecationRequest>
+  ): Promise<{ success: boolean; message: string; deprecation: ServiceDeprecation }> {
     try {
       logger.info('Deprecating service', {
         serviceId,
         providerId,
-        reason,
+        reason: request.reason,
+        successorServiceId: request.successorServiceId,
       });
 
       const service = await this.getService(serviceId);
@@ -406,27 +417,64 @@ export class PublishingService {
         throw new Error('Unauthorized: You do not own this service');
       }
 
-      // Update status to deprecated
-      await this.updateServiceStatus(serviceId, ServiceStatus.DEPRECATED, reason);
+      if (service.status === ServiceStatus.DEPRECATED || service.status === ServiceStatus.RETIRED) {
+        throw new Error(`Invalid deprecation: service is already ${service.status}`);
+      }
 
-      // Update in registry
-      if (service.registryId) {
-        await this.registryClient.updateServiceStatus(service.registryId, 'deprecated');
+      const { reason, successorServiceId } = request;
+      const gracePeriodDays = request.gracePeriodDays ??
+        parseInt(process.env.DEPRECATION_GRACE_PERIOD_DAYS || '30', 10);
+
+      if (!reason) {
+        throw new Error('Invalid deprecation: reason is required');
       }
 
-      // Clear cache
-      await cacheDelete(`service:${serviceId}`);
+      if (!successorServiceId) {
+        throw new Error('Invalid deprecation: successorServiceId is required');
+      }
+
+      if (!Number.isInteger(gracePeriodDays) || gracePeriodDays < 1) {
+        throw new Error('Invalid deprecation: gracePeriodDays must be a positive integer');
+      }
 
-      // Track deprecation
-      await this.analyticsClient.trackServiceDeprecated(serviceId, providerId, reason);
+      if (successorServiceId === serviceId) {
+        throw new Error('Invalid deprecation: a service cannot be its own successor');
+      }
+
+      const successor = await this.getService(successorServiceId);
+
+      if (!successor || successor.status !== ServiceStatus.ACTIVE) {
+        throw new Error('Invalid deprecation: successor service must exist and be active');
+      }
+
+      // Records the deprecation, the status change and its events together
+      const deprecation = await this.deprecationWorkflow.execute(
+        service,
+        successor,
+        reason,
+        gracePeriodDays
+      );
+
+      await this.webhookDispatcher.dispatch(providerId, WebhookEvent.SERVICE_DEPRECATED, {
+        serviceId,
+        name: service.name,
+        version: service.version,
+        reason,
+        successorServiceId: deprecation.successorServiceId,
+        successorVersion: deprecation.successorVersion,
+        sunsetAt: deprecation.sunsetAt,
+      });
 
       logger.info('Service deprecated successfully', {
         serviceId,
+        sunsetAt: deprecation.sunsetAt,
+        consumersNotified: deprecation.consumersNotified,
       });
 
       return {
         success: true,
         message: 'Service deprecated successfully',
+        deprecation,
       };
     } catch (error) {
       logger.error('Service deprecation failed', {
@@ -463,6 +511,10 @@ export class PublishingService {
 
       const service = this.mapDbRowToService(result.rows[0]);
 
+      if (service.status === ServiceStatus.DEPRECATED || service.status === ServiceStatus.RETIRED) {
+        service.deprecation = (await this.deprecationStore.getDeprecation(serviceId)) ?? undefined;
+      }
+
       // Cache for 5 minutes
       await cacheSet(`service:${serviceId}`, service, 300);
 
@@ -487,11 +539,20 @@ export class PublishingService {
     message: string;
     publishedAt?: Date;
     approvalRequired: boolean;
+    deprecation?: ServiceDeprecation;
   }> {
     try {
       const service = await this.getService(serviceId);
 
       if (!service) {
+        if (await this.serviceDraftStore.getDraft(serviceId)) {
+          return {
+            status: ServiceStatus.DRAFT,
+            message: this.getStatusMessage(ServiceStatus.DRAFT),
+            approvalRequired: false,
+          };
+        }
+
         throw new Error('Service not found');
       }
 
@@ -500,6 +561,7 @@ export class PublishingService {
         message: this.getStatusMessage(service.status),
         publishedAt: service.metadata.publishedAt,
         approvalRequired: service.status === ServiceStatus.PENDING_APPROVAL,
+        deprecation: service.deprecation,
       };
     } catch (error) {
       logger.error('Failed to get publishing status', {
@@ -511,85 +573,621 @@ export class PublishingService {
     }
   }
 
-  // Private helper methods
+  /**
+   * Get the step-by-step publishing workflow history of a service
+   */
+  async getPublishingHistory(serviceId: string): Promise<PublishingHistory> {
+    try {
+      const [service, workflow] = await Promise.all([
+        this.getService(serviceId),
+        this.workflowStateStore.getWorkflow(serviceId),
+      ]);
+
+      if (!service && !workflow) {
+        throw new Error('Service not found');
+      }
+
+      const [steps, compensations] = workflow
+        ? await Promise.all([
+            this.workflowStateStore.getSteps(serviceId),
+            this.workflowStateStore.getCompensations(serviceId),
+          ])
+        : [[], []];
+
+      let workflowSummary: PublishingHistory['workflow'];
+      if (workflow) {
+        const { serviceSpec: _serviceSpec, ...summary } = workflow;
+        workflowSummary = summary;
+      }
+
+      return {
+        serviceId,
+        status: service?.status,
+        workflow: workflowSummary,
+        steps,
+        compensations,
+      };
+    } catch (error) {
+      logger.error('Failed to get publishing history', {
+        serviceId,
+        error,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Run the service's test suite on demand, including provider smoke tests
+   */
+  async runServiceTests(serviceId: string, providerId: string): Promise<TestRunRecord> {
+    try {
+      const service = await this.getService(serviceId);
+
+      if (!service) {
+        throw new Error('Service not found');
+      }
+
+      if (service.providerId !== providerId) {
+        throw new Error('Unauthorized: You do not own this service');
+      }
+
+      logger.info('Running on-demand service tests', {
+        serviceId,
+        smokeTests: service.smokeTests?.length || 0,
+      });
+
+      const { testResult } = await this.testOrchestrator.runTestSuite(service);
+      const run = await this.testRunStore.recordRun(service, 'manual', testResult, providerId);
+
+      logger.info('On-demand service tests completed', {
+        serviceId,
+        runId: run.id,
+        passed: run.passed,
+      });
+
+      return run;
+    } catch (error) {
+      logger.error('On-demand service tests failed', {
+        serviceId,
+        error,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get the history of test runs for a service, newest first
+   */
+  async getTestRuns(serviceId: string, limit: number = 20): Promise<TestRunRecord[]> {
+    try {
+      const service = await this.getService(serviceId);
+
+      if (!service) {
+        throw new Error('Service not found');
+      }
+
+      return await this.testRunStore.listRuns(serviceId, limit);
+    } catch (error) {
+      logger.error('Failed to get test runs', {
+        serviceId,
+        error,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get the OpenAPI diff between a service version and the version it replaced
+   */
+  async getApiDiff(serviceId: string): Promise<ApiDiffReport> {
+    try {
+      const report = await this.apiDiffStore.getReport(serviceId);
+
+      if (!report) {
+        throw new Error('API diff not found for this service version');
+      }
+
+      return report;
+    } catch (error) {
+      logger.error('Failed to get API diff', {
+        serviceId,
+        error,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Build a validated draft service from a Swagger 2.0, Postman or AsyncAPI
+   * document. Nothing is persisted; the provider reviews the draft and
+   * publishes it through publishService.
+   */
+  async importService(
+    providerId: string,
+    format: ImportFormat,
+    document: unknown,
+    overrides: Partial<Service> = {}
+  ): Promise<ServiceImportResult> {
+    try {
+      return await this.serviceImporter.import(format, document, { ...overrides, providerId });
+    } catch (error) {
+      logger.error('Failed to import service', {
+        providerId,
+        format,
+        error,
+      });
 
-  private async saveService(service: Service): Promise<void> {
-    const query = `
-      INSERT INTO services (
-        id, registry_id, name, version, description, provider_id,
-        category, tags, capabilities, endpoint, pricing, sla,
-        compliance, status, created_at, updated_at, published_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
-      ON CONFLICT (id) DO UPDATE SET
-        name = EXCLUDED.name,
-        version = EXCLUDED.version,
-        description = EXCLUDED.description,
-        capabilities = EXCLUDED.capabilities,
-        endpoint = EXCLUDED.endpoint,
-        pricing = EXCLUDED.pricing,
-        sla = EXCLUDED.sla,
-        compliance = EXCLUDED.compliance,
-        status = EXCLUDED.status,
-        updated_at = EXCLUDED.updated_at
-    `;
-
-    await pool.query(query, [
-      service.id,
-      service.registryId,
-      service.name,
-      service.version,
-      service.description,
-      service.providerId,
-      service.category,
-      service.metadata.tags || [],
-      JSON.stringify(service.capabilities),
-      JSON.stringify(service.endpoint),
-      JSON.stringify(service.pricing),
-      JSON.stringify(service.sla),
-      JSON.stringify(service.compliance),
-      service.status,
-      service.metadata.createdAt,
-      service.metadata.updatedAt,
-      service.metadata.publishedAt,
-    ]);
+      throw error;
+    }
   }
 
-  private async updateServiceStatus(
+  /**
+   * Start a draft for a new service. Drafts are validated leniently so that
+   * incomplete work can be saved.
+   */
+  async createDraft(providerId: string, spec: Partial<Service>): Promise<ServiceDraft> {
+    try {
+      const serviceId = uuidv4();
+      const draftSpec = this.draftableFields(spec);
+
+      const draft = await this.serviceDraftStore.saveDraft(
+        serviceId,
+        providerId,
+        draftSpec,
+        this.serviceValidator.validateDraft(draftSpec)
+      );
+
+      logger.info('Service draft created', {
+        serviceId,
+        providerId,
+      });
+
+      return draft;
+    } catch (error) {
+      logger.error('Failed to create service draft', {
+        providerId,
+        error,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Autosave a draft, replacing its spec. When `serviceId` is a published
+   * service without a draft, a draft staging its next version is started.
+   */
+  async saveDraft(
     serviceId: string,
-    status: ServiceStatus,
-    reason?: string
-  ): Promise<void> {
-    await pool.query(
-      'UPDATE services SET status = $1, suspension_reason = $2, updated_at = NOW() WHERE id = $3',
-      [status, reason || null, serviceId]
-    );
+    providerId: string,
+    spec: Partial<Service>
+  ): Promise<ServiceDraft> {
+    try {
+      const existingDraft = await this.serviceDraftStore.getDraft(serviceId);
+      let baseServiceId = existingDraft?.baseServiceId;
+
+      if (existingDraft) {
+        if (existingDraft.providerId !== providerId) {
+          throw new Error('Unauthorized: You do not own this draft');
+        }
+      } else {
+        const service = await this.getService(serviceId);
+
+        if (!service) {
+          throw new Error('Draft not found');
+        }
+
+        if (service.providerId !== providerId) {
+          throw new Error('Unauthorized: You do not own this service');
+        }
+
+        baseServiceId = service.id;
+      }
+
+      const draftSpec = this.draftableFields(spec);
+
+      return await this.serviceDraftStore.saveDraft(
+        serviceId,
+        providerId,
+        draftSpec,
+        this.serviceValidator.validateDraft(draftSpec),
+        baseServiceId
+      );
+    } catch (error) {
+      logger.error('Failed to save service draft', {
+        serviceId,
+        providerId,
+        error,
+      });
+
+      throw error;
+    }
+  }
+
+  async getDraft(serviceId: string, providerId: string): Promise<ServiceDraft> {
+    const draft = await this.serviceDraftStore.getDraft(serviceId);
+
+    if (!draft) {
+      throw new Error('Draft not found');
+    }
+
+    if (draft.providerId !== providerId) {
+      throw new Error('Unauthorized: You do not own this draft');
+    }
+
+    return draft;
   }
 
-  private async runAutomatedTests(service: Service): Promise<boolean> {
-    // Mock implementation - in production, this would run actual tests
-    logger.info('Running automated tests', {
-      serviceId: service.id,
+  async discardDraft(serviceId: string, providerId: string): Promise<void> {
+    await this.getDraft(serviceId, providerId);
+    await this.serviceDraftStore.deleteDraft(serviceId);
+
+    logger.info('Service draft discarded', {
+      serviceId,
+      providerId,
     });
+  }
+
+  /**
+   * Compare a draft with the published version it stages. Drafts of new
+   * services are compared with an empty service.
+   */
+  async getDraftDiff(serviceId: string, providerId: string): Promise<ServiceDraftDiff> {
+    try {
+      const draft = await this.getDraft(serviceId, providerId);
+      const published = draft.baseServiceId ? await this.getService(draft.baseServiceId) : null;
+
+      const diff: ServiceDraftDiff = {
+        serviceId,
+        baseServiceId: draft.baseServiceId,
+        fromVersion: published?.version,
+        toVersion: draft.spec.version,
+        changes: diffFields(
+          published ? this.draftableFields(published) : {},
+          draft.spec,
+          ['openApiSpec', 'grpcSpec']
+        ),
+      };
+
+      if (published?.openApiSpec && draft.spec.openApiSpec) {
+        diff.apiDiff = this.openApiDiffEngine.diff(
+          published.openApiSpec,
+          draft.spec.openApiSpec,
+          published.version,
+          draft.spec.version || published.version
+        );
+      }
+
+      return diff;
+    } catch (error) {
+      logger.error('Failed to diff service draft', {
+        serviceId,
+        error,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a draft for review: run full validation and start the publishing
+   * workflow. Drafts of published services must bump the version and are
+   * published as a new service version, like createVersion. The draft is
+   * kept unless the workflow reaches approval or activation.
+   */
+  async submitDraft(
+    serviceId: string,
+    providerId: string
+  ): Promise<{ serviceId: string; status: ServiceStatus; message: string; validation?: ValidationResult }> {
+    try {
+      const draft = await this.getDraft(serviceId, providerId);
+      const spec = this.withGrpcCapabilities(draft.spec);
+      let apiDiff: ApiDiffReport | undefined;
+
+      if (draft.baseServiceId) {
+        const published = await this.getService(draft.baseServiceId);
+
+        if (!published) {
+          throw new Error('Service not found');
+        }
+
+        if (!spec.version || !semver.valid(spec.version) || !semver.gt(spec.version, published.version)) {
+          throw new Error(`Invalid draft: version must be greater than the published version ${published.version}`);
+        }
+
+        if (published.openApiSpec && spec.openApiSpec) {
+          apiDiff = this.openApiDiffEngine.diff(
+            published.openApiSpec,
+            spec.openApiSpec,
+            published.version,
+            spec.version
+          );
+          this.openApiDiffEngine.assertCompatibleBump(apiDiff);
+          apiDiff.previousServiceId = published.id;
+        }
+      }
+
+      const validation = await this.validateSubmission(spec, providerId);
+
+      if (!validation.isValid) {
+        await this.serviceDraftStore.saveDraft(serviceId, providerId, draft.spec, validation, draft.baseServiceId);
+
+        return {
+          serviceId,
+          status: ServiceStatus.FAILED_VALIDATION,
+          message: `Validation failed: ${validation.errors.map((e) => e.message).join(', ')}`,
+          validation,
+        };
+      }
+
+      const publishedServiceId = draft.baseServiceId ? uuidv4() : serviceId;
+
+      if (apiDiff) {
+        apiDiff.serviceId = publishedServiceId;
+        await this.apiDiffStore.saveReport(apiDiff);
+      }
+
+      // A draft returned by reviewers is resubmitted under the same ID, so the
+      // checkpoints of its previous run must not be replayed
+      await this.workflowStateStore.clearSteps(publishedServiceId);
+
+      // Settles once the service is waiting for approval or the run is over;
+      // the approval wait continues in the background
+      const context = await this.publishingWorkflow.start(publishedServiceId, providerId, spec);
+      const result = {
+        serviceId: publishedServiceId,
+        status: context.status!,
+        message: this.describeOutcome(context),
+      };
+
+      if (result.status !== ServiceStatus.PENDING_APPROVAL && result.status !== ServiceStatus.ACTIVE) {
+        logger.warn('Submitted service draft was not accepted', {
+          draftId: serviceId,
+          serviceId: publishedServiceId,
+          status: result.status,
+        });
+
+        return context.validationResult?.isValid === false
+          ? { ...result, validation: context.validationResult }
+          : result;
+      }
+
+      await this.serviceDraftStore.deleteDraft(serviceId);
+
+      logger.info('Service draft submitted for review', {
+        draftId: serviceId,
+        serviceId: publishedServiceId,
+        providerId,
+        status: result.status,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to submit service draft', {
+        serviceId,
+        providerId,
+        error,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Suspend a service, recording why it was taken out of the marketplace
+   */
+  async suspendService(serviceId: string, reason: string): Promise<void> {
+    try {
+      const service = await this.getService(serviceId);
+
+      if (!service) {
+        throw new Error('Service not found');
+      }
+
+      logger.warn('Suspending service', {
+        serviceId,
+        reason,
+      });
+
+      await transaction(async (client) => {
+        await this.serviceStore.updateStatus(serviceId, ServiceStatus.SUSPENDED, reason, client);
+        await this.outboxStore.enqueue(
+          [
+            {
+              destination: 'analytics',
+              eventType: 'service_suspended',
+              aggregateId: serviceId,
+              payload: { serviceId, providerId: service.providerId, reason },
+            },
+          ],
+          client
+        );
+      });
+
+      if (service.registryId) {
+        await this.registryClient.updateServiceStatus(service.registryId, 'suspended');
+      }
+
+      await cacheDelete(`service:${serviceId}`);
+
+      await this.webhookDispatcher.dispatch(service.providerId, WebhookEvent.SERVICE_SUSPENDED, {
+        serviceId,
+        name: service.name,
+        version: service.version,
+        reason,
+      });
+    } catch (error) {
+      logger.error('Service suspension failed', {
+        serviceId,
+        error,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * List all services currently active in the marketplace
+   */
+  async getActiveServices(): Promise<Service[]> {
+    const result = await pool.query(
+      'SELECT * FROM services WHERE status = $1 ORDER BY created_at ASC',
+      [ServiceStatus.ACTIVE]
+    );
+
+    return result.rows.map((row) => this.mapDbRowToService(row));
+  }
+
+  /**
+   * Get rolling SLA compliance and recent health checks for a service
+   */
+  async getServiceHealth(serviceId: string): Promise<ServiceHealthReport> {
+    try {
+      const service = await this.getService(serviceId);
+
+      if (!service) {
+        throw new Error('Service not found');
+      }
+
+      const [compliance, recentChecks] = await Promise.all([
+        this.healthCheckStore.getCompliance(service),
+        this.healthCheckStore.getRecentChecks(serviceId),
+      ]);
+
+      return {
+        serviceId,
+        status: service.status,
+        suspensionReason: service.metadata.suspensionReason,
+        compliance,
+        recentChecks,
+      };
+    } catch (error) {
+      logger.error('Failed to get service health', {
+        serviceId,
+        error,
+      });
+
+      throw error;
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Run the same checks as publishService: metadata, OpenAPI and, for gRPC
+   * services, protobuf descriptors
+   */
+  private async validateSubmission(spec: Partial<Service>, providerId: string): Promise<ValidationResult> {
+    const tenantIds = await this.tenantClient.getUserTenantIds(providerId);
+    const results = [await this.serviceValidator.validate(spec, { tenantIds })];
+
+    if (spec.openApiSpec) {
+      results.push(await this.openApiValidator.validate(spec.openApiSpec));
+    }
+
+    if (spec.endpoint?.protocol === ProtocolType.GRPC && spec.grpcSpec) {
+      results.push(await this.protobufValidator.validate(spec.grpcSpec));
+    }
+
+    return {
+      isValid: results.every((result) => result.isValid),
+      errors: results.flatMap((result) => result.errors),
+      warnings: results.flatMap((result) => result.warnings),
+    };
+  }
+
+  /**
+   * The provider-editable part of a service spec; identifiers, status and
+   * timestamps are owned by the pipeline
+   */
+  private draftableFields(spec: Partial<Service>): Partial<Service> {
+    const { id: _id, registryId: _registryId, providerId: _providerId, status: _status, metadata, ...fields } = spec;
 
-    // Simulate test execution
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    if (!metadata) {
+      return fields;
+    }
+
+    const { tags, documentation, exampleUsage } = metadata;
+    return {
+      ...fields,
+      metadata: { tags, documentation, exampleUsage } as Service['metadata'],
+    };
+  }
+
+  /**
+   * gRPC services get one capability per RPC method. Capabilities supplied by
+   * the provider override derived ones of the same name; unreadable
+   * descriptors are left for the protobuf validation phase to report.
+   */
+  private withGrpcCapabilities(serviceSpec: Partial<Service>): Partial<Service> {
+    if (serviceSpec.endpoint?.protocol !== ProtocolType.GRPC || !serviceSpec.grpcSpec) {
+      return serviceSpec;
+    }
+
+    let derived: ServiceCapability[];
+    try {
+      derived = this.protobufValidator.deriveCapabilities(
+        this.protobufValidator.loadDescriptors(serviceSpec.grpcSpec)
+      );
+    } catch {
+      return serviceSpec;
+    }
+
+    const provided = new Map((serviceSpec.capabilities ?? []).map((capability) => [capability.name, capability]));
+    const derivedNames = new Set(derived.map((capability) => capability.name));
 
-    return true;
+    return {
+      ...serviceSpec,
+      capabilities: [
+        ...derived.map((capability) => provided.get(capability.name) ?? capability),
+        ...[...provided.values()].filter((capability) => !derivedNames.has(capability.name)),
+      ],
+    };
+  }
+
+  /**
+   * Explain where a publishing workflow left the service
+   */
+  private describeOutcome(context: PublishingWorkflowContext): string {
+    switch (context.status) {
+      case ServiceStatus.ACTIVE:
+        return 'Service published successfully and is now active';
+      case ServiceStatus.PENDING_APPROVAL:
+        return 'Service published successfully and pending approval';
+      case ServiceStatus.SUSPENDED:
+        return context.policyResult && !context.policyResult.compliant
+          ? `Policy violations: ${context.policyResult.violations.map((v) => v.message).join(', ')}`
+          : this.getStatusMessage(ServiceStatus.SUSPENDED);
+      case ServiceStatus.FAILED_VALIDATION:
+        return context.validationResult && !context.validationResult.isValid
+          ? `Validation failed: ${context.validationResult.errors.map((e) => e.message).join(', ')}`
+          : `Automated tests failed: ${this.describeTestFailures(context)}`;
+      default:
+        return this.getStatusMessage(context.status!);
+    }
   }
 
-  private requiresManualApproval(serviceSpec: Partial<Service>): boolean {
-    // Require approval for confidential services
-    if (serviceSpec.compliance?.level === 'confidential' ||
-        serviceSpec.compliance?.level === 'restricted') {
-      return true;
+  /**
+   * Summarize what made the workflow's tests fail
+   */
+  private describeTestFailures(context: PublishingWorkflowContext): string {
+    const failures = (context.testResult?.tests ?? [])
+      .filter((test) => test.status === 'failed')
+      .map((test) => (test.error ? `${test.name} (${test.error})` : test.name));
+
+    if (context.securityResult && !context.securityResult.passed) {
+      failures.push('Security scan');
     }
 
-    // Require approval for enterprise support level
-    if (serviceSpec.sla?.supportLevel === 'enterprise') {
-      return true;
+    if (context.benchmarkResult && !context.benchmarkResult.passed) {
+      failures.push('Performance benchmarks');
     }
 
-    return false;
+    return failures.join(', ');
   }
 
   private mapDbRowToService(row: Record<string, unknown>): Service {
@@ -615,17 +1213,30 @@ export class PublishingService {
         suspensionReason: row.suspension_reason as string | undefined,
         tags: row.tags as string[] | undefined,
       },
+      openApiSpec: this.parseJsonColumn(row.openapi_spec) as Record<string, unknown> | undefined,
+      smokeTests: (this.parseJsonColumn(row.smoke_tests) as Service['smokeTests']) || [],
+      grpcSpec: (this.parseJsonColumn(row.grpc_spec) as Service['grpcSpec']) || undefined,
     };
   }
 
+  private parseJsonColumn(value: unknown): unknown {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+
   private getStatusMessage(status: ServiceStatus): string {
     const messages: Record<ServiceStatus, string> = {
       [ServiceStatus.PENDING_APPROVAL]: 'Service is pending manual approval',
       [ServiceStatus.ACTIVE]: 'Service is active and available',
       [ServiceStatus.DEPRECATED]: 'Service is deprecated',
-      [ServiceStatus.SUSPENDED]: 'Service is suspended due to policy violations',
+      [ServiceStatus.SUSPENDED]: 'Service is suspended due to policy violations or SLA breaches',
       [ServiceStatus.RETIRED]: 'Service has been retired',
       [ServiceStatus.FAILED_VALIDATION]: 'Service failed validation checks',
+      [ServiceStatus.DRAFT]: 'Service is a draft and has not been submitted for review',
+      [ServiceStatus.CHANGES_REQUESTED]: 'Reviewers requested changes; update the draft and resubmit',
     };
 
     return messages[status] || 'Unknown status';
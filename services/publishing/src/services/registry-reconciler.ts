@@ -0,0 +1,344 @@
+/**
+ * Registry Reconciler
+ * Periodically compares every service's name, version and status with its
+ * Registry entry, records the drift it finds and repairs it from the
+ * configured source of truth
+ */
+
+import { RegistryClient, RegistryServiceResponse } from '../integrations/registry-client';
+import { PublishingService } from './publishing-service';
+import { RegistryLinkedService, ServiceStore } from './service-store';
+import { RegistryReconciliationStore } from './registry-reconciliation-store';
+import { OutboxStore } from './outbox-store';
+import { transaction } from '../config/database';
+import { cacheDelete } from '../config/redis';
+import {
+  RegistryDrift,
+  RegistryReconciliationReport,
+  RegistrySourceOfTruth,
+  ServiceStatus,
+} from '../types';
+import { logger } from '../utils/logger';
+
+const SOURCES: RegistrySourceOfTruth[] = ['marketplace', 'registry', 'none'];
+
+export interface RegistryReconcilerOptions {
+  sourceOfTruth?: RegistrySourceOfTruth;
+  intervalMs?: number;
+  batchSize?: number;
+  graceMs?: number;
+  retentionDays?: number;
+}
+
+/**
+ * Differences between a service and its Registry entry. A missing entry
+ * reports every field.
+ */
+export function diffRegistryEntry(
+  service: RegistryLinkedService,
+  entry: RegistryServiceResponse | null
+): RegistryDrift['differences'] {
+  const fields = ['name', 'version', 'status'] as const;
+
+  return fields
+    .filter((field) => !entry || entry[field] !== service[field])
+    .map((field) => ({ field, marketplace: service[field], registry: entry?.[field] }));
+}
+
+export class RegistryReconciler {
+  private readonly sourceOfTruth: RegistrySourceOfTruth;
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+  private readonly graceMs: number;
+  private readonly retentionDays: number;
+  private readonly registryClient: RegistryClient;
+  private readonly serviceStore: ServiceStore;
+  private readonly reconciliationStore: RegistryReconciliationStore;
+  private readonly outboxStore: OutboxStore;
+  private readonly publishingService: PublishingService;
+  private timer?: NodeJS.Timeout;
+  private cycleInProgress: boolean = false;
+
+  constructor(options: RegistryReconcilerOptions = {}) {
+    this.sourceOfTruth =
+      options.sourceOfTruth ??
+      ((process.env.REGISTRY_SOURCE_OF_TRUTH as RegistrySourceOfTruth) || 'marketplace');
+    this.intervalMs =
+      options.intervalMs ?? parseInt(process.env.REGISTRY_RECONCILE_INTERVAL_MS || '3600000', 10);
+    this.batchSize = options.batchSize ?? parseInt(process.env.REGISTRY_RECONCILE_BATCH_SIZE || '100', 10);
+    this.graceMs = options.graceMs ?? parseInt(process.env.REGISTRY_RECONCILE_GRACE_MS || '300000', 10);
+    this.retentionDays =
+      options.retentionDays ?? parseInt(process.env.REGISTRY_RECONCILE_RETENTION_DAYS || '30', 10);
+    this.registryClient = new RegistryClient();
+    this.serviceStore = new ServiceStore();
+    this.reconciliationStore = new RegistryReconciliationStore();
+    this.outboxStore = new OutboxStore();
+    this.publishingService = new PublishingService();
+
+    if (!SOURCES.includes(this.sourceOfTruth)) {
+      throw new Error(`Unknown registry source of truth ${this.sourceOfTruth}; use ${SOURCES.join(', ')}`);
+    }
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info('Starting registry reconciler', {
+      intervalMs: this.intervalMs,
+      sourceOfTruth: this.sourceOfTruth,
+    });
+
+    this.timer = setInterval(() => {
+      this.runCycle().catch((error) => {
+        logger.error('Registry reconciliation cycle failed', { error });
+      });
+    }, this.intervalMs);
+
+    // Do not keep the process alive just for the reconciler
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Registry reconciler stopped');
+    }
+  }
+
+  async runCycle(): Promise<void> {
+    if (this.cycleInProgress) {
+      logger.warn('Skipping registry reconciliation cycle, previous cycle still running');
+      return;
+    }
+
+    await this.reconcile();
+  }
+
+  /**
+   * Compare every service with the Registry and store the report. A dry run
+   * only reports drift, whatever the source of truth.
+   */
+  async reconcile(options: { dryRun?: boolean } = {}): Promise<RegistryReconciliationReport> {
+    if (this.cycleInProgress) {
+      throw new Error('Invalid request: a reconciliation is already in progress');
+    }
+
+    this.cycleInProgress = true;
+
+    try {
+      const sourceOfTruth = options.dryRun ? 'none' : this.sourceOfTruth;
+      const startedAt = new Date();
+      const changedBefore = new Date(startedAt.getTime() - this.graceMs);
+      const drift: RegistryDrift[] = [];
+      const errors: RegistryReconciliationReport['errors'] = [];
+      let checked = 0;
+      let afterId: string | null = null;
+
+      for (;;) {
+        const services = await this.serviceStore.listRegistryLinked(afterId, this.batchSize, changedBefore);
+        if (services.length === 0) {
+          break;
+        }
+
+        for (const service of services) {
+          checked++;
+
+          try {
+            const found = await this.checkService(service, sourceOfTruth);
+            if (found) {
+              drift.push(found);
+            }
+          } catch (error) {
+            errors.push({ serviceId: service.id, error: (error as Error).message });
+          }
+        }
+
+        afterId = services[services.length - 1].id;
+      }
+
+      const report = await this.reconciliationStore.save({
+        sourceOfTruth,
+        startedAt,
+        finishedAt: new Date(),
+        checked,
+        inSync: checked - drift.length - errors.length,
+        drift,
+        errors,
+      });
+
+      const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+      await this.reconciliationStore.pruneBefore(cutoff);
+
+      logger.info('Registry reconciliation completed', {
+        sourceOfTruth,
+        checked,
+        drifted: drift.length,
+        repaired: drift.filter((d) => d.repair === 'repaired').length,
+        errors: errors.length,
+      });
+
+      return report;
+    } finally {
+      this.cycleInProgress = false;
+    }
+  }
+
+  async getLatestReport(): Promise<RegistryReconciliationReport | null> {
+    return this.reconciliationStore.getLatest();
+  }
+
+  private async checkService(
+    service: RegistryLinkedService,
+    sourceOfTruth: RegistrySourceOfTruth
+  ): Promise<RegistryDrift | null> {
+    const entry = await this.registryClient.findService(service.registryId);
+    const differences = diffRegistryEntry(service, entry);
+
+    if (differences.length === 0) {
+      return null;
+    }
+
+    const drift: RegistryDrift = {
+      serviceId: service.id,
+      registryId: service.registryId,
+      kind: entry ? 'mismatch' : 'missing',
+      differences,
+      repair: 'skipped',
+    };
+
+    if (sourceOfTruth === 'none') {
+      return drift;
+    }
+
+    try {
+      const repaired =
+        sourceOfTruth === 'marketplace'
+          ? await this.repairRegistry(service, drift)
+          : await this.repairMarketplace(service, entry);
+      drift.repair = repaired ? 'repaired' : 'skipped';
+    } catch (error) {
+      drift.repair = 'failed';
+      drift.repairError = (error as Error).message;
+    }
+
+    logger.warn('Registry drift detected', {
+      serviceId: service.id,
+      registryId: service.registryId,
+      kind: drift.kind,
+      fields: differences.map((d) => d.field),
+      repair: drift.repair,
+    });
+
+    return drift;
+  }
+
+  /**
+   * Push the marketplace state to the Registry, registering the service
+   * again when its entry is gone
+   */
+  private async repairRegistry(service: RegistryLinkedService, drift: RegistryDrift): Promise<boolean> {
+    if (drift.kind === 'missing') {
+      const full = await this.publishingService.getService(service.id);
+      if (!full) {
+        return false;
+      }
+
+      const entry = await this.registryClient.registerService(full);
+      await this.registryClient.updateServiceStatus(entry.id, service.status);
+      await this.serviceStore.updateRegistryId(service.id, entry.id);
+      await cacheDelete(`service:${service.id}`);
+      return true;
+    }
+
+    const fields = drift.differences.map((d) => d.field);
+
+    if (fields.includes('name') || fields.includes('version')) {
+      await this.registryClient.updateService(service.registryId, {
+        name: service.name,
+        version: service.version,
+      });
+    }
+
+    if (fields.includes('status')) {
+      await this.registryClient.updateServiceStatus(service.registryId, service.status);
+    }
+
+    return true;
+  }
+
+  /**
+   * Pull the Registry state into the marketplace. A service whose entry is
+   * gone is left for an operator. Suspensions go through
+   * PublishingService.suspendService so the provider hears about them; any
+   * other change commits with a `service_registry_repaired` event.
+   */
+  private async repairMarketplace(
+    service: RegistryLinkedService,
+    entry: RegistryServiceResponse | null
+  ): Promise<boolean> {
+    if (!entry) {
+      return false;
+    }
+
+    const status = entry.status as ServiceStatus;
+    if (status !== service.status && !Object.values(ServiceStatus).includes(status)) {
+      throw new Error(`Registry status ${entry.status} is not a marketplace status`);
+    }
+
+    const identityChanged = entry.name !== service.name || entry.version !== service.version;
+    const suspend = status !== service.status && status === ServiceStatus.SUSPENDED;
+    const statusChanged = status !== service.status && !suspend;
+
+    if (identityChanged || statusChanged) {
+      const payload = {
+        serviceId: service.id,
+        registryId: service.registryId,
+        differences: diffRegistryEntry(service, entry).filter(
+          (difference) => difference.field !== 'status' || statusChanged
+        ),
+      };
+
+      await transaction(async (client) => {
+        if (identityChanged) {
+          await this.serviceStore.updateIdentity(service.id, entry.name, entry.version, client);
+        }
+
+        if (statusChanged) {
+          await this.serviceStore.updateStatus(service.id, status, undefined, client);
+        }
+
+        await this.outboxStore.enqueue(
+          [
+            { destination: 'analytics', eventType: 'service_registry_repaired', aggregateId: service.id, payload },
+            { destination: 'governance', eventType: 'service_registry_repaired', aggregateId: service.id, payload },
+          ],
+          client
+        );
+      });
+
+      await cacheDelete(`service:${service.id}`);
+    }
+
+    if (suspend) {
+      await this.publishingService.suspendService(service.id, 'Suspended in the Registry');
+    }
+
+    return true;
+  }
+}
+
+let sharedReconciler: RegistryReconciler | null = null;
+
+/**
+ * The process-wide reconciler, so scheduled and on-demand runs never overlap
+ */
+export function getRegistryReconciler(): RegistryReconciler {
+  if (!sharedReconciler) {
+    sharedReconciler = new RegistryReconciler();
+  }
+
+  return sharedReconciler;
+}
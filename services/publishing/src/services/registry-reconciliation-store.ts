@@ -0,0 +1,59 @@
+import { pool } from '../config/database';
+import { RegistryReconciliationReport, RegistrySourceOfTruth } from '../types';
+
+/**
+ * Postgres-backed history of registry reconciliation runs
+ */
+export class RegistryReconciliationStore {
+  async save(report: Omit<RegistryReconciliationReport, 'id'>): Promise<RegistryReconciliationReport> {
+    const result = await pool.query(
+      `INSERT INTO registry_reconciliation_runs (
+         source_of_truth, started_at, finished_at, checked, in_sync, drift, errors
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        report.sourceOfTruth,
+        report.startedAt,
+        report.finishedAt,
+        report.checked,
+        report.inSync,
+        JSON.stringify(report.drift),
+        JSON.stringify(report.errors),
+      ]
+    );
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  async getLatest(): Promise<RegistryReconciliationReport | null> {
+    const result = await pool.query(
+      'SELECT * FROM registry_reconciliation_runs ORDER BY started_at DESC LIMIT 1'
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async pruneBefore(cutoff: Date): Promise<number> {
+    const result = await pool.query(
+      'DELETE FROM registry_reconciliation_runs WHERE started_at < $1',
+      [cutoff]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  private mapRow(row: Record<string, unknown>): RegistryReconciliationReport {
+    const json = <T>(value: unknown): T => (typeof value === 'string' ? JSON.parse(value) : value) as T;
+
+    return {
+      id: row.id as string,
+      sourceOfTruth: row.source_of_truth as RegistrySourceOfTruth,
+      startedAt: row.started_at as Date,
+      finishedAt: row.finished_at as Date,
+      checked: row.checked as number,
+      inSync: row.in_sync as number,
+      drift: json<RegistryReconciliationReport['drift']>(row.drift),
+      errors: json<RegistryReconciliationReport['errors']>(row.errors),
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { DatabaseClient, pool } from '../config/database';
+import { ApprovalChangeRequest, Service, ServiceDraft, ServiceStatus, ValidationResult } from '../types';
+
+/**
+ * Postgres-backed store of service drafts. Every save replaces the draft
+ * spec and bumps its revision; reviewer feedback is kept until it is replaced.
+ */
+export class ServiceDraftStore {
+  async saveDraft(
+    serviceId: string,
+    providerId: string,
+    spec: Partial<Service>,
+    validation: ValidationResult,
+    baseServiceId?: string,
+    changesRequested?: ApprovalChangeRequest,
+    db: DatabaseClient = pool
+  ): Promise<ServiceDraft> {
+    const result = await db.query(
+      `INSERT INTO service_drafts (service_id, provider_id, base_service_id, spec, validation, changes_requested)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (service_id) DO UPDATE SET
+         spec = EXCLUDED.spec,
+         validation = EXCLUDED.validation,
+         changes_requested = COALESCE(EXCLUDED.changes_requested, service_drafts.changes_requested),
+         revision = service_drafts.revision + 1,
+         updated_at = NOW()
+       RETURNING *`,
+      [
+        serviceId,
+        providerId,
+        baseServiceId || null,
+        JSON.stringify(spec),
+        JSON.stringify(validation),
+        changesRequested ? JSON.stringify(changesRequested) : null,
+      ]
+    );
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  async getDraft(serviceId: string): Promise<ServiceDraft | null> {
+    const result = await pool.query(
+      'SELECT * FROM service_drafts WHERE service_id = $1',
+      [serviceId]
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async deleteDraft(serviceId: string): Promise<boolean> {
+    const result = await pool.query(
+      'DELETE FROM service_drafts WHERE service_id = $1',
+      [serviceId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private mapRow(row: Record<string, unknown>): ServiceDraft {
+    return {
+      serviceId: row.service_id as string,
+      providerId: row.provider_id as string,
+      baseServiceId: (row.base_service_id as string | null) || undefined,
+      status: ServiceStatus.DRAFT,
+      spec: (typeof row.spec === 'string' ? JSON.parse(row.spec) : row.spec) as Partial<Service>,
+      revision: row.revision as number,
+      validation: (typeof row.validation === 'string'
+        ? JSON.parse(row.validation)
+        : row.validation) as ValidationResult,
+      changesRequested: (typeof row.changes_requested === 'string'
+        ? JSON.parse(row.changes_requested)
+        : row.changes_requested ?? undefined) as ApprovalChangeRequest | undefined,
+      createdAt: row.created_at as Date,
+      updatedAt: row.updated_at as Date,
+    };
+  }
+}
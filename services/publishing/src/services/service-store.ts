@@ -0,0 +1,140 @@
+import { DatabaseClient, pool } from '../config/database';
+import { Service, ServiceStatus } from '../types';
+
+export interface RegistryLinkedService {
+  id: string;
+  registryId: string;
+  name: string;
+  version: string;
+  status: ServiceStatus;
+}
+
+/**
+ * Writes to the services table, shared by PublishingService and the
+ * publishing workflow activities. Writes take an optional transaction client
+ * so they can commit together with outbox events.
+ */
+export class ServiceStore {
+  async saveService(service: Service, db: DatabaseClient = pool): Promise<void> {
+    const query = `
+      INSERT INTO services (
+        id, registry_id, name, version, description, provider_id,
+        category, tags, capabilities, endpoint, pricing, sla,
+        compliance, status, created_at, updated_at, published_at,
+        openapi_spec, smoke_tests, grpc_spec
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        version = EXCLUDED.version,
+        description = EXCLUDED.description,
+        capabilities = EXCLUDED.capabilities,
+        endpoint = EXCLUDED.endpoint,
+        pricing = EXCLUDED.pricing,
+        sla = EXCLUDED.sla,
+        compliance = EXCLUDED.compliance,
+        status = EXCLUDED.status,
+        updated_at = EXCLUDED.updated_at,
+        openapi_spec = EXCLUDED.openapi_spec,
+        smoke_tests = EXCLUDED.smoke_tests,
+        grpc_spec = EXCLUDED.grpc_spec
+    `;
+
+    await db.query(query, [
+      service.id,
+      service.registryId,
+      service.name,
+      service.version,
+      service.description,
+      service.providerId,
+      service.category,
+      service.metadata.tags || [],
+      JSON.stringify(service.capabilities),
+      JSON.stringify(service.endpoint),
+      JSON.stringify(service.pricing),
+      JSON.stringify(service.sla),
+      JSON.stringify(service.compliance),
+      service.status,
+      service.metadata.createdAt,
+      service.metadata.updatedAt,
+      service.metadata.publishedAt,
+      service.openApiSpec ? JSON.stringify(service.openApiSpec) : null,
+      JSON.stringify(service.smokeTests || []),
+      service.grpcSpec ? JSON.stringify(service.grpcSpec) : null,
+    ]);
+  }
+
+  async updateStatus(
+    serviceId: string,
+    status: ServiceStatus,
+    reason?: string,
+    db: DatabaseClient = pool
+  ): Promise<void> {
+    await db.query(
+      `UPDATE services SET
+         status = $1,
+         suspension_reason = $2,
+         deprecated_at = CASE WHEN $1 = 'deprecated' THEN NOW() ELSE deprecated_at END,
+         updated_at = NOW()
+       WHERE id = $3`,
+      [status, reason || null, serviceId]
+    );
+  }
+
+  async deleteService(serviceId: string): Promise<void> {
+    await pool.query('DELETE FROM services WHERE id = $1', [serviceId]);
+  }
+
+  /**
+   * Page through services by ID for registry reconciliation, skipping rows
+   * changed after `changedBefore` so in-flight publications are left alone
+   */
+  async listRegistryLinked(
+    afterId: string | null,
+    limit: number,
+    changedBefore: Date
+  ): Promise<RegistryLinkedService[]> {
+    const result = await pool.query(
+      `SELECT id, registry_id, name, version, status FROM services
+       WHERE ($1::uuid IS NULL OR id > $1) AND updated_at < $2
+       ORDER BY id
+       LIMIT $3`,
+      [afterId, changedBefore, limit]
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      registryId: row.registry_id,
+      name: row.name,
+      version: row.version,
+      status: row.status as ServiceStatus,
+    }));
+  }
+
+  async updateIdentity(
+    serviceId: string,
+    name: string,
+    version: string,
+    db: DatabaseClient = pool
+  ): Promise<void> {
+    await db.query(
+      'UPDATE services SET name = $1, version = $2, updated_at = NOW() WHERE id = $3',
+      [name, version, serviceId]
+    );
+  }
+
+  async updateRegistryId(serviceId: string, registryId: string): Promise<void> {
+    await pool.query(
+      'UPDATE services SET registry_id = $1, updated_at = NOW() WHERE id = $2',
+      [registryId, serviceId]
+    );
+  }
+
+  async getRegistryId(serviceId: string): Promise<string | null> {
+    const result = await pool.query(
+      'SELECT registry_id FROM services WHERE id = $1',
+      [serviceId]
+    );
+
+    return result.rows.length > 0 ? (result.rows[0].registry_id as string) : null;
+  }
+}
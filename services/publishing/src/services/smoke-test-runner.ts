@@ -0,0 +1,150 @@
+/**
+ * Smoke Test Runner
+ * Executes the provider-defined request/expected-response assertions
+ * stored with a service against its live endpoint
+ */
+
+import axios from 'axios';
+import { Service, SmokeTest, TestCase } from '../types';
+import { logger } from '../utils/logger';
+import { resolveLocalRef, validateAgainstSchema } from '../utils/json-schema';
+
+const MAX_REPORTED_ERRORS = 5;
+
+export interface SmokeTestOptions {
+  timeoutMs?: number;
+}
+
+export class SmokeTestRunner {
+  private readonly timeoutMs: number;
+
+  constructor(options: SmokeTestOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? parseInt(process.env.TEST_TIMEOUT_MS || '30000', 10);
+  }
+
+  /**
+   * Run every smoke test declared on the service, one test case each
+   */
+  async run(service: Service): Promise<TestCase[]> {
+    const smokeTests = service.smokeTests || [];
+    if (smokeTests.length === 0) {
+      return [];
+    }
+
+    logger.info('Running provider smoke tests', {
+      serviceId: service.id,
+      count: smokeTests.length,
+    });
+
+    const tests: TestCase[] = [];
+    for (const smokeTest of smokeTests) {
+      tests.push(await this.runSmokeTest(service, smokeTest));
+    }
+
+    return tests;
+  }
+
+  private async runSmokeTest(service: Service, smokeTest: SmokeTest): Promise<TestCase> {
+    const name = `Smoke: ${smokeTest.name}`;
+    const startTime = Date.now();
+
+    try {
+      const response = await axios.request({
+        method: smokeTest.request.method,
+        url: `${service.endpoint.url.replace(/\/+$/, '')}${smokeTest.request.path}`,
+        params: smokeTest.request.query,
+        headers: smokeTest.request.headers,
+        data: smokeTest.request.body,
+        timeout: this.timeoutMs,
+        validateStatus: () => true,
+      });
+
+      const duration = Date.now() - startTime;
+      const failures = this.checkExpectations(smokeTest, response.status, response.headers, response.data, duration);
+
+      if (failures.length > 0) {
+        return {
+          name,
+          status: 'failed',
+          duration,
+          error: failures.slice(0, MAX_REPORTED_ERRORS).join('; '),
+        };
+      }
+
+      return { name, status: 'passed', duration };
+    } catch (error) {
+      return {
+        name,
+        status: 'failed',
+        duration: Date.now() - startTime,
+        error: `Request failed: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  private checkExpectations(
+    smokeTest: SmokeTest,
+    status: number,
+    headers: Record<string, unknown>,
+    body: unknown,
+    duration: number
+  ): string[] {
+    const { expect } = smokeTest;
+    const failures: string[] = [];
+
+    if (status !== expect.status) {
+      failures.push(`Expected status ${expect.status}, got ${status}`);
+    }
+
+    for (const [header, expected] of Object.entries(expect.headers || {})) {
+      const actual = headers[header.toLowerCase()];
+      if (actual === undefined || !String(actual).includes(expected)) {
+        failures.push(`Expected header ${header} to contain "${expected}", got "${actual ?? ''}"`);
+      }
+    }
+
+    if (expect.body !== undefined) {
+      failures.push(...this.matchBody(body, expect.body, ''));
+    }
+
+    if (expect.bodySchema) {
+      const schema = expect.bodySchema;
+      const errors = validateAgainstSchema(body, schema, (ref) => resolveLocalRef(schema, ref));
+      failures.push(...errors.map((error) => `Response body does not match schema: ${error}`));
+    }
+
+    if (expect.maxLatencyMs !== undefined && duration > expect.maxLatencyMs) {
+      failures.push(`Response time ${duration}ms exceeds ${expect.maxLatencyMs}ms`);
+    }
+
+    return failures;
+  }
+
+  /**
+   * Partial deep match: every key in the expected object must be present in
+   * the actual body, while extra keys in the response are ignored
+   */
+  private matchBody(actual: unknown, expected: unknown, pointer: string): string[] {
+    const at = pointer || '/';
+
+    if (Array.isArray(expected)) {
+      if (!Array.isArray(actual) || actual.length !== expected.length) {
+        return [`${at}: expected array of length ${expected.length}`];
+      }
+      return expected.flatMap((item, index) => this.matchBody(actual[index], item, `${pointer}/${index}`));
+    }
+
+    if (expected !== null && typeof expected === 'object') {
+      if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+        return [`${at}: expected object`];
+      }
+      return Object.entries(expected as Record<string, unknown>).flatMap(([key, value]) =>
+        this.matchBody((actual as Record<string, unknown>)[key], value, `${pointer}/${key}`)
+      );
+    }
+
+    return actual === expected
+      ? []
+      : [`${at}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * SSO Service
+ * OIDC single sign-on per tenant: connection management, the
+ * authorization-code flow with PKCE and just-in-time user provisioning
+ */
+
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { config } from '../config';
+import { logAuth, logAudit } from '../common/logger';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ExternalServiceError,
+  NotFoundError,
+} from '../common/errors';
+import { consumeCacheJSON, deleteCache, getCacheJSON, setCacheJSON } from '../common/redis';
+import { fetchTenant, isTenantServiceConfigured } from '../common/tenants';
+import {
+  OidcDiscoveryDocument,
+  OidcIdTokenClaims,
+  buildAuthorizationUrl,
+  createPkcePair,
+  discoveryUrlForIssuer,
+  exchangeAuthorizationCode,
+  fetchDiscoveryDocument,
+  randomToken,
+  verifyIdToken,
+} from '../common/oidc';
+import {
+  SsoConnection,
+  SsoConnectionDTO,
+  extractGroups,
+  resolveRoleFromGroups,
+  ssoCallbackSchema,
+  ssoConnectionSchema,
+  toSsoConnectionDTO,
+} from '../models/sso.model';
+import { AuthResponse, User, UserStatus } from '../models/user.model';
+import * as ssoRepository from '../repositories/sso.repository';
+import * as userRepository from '../repositories/user.repository';
+import { startSession } from './auth.service';
+
+/**
+ * Login state kept in Redis between the redirect and the callback
+ */
+interface SsoLoginState {
+  tenantId: string;
+  codeVerifier: string;
+  nonce: string;
+}
+
+/**
+ * Create or replace a tenant's SSO connection. The provider's discovery
+ * document is fetched up front so misconfiguration fails here, not at login.
+ */
+export async function saveConnection(
+  actorId: string,
+  tenantId: string,
+  input: unknown
+): Promise<SsoConnectionDTO> {
+  const validated = ssoConnectionSchema.parse(input);
+
+  await assertSsoFeature(tenantId);
+
+  const discoveryUrl = validated.discoveryUrl ?? discoveryUrlForIssuer(validated.issuer);
+  const document = await fetchDiscoveryDocument(discoveryUrl, config.sso.httpTimeout);
+
+  if (document.issuer !== validated.issuer) {
+    throw new ExternalServiceError('OIDC provider', 'Discovery document issuer does not match', undefined, {
+      expected: validated.issuer,
+      actual: document.issuer,
+    });
+  }
+
+  const connection = await ssoRepository.upsertConnection(tenantId, validated);
+  await deleteCache(discoveryCacheKey(tenantId));
+
+  logAudit('sso_connection_saved', actorId, 'sso_connection', connection.id, {
+    tenantId,
+    issuer: connection.issuer,
+    enabled: connection.enabled,
+  });
+
+  return toSsoConnectionDTO(connection);
+}
+
+/**
+ * List all SSO connections
+ */
+export async function listConnections(): Promise<SsoConnectionDTO[]> {
+  const connections = await ssoRepository.listConnections();
+  return connections.map(toSsoConnectionDTO);
+}
+
+/**
+ * Get a tenant's SSO connection
+ */
+export async function getConnection(tenantId: string): Promise<SsoConnectionDTO> {
+  const connection = await ssoRepository.findConnectionByTenant(tenantId);
+
+  if (!connection) {
+    throw new NotFoundError('SSO connection', tenantId);
+  }
+
+  return toSsoConnectionDTO(connection);
+}
+
+/**
+ * Delete a tenant's SSO connection. Linked users keep their accounts.
+ */
+export async function deleteConnection(actorId: string, tenantId: string): Promise<void> {
+  const deleted = await ssoRepository.deleteConnection(tenantId);
+
+  if (!deleted) {
+    throw new NotFoundError('SSO connection', tenantId);
+  }
+
+  await deleteCache(discoveryCacheKey(tenantId));
+
+  logAudit('sso_connection_deleted', actorId, 'sso_connection', tenantId);
+}
+
+/**
+ * Start an SSO login and return the provider's authorization URL
+ */
+export async function startLogin(tenantId: string): Promise<string> {
+  const connection = await getEnabledConnection(tenantId);
+  await assertSsoFeature(tenantId);
+
+  const document = await getDiscoveryDocument(connection);
+  const { codeVerifier, codeChallenge } = createPkcePair();
+  const state = randomToken();
+  const nonce = randomToken();
+
+  await setCacheJSON<SsoLoginState>(
+    stateCacheKey(state),
+    { tenantId, codeVerifier, nonce },
+    config.sso.stateTtlSeconds
+  );
+
+  return buildAuthorizationUrl(document, clientSettings(connection), {
+    scopes: connection.scopes,
+    state,
+    nonce,
+    codeChallenge,
+  });
+}
+
+/**
+ * Complete an SSO login from the provider's callback: exchange the code,
+ * verify the ID token, provision the user and start a session
+ */
+export async function completeLogin(
+  tenantId: string,
+  params: Record<string, unknown>,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<AuthResponse> {
+  if (typeof params.error === 'string') {
+    logAuth('login', undefined, false);
+    throw new AuthenticationError(`Identity provider returned ${params.error}`, {
+      description: params.error_description,
+    });
+  }
+
+  const { code, state } = ssoCallbackSchema.parse(params);
+
+  // State is single-use and bound to the tenant the login started for
+  const loginState = await consumeCacheJSON<SsoLoginState>(stateCacheKey(state));
+  if (!loginState || loginState.tenantId !== tenantId) {
+    throw new AuthenticationError('Invalid or expired SSO state');
+  }
+
+  const connection = await getEnabledConnection(tenantId);
+  const document = await getDiscoveryDocument(connection);
+  const client = clientSettings(connection);
+
+  const tokens = await exchangeAuthorizationCode(document, client, {
+    code,
+    codeVerifier: loginState.codeVerifier,
+  });
+
+  const claims = await verifyIdToken(tokens.id_token, document, {
+    clientId: connection.clientId,
+    nonce: loginState.nonce,
+    timeoutMs: config.sso.httpTimeout,
+  });
+
+  const user = await provisionUser(connection, claims);
+
+  if (user.status !== UserStatus.ACTIVE) {
+    logAuth('login', user.id, false);
+    throw new AuthenticationError(`Account is ${user.status}`);
+  }
+
+  const response = await startSession(user, ipAddress, userAgent);
+
+  logAuth('login', user.id, true);
+  logAudit('user_sso_login', user.id, 'user', user.id, {
+    tenantId,
+    issuer: connection.issuer,
+    ipAddress,
+    userAgent,
+  });
+
+  return response;
+}
+
+/**
+ * Find or create the user for a verified ID token and sync their role from
+ * the IdP groups claim
+ */
+async function provisionUser(connection: SsoConnection, claims: OidcIdTokenClaims): Promise<User> {
+  const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : null;
+  const groups = extractGroups(claims, connection.groupsClaim);
+  const role = resolveRoleFromGroups(groups, connection.roleMappings, connection.defaultRole);
+
+  const identity = await ssoRepository.findIdentity(connection.id, claims.sub);
+
+  if (identity) {
+    const user = await userRepository.findById(identity.userId);
+    if (!user) {
+      throw new AuthenticationError('Linked user no longer exists');
+    }
+
+    await ssoRepository.touchIdentity(identity.id, email);
+    return syncRole(user, role, connection);
+  }
+
+  // Linking to or creating an account by email requires a verified address
+  if (!email || claims.email_verified !== true) {
+    throw new AuthenticationError('Identity provider did not return a verified email address');
+  }
+
+  let user = await userRepository.findByEmail(email);
+
+  if (user) {
+    logAudit('sso_identity_linked', user.id, 'user', user.id, {
+      tenantId: connection.tenantId,
+      subject: claims.sub,
+    });
+  } else {
+    user = await userRepository.create({
+      email,
+      // SSO users sign in through their IdP; the random password is never disclosed
+      passwordHash: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12),
+      firstName: nameClaim(claims.given_name, claims.name?.split(' ')[0], email.split('@')[0]),
+      lastName: nameClaim(claims.family_name, claims.name?.split(' ').slice(1).join(' '), '-'),
+      role,
+      emailVerified: true,
+    });
+
+    logAudit('user_provisioned', user.id, 'user', user.id, {
+      tenantId: connection.tenantId,
+      subject: claims.sub,
+      role,
+    });
+  }
+
+  await ssoRepository.createIdentity({
+    connectionId: connection.id,
+    subject: claims.sub,
+    userId: user.id,
+    email,
+  });
+
+  return syncRole(user, role, connection);
+}
+
+/**
+ * Apply the role resolved from IdP groups. The IdP is authoritative only when
+ * the connection has group mappings.
+ */
+async function syncRole(user: User, role: User['role'], connection: SsoConnection): Promise<User> {
+  if (Object.keys(connection.roleMappings).length === 0 || user.role === role) {
+    return user;
+  }
+
+  const updated = await userRepository.update(user.id, { role });
+
+  logAudit('user_role_synced', user.id, 'user', user.id, {
+    tenantId: connection.tenantId,
+    previousRole: user.role,
+    role,
+  });
+
+  return updated;
+}
+
+async function getEnabledConnection(tenantId: string): Promise<SsoConnection> {
+  const connection = await ssoRepository.findConnectionByTenant(tenantId);
+
+  if (!connection || !connection.enabled) {
+    throw new NotFoundError('SSO connection', tenantId);
+  }
+
+  return connection;
+}
+
+/**
+ * Discovery documents are cached in Redis per tenant
+ */
+async function getDiscoveryDocument(connection: SsoConnection): Promise<OidcDiscoveryDocument> {
+  const cacheKey = discoveryCacheKey(connection.tenantId);
+  const cached = await getCacheJSON<OidcDiscoveryDocument>(cacheKey);
+
+  if (cached) {
+    return cached;
+  }
+
+  const document = await fetchDiscoveryDocument(
+    connection.discoveryUrl ?? discoveryUrlForIssuer(connection.issuer),
+    config.sso.httpTimeout
+  );
+
+  await setCacheJSON(cacheKey, document, config.sso.discoveryCacheTtlSeconds);
+
+  return document;
+}
+
+/**
+ * Check the tenant's `ssoIntegration` feature flag with the tenant management
+ * service. Skipped when no tenant service is configured.
+ */
+async function assertSsoFeature(tenantId: string): Promise<void> {
+  if (!isTenantServiceConfigured()) {
+    return;
+  }
+
+  const tenant = await fetchTenant(tenantId);
+
+  if (!tenant) {
+    throw new NotFoundError('Tenant', tenantId);
+  }
+
+  if (!tenant.features?.ssoIntegration) {
+    throw new AuthorizationError('SSO is not available on this tenant plan', { tenantId });
+  }
+}
+
+function clientSettings(connection: SsoConnection) {
+  return {
+    clientId: connection.clientId,
+    clientSecret: connection.clientSecret,
+    redirectUri: connection.redirectUri,
+    timeoutMs: config.sso.httpTimeout,
+  };
+}
+
+function nameClaim(...candidates: Array<string | undefined>): string {
+  const name = candidates.find((candidate) => candidate && candidate.trim().length > 0) as string;
+  return name.trim().substring(0, 100);
+}
+
+function stateCacheKey(state: string): string {
+  return `sso:state:${state}`;
+}
+
+function discoveryCacheKey(tenantId: string): string {
+  return `sso:discovery:${tenantId}`;
+}
@@ -0,0 +1,214 @@
+/**
+ * Team Service
+ * Team management, membership and ownership-based access to services
+ */
+
+import { logAudit } from '../common/logger';
+import { AuthorizationError, ConflictError, NotFoundError } from '../common/errors';
+import {
+  Actor,
+  ServiceAction,
+  ServiceOwnership,
+  Team,
+  TeamMember,
+  TeamRole,
+  canPerformServiceAction,
+  createTeamSchema,
+  keepsAnOwner,
+  teamMemberSchema,
+  updateTeamSchema,
+} from '../models/team.model';
+import { Service } from '../models/service.model';
+import { UserRole } from '../models/user.model';
+import * as teamRepository from '../repositories/team.repository';
+import * as userRepository from '../repositories/user.repository';
+
+/**
+ * Create a team. The creator becomes its first owner.
+ */
+export async function createTeam(actor: Actor, input: unknown): Promise<Team> {
+  const validated = createTeamSchema.parse(input);
+
+  if (await teamRepository.findBySlug(validated.slug)) {
+    throw new ConflictError(`Team ${validated.slug} already exists`);
+  }
+
+  const team = await teamRepository.create(validated, actor.id);
+
+  logAudit('team_created', actor.id, 'team', team.id, { slug: team.slug });
+
+  return team;
+}
+
+/**
+ * List the teams the user belongs to
+ */
+export async function listTeams(actor: Actor): Promise<Array<Team & { role: TeamRole }>> {
+  return teamRepository.findByMember(actor.id);
+}
+
+/**
+ * Get a team with its members. Visible to members and admins.
+ */
+export async function getTeam(actor: Actor, teamId: string): Promise<Team & { members: TeamMember[] }> {
+  const team = await getExistingTeam(teamId);
+  await assertTeamRole(actor, teamId, TeamRole.VIEWER);
+
+  return { ...team, members: await teamRepository.findMembers(teamId) };
+}
+
+/**
+ * Update a team's name or description (team owners)
+ */
+export async function updateTeam(actor: Actor, teamId: string, input: unknown): Promise<Team> {
+  const validated = updateTeamSchema.parse(input);
+
+  await getExistingTeam(teamId);
+  await assertTeamRole(actor, teamId, TeamRole.OWNER);
+
+  const team = await teamRepository.update(teamId, validated);
+
+  logAudit('team_updated', actor.id, 'team', teamId, { changes: Object.keys(validated) });
+
+  return team;
+}
+
+/**
+ * Delete a team (team owners). Its services must be transferred first.
+ */
+export async function deleteTeam(actor: Actor, teamId: string): Promise<void> {
+  await getExistingTeam(teamId);
+  await assertTeamRole(actor, teamId, TeamRole.OWNER);
+
+  const serviceCount = await teamRepository.countServices(teamId);
+  if (serviceCount > 0) {
+    throw new ConflictError(`Team still owns ${serviceCount} service(s); transfer them before deleting the team`);
+  }
+
+  await teamRepository.deleteTeam(teamId);
+
+  logAudit('team_deleted', actor.id, 'team', teamId);
+}
+
+/**
+ * Add a member or change their role (team owners). A team always keeps at
+ * least one owner.
+ */
+export async function setMember(
+  actor: Actor,
+  teamId: string,
+  userId: string,
+  input: unknown
+): Promise<TeamMember[]> {
+  const { role } = teamMemberSchema.parse(input);
+
+  await getExistingTeam(teamId);
+  await assertTeamRole(actor, teamId, TeamRole.OWNER);
+
+  if (!(await userRepository.findById(userId))) {
+    throw new NotFoundError('User', userId);
+  }
+
+  const members = await teamRepository.findMembers(teamId);
+  if (!keepsAnOwner(members, userId, role)) {
+    throw new ConflictError('A team must keep at least one owner');
+  }
+
+  const previousRole = members.find((member) => member.userId === userId)?.role ?? null;
+  await teamRepository.upsertMember(teamId, userId, role, actor.id);
+
+  logAudit(previousRole ? 'team_member_role_changed' : 'team_member_added', actor.id, 'team', teamId, {
+    userId,
+    role,
+    previousRole,
+  });
+
+  return teamRepository.findMembers(teamId);
+}
+
+/**
+ * Remove a member (team owners, or members leaving). A team always keeps at
+ * least one owner.
+ */
+export async function removeMember(actor: Actor, teamId: string, userId: string): Promise<void> {
+  await getExistingTeam(teamId);
+
+  if (userId !== actor.id) {
+    await assertTeamRole(actor, teamId, TeamRole.OWNER);
+  }
+
+  const members = await teamRepository.findMembers(teamId);
+  if (!members.some((member) => member.userId === userId)) {
+    throw new NotFoundError('Team member', userId);
+  }
+
+  if (!keepsAnOwner(members, userId, null)) {
+    throw new ConflictError('A team must keep at least one owner');
+  }
+
+  await teamRepository.removeMember(teamId, userId);
+
+  logAudit('team_member_removed', actor.id, 'team', teamId, { userId });
+}
+
+/**
+ * Check that the user may perform an action on a service
+ */
+export async function assertServiceAccess(
+  actor: Actor,
+  service: Pick<Service, 'id' | 'provider' | 'ownerTeam'>,
+  action: ServiceAction
+): Promise<void> {
+  const ownership: ServiceOwnership = {
+    providerId: service.provider.id,
+    ownerTeamId: service.ownerTeam?.id ?? null,
+  };
+
+  const teamRole =
+    ownership.ownerTeamId && actor.role !== UserRole.ADMIN
+      ? await teamRepository.findMemberRole(ownership.ownerTeamId, actor.id)
+      : null;
+
+  if (!canPerformServiceAction({ ...actor, teamRole }, ownership, action)) {
+    throw new AuthorizationError(
+      ownership.ownerTeamId
+        ? `Your role in the owning team does not allow ${action} on this service`
+        : `Only the service owner can ${action} this service`,
+      { serviceId: service.id, action }
+    );
+  }
+}
+
+/**
+ * Check that the user holds at least `minimum` in a team. Admins always pass.
+ */
+export async function assertTeamRole(actor: Actor, teamId: string, minimum: TeamRole): Promise<void> {
+  if (actor.role === UserRole.ADMIN) {
+    return;
+  }
+
+  const rank: Record<TeamRole, number> = {
+    [TeamRole.OWNER]: 3,
+    [TeamRole.MAINTAINER]: 2,
+    [TeamRole.VIEWER]: 1,
+  };
+
+  const role = await teamRepository.findMemberRole(teamId, actor.id);
+
+  if (!role || rank[role] < rank[minimum]) {
+    throw new AuthorizationError(`Requires ${minimum} role or higher in this team`, { teamId });
+  }
+}
+
+/**
+ * Get a team or throw NotFoundError
+ */
+export async function getExistingTeam(teamId: string): Promise<Team> {
+  const team = await teamRepository.findById(teamId);
+
+  if (!team) {
+    throw new NotFoundError('Team', teamId);
+  }
+
+  return team;
+}
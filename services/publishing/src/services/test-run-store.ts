@@ -0,0 +1,73 @@
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../config/database';
+import { Service, TestResult, TestRunRecord, TestRunTrigger } from '../types';
+
+/**
+ * Postgres-backed history of test runs, recorded both by the publishing
+ * workflow and by on-demand runs requested by the provider
+ */
+export class TestRunStore {
+  async recordRun(
+    service: Service,
+    trigger: TestRunTrigger,
+    result: TestResult,
+    triggeredBy?: string
+  ): Promise<TestRunRecord> {
+    const record: TestRunRecord = {
+      id: uuidv4(),
+      serviceId: service.id,
+      serviceVersion: service.version,
+      trigger,
+      triggeredBy,
+      passed: result.passed,
+      result,
+      createdAt: new Date(),
+    };
+
+    await pool.query(
+      `INSERT INTO service_test_runs (
+        id, service_id, service_version, trigger, triggered_by, passed, result, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        record.id,
+        record.serviceId,
+        record.serviceVersion,
+        record.trigger,
+        record.triggeredBy || null,
+        record.passed,
+        JSON.stringify(record.result),
+        record.createdAt,
+      ]
+    );
+
+    return record;
+  }
+
+  /**
+   * List past runs for a service, newest first
+   */
+  async listRuns(serviceId: string, limit: number = 20): Promise<TestRunRecord[]> {
+    const result = await pool.query(
+      `SELECT * FROM service_test_runs
+       WHERE service_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [serviceId, limit]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  private mapRow(row: Record<string, unknown>): TestRunRecord {
+    return {
+      id: row.id as string,
+      serviceId: row.service_id as string,
+      serviceVersion: row.service_version as string,
+      trigger: row.trigger as TestRunTrigger,
+      triggeredBy: (row.triggered_by as string | null) || undefined,
+      passed: row.passed as boolean,
+      result: (typeof row.result === 'string' ? JSON.parse(row.result) : row.result) as TestResult,
+      createdAt: row.created_at as Date,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Webhook Delivery Worker
+ * Periodically retries failed webhook deliveries once their backoff has
+ * elapsed. Retry state lives in Postgres, so pending retries survive restarts.
+ */
+
+import { WebhookDispatcher } from './webhook-dispatcher';
+import { logger } from '../utils/logger';
+
+export interface WebhookDeliveryWorkerOptions {
+  intervalMs?: number;
+  batchSize?: number;
+}
+
+export class WebhookDeliveryWorker {
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+  private readonly webhookDispatcher: WebhookDispatcher;
+  private timer?: NodeJS.Timeout;
+  private cycleInProgress: boolean = false;
+
+  constructor(options: WebhookDeliveryWorkerOptions = {}) {
+    this.intervalMs = options.intervalMs ?? parseInt(process.env.WEBHOOK_DELIVERY_INTERVAL_MS || '10000', 10);
+    this.batchSize = options.batchSize ?? parseInt(process.env.WEBHOOK_DELIVERY_BATCH_SIZE || '50', 10);
+    this.webhookDispatcher = new WebhookDispatcher();
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info('Starting webhook delivery worker', { intervalMs: this.intervalMs });
+
+    this.timer = setInterval(() => {
+      this.runCycle().catch((error) => {
+        logger.error('Webhook delivery cycle failed', { error });
+      });
+    }, this.intervalMs);
+
+    // Do not keep the process alive just for retries
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Webhook delivery worker stopped');
+    }
+  }
+
+  async runCycle(): Promise<void> {
+    if (this.cycleInProgress) {
+      return;
+    }
+
+    this.cycleInProgress = true;
+
+    try {
+      const attempted = await this.webhookDispatcher.processDue(this.batchSize);
+
+      if (attempted > 0) {
+        logger.info('Retried webhook deliveries', { count: attempted });
+      }
+    } finally {
+      this.cycleInProgress = false;
+    }
+  }
+}
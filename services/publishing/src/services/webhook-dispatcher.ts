@@ -0,0 +1,212 @@
+/**
+ * Webhook Dispatcher
+ * Fans lifecycle events out to provider webhook subscriptions, signs each
+ * delivery and schedules retries with exponential backoff
+ */
+
+import http from 'http';
+import https from 'https';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookDelivery, WebhookEvent, WebhookPayload, WebhookSubscription } from '../types';
+import { WebhookStore } from './webhook-store';
+import { TenantClient } from '../integrations/tenant-client';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from '../utils/webhook-signature';
+import { assertPublicHost, publicAddressLookup } from '../utils/public-address';
+import { logger } from '../utils/logger';
+
+const MAX_RESPONSE_BODY_LENGTH = 1024;
+
+// Agents that only connect to public addresses, whatever DNS says by then
+const publicHttpAgent = new http.Agent({ lookup: publicAddressLookup });
+const publicHttpsAgent = new https.Agent({ lookup: publicAddressLookup });
+
+export interface WebhookDispatcherOptions {
+  maxAttempts?: number;
+  /** Delay before the first retry; doubled for every further attempt */
+  retryBaseMs?: number;
+  timeoutMs?: number;
+  /** How long a claimed delivery is hidden from other workers */
+  leaseMs?: number;
+  /** Deliver to loopback and private network endpoints, for local development */
+  allowPrivateAddresses?: boolean;
+}
+
+export class WebhookDispatcher {
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly timeoutMs: number;
+  private readonly leaseMs: number;
+  private readonly allowPrivateAddresses: boolean;
+  private readonly webhookStore: WebhookStore;
+  private readonly tenantClient: TenantClient;
+
+  constructor(options: WebhookDispatcherOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+    this.retryBaseMs = options.retryBaseMs ?? parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000', 10);
+    this.timeoutMs = options.timeoutMs ?? parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+    this.leaseMs = options.leaseMs ?? Math.max(this.timeoutMs * 2, 60000);
+    this.allowPrivateAddresses = options.allowPrivateAddresses ?? process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES === 'true';
+    this.webhookStore = new WebhookStore();
+    this.tenantClient = new TenantClient();
+  }
+
+  /**
+   * Queue an event for every active subscription of the provider, or of one
+   * of its tenants, that wants it and make the first attempts in the
+   * background. Never throws: webhook failures shouldn't break the lifecycle
+   * operation that raised the event.
+   */
+  async dispatch(providerId: string, event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    try {
+      const tenantIds = await this.getTenantIds(providerId);
+      const subscriptions = await this.webhookStore.findSubscribers(providerId, tenantIds, event);
+
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const payload: WebhookPayload = { id: uuidv4(), event, timestamp: new Date(), data };
+
+      for (const subscription of subscriptions) {
+        const delivery = await this.webhookStore.createDelivery(subscription.id, payload, this.leaseMs);
+
+        this.deliver(delivery, subscription).catch((error) => {
+          logger.error('Webhook delivery failed', { deliveryId: delivery.id, error });
+        });
+      }
+
+      logger.debug('Webhook event dispatched', {
+        event,
+        providerId,
+        subscriptions: subscriptions.length,
+      });
+    } catch (error) {
+      logger.error('Failed to dispatch webhook event', { event, providerId, error });
+    }
+  }
+
+  /**
+   * The provider's tenants. Without them its own webhooks still get the
+   * event; only the tenant-wide ones miss it.
+   */
+  private async getTenantIds(providerId: string): Promise<string[]> {
+    try {
+      return await this.tenantClient.getUserTenantIds(providerId);
+    } catch (error) {
+      logger.warn('Dispatching webhook event without tenant webhooks', { providerId, error });
+      return [];
+    }
+  }
+
+  /**
+   * Queue a single delivery and attempt it right away, for pings and replays
+   */
+  async send(
+    subscription: WebhookSubscription,
+    payload: WebhookPayload,
+    replayOf?: string
+  ): Promise<WebhookDelivery> {
+    const delivery = await this.webhookStore.createDelivery(subscription.id, payload, this.leaseMs, replayOf);
+    return this.deliver(delivery, subscription);
+  }
+
+  /**
+   * Make one delivery attempt and record its outcome, scheduling a retry if
+   * it failed and attempts remain. The endpoint's address is checked again on
+   * every attempt, since the host may resolve differently than when the
+   * webhook was registered.
+   */
+  async deliver(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+    let responseStatus: number | undefined;
+    let responseBody: string | undefined;
+    let error: string | undefined;
+
+    try {
+      if (!this.allowPrivateAddresses) {
+        await assertPublicHost(new URL(subscription.url).hostname);
+      }
+
+      const response = await axios.post<string>(subscription.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'LLM-Marketplace-Webhooks/1.0',
+          'X-Marketplace-Event': delivery.event,
+          'X-Marketplace-Delivery': delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, timestamp, body),
+        },
+        timeout: this.timeoutMs,
+        maxRedirects: 0,
+        ...(this.allowPrivateAddresses ? {} : { httpAgent: publicHttpAgent, httpsAgent: publicHttpsAgent }),
+        responseType: 'text',
+        transformResponse: (data) => data,
+        validateStatus: () => true,
+      });
+
+      responseStatus = response.status;
+      responseBody = String(response.data ?? '').slice(0, MAX_RESPONSE_BODY_LENGTH);
+
+      if (response.status < 200 || response.status >= 300) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = (err as Error).message;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const status = !error ? 'succeeded' : attempts >= this.maxAttempts ? 'failed' : 'pending';
+
+    if (error) {
+      logger.warn('Webhook delivery attempt failed', {
+        deliveryId: delivery.id,
+        webhookId: subscription.id,
+        attempts,
+        error,
+      });
+    }
+
+    return this.webhookStore.recordAttempt(delivery.id, {
+      status,
+      attempts,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - startTime,
+      nextAttemptAt: status === 'pending'
+        ? new Date(Date.now() + this.retryBaseMs * Math.pow(2, attempts - 1))
+        : undefined,
+    });
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed. Returns how many were attempted.
+   */
+  async processDue(limit: number): Promise<number> {
+    const deliveries = await this.webhookStore.claimDue(limit, this.leaseMs);
+
+    for (const delivery of deliveries) {
+      try {
+        const subscription = await this.webhookStore.getSubscription(delivery.webhookId);
+
+        if (!subscription || !subscription.active) {
+          await this.webhookStore.recordAttempt(delivery.id, {
+            status: 'failed',
+            attempts: delivery.attempts,
+            error: 'Webhook is disabled',
+            durationMs: 0,
+          });
+          continue;
+        }
+
+        await this.deliver(delivery, subscription);
+      } catch (error) {
+        logger.error('Webhook retry failed', { deliveryId: delivery.id, error });
+      }
+    }
+
+    return deliveries.length;
+  }
+}
@@ -0,0 +1,217 @@
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookSubscription,
+} from '../types';
+import { WebhookStore } from './webhook-store';
+import { WebhookDispatcher } from './webhook-dispatcher';
+import { TenantClient } from '../integrations/tenant-client';
+import { generateWebhookSecret } from '../utils/webhook-signature';
+import { assertPublicHost } from '../utils/public-address';
+import { logger } from '../utils/logger';
+
+export type WebhookView = Omit<WebhookSubscription, 'secret'>;
+
+const subscribableEvents = Object.values(WebhookEvent).filter((event) => event !== WebhookEvent.PING) as [
+  WebhookEvent,
+  ...WebhookEvent[]
+];
+
+const webhookUrlSchema = z
+  .string()
+  .url()
+  .refine(
+    (url) => {
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        return false;
+      }
+
+      // Plain HTTP is only allowed outside production
+      if (process.env.NODE_ENV !== 'production') {
+        return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+      }
+
+      return parsed.protocol === 'https:';
+    },
+    { message: 'Webhook URL must use HTTPS' }
+  )
+  .superRefine(async (url, ctx) => {
+    // Loopback and private network endpoints need an explicit opt-in
+    if (process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES === 'true' || !URL.canParse(url)) {
+      return;
+    }
+
+    try {
+      await assertPublicHost(new URL(url).hostname);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `must point to a public address (${(error as Error).message})`,
+      });
+    }
+  });
+
+const webhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(z.enum(subscribableEvents)).min(1),
+  description: z.string().max(500).optional(),
+  tenantId: z.string().uuid().optional(),
+});
+
+// A webhook's scope is fixed; register a new one to change it
+const webhookUpdateSchema = webhookSchema.omit({ tenantId: true }).partial().extend({
+  active: z.boolean().optional(),
+});
+
+/**
+ * Manage a provider's webhook subscriptions and inspect their deliveries
+ */
+export class WebhookService {
+  private readonly webhookStore: WebhookStore;
+  private readonly webhookDispatcher: WebhookDispatcher;
+  private readonly tenantClient: TenantClient;
+
+  constructor() {
+    this.webhookStore = new WebhookStore();
+    this.webhookDispatcher = new WebhookDispatcher();
+    this.tenantClient = new TenantClient();
+  }
+
+  /**
+   * Register a webhook. With a `tenantId` it receives the events of every
+   * provider in that tenant, so the caller must be a member. The signing
+   * secret is returned only here.
+   */
+  async createWebhook(providerId: string, input: unknown): Promise<WebhookSubscription> {
+    const { url, events, description, tenantId } = await this.parse(webhookSchema, input);
+
+    if (tenantId && !(await this.tenantClient.getUserTenantIds(providerId)).includes(tenantId)) {
+      throw new Error('Unauthorized: You are not a member of this tenant');
+    }
+
+    const webhook = await this.webhookStore.createSubscription({
+      providerId,
+      tenantId,
+      url,
+      events: [...new Set(events)],
+      description,
+      secret: generateWebhookSecret(),
+    });
+
+    logger.info('Webhook registered', { webhookId: webhook.id, providerId, tenantId, events: webhook.events });
+
+    return webhook;
+  }
+
+  async listWebhooks(providerId: string): Promise<WebhookView[]> {
+    const webhooks = await this.webhookStore.listSubscriptions(providerId);
+    return webhooks.map((webhook) => this.toView(webhook));
+  }
+
+  async getWebhook(webhookId: string, providerId: string): Promise<WebhookView> {
+    return this.toView(await this.getOwnedWebhook(webhookId, providerId));
+  }
+
+  async updateWebhook(webhookId: string, providerId: string, input: unknown): Promise<WebhookView> {
+    await this.getOwnedWebhook(webhookId, providerId);
+    const updates = await this.parse(webhookUpdateSchema, input);
+
+    const webhook = await this.webhookStore.updateSubscription(webhookId, {
+      ...updates,
+      events: updates.events ? [...new Set(updates.events)] : undefined,
+    });
+
+    return this.toView(webhook);
+  }
+
+  async deleteWebhook(webhookId: string, providerId: string): Promise<void> {
+    await this.getOwnedWebhook(webhookId, providerId);
+    await this.webhookStore.deleteSubscription(webhookId);
+
+    logger.info('Webhook deleted', { webhookId, providerId });
+  }
+
+  /**
+   * Send a signed `webhook.ping` event and return the delivery outcome
+   */
+  async pingWebhook(webhookId: string, providerId: string): Promise<WebhookDelivery> {
+    const webhook = await this.getOwnedWebhook(webhookId, providerId);
+
+    return this.webhookDispatcher.send(webhook, {
+      id: uuidv4(),
+      event: WebhookEvent.PING,
+      timestamp: new Date(),
+      data: { webhookId: webhook.id },
+    });
+  }
+
+  async listDeliveries(
+    webhookId: string,
+    providerId: string,
+    options: { status?: string; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    await this.getOwnedWebhook(webhookId, providerId);
+
+    const status = options.status as WebhookDeliveryStatus | undefined;
+    if (status && !['pending', 'succeeded', 'failed'].includes(status)) {
+      throw new Error('Invalid status: must be pending, succeeded or failed');
+    }
+
+    const limit = Math.min(Math.max(options.limit || 50, 1), 200);
+    return this.webhookStore.listDeliveries(webhookId, { status, limit });
+  }
+
+  /**
+   * Re-send a logged delivery as a new delivery with the same payload (and
+   * event ID, so receivers can deduplicate)
+   */
+  async replayDelivery(webhookId: string, deliveryId: string, providerId: string): Promise<WebhookDelivery> {
+    const webhook = await this.getOwnedWebhook(webhookId, providerId);
+    const delivery = await this.webhookStore.getDelivery(deliveryId);
+
+    if (!delivery || delivery.webhookId !== webhookId) {
+      throw new Error('Delivery not found');
+    }
+
+    logger.info('Replaying webhook delivery', { webhookId, deliveryId });
+
+    return this.webhookDispatcher.send(webhook, delivery.payload, delivery.id);
+  }
+
+  private async getOwnedWebhook(webhookId: string, providerId: string): Promise<WebhookSubscription> {
+    const webhook = await this.webhookStore.getSubscription(webhookId);
+
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+
+    if (webhook.providerId !== providerId) {
+      throw new Error('Unauthorized: You do not own this webhook');
+    }
+
+    return webhook;
+  }
+
+  private async parse<T>(schema: z.ZodType<T>, input: unknown): Promise<T> {
+    const parsed = await schema.safeParseAsync(input);
+
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid webhook: ${parsed.error.errors.map((e) => `${e.path.join('.') || 'body'} ${e.message}`).join(', ')}`
+      );
+    }
+
+    return parsed.data;
+  }
+
+  private toView(webhook: WebhookSubscription): WebhookView {
+    const { secret: _secret, ...view } = webhook;
+    return view;
+  }
+}
@@ -0,0 +1,220 @@
+import { pool } from '../config/database';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookPayload,
+  WebhookSubscription,
+} from '../types';
+
+export interface WebhookAttemptOutcome {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+  nextAttemptAt?: Date;
+}
+
+/**
+ * Postgres-backed store of webhook subscriptions and their delivery log
+ */
+export class WebhookStore {
+  async createSubscription(
+    subscription: Pick<WebhookSubscription, 'providerId' | 'tenantId' | 'url' | 'events' | 'description' | 'secret'>
+  ): Promise<WebhookSubscription> {
+    const result = await pool.query(
+      `INSERT INTO webhook_subscriptions (provider_id, tenant_id, url, events, description, secret)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        subscription.providerId,
+        subscription.tenantId || null,
+        subscription.url,
+        subscription.events,
+        subscription.description || null,
+        subscription.secret,
+      ]
+    );
+
+    return this.mapSubscriptionRow(result.rows[0]);
+  }
+
+  async getSubscription(id: string): Promise<WebhookSubscription | null> {
+    const result = await pool.query('SELECT * FROM webhook_subscriptions WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapSubscriptionRow(result.rows[0]) : null;
+  }
+
+  async listSubscriptions(providerId: string): Promise<WebhookSubscription[]> {
+    const result = await pool.query(
+      'SELECT * FROM webhook_subscriptions WHERE provider_id = $1 ORDER BY created_at ASC',
+      [providerId]
+    );
+
+    return result.rows.map((row) => this.mapSubscriptionRow(row));
+  }
+
+  /**
+   * Active subscriptions that want an event of a provider: the provider's own
+   * webhooks and the tenant-wide webhooks of its tenants
+   */
+  async findSubscribers(providerId: string, tenantIds: string[], event: WebhookEvent): Promise<WebhookSubscription[]> {
+    const result = await pool.query(
+      `SELECT * FROM webhook_subscriptions
+       WHERE active AND $3 = ANY(events)
+         AND ((tenant_id IS NULL AND provider_id = $1) OR tenant_id = ANY($2::uuid[]))`,
+      [providerId, tenantIds, event]
+    );
+
+    return result.rows.map((row) => this.mapSubscriptionRow(row));
+  }
+
+  async updateSubscription(
+    id: string,
+    updates: Partial<Pick<WebhookSubscription, 'url' | 'events' | 'description' | 'active'>>
+  ): Promise<WebhookSubscription> {
+    const result = await pool.query(
+      `UPDATE webhook_subscriptions SET
+         url = COALESCE($2, url),
+         events = COALESCE($3, events),
+         description = COALESCE($4, description),
+         active = COALESCE($5, active),
+         updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, updates.url ?? null, updates.events ?? null, updates.description ?? null, updates.active ?? null]
+    );
+
+    return this.mapSubscriptionRow(result.rows[0]);
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await pool.query('DELETE FROM webhook_subscriptions WHERE id = $1', [id]);
+  }
+
+  /**
+   * Queue a delivery. It starts leased for `leaseMs`, so the retry worker
+   * leaves it alone while the caller makes the first attempt.
+   */
+  async createDelivery(
+    webhookId: string,
+    payload: WebhookPayload,
+    leaseMs: number,
+    replayOf?: string
+  ): Promise<WebhookDelivery> {
+    const result = await pool.query(
+      `INSERT INTO webhook_deliveries (webhook_id, event, payload, replay_of, next_attempt_at)
+       VALUES ($1, $2, $3, $4, NOW() + $5 * INTERVAL '1 millisecond')
+       RETURNING *`,
+      [webhookId, payload.event, JSON.stringify(payload), replayOf || null, leaseMs]
+    );
+
+    return this.mapDeliveryRow(result.rows[0]);
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    const result = await pool.query('SELECT * FROM webhook_deliveries WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapDeliveryRow(result.rows[0]) : null;
+  }
+
+  async listDeliveries(
+    webhookId: string,
+    options: { status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    const result = await pool.query(
+      `SELECT * FROM webhook_deliveries
+       WHERE webhook_id = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [webhookId, options.status ?? null, options.limit ?? 50]
+    );
+
+    return result.rows.map((row) => this.mapDeliveryRow(row));
+  }
+
+  /**
+   * Claim pending deliveries whose retry is due, leasing them so concurrent
+   * workers do not send the same delivery twice
+   */
+  async claimDue(limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    const result = await pool.query(
+      `UPDATE webhook_deliveries SET next_attempt_at = NOW() + $2 * INTERVAL '1 millisecond'
+       WHERE id IN (
+         SELECT id FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= NOW()
+         ORDER BY next_attempt_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, leaseMs]
+    );
+
+    return result.rows.map((row) => this.mapDeliveryRow(row));
+  }
+
+  async recordAttempt(id: string, outcome: WebhookAttemptOutcome): Promise<WebhookDelivery> {
+    const result = await pool.query(
+      `UPDATE webhook_deliveries SET
+         status = $2,
+         attempts = $3,
+         response_status = $4,
+         response_body = $5,
+         error = $6,
+         duration_ms = $7,
+         next_attempt_at = $8,
+         last_attempt_at = NOW(),
+         delivered_at = CASE WHEN $2 = 'succeeded' THEN NOW() ELSE NULL END
+       WHERE id = $1
+       RETURNING *`,
+      [
+        id,
+        outcome.status,
+        outcome.attempts,
+        outcome.responseStatus ?? null,
+        outcome.responseBody ?? null,
+        outcome.error ?? null,
+        outcome.durationMs,
+        outcome.nextAttemptAt ?? null,
+      ]
+    );
+
+    return this.mapDeliveryRow(result.rows[0]);
+  }
+
+  private mapSubscriptionRow(row: Record<string, unknown>): WebhookSubscription {
+    return {
+      id: row.id as string,
+      providerId: row.provider_id as string,
+      tenantId: (row.tenant_id as string | null) || undefined,
+      url: row.url as string,
+      events: row.events as WebhookEvent[],
+      description: (row.description as string | null) || undefined,
+      active: row.active as boolean,
+      secret: row.secret as string,
+      createdAt: row.created_at as Date,
+      updatedAt: row.updated_at as Date,
+    };
+  }
+
+  private mapDeliveryRow(row: Record<string, unknown>): WebhookDelivery {
+    return {
+      id: row.id as string,
+      webhookId: row.webhook_id as string,
+      event: row.event as WebhookEvent,
+      payload: (typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload) as WebhookPayload,
+      status: row.status as WebhookDeliveryStatus,
+      attempts: row.attempts as number,
+      responseStatus: (row.response_status as number | null) ?? undefined,
+      responseBody: (row.response_body as string | null) ?? undefined,
+      error: (row.error as string | null) || undefined,
+      durationMs: (row.duration_ms as number | null) ?? undefined,
+      replayOf: (row.replay_of as string | null) || undefined,
+      nextAttemptAt: (row.next_attempt_at as Date | null) || undefined,
+      lastAttemptAt: (row.last_attempt_at as Date | null) || undefined,
+      deliveredAt: (row.delivered_at as Date | null) || undefined,
+      createdAt: row.created_at as Date,
+    };
+  }
+}
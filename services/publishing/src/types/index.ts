@@ -16,7 +16,10 @@ export enum ServiceStatus {
   DEPRECATED = 'deprecated',
   SUSPENDED = 'suspended',
   RETIRED = 'retired',
-  FAILED_VALIDATION = 'failed_validation'
+  FAILED_VALIDATION = 'failed_validation',
+  /** Sent back to the provider by a reviewer; resubmitted as a draft */
+  CHANGES_REQUESTED = 'changes_requested',
+  DRAFT = 'draft'
 }
 
 export enum ServiceCategory {
@@ -131,6 +134,185 @@ export interface Service {
   status: ServiceStatus;
   metadata: ServiceMetadata;
   openApiSpec?: Record<string, unknown>;
+  smokeTests?: SmokeTest[];
+  grpcSpec?: GrpcSpec;
+  /** Present once the service has been deprecated */
+  deprecation?: ServiceDeprecation;
+}
+
+export type DeprecationStatus = 'scheduled' | 'retired';
+
+/**
+ * A deprecation with its grace period; the service is retired at `sunsetAt`
+ */
+export interface ServiceDeprecation {
+  serviceId: string;
+  reason: string;
+  /** Service consumers should migrate to */
+  successorServiceId: string;
+  successorVersion: string;
+  status: DeprecationStatus;
+  deprecatedAt: Date;
+  sunsetAt: Date;
+  consumersNotified: number;
+  notifiedAt?: Date;
+  retiredAt?: Date;
+}
+
+export interface DeprecationRequest {
+  reason: string;
+  successorServiceId: string;
+  gracePeriodDays?: number;
+}
+
+/**
+ * Protobuf description of a gRPC service, as uploaded by the provider
+ */
+export interface GrpcSpec {
+  /** `.proto` sources keyed by import path (e.g. `inference/v1/inference.proto`) */
+  protoFiles?: Record<string, string>;
+  /** Base64-encoded serialized `google.protobuf.FileDescriptorSet` */
+  fileDescriptorSet?: string;
+  /** Service name sent to `grpc.health.v1.Health/Check`; empty checks the whole server */
+  healthServiceName?: string;
+}
+
+export type ProtoFieldLabel = 'optional' | 'required' | 'repeated';
+
+export interface ProtoField {
+  name: string;
+  number: number;
+  label: ProtoFieldLabel;
+  /** Scalar type name or a (possibly relative) message/enum reference */
+  type: string;
+  /** Key type of `map<K, V>` fields; `type` holds the value type */
+  mapKeyType?: string;
+}
+
+export interface ProtoMessage {
+  fullName: string;
+  fields: ProtoField[];
+}
+
+export interface ProtoEnum {
+  fullName: string;
+  values: Array<{ name: string; number: number }>;
+}
+
+export interface ProtoMethod {
+  name: string;
+  inputType: string;
+  outputType: string;
+  clientStreaming: boolean;
+  serverStreaming: boolean;
+  comment?: string;
+}
+
+export interface ProtoService {
+  fullName: string;
+  methods: ProtoMethod[];
+  comment?: string;
+}
+
+export interface ProtoFile {
+  name: string;
+  package?: string;
+  syntax: 'proto2' | 'proto3';
+  dependencies: string[];
+  messages: ProtoMessage[];
+  enums: ProtoEnum[];
+  services: ProtoService[];
+}
+
+export type GrpcServingStatus = 'UNKNOWN' | 'SERVING' | 'NOT_SERVING' | 'SERVICE_UNKNOWN';
+
+export interface GrpcHealthCheckResult {
+  status: GrpcServingStatus;
+  /** gRPC status code of the call (0 = OK, 12 = UNIMPLEMENTED, ...) */
+  grpcStatus: number;
+  grpcMessage?: string;
+  latencyMs: number;
+}
+
+export interface SmokeTestRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface SmokeTestExpectation {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  bodySchema?: Record<string, unknown>;
+  maxLatencyMs?: number;
+}
+
+export interface SmokeTest {
+  name: string;
+  request: SmokeTestRequest;
+  expect: SmokeTestExpectation;
+}
+
+export enum ImportFormat {
+  SWAGGER_2 = 'swagger2',
+  POSTMAN_2_1 = 'postman',
+  ASYNCAPI_2 = 'asyncapi'
+}
+
+export interface ImportedService {
+  service: Partial<Service>;
+  warnings: string[];
+}
+
+export interface ServiceImportResult {
+  format: ImportFormat;
+  service: Partial<Service>;
+  validation: ValidationResult;
+  openApiValidation: ValidationResult;
+  warnings: string[];
+}
+
+/**
+ * Work in progress saved by a provider before submission. A draft either
+ * describes a new service (published under `serviceId`) or stages the next
+ * version of the published service `baseServiceId`.
+ */
+export interface ServiceDraft {
+  serviceId: string;
+  providerId: string;
+  baseServiceId?: string;
+  status: ServiceStatus;
+  spec: Partial<Service>;
+  /** Incremented on every autosave */
+  revision: number;
+  validation: ValidationResult;
+  /** Reviewer feedback, when the draft was sent back during approval */
+  changesRequested?: ApprovalChangeRequest;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type FieldChangeType = 'added' | 'removed' | 'modified';
+
+export interface FieldChange {
+  /** Dotted path of the changed field (e.g. `pricing.rates`) */
+  path: string;
+  type: FieldChangeType;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ServiceDraftDiff {
+  serviceId: string;
+  baseServiceId?: string;
+  fromVersion?: string;
+  toVersion?: string;
+  changes: FieldChange[];
+  /** OpenAPI contract changes, when both sides have a spec */
+  apiDiff?: ApiDiffReport;
 }
 
 export interface ValidationResult {
@@ -143,12 +325,104 @@ export interface ValidationError {
   field: string;
   message: string;
   code: string;
+  /** Rule that produced the error, when raised by the rule engine */
+  rule?: RuleReference;
+  /** Rule pack the rule was evaluated from */
+  pack?: RuleReference;
 }
 
 export interface ValidationWarning {
   field: string;
   message: string;
   code: string;
+  rule?: RuleReference;
+  pack?: RuleReference;
+}
+
+export interface RuleReference {
+  id: string;
+  version: string;
+}
+
+export type RuleSeverity = 'error' | 'warning';
+
+/**
+ * A rule as referenced from a pack. `version` is a semver range; the newest
+ * registered version satisfying it is used.
+ */
+export interface RulePackEntry {
+  rule: string;
+  version?: string;
+  /** Overrides the rule's default severity */
+  severity?: RuleSeverity;
+  options?: Record<string, unknown>;
+}
+
+export interface RulePackDefinition {
+  id: string;
+  version: string;
+  description?: string;
+  rules: RulePackEntry[];
+}
+
+/**
+ * Applies a pack to services of a tenant, of a category, or both. An
+ * assignment with neither applies to every service.
+ */
+export interface RulePackAssignment {
+  pack: string;
+  /** Semver range of the pack; the newest matching version is used */
+  version?: string;
+  tenantId?: string;
+  category?: ServiceCategory;
+}
+
+export interface RulePackConfig {
+  packs: RulePackDefinition[];
+  assignments: RulePackAssignment[];
+}
+
+export interface ValidationContext {
+  /** Tenants the service's provider belongs to; packs assigned to any of them apply */
+  tenantIds?: string[];
+}
+
+export type ApiChangeKind =
+  | 'path-removed'
+  | 'path-added'
+  | 'operation-removed'
+  | 'operation-added'
+  | 'parameter-added'
+  | 'parameter-removed'
+  | 'parameter-required'
+  | 'parameter-retyped'
+  | 'request-body-required'
+  | 'request-field-required'
+  | 'request-field-retyped'
+  | 'enum-narrowed'
+  | 'enum-widened'
+  | 'response-removed'
+  | 'response-added'
+  | 'response-field-removed'
+  | 'response-field-added'
+  | 'response-field-retyped'
+  | 'security-changed';
+
+export interface ApiChange {
+  kind: ApiChangeKind;
+  breaking: boolean;
+  location: string;
+  message: string;
+}
+
+export interface ApiDiffReport {
+  serviceId?: string;
+  previousServiceId?: string;
+  fromVersion: string;
+  toVersion: string;
+  breaking: boolean;
+  changes: ApiChange[];
+  comparedAt: Date;
 }
 
 export interface PolicyValidationResult {
@@ -165,6 +439,79 @@ export interface PolicyViolation {
   remediation?: string;
 }
 
+/**
+ * What a policy is evaluated against: a service spec being published, a
+ * consumption request, or an access check
+ */
+export type PolicyTarget = 'service' | 'consumption' | 'access';
+
+export type PolicyOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'not_in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'exists'
+  | 'empty'
+  | 'contains'
+  | 'contains_any'
+  | 'starts_with'
+  | 'matches';
+
+/**
+ * A test of one field of the policy input (dot path, e.g.
+ * `service.compliance.level`), or a combination of tests
+ */
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { field: string; op: PolicyOperator; value?: unknown };
+
+/**
+ * A policy fires when its condition holds. Fired service policies are
+ * violations; a fired consumption or access policy denies the request.
+ */
+export interface PolicyDefinition {
+  id: string;
+  description?: string;
+  target: PolicyTarget;
+  severity: PolicyViolation['severity'];
+  when: PolicyCondition;
+  message: string;
+  remediation?: string;
+  enabled?: boolean;
+}
+
+export interface PolicyBundle {
+  id: string;
+  /** Semver; reported as `policyVersion` in validation results */
+  version: string;
+  description?: string;
+  policies: PolicyDefinition[];
+}
+
+export type PolicyBundleSource = 'builtin' | 'file' | 'database';
+
+export interface PolicyEvaluation {
+  policy: string;
+  fired: boolean;
+  severity: PolicyViolation['severity'];
+  message?: string;
+}
+
+export interface PolicyDryRunResult {
+  bundle: { id: string; version: string };
+  target: PolicyTarget;
+  /** Whether the spec is compliant, or the request allowed */
+  allowed: boolean;
+  fired: PolicyViolation[];
+  evaluations: PolicyEvaluation[];
+}
+
 export interface TestResult {
   passed: boolean;
   total: number;
@@ -181,6 +528,49 @@ export interface TestCase {
   error?: string;
 }
 
+export type TestRunTrigger = 'publishing' | 'manual';
+
+export interface TestRunRecord {
+  id: string;
+  serviceId: string;
+  serviceVersion: string;
+  trigger: TestRunTrigger;
+  triggeredBy?: string;
+  passed: boolean;
+  result: TestResult;
+  createdAt: Date;
+}
+
+export interface EndpointProbe {
+  serviceId: string;
+  available: boolean;
+  latencyMs: number;
+  statusCode?: number;
+  error?: string;
+  checkedAt: Date;
+}
+
+export interface SlaCompliance {
+  serviceId: string;
+  windowStart: Date;
+  totalChecks: number;
+  successfulChecks: number;
+  latencyBreaches: number;
+  consecutiveFailures: number;
+  availability: number;
+  targetAvailability: number;
+  averageLatencyMs: number;
+  compliant: boolean;
+}
+
+export interface ServiceHealthReport {
+  serviceId: string;
+  status: ServiceStatus;
+  suspensionReason?: string;
+  compliance: SlaCompliance;
+  recentChecks: EndpointProbe[];
+}
+
 export interface SecurityScanResult {
   passed: boolean;
   vulnerabilities: Vulnerability[];
@@ -221,19 +611,312 @@ export interface PublishingWorkflowContext {
   securityResult?: SecurityScanResult;
   benchmarkResult?: PerformanceBenchmark;
   approvalRequired: boolean;
-  approvalStatus?: 'pending' | 'approved' | 'rejected';
+  approvalStatus?: ApprovalStatus;
   registryId?: string;
+  /** Status the run left the service in; unset while the run is in progress */
+  status?: ServiceStatus;
   startTime: Date;
   endTime?: Date;
 }
 
+export enum PublishingStep {
+  VALIDATION = 'validation',
+  OPENAPI_VALIDATION = 'openapi_validation',
+  PROTOBUF_VALIDATION = 'protobuf_validation',
+  POLICY = 'policy',
+  REGISTRY = 'registry',
+  PERSISTENCE = 'persistence',
+  TESTS = 'tests',
+  SECURITY_SCAN = 'security_scan',
+  BENCHMARKS = 'benchmarks',
+  APPROVAL_REQUEST = 'approval_request',
+  APPROVAL = 'approval',
+  ACTIVATION = 'activation',
+  EVENTS = 'events'
+}
+
+/**
+ * `rolled_back` and `rollback_failed` are failed runs after their
+ * compensations ran, with every compensation succeeding or not
+ */
+export type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'rolled_back' | 'rollback_failed';
+
+export type WorkflowStepStatus = 'running' | 'completed' | 'failed' | 'compensated';
+
+export interface WorkflowStepRecord {
+  step: PublishingStep;
+  status: WorkflowStepStatus;
+  attempts: number;
+  result?: unknown;
+  error?: string;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export interface PublishingWorkflowRecord {
+  serviceId: string;
+  providerId: string;
+  serviceSpec: Partial<Service>;
+  status: WorkflowRunStatus;
+  currentStep?: PublishingStep;
+  error?: string;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export type CompensationStatus = 'compensated' | 'failed';
+
+/**
+ * Outcome of one compensating action run while rolling back a workflow
+ */
+export interface CompensationRecord {
+  step: PublishingStep;
+  /** e.g. `deregister_from_registry` */
+  action: string;
+  status: CompensationStatus;
+  attempts: number;
+  error?: string;
+  executedAt: Date;
+}
+
+export interface PublishingHistory {
+  serviceId: string;
+  status?: ServiceStatus;
+  workflow?: Omit<PublishingWorkflowRecord, 'serviceSpec'>;
+  steps: WorkflowStepRecord[];
+  compensations: CompensationRecord[];
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'changes_requested' | 'cancelled';
+
+/**
+ * Stages after the current one are `waiting`; only the current stage is
+ * `pending`
+ */
+export type ApprovalStageStatus = 'waiting' | 'pending' | 'approved' | 'rejected' | 'changes_requested' | 'cancelled';
+
+export type ApprovalReviewAction = 'approve' | 'reject' | 'request_changes' | 'comment';
+
+export interface ApprovalStageDefinition {
+  name: string;
+  /** User IDs, or `role:<role>` for anyone holding the role */
+  reviewers: string[];
+  /** Approvals from distinct reviewers needed to pass the stage */
+  quorum: number;
+  /** Hours reviewers have before the stage escalates */
+  dueInHours: number;
+  /** Reviewers added once the stage is overdue; defaults to `role:admin` */
+  backupReviewers?: string[];
+}
+
+export interface ApprovalChainDefinition {
+  id: string;
+  description?: string;
+  stages: ApprovalStageDefinition[];
+}
+
+/**
+ * Applies a chain to services of a category, of a compliance level, or both
+ */
+export interface ApprovalChainAssignment {
+  chain: string;
+  category?: ServiceCategory;
+  complianceLevel?: ComplianceLevel;
+}
+
+export interface ApprovalChainConfig {
+  chains: ApprovalChainDefinition[];
+  assignments: ApprovalChainAssignment[];
+}
+
+export interface ApprovalStage extends Required<ApprovalStageDefinition> {
+  status: ApprovalStageStatus;
+  startedAt?: Date;
+  dueAt?: Date;
+  /** Set once the stage passed its due date and backup reviewers were added */
+  escalatedAt?: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Line-item feedback on one field of the submitted spec
+ */
+export interface ApprovalFeedbackItem {
+  /** Spec path, e.g. `pricing.rates` */
+  field: string;
+  message: string;
+}
+
+export interface ApprovalReview {
+  id: string;
+  approvalId: string;
+  /** Index of the stage the review was given in */
+  stage: number;
+  reviewerId: string;
+  action: ApprovalReviewAction;
+  comment?: string;
+  feedback: ApprovalFeedbackItem[];
+  createdAt: Date;
+}
+
+/**
+ * One run of a service through its approval chain. Stages are reviewed in
+ * order; a rejection or change request at any stage ends the run.
+ */
+export interface ApprovalWorkflow {
+  id: string;
+  serviceId: string;
+  providerId: string;
+  chainId: string;
+  status: ApprovalStatus;
+  currentStage: number;
+  stages: ApprovalStage[];
+  reviews: ApprovalReview[];
+  /** The spec under review, returned to the provider as a draft on a change request */
+  serviceSpec: Partial<Service>;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface ApprovalChangeRequest {
+  approvalId: string;
+  stage: string;
+  reviewerId: string;
+  comment?: string;
+  feedback: ApprovalFeedbackItem[];
+  requestedAt: Date;
+}
+
 export interface WebhookPayload {
-  event: string;
+  /** Event ID, shared by every delivery (and replay) of the event */
+  id: string;
+  event: WebhookEvent;
   timestamp: Date;
   data: Record<string, unknown>;
 }
 
+export enum WebhookEvent {
+  SERVICE_PUBLISHED = 'service.published',
+  SERVICE_APPROVED = 'service.approved',
+  SERVICE_REJECTED = 'service.rejected',
+  SERVICE_CHANGES_REQUESTED = 'service.changes_requested',
+  SERVICE_DEPRECATED = 'service.deprecated',
+  SERVICE_SUSPENDED = 'service.suspended',
+  SERVICE_VERSION_CREATED = 'service.version_created',
+  /** Sent on request to test an endpoint; cannot be subscribed to */
+  PING = 'webhook.ping'
+}
+
+/**
+ * An HTTPS endpoint registered by a provider (tenant) for lifecycle events
+ */
+export interface WebhookSubscription {
+  id: string;
+  providerId: string;
+  /** Set for tenant-wide webhooks, which receive the events of every provider in the tenant */
+  tenantId?: string;
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  active: boolean;
+  /** HMAC-SHA256 signing secret; only returned when the webhook is created */
+  secret: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  /** First KB of the last response body */
+  responseBody?: string;
+  error?: string;
+  durationMs?: number;
+  /** Delivery this one replays */
+  replayOf?: string;
+  nextAttemptAt?: Date;
+  lastAttemptAt?: Date;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Downstream system an outbox event is relayed to
+ */
+export type OutboxDestination = 'analytics' | 'governance';
+
+export type OutboxEventStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Event recorded in the same transaction as the change it describes and
+ * relayed at least once. The ID doubles as the deduplication key downstream.
+ */
+export interface OutboxEvent {
+  id: string;
+  destination: OutboxDestination;
+  eventType: string;
+  aggregateId?: string;
+  payload: Record<string, unknown>;
+  status: OutboxEventStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+export interface OutboxMetrics {
+  pending: number;
+  /** Pending events that failed at least once and are waiting for a retry */
+  retrying: number;
+  failed: number;
+  deliveredLastHour: number;
+  /** Age of the oldest pending event */
+  lagSeconds: number;
+  byDestination: Record<OutboxDestination, { pending: number; failed: number; lagSeconds: number }>;
+}
+
+/**
+ * Which side wins when the marketplace database and the Registry disagree.
+ * `none` only reports drift.
+ */
+export type RegistrySourceOfTruth = 'marketplace' | 'registry' | 'none';
+
+export type RegistryDriftField = 'name' | 'version' | 'status';
+
+export interface RegistryDrift {
+  serviceId: string;
+  registryId: string;
+  /** `missing` when the Registry has no entry for the registry ID */
+  kind: 'mismatch' | 'missing';
+  differences: Array<{ field: RegistryDriftField; marketplace: string; registry?: string }>;
+  repair: 'repaired' | 'skipped' | 'failed';
+  repairError?: string;
+}
+
+export interface RegistryReconciliationReport {
+  id: string;
+  sourceOfTruth: RegistrySourceOfTruth;
+  startedAt: Date;
+  finishedAt: Date;
+  checked: number;
+  inSync: number;
+  drift: RegistryDrift[];
+  /** Services that could not be compared, e.g. because the Registry timed out */
+  errors: Array<{ serviceId: string; error: string }>;
+}
+
 export interface AnalyticsEvent {
+  /** Outbox event ID; consumers deduplicate redelivered events by it */
+  eventId?: string;
   eventType: string;
   timestamp: Date;
   serviceId?: string;
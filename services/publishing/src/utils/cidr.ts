@@ -0,0 +1,63 @@
+import { BlockList, isIP } from 'net';
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix (`::ffff:10.0.0.1`) that Node reports for
+ * IPv4 clients on dual-stack sockets
+ */
+function normalizeAddress(address: string): string {
+  const mapped = /^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i.exec(address);
+  return mapped ? mapped[1] : address;
+}
+
+/**
+ * Parse `address/prefix` notation. A bare address is treated as a single host.
+ */
+function parseCidr(cidr: string): { address: string; prefix: number; family: 'ipv4' | 'ipv6' } | null {
+  const [rawAddress, rawPrefix, ...rest] = cidr.trim().split('/');
+  if (rest.length > 0) {
+    return null;
+  }
+
+  const address = normalizeAddress(rawAddress);
+  const version = isIP(address);
+  if (version === 0) {
+    return null;
+  }
+
+  const maxPrefix = version === 4 ? 32 : 128;
+  if (rawPrefix !== undefined && !/^\d{1,3}$/.test(rawPrefix)) {
+    return null;
+  }
+
+  const prefix = rawPrefix === undefined ? maxPrefix : parseInt(rawPrefix, 10);
+  if (prefix > maxPrefix) {
+    return null;
+  }
+
+  return { address, prefix, family: version === 4 ? 'ipv4' : 'ipv6' };
+}
+
+export function isValidCidr(cidr: string): boolean {
+  return parseCidr(cidr) !== null;
+}
+
+/**
+ * Whether `ip` falls inside any of the given CIDR ranges (IPv4 or IPv6)
+ */
+export function isIpInRanges(ip: string, cidrs: string[]): boolean {
+  const address = normalizeAddress(ip);
+  const version = isIP(address);
+  if (version === 0) {
+    return false;
+  }
+
+  const blockList = new BlockList();
+  for (const cidr of cidrs) {
+    const parsed = parseCidr(cidr);
+    if (parsed) {
+      blockList.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+
+  return blockList.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
@@ -0,0 +1,58 @@
+import { Response } from 'express';
+
+/**
+ * What clients are told about a deprecation. Dates are strings when the
+ * service came from the cache.
+ */
+export interface DeprecationNotice {
+  deprecatedAt: Date | string;
+  sunsetAt?: Date | string | null;
+  successorServiceId?: string | null;
+}
+
+/**
+ * `Deprecation` (RFC 9745), `Sunset` (RFC 8594) and a `successor-version`
+ * link relative to the services collection the request was made against.
+ * `sunset` and `link` are left out when the deprecation has no date or
+ * successor.
+ */
+export interface DeprecationMetadata {
+  deprecation: string;
+  sunset?: string;
+  link?: string;
+}
+
+export function deprecationMetadata(notice: DeprecationNotice, servicesBaseUrl: string): DeprecationMetadata {
+  const metadata: DeprecationMetadata = {
+    deprecation: `@${Math.floor(new Date(notice.deprecatedAt).getTime() / 1000)}`,
+  };
+
+  if (notice.sunsetAt) {
+    metadata.sunset = new Date(notice.sunsetAt).toUTCString();
+  }
+
+  if (notice.successorServiceId) {
+    metadata.link = `<${servicesBaseUrl}/${notice.successorServiceId}>; rel="successor-version"`;
+  }
+
+  return metadata;
+}
+
+/**
+ * Advertise a deprecation to HTTP clients in response headers
+ */
+export function setDeprecationHeaders(
+  res: Response,
+  notice: DeprecationNotice,
+  servicesBaseUrl: string
+): void {
+  const metadata = deprecationMetadata(notice, servicesBaseUrl);
+
+  res.set('Deprecation', metadata.deprecation);
+  if (metadata.sunset) {
+    res.set('Sunset', metadata.sunset);
+  }
+  if (metadata.link) {
+    res.append('Link', metadata.link);
+  }
+}
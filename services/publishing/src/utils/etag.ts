@@ -0,0 +1,23 @@
+/**
+ * Strong ETag for a row revision
+ */
+export function revisionETag(revision: number): string {
+  return `"${revision}"`;
+}
+
+/**
+ * Revisions an `If-Match` header accepts, or undefined when it is absent or
+ * `*`. If-Match uses strong comparison, so weak and malformed tags never
+ * match; a header with none left accepts no revision.
+ */
+export function parseIfMatch(header: string | undefined): number[] | undefined {
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+
+  return header
+    .split(',')
+    .map((tag) => /^"(\d+)"$/.exec(tag.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => parseInt(match[1], 10));
+}
@@ -0,0 +1,178 @@
+/**
+ * Idempotency-Key handling shared by both API stacks. The first response to
+ * a key is stored and replayed to retries of the same request, so a client
+ * retrying after a timeout does not create a second resource.
+ */
+
+import { createHash } from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { logger } from './logger';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/** Response headers stored with the response and replayed with it */
+const REPLAYED_HEADERS = ['etag', 'location'];
+
+const VALID_KEY = /^[\x21-\x7e]{1,255}$/;
+
+export interface IdempotencyRecord {
+  state: 'in_progress' | 'completed';
+  /** Hash of the request body; a key may not be reused for a different body */
+  fingerprint: string;
+  statusCode?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface IdempotencyStore {
+  /** Store the record only if the key is free. Returns false when it is taken. */
+  claim(key: string, record: IdempotencyRecord, ttlSeconds: number): Promise<boolean>;
+  get(key: string): Promise<IdempotencyRecord | null>;
+  save(key: string, record: IdempotencyRecord, ttlSeconds: number): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Answers a request the middleware turns away: 400 for a malformed key, 409
+ * while the first request is still running and 422 for a reused key
+ */
+export type IdempotencyRejectHandler = (
+  statusCode: 400 | 409 | 422,
+  message: string,
+  res: Response,
+  next: NextFunction
+) => void;
+
+export interface IdempotencyOptions {
+  /** How long responses are replayed */
+  ttlSeconds?: number;
+  /** How long a key stays locked if the process dies mid-request */
+  lockSeconds?: number;
+}
+
+/**
+ * Build the middleware for a store. Requests without the header pass
+ * straight through; server errors release the key so the request can be
+ * retried. If the store is unavailable, requests are processed without
+ * idempotency rather than failing.
+ */
+export function createIdempotencyMiddleware(
+  store: IdempotencyStore,
+  reject: IdempotencyRejectHandler,
+  options: IdempotencyOptions = {}
+): RequestHandler {
+  const ttlSeconds = options.ttlSeconds ?? parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400', 10);
+  const lockSeconds = options.lockSeconds ?? parseInt(process.env.IDEMPOTENCY_LOCK_SECONDS || '60', 10);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const idempotencyKey = req.get(IDEMPOTENCY_KEY_HEADER);
+
+    if (idempotencyKey === undefined) {
+      next();
+      return;
+    }
+
+    if (!VALID_KEY.test(idempotencyKey)) {
+      reject(400, `Invalid ${IDEMPOTENCY_KEY_HEADER}: use 1 to 255 printable ASCII characters`, res, next);
+      return;
+    }
+
+    const key = idempotencyStoreKey(req, idempotencyKey);
+    const fingerprint = requestFingerprint(req.body);
+
+    let claimed: boolean;
+    let existing: IdempotencyRecord | null = null;
+
+    try {
+      claimed = await store.claim(key, { state: 'in_progress', fingerprint }, lockSeconds);
+      if (!claimed) {
+        existing = await store.get(key);
+      }
+    } catch (error) {
+      logger.warn('Idempotency store unavailable, processing request without it', { error });
+      next();
+      return;
+    }
+
+    if (!claimed) {
+      if (existing && existing.fingerprint !== fingerprint) {
+        reject(422, `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`, res, next);
+        return;
+      }
+
+      if (!existing || existing.state !== 'completed') {
+        reject(409, `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`, res, next);
+        return;
+      }
+
+      res.set(existing.headers ?? {});
+      res.set('Idempotent-Replayed', 'true');
+      res.status(existing.statusCode!).json(existing.body);
+      return;
+    }
+
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    const record = (): Promise<void> => {
+      const completed = res.writableFinished && res.statusCode < 500 && responseBody !== undefined;
+      const done = completed
+        ? store.save(
+            key,
+            {
+              state: 'completed',
+              fingerprint,
+              statusCode: res.statusCode,
+              body: responseBody,
+              headers: replayedHeaders(res),
+            },
+            ttlSeconds
+          )
+        : store.release(key);
+
+      return done.catch((error) => {
+        logger.error('Failed to record idempotent response', { key, error });
+      });
+    };
+
+    // A response that never finished, e.g. because the client went away,
+    // releases the key like a server error
+    res.on('finish', record);
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        void record();
+      }
+    });
+
+    next();
+  };
+}
+
+/**
+ * Keys are scoped to the caller and the route, so two users, or one key
+ * sent to two endpoints, never share a response
+ */
+export function idempotencyStoreKey(req: Request, idempotencyKey: string): string {
+  return `idempotency:${req.user?.id ?? 'anonymous'}:${req.method}:${req.baseUrl}${req.path}:${idempotencyKey}`;
+}
+
+export function requestFingerprint(body: unknown): string {
+  return createHash('sha256').update(JSON.stringify(body ?? {})).digest('hex');
+}
+
+function replayedHeaders(res: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const name of REPLAYED_HEADERS) {
+    const value = res.getHeader(name);
+    if (value !== undefined) {
+      headers[name] = String(value);
+    }
+  }
+
+  return headers;
+}
@@ -0,0 +1,351 @@
+/**
+ * JSON Schema helpers used by the contract test runner
+ * Covers the subset of JSON Schema used by OpenAPI 3.x documents
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Resolves a `$ref` string to the schema it points at
+ */
+export type RefResolver = (ref: string) => unknown;
+
+const MAX_SAMPLE_DEPTH = 6;
+
+/**
+ * Resolve a local JSON Pointer reference (e.g. `#/components/schemas/Model`)
+ */
+export function resolveLocalRef(document: unknown, ref: string): unknown {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+
+  const segments = ref
+    .slice(1)
+    .split('/')
+    .filter((segment) => segment.length > 0)
+    .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  let current: unknown = document;
+  for (const segment of segments) {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Follow a `$ref` chain until a concrete schema is reached
+ */
+export function derefSchema(schema: unknown, resolve: RefResolver): JsonSchema | undefined {
+  const seen = new Set<string>();
+  let current = schema;
+
+  while (isObject(current) && typeof current.$ref === 'string') {
+    if (seen.has(current.$ref)) {
+      return undefined;
+    }
+    seen.add(current.$ref);
+    current = resolve(current.$ref);
+  }
+
+  return isObject(current) ? current : undefined;
+}
+
+/**
+ * Validate a value against a schema, returning one message per violation.
+ * Messages are prefixed with the JSON Pointer of the offending value.
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: unknown,
+  resolve: RefResolver,
+  pointer: string = ''
+): string[] {
+  const resolved = derefSchema(schema, resolve);
+  if (!resolved) {
+    return [];
+  }
+
+  const errors: string[] = [];
+  const at = pointer || '/';
+
+  if (Array.isArray(resolved.allOf)) {
+    for (const sub of resolved.allOf) {
+      errors.push(...validateAgainstSchema(value, sub, resolve, pointer));
+    }
+  }
+
+  if (Array.isArray(resolved.anyOf)) {
+    const matches = resolved.anyOf.some(
+      (sub) => validateAgainstSchema(value, sub, resolve, pointer).length === 0
+    );
+    if (!matches) {
+      errors.push(`${at}: does not match any schema in anyOf`);
+    }
+  }
+
+  if (Array.isArray(resolved.oneOf)) {
+    const matches = resolved.oneOf.filter(
+      (sub) => validateAgainstSchema(value, sub, resolve, pointer).length === 0
+    ).length;
+    if (matches !== 1) {
+      errors.push(`${at}: must match exactly one schema in oneOf (matched ${matches})`);
+    }
+  }
+
+  if (value === null && resolved.nullable === true) {
+    return errors;
+  }
+
+  if ('const' in resolved && !deepEqual(value, resolved.const)) {
+    errors.push(`${at}: must be equal to ${JSON.stringify(resolved.const)}`);
+  }
+
+  if (Array.isArray(resolved.enum) && !resolved.enum.some((option) => deepEqual(option, value))) {
+    errors.push(`${at}: must be one of ${JSON.stringify(resolved.enum)}`);
+  }
+
+  const types = schemaTypes(resolved);
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    errors.push(`${at}: expected ${types.join(' | ')} but got ${describeType(value)}`);
+    return errors;
+  }
+
+  if (typeof value === 'string') {
+    if (typeof resolved.minLength === 'number' && value.length < resolved.minLength) {
+      errors.push(`${at}: must be at least ${resolved.minLength} characters`);
+    }
+    if (typeof resolved.maxLength === 'number' && value.length > resolved.maxLength) {
+      errors.push(`${at}: must be at most ${resolved.maxLength} characters`);
+    }
+    if (typeof resolved.pattern === 'string' && !new RegExp(resolved.pattern).test(value)) {
+      errors.push(`${at}: must match pattern ${resolved.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof resolved.minimum === 'number' && value < resolved.minimum) {
+      errors.push(`${at}: must be >= ${resolved.minimum}`);
+    }
+    if (typeof resolved.maximum === 'number' && value > resolved.maximum) {
+      errors.push(`${at}: must be <= ${resolved.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof resolved.minItems === 'number' && value.length < resolved.minItems) {
+      errors.push(`${at}: must contain at least ${resolved.minItems} items`);
+    }
+    if (typeof resolved.maxItems === 'number' && value.length > resolved.maxItems) {
+      errors.push(`${at}: must contain at most ${resolved.maxItems} items`);
+    }
+    if (resolved.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, resolved.items, resolve, `${pointer}/${index}`));
+      });
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(resolved.properties) ? resolved.properties : {};
+    const required = Array.isArray(resolved.required) ? (resolved.required as string[]) : [];
+
+    for (const name of required) {
+      if (!(name in value)) {
+        errors.push(`${pointer}/${escapePointer(name)}: is required`);
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertyPointer = `${pointer}/${escapePointer(name)}`;
+
+      if (name in properties) {
+        errors.push(...validateAgainstSchema(propertyValue, properties[name], resolve, propertyPointer));
+      } else if (resolved.additionalProperties === false) {
+        errors.push(`${propertyPointer}: is not allowed`);
+      } else if (isObject(resolved.additionalProperties)) {
+        errors.push(
+          ...validateAgainstSchema(propertyValue, resolved.additionalProperties, resolve, propertyPointer)
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build a representative value for a schema, preferring declared examples
+ */
+export function sampleFromSchema(schema: unknown, resolve: RefResolver, depth: number = 0): unknown {
+  const resolved = derefSchema(schema, resolve);
+  if (!resolved || depth > MAX_SAMPLE_DEPTH) {
+    return null;
+  }
+
+  if ('example' in resolved) {
+    return resolved.example;
+  }
+  if (Array.isArray(resolved.examples) && resolved.examples.length > 0) {
+    return resolved.examples[0];
+  }
+  if ('default' in resolved) {
+    return resolved.default;
+  }
+  if ('const' in resolved) {
+    return resolved.const;
+  }
+  if (Array.isArray(resolved.enum) && resolved.enum.length > 0) {
+    return resolved.enum[0];
+  }
+
+  if (Array.isArray(resolved.allOf)) {
+    return resolved.allOf.reduce<Record<string, unknown>>((merged, sub) => {
+      const part = sampleFromSchema(sub, resolve, depth + 1);
+      return isObject(part) ? { ...merged, ...part } : merged;
+    }, {});
+  }
+  const alternatives = resolved.oneOf ?? resolved.anyOf;
+  if (Array.isArray(alternatives) && alternatives.length > 0) {
+    return sampleFromSchema(alternatives[0], resolve, depth + 1);
+  }
+
+  const type = schemaTypes(resolved).find((candidate) => candidate !== 'null')
+    ?? (resolved.properties ? 'object' : resolved.items ? 'array' : 'string');
+
+  switch (type) {
+    case 'object': {
+      const sample: Record<string, unknown> = {};
+      const properties = isObject(resolved.properties) ? resolved.properties : {};
+      for (const [name, propertySchema] of Object.entries(properties)) {
+        sample[name] = sampleFromSchema(propertySchema, resolve, depth + 1);
+      }
+      return sample;
+    }
+    case 'array': {
+      const count = typeof resolved.minItems === 'number' && resolved.minItems > 0 ? resolved.minItems : 1;
+      return Array.from({ length: count }, () => sampleFromSchema(resolved.items, resolve, depth + 1));
+    }
+    case 'integer':
+      return typeof resolved.minimum === 'number' ? Math.ceil(resolved.minimum) : 1;
+    case 'number':
+      return typeof resolved.minimum === 'number' ? resolved.minimum : 1;
+    case 'boolean':
+      return true;
+    default:
+      return sampleString(resolved);
+  }
+}
+
+/**
+ * Derive a schema from an example value, for sources that only carry examples
+ */
+export function inferSchemaFromValue(value: unknown, depth: number = 0): JsonSchema {
+  if (value === null) {
+    return {};
+  }
+
+  if (Array.isArray(value)) {
+    return value.length > 0 && depth < MAX_SAMPLE_DEPTH
+      ? { type: 'array', items: inferSchemaFromValue(value[0], depth + 1) }
+      : { type: 'array', items: {} };
+  }
+
+  if (isObject(value)) {
+    const properties: Record<string, JsonSchema> = {};
+    if (depth < MAX_SAMPLE_DEPTH) {
+      for (const [name, propertyValue] of Object.entries(value)) {
+        properties[name] = inferSchemaFromValue(propertyValue, depth + 1);
+      }
+    }
+    return { type: 'object', properties };
+  }
+
+  if (typeof value === 'number') {
+    return { type: Number.isInteger(value) ? 'integer' : 'number' };
+  }
+
+  return { type: typeof value === 'boolean' ? 'boolean' : 'string' };
+}
+
+function sampleString(schema: JsonSchema): string {
+  switch (schema.format) {
+    case 'date-time':
+      return new Date(0).toISOString();
+    case 'date':
+      return '1970-01-01';
+    case 'email':
+      return 'user@example.com';
+    case 'uuid':
+      return '00000000-0000-4000-8000-000000000000';
+    case 'uri':
+    case 'url':
+      return 'https://example.com';
+    default: {
+      const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+      return 'sample'.padEnd(minLength, 'x');
+    }
+  }
+}
+
+function schemaTypes(schema: JsonSchema): string[] {
+  const types = Array.isArray(schema.type)
+    ? (schema.type as string[])
+    : typeof schema.type === 'string'
+      ? [schema.type]
+      : [];
+
+  // OpenAPI 3.0 expresses nullability with `nullable` instead of a type union
+  if (types.length > 0 && schema.nullable === true && !types.includes('null')) {
+    return [...types, 'null'];
+  }
+
+  return types;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number';
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,36 @@
+import { FieldChange } from '../types';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Field-level diff of two JSON-like values. Plain objects are compared key by
+ * key; arrays and the paths listed in `atomicPaths` are compared as a whole.
+ */
+export function diffFields(
+  before: unknown,
+  after: unknown,
+  atomicPaths: string[] = [],
+  path: string = ''
+): FieldChange[] {
+  if (before === undefined && after === undefined) {
+    return [];
+  }
+  if (before === undefined) {
+    return [{ path, type: 'added', after }];
+  }
+  if (after === undefined) {
+    return [{ path, type: 'removed', before }];
+  }
+
+  if (isPlainObject(before) && isPlainObject(after) && !atomicPaths.includes(path)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap((key) =>
+      diffFields(before[key], after[key], atomicPaths, path ? `${path}.${key}` : key)
+    );
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after)
+    ? []
+    : [{ path, type: 'modified', before, after }];
+}
@@ -0,0 +1,157 @@
+/**
+ * Protocol Buffers wire-format helpers
+ * Just enough of the encoding to read descriptor sets and speak the
+ * gRPC health-checking protocol without generated code
+ */
+
+export enum WireType {
+  VARINT = 0,
+  FIXED64 = 1,
+  LENGTH_DELIMITED = 2,
+  START_GROUP = 3,
+  END_GROUP = 4,
+  FIXED32 = 5,
+}
+
+/**
+ * Sequential reader over an encoded message
+ */
+export class ProtoReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  get done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  /**
+   * Read the next field key
+   */
+  tag(): { field: number; wireType: WireType } {
+    const key = this.varint();
+    return { field: Math.floor(key / 8), wireType: (key % 8) as WireType };
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+
+    for (let i = 0; i < 10; i++) {
+      if (this.offset >= this.buffer.length) {
+        throw new Error('Truncated varint');
+      }
+      const byte = this.buffer[this.offset++];
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      multiplier *= 128;
+    }
+
+    throw new Error('Malformed varint');
+  }
+
+  /**
+   * Read an int32, which is sign-extended to ten bytes when negative
+   */
+  int32(): number {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+
+    for (let i = 0; i < 10; i++) {
+      if (this.offset >= this.buffer.length) {
+        throw new Error('Truncated varint');
+      }
+      const byte = this.buffer[this.offset++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return Number(BigInt.asIntN(32, result));
+      }
+      shift += BigInt(7);
+    }
+
+    throw new Error('Malformed varint');
+  }
+
+  bytes(): Buffer {
+    const length = this.varint();
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Truncated length-delimited field');
+    }
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  string(): string {
+    return this.bytes().toString('utf8');
+  }
+
+  bool(): boolean {
+    return this.varint() !== 0;
+  }
+
+  skip(wireType: WireType): void {
+    switch (wireType) {
+      case WireType.VARINT:
+        this.varint();
+        return;
+      case WireType.FIXED64:
+        this.advance(8);
+        return;
+      case WireType.LENGTH_DELIMITED:
+        this.bytes();
+        return;
+      case WireType.FIXED32:
+        this.advance(4);
+        return;
+      case WireType.START_GROUP:
+        for (;;) {
+          const { wireType: inner } = this.tag();
+          if (inner === WireType.END_GROUP) {
+            return;
+          }
+          this.skip(inner);
+        }
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+
+  private advance(count: number): void {
+    if (this.offset + count > this.buffer.length) {
+      throw new Error('Truncated fixed-width field');
+    }
+    this.offset += count;
+  }
+}
+
+export function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 128) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  bytes.push(remaining);
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Encode a string field; empty strings are omitted as proto3 requires
+ */
+export function encodeStringField(field: number, value: string): Buffer {
+  if (value === '') {
+    return Buffer.alloc(0);
+  }
+
+  const payload = Buffer.from(value, 'utf8');
+  return Buffer.concat([
+    encodeVarint(field * 8 + WireType.LENGTH_DELIMITED),
+    encodeVarint(payload.length),
+    payload,
+  ]);
+}
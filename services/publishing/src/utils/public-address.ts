@@ -0,0 +1,79 @@
+import { lookup, promises as dns } from 'dns';
+import { LookupFunction, isIP } from 'net';
+import { isIpInRanges } from './cidr';
+
+/**
+ * Ranges that are not reachable on the public internet: "this" network,
+ * private, carrier-grade NAT, loopback, link-local (which holds the cloud
+ * metadata endpoint 169.254.169.254), benchmarking, multicast and reserved
+ * space, plus their IPv6 counterparts. IPv4-mapped IPv6 addresses are
+ * matched against the IPv4 ranges.
+ */
+const NON_PUBLIC_RANGES = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+  '::/128',
+  '::1/128',
+  '64:ff9b::/96',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+];
+
+/**
+ * Whether an IP address is routable on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  return isIP(address) !== 0 && !isIpInRanges(address, NON_PUBLIC_RANGES);
+}
+
+/**
+ * Resolve a host name (or take an IP literal, bracketed or not) and reject it
+ * unless every address it resolves to is public
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host) !== 0
+    ? [host]
+    : (await dns.lookup(host, { all: true, verbatim: true })).map((entry) => entry.address);
+
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked) {
+    throw new Error(`Host ${hostname} resolves to non-public address ${blocked}`);
+  }
+}
+
+/**
+ * DNS lookup for HTTP agents that refuses non-public addresses. Checking the
+ * address the socket actually connects to stops a host from passing
+ * assertPublicHost and then re-resolving to an internal address.
+ */
+export const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked) {
+      callback(new Error(`Host ${hostname} resolves to non-public address ${blocked.address}`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
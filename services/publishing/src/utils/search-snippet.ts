@@ -0,0 +1,46 @@
+/**
+ * Control characters used to delimit matches in `ts_headline` output. They
+ * cannot appear in HTML-escaped text, so the snippet can be escaped first and
+ * the markers swapped for `<mark>` tags afterwards.
+ */
+export const SNIPPET_START = '\u0002';
+export const SNIPPET_STOP = '\u0003';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Options string for `ts_headline` producing short, marker-delimited fragments
+ */
+export const TS_HEADLINE_OPTIONS = [
+  `StartSel=${SNIPPET_START}`,
+  `StopSel=${SNIPPET_STOP}`,
+  'MaxWords=35',
+  'MinWords=15',
+  'ShortWord=3',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "',
+].join(', ');
+
+/**
+ * Turn raw `ts_headline` output into HTML-safe text with matches wrapped in
+ * `<mark>`. Returns null when nothing matched.
+ */
+export function renderSnippet(raw: string | null | undefined): string | null {
+  if (!raw || !raw.includes(SNIPPET_START)) {
+    return null;
+  }
+
+  return raw
+    .replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+    .split(SNIPPET_START)
+    .join('<mark>')
+    .split(SNIPPET_STOP)
+    .join('</mark>')
+    .trim();
+}
@@ -0,0 +1,45 @@
+/**
+ * Browsers checked in order: Edge and Opera include "Chrome", and Chrome
+ * includes "Safari"
+ */
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Short, human-readable device description for a User-Agent header, such as
+ * "Chrome on macOS". Non-browser clients are described by their product name.
+ */
+export function describeUserAgent(userAgent?: string | null): string {
+  if (!userAgent || userAgent.trim().length === 0) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+
+  if (browser || platform) {
+    return (browser ?? platform) as string;
+  }
+
+  // e.g. "curl/8.4.0" or "python-requests/2.31.0"
+  const product = /^([\w.-]+)\//.exec(userAgent.trim());
+  return product ? product[1] : 'Unknown device';
+}
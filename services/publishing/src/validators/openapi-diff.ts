@@ -0,0 +1,645 @@
+import * as semver from 'semver';
+import { ApiChange, ApiChangeKind, ApiDiffReport } from '../types';
+import { logger } from '../utils/logger';
+import { JsonSchema, RefResolver, derefSchema, resolveLocalRef } from '../utils/json-schema';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'options', 'head', 'trace'];
+const MAX_SCHEMA_DEPTH = 10;
+
+type Direction = 'request' | 'response';
+
+interface DiffSide {
+  document: Record<string, unknown>;
+  resolve: RefResolver;
+}
+
+/**
+ * Raised when a version bump is too small for the API changes it contains
+ */
+export class BreakingChangeError extends Error {
+  readonly report: ApiDiffReport;
+
+  constructor(report: ApiDiffReport) {
+    const breaking = report.changes.filter((change) => change.breaking);
+    super(
+      `Breaking API changes require a major version bump (${report.fromVersion} -> ${report.toVersion}): ` +
+        breaking.map((change) => `${change.location}: ${change.message}`).join('; ')
+    );
+    this.name = 'BreakingChangeError';
+    this.report = report;
+  }
+}
+
+/**
+ * Compares the OpenAPI documents of two successive service versions and
+ * classifies every change as breaking or non-breaking for existing consumers
+ */
+export class OpenAPIDiffEngine {
+  diff(
+    previous: Record<string, unknown>,
+    next: Record<string, unknown>,
+    fromVersion: string,
+    toVersion: string
+  ): ApiDiffReport {
+    const changes: ApiChange[] = [];
+    const before: DiffSide = { document: previous, resolve: (ref) => resolveLocalRef(previous, ref) };
+    const after: DiffSide = { document: next, resolve: (ref) => resolveLocalRef(next, ref) };
+
+    this.comparePaths(before, after, changes);
+    this.compareSecurity('security', previous.security, next.security, changes);
+    this.compareSecuritySchemes(before, after, changes);
+
+    const report: ApiDiffReport = {
+      fromVersion,
+      toVersion,
+      breaking: changes.some((change) => change.breaking),
+      changes,
+      comparedAt: new Date(),
+    };
+
+    logger.info('OpenAPI diff completed', {
+      fromVersion,
+      toVersion,
+      changes: changes.length,
+      breaking: report.breaking,
+    });
+
+    return report;
+  }
+
+  /**
+   * Reject a minor or patch bump that contains breaking changes
+   */
+  assertCompatibleBump(report: ApiDiffReport): void {
+    if (!report.breaking) {
+      return;
+    }
+
+    if (semver.major(report.toVersion) <= semver.major(report.fromVersion)) {
+      throw new BreakingChangeError(report);
+    }
+  }
+
+  private comparePaths(before: DiffSide, after: DiffSide, changes: ApiChange[]): void {
+    const previousPaths = this.pathIndex(before);
+    const nextPaths = this.pathIndex(after);
+
+    for (const [key, { path, item: previousItem }] of previousPaths) {
+      const nextEntry = nextPaths.get(key);
+
+      if (!nextEntry) {
+        this.push(changes, 'path-removed', true, path, 'Path was removed');
+        continue;
+      }
+
+      for (const method of HTTP_METHODS) {
+        const previousOperation = derefSchema(previousItem[method], before.resolve);
+        const nextOperation = derefSchema(nextEntry.item[method], after.resolve);
+        const location = `${method.toUpperCase()} ${nextEntry.path}`;
+
+        if (previousOperation && !nextOperation) {
+          this.push(changes, 'operation-removed', true, location, 'Operation was removed');
+        } else if (!previousOperation && nextOperation) {
+          this.push(changes, 'operation-added', false, location, 'Operation was added');
+        } else if (previousOperation && nextOperation) {
+          this.compareOperation(
+            location,
+            before,
+            previousItem,
+            previousOperation,
+            after,
+            nextEntry.item,
+            nextOperation,
+            changes
+          );
+        }
+      }
+    }
+
+    for (const [key, { path }] of nextPaths) {
+      if (!previousPaths.has(key)) {
+        this.push(changes, 'path-added', false, path, 'Path was added');
+      }
+    }
+  }
+
+  /**
+   * Index path items by their template shape so renaming a path parameter
+   * (`/models/{id}` -> `/models/{modelId}`) is not reported as a removal
+   */
+  private pathIndex(side: DiffSide): Map<string, { path: string; item: JsonSchema }> {
+    const index = new Map<string, { path: string; item: JsonSchema }>();
+    const paths = side.document.paths;
+
+    if (!paths || typeof paths !== 'object') {
+      return index;
+    }
+
+    for (const [path, rawItem] of Object.entries(paths as Record<string, unknown>)) {
+      const item = derefSchema(rawItem, side.resolve);
+      if (item) {
+        index.set(path.replace(/\{[^}]+\}/g, '{}'), { path, item });
+      }
+    }
+
+    return index;
+  }
+
+  private compareOperation(
+    location: string,
+    before: DiffSide,
+    previousItem: JsonSchema,
+    previousOperation: JsonSchema,
+    after: DiffSide,
+    nextItem: JsonSchema,
+    nextOperation: JsonSchema,
+    changes: ApiChange[]
+  ): void {
+    this.compareParameters(location, before, previousItem, previousOperation, after, nextItem, nextOperation, changes);
+    this.compareRequestBody(location, before, previousOperation, after, nextOperation, changes);
+    this.compareResponses(location, before, previousOperation, after, nextOperation, changes);
+
+    // Operation-level security overrides the document default
+    if (previousOperation.security !== undefined || nextOperation.security !== undefined) {
+      this.compareSecurity(
+        location,
+        previousOperation.security ?? before.document.security,
+        nextOperation.security ?? after.document.security,
+        changes
+      );
+    }
+  }
+
+  private compareParameters(
+    location: string,
+    before: DiffSide,
+    previousItem: JsonSchema,
+    previousOperation: JsonSchema,
+    after: DiffSide,
+    nextItem: JsonSchema,
+    nextOperation: JsonSchema,
+    changes: ApiChange[]
+  ): void {
+    const previousParameters = this.parameterIndex(before, previousItem, previousOperation);
+    const nextParameters = this.parameterIndex(after, nextItem, nextOperation);
+
+    for (const [key, previousParameter] of previousParameters) {
+      const nextParameter = nextParameters.get(key);
+      const label = `${previousParameter.in} parameter '${previousParameter.name}'`;
+
+      if (!nextParameter) {
+        this.push(changes, 'parameter-removed', false, location, `The ${label} was removed`);
+        continue;
+      }
+
+      if (!previousParameter.required && nextParameter.required) {
+        this.push(changes, 'parameter-required', true, location, `The ${label} is now required`);
+      }
+
+      this.compareSchema(
+        `${location} ${label}`,
+        '',
+        'request',
+        before,
+        previousParameter.schema,
+        after,
+        nextParameter.schema,
+        changes,
+        0
+      );
+    }
+
+    for (const [key, nextParameter] of nextParameters) {
+      if (previousParameters.has(key)) {
+        continue;
+      }
+
+      const required = nextParameter.required === true;
+      this.push(
+        changes,
+        'parameter-added',
+        required,
+        location,
+        `A new ${required ? 'required' : 'optional'} ${nextParameter.in} parameter '${nextParameter.name}' was added`
+      );
+    }
+  }
+
+  /**
+   * Path-level and operation-level parameters keyed by location and name.
+   * Path parameters are keyed by position because their names may be renamed.
+   */
+  private parameterIndex(side: DiffSide, item: JsonSchema, operation: JsonSchema): Map<string, JsonSchema> {
+    const index = new Map<string, JsonSchema>();
+    const all = [
+      ...(Array.isArray(item.parameters) ? item.parameters : []),
+      ...(Array.isArray(operation.parameters) ? operation.parameters : []),
+    ];
+
+    let pathPosition = 0;
+    for (const raw of all) {
+      const parameter = derefSchema(raw, side.resolve);
+      if (!parameter || typeof parameter.name !== 'string') {
+        continue;
+      }
+
+      const key = parameter.in === 'path'
+        ? `path:${pathPosition++}`
+        : `${parameter.in}:${String(parameter.name).toLowerCase()}`;
+      index.set(key, parameter);
+    }
+
+    return index;
+  }
+
+  private compareRequestBody(
+    location: string,
+    before: DiffSide,
+    previousOperation: JsonSchema,
+    after: DiffSide,
+    nextOperation: JsonSchema,
+    changes: ApiChange[]
+  ): void {
+    const previousBody = derefSchema(previousOperation.requestBody, before.resolve);
+    const nextBody = derefSchema(nextOperation.requestBody, after.resolve);
+
+    if (!nextBody) {
+      return;
+    }
+
+    if (nextBody.required === true && previousBody?.required !== true) {
+      this.push(changes, 'request-body-required', true, location, 'Request body is now required');
+    }
+
+    if (previousBody) {
+      this.compareSchema(
+        `${location} request body`,
+        '',
+        'request',
+        before,
+        this.jsonSchemaOf(previousBody, before),
+        after,
+        this.jsonSchemaOf(nextBody, after),
+        changes,
+        0
+      );
+    }
+  }
+
+  private compareResponses(
+    location: string,
+    before: DiffSide,
+    previousOperation: JsonSchema,
+    after: DiffSide,
+    nextOperation: JsonSchema,
+    changes: ApiChange[]
+  ): void {
+    const previousResponses = derefSchema(previousOperation.responses, before.resolve) ?? {};
+    const nextResponses = derefSchema(nextOperation.responses, after.resolve) ?? {};
+
+    for (const [status, rawPrevious] of Object.entries(previousResponses)) {
+      const previousResponse = derefSchema(rawPrevious, before.resolve);
+      const nextResponse = derefSchema(nextResponses[status], after.resolve);
+
+      if (!nextResponse) {
+        // Dropping a success response changes what consumers receive; dropping an error response does not
+        const breaking = status.startsWith('2');
+        this.push(changes, 'response-removed', breaking, location, `Response ${status} was removed`);
+        continue;
+      }
+
+      if (previousResponse) {
+        this.compareSchema(
+          `${location} response ${status}`,
+          '',
+          'response',
+          before,
+          this.jsonSchemaOf(previousResponse, before),
+          after,
+          this.jsonSchemaOf(nextResponse, after),
+          changes,
+          0
+        );
+      }
+    }
+
+    for (const status of Object.keys(nextResponses)) {
+      if (!(status in previousResponses)) {
+        this.push(changes, 'response-added', false, location, `Response ${status} was added`);
+      }
+    }
+  }
+
+  /**
+   * Compare two schemas. Requests may only get more permissive and responses
+   * may only get more specific without breaking existing consumers.
+   */
+  private compareSchema(
+    location: string,
+    field: string,
+    direction: Direction,
+    before: DiffSide,
+    rawPrevious: unknown,
+    after: DiffSide,
+    rawNext: unknown,
+    changes: ApiChange[],
+    depth: number
+  ): void {
+    const previous = derefSchema(rawPrevious, before.resolve);
+    const next = derefSchema(rawNext, after.resolve);
+
+    if (!previous || !next || depth > MAX_SCHEMA_DEPTH) {
+      return;
+    }
+
+    const subject = field ? `field '${field}'` : 'schema';
+    const previousTypes = this.typesOf(previous);
+    const nextTypes = this.typesOf(next);
+
+    if (previousTypes.length > 0 && nextTypes.length > 0) {
+      const removedTypes = previousTypes.filter((type) => !this.typeAccepts(nextTypes, type));
+      const addedTypes = nextTypes.filter((type) => !this.typeAccepts(previousTypes, type));
+
+      if (removedTypes.length > 0 || addedTypes.length > 0) {
+        const breaking = direction === 'request' ? removedTypes.length > 0 : addedTypes.length > 0;
+        const kind: ApiChangeKind = direction === 'request'
+          ? (field ? 'request-field-retyped' : 'parameter-retyped')
+          : 'response-field-retyped';
+
+        this.push(
+          changes,
+          kind,
+          breaking,
+          location,
+          `Type of ${subject} changed from ${previousTypes.join(' | ')} to ${nextTypes.join(' | ')}`
+        );
+        return;
+      }
+    }
+
+    this.compareEnums(location, subject, direction, previous, next, changes);
+
+    if (next.properties || previous.properties) {
+      this.compareProperties(location, field, direction, before, previous, after, next, changes, depth);
+    }
+
+    if (previous.items && next.items) {
+      this.compareSchema(
+        location,
+        `${field}[]`,
+        direction,
+        before,
+        previous.items,
+        after,
+        next.items,
+        changes,
+        depth + 1
+      );
+    }
+  }
+
+  private compareEnums(
+    location: string,
+    subject: string,
+    direction: Direction,
+    previous: JsonSchema,
+    next: JsonSchema,
+    changes: ApiChange[]
+  ): void {
+    if (!Array.isArray(next.enum)) {
+      return;
+    }
+
+    if (!Array.isArray(previous.enum)) {
+      // Constraining a free value to an enum narrows what requests may send
+      if (direction === 'request') {
+        this.push(changes, 'enum-narrowed', true, location, `Values of ${subject} are now restricted to an enum`);
+      }
+      return;
+    }
+
+    const key = (value: unknown) => JSON.stringify(value);
+    const nextValues = new Set(next.enum.map(key));
+    const previousValues = new Set(previous.enum.map(key));
+    const removed = previous.enum.filter((value) => !nextValues.has(key(value)));
+    const added = next.enum.filter((value) => !previousValues.has(key(value)));
+
+    if (removed.length > 0) {
+      this.push(
+        changes,
+        'enum-narrowed',
+        direction === 'request',
+        location,
+        `Enum values removed from ${subject}: ${removed.map(key).join(', ')}`
+      );
+    }
+
+    if (added.length > 0) {
+      this.push(
+        changes,
+        'enum-widened',
+        false,
+        location,
+        `Enum values added to ${subject}: ${added.map(key).join(', ')}`
+      );
+    }
+  }
+
+  private compareProperties(
+    location: string,
+    field: string,
+    direction: Direction,
+    before: DiffSide,
+    previous: JsonSchema,
+    after: DiffSide,
+    next: JsonSchema,
+    changes: ApiChange[],
+    depth: number
+  ): void {
+    const previousProperties = (previous.properties ?? {}) as Record<string, unknown>;
+    const nextProperties = (next.properties ?? {}) as Record<string, unknown>;
+    const previousRequired = new Set(Array.isArray(previous.required) ? (previous.required as string[]) : []);
+    const nextRequired = Array.isArray(next.required) ? (next.required as string[]) : [];
+    const qualify = (name: string) => (field ? `${field}.${name}` : name);
+
+    if (direction === 'request') {
+      for (const name of nextRequired) {
+        if (!previousRequired.has(name)) {
+          this.push(
+            changes,
+            'request-field-required',
+            true,
+            location,
+            `Field '${qualify(name)}' is now required`
+          );
+        }
+      }
+    } else {
+      for (const name of Object.keys(previousProperties)) {
+        if (!(name in nextProperties)) {
+          this.push(
+            changes,
+            'response-field-removed',
+            true,
+            location,
+            `Field '${qualify(name)}' was removed`
+          );
+        }
+      }
+
+      for (const name of Object.keys(nextProperties)) {
+        if (!(name in previousProperties)) {
+          this.push(
+            changes,
+            'response-field-added',
+            false,
+            location,
+            `Field '${qualify(name)}' was added`
+          );
+        }
+      }
+    }
+
+    for (const name of Object.keys(previousProperties)) {
+      if (name in nextProperties) {
+        this.compareSchema(
+          location,
+          qualify(name),
+          direction,
+          before,
+          previousProperties[name],
+          after,
+          nextProperties[name],
+          changes,
+          depth + 1
+        );
+      }
+    }
+  }
+
+  private compareSecurity(
+    location: string,
+    previous: unknown,
+    next: unknown,
+    changes: ApiChange[]
+  ): void {
+    const previousSchemes = this.securitySchemeNames(previous);
+    const nextSchemes = this.securitySchemeNames(next);
+
+    if (previousSchemes === nextSchemes) {
+      return;
+    }
+
+    // Dropping authentication entirely does not break clients that still send credentials
+    const breaking = nextSchemes !== '';
+    this.push(
+      changes,
+      'security-changed',
+      breaking,
+      location,
+      `Security requirements changed from [${previousSchemes || 'none'}] to [${nextSchemes || 'none'}]`
+    );
+  }
+
+  private compareSecuritySchemes(before: DiffSide, after: DiffSide, changes: ApiChange[]): void {
+    const previousSchemes = this.securitySchemes(before);
+    const nextSchemes = this.securitySchemes(after);
+
+    for (const [name, previousScheme] of Object.entries(previousSchemes)) {
+      const nextScheme = nextSchemes[name];
+      const location = `components.securitySchemes.${name}`;
+
+      if (!nextScheme) {
+        this.push(changes, 'security-changed', true, location, `Security scheme '${name}' was removed`);
+        continue;
+      }
+
+      for (const attribute of ['type', 'scheme', 'in', 'name', 'bearerFormat', 'openIdConnectUrl']) {
+        if (previousScheme[attribute] !== nextScheme[attribute]) {
+          this.push(
+            changes,
+            'security-changed',
+            true,
+            location,
+            `Security scheme '${attribute}' changed from ${String(previousScheme[attribute])} to ${String(nextScheme[attribute])}`
+          );
+        }
+      }
+    }
+  }
+
+  private securitySchemes(side: DiffSide): Record<string, JsonSchema> {
+    const components = derefSchema(side.document.components, side.resolve);
+    const schemes = derefSchema(components?.securitySchemes, side.resolve) ?? {};
+    const resolved: Record<string, JsonSchema> = {};
+
+    for (const [name, scheme] of Object.entries(schemes)) {
+      const value = derefSchema(scheme, side.resolve);
+      if (value) {
+        resolved[name] = value;
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Canonical form of a security requirement list, e.g. `apiKey | bearer+oauth`
+   */
+  private securitySchemeNames(security: unknown): string {
+    if (!Array.isArray(security)) {
+      return '';
+    }
+
+    return security
+      .filter((requirement) => requirement && typeof requirement === 'object')
+      .map((requirement) => Object.keys(requirement as Record<string, unknown>).sort().join('+'))
+      .filter((alternative) => alternative.length > 0)
+      .sort()
+      .join(' | ');
+  }
+
+  private jsonSchemaOf(holder: JsonSchema, side: DiffSide): unknown {
+    const content = derefSchema(holder.content, side.resolve);
+    if (!content) {
+      return undefined;
+    }
+
+    const entry = Object.entries(content).find(
+      ([mediaType]) => mediaType === 'application/json' || mediaType.endsWith('+json')
+    ) ?? Object.entries(content)[0];
+
+    return entry ? derefSchema(entry[1], side.resolve)?.schema : undefined;
+  }
+
+  private typesOf(schema: JsonSchema): string[] {
+    const types = Array.isArray(schema.type)
+      ? (schema.type as string[])
+      : typeof schema.type === 'string'
+        ? [schema.type]
+        : [];
+
+    if (types.length > 0 && schema.nullable === true && !types.includes('null')) {
+      return [...types, 'null'];
+    }
+
+    return types;
+  }
+
+  /**
+   * `number` accepts every `integer`, so integer -> number is a widening
+   */
+  private typeAccepts(types: string[], type: string): boolean {
+    return types.includes(type) || (type === 'integer' && types.includes('number'));
+  }
+
+  private push(
+    changes: ApiChange[],
+    kind: ApiChangeKind,
+    breaking: boolean,
+    location: string,
+    message: string
+  ): void {
+    changes.push({ kind, breaking, location, message });
+  }
+}
@@ -0,0 +1,259 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { RefResolver, resolveLocalRef } from '../utils/json-schema';
+
+/**
+ * Key of the root document in the document map
+ */
+export const ROOT_DOCUMENT = '';
+
+// Keys whose values are literal data rather than OpenAPI structure
+const LITERAL_KEYS = new Set(['example', 'default', 'const', 'enum']);
+
+export interface RefResolverOptions {
+  /**
+   * Directory that relative external-file refs are resolved against.
+   * Files outside this directory are never read.
+   */
+  baseDir?: string;
+  /**
+   * Pre-loaded external documents keyed by relative path (e.g. `schemas/common.json`)
+   */
+  externalDocuments?: Record<string, unknown>;
+}
+
+export interface RefIssue {
+  location: string;
+  message: string;
+  code: 'DANGLING_REF' | 'CIRCULAR_REF' | 'UNSUPPORTED_REF' | 'EXTERNAL_REF_LOAD_FAILED';
+}
+
+export interface ResolvedRef {
+  document: string;
+  pointer: string;
+  value: unknown;
+}
+
+interface RefOccurrence {
+  document: string;
+  pointer: string;
+  ref: string;
+}
+
+/**
+ * Resolves internal (`#/components/...`) and external-file
+ * (`common.json#/Model`) `$ref`s across an OpenAPI document and the files it
+ * references, reporting dangling refs and alias cycles
+ */
+export class OpenAPIRefResolver {
+  private readonly documents = new Map<string, unknown>();
+  private readonly failedDocuments = new Map<string, string>();
+  private readonly baseDir?: string;
+  private readonly externalDocuments: Record<string, unknown>;
+
+  constructor(root: Record<string, unknown>, options: RefResolverOptions = {}) {
+    this.documents.set(ROOT_DOCUMENT, root);
+    this.baseDir = options.baseDir ? path.resolve(options.baseDir) : undefined;
+    this.externalDocuments = options.externalDocuments ?? {};
+  }
+
+  /**
+   * Load every document reachable through `$ref`s and check each reference
+   */
+  async resolveAll(): Promise<RefIssue[]> {
+    const issues: RefIssue[] = [];
+    const queue: RefOccurrence[] = [];
+    this.collectRefs(ROOT_DOCUMENT, this.documents.get(ROOT_DOCUMENT), '', queue);
+
+    while (queue.length > 0) {
+      const occurrence = queue.shift()!;
+      const location = formatLocation(occurrence.document, `${occurrence.pointer}/$ref`);
+      const target = this.parseRef(occurrence.ref, occurrence.document);
+
+      if (!target) {
+        issues.push({
+          location,
+          message: `Unsupported reference "${occurrence.ref}": only local and relative file references are allowed`,
+          code: 'UNSUPPORTED_REF',
+        });
+        continue;
+      }
+
+      if (!this.documents.has(target.document)) {
+        const loaded = await this.loadDocument(target.document);
+
+        if (!loaded) {
+          issues.push({
+            location,
+            message: `Cannot load external document "${target.document}": ${this.failedDocuments.get(target.document)}`,
+            code: 'EXTERNAL_REF_LOAD_FAILED',
+          });
+          continue;
+        }
+
+        this.collectRefs(target.document, this.documents.get(target.document), '', queue);
+      }
+
+      if (resolveLocalRef(this.documents.get(target.document), `#${target.pointer}`) === undefined) {
+        issues.push({
+          location,
+          message: `Reference "${occurrence.ref}" does not resolve to anything`,
+          code: 'DANGLING_REF',
+        });
+        continue;
+      }
+
+      if (this.isAliasCycle(occurrence)) {
+        issues.push({
+          location,
+          message: `Reference "${occurrence.ref}" resolves into a circular $ref chain`,
+          code: 'CIRCULAR_REF',
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Resolve a `$ref` found in the given document. Only documents loaded by
+   * resolveAll() are consulted.
+   */
+  resolve(ref: string, fromDocument: string = ROOT_DOCUMENT): ResolvedRef | undefined {
+    const target = this.parseRef(ref, fromDocument);
+    if (!target || !this.documents.has(target.document)) {
+      return undefined;
+    }
+
+    const value = resolveLocalRef(this.documents.get(target.document), `#${target.pointer}`);
+    return value === undefined ? undefined : { ...target, value };
+  }
+
+  /**
+   * A resolver bound to one document, for use with the JSON Schema helpers
+   */
+  resolverFor(document: string = ROOT_DOCUMENT): RefResolver {
+    return (ref) => this.resolve(ref, document)?.value;
+  }
+
+  /**
+   * Split a ref into the document it points at and the JSON Pointer inside it
+   */
+  private parseRef(ref: string, fromDocument: string): { document: string; pointer: string } | undefined {
+    const hashIndex = ref.indexOf('#');
+    const file = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+    const pointer = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+    if (file === '') {
+      return { document: fromDocument, pointer };
+    }
+
+    // Remote and absolute references are not fetched
+    if (/^[a-z][a-z0-9+.-]*:/i.test(file) || path.isAbsolute(file)) {
+      return undefined;
+    }
+
+    const document = path.posix.normalize(path.posix.join(path.posix.dirname(fromDocument || '.'), file));
+    if (document.startsWith('..')) {
+      return undefined;
+    }
+
+    return { document, pointer };
+  }
+
+  private async loadDocument(document: string): Promise<boolean> {
+    if (this.failedDocuments.has(document)) {
+      return false;
+    }
+
+    if (document in this.externalDocuments) {
+      this.documents.set(document, this.externalDocuments[document]);
+      return true;
+    }
+
+    if (!this.baseDir) {
+      this.failedDocuments.set(document, 'external file references are not enabled');
+      return false;
+    }
+
+    if (!/\.json$/i.test(document)) {
+      this.failedDocuments.set(document, 'only JSON documents are supported');
+      return false;
+    }
+
+    try {
+      const content = await fs.readFile(path.join(this.baseDir, document), 'utf8');
+      this.documents.set(document, JSON.parse(content));
+      return true;
+    } catch (error) {
+      this.failedDocuments.set(document, (error as Error).message);
+      return false;
+    }
+  }
+
+  private collectRefs(document: string, node: unknown, pointer: string, queue: RefOccurrence[]): void {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => this.collectRefs(document, item, `${pointer}/${index}`, queue));
+      return;
+    }
+
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+
+    const object = node as Record<string, unknown>;
+    if (typeof object.$ref === 'string') {
+      queue.push({ document, pointer, ref: object.$ref });
+    }
+
+    for (const [key, value] of Object.entries(object)) {
+      if (key !== '$ref' && !LITERAL_KEYS.has(key)) {
+        this.collectRefs(document, value, `${pointer}/${escapePointerSegment(key)}`, queue);
+      }
+    }
+  }
+
+  /**
+   * Follow a chain of objects that are nothing but a `$ref` and report
+   * whether it ends in a loop
+   */
+  private isAliasCycle(start: RefOccurrence): boolean {
+    const seen = new Set<string>([`${start.document}#${start.pointer}`]);
+    let current: { document: string; ref: string } = start;
+
+    for (;;) {
+      const target = this.resolve(current.ref, current.document);
+      if (!target) {
+        return false;
+      }
+
+      const key = `${target.document}#${target.pointer}`;
+      if (seen.has(key)) {
+        return true;
+      }
+      seen.add(key);
+
+      const value = target.value as Record<string, unknown> | null;
+      if (!value || typeof value !== 'object' || typeof value.$ref !== 'string') {
+        return false;
+      }
+
+      current = { document: target.document, ref: value.$ref };
+    }
+  }
+}
+
+/**
+ * Escape a key for use as a JSON Pointer segment (RFC 6901)
+ */
+export function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Location of a node, as a JSON Pointer prefixed with its document for external files
+ */
+export function formatLocation(document: string, pointer: string): string {
+  const normalized = pointer || '/';
+  return document === ROOT_DOCUMENT ? normalized : `${document}#${normalized}`;
+}
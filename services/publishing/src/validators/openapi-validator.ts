@@ -1,14 +1,54 @@
 import { ValidationResult, ValidationError, ValidationWarning } from '../types';
 import { logger } from '../utils/logger';
+import {
+  OpenAPIRefResolver,
+  RefResolverOptions,
+  ROOT_DOCUMENT,
+  escapePointerSegment,
+  formatLocation,
+} from './openapi-ref-resolver';
 
 /**
- * Validates OpenAPI 3.1 specification
+ * Schema dialect of an OpenAPI version: 3.0 uses the OpenAPI Schema Object
+ * (an extended subset of JSON Schema draft 5), 3.1 uses JSON Schema 2020-12
+ */
+type SchemaDialect = '3.0' | '3.1';
+
+const JSON_SCHEMA_TYPES_30 = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+const JSON_SCHEMA_TYPES_31 = [...JSON_SCHEMA_TYPES_30, 'null'];
+
+// Keywords introduced after draft 5 that the 3.0 Schema Object does not understand
+const UNSUPPORTED_30_KEYWORDS = [
+  'const', 'contains', 'propertyNames', 'if', 'then', 'else', 'prefixItems', 'examples',
+  '$defs', 'dependentRequired', 'dependentSchemas', 'unevaluatedProperties', 'unevaluatedItems',
+];
+
+const NON_NEGATIVE_INTEGER_KEYWORDS = [
+  'minLength', 'maxLength', 'minItems', 'maxItems', 'minProperties', 'maxProperties',
+];
+
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas'];
+const SUBSCHEMA_KEYWORDS = [
+  'not', 'contains', 'propertyNames', 'if', 'then', 'else',
+  'unevaluatedProperties', 'unevaluatedItems',
+];
+const SUBSCHEMA_ARRAY_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+
+/**
+ * Validates OpenAPI 3.0 and 3.1 specifications, resolving `$ref`s and
+ * checking every schema against the JSON Schema dialect of the version.
+ * Error locations are JSON Pointers into the document.
  */
 export class OpenAPIValidator {
   private readonly strictMode: boolean;
+  private readonly refOptions: RefResolverOptions;
 
-  constructor(strictMode: boolean = true) {
+  constructor(strictMode: boolean = true, refOptions: RefResolverOptions = {}) {
     this.strictMode = strictMode;
+    this.refOptions = {
+      baseDir: refOptions.baseDir ?? process.env.OPENAPI_REF_BASE_DIR,
+      externalDocuments: refOptions.externalDocuments,
+    };
   }
 
   async validate(spec: Record<string, unknown>): Promise<ValidationResult> {
@@ -17,16 +57,22 @@ export class OpenAPIValidator {
 
     try {
       // Check OpenAPI version
+      let dialect: SchemaDialect | undefined;
+
       if (!spec.openapi || typeof spec.openapi !== 'string') {
         errors.push({
-          field: 'openapi',
+          field: '/openapi',
           message: 'OpenAPI version is required',
           code: 'MISSING_OPENAPI_VERSION',
         });
-      } else if (!spec.openapi.startsWith('3.1')) {
+      } else if (/^3\.0\.\d+$/.test(spec.openapi)) {
+        dialect = '3.0';
+      } else if (/^3\.1\.\d+$/.test(spec.openapi)) {
+        dialect = '3.1';
+      } else {
         errors.push({
-          field: 'openapi',
-          message: 'OpenAPI version must be 3.1.x',
+          field: '/openapi',
+          message: 'OpenAPI version must be 3.0.x or 3.1.x',
           code: 'INVALID_OPENAPI_VERSION',
         });
       }
@@ -34,8 +80,10 @@ export class OpenAPIValidator {
       // Validate info section
       this.validateInfo(spec.info, errors, warnings);
 
-      // Validate paths
-      this.validatePaths(spec.paths, errors, warnings);
+      // Validate paths (3.1 documents may describe only webhooks or components)
+      if (dialect !== '3.1' || spec.paths !== undefined || (!spec.webhooks && !spec.components)) {
+        this.validatePaths(spec.paths, errors, warnings);
+      }
 
       // Validate components
       if (spec.components) {
@@ -52,7 +100,20 @@ export class OpenAPIValidator {
         this.validateSecurity(spec.security, errors, warnings);
       }
 
+      // Resolve $ref chains, including external files
+      const resolver = new OpenAPIRefResolver(spec, this.refOptions);
+      const refIssues = await resolver.resolveAll();
+      refIssues.forEach((issue) => {
+        errors.push({ field: issue.location, message: issue.message, code: issue.code });
+      });
+
+      // Validate every schema against the dialect of the declared version
+      if (dialect) {
+        this.validateSchemas(spec, dialect, resolver, errors, warnings);
+      }
+
       logger.info('OpenAPI validation completed', {
+        openapi: spec.openapi,
         errors: errors.length,
         warnings: warnings.length,
       });
@@ -65,7 +126,7 @@ export class OpenAPIValidator {
     } catch (error) {
       logger.error('OpenAPI validation failed', { error });
       errors.push({
-        field: 'root',
+        field: '/',
         message: `Validation error: ${(error as Error).message}`,
         code: 'VALIDATION_ERROR',
       });
@@ -85,7 +146,7 @@ export class OpenAPIValidator {
   ): void {
     if (!info || typeof info !== 'object') {
       errors.push({
-        field: 'info',
+        field: '/info',
         message: 'Info section is required',
         code: 'MISSING_INFO',
       });
@@ -96,7 +157,7 @@ export class OpenAPIValidator {
 
     if (!infoObj.title) {
       errors.push({
-        field: 'info.title',
+        field: '/info/title',
         message: 'Title is required',
         code: 'MISSING_TITLE',
       });
@@ -104,7 +165,7 @@ export class OpenAPIValidator {
 
     if (!infoObj.version) {
       errors.push({
-        field: 'info.version',
+        field: '/info/version',
         message: 'Version is required',
         code: 'MISSING_VERSION',
       });
@@ -112,7 +173,7 @@ export class OpenAPIValidator {
 
     if (!infoObj.description && this.strictMode) {
       warnings.push({
-        field: 'info.description',
+        field: '/info/description',
         message: 'Description is recommended',
         code: 'MISSING_DESCRIPTION',
       });
@@ -120,7 +181,7 @@ export class OpenAPIValidator {
 
     if (!infoObj.contact && this.strictMode) {
       warnings.push({
-        field: 'info.contact',
+        field: '/info/contact',
         message: 'Contact information is recommended',
         code: 'MISSING_CONTACT',
       });
@@ -134,7 +195,7 @@ export class OpenAPIValidator {
   ): void {
     if (!paths || typeof paths !== 'object') {
       errors.push({
-        field: 'paths',
+        field: '/paths',
         message: 'Paths section is required',
         code: 'MISSING_PATHS',
       });
@@ -146,7 +207,7 @@ export class OpenAPIValidator {
 
     if (pathKeys.length === 0) {
       errors.push({
-        field: 'paths',
+        field: '/paths',
         message: 'At least one path must be defined',
         code: 'EMPTY_PATHS',
       });
@@ -156,7 +217,7 @@ export class OpenAPIValidator {
     for (const path of pathKeys) {
       if (!path.startsWith('/')) {
         errors.push({
-          field: `paths.${path}`,
+          field: `/paths/${escapePointerSegment(path)}`,
           message: 'Path must start with /',
           code: 'INVALID_PATH_FORMAT',
         });
@@ -165,7 +226,7 @@ export class OpenAPIValidator {
       const pathItem = pathsObj[path];
       if (typeof pathItem !== 'object' || pathItem === null) {
         errors.push({
-          field: `paths.${path}`,
+          field: `/paths/${escapePointerSegment(path)}`,
           message: 'Path item must be an object',
           code: 'INVALID_PATH_ITEM',
         });
@@ -187,7 +248,7 @@ export class OpenAPIValidator {
 
     if (definedMethods.length === 0) {
       errors.push({
-        field: `paths.${path}`,
+        field: `/paths/${escapePointerSegment(path)}`,
         message: 'At least one HTTP method must be defined',
         code: 'NO_METHODS_DEFINED',
       });
@@ -197,7 +258,7 @@ export class OpenAPIValidator {
       const operation = pathItem[method];
       if (typeof operation !== 'object' || operation === null) {
         errors.push({
-          field: `paths.${path}.${method}`,
+          field: `/paths/${escapePointerSegment(path)}/${method}`,
           message: 'Operation must be an object',
           code: 'INVALID_OPERATION',
         });
@@ -205,7 +266,7 @@ export class OpenAPIValidator {
       }
 
       this.validateOperation(
-        `${path}.${method}`,
+        `/paths/${escapePointerSegment(path)}/${method}`,
         operation as Record<string, unknown>,
         errors,
         warnings
@@ -221,7 +282,7 @@ export class OpenAPIValidator {
   ): void {
     if (!operation.responses) {
       errors.push({
-        field: `paths.${location}.responses`,
+        field: `${location}/responses`,
         message: 'Responses are required',
         code: 'MISSING_RESPONSES',
       });
@@ -229,7 +290,7 @@ export class OpenAPIValidator {
 
     if (!operation.operationId && this.strictMode) {
       warnings.push({
-        field: `paths.${location}.operationId`,
+        field: `${location}/operationId`,
         message: 'Operation ID is recommended',
         code: 'MISSING_OPERATION_ID',
       });
@@ -237,7 +298,7 @@ export class OpenAPIValidator {
 
     if (!operation.summary && !operation.description && this.strictMode) {
       warnings.push({
-        field: `paths.${location}`,
+        field: location,
         message: 'Summary or description is recommended',
         code: 'MISSING_DOCUMENTATION',
       });
@@ -251,7 +312,7 @@ export class OpenAPIValidator {
   ): void {
     if (typeof components !== 'object' || components === null) {
       errors.push({
-        field: 'components',
+        field: '/components',
         message: 'Components must be an object',
         code: 'INVALID_COMPONENTS',
       });
@@ -264,7 +325,7 @@ export class OpenAPIValidator {
       const schemas = componentsObj.schemas as Record<string, unknown>;
       if (Object.keys(schemas).length === 0) {
         warnings.push({
-          field: 'components.schemas',
+          field: '/components/schemas',
           message: 'Schema definitions are recommended',
           code: 'NO_SCHEMAS',
         });
@@ -279,7 +340,7 @@ export class OpenAPIValidator {
   ): void {
     if (!Array.isArray(servers)) {
       errors.push({
-        field: 'servers',
+        field: '/servers',
         message: 'Servers must be an array',
         code: 'INVALID_SERVERS',
       });
@@ -288,7 +349,7 @@ export class OpenAPIValidator {
 
     if (servers.length === 0 && this.strictMode) {
       warnings.push({
-        field: 'servers',
+        field: '/servers',
         message: 'At least one server should be defined',
         code: 'NO_SERVERS',
       });
@@ -297,7 +358,7 @@ export class OpenAPIValidator {
     servers.forEach((server, index) => {
       if (!server || typeof server !== 'object') {
         errors.push({
-          field: `servers[${index}]`,
+          field: `/servers/${index}`,
           message: 'Server must be an object',
           code: 'INVALID_SERVER',
         });
@@ -307,7 +368,7 @@ export class OpenAPIValidator {
       const serverObj = server as Record<string, unknown>;
       if (!serverObj.url) {
         errors.push({
-          field: `servers[${index}].url`,
+          field: `/servers/${index}/url`,
           message: 'Server URL is required',
           code: 'MISSING_SERVER_URL',
         });
@@ -322,7 +383,7 @@ export class OpenAPIValidator {
   ): void {
     if (!Array.isArray(security)) {
       errors.push({
-        field: 'security',
+        field: '/security',
         message: 'Security must be an array',
         code: 'INVALID_SECURITY',
       });
@@ -331,10 +392,291 @@ export class OpenAPIValidator {
 
     if (security.length === 0 && this.strictMode) {
       warnings.push({
-        field: 'security',
+        field: '/security',
         message: 'Security requirements should be defined',
         code: 'NO_SECURITY',
       });
     }
   }
+
+  /**
+   * Find every Schema Object in the document (component schemas and the
+   * `schema` of parameters, headers and media types) and validate it
+   */
+  private validateSchemas(
+    spec: Record<string, unknown>,
+    dialect: SchemaDialect,
+    resolver: OpenAPIRefResolver,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+  ): void {
+    const visited = new Set<string>();
+    const visit = (node: unknown, pointer: string, isSchemaMap: boolean): void => {
+      if (!node || typeof node !== 'object' || Array.isArray(node)) {
+        if (Array.isArray(node)) {
+          node.forEach((item, index) => visit(item, `${pointer}/${index}`, false));
+        }
+        return;
+      }
+
+      for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+        const childPointer = `${pointer}/${escapePointerSegment(key)}`;
+
+        if (isSchemaMap || key === 'schema') {
+          this.validateSchema(value, dialect, ROOT_DOCUMENT, childPointer, resolver, visited, errors, warnings);
+        } else if (!['example', 'examples', 'default', 'enum', 'const'].includes(key)) {
+          visit(value, childPointer, pointer === '/components' && key === 'schemas');
+        }
+      }
+    };
+
+    visit(spec, '', false);
+  }
+
+  private validateSchema(
+    schema: unknown,
+    dialect: SchemaDialect,
+    document: string,
+    pointer: string,
+    resolver: OpenAPIRefResolver,
+    visited: Set<string>,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+  ): void {
+    const location = formatLocation(document, pointer);
+
+    // 3.1 schemas may be booleans
+    if (typeof schema === 'boolean' && dialect === '3.1') {
+      return;
+    }
+
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      errors.push({
+        field: location,
+        message: dialect === '3.1' ? 'Schema must be an object or boolean' : 'Schema must be an object',
+        code: 'INVALID_SCHEMA',
+      });
+      return;
+    }
+
+    if (visited.has(location)) {
+      return;
+    }
+    visited.add(location);
+
+    const schemaObj = schema as Record<string, unknown>;
+
+    if (typeof schemaObj.$ref === 'string') {
+      if (dialect === '3.0' && Object.keys(schemaObj).some((key) => key !== '$ref')) {
+        warnings.push({
+          field: location,
+          message: 'Sibling keywords of $ref are ignored in OpenAPI 3.0',
+          code: 'REF_SIBLINGS_IGNORED',
+        });
+      }
+
+      // Schemas in external files are only reachable through the ref
+      const target = resolver.resolve(schemaObj.$ref, document);
+      if (target && target.document !== ROOT_DOCUMENT) {
+        this.validateSchema(
+          target.value, dialect, target.document, target.pointer, resolver, visited, errors, warnings
+        );
+      }
+
+      if (dialect === '3.0') {
+        return;
+      }
+    }
+
+    this.validateSchemaKeywords(schemaObj, dialect, location, errors, warnings);
+
+    const validateChild = (child: unknown, childPointer: string) =>
+      this.validateSchema(child, dialect, document, childPointer, resolver, visited, errors, warnings);
+
+    for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+      const map = schemaObj[keyword];
+      if (map === undefined) {
+        continue;
+      }
+
+      if (!map || typeof map !== 'object' || Array.isArray(map)) {
+        errors.push({
+          field: `${location}/${keyword}`,
+          message: `${keyword} must be an object`,
+          code: 'INVALID_SCHEMA_KEYWORD',
+        });
+        continue;
+      }
+
+      for (const [name, child] of Object.entries(map as Record<string, unknown>)) {
+        validateChild(child, `${pointer}/${keyword}/${escapePointerSegment(name)}`);
+      }
+    }
+
+    for (const keyword of SUBSCHEMA_ARRAY_KEYWORDS) {
+      const list = schemaObj[keyword];
+      if (list === undefined) {
+        continue;
+      }
+
+      if (!Array.isArray(list) || list.length === 0) {
+        errors.push({
+          field: `${location}/${keyword}`,
+          message: `${keyword} must be a non-empty array of schemas`,
+          code: 'INVALID_SCHEMA_KEYWORD',
+        });
+        continue;
+      }
+
+      list.forEach((child, index) => validateChild(child, `${pointer}/${keyword}/${index}`));
+    }
+
+    for (const keyword of SUBSCHEMA_KEYWORDS) {
+      if (schemaObj[keyword] !== undefined) {
+        validateChild(schemaObj[keyword], `${pointer}/${keyword}`);
+      }
+    }
+
+    if (schemaObj.items !== undefined) {
+      if (Array.isArray(schemaObj.items)) {
+        errors.push({
+          field: `${location}/items`,
+          message: dialect === '3.1'
+            ? 'items must be a single schema in JSON Schema 2020-12; use prefixItems for tuples'
+            : 'items must be a single schema in OpenAPI 3.0',
+          code: 'INVALID_SCHEMA_KEYWORD',
+        });
+      } else {
+        validateChild(schemaObj.items, `${pointer}/items`);
+      }
+    }
+
+    if (typeof schemaObj.additionalProperties !== 'boolean' && schemaObj.additionalProperties !== undefined) {
+      validateChild(schemaObj.additionalProperties, `${pointer}/additionalProperties`);
+    }
+  }
+
+  private validateSchemaKeywords(
+    schema: Record<string, unknown>,
+    dialect: SchemaDialect,
+    location: string,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+  ): void {
+    const error = (keyword: string, message: string) =>
+      errors.push({ field: `${location}/${keyword}`, message, code: 'INVALID_SCHEMA_KEYWORD' });
+
+    // type
+    if (schema.type !== undefined) {
+      const allowed = dialect === '3.1' ? JSON_SCHEMA_TYPES_31 : JSON_SCHEMA_TYPES_30;
+
+      if (Array.isArray(schema.type)) {
+        if (dialect === '3.0') {
+          error('type', 'type must be a single string in OpenAPI 3.0; use nullable for null values');
+        } else if (
+          schema.type.length === 0 ||
+          new Set(schema.type).size !== schema.type.length ||
+          schema.type.some((type) => !allowed.includes(type as string))
+        ) {
+          error('type', `type must be a non-empty array of unique values from: ${allowed.join(', ')}`);
+        }
+      } else if (typeof schema.type !== 'string' || !allowed.includes(schema.type)) {
+        error('type', `type must be one of: ${allowed.join(', ')}`);
+      }
+
+      if (dialect === '3.0' && schema.type === 'array' && schema.items === undefined) {
+        error('items', 'items is required when type is array in OpenAPI 3.0');
+      }
+    }
+
+    // nullable only exists in the 3.0 Schema Object
+    if (schema.nullable !== undefined) {
+      if (dialect === '3.1') {
+        error('nullable', "nullable is not supported in OpenAPI 3.1; add 'null' to type instead");
+      } else if (typeof schema.nullable !== 'boolean') {
+        error('nullable', 'nullable must be a boolean');
+      }
+    }
+
+    // exclusiveMinimum/Maximum changed from boolean modifiers (draft 5) to numbers (2020-12)
+    for (const keyword of ['exclusiveMinimum', 'exclusiveMaximum']) {
+      const value = schema[keyword];
+      if (value === undefined) {
+        continue;
+      }
+
+      if (dialect === '3.0' && typeof value !== 'boolean') {
+        error(keyword, `${keyword} must be a boolean in OpenAPI 3.0`);
+      } else if (dialect === '3.1' && typeof value !== 'number') {
+        error(keyword, `${keyword} must be a number in OpenAPI 3.1`);
+      }
+    }
+
+    if (dialect === '3.0') {
+      for (const keyword of UNSUPPORTED_30_KEYWORDS) {
+        if (schema[keyword] !== undefined) {
+          warnings.push({
+            field: `${location}/${keyword}`,
+            message: `${keyword} is not supported by the OpenAPI 3.0 Schema Object and will be ignored`,
+            code: 'UNSUPPORTED_SCHEMA_KEYWORD',
+          });
+        }
+      }
+    }
+
+    for (const keyword of NON_NEGATIVE_INTEGER_KEYWORDS) {
+      const value = schema[keyword];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+        error(keyword, `${keyword} must be a non-negative integer`);
+      }
+    }
+
+    for (const keyword of ['minimum', 'maximum', 'multipleOf']) {
+      if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+        error(keyword, `${keyword} must be a number`);
+      }
+    }
+
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf <= 0) {
+      error('multipleOf', 'multipleOf must be greater than 0');
+    }
+
+    if (
+      typeof schema.minimum === 'number' &&
+      typeof schema.maximum === 'number' &&
+      schema.minimum > schema.maximum
+    ) {
+      error('minimum', 'minimum must not be greater than maximum');
+    }
+
+    if (schema.required !== undefined) {
+      const required = schema.required;
+      if (
+        !Array.isArray(required) ||
+        required.some((name) => typeof name !== 'string') ||
+        new Set(required).size !== required.length
+      ) {
+        error('required', 'required must be an array of unique property names');
+      }
+    }
+
+    if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+      error('enum', 'enum must be a non-empty array');
+    }
+
+    if (schema.pattern !== undefined) {
+      try {
+        if (typeof schema.pattern !== 'string') {
+          throw new Error('pattern is not a string');
+        }
+        new RegExp(schema.pattern);
+      } catch {
+        error('pattern', 'pattern must be a valid regular expression');
+      }
+    }
+
+    if (schema.format !== undefined && typeof schema.format !== 'string') {
+      error('format', 'format must be a string');
+    }
+  }
 }
@@ -0,0 +1,354 @@
+import { ProtoEnum, ProtoField, ProtoFieldLabel, ProtoFile, ProtoMessage, ProtoMethod, ProtoService } from '../types';
+import { ProtoReader, WireType } from '../utils/protobuf-wire';
+
+// FieldDescriptorProto.Type values, indexed by number
+const FIELD_TYPES = [
+  '', 'double', 'float', 'int64', 'uint64', 'int32', 'fixed64', 'fixed32', 'bool', 'string',
+  'group', 'message', 'bytes', 'uint32', 'enum', 'sfixed32', 'sfixed64', 'sint32', 'sint64',
+];
+
+const FIELD_LABELS: Record<number, ProtoFieldLabel> = { 1: 'optional', 2: 'required', 3: 'repeated' };
+
+// Field numbers in descriptor.proto used to address comments in SourceCodeInfo
+const FILE_SERVICE_FIELD = 6;
+const SERVICE_METHOD_FIELD = 2;
+
+interface DecodedMessage extends ProtoMessage {
+  mapEntry: boolean;
+}
+
+/**
+ * Decode a serialized `google.protobuf.FileDescriptorSet` (as produced by
+ * `protoc --descriptor_set_out --include_imports`) into the same model the
+ * `.proto` parser produces. Map entry messages are folded back into map fields.
+ */
+export function decodeFileDescriptorSet(buffer: Buffer): ProtoFile[] {
+  const reader = new ProtoReader(buffer);
+  const files: ProtoFile[] = [];
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1 && wireType === WireType.LENGTH_DELIMITED) {
+      files.push(decodeFile(reader.bytes()));
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return files;
+}
+
+function decodeFile(buffer: Buffer): ProtoFile {
+  const reader = new ProtoReader(buffer);
+  const messages: DecodedMessage[] = [];
+  const enums: ProtoEnum[] = [];
+  const services: ProtoService[] = [];
+  const comments = new Map<string, string>();
+  const file: ProtoFile = { name: '', syntax: 'proto2', dependencies: [], messages: [], enums, services };
+  const nested: Buffer[] = [];
+  const topLevelEnums: Buffer[] = [];
+  const serviceBuffers: Buffer[] = [];
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    switch (field) {
+      case 1:
+        file.name = reader.string();
+        break;
+      case 2:
+        file.package = reader.string();
+        break;
+      case 3:
+        file.dependencies.push(reader.string());
+        break;
+      case 4:
+        nested.push(reader.bytes());
+        break;
+      case 5:
+        topLevelEnums.push(reader.bytes());
+        break;
+      case FILE_SERVICE_FIELD:
+        serviceBuffers.push(reader.bytes());
+        break;
+      case 9:
+        decodeSourceCodeInfo(reader.bytes(), comments);
+        break;
+      case 12: {
+        const syntax = reader.string();
+        if (syntax !== 'proto2' && syntax !== 'proto3') {
+          throw new Error(`${file.name}: unsupported syntax "${syntax}"`);
+        }
+        file.syntax = syntax;
+        break;
+      }
+      case 14:
+        throw new Error(`${file.name}: protobuf editions are not supported`);
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  // Definitions are qualified once the whole file, including its package, has been read
+  const scope = file.package ?? '';
+  for (const message of nested) {
+    decodeMessage(message, scope, messages, enums);
+  }
+  for (const protoEnum of topLevelEnums) {
+    enums.push(decodeEnum(protoEnum, scope));
+  }
+  for (const service of serviceBuffers) {
+    services.push(decodeService(service, scope));
+  }
+
+  services.forEach((service, serviceIndex) => {
+    const serviceComment = comments.get(`${FILE_SERVICE_FIELD}.${serviceIndex}`);
+    if (serviceComment) {
+      service.comment = serviceComment;
+    }
+    service.methods.forEach((method, methodIndex) => {
+      const comment = comments.get(`${FILE_SERVICE_FIELD}.${serviceIndex}.${SERVICE_METHOD_FIELD}.${methodIndex}`);
+      if (comment) {
+        method.comment = comment;
+      }
+    });
+  });
+
+  file.messages = foldMapEntries(messages);
+  return file;
+}
+
+function decodeMessage(buffer: Buffer, scope: string, messages: DecodedMessage[], enums: ProtoEnum[]): void {
+  const reader = new ProtoReader(buffer);
+  const message: DecodedMessage = { fullName: '', fields: [], mapEntry: false };
+  const nested: Buffer[] = [];
+  const nestedEnums: Buffer[] = [];
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    switch (field) {
+      case 1:
+        message.fullName = scope ? `${scope}.${reader.string()}` : reader.string();
+        break;
+      case 2:
+        message.fields.push(decodeField(reader.bytes()));
+        break;
+      case 3:
+        nested.push(reader.bytes());
+        break;
+      case 4:
+        nestedEnums.push(reader.bytes());
+        break;
+      case 7:
+        message.mapEntry = decodeMapEntryOption(reader.bytes());
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  messages.push(message);
+  for (const child of nested) {
+    decodeMessage(child, message.fullName, messages, enums);
+  }
+  for (const child of nestedEnums) {
+    enums.push(decodeEnum(child, message.fullName));
+  }
+}
+
+function decodeField(buffer: Buffer): ProtoField {
+  const reader = new ProtoReader(buffer);
+  const field: ProtoField = { name: '', number: 0, label: 'optional', type: '' };
+  let typeName = '';
+
+  while (!reader.done) {
+    const { field: number, wireType } = reader.tag();
+    switch (number) {
+      case 1:
+        field.name = reader.string();
+        break;
+      case 3:
+        field.number = reader.int32();
+        break;
+      case 4:
+        field.label = FIELD_LABELS[reader.varint()] ?? 'optional';
+        break;
+      case 5:
+        field.type = FIELD_TYPES[reader.varint()] ?? '';
+        break;
+      case 6:
+        typeName = reader.string();
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  if (typeName) {
+    field.type = typeName;
+  }
+
+  return field;
+}
+
+function decodeEnum(buffer: Buffer, scope: string): ProtoEnum {
+  const reader = new ProtoReader(buffer);
+  const protoEnum: ProtoEnum = { fullName: '', values: [] };
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1) {
+      protoEnum.fullName = scope ? `${scope}.${reader.string()}` : reader.string();
+    } else if (field === 2) {
+      const value = new ProtoReader(reader.bytes());
+      const entry = { name: '', number: 0 };
+      while (!value.done) {
+        const tag = value.tag();
+        if (tag.field === 1) {
+          entry.name = value.string();
+        } else if (tag.field === 2) {
+          entry.number = value.int32();
+        } else {
+          value.skip(tag.wireType);
+        }
+      }
+      protoEnum.values.push(entry);
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return protoEnum;
+}
+
+function decodeService(buffer: Buffer, scope: string): ProtoService {
+  const reader = new ProtoReader(buffer);
+  const service: ProtoService = { fullName: '', methods: [] };
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1) {
+      service.fullName = scope ? `${scope}.${reader.string()}` : reader.string();
+    } else if (field === SERVICE_METHOD_FIELD) {
+      service.methods.push(decodeMethod(reader.bytes()));
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return service;
+}
+
+function decodeMethod(buffer: Buffer): ProtoMethod {
+  const reader = new ProtoReader(buffer);
+  const method: ProtoMethod = {
+    name: '',
+    inputType: '',
+    outputType: '',
+    clientStreaming: false,
+    serverStreaming: false,
+  };
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    switch (field) {
+      case 1:
+        method.name = reader.string();
+        break;
+      case 2:
+        method.inputType = reader.string();
+        break;
+      case 3:
+        method.outputType = reader.string();
+        break;
+      case 5:
+        method.clientStreaming = reader.bool();
+        break;
+      case 6:
+        method.serverStreaming = reader.bool();
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  return method;
+}
+
+/**
+ * MessageOptions.map_entry (field 7)
+ */
+function decodeMapEntryOption(buffer: Buffer): boolean {
+  const reader = new ProtoReader(buffer);
+  let mapEntry = false;
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 7 && wireType === WireType.VARINT) {
+      mapEntry = reader.bool();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return mapEntry;
+}
+
+/**
+ * Collect leading comments keyed by their dotted descriptor path
+ */
+function decodeSourceCodeInfo(buffer: Buffer, comments: Map<string, string>): void {
+  const reader = new ProtoReader(buffer);
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field !== 1) {
+      reader.skip(wireType);
+      continue;
+    }
+
+    const location = new ProtoReader(reader.bytes());
+    const path: number[] = [];
+    let leading: string | undefined;
+
+    while (!location.done) {
+      const tag = location.tag();
+      if (tag.field === 1 && tag.wireType === WireType.LENGTH_DELIMITED) {
+        const packed = new ProtoReader(location.bytes());
+        while (!packed.done) {
+          path.push(packed.int32());
+        }
+      } else if (tag.field === 1) {
+        path.push(location.int32());
+      } else if (tag.field === 3) {
+        leading = location.string().trim();
+      } else {
+        location.skip(tag.wireType);
+      }
+    }
+
+    if (leading) {
+      comments.set(path.join('.'), leading);
+    }
+  }
+}
+
+/**
+ * Replace fields typed by synthetic `*Entry` messages with map fields
+ */
+function foldMapEntries(messages: DecodedMessage[]): ProtoMessage[] {
+  const entries = new Map(
+    messages.filter((message) => message.mapEntry).map((message) => [`.${message.fullName}`, message])
+  );
+
+  return messages
+    .filter((message) => !message.mapEntry)
+    .map(({ fullName, fields }) => ({
+      fullName,
+      fields: fields.map((field) => {
+        const entry = entries.get(field.type);
+        const key = entry?.fields.find((entryField) => entryField.number === 1);
+        const value = entry?.fields.find((entryField) => entryField.number === 2);
+        return key && value ? { ...field, type: value.type, mapKeyType: key.type } : field;
+      }),
+    }));
+}
@@ -0,0 +1,561 @@
+import { ProtoEnum, ProtoField, ProtoFieldLabel, ProtoFile, ProtoMessage, ProtoService } from '../types';
+
+/**
+ * Syntax error in a `.proto` source, with its position
+ */
+export class ProtoSyntaxError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly line: number,
+    public readonly column: number,
+    detail: string
+  ) {
+    super(`${file}:${line}:${column}: ${detail}`);
+    this.name = 'ProtoSyntaxError';
+  }
+}
+
+interface Token {
+  kind: 'ident' | 'number' | 'string' | 'symbol';
+  value: string;
+  line: number;
+  column: number;
+  /** `//` comment block directly above the token */
+  comment?: string;
+}
+
+const LABELS = new Set(['optional', 'required', 'repeated']);
+
+/**
+ * Parser for proto2/proto3 `.proto` sources. It extracts the declarations
+ * the marketplace needs (messages, enums, services) and skips options,
+ * extensions and reserved ranges.
+ */
+export class ProtoParser {
+  private readonly tokens: Token[];
+  private position = 0;
+  private readonly file: ProtoFile;
+
+  constructor(private readonly fileName: string, source: string) {
+    this.tokens = tokenize(fileName, source);
+    this.file = {
+      name: fileName,
+      syntax: 'proto2',
+      dependencies: [],
+      messages: [],
+      enums: [],
+      services: [],
+    };
+  }
+
+  parse(): ProtoFile {
+    while (!this.atEnd()) {
+      const token = this.peek();
+
+      if (this.acceptSymbol(';')) {
+        continue;
+      }
+
+      switch (token.value) {
+        case 'syntax':
+          this.parseSyntax();
+          break;
+        case 'edition':
+          throw this.error(token, 'Protobuf editions are not supported, use syntax = "proto3"');
+        case 'package':
+          this.next();
+          this.file.package = this.expectFullIdent();
+          this.expectSymbol(';');
+          break;
+        case 'import':
+          this.next();
+          if (this.peek().value === 'weak' || this.peek().value === 'public') {
+            this.next();
+          }
+          this.file.dependencies.push(this.expectString());
+          this.expectSymbol(';');
+          break;
+        case 'option':
+          this.skipStatement();
+          break;
+        case 'message':
+          this.parseMessage(this.file.package ?? '');
+          break;
+        case 'enum':
+          this.parseEnum(this.file.package ?? '');
+          break;
+        case 'service':
+          this.parseService();
+          break;
+        case 'extend':
+          this.skipStatement();
+          break;
+        default:
+          throw this.error(token, `Unexpected '${token.value}'`);
+      }
+    }
+
+    return this.file;
+  }
+
+  private parseSyntax(): void {
+    this.next();
+    this.expectSymbol('=');
+    const syntaxToken = this.peek();
+    const syntax = this.expectString();
+
+    if (syntax !== 'proto2' && syntax !== 'proto3') {
+      throw this.error(syntaxToken, `Unsupported syntax "${syntax}"`);
+    }
+
+    this.file.syntax = syntax;
+    this.expectSymbol(';');
+  }
+
+  private parseMessage(scope: string): void {
+    this.expectIdent('message');
+    const name = this.expectIdent();
+    this.parseMessageBody(qualify(scope, name));
+  }
+
+  private parseMessageBody(fullName: string): void {
+    const message: ProtoMessage = { fullName, fields: [] };
+    this.file.messages.push(message);
+    this.expectSymbol('{');
+
+    while (!this.acceptSymbol('}')) {
+      const token = this.peek();
+
+      if (this.acceptSymbol(';')) {
+        continue;
+      }
+
+      switch (token.value) {
+        case 'message':
+          this.parseMessage(fullName);
+          break;
+        case 'enum':
+          this.parseEnum(fullName);
+          break;
+        case 'oneof':
+          this.parseOneof(message);
+          break;
+        case 'map':
+          message.fields.push(this.parseMapField());
+          break;
+        case 'option':
+        case 'reserved':
+        case 'extensions':
+        case 'extend':
+          this.skipStatement();
+          break;
+        default:
+          message.fields.push(this.parseField(fullName));
+      }
+    }
+  }
+
+  private parseOneof(message: ProtoMessage): void {
+    this.next();
+    this.expectIdent();
+    this.expectSymbol('{');
+
+    while (!this.acceptSymbol('}')) {
+      if (this.acceptSymbol(';')) {
+        continue;
+      }
+      if (this.peek().value === 'option') {
+        this.skipStatement();
+        continue;
+      }
+      message.fields.push(this.parseField(message.fullName));
+    }
+  }
+
+  private parseField(scope: string): ProtoField {
+    let label: ProtoFieldLabel = 'optional';
+    if (this.peek().kind === 'ident' && LABELS.has(this.peek().value)) {
+      label = this.next().value as ProtoFieldLabel;
+    }
+
+    // proto2 groups declare a nested message and a field of that type at once
+    if (this.peek().value === 'group') {
+      this.next();
+      const groupName = this.expectIdent();
+      this.expectSymbol('=');
+      const number = this.expectInteger();
+      this.skipFieldOptions();
+      this.parseMessageBody(qualify(scope, groupName));
+      return { name: groupName.toLowerCase(), number, label, type: groupName };
+    }
+
+    const type = this.expectFullIdent();
+    const name = this.expectIdent();
+    this.expectSymbol('=');
+    const number = this.expectInteger();
+    this.skipFieldOptions();
+    this.expectSymbol(';');
+
+    return { name, number, label, type };
+  }
+
+  private parseMapField(): ProtoField {
+    this.next();
+    this.expectSymbol('<');
+    const mapKeyType = this.expectFullIdent();
+    this.expectSymbol(',');
+    const type = this.expectFullIdent();
+    this.expectSymbol('>');
+    const name = this.expectIdent();
+    this.expectSymbol('=');
+    const number = this.expectInteger();
+    this.skipFieldOptions();
+    this.expectSymbol(';');
+
+    return { name, number, label: 'repeated', type, mapKeyType };
+  }
+
+  private parseEnum(scope: string): void {
+    this.expectIdent('enum');
+    const protoEnum: ProtoEnum = { fullName: qualify(scope, this.expectIdent()), values: [] };
+    this.file.enums.push(protoEnum);
+    this.expectSymbol('{');
+
+    while (!this.acceptSymbol('}')) {
+      if (this.acceptSymbol(';')) {
+        continue;
+      }
+      if (this.peek().value === 'option' || this.peek().value === 'reserved') {
+        this.skipStatement();
+        continue;
+      }
+
+      const name = this.expectIdent();
+      this.expectSymbol('=');
+      const negative = this.acceptSymbol('-');
+      const number = this.expectInteger();
+      this.skipFieldOptions();
+      this.expectSymbol(';');
+      protoEnum.values.push({ name, number: negative ? -number : number });
+    }
+  }
+
+  private parseService(): void {
+    const serviceToken = this.next();
+    const service: ProtoService = {
+      fullName: qualify(this.file.package ?? '', this.expectIdent()),
+      methods: [],
+      ...(serviceToken.comment ? { comment: serviceToken.comment } : {}),
+    };
+    this.file.services.push(service);
+    this.expectSymbol('{');
+
+    while (!this.acceptSymbol('}')) {
+      if (this.acceptSymbol(';')) {
+        continue;
+      }
+      if (this.peek().value === 'option') {
+        this.skipStatement();
+        continue;
+      }
+
+      const rpcToken = this.peek();
+      this.expectIdent('rpc');
+      const name = this.expectIdent();
+      const input = this.parseRpcType();
+      this.expectIdent('returns');
+      const output = this.parseRpcType();
+
+      // Either `;` or a block of method options
+      if (!this.acceptSymbol(';')) {
+        this.skipBlock();
+        this.acceptSymbol(';');
+      }
+
+      service.methods.push({
+        name,
+        inputType: input.type,
+        outputType: output.type,
+        clientStreaming: input.streaming,
+        serverStreaming: output.streaming,
+        ...(rpcToken.comment ? { comment: rpcToken.comment } : {}),
+      });
+    }
+  }
+
+  private parseRpcType(): { type: string; streaming: boolean } {
+    this.expectSymbol('(');
+    let streaming = false;
+    if (this.peek().value === 'stream' && this.peekAt(1)?.value !== ')') {
+      this.next();
+      streaming = true;
+    }
+    const type = this.expectFullIdent();
+    this.expectSymbol(')');
+    return { type, streaming };
+  }
+
+  /**
+   * Skip a statement up to its `;`, or a declaration up to its closing brace
+   */
+  private skipStatement(): void {
+    while (!this.atEnd()) {
+      const token = this.next();
+      if (token.kind === 'symbol' && token.value === ';') {
+        return;
+      }
+      if (token.kind === 'symbol' && token.value === '{') {
+        this.position--;
+        this.skipBlock();
+        // Aggregate option values (`option (x) = { ... };`) end with a semicolon
+        this.acceptSymbol(';');
+        return;
+      }
+    }
+  }
+
+  private skipBlock(): void {
+    this.expectSymbol('{');
+    let depth = 1;
+
+    while (depth > 0) {
+      if (this.atEnd()) {
+        throw this.error(this.tokens[this.tokens.length - 1], "Missing '}'");
+      }
+      const token = this.next();
+      if (token.kind === 'symbol' && token.value === '{') {
+        depth++;
+      } else if (token.kind === 'symbol' && token.value === '}') {
+        depth--;
+      }
+    }
+  }
+
+  private skipFieldOptions(): void {
+    if (!this.acceptSymbol('[')) {
+      return;
+    }
+
+    let depth = 1;
+    while (depth > 0) {
+      if (this.atEnd()) {
+        throw this.error(this.tokens[this.tokens.length - 1], "Missing ']'");
+      }
+      const token = this.next();
+      if (token.kind === 'symbol' && (token.value === '[' || token.value === '{')) {
+        depth++;
+      } else if (token.kind === 'symbol' && (token.value === ']' || token.value === '}')) {
+        depth--;
+      }
+    }
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  private peek(): Token {
+    if (this.atEnd()) {
+      const last = this.tokens[this.tokens.length - 1];
+      throw new ProtoSyntaxError(this.fileName, last?.line ?? 1, last?.column ?? 1, 'Unexpected end of file');
+    }
+    return this.tokens[this.position];
+  }
+
+  private peekAt(offset: number): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.position++;
+    return token;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.atEnd() && this.peek().kind === 'symbol' && this.peek().value === symbol) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectSymbol(symbol: string): void {
+    const token = this.peek();
+    if (!this.acceptSymbol(symbol)) {
+      throw this.error(token, `Expected '${symbol}' but found '${token.value}'`);
+    }
+  }
+
+  private expectIdent(keyword?: string): string {
+    const token = this.next();
+    if (token.kind !== 'ident' || token.value.includes('.') || (keyword && token.value !== keyword)) {
+      throw this.error(token, `Expected ${keyword ? `'${keyword}'` : 'an identifier'} but found '${token.value}'`);
+    }
+    return token.value;
+  }
+
+  private expectFullIdent(): string {
+    const token = this.next();
+    if (token.kind !== 'ident') {
+      throw this.error(token, `Expected a type name but found '${token.value}'`);
+    }
+    return token.value;
+  }
+
+  private expectString(): string {
+    const token = this.next();
+    if (token.kind !== 'string') {
+      throw this.error(token, `Expected a string but found '${token.value}'`);
+    }
+    return token.value;
+  }
+
+  private expectInteger(): number {
+    const token = this.next();
+    const value = token.kind === 'number' ? parseInteger(token.value) : NaN;
+    if (!Number.isInteger(value)) {
+      throw this.error(token, `Expected an integer but found '${token.value}'`);
+    }
+    return value;
+  }
+
+  private error(token: Token, detail: string): ProtoSyntaxError {
+    return new ProtoSyntaxError(this.fileName, token.line, token.column, detail);
+  }
+}
+
+/**
+ * Parse a single `.proto` source
+ */
+export function parseProto(fileName: string, source: string): ProtoFile {
+  return new ProtoParser(fileName, source).parse();
+}
+
+function qualify(scope: string, name: string): string {
+  return scope ? `${scope}.${name}` : name;
+}
+
+function parseInteger(value: string): number {
+  if (/^0[xX][0-9a-fA-F]+$/.test(value)) {
+    return parseInt(value.slice(2), 16);
+  }
+  if (/^0[0-7]+$/.test(value)) {
+    return parseInt(value, 8);
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+}
+
+function tokenize(fileName: string, source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  let line = 1;
+  let lineStart = 0;
+  let comment: string[] = [];
+
+  const fail = (detail: string): never => {
+    throw new ProtoSyntaxError(fileName, line, index - lineStart + 1, detail);
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === '\n') {
+      // A blank line detaches a comment from the declaration below it
+      if (source.slice(lineStart, index).trim() === '') {
+        comment = [];
+      }
+      index++;
+      line++;
+      lineStart = index;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (source.startsWith('//', index)) {
+      const end = source.indexOf('\n', index);
+      const text = source.slice(index + 2, end === -1 ? source.length : end);
+      // Trailing comments describe the line they end, not the next declaration
+      if (source.slice(lineStart, index).trim() === '') {
+        comment.push(text.replace(/^\/?\s?/, '').trimEnd());
+      }
+      index = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (source.startsWith('/*', index)) {
+      const end = source.indexOf('*/', index + 2);
+      if (end === -1) {
+        fail('Unterminated block comment');
+      }
+      const text = source.slice(index + 2, end);
+      for (const commentLine of text.split('\n')) {
+        comment.push(commentLine.replace(/^\s*\*?\s?/, '').trimEnd());
+      }
+      const newlines = text.split('\n').length - 1;
+      if (newlines > 0) {
+        line += newlines;
+        lineStart = index + 2 + text.lastIndexOf('\n') + 1;
+      }
+      index = end + 2;
+      continue;
+    }
+
+    const column = index - lineStart + 1;
+    const leading = comment.filter((text) => text !== '').join('\n');
+    const push = (kind: Token['kind'], value: string) => {
+      tokens.push({ kind, value, line, column, ...(leading ? { comment: leading } : {}) });
+      comment = [];
+    };
+
+    const identifier = /^\.?[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(index, index + 512));
+    if (identifier) {
+      push('ident', identifier[0]);
+      index += identifier[0].length;
+      continue;
+    }
+
+    const number = /^(0[xX][0-9a-fA-F]+|\d+(\.\d*)?([eE][+-]?\d+)?|\.\d+([eE][+-]?\d+)?)/.exec(
+      source.slice(index, index + 64)
+    );
+    if (number) {
+      push('number', number[0]);
+      index += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (source[index] !== char) {
+        if (index >= source.length || source[index] === '\n') {
+          fail('Unterminated string');
+        }
+        if (source[index] === '\\') {
+          const escaped = source[index + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      index++;
+      push('string', value);
+      continue;
+    }
+
+    if ('{}[]()<>;=,:-+/'.includes(char)) {
+      push('symbol', char);
+      index++;
+      continue;
+    }
+
+    fail(`Unexpected character '${char}'`);
+  }
+
+  return tokens;
+}
@@ -0,0 +1,404 @@
+import {
+  GrpcSpec,
+  ProtoFile,
+  ProtoMethod,
+  ServiceCapability,
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+} from '../types';
+import { logger } from '../utils/logger';
+import { ProtoSyntaxError, parseProto } from './proto-parser';
+import { decodeFileDescriptorSet } from './proto-descriptor-set';
+
+const SCALAR_TYPES = new Set([
+  'double', 'float', 'int32', 'int64', 'uint32', 'uint64', 'sint32', 'sint64',
+  'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'bool', 'string', 'bytes',
+]);
+
+// Map keys may be any integral or string scalar
+const MAP_KEY_TYPES = new Set([...SCALAR_TYPES].filter((type) => !['double', 'float', 'bytes'].includes(type)));
+
+// Well-known types that may be imported without being uploaded
+const WELL_KNOWN_MESSAGES = [
+  'Any', 'Api', 'BoolValue', 'BytesValue', 'DoubleValue', 'Duration', 'Empty', 'FieldMask',
+  'FloatValue', 'Int32Value', 'Int64Value', 'ListValue', 'StringValue', 'Struct', 'Timestamp',
+  'UInt32Value', 'UInt64Value', 'Value',
+].map((name) => `google.protobuf.${name}`);
+const WELL_KNOWN_ENUMS = ['google.protobuf.NullValue'];
+const WELL_KNOWN_IMPORT = /^google\/protobuf\/[a-z_]+\.proto$/;
+
+// Infrastructure services that are not marketplace capabilities
+const INFRASTRUCTURE_SERVICES = /^grpc\.(health|reflection)\./;
+
+const MIN_FIELD_NUMBER = 1;
+const MAX_FIELD_NUMBER = 536870911;
+const RESERVED_FIELD_NUMBERS = { from: 19000, to: 19999 };
+
+interface SymbolTable {
+  messages: Map<string, string>;
+  enums: Map<string, string>;
+}
+
+/**
+ * Validates the protobuf description of a gRPC service, uploaded either as
+ * `.proto` sources or as a serialized FileDescriptorSet, and derives
+ * marketplace capabilities from its RPC methods.
+ * Error locations are `file` or `file#fully.qualified.Symbol`.
+ */
+export class ProtobufValidator {
+  /**
+   * Parse the uploaded descriptors. A descriptor set takes precedence over
+   * `.proto` sources when both are present.
+   */
+  loadDescriptors(spec: GrpcSpec): ProtoFile[] {
+    if (spec.fileDescriptorSet) {
+      const encoded = spec.fileDescriptorSet.replace(/\s+/g, '');
+      if (!/^[A-Za-z0-9+/]+={0,2}$/.test(encoded)) {
+        throw new Error('fileDescriptorSet must be base64 encoded');
+      }
+      return decodeFileDescriptorSet(Buffer.from(encoded, 'base64'));
+    }
+
+    return Object.entries(spec.protoFiles ?? {}).map(([name, source]) => parseProto(name, source));
+  }
+
+  async validate(spec: GrpcSpec): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    try {
+      if (!spec.fileDescriptorSet && Object.keys(spec.protoFiles ?? {}).length === 0) {
+        errors.push({
+          field: 'grpcSpec',
+          message: 'Either protoFiles or fileDescriptorSet is required',
+          code: 'MISSING_DESCRIPTORS',
+        });
+        return { isValid: false, errors, warnings };
+      }
+
+      if (spec.fileDescriptorSet && spec.protoFiles) {
+        warnings.push({
+          field: 'grpcSpec.protoFiles',
+          message: 'protoFiles are ignored when a fileDescriptorSet is provided',
+          code: 'IGNORED_PROTO_FILES',
+        });
+      }
+
+      let files: ProtoFile[];
+      try {
+        files = this.loadDescriptors(spec);
+      } catch (error) {
+        errors.push({
+          field: error instanceof ProtoSyntaxError ? `${error.file}:${error.line}:${error.column}` : 'grpcSpec',
+          message: (error as Error).message,
+          code: error instanceof ProtoSyntaxError ? 'PROTO_SYNTAX_ERROR' : 'INVALID_DESCRIPTOR_SET',
+        });
+        return { isValid: false, errors, warnings };
+      }
+
+      const symbols = this.buildSymbolTable(files, errors);
+
+      for (const file of files) {
+        this.validateImports(file, files, errors);
+        this.validateMessages(file, symbols, errors);
+        this.validateEnums(file, errors);
+        this.validateServices(file, symbols, errors);
+
+        if (!file.package) {
+          warnings.push({
+            field: file.name,
+            message: 'A package declaration is recommended to avoid name clashes',
+            code: 'MISSING_PACKAGE',
+          });
+        }
+      }
+
+      const services = files.flatMap((file) => file.services)
+        .filter((service) => !INFRASTRUCTURE_SERVICES.test(service.fullName));
+      if (!services.some((service) => service.methods.length > 0)) {
+        errors.push({
+          field: 'grpcSpec',
+          message: 'At least one service with an RPC method is required',
+          code: 'NO_SERVICES',
+        });
+      }
+
+      if (spec.healthServiceName && !services.some((service) => service.fullName === spec.healthServiceName)) {
+        warnings.push({
+          field: 'grpcSpec.healthServiceName',
+          message: `Health service name '${spec.healthServiceName}' does not match a declared service`,
+          code: 'UNKNOWN_HEALTH_SERVICE',
+        });
+      }
+
+      logger.info('Protobuf validation completed', {
+        files: files.length,
+        services: services.length,
+        errors: errors.length,
+        warnings: warnings.length,
+      });
+
+      return {
+        isValid: errors.length === 0,
+        errors,
+        warnings,
+      };
+    } catch (error) {
+      logger.error('Protobuf validation failed', { error });
+      errors.push({
+        field: 'grpcSpec',
+        message: `Validation error: ${(error as Error).message}`,
+        code: 'VALIDATION_ERROR',
+      });
+
+      return {
+        isValid: false,
+        errors,
+        warnings,
+      };
+    }
+  }
+
+  /**
+   * One capability per RPC method, named by its gRPC method path
+   * (`package.Service/Method`)
+   */
+  deriveCapabilities(files: ProtoFile[]): ServiceCapability[] {
+    const symbols = this.buildSymbolTable(files, []);
+    const capabilities: ServiceCapability[] = [];
+
+    for (const file of files) {
+      for (const service of file.services) {
+        if (INFRASTRUCTURE_SERVICES.test(service.fullName)) {
+          continue;
+        }
+
+        for (const method of service.methods) {
+          const scope = file.package ?? '';
+          const inputType = this.resolveType(method.inputType, scope, symbols) ?? method.inputType;
+          const outputType = this.resolveType(method.outputType, scope, symbols) ?? method.outputType;
+          const streaming = this.streamingKind(method);
+          const kind = `${streaming.charAt(0).toUpperCase()}${streaming.slice(1)}`;
+          const description = method.comment ?? `${kind} RPC ${method.name} (${inputType} -> ${outputType})`;
+
+          capabilities.push({
+            name: `${service.fullName}/${method.name}`.slice(0, 255),
+            description: description.slice(0, 2000),
+            parameters: {
+              service: service.fullName,
+              method: method.name,
+              path: `/${service.fullName}/${method.name}`,
+              inputType,
+              outputType,
+              streaming,
+            },
+          });
+        }
+      }
+    }
+
+    return capabilities;
+  }
+
+  private buildSymbolTable(files: ProtoFile[], errors: ValidationError[]): SymbolTable {
+    const symbols: SymbolTable = { messages: new Map(), enums: new Map() };
+
+    for (const file of files) {
+      const definitions: Array<[string, Map<string, string>]> = [
+        ...file.messages.map((message): [string, Map<string, string>] => [message.fullName, symbols.messages]),
+        ...file.enums.map((protoEnum): [string, Map<string, string>] => [protoEnum.fullName, symbols.enums]),
+      ];
+
+      for (const [fullName, table] of definitions) {
+        const existing = symbols.messages.get(fullName) ?? symbols.enums.get(fullName);
+        if (existing !== undefined) {
+          errors.push({
+            field: `${file.name}#${fullName}`,
+            message: `'${fullName}' is already defined in ${existing}`,
+            code: 'DUPLICATE_SYMBOL',
+          });
+          continue;
+        }
+        table.set(fullName, file.name);
+      }
+    }
+
+    for (const name of WELL_KNOWN_MESSAGES) {
+      if (!symbols.messages.has(name)) {
+        symbols.messages.set(name, 'google/protobuf');
+      }
+    }
+    for (const name of WELL_KNOWN_ENUMS) {
+      if (!symbols.enums.has(name)) {
+        symbols.enums.set(name, 'google/protobuf');
+      }
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Resolve a type reference the way protoc does: absolute names start with
+   * a dot, relative names are looked up from the innermost scope outwards
+   */
+  private resolveType(reference: string, scope: string, symbols: SymbolTable): string | undefined {
+    const isDefined = (name: string) => symbols.messages.has(name) || symbols.enums.has(name);
+
+    if (reference.startsWith('.')) {
+      return isDefined(reference.slice(1)) ? reference.slice(1) : undefined;
+    }
+
+    const parts = scope ? scope.split('.') : [];
+    for (let length = parts.length; length >= 0; length--) {
+      const candidate = [...parts.slice(0, length), reference].join('.');
+      if (isDefined(candidate)) {
+        return candidate;
+      }
+    }
+
+    return undefined;
+  }
+
+  private validateImports(file: ProtoFile, files: ProtoFile[], errors: ValidationError[]): void {
+    for (const dependency of file.dependencies) {
+      if (!WELL_KNOWN_IMPORT.test(dependency) && !files.some((candidate) => candidate.name === dependency)) {
+        errors.push({
+          field: file.name,
+          message: `Imported file '${dependency}' was not uploaded`,
+          code: 'MISSING_IMPORT',
+        });
+      }
+    }
+  }
+
+  private validateMessages(file: ProtoFile, symbols: SymbolTable, errors: ValidationError[]): void {
+    for (const message of file.messages) {
+      const numbers = new Set<number>();
+      const names = new Set<string>();
+
+      for (const field of message.fields) {
+        const location = `${file.name}#${message.fullName}.${field.name}`;
+
+        if (
+          field.number < MIN_FIELD_NUMBER ||
+          field.number > MAX_FIELD_NUMBER ||
+          (field.number >= RESERVED_FIELD_NUMBERS.from && field.number <= RESERVED_FIELD_NUMBERS.to)
+        ) {
+          errors.push({
+            field: location,
+            message: `Field number ${field.number} is outside the valid range or reserved for protobuf`,
+            code: 'INVALID_FIELD_NUMBER',
+          });
+        }
+
+        if (numbers.has(field.number)) {
+          errors.push({
+            field: location,
+            message: `Field number ${field.number} is used more than once in ${message.fullName}`,
+            code: 'DUPLICATE_FIELD_NUMBER',
+          });
+        }
+        numbers.add(field.number);
+
+        if (names.has(field.name)) {
+          errors.push({
+            field: location,
+            message: `Field '${field.name}' is declared more than once in ${message.fullName}`,
+            code: 'DUPLICATE_FIELD_NAME',
+          });
+        }
+        names.add(field.name);
+
+        if (file.syntax === 'proto3' && field.label === 'required') {
+          errors.push({
+            field: location,
+            message: 'Required fields are not allowed in proto3',
+            code: 'PROTO3_REQUIRED_FIELD',
+          });
+        }
+
+        if (field.mapKeyType !== undefined && !MAP_KEY_TYPES.has(field.mapKeyType)) {
+          errors.push({
+            field: location,
+            message: `Map key type '${field.mapKeyType}' must be an integral or string type`,
+            code: 'INVALID_MAP_KEY',
+          });
+        }
+
+        if (!SCALAR_TYPES.has(field.type) && !this.resolveType(field.type, message.fullName, symbols)) {
+          errors.push({
+            field: location,
+            message: `Type '${field.type}' is not defined`,
+            code: 'UNRESOLVED_TYPE',
+          });
+        }
+      }
+    }
+  }
+
+  private validateEnums(file: ProtoFile, errors: ValidationError[]): void {
+    for (const protoEnum of file.enums) {
+      if (protoEnum.values.length === 0) {
+        errors.push({
+          field: `${file.name}#${protoEnum.fullName}`,
+          message: 'Enums must define at least one value',
+          code: 'EMPTY_ENUM',
+        });
+      } else if (file.syntax === 'proto3' && protoEnum.values[0].number !== 0) {
+        errors.push({
+          field: `${file.name}#${protoEnum.fullName}.${protoEnum.values[0].name}`,
+          message: 'The first value of a proto3 enum must be zero',
+          code: 'PROTO3_ENUM_ZERO',
+        });
+      }
+    }
+  }
+
+  private validateServices(file: ProtoFile, symbols: SymbolTable, errors: ValidationError[]): void {
+    for (const service of file.services) {
+      const names = new Set<string>();
+
+      for (const method of service.methods) {
+        const location = `${file.name}#${service.fullName}.${method.name}`;
+
+        if (names.has(method.name)) {
+          errors.push({
+            field: location,
+            message: `Method '${method.name}' is declared more than once in ${service.fullName}`,
+            code: 'DUPLICATE_METHOD',
+          });
+        }
+        names.add(method.name);
+
+        for (const [role, reference] of [['Input', method.inputType], ['Output', method.outputType]]) {
+          const resolved = this.resolveType(reference, file.package ?? '', symbols);
+
+          if (!resolved) {
+            errors.push({
+              field: location,
+              message: `${role} type '${reference}' is not defined`,
+              code: 'UNRESOLVED_TYPE',
+            });
+          } else if (!symbols.messages.has(resolved)) {
+            errors.push({
+              field: location,
+              message: `${role} type '${reference}' must be a message`,
+              code: 'INVALID_RPC_TYPE',
+            });
+          }
+        }
+      }
+    }
+  }
+
+  private streamingKind(method: ProtoMethod): string {
+    if (method.clientStreaming && method.serverStreaming) {
+      return 'bidirectional-streaming';
+    }
+    if (method.clientStreaming) {
+      return 'client-streaming';
+    }
+    return method.serverStreaming ? 'server-streaming' : 'unary';
+  }
+}
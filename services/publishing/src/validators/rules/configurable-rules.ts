@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { ValidationRule } from './rule-engine';
+
+/**
+ * Rules that are off by default and enabled, with options, by tenant or
+ * category rule packs
+ */
+
+const requiredCertificationsRule: ValidationRule<{ certifications: string[] }> = {
+  id: 'compliance.required-certifications',
+  version: '1.0.0',
+  code: 'MISSING_CERTIFICATION',
+  severity: 'error',
+  message: 'A required certification is missing',
+  description: 'The service holds every listed certification',
+  optionsSchema: z.object({ certifications: z.array(z.string().min(1)).min(1) }),
+  check(service, { certifications }) {
+    const held = new Set((service.compliance?.certifications ?? []).map((c) => c.toUpperCase()));
+
+    return certifications
+      .filter((certification) => !held.has(certification.toUpperCase()))
+      .map((certification) => ({
+        field: 'compliance.certifications',
+        message: `Certification ${certification} is required`,
+      }));
+  },
+};
+
+const minAvailabilityRule: ValidationRule<{ min: number }> = {
+  id: 'sla.min-availability',
+  version: '1.0.0',
+  code: 'SLA_AVAILABILITY_TOO_LOW',
+  severity: 'error',
+  message: 'SLA availability is below the required minimum',
+  description: 'The SLA commits to at least the given availability percentage',
+  optionsSchema: z.object({ min: z.number().min(0).max(100) }),
+  check(service, { min }) {
+    const availability = service.sla?.availability;
+
+    if (availability === undefined || availability >= min) {
+      return [];
+    }
+
+    return [{
+      field: 'sla.availability',
+      message: `SLA availability must be at least ${min}% (got ${availability}%)`,
+    }];
+  },
+};
+
+const bannedTagWordsRule: ValidationRule<{ words: string[] }> = {
+  id: 'metadata.banned-tag-words',
+  version: '1.0.0',
+  code: 'BANNED_TAG_WORD',
+  severity: 'error',
+  message: 'Tag contains a banned word',
+  description: 'No tag contains one of the listed words (case-insensitive, whole words)',
+  optionsSchema: z.object({ words: z.array(z.string().min(1)).min(1) }),
+  check(service, { words }) {
+    const patterns = words.map((word) => ({
+      word,
+      pattern: new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i'),
+    }));
+
+    return (service.metadata?.tags ?? []).flatMap((tag, index) =>
+      patterns
+        .filter(({ pattern }) => pattern.test(tag))
+        .map(({ word }) => ({
+          field: `metadata.tags[${index}]`,
+          message: `Tag "${tag}" contains the banned word "${word}"`,
+        }))
+    );
+  },
+};
+
+export const configurableRules: ValidationRule[] = [
+  requiredCertificationsRule,
+  minAvailabilityRule,
+  bannedTagWordsRule,
+];
@@ -0,0 +1,288 @@
+import { z } from 'zod';
+import * as semver from 'semver';
+import { PricingModel, ProtocolType, RulePackDefinition } from '../../types';
+import { serviceSchema } from '../service-schema';
+import { RuleFinding, ValidationRule } from './rule-engine';
+
+/**
+ * Built-in checks every service must pass, evaluated as the `core` pack
+ */
+
+const EU_COUNTRIES = ['AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE', 'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE'];
+
+const schemaRule: ValidationRule = {
+  id: 'core.schema',
+  version: '1.0.0',
+  code: 'SCHEMA_VIOLATION',
+  severity: 'error',
+  message: 'Service does not match the service schema',
+  description: 'Required fields are present and well formed',
+  blocking: true,
+  check(service) {
+    const parsed = serviceSchema.safeParse(service);
+    if (parsed.success) {
+      return [];
+    }
+
+    return parsed.error.errors.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+      code: err.code,
+    }));
+  },
+};
+
+const serviceSizeRule: ValidationRule<{ maxSizeMB: number }> = {
+  id: 'core.service-size',
+  version: '1.0.0',
+  code: 'SERVICE_TOO_LARGE',
+  severity: 'error',
+  message: 'Service specification is too large',
+  description: 'The serialized specification stays under a size limit',
+  optionsSchema: z.object({ maxSizeMB: z.number().positive().default(100) }),
+  check(service, { maxSizeMB }) {
+    const sizeInMB = JSON.stringify(service).length / (1024 * 1024);
+
+    if (sizeInMB <= maxSizeMB) {
+      return [];
+    }
+
+    return [{
+      field: 'root',
+      message: `Service specification size (${sizeInMB.toFixed(2)}MB) exceeds maximum allowed size (${maxSizeMB}MB)`,
+    }];
+  },
+};
+
+const versionFormatRule: ValidationRule = {
+  id: 'core.version-format',
+  version: '1.0.0',
+  code: 'INVALID_VERSION_FORMAT',
+  severity: 'error',
+  message: 'Version must follow semantic versioning (e.g., 1.0.0)',
+  description: 'Versions are plain semver without prerelease or build metadata',
+  check(service) {
+    if (!semver.valid(service.version!)) {
+      return [{ field: 'version' }];
+    }
+
+    // Ensure no prerelease or build metadata in production versions
+    const parsed = semver.parse(service.version!);
+    if (parsed && (parsed.prerelease.length > 0 || parsed.build.length > 0)) {
+      return [{
+        field: 'version',
+        message: 'Prerelease and build metadata not allowed in production versions',
+        code: 'INVALID_VERSION_METADATA',
+      }];
+    }
+
+    return [];
+  },
+};
+
+const endpointRule: ValidationRule = {
+  id: 'core.endpoint',
+  version: '1.0.0',
+  code: 'INVALID_URL',
+  severity: 'error',
+  message: 'Invalid URL format',
+  description: 'The endpoint URL is reachable from the marketplace and matches its protocol',
+  check(service) {
+    const endpoint = service.endpoint!;
+    const findings: RuleFinding[] = [];
+
+    try {
+      const url = new URL(endpoint.url);
+
+      // Ensure HTTPS (or TLS gRPC) in production
+      const secure = url.protocol === 'https:' ||
+        (endpoint.protocol === ProtocolType.GRPC && url.protocol === 'grpcs:');
+      if (process.env.NODE_ENV === 'production' && !secure) {
+        findings.push({
+          field: 'endpoint.url',
+          message: 'HTTPS is required for production endpoints',
+          code: 'INSECURE_ENDPOINT',
+        });
+      }
+
+      // Ensure no localhost/127.0.0.1
+      if (url.hostname === 'localhost' || url.hostname === '127.0.0.1') {
+        findings.push({
+          field: 'endpoint.url',
+          message: 'Localhost endpoints are not allowed',
+          code: 'LOCALHOST_ENDPOINT',
+        });
+      }
+    } catch (error) {
+      findings.push({ field: 'endpoint.url' });
+    }
+
+    // Validate protocol matches URL
+    const url = endpoint.url.toLowerCase();
+    if (endpoint.protocol === ProtocolType.WEBSOCKET && !url.startsWith('ws')) {
+      findings.push({
+        field: 'endpoint.protocol',
+        message: 'WebSocket protocol requires ws:// or wss:// URL',
+        code: 'PROTOCOL_MISMATCH',
+      });
+    }
+
+    if (endpoint.protocol === ProtocolType.GRPC && !/^(grpcs?|https?):\/\//.test(url)) {
+      findings.push({
+        field: 'endpoint.protocol',
+        message: 'gRPC protocol requires a grpc://, grpcs://, http:// or https:// URL',
+        code: 'PROTOCOL_MISMATCH',
+      });
+    }
+
+    return findings;
+  },
+};
+
+/**
+ * gRPC services are described by protobuf descriptors instead of OpenAPI
+ */
+const grpcSpecRule: ValidationRule = {
+  id: 'core.grpc-spec',
+  version: '1.0.0',
+  code: 'MISSING_GRPC_SPEC',
+  severity: 'error',
+  message: 'gRPC services require protoFiles or a fileDescriptorSet',
+  description: 'gRPC services ship protobuf descriptors and no OpenAPI spec',
+  check(service) {
+    if (service.endpoint?.protocol !== ProtocolType.GRPC) {
+      return [];
+    }
+
+    const findings: RuleFinding[] = [];
+    const grpcSpec = service.grpcSpec;
+
+    if (!grpcSpec || (!grpcSpec.fileDescriptorSet && Object.keys(grpcSpec.protoFiles ?? {}).length === 0)) {
+      findings.push({ field: 'grpcSpec' });
+    }
+
+    if (service.openApiSpec) {
+      findings.push({
+        field: 'openApiSpec',
+        message: 'gRPC services are described by protobuf descriptors, not OpenAPI',
+        code: 'PROTOCOL_MISMATCH',
+      });
+    }
+
+    return findings;
+  },
+};
+
+const pricingConsistencyRule: ValidationRule = {
+  id: 'core.pricing-consistency',
+  version: '1.0.0',
+  code: 'INCONSISTENT_PRICING',
+  severity: 'error',
+  message: 'Free pricing model should not have rates',
+  description: 'Pricing rates agree with the pricing model',
+  check(service) {
+    const pricing = service.pricing!;
+    const findings: RuleFinding[] = [];
+
+    // Validate pricing model consistency
+    if (pricing.model === PricingModel.FREE && pricing.rates.length > 0) {
+      findings.push({ field: 'pricing.rates' });
+    }
+
+    if (pricing.model !== PricingModel.FREE && pricing.rates.length === 0) {
+      findings.push({
+        field: 'pricing.rates',
+        message: 'Paid pricing model must have at least one rate',
+        code: 'MISSING_PRICING_RATES',
+      });
+    }
+
+    // Validate rate values
+    pricing.rates.forEach((rate, index) => {
+      if (rate.rate < 0) {
+        findings.push({
+          field: `pricing.rates[${index}].rate`,
+          message: 'Rate must be non-negative',
+          code: 'NEGATIVE_RATE',
+        });
+      }
+
+      if (pricing.model === PricingModel.PER_TOKEN && !['token', 'tokens'].includes(rate.unit.toLowerCase())) {
+        findings.push({
+          field: `pricing.rates[${index}].unit`,
+          message: 'Per-token pricing must use token-based units',
+          code: 'INVALID_PRICING_UNIT',
+        });
+      }
+    });
+
+    return findings;
+  },
+};
+
+const complianceRequirementsRule: ValidationRule = {
+  id: 'core.compliance-requirements',
+  version: '1.0.0',
+  code: 'INVALID_COUNTRY_CODE',
+  severity: 'error',
+  message: 'Data residency must use ISO 3166-1 alpha-2 country codes',
+  description: 'Data residency codes are valid and EU residency implies GDPR compliance',
+  check(service) {
+    const compliance = service.compliance!;
+    const findings: RuleFinding[] = [];
+
+    // Validate data residency codes (ISO 3166-1 alpha-2)
+    const validCountryCodes = /^[A-Z]{2}$/;
+    compliance.dataResidency.forEach((country, index) => {
+      if (!validCountryCodes.test(country)) {
+        findings.push({ field: `compliance.dataResidency[${index}]` });
+      }
+    });
+
+    // Validate GDPR compliance for EU countries
+    const hasEUResidency = compliance.dataResidency.some((country) => EU_COUNTRIES.includes(country));
+
+    if (hasEUResidency && !compliance.gdprCompliant) {
+      findings.push({
+        field: 'compliance.gdprCompliant',
+        message: 'GDPR compliance required for services with EU data residency',
+        code: 'GDPR_REQUIRED',
+      });
+    }
+
+    return findings;
+  },
+};
+
+export const coreRules: ValidationRule[] = [
+  schemaRule,
+  serviceSizeRule,
+  versionFormatRule,
+  endpointRule,
+  grpcSpecRule,
+  pricingConsistencyRule,
+  complianceRequirementsRule,
+];
+
+/**
+ * The pack applied to every service, ahead of any tenant or category packs
+ */
+export function coreRulePack(): RulePackDefinition {
+  return {
+    id: 'core',
+    version: '1.0.0',
+    description: 'Marketplace-wide service requirements',
+    rules: [
+      { rule: schemaRule.id },
+      {
+        rule: serviceSizeRule.id,
+        options: { maxSizeMB: parseInt(process.env.MAX_SERVICE_SIZE_MB || '100', 10) },
+      },
+      { rule: versionFormatRule.id },
+      { rule: endpointRule.id },
+      { rule: grpcSpecRule.id },
+      { rule: pricingConsistencyRule.id },
+      { rule: complianceRequirementsRule.id },
+    ],
+  };
+}
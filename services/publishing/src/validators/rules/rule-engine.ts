@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import * as semver from 'semver';
+import {
+  RulePackDefinition,
+  RuleReference,
+  RuleSeverity,
+  Service,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning,
+} from '../../types';
+import { logger } from '../../utils/logger';
+
+export interface RuleFinding {
+  field: string;
+  /** Defaults to the rule's message */
+  message?: string;
+  /** Defaults to the rule's code */
+  code?: string;
+}
+
+/**
+ * A registered, versioned validation check. Rules are pure: they inspect the
+ * service and return findings, and the engine turns those into errors or
+ * warnings according to the rule's (or the pack's) severity.
+ */
+export interface ValidationRule<TOptions = unknown> {
+  id: string;
+  version: string;
+  code: string;
+  severity: RuleSeverity;
+  message: string;
+  description: string;
+  /** Later rules assume a well-formed service and are skipped when this rule reports errors */
+  blocking?: boolean;
+  /** Validates the options a pack passes to the rule */
+  optionsSchema?: z.ZodType<TOptions, z.ZodTypeDef, unknown>;
+  check(service: Partial<Service>, options: TOptions): RuleFinding[];
+}
+
+interface CompiledRule {
+  rule: ValidationRule;
+  severity: RuleSeverity;
+  options: unknown;
+}
+
+export interface CompiledRulePack {
+  pack: RuleReference;
+  rules: CompiledRule[];
+}
+
+/**
+ * Registry of validation rules; several versions of a rule can coexist so
+ * packs can pin the version they were written against
+ */
+export class RuleRegistry {
+  private readonly rules = new Map<string, ValidationRule[]>();
+
+  register(rule: ValidationRule): this {
+    if (!semver.valid(rule.version)) {
+      throw new Error(`Rule ${rule.id} has an invalid version "${rule.version}"`);
+    }
+
+    const versions = this.rules.get(rule.id) ?? [];
+    if (versions.some((registered) => registered.version === rule.version)) {
+      throw new Error(`Rule ${rule.id}@${rule.version} is already registered`);
+    }
+
+    versions.push(rule);
+    this.rules.set(rule.id, versions);
+    return this;
+  }
+
+  /**
+   * Newest version of a rule satisfying a semver range
+   */
+  resolve(id: string, range: string = '*'): ValidationRule {
+    const versions = this.rules.get(id);
+
+    if (!versions) {
+      throw new Error(`Unknown validation rule ${id}`);
+    }
+
+    const version = semver.maxSatisfying(versions.map((rule) => rule.version), range);
+    if (!version) {
+      throw new Error(`No version of validation rule ${id} satisfies ${range}`);
+    }
+
+    return versions.find((rule) => rule.version === version)!;
+  }
+
+  list(): ValidationRule[] {
+    return [...this.rules.values()].flat();
+  }
+}
+
+export class RuleEngine {
+  constructor(private readonly registry: RuleRegistry) {}
+
+  /**
+   * Resolve a pack's rule references and options up front, so that a
+   * misconfigured pack fails when it is loaded rather than on first use
+   */
+  compile(definition: RulePackDefinition): CompiledRulePack {
+    const pack = { id: definition.id, version: definition.version };
+
+    const rules = definition.rules.map((entry) => {
+      const rule = this.registry.resolve(entry.rule, entry.version);
+      let options: unknown = entry.options ?? {};
+
+      if (rule.optionsSchema) {
+        const parsed = rule.optionsSchema.safeParse(options);
+        if (!parsed.success) {
+          throw new Error(
+            `Invalid options for rule ${rule.id} in pack ${pack.id}@${pack.version}: ` +
+              parsed.error.errors.map((e) => `${e.path.join('.') || 'options'} ${e.message}`).join(', ')
+          );
+        }
+        options = parsed.data;
+      }
+
+      return { rule, severity: entry.severity ?? rule.severity, options };
+    });
+
+    return { pack, rules };
+  }
+
+  evaluate(service: Partial<Service>, packs: CompiledRulePack[]): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    for (const { pack, rules } of packs) {
+      for (const { rule, severity, options } of rules) {
+        const source = { rule: { id: rule.id, version: rule.version }, pack };
+        let findings: RuleFinding[];
+
+        try {
+          findings = rule.check(service, options);
+        } catch (error) {
+          logger.error('Validation rule failed', { rule: rule.id, pack: pack.id, error });
+          errors.push({
+            field: 'root',
+            message: `Validation rule ${rule.id} failed: ${(error as Error).message}`,
+            code: 'RULE_EXECUTION_FAILED',
+            ...source,
+          });
+          continue;
+        }
+
+        const entries = findings.map((finding) => ({
+          field: finding.field,
+          message: finding.message ?? rule.message,
+          code: finding.code ?? rule.code,
+          ...source,
+        }));
+
+        if (severity === 'warning') {
+          warnings.push(...entries);
+          continue;
+        }
+
+        errors.push(...entries);
+        if (rule.blocking && entries.length > 0) {
+          return { isValid: false, errors, warnings };
+        }
+      }
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
@@ -0,0 +1,145 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import * as semver from 'semver';
+import { RulePackAssignment, RulePackConfig, ServiceCategory } from '../../types';
+import { CompiledRulePack, RuleEngine, RuleRegistry } from './rule-engine';
+import { coreRulePack, coreRules } from './core-rules';
+import { configurableRules } from './configurable-rules';
+
+const versionSchema = z.string().refine((v) => semver.valid(v) !== null, {
+  message: 'Version must be valid semver',
+});
+
+const rangeSchema = z.string().refine((v) => semver.validRange(v) !== null, {
+  message: 'Version range must be a valid semver range',
+});
+
+const rulePackConfigSchema = z.object({
+  packs: z.array(z.object({
+    id: z.string().min(1).max(100),
+    version: versionSchema,
+    description: z.string().max(1000).optional(),
+    rules: z.array(z.object({
+      rule: z.string().min(1),
+      version: rangeSchema.optional(),
+      severity: z.enum(['error', 'warning']).optional(),
+      options: z.record(z.unknown()).optional(),
+    })),
+  })).default([]),
+  assignments: z.array(z.object({
+    pack: z.string().min(1),
+    version: rangeSchema.optional(),
+    tenantId: z.string().min(1).optional(),
+    category: z.nativeEnum(ServiceCategory).optional(),
+  })).default([]),
+});
+
+const configCache = new Map<string, RulePackConfig>();
+
+/**
+ * Read tenant and category rule packs from a JSON file (usually
+ * `VALIDATION_RULE_PACKS_FILE`). Without a file only the core pack applies.
+ */
+export function loadRulePackConfig(filePath?: string): RulePackConfig {
+  if (!filePath) {
+    return { packs: [], assignments: [] };
+  }
+
+  const cached = configCache.get(filePath);
+  if (cached) {
+    return cached;
+  }
+
+  const parsed = rulePackConfigSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid rule pack configuration in ${filePath}: ` +
+        parsed.error.errors.map((e) => `${e.path.join('.')} ${e.message}`).join(', ')
+    );
+  }
+
+  configCache.set(filePath, parsed.data);
+  return parsed.data;
+}
+
+export function createDefaultRuleRegistry(): RuleRegistry {
+  const registry = new RuleRegistry();
+  [...coreRules, ...configurableRules].forEach((rule) => registry.register(rule));
+  return registry;
+}
+
+/**
+ * Picks the packs that apply to a service: the core pack first, then global,
+ * category, tenant and tenant-and-category assignments, in that order
+ */
+export class RulePackResolver {
+  private readonly engine: RuleEngine;
+  private readonly core: CompiledRulePack;
+  private readonly packs = new Map<string, CompiledRulePack[]>();
+
+  constructor(
+    private readonly config: RulePackConfig,
+    registry: RuleRegistry = createDefaultRuleRegistry()
+  ) {
+    this.engine = new RuleEngine(registry);
+    this.core = this.engine.compile(coreRulePack());
+
+    for (const definition of config.packs) {
+      if (definition.id === this.core.pack.id) {
+        throw new Error(`Rule pack id "${definition.id}" is reserved`);
+      }
+
+      const versions = this.packs.get(definition.id) ?? [];
+      if (versions.some((pack) => pack.pack.version === definition.version)) {
+        throw new Error(`Rule pack ${definition.id}@${definition.version} is defined more than once`);
+      }
+      versions.push(this.engine.compile(definition));
+      this.packs.set(definition.id, versions);
+    }
+
+    // Fail on dangling assignments at load time
+    config.assignments.forEach((assignment) => this.packFor(assignment));
+  }
+
+  get ruleEngine(): RuleEngine {
+    return this.engine;
+  }
+
+  resolve(category?: ServiceCategory, tenantIds: string[] = []): CompiledRulePack[] {
+    const specificity = (assignment: RulePackAssignment) =>
+      (assignment.category ? 1 : 0) + (assignment.tenantId ? 2 : 0);
+
+    const applicable = this.config.assignments
+      .filter((assignment) =>
+        (!assignment.category || assignment.category === category) &&
+        (!assignment.tenantId || tenantIds.includes(assignment.tenantId))
+      )
+      .sort((a, b) => specificity(a) - specificity(b))
+      .map((assignment) => this.packFor(assignment));
+
+    const seen = new Set<string>();
+    return [this.core, ...applicable].filter(({ pack }) => {
+      const key = `${pack.id}@${pack.version}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private packFor(assignment: RulePackAssignment): CompiledRulePack {
+    const versions = this.packs.get(assignment.pack);
+
+    if (!versions) {
+      throw new Error(`Rule pack assignment references unknown pack ${assignment.pack}`);
+    }
+
+    const version = semver.maxSatisfying(versions.map(({ pack }) => pack.version), assignment.version ?? '*');
+    if (!version) {
+      throw new Error(`No version of rule pack ${assignment.pack} satisfies ${assignment.version}`);
+    }
+
+    return versions.find(({ pack }) => pack.version === version)!;
+  }
+}
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import {
+  ServiceCategory,
+  ProtocolType,
+  AuthenticationType,
+  PricingModel,
+  SupportLevel,
+  ComplianceLevel,
+} from '../types';
+import * as semver from 'semver';
+
+/**
+ * Zod schemas for service metadata
+ */
+
+const capabilitySchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().min(1).max(2000),
+  parameters: z.record(z.unknown()),
+});
+
+const endpointSchema = z.object({
+  url: z.string().url(),
+  protocol: z.nativeEnum(ProtocolType),
+  authentication: z.nativeEnum(AuthenticationType),
+});
+
+const pricingTierSchema = z.object({
+  tier: z.string().min(1).max(100),
+  rate: z.number().min(0),
+  unit: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+});
+
+const pricingSchema = z.object({
+  model: z.nativeEnum(PricingModel),
+  rates: z.array(pricingTierSchema).min(1),
+  currency: z.string().length(3).optional().default('USD'),
+});
+
+const slaSchema = z.object({
+  availability: z.number().min(0).max(100),
+  maxLatency: z.number().min(0),
+  supportLevel: z.nativeEnum(SupportLevel),
+  responseTime: z.string().max(100).optional(),
+});
+
+const complianceSchema = z.object({
+  level: z.nativeEnum(ComplianceLevel),
+  certifications: z.array(z.string()).default([]),
+  dataResidency: z.array(z.string().length(2)),
+  gdprCompliant: z.boolean().optional(),
+  hipaaCompliant: z.boolean().optional(),
+});
+
+const smokeTestSchema = z.object({
+  name: z.string().min(1).max(255),
+  request: z.object({
+    method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']),
+    path: z.string().startsWith('/').max(2000),
+    headers: z.record(z.string()).optional(),
+    query: z.record(z.string()).optional(),
+    body: z.unknown().optional(),
+  }),
+  expect: z.object({
+    status: z.number().int().min(100).max(599),
+    headers: z.record(z.string()).optional(),
+    body: z.unknown().optional(),
+    bodySchema: z.record(z.unknown()).optional(),
+    maxLatencyMs: z.number().int().positive().optional(),
+  }),
+});
+
+const grpcSpecSchema = z.object({
+  protoFiles: z.record(z.string().max(1024 * 1024))
+    .refine((files) => Object.keys(files).length <= 100, { message: 'At most 100 proto files are allowed' })
+    .refine((files) => Object.keys(files).every((name) => name.endsWith('.proto')), {
+      message: 'Proto file names must end with .proto',
+    })
+    .optional(),
+  fileDescriptorSet: z.string().max(10 * 1024 * 1024).optional(),
+  healthServiceName: z.string().max(255).optional(),
+});
+
+export const serviceSchema = z.object({
+  name: z.string().min(1).max(255),
+  version: z.string().refine((v) => semver.valid(v) !== null, {
+    message: 'Version must be valid semver',
+  }),
+  description: z.string().min(10).max(5000),
+  category: z.nativeEnum(ServiceCategory),
+  capabilities: z.array(capabilitySchema).min(1),
+  endpoint: endpointSchema,
+  pricing: pricingSchema,
+  sla: slaSchema,
+  compliance: complianceSchema,
+  openApiSpec: z.record(z.unknown()).optional(),
+  smokeTests: z.array(smokeTestSchema).max(50).optional(),
+  grpcSpec: grpcSpecSchema.optional(),
+});
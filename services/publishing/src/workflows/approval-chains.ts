@@ -0,0 +1,243 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import {
+  ApprovalChainAssignment,
+  ApprovalChainConfig,
+  ApprovalChainDefinition,
+  ApprovalReview,
+  ApprovalStage,
+  ApprovalStageDefinition,
+  ApprovalStageStatus,
+  ComplianceLevel,
+  Service,
+  ServiceCategory,
+  SupportLevel,
+} from '../types';
+
+const ROLE_PREFIX = 'role:';
+
+/**
+ * Reviewers of the built-in chain, and backup reviewers of stages that name none
+ */
+export const DEFAULT_BACKUP_REVIEWERS = [`${ROLE_PREFIX}admin`];
+
+/**
+ * Used when approval is required but no assignment matches. A configured
+ * chain with the id `default` replaces it.
+ */
+export const DEFAULT_APPROVAL_CHAIN: ApprovalChainDefinition = {
+  id: 'default',
+  description: 'Single review by a marketplace admin',
+  stages: [{ name: 'review', reviewers: DEFAULT_BACKUP_REVIEWERS, quorum: 1, dueInHours: 72 }],
+};
+
+const reviewerSchema = z.string().min(1).max(100);
+
+const stageSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    reviewers: z.array(reviewerSchema).min(1),
+    quorum: z.number().int().min(1).default(1),
+    dueInHours: z.number().positive().max(24 * 90),
+    backupReviewers: z.array(reviewerSchema).min(1).optional(),
+  })
+  .refine(
+    (stage) => stage.reviewers.some((reviewer) => reviewer.startsWith(ROLE_PREFIX)) ||
+      stage.quorum <= new Set(stage.reviewers).size,
+    { message: 'Quorum cannot exceed the number of reviewers' }
+  );
+
+const approvalChainConfigSchema = z.object({
+  chains: z.array(z.object({
+    id: z.string().min(1).max(100),
+    description: z.string().max(1000).optional(),
+    stages: z.array(stageSchema).min(1),
+  })).default([]),
+  assignments: z.array(z.object({
+    chain: z.string().min(1),
+    category: z.nativeEnum(ServiceCategory).optional(),
+    complianceLevel: z.nativeEnum(ComplianceLevel).optional(),
+  })).default([]),
+});
+
+/**
+ * Review submitted by a reviewer. Rejections and comments need a comment;
+ * change requests need a comment or line-item feedback.
+ */
+export const approvalReviewSchema = z
+  .object({
+    action: z.enum(['approve', 'reject', 'request_changes', 'comment']),
+    comment: z.string().trim().min(1).max(5000).optional(),
+    feedback: z.array(z.object({
+      field: z.string().min(1).max(200),
+      message: z.string().min(1).max(2000),
+    })).max(100).default([]),
+  })
+  .refine((review) => !['reject', 'comment'].includes(review.action) || review.comment, {
+    message: 'A comment is required',
+    path: ['comment'],
+  })
+  .refine((review) => review.action !== 'request_changes' || review.comment || review.feedback.length > 0, {
+    message: 'Describe the changes with a comment or feedback items',
+    path: ['feedback'],
+  });
+
+export type ApprovalReviewInput = z.infer<typeof approvalReviewSchema>;
+
+const configCache = new Map<string, ApprovalChainConfig>();
+
+/**
+ * Read approval chains and their assignments from a JSON file (usually
+ * `APPROVAL_CHAINS_FILE`). Without a file every approval uses the default chain.
+ */
+export function loadApprovalChainConfig(filePath?: string): ApprovalChainConfig {
+  if (!filePath) {
+    return { chains: [], assignments: [] };
+  }
+
+  const cached = configCache.get(filePath);
+  if (cached) {
+    return cached;
+  }
+
+  const parsed = approvalChainConfigSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid approval chain configuration in ${filePath}: ` +
+        parsed.error.errors.map((e) => `${e.path.join('.')} ${e.message}`).join(', ')
+    );
+  }
+
+  configCache.set(filePath, parsed.data);
+  return parsed.data;
+}
+
+/**
+ * Picks the approval chain of a service. An assignment on both category and
+ * compliance level beats one on compliance level, which beats one on category.
+ */
+export class ApprovalChainResolver {
+  private readonly chains = new Map<string, ApprovalChainDefinition>();
+
+  constructor(private readonly config: ApprovalChainConfig) {
+    for (const chain of config.chains) {
+      if (this.chains.has(chain.id)) {
+        throw new Error(`Approval chain ${chain.id} is defined more than once`);
+      }
+      this.chains.set(chain.id, chain);
+    }
+
+    for (const assignment of config.assignments) {
+      if (!this.chains.has(assignment.chain)) {
+        throw new Error(`Approval chain assignment references unknown chain ${assignment.chain}`);
+      }
+    }
+  }
+
+  /**
+   * The most specific assigned chain, or null when none applies
+   */
+  resolve(spec: Partial<Service>): ApprovalChainDefinition | null {
+    const specificity = (assignment: ApprovalChainAssignment) =>
+      (assignment.category ? 1 : 0) + (assignment.complianceLevel ? 2 : 0);
+
+    const [match] = this.config.assignments
+      .filter((assignment) =>
+        (assignment.category || assignment.complianceLevel) &&
+        (!assignment.category || assignment.category === spec.category) &&
+        (!assignment.complianceLevel || assignment.complianceLevel === spec.compliance?.level)
+      )
+      .sort((a, b) => specificity(b) - specificity(a));
+
+    return match ? this.chains.get(match.chain)! : null;
+  }
+
+  /**
+   * Confidential, restricted and enterprise-support services always need
+   * approval; others only when a chain is assigned to them
+   */
+  requiresApproval(spec: Partial<Service>): boolean {
+    return (
+      spec.compliance?.level === ComplianceLevel.CONFIDENTIAL ||
+      spec.compliance?.level === ComplianceLevel.RESTRICTED ||
+      spec.sla?.supportLevel === SupportLevel.ENTERPRISE ||
+      this.resolve(spec) !== null
+    );
+  }
+
+  chainFor(spec: Partial<Service>): ApprovalChainDefinition {
+    return this.resolve(spec) ?? this.chains.get(DEFAULT_APPROVAL_CHAIN.id) ?? DEFAULT_APPROVAL_CHAIN;
+  }
+}
+
+/**
+ * Stage states of a new approval: the first stage is open, the rest wait
+ */
+export function initialStages(chain: ApprovalChainDefinition, now: Date = new Date()): ApprovalStage[] {
+  return chain.stages.map((definition, index) =>
+    index === 0 ? openStage(definition, now) : { ...stageFields(definition), status: 'waiting' }
+  );
+}
+
+/**
+ * Open a stage for review, starting its due-date clock
+ */
+export function openStage(definition: ApprovalStageDefinition, now: Date = new Date()): ApprovalStage {
+  return {
+    ...stageFields(definition),
+    status: 'pending',
+    startedAt: now,
+    dueAt: new Date(now.getTime() + definition.dueInHours * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Whether a user may review a stage: a listed reviewer, or a backup
+ * reviewer once the stage has escalated
+ */
+export function isStageReviewer(stage: ApprovalStage, user: { id: string; role: string }): boolean {
+  return matchesReviewer(stage.escalatedAt ? [...stage.reviewers, ...stage.backupReviewers] : stage.reviewers, user);
+}
+
+/**
+ * Whether a user is one of the given reviewers, by ID or by role
+ */
+export function matchesReviewer(reviewers: string[], user: { id: string; role: string }): boolean {
+  return reviewers.some((reviewer) =>
+    reviewer.startsWith(ROLE_PREFIX) ? reviewer.slice(ROLE_PREFIX.length) === user.role : reviewer === user.id
+  );
+}
+
+/**
+ * Outcome of a stage from its reviews. Any rejection or change request
+ * decides the stage at once; otherwise it passes when approvals from
+ * distinct reviewers reach the quorum.
+ */
+export function evaluateStage(
+  stage: Pick<ApprovalStage, 'quorum'>,
+  reviews: Array<Pick<ApprovalReview, 'reviewerId' | 'action'>>
+): ApprovalStageStatus {
+  if (reviews.some((review) => review.action === 'reject')) {
+    return 'rejected';
+  }
+
+  if (reviews.some((review) => review.action === 'request_changes')) {
+    return 'changes_requested';
+  }
+
+  const approvers = new Set(
+    reviews.filter((review) => review.action === 'approve').map((review) => review.reviewerId)
+  );
+
+  return approvers.size >= stage.quorum ? 'approved' : 'pending';
+}
+
+function stageFields(definition: ApprovalStageDefinition): Required<ApprovalStageDefinition> {
+  return {
+    name: definition.name,
+    reviewers: definition.reviewers,
+    quorum: definition.quorum,
+    dueInHours: definition.dueInHours,
+    backupReviewers: definition.backupReviewers ?? DEFAULT_BACKUP_REVIEWERS,
+  };
+}
@@ -0,0 +1,35 @@
+import { PublishingStep } from '../types';
+
+/**
+ * A compensating action that undoes the side effects of a workflow step
+ */
+export interface Compensation {
+  step: PublishingStep;
+  /** Stable name recorded with the outcome, e.g. `deregister_from_registry` */
+  action: string;
+  run: () => Promise<void>;
+}
+
+/**
+ * Compensations registered by a running workflow (saga pattern). Steps
+ * register their compensation as they run; on failure the stack is unwound
+ * so the most recent side effect is undone first.
+ */
+export class CompensationStack {
+  private readonly compensations: Compensation[] = [];
+
+  register(step: PublishingStep, action: string, run: () => Promise<void>): void {
+    this.compensations.push({ step, action, run });
+  }
+
+  get size(): number {
+    return this.compensations.length;
+  }
+
+  /**
+   * Registered compensations, most recent first
+   */
+  unwind(): Compensation[] {
+    return [...this.compensations].reverse();
+  }
+}
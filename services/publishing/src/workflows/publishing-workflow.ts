@@ -9,50 +9,112 @@
  */
 
 import {
+  ApprovalStatus,
   Service,
   ServiceStatus,
+  ProtocolType,
+  GrpcSpec,
   PublishingWorkflowContext,
   ValidationResult,
   PolicyValidationResult,
   TestResult,
   SecurityScanResult,
   PerformanceBenchmark,
+  PublishingStep,
+  WorkflowStepRecord,
+  ServiceDeprecation,
+  CompensationRecord,
+  WebhookEvent,
 } from '../types';
 import { logger } from '../utils/logger';
+import { TestOrchestrator } from '../services/test-orchestrator';
+import { TestRunStore } from '../services/test-run-store';
+import { ServiceStore } from '../services/service-store';
+import { DeprecationStore } from '../services/deprecation-store';
+import { OutboxStore, serviceDeprecatedEvents, servicePublishedEvents } from '../services/outbox-store';
+import { RegistryClient } from '../integrations/registry-client';
+import { PolicyEngineClient } from '../integrations/policy-engine-client';
+import { TenantClient } from '../integrations/tenant-client';
+import { WebhookDispatcher } from '../services/webhook-dispatcher';
+import { ApprovalService } from '../services/approval-service';
+import { transaction } from '../config/database';
+import { cacheDelete } from '../config/redis';
+import { OpenAPIValidator } from '../validators/openapi-validator';
+import { ProtobufValidator } from '../validators/protobuf-validator';
+import { ServiceValidator } from '../validators/service-validator';
+import { WorkflowStateStore } from './workflow-state-store';
+import { Compensation, CompensationStack } from './compensation-stack';
+
+/**
+ * Outcome of the registry step. `created` is false for a resubmitted
+ * service, whose Registry entry and service record predate the run.
+ */
+export interface RegistryRegistration {
+  registryId: string;
+  created: boolean;
+}
+
+/**
+ * Outcome of the approval request step. The deadline is checkpointed with
+ * it, so a resumed workflow keeps the original timeout.
+ */
+export interface ApprovalRequest {
+  approvalId: string;
+  deadline: Date;
+}
+
+/** How long an approval chain may stay undecided */
+const APPROVAL_TIMEOUT_MS = 7 * 24 * 60 * 60 * 1000;
 
 /**
  * Publishing Workflow Activities
  * In Temporal, these would be decorated with @activity
  */
 export class PublishingWorkflowActivities {
+  private readonly testOrchestrator = new TestOrchestrator();
+  private readonly testRunStore = new TestRunStore();
+  private readonly openApiValidator = new OpenAPIValidator(
+    process.env.OPENAPI_VALIDATION_STRICT === 'true'
+  );
+  private readonly protobufValidator = new ProtobufValidator();
+  private readonly serviceValidator = new ServiceValidator();
+  private readonly serviceStore = new ServiceStore();
+  private readonly deprecationStore = new DeprecationStore();
+  private readonly registryClient = new RegistryClient();
+  private readonly outboxStore = new OutboxStore();
+  private readonly policyEngineClient = new PolicyEngineClient();
+  private readonly tenantClient = new TenantClient();
+  private readonly webhookDispatcher = new WebhookDispatcher();
+  private readonly approvalService = new ApprovalService();
+
   /**
    * Activity: Validate service specification
    */
-  async validateServiceSpec(serviceSpec: Partial<Service>): Promise<ValidationResult> {
+  async validateServiceSpec(serviceSpec: Partial<Service>, providerId: string): Promise<ValidationResult> {
     logger.info('Workflow Activity: Validating service specification', {
       serviceName: serviceSpec.name,
     });
 
-    // This would call the ServiceValidator
-    return {
-      isValid: true,
-      errors: [],
-      warnings: [],
-    };
+    const tenantIds = await this.tenantClient.getUserTenantIds(providerId);
+    return this.serviceValidator.validate(serviceSpec, { tenantIds });
   }
 
   /**
    * Activity: Validate OpenAPI specification
    */
-  async validateOpenAPISpec(_spec: Record<string, unknown>): Promise<ValidationResult> {
+  async validateOpenAPISpec(spec: Record<string, unknown>): Promise<ValidationResult> {
     logger.info('Workflow Activity: Validating OpenAPI specification');
 
-    // This would call the OpenAPIValidator
-    return {
-      isValid: true,
-      errors: [],
-      warnings: [],
-    };
+    return this.openApiValidator.validate(spec);
+  }
+
+  /**
+   * Activity: Validate protobuf descriptors of a gRPC service
+   */
+  async validateProtobufDescriptors(spec: GrpcSpec): Promise<ValidationResult> {
+    logger.info('Workflow Activity: Validating protobuf descriptors');
+
+    return this.protobufValidator.validate(spec);
   }
 
   /**
@@ -63,25 +125,26 @@ export class PublishingWorkflowActivities {
       serviceName: service.name,
     });
 
-    // This would call the PolicyEngineClient
-    return {
-      compliant: true,
-      violations: [],
-      policyVersion: '1.0.0',
-      validatedAt: new Date(),
-    };
+    return this.policyEngineClient.validateService(service);
   }
 
   /**
-   * Activity: Register service with Registry
+   * Activity: Register service with Registry. A service resubmitted after a
+   * change request keeps its existing entry.
    */
-  async registerWithRegistry(service: Partial<Service>): Promise<string> {
+  async registerWithRegistry(service: Partial<Service>): Promise<RegistryRegistration> {
     logger.info('Workflow Activity: Registering with Registry', {
       serviceName: service.name,
     });
 
-    // This would call the RegistryClient
-    return 'registry-id-12345';
+    const existingId = service.id ? await this.serviceStore.getRegistryId(service.id) : null;
+    if (existingId) {
+      await this.registryClient.updateService(existingId, service);
+      return { registryId: existingId, created: false };
+    }
+
+    const registryEntry = await this.registryClient.registerService(service);
+    return { registryId: registryEntry.id, created: true };
   }
 
   /**
@@ -92,19 +155,10 @@ export class PublishingWorkflowActivities {
       serviceId: service.id,
     });
 
-    // Mock test execution
-    return {
-      passed: true,
-      total: 10,
-      failed: 0,
-      skipped: 0,
-      duration: 5000,
-      tests: [
-        { name: 'Health Check', status: 'passed', duration: 100 },
-        { name: 'Authentication', status: 'passed', duration: 200 },
-        { name: 'API Endpoint', status: 'passed', duration: 300 },
-      ],
-    };
+    const result = await this.testOrchestrator.runHealthChecks(service);
+    await this.testRunStore.recordRun(service, 'publishing', result);
+
+    return result;
   }
 
   /**
@@ -115,12 +169,7 @@ export class PublishingWorkflowActivities {
       serviceId: service.id,
     });
 
-    return {
-      passed: true,
-      vulnerabilities: [],
-      scanTime: new Date(),
-      scanner: 'Snyk',
-    };
+    return this.testOrchestrator.runSecurityScan(service);
   }
 
   /**
@@ -131,63 +180,80 @@ export class PublishingWorkflowActivities {
       serviceId: service.id,
     });
 
-    return {
-      passed: true,
-      metrics: [
-        { name: 'Response Time', value: 150, unit: 'ms', threshold: 200, passed: true },
-        { name: 'Throughput', value: 1000, unit: 'req/s', threshold: 500, passed: true },
-      ],
-      benchmarkedAt: new Date(),
-    };
+    return this.testOrchestrator.runPerformanceBenchmarks(service);
   }
 
   /**
-   * Activity: Create approval workflow
+   * Whether the service must pass an approval chain before activation
+   */
+  requiresApproval(serviceSpec: Partial<Service>): boolean {
+    return this.approvalService.requiresApproval(serviceSpec);
+  }
+
+  /**
+   * Activity: Open the service's approval chain
    */
   async createApprovalWorkflow(context: PublishingWorkflowContext): Promise<string> {
     logger.info('Workflow Activity: Creating approval workflow', {
       serviceId: context.serviceId,
     });
 
-    // This would call the GovernanceClient
-    return 'approval-workflow-id';
+    const approval = await this.approvalService.startApproval(context);
+    return approval.id;
   }
 
   /**
-   * Activity: Wait for approval (with timeout)
+   * Activity: Wait for the approval chain to be decided, cancelling it once
+   * the deadline passes. Reviews apply rejections and change requests to the
+   * service themselves.
    */
-  async waitForApproval(workflowId: string, timeoutSeconds: number): Promise<boolean> {
+  async waitForApproval(workflowId: string, deadline: Date): Promise<ApprovalStatus> {
     logger.info('Workflow Activity: Waiting for approval', {
       workflowId,
-      timeoutSeconds,
+      deadline,
     });
 
     // In Temporal, this would use signals and timers
-    // For now, simulate immediate approval
-    return true;
+    return this.approvalService.waitForDecision(
+      workflowId,
+      Math.max(deadline.getTime() - Date.now(), 0),
+      parseInt(process.env.APPROVAL_POLL_INTERVAL_MS || '30000', 10)
+    );
   }
 
   /**
-   * Activity: Publish events to Analytics Hub
+   * Activity: Activate the service, recording its publication events for
+   * Analytics Hub and the Governance Dashboard in the same transaction
    */
-  async publishAnalyticsEvents(events: Array<Record<string, unknown>>): Promise<void> {
-    logger.info('Workflow Activity: Publishing analytics events', {
-      count: events.length,
+  async activateService(service: Service): Promise<void> {
+    logger.info('Workflow Activity: Activating service', {
+      serviceId: service.id,
     });
 
-    // This would call the AnalyticsClient
+    await transaction(async (client) => {
+      await this.serviceStore.updateStatus(service.id, ServiceStatus.ACTIVE, undefined, client);
+      await this.outboxStore.enqueue(
+        servicePublishedEvents({ ...service, status: ServiceStatus.ACTIVE }),
+        client
+      );
+    });
+    await cacheDelete(`service:${service.id}`);
   }
 
   /**
-   * Activity: Notify Governance Dashboard
+   * Activity: Send a lifecycle event to the provider's webhooks
    */
-  async notifyGovernanceDashboard(service: Service, event: string): Promise<void> {
-    logger.info('Workflow Activity: Notifying Governance Dashboard', {
+  async dispatchWebhook(service: Service, event: WebhookEvent): Promise<void> {
+    logger.info('Workflow Activity: Dispatching webhook event', {
       serviceId: service.id,
       event,
     });
 
-    // This would call the GovernanceClient
+    await this.webhookDispatcher.dispatch(service.providerId, event, {
+      serviceId: service.id,
+      name: service.name,
+      version: service.version,
+    });
   }
 
   /**
@@ -198,43 +264,299 @@ export class PublishingWorkflowActivities {
       serviceId: service.id,
     });
 
-    // This would use the database pool
+    await this.serviceStore.saveService(service);
   }
 
   /**
    * Activity: Update service status
    */
-  async updateServiceStatus(serviceId: string, status: ServiceStatus): Promise<void> {
+  async updateServiceStatus(serviceId: string, status: ServiceStatus, reason?: string): Promise<void> {
     logger.info('Workflow Activity: Updating service status', {
       serviceId,
       status,
     });
 
-    // This would use the database pool
+    await this.serviceStore.updateStatus(serviceId, status, reason);
+    await cacheDelete(`service:${serviceId}`);
   }
 
   /**
-   * Activity: Rollback service publication
+   * Activity: Record a deprecation and when the service will be retired,
+   * mark the service deprecated and record the deprecation events, all in
+   * one transaction
    */
-  async rollbackPublication(serviceId: string, registryId: string): Promise<void> {
-    logger.info('Workflow Activity: Rolling back publication', {
+  async scheduleDeprecation(
+    providerId: string,
+    deprecation: Pick<ServiceDeprecation, 'serviceId' | 'reason' | 'successorServiceId' | 'successorVersion' | 'sunsetAt'>
+  ): Promise<ServiceDeprecation> {
+    const { serviceId } = deprecation;
+
+    logger.info('Workflow Activity: Scheduling deprecation', {
       serviceId,
+      sunsetAt: deprecation.sunsetAt,
+    });
+
+    const scheduled = await transaction(async (client) => {
+      const created = await this.deprecationStore.createDeprecation(deprecation, client);
+      await this.serviceStore.updateStatus(serviceId, ServiceStatus.DEPRECATED, deprecation.reason, client);
+      await this.outboxStore.enqueue(serviceDeprecatedEvents(providerId, created), client);
+
+      return created;
+    });
+
+    await cacheDelete(`service:${serviceId}`);
+    return scheduled;
+  }
+
+  /**
+   * Activity: Publish deprecation metadata to the Registry, so discovery and
+   * search results carry the sunset date and successor
+   */
+  async publishDeprecationToRegistry(deprecation: ServiceDeprecation): Promise<void> {
+    logger.info('Workflow Activity: Publishing deprecation to Registry', {
+      serviceId: deprecation.serviceId,
+      status: deprecation.status,
+    });
+
+    const registryId = await this.serviceStore.getRegistryId(deprecation.serviceId);
+    if (!registryId) {
+      return;
+    }
+
+    await this.registryClient.updateServiceStatus(
       registryId,
+      deprecation.status === 'retired' ? ServiceStatus.RETIRED : ServiceStatus.DEPRECATED
+    );
+    await this.registryClient.updateService(registryId, { deprecation });
+  }
+
+  /**
+   * Activity: Notify every consumer with recorded usage of a deprecated
+   * service. Notices are recorded one by one, so a retry only reaches the
+   * consumers that were missed.
+   */
+  async notifyDeprecatedServiceConsumers(deprecation: ServiceDeprecation): Promise<ServiceDeprecation> {
+    const { serviceId } = deprecation;
+    const consumerIds = await this.deprecationStore.listUnnotifiedConsumers(serviceId);
+
+    logger.info('Workflow Activity: Notifying consumers of deprecation', {
+      serviceId,
+      consumers: consumerIds.length,
     });
 
-    // Delete from database and registry
+    for (const consumerId of consumerIds) {
+      await transaction(async (client) => {
+        await this.deprecationStore.recordNotice(serviceId, consumerId, client);
+        await this.outboxStore.enqueue(
+          [
+            {
+              destination: 'analytics',
+              eventType: 'service_deprecation_notice',
+              aggregateId: serviceId,
+              payload: {
+                serviceId,
+                userId: consumerId,
+                reason: deprecation.reason,
+                successorServiceId: deprecation.successorServiceId,
+                successorVersion: deprecation.successorVersion,
+                sunsetAt: new Date(deprecation.sunsetAt).toISOString(),
+              },
+            },
+          ],
+          client
+        );
+      });
+    }
+
+    return transaction(async (client) => {
+      const notified = await this.deprecationStore.markNotified(serviceId, client);
+      await this.outboxStore.enqueue(
+        [
+          {
+            destination: 'governance',
+            eventType: 'service_deprecation_consumers_notified',
+            aggregateId: serviceId,
+            payload: {
+              serviceId,
+              successorServiceId: notified.successorServiceId,
+              successorVersion: notified.successorVersion,
+              sunsetAt: new Date(notified.sunsetAt).toISOString(),
+              consumersNotified: notified.consumersNotified,
+            },
+          },
+        ],
+        client
+      );
+
+      return notified;
+    });
   }
+
+  /**
+   * Activity: Retire a service once its sunset has passed, closing its
+   * deprecation and recording the event in one transaction
+   */
+  async completeDeprecation(serviceId: string): Promise<ServiceDeprecation> {
+    logger.info('Workflow Activity: Completing deprecation', { serviceId });
+
+    const retired = await transaction(async (client) => {
+      await this.serviceStore.updateStatus(serviceId, ServiceStatus.RETIRED, undefined, client);
+      const deprecation = await this.deprecationStore.markRetired(serviceId, client);
+      await this.outboxStore.enqueue(
+        [
+          {
+            destination: 'analytics',
+            eventType: 'service_retired',
+            aggregateId: serviceId,
+            payload: { serviceId, successorServiceId: deprecation.successorServiceId },
+          },
+        ],
+        client
+      );
+
+      return deprecation;
+    });
+
+    await cacheDelete(`service:${serviceId}`);
+    return retired;
+  }
+
+  /**
+   * Activity: Deprecations still waiting on consumer notification or sunset
+   */
+  async listPendingDeprecations(): Promise<{ unnotified: ServiceDeprecation[]; due: ServiceDeprecation[] }> {
+    const [unnotified, due] = await Promise.all([
+      this.deprecationStore.listPendingNotification(),
+      this.deprecationStore.listDue(),
+    ]);
+
+    return { unnotified, due };
+  }
+
+  /**
+   * Compensation: Remove the service from the Registry
+   */
+  async deregisterFromRegistry(registryId: string): Promise<void> {
+    logger.info('Workflow Compensation: Deregistering from Registry', { registryId });
+
+    await this.registryClient.deleteService(registryId);
+  }
+
+  /**
+   * Compensation: Delete the service record and its cached copy
+   */
+  async deleteServiceFromDatabase(serviceId: string): Promise<void> {
+    logger.info('Workflow Compensation: Deleting service from database', { serviceId });
+
+    await this.serviceStore.deleteService(serviceId);
+    await cacheDelete(`service:${serviceId}`);
+  }
+
+  /**
+   * Compensation: Withdraw a pending approval request
+   */
+  async cancelApprovalWorkflow(workflowId: string): Promise<void> {
+    logger.info('Workflow Compensation: Cancelling approval workflow', { workflowId });
+
+    await this.approvalService.cancel(workflowId, 'Publication rolled back');
+  }
+
+  /**
+   * Compensation: Take an activated service out of circulation, in case
+   * deleting its record fails
+   */
+  async deactivateService(serviceId: string): Promise<void> {
+    logger.info('Workflow Compensation: Deactivating service', { serviceId });
+
+    await this.updateServiceStatus(serviceId, ServiceStatus.SUSPENDED, 'Publication rolled back');
+  }
+}
+
+export interface PublishingWorkflowOptions {
+  /** Called once the service is waiting for its approval chain */
+  onAwaitingApproval?: (context: PublishingWorkflowContext) => void;
+}
+
+/**
+ * Checkpoints are stored as JSON; restore the Date fields of a replayed
+ * step result
+ */
+function reviveDates<T>(...fields: Array<keyof T>): (result: T) => T {
+  return (result) => {
+    const revived = { ...result };
+
+    for (const field of fields) {
+      const value = revived[field];
+      if (typeof value === 'string') {
+        revived[field] = new Date(value) as T[keyof T];
+      }
+    }
+
+    return revived;
+  };
 }
 
 /**
  * Main Publishing Workflow
  * In Temporal, this would be decorated with @workflow
+ *
+ * Every activity result is checkpointed through the WorkflowStateStore, so
+ * re-running execute() for the same service skips completed steps and
+ * resumes where a previous worker stopped.
+ *
+ * Steps with side effects register a compensation as they run (including
+ * steps replayed from a checkpoint); if the workflow fails, the
+ * RollbackWorkflow undoes them in reverse order. Only resources the run
+ * created are undone, and nothing after activation is: an active service
+ * stays active.
  */
 export class PublishingWorkflow {
   private activities: PublishingWorkflowActivities;
+  private stateStore: WorkflowStateStore;
+  private rollbackWorkflow: RollbackWorkflow;
 
   constructor() {
     this.activities = new PublishingWorkflowActivities();
+    this.stateStore = new WorkflowStateStore();
+    this.rollbackWorkflow = new RollbackWorkflow();
+  }
+
+  /**
+   * Run the workflow until the service is active, rejected or waiting for
+   * approval. A workflow waiting for approval carries on in the background
+   * and is resumed by resumeIncomplete() if the process stops.
+   */
+  async start(
+    serviceId: string,
+    providerId: string,
+    serviceSpec: Partial<Service>
+  ): Promise<PublishingWorkflowContext> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      this.execute(serviceId, providerId, serviceSpec, {
+        onAwaitingApproval: (context) => {
+          settled = true;
+          resolve({ ...context });
+        },
+      }).then(
+        (context) => {
+          if (!settled) {
+            resolve(context);
+          }
+        },
+        (error) => {
+          if (settled) {
+            logger.error('Publishing workflow failed after approval was requested', {
+              workflowId: serviceId,
+              error,
+            });
+          } else {
+            reject(error);
+          }
+        }
+      );
+    });
   }
 
   /**
@@ -243,7 +565,8 @@ export class PublishingWorkflow {
   async execute(
     serviceId: string,
     providerId: string,
-    serviceSpec: Partial<Service>
+    serviceSpec: Partial<Service>,
+    options: PublishingWorkflowOptions = {}
   ): Promise<PublishingWorkflowContext> {
     const context: PublishingWorkflowContext = {
       serviceId,
@@ -252,6 +575,8 @@ export class PublishingWorkflow {
       approvalRequired: false,
       startTime: new Date(),
     };
+    const compensations = new CompensationStack();
+    let activated = false;
 
     try {
       logger.info('Starting Publishing Workflow', {
@@ -259,47 +584,83 @@ export class PublishingWorkflow {
         serviceName: serviceSpec.name,
       });
 
+      await this.stateStore.startWorkflow(serviceId, providerId, serviceSpec);
+      const checkpoints = await this.loadCheckpoints(serviceId);
+
       // Step 1: Validate Service Specification (with retry)
-      context.validationResult = await this.retryActivity(
-        () => this.activities.validateServiceSpec(serviceSpec),
+      context.validationResult = await this.runStep(
+        serviceId,
+        PublishingStep.VALIDATION,
+        checkpoints,
+        () => this.activities.validateServiceSpec(serviceSpec, providerId),
         3
       );
 
       if (!context.validationResult.isValid) {
-        context.endTime = new Date();
-        return context;
+        return await this.finish(context, ServiceStatus.FAILED_VALIDATION);
       }
 
       // Step 2: Validate OpenAPI Spec (if provided)
       if (serviceSpec.openApiSpec) {
-        const openApiResult = await this.retryActivity(
+        const openApiResult = await this.runStep(
+          serviceId,
+          PublishingStep.OPENAPI_VALIDATION,
+          checkpoints,
           () => this.activities.validateOpenAPISpec(serviceSpec.openApiSpec!),
           3
         );
 
         if (!openApiResult.isValid) {
           context.validationResult = openApiResult;
-          context.endTime = new Date();
-          return context;
+          return await this.finish(context, ServiceStatus.FAILED_VALIDATION);
+        }
+      }
+
+      // Step 2b: Validate protobuf descriptors (gRPC services)
+      if (serviceSpec.endpoint?.protocol === ProtocolType.GRPC && serviceSpec.grpcSpec) {
+        const protobufResult = await this.runStep(
+          serviceId,
+          PublishingStep.PROTOBUF_VALIDATION,
+          checkpoints,
+          () => this.activities.validateProtobufDescriptors(serviceSpec.grpcSpec!),
+          3
+        );
+
+        if (!protobufResult.isValid) {
+          context.validationResult = protobufResult;
+          return await this.finish(context, ServiceStatus.FAILED_VALIDATION);
         }
       }
 
       // Step 3: Check Policy Compliance
-      context.policyResult = await this.retryActivity(
+      context.policyResult = await this.runStep(
+        serviceId,
+        PublishingStep.POLICY,
+        checkpoints,
         () => this.activities.checkPolicyCompliance(serviceSpec),
-        3
+        3,
+        reviveDates<PolicyValidationResult>('validatedAt')
       );
 
       if (!context.policyResult.compliant) {
-        context.endTime = new Date();
-        return context;
+        return await this.finish(context, ServiceStatus.SUSPENDED);
       }
 
-      // Step 4: Register with Registry
-      context.registryId = await this.retryActivity(
-        () => this.activities.registerWithRegistry(serviceSpec),
+      // Step 4: Register with Registry. A resubmitted service keeps its
+      // entry and record, so a rollback must leave them in place.
+      const registration = await this.runStep(
+        serviceId,
+        PublishingStep.REGISTRY,
+        checkpoints,
+        () => this.activities.registerWithRegistry({ ...serviceSpec, id: serviceId, providerId }),
         5
       );
+      context.registryId = registration.registryId;
+      if (registration.created) {
+        compensations.register(PublishingStep.REGISTRY, 'deregister_from_registry', () =>
+          this.activities.deregisterFromRegistry(registration.registryId)
+        );
+      }
 
       // Step 5: Create Service Object
       const service: Service = {
@@ -319,20 +680,55 @@ export class PublishingWorkflow {
         metadata: {
           createdAt: new Date(),
           updatedAt: new Date(),
+          tags: serviceSpec.metadata?.tags,
+          documentation: serviceSpec.metadata?.documentation,
+          exampleUsage: serviceSpec.metadata?.exampleUsage,
         },
+        openApiSpec: serviceSpec.openApiSpec,
+        grpcSpec: serviceSpec.grpcSpec,
+        smokeTests: serviceSpec.smokeTests,
       };
 
-      // Step 6: Save to Database
-      await this.retryActivity(
+      // Step 6: Save to Database (compensation registered first, since a
+      // failed attempt may still have written the row)
+      if (registration.created) {
+        compensations.register(PublishingStep.PERSISTENCE, 'delete_service_record', () =>
+          this.activities.deleteServiceFromDatabase(serviceId)
+        );
+      }
+      await this.runStep(
+        serviceId,
+        PublishingStep.PERSISTENCE,
+        checkpoints,
         () => this.activities.saveServiceToDatabase(service),
         5
       );
 
       // Step 7: Run Tests in Parallel
       const [testResult, securityResult, benchmarkResult] = await Promise.all([
-        this.retryActivity(() => this.activities.runAutomatedTests(service), 3),
-        this.retryActivity(() => this.activities.runSecurityScan(service), 3),
-        this.retryActivity(() => this.activities.runPerformanceBenchmarks(service), 3),
+        this.runStep(
+          serviceId,
+          PublishingStep.TESTS,
+          checkpoints,
+          () => this.activities.runAutomatedTests(service),
+          3
+        ),
+        this.runStep(
+          serviceId,
+          PublishingStep.SECURITY_SCAN,
+          checkpoints,
+          () => this.activities.runSecurityScan(service),
+          3,
+          reviveDates<SecurityScanResult>('scanTime')
+        ),
+        this.runStep(
+          serviceId,
+          PublishingStep.BENCHMARKS,
+          checkpoints,
+          () => this.activities.runPerformanceBenchmarks(service),
+          3,
+          reviveDates<PerformanceBenchmark>('benchmarkedAt')
+        ),
       ]);
 
       context.testResult = testResult;
@@ -345,53 +741,93 @@ export class PublishingWorkflow {
           serviceId,
           ServiceStatus.FAILED_VALIDATION
         );
-        context.endTime = new Date();
-        return context;
+        return await this.finish(context, ServiceStatus.FAILED_VALIDATION);
       }
 
       // Step 8: Determine if Approval Required
-      context.approvalRequired = this.requiresApproval(serviceSpec);
+      context.approvalRequired = this.activities.requiresApproval(serviceSpec);
 
       if (context.approvalRequired) {
-        // Create approval workflow
-        const approvalWorkflowId = await this.activities.createApprovalWorkflow(context);
+        // Create approval workflow (checkpointed with its deadline so a
+        // resume neither opens a duplicate nor restarts the timeout)
+        const approvalRequest = await this.runStep(
+          serviceId,
+          PublishingStep.APPROVAL_REQUEST,
+          checkpoints,
+          async (): Promise<ApprovalRequest> => ({
+            approvalId: await this.activities.createApprovalWorkflow(context),
+            deadline: new Date(Date.now() + APPROVAL_TIMEOUT_MS),
+          }),
+          3,
+          reviveDates<ApprovalRequest>('deadline')
+        );
+        compensations.register(PublishingStep.APPROVAL_REQUEST, 'cancel_approval_workflow', () =>
+          this.activities.cancelApprovalWorkflow(approvalRequest.approvalId)
+        );
+
+        context.approvalStatus = 'pending';
+        context.status = ServiceStatus.PENDING_APPROVAL;
+        options.onAwaitingApproval?.(context);
 
-        // Wait for approval (with 7-day timeout)
-        const approved = await this.activities.waitForApproval(
-          approvalWorkflowId,
-          7 * 24 * 60 * 60
+        // Wait for every stage of the approval chain (until the deadline)
+        context.approvalStatus = await this.runStep(
+          serviceId,
+          PublishingStep.APPROVAL,
+          checkpoints,
+          () => this.activities.waitForApproval(approvalRequest.approvalId, approvalRequest.deadline),
+          1
         );
 
-        context.approvalStatus = approved ? 'approved' : 'rejected';
+        // Rejections and change requests were applied by the deciding review
+        if (context.approvalStatus === 'cancelled') {
+          await this.activities.updateServiceStatus(
+            serviceId,
+            ServiceStatus.SUSPENDED,
+            'Approval was not completed in time'
+          );
+          await this.activities.dispatchWebhook(service, WebhookEvent.SERVICE_REJECTED);
+        }
 
-        if (!approved) {
-          await this.activities.updateServiceStatus(serviceId, ServiceStatus.SUSPENDED);
-          context.endTime = new Date();
-          return context;
+        if (context.approvalStatus !== 'approved') {
+          return await this.finish(context, this.decidedStatus(context.approvalStatus));
         }
       }
 
-      // Step 9: Activate Service
-      await this.activities.updateServiceStatus(serviceId, ServiceStatus.ACTIVE);
+      // Step 9: Activate Service (the publication events are recorded with it)
+      compensations.register(PublishingStep.ACTIVATION, 'deactivate_service', () =>
+        this.activities.deactivateService(serviceId)
+      );
+      await this.runStep(
+        serviceId,
+        PublishingStep.ACTIVATION,
+        checkpoints,
+        () => this.activities.activateService(service),
+        3
+      );
+      activated = true;
 
-      // Step 10: Publish Events
-      await Promise.all([
-        this.activities.publishAnalyticsEvents([
-          {
-            event: 'service_published',
-            serviceId,
-            providerId,
-            timestamp: new Date(),
-          },
-        ]),
-        this.activities.notifyGovernanceDashboard(service, 'service_published'),
-      ]);
+      // Step 10: Notify the provider. The service is active, so a failure
+      // here is recorded on the step but does not roll the publication back.
+      try {
+        await this.runStep(
+          serviceId,
+          PublishingStep.EVENTS,
+          checkpoints,
+          () => this.activities.dispatchWebhook(service, WebhookEvent.SERVICE_PUBLISHED),
+          3
+        );
+      } catch (error) {
+        logger.error('Failed to notify provider of publication', {
+          workflowId: serviceId,
+          error,
+        });
+      }
 
-      context.endTime = new Date();
+      await this.finish(context, ServiceStatus.ACTIVE);
 
       logger.info('Publishing Workflow completed successfully', {
         workflowId: serviceId,
-        duration: context.endTime.getTime() - context.startTime.getTime(),
+        duration: context.endTime!.getTime() - context.startTime.getTime(),
       });
 
       return context;
@@ -401,15 +837,124 @@ export class PublishingWorkflow {
         error,
       });
 
-      // Rollback on failure
-      if (context.registryId) {
-        await this.activities.rollbackPublication(serviceId, context.registryId);
+      await this.stateStore.failWorkflow(serviceId, (error as Error).message);
+
+      // Undo completed side effects, most recent first, unless the service
+      // already went live
+      if (compensations.size > 0 && !activated) {
+        await this.rollbackWorkflow.execute(serviceId, compensations);
       }
 
       throw error;
     }
   }
 
+  /**
+   * Resume an interrupted workflow from its last completed step. Like
+   * start(), settles once the workflow is waiting for approval.
+   */
+  async resume(serviceId: string): Promise<PublishingWorkflowContext> {
+    const workflow = await this.stateStore.getWorkflow(serviceId);
+
+    if (!workflow) {
+      throw new Error(`Publishing workflow not found for service ${serviceId}`);
+    }
+
+    if (workflow.status !== 'running') {
+      throw new Error(`Publishing workflow for service ${serviceId} is already ${workflow.status}`);
+    }
+
+    logger.info('Resuming Publishing Workflow', {
+      workflowId: serviceId,
+      currentStep: workflow.currentStep,
+    });
+
+    return this.start(workflow.serviceId, workflow.providerId, workflow.serviceSpec);
+  }
+
+  /**
+   * Resume every workflow left running by a previous process. The workflows
+   * resume concurrently, so one waiting for its reviewers holds up no other.
+   */
+  async resumeIncomplete(): Promise<number> {
+    const workflows = await this.stateStore.findIncompleteWorkflows();
+
+    await Promise.all(
+      workflows.map((workflow) =>
+        this.resume(workflow.serviceId).catch((error) => {
+          logger.error('Failed to resume Publishing Workflow', {
+            workflowId: workflow.serviceId,
+            error,
+          });
+        })
+      )
+    );
+
+    return workflows.length;
+  }
+
+  /**
+   * Run an activity as a checkpointed step, replaying the stored result
+   * if the step already completed in an earlier run. `revive` restores
+   * the fields of a replayed result that JSON does not round-trip.
+   */
+  private async runStep<T>(
+    serviceId: string,
+    step: PublishingStep,
+    checkpoints: Map<PublishingStep, WorkflowStepRecord>,
+    activity: () => Promise<T>,
+    maxRetries: number,
+    revive?: (result: T) => T
+  ): Promise<T> {
+    const checkpoint = checkpoints.get(step);
+
+    if (checkpoint && checkpoint.status === 'completed') {
+      logger.info('Skipping completed workflow step', { workflowId: serviceId, step });
+      const result = checkpoint.result as T;
+      return revive ? revive(result) : result;
+    }
+
+    await this.stateStore.markStepStarted(serviceId, step);
+
+    try {
+      const result = await this.retryActivity(activity, maxRetries);
+      await this.stateStore.markStepCompleted(serviceId, step, result);
+      return result;
+    } catch (error) {
+      await this.stateStore.markStepFailed(serviceId, step, (error as Error).message);
+      throw error;
+    }
+  }
+
+  private async loadCheckpoints(
+    serviceId: string
+  ): Promise<Map<PublishingStep, WorkflowStepRecord>> {
+    const steps = await this.stateStore.getSteps(serviceId);
+    return new Map(steps.map((step) => [step.step, step]));
+  }
+
+  private async finish(
+    context: PublishingWorkflowContext,
+    status: ServiceStatus
+  ): Promise<PublishingWorkflowContext> {
+    context.status = status;
+    context.endTime = new Date();
+    await this.stateStore.completeWorkflow(context.serviceId);
+    return context;
+  }
+
+  /**
+   * The status a decided approval left the service in; the deciding review
+   * applied it, or the workflow did for a timed-out approval
+   */
+  private decidedStatus(approvalStatus: ApprovalStatus): ServiceStatus {
+    if (approvalStatus === 'changes_requested') {
+      return ServiceStatus.CHANGES_REQUESTED;
+    }
+
+    return approvalStatus === 'approved' ? ServiceStatus.ACTIVE : ServiceStatus.SUSPENDED;
+  }
+
   /**
    * Retry an activity with exponential backoff
    */
@@ -443,51 +988,136 @@ export class PublishingWorkflow {
     );
   }
 
-  private requiresApproval(serviceSpec: Partial<Service>): boolean {
-    return (
-      serviceSpec.compliance?.level === 'confidential' ||
-      serviceSpec.compliance?.level === 'restricted' ||
-      serviceSpec.sla?.supportLevel === 'enterprise'
-    );
-  }
+}
+
+export interface RollbackWorkflowOptions {
+  maxRetries?: number;
+  /** Base delay of the exponential backoff between attempts */
+  retryDelayMs?: number;
 }
 
 /**
  * Rollback Workflow for failed publications
+ *
+ * Runs a failed workflow's compensations in reverse order. A compensation
+ * that still fails after its retries is recorded and the rollback moves on,
+ * so one stuck downstream system does not leave the others orphaned.
  */
 export class RollbackWorkflow {
-  private activities: PublishingWorkflowActivities;
-
-  constructor() {
-    this.activities = new PublishingWorkflowActivities();
+  private stateStore: WorkflowStateStore;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+
+  constructor(options: RollbackWorkflowOptions = {}) {
+    this.stateStore = new WorkflowStateStore();
+    this.maxRetries = options.maxRetries ?? parseInt(process.env.ROLLBACK_MAX_RETRIES || '3', 10);
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
   }
 
-  async execute(serviceId: string, registryId: string): Promise<void> {
+  async execute(serviceId: string, compensations: CompensationStack): Promise<CompensationRecord[]> {
     logger.info('Starting Rollback Workflow', {
       serviceId,
-      registryId,
+      compensations: compensations.size,
     });
 
-    try {
-      // Rollback in reverse order of publishing
-      await this.activities.rollbackPublication(serviceId, registryId);
+    const records: CompensationRecord[] = [];
 
-      logger.info('Rollback Workflow completed', {
-        serviceId,
-      });
-    } catch (error) {
-      logger.error('Rollback Workflow failed', {
+    for (const compensation of compensations.unwind()) {
+      const record = await this.compensate(compensation);
+      records.push(record);
+      await this.recordOutcome(serviceId, 'record compensation', () =>
+        this.stateStore.recordCompensation(serviceId, record)
+      );
+    }
+
+    // A step counts as undone only if all of its compensations succeeded
+    const failedSteps = new Set(
+      records.filter((record) => record.status === 'failed').map((record) => record.step)
+    );
+    const compensatedSteps = new Set(
+      records.map((record) => record.step).filter((step) => !failedSteps.has(step))
+    );
+
+    for (const step of compensatedSteps) {
+      await this.recordOutcome(serviceId, 'mark step compensated', () =>
+        this.stateStore.markStepCompensated(serviceId, step)
+      );
+    }
+
+    const succeeded = failedSteps.size === 0;
+    await this.recordOutcome(serviceId, 'finish rollback', () =>
+      this.stateStore.finishRollback(serviceId, succeeded)
+    );
+
+    if (succeeded) {
+      logger.info('Rollback Workflow completed', { serviceId });
+    } else {
+      logger.error('Rollback Workflow left side effects behind', {
         serviceId,
-        error,
+        failed: records.filter((record) => record.status === 'failed'),
       });
+    }
 
-      throw error;
+    return records;
+  }
+
+  private async compensate(compensation: Compensation): Promise<CompensationRecord> {
+    const { step, action } = compensation;
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        await compensation.run();
+        return { step, action, status: 'compensated', attempts: attempt, executedAt: new Date() };
+      } catch (error) {
+        lastError = error as Error;
+        logger.warn('Compensation failed, retrying', {
+          action,
+          attempt,
+          maxRetries: this.maxRetries,
+          error: lastError.message,
+        });
+
+        if (attempt < this.maxRetries) {
+          const delayMs = Math.pow(2, attempt - 1) * this.retryDelayMs;
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+      }
+    }
+
+    return {
+      step,
+      action,
+      status: 'failed',
+      attempts: this.maxRetries,
+      error: lastError?.message,
+      executedAt: new Date(),
+    };
+  }
+
+  /**
+   * Rollback bookkeeping must not mask the error that triggered it
+   */
+  private async recordOutcome(
+    serviceId: string,
+    operation: string,
+    write: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      logger.error(`Failed to ${operation}`, { serviceId, error });
     }
   }
 }
 
 /**
  * Deprecation Workflow for retiring services
+ *
+ * Deprecating records the sunset date and successor, marks the service
+ * deprecated and notifies its consumers. Retirement happens later, when
+ * DeprecationScheduler finds the sunset has passed; the schedule is kept in
+ * Postgres, so it survives restarts.
  */
 export class DeprecationWorkflow {
   private activities: PublishingWorkflowActivities;
@@ -497,34 +1127,30 @@ export class DeprecationWorkflow {
   }
 
   async execute(
-    serviceId: string,
-    _reason: string,
+    service: Pick<Service, 'id' | 'providerId'>,
+    successor: Pick<Service, 'id' | 'version'>,
+    reason: string,
     gracePeriodDays: number = 30
-  ): Promise<void> {
+  ): Promise<ServiceDeprecation> {
+    const serviceId = service.id;
+
     logger.info('Starting Deprecation Workflow', {
       serviceId,
+      successorServiceId: successor.id,
       gracePeriodDays,
     });
 
     try {
-      // Step 1: Mark as deprecated
-      await this.activities.updateServiceStatus(serviceId, ServiceStatus.DEPRECATED);
-
-      // Step 2: Notify consumers (would send emails, notifications, etc.)
-      logger.info('Notifying consumers of deprecation', { serviceId });
-
-      // Step 3: Wait for grace period (in Temporal, this would use a timer)
-      logger.info('Waiting for grace period', {
+      // Step 1: Record the schedule and mark as deprecated
+      const deprecation = await this.activities.scheduleDeprecation(service.providerId, {
         serviceId,
-        days: gracePeriodDays,
+        reason,
+        successorServiceId: successor.id,
+        successorVersion: successor.version,
+        sunsetAt: new Date(Date.now() + gracePeriodDays * 24 * 60 * 60 * 1000),
       });
 
-      // Step 4: Retire service
-      await this.activities.updateServiceStatus(serviceId, ServiceStatus.RETIRED);
-
-      logger.info('Deprecation Workflow completed', {
-        serviceId,
-      });
+      return await this.announce(deprecation);
     } catch (error) {
       logger.error('Deprecation Workflow failed', {
         serviceId,
@@ -534,4 +1160,72 @@ export class DeprecationWorkflow {
       throw error;
     }
   }
+
+  /**
+   * Advertise a scheduled deprecation and notify the service's consumers.
+   * Also used for deprecations recorded outside execute().
+   */
+  async announce(deprecation: ServiceDeprecation): Promise<ServiceDeprecation> {
+    // Step 2: Advertise the sunset through the Registry
+    await this.activities.publishDeprecationToRegistry(deprecation);
+
+    // Step 3: Notify consumers; the scheduler retries this if it fails
+    try {
+      return await this.activities.notifyDeprecatedServiceConsumers(deprecation);
+    } catch (error) {
+      logger.error('Failed to notify consumers of deprecation, will retry', {
+        serviceId: deprecation.serviceId,
+        error,
+      });
+      return deprecation;
+    }
+  }
+
+  /**
+   * Retire a deprecated service after its grace period
+   */
+  async retire(serviceId: string): Promise<ServiceDeprecation> {
+    logger.info('Retiring deprecated service', { serviceId });
+
+    const deprecation = await this.activities.completeDeprecation(serviceId);
+    await this.activities.publishDeprecationToRegistry(deprecation);
+
+    logger.info('Deprecation Workflow completed', { serviceId });
+
+    return deprecation;
+  }
+
+  /**
+   * Finish interrupted consumer notifications and retire services whose
+   * sunset has passed. Returns the number of services retired.
+   */
+  async processPending(): Promise<number> {
+    const { unnotified, due } = await this.activities.listPendingDeprecations();
+
+    for (const deprecation of unnotified) {
+      try {
+        await this.activities.notifyDeprecatedServiceConsumers(deprecation);
+      } catch (error) {
+        logger.error('Failed to notify consumers of deprecation', {
+          serviceId: deprecation.serviceId,
+          error,
+        });
+      }
+    }
+
+    let retired = 0;
+    for (const deprecation of due) {
+      try {
+        await this.retire(deprecation.serviceId);
+        retired++;
+      } catch (error) {
+        logger.error('Failed to retire deprecated service', {
+          serviceId: deprecation.serviceId,
+          error,
+        });
+      }
+    }
+
+    return retired;
+  }
 }
@@ -0,0 +1,251 @@
+import { pool } from '../config/database';
+import {
+  Service,
+  CompensationRecord,
+  CompensationStatus,
+  PublishingStep,
+  PublishingWorkflowRecord,
+  WorkflowRunStatus,
+  WorkflowStepRecord,
+  WorkflowStepStatus,
+} from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Postgres-backed checkpoint store for the publishing workflow.
+ * Each activity result is persisted so a restarted worker can resume
+ * from the last completed step instead of starting over.
+ */
+export class WorkflowStateStore {
+  /**
+   * Create the workflow record, or mark an existing one as running again
+   */
+  async startWorkflow(
+    serviceId: string,
+    providerId: string,
+    serviceSpec: Partial<Service>
+  ): Promise<void> {
+    await pool.query(
+      `INSERT INTO publishing_workflows (service_id, provider_id, service_spec, status)
+       VALUES ($1, $2, $3, 'running')
+       ON CONFLICT (service_id) DO UPDATE SET
+         status = 'running',
+         error = NULL,
+         completed_at = NULL,
+         updated_at = NOW()`,
+      [serviceId, providerId, JSON.stringify(serviceSpec)]
+    );
+  }
+
+  /**
+   * Load the workflow record for a service
+   */
+  async getWorkflow(serviceId: string): Promise<PublishingWorkflowRecord | null> {
+    const result = await pool.query(
+      'SELECT * FROM publishing_workflows WHERE service_id = $1',
+      [serviceId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapWorkflowRow(result.rows[0]);
+  }
+
+  /**
+   * List workflows that were interrupted before reaching a terminal state
+   */
+  async findIncompleteWorkflows(): Promise<PublishingWorkflowRecord[]> {
+    const result = await pool.query(
+      `SELECT * FROM publishing_workflows
+       WHERE status = 'running'
+       ORDER BY started_at ASC`
+    );
+
+    return result.rows.map((row) => this.mapWorkflowRow(row));
+  }
+
+  /**
+   * Load all step records for a workflow, in execution order
+   */
+  async getSteps(serviceId: string): Promise<WorkflowStepRecord[]> {
+    const result = await pool.query(
+      `SELECT * FROM publishing_workflow_steps
+       WHERE service_id = $1
+       ORDER BY started_at ASC`,
+      [serviceId]
+    );
+
+    return result.rows.map((row) => this.mapStepRow(row));
+  }
+
+  async markStepStarted(serviceId: string, step: PublishingStep): Promise<void> {
+    await pool.query(
+      `INSERT INTO publishing_workflow_steps (service_id, step, status, attempts, started_at)
+       VALUES ($1, $2, 'running', 1, NOW())
+       ON CONFLICT (service_id, step) DO UPDATE SET
+         status = 'running',
+         attempts = publishing_workflow_steps.attempts + 1,
+         error = NULL,
+         started_at = NOW(),
+         completed_at = NULL`,
+      [serviceId, step]
+    );
+
+    await pool.query(
+      'UPDATE publishing_workflows SET current_step = $1, updated_at = NOW() WHERE service_id = $2',
+      [step, serviceId]
+    );
+  }
+
+  async markStepCompleted(
+    serviceId: string,
+    step: PublishingStep,
+    result: unknown
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE publishing_workflow_steps
+       SET status = 'completed', result = $1, completed_at = NOW()
+       WHERE service_id = $2 AND step = $3`,
+      [JSON.stringify(result ?? null), serviceId, step]
+    );
+
+    logger.debug('Workflow step checkpointed', { serviceId, step });
+  }
+
+  async markStepFailed(
+    serviceId: string,
+    step: PublishingStep,
+    error: string
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE publishing_workflow_steps
+       SET status = 'failed', error = $1, completed_at = NOW()
+       WHERE service_id = $2 AND step = $3`,
+      [error, serviceId, step]
+    );
+  }
+
+  /**
+   * Clear a step's checkpoint after its side effects were undone, so a
+   * re-run executes it again instead of replaying the stale result
+   */
+  async markStepCompensated(serviceId: string, step: PublishingStep): Promise<void> {
+    await pool.query(
+      `UPDATE publishing_workflow_steps
+       SET status = 'compensated', result = NULL
+       WHERE service_id = $1 AND step = $2`,
+      [serviceId, step]
+    );
+  }
+
+  /**
+   * Drop the step and compensation history of a previous run before the
+   * workflow is started over for the same service
+   */
+  async clearSteps(serviceId: string): Promise<void> {
+    await pool.query('DELETE FROM publishing_workflow_steps WHERE service_id = $1', [serviceId]);
+    await pool.query('DELETE FROM publishing_workflow_compensations WHERE service_id = $1', [serviceId]);
+  }
+
+  async recordCompensation(serviceId: string, record: CompensationRecord): Promise<void> {
+    await pool.query(
+      `INSERT INTO publishing_workflow_compensations
+         (service_id, step, action, status, attempts, error, executed_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        serviceId,
+        record.step,
+        record.action,
+        record.status,
+        record.attempts,
+        record.error || null,
+        record.executedAt,
+      ]
+    );
+  }
+
+  /**
+   * Compensations run for a workflow, in execution order
+   */
+  async getCompensations(serviceId: string): Promise<CompensationRecord[]> {
+    const result = await pool.query(
+      `SELECT * FROM publishing_workflow_compensations
+       WHERE service_id = $1
+       ORDER BY executed_at ASC`,
+      [serviceId]
+    );
+
+    return result.rows.map((row) => ({
+      step: row.step as PublishingStep,
+      action: row.action as string,
+      status: row.status as CompensationStatus,
+      attempts: row.attempts as number,
+      error: (row.error as string | null) || undefined,
+      executedAt: row.executed_at as Date,
+    }));
+  }
+
+  async completeWorkflow(serviceId: string): Promise<void> {
+    await this.finishWorkflow(serviceId, 'completed');
+  }
+
+  async failWorkflow(serviceId: string, error: string): Promise<void> {
+    await this.finishWorkflow(serviceId, 'failed', error);
+  }
+
+  /**
+   * Record the outcome of rolling back a failed workflow, keeping its error
+   */
+  async finishRollback(serviceId: string, succeeded: boolean): Promise<void> {
+    await pool.query(
+      `UPDATE publishing_workflows
+       SET status = $1, updated_at = NOW()
+       WHERE service_id = $2`,
+      [succeeded ? 'rolled_back' : 'rollback_failed', serviceId]
+    );
+  }
+
+  private async finishWorkflow(
+    serviceId: string,
+    status: WorkflowRunStatus,
+    error?: string
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE publishing_workflows
+       SET status = $1, error = $2, completed_at = NOW(), updated_at = NOW()
+       WHERE service_id = $3`,
+      [status, error || null, serviceId]
+    );
+  }
+
+  private mapWorkflowRow(row: Record<string, unknown>): PublishingWorkflowRecord {
+    return {
+      serviceId: row.service_id as string,
+      providerId: row.provider_id as string,
+      serviceSpec: this.parseJson(row.service_spec) as Partial<Service>,
+      status: row.status as WorkflowRunStatus,
+      currentStep: (row.current_step as PublishingStep | null) || undefined,
+      error: (row.error as string | null) || undefined,
+      startedAt: row.started_at as Date,
+      completedAt: (row.completed_at as Date | null) || undefined,
+    };
+  }
+
+  private mapStepRow(row: Record<string, unknown>): WorkflowStepRecord {
+    return {
+      step: row.step as PublishingStep,
+      status: row.status as WorkflowStepStatus,
+      attempts: row.attempts as number,
+      result: this.parseJson(row.result) ?? undefined,
+      error: (row.error as string | null) || undefined,
+      startedAt: row.started_at as Date,
+      completedAt: (row.completed_at as Date | null) || undefined,
+    };
+  }
+
+  private parseJson(value: unknown): unknown {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+}